@@ -480,12 +480,17 @@ describe('estimateTravelMinutes', () => {
     expect(estimateTravelMinutes(-5)).toBe(0);
   });
 
-  it('returns ceil(distance * 2.4 + 5) for positive distance', () => {
-    // 5 miles: 5 * 2.4 + 5 = 17
-    expect(estimateTravelMinutes(5)).toBe(17);
-    // 1 mile: 1 * 2.4 + 5 = 7.4 -> ceil = 8
+  it('returns the driving estimate plus 5 min parking for positive distance', () => {
+    // 5 miles at 35 mph: ceil(8.57) = 9, + 5 = 14
+    expect(estimateTravelMinutes(5)).toBe(14);
+    // 1 mile at 25 mph: ceil(2.4) = 3, + 5 = 8
     expect(estimateTravelMinutes(1)).toBe(8);
   });
+
+  it('uses the given travel mode', () => {
+    // 1 mile walked: 1.25 street miles at 3 mph = 25 min, + 5 = 30
+    expect(estimateTravelMinutes(1, 'walk')).toBe(30);
+  });
 });
 
 describe('calculateTravelBuffer', () => {
@@ -863,3 +868,119 @@ describe('Full pipeline: analyzeCalendarSlots -> matchActivityToSlots -> generat
     expect(ctx.suggestedStartTime.getTime()).toBeLessThan(ctx.suggestedEndTime.getTime());
   });
 });
+
+// ========================================================================
+//  SECTION: Timezones (DST and travel)
+// ========================================================================
+
+describe('Timezones', () => {
+  const NEW_YORK = 'America/New_York';
+  const TOKYO = 'Asia/Tokyo';
+
+  function zonedSlot(startIso: string, endIso: string): FreeTimeSlot {
+    const start = new Date(startIso);
+    const end = new Date(endIso);
+    return {
+      start,
+      end,
+      durationMinutes: (end.getTime() - start.getTime()) / 60000,
+      travelBufferFromPrevious: 0,
+      travelBufferToNext: 0,
+    };
+  }
+
+  it('bounds the day at 7 AM - 11 PM in the user\'s zone on the spring-forward day', () => {
+    // March 8, 2026: New York moves to EDT at 2 AM
+    const result = analyzeCalendarSlots([], new Date('2026-03-08T16:00:00Z'), undefined, NEW_YORK);
+
+    expect(result.freeSlots[0].start.toISOString()).toBe('2026-03-08T11:00:00.000Z');
+    expect(result.freeSlots[0].end.toISOString()).toBe('2026-03-09T03:00:00.000Z');
+    expect(result.totalFreeMinutes).toBe(960);
+  });
+
+  it('keeps the day boundaries on the fall-back day', () => {
+    const result = analyzeCalendarSlots([], new Date('2026-11-01T16:00:00Z'), undefined, NEW_YORK);
+
+    expect(result.freeSlots[0].start.toISOString()).toBe('2026-11-01T12:00:00.000Z'); // 7 AM EST
+    expect(result.daySummary).toContain('Sunday, Nov 1');
+  });
+
+  it('analyzes a day on a trip in the destination\'s zone', () => {
+    // 9-10 AM in Tokyo is the previous evening in UTC and in the US
+    const meeting: CalendarEvent = {
+      id: 'tokyo-meeting',
+      title: 'Client meeting',
+      startTime: new Date('2026-04-14T00:00:00Z'),
+      endTime: new Date('2026-04-14T01:00:00Z'),
+    };
+    const dinnerAtHome: CalendarEvent = {
+      id: 'home-dinner',
+      title: 'Dinner',
+      startTime: new Date('2026-04-14T23:00:00Z'),
+      endTime: new Date('2026-04-15T00:00:00Z'),
+    };
+
+    const result = analyzeCalendarSlots([meeting, dinnerAtHome], new Date('2026-04-14T03:00:00Z'), undefined, TOKYO);
+
+    expect(result.events.map(e => e.id)).toEqual(['tokyo-meeting']);
+    expect(result.freeSlots[0].start.toISOString()).toBe('2026-04-13T22:00:00.000Z'); // 7 AM in Tokyo
+    expect(result.daySummary).toContain('Tuesday, Apr 14');
+  });
+
+  it('checks opening hours on the venue\'s clock', () => {
+    const saturdayHours = [{ open: { day: 6, time: '0900' }, close: { day: 6, time: '1700' } }];
+    // Saturday 9 AM - 1 PM in New York; 11 PM Saturday - 3 AM Sunday in Tokyo
+    const slots = [zonedSlot('2026-01-17T14:00:00Z', '2026-01-17T18:00:00Z')];
+
+    expect(matchActivityToSlots('coffee', slots, undefined, saturdayHours, NEW_YORK)).not.toBeNull();
+    expect(matchActivityToSlots('coffee', slots, undefined, saturdayHours, TOKYO)).toBeNull();
+  });
+
+  it('labels suggested times in the user\'s zone', () => {
+    const match = matchActivityToSlots('coffee', [zonedSlot('2026-01-17T14:00:00Z', '2026-01-17T18:00:00Z')], undefined, undefined, NEW_YORK);
+    const ctx = generateDateContext(match!, new Date('2026-01-17T14:00:00Z'), NEW_YORK);
+
+    expect(ctx.suggestedTimeLabel).toMatch(/^Sat 9:00 AM - /);
+  });
+});
+
+// ========================================================================
+//  SECTION: Recurring events
+// ========================================================================
+
+describe('Recurring events', () => {
+  const NEW_YORK = 'America/New_York';
+
+  // Every Tuesday 6-7 PM in New York, starting January 6, 2026
+  const yoga: CalendarEvent = {
+    id: 'yoga',
+    title: 'Yoga',
+    startTime: new Date('2026-01-06T23:00:00Z'),
+    endTime: new Date('2026-01-07T00:00:00Z'),
+    recurrence: { rule: 'FREQ=WEEKLY;BYDAY=TU', timeZone: NEW_YORK },
+  };
+
+  it('blocks out the occurrence on a later matching day', () => {
+    const result = analyzeCalendarSlots([yoga], new Date('2026-03-17T16:00:00Z'), undefined, NEW_YORK);
+
+    // 6 PM EDT after the DST change
+    expect(result.events).toHaveLength(1);
+    expect(result.events[0].startTime.toISOString()).toBe('2026-03-17T22:00:00.000Z');
+    const classStart = result.events[0].startTime.getTime();
+    const classEnd = result.events[0].endTime.getTime();
+    expect(result.freeSlots.every(s => s.end.getTime() <= classStart || s.start.getTime() >= classEnd)).toBe(true);
+  });
+
+  it('leaves days without an occurrence open', () => {
+    const wednesday = analyzeCalendarSlots([yoga], new Date('2026-03-18T16:00:00Z'), undefined, NEW_YORK);
+    const skipped = analyzeCalendarSlots(
+      [{ ...yoga, recurrence: { ...yoga.recurrence!, exdates: ['2026-03-17T22:00:00.000Z'] } }],
+      new Date('2026-03-17T16:00:00Z'),
+      undefined,
+      NEW_YORK
+    );
+
+    expect(wednesday.events).toEqual([]);
+    expect(skipped.events).toEqual([]);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Ranking Replay — Offline Evaluation
+ *
+ * Replays logged feeds (fixtures/*.json) through the solo engine path
+ * (recommend) with Supabase, the city cache and Google Places stubbed, once per
+ * discovery style, and reports NDCG, hit-rate, category diversity and
+ * novelty per style.
+ *
+ * Fails if NDCG or hit-rate drops against ranking-baseline.json. After an
+ * intentional ranking change, refresh the baseline with:
+ *   UPDATE_RANKING_BASELINE=1 npm run eval:ranking
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Fixture-backed Supabase: every table read resolves to the rows installed
+// for the current session, filtered by .eq(); writes are accepted and dropped.
+let mockTables: Record<string, Record<string, unknown>[]> = {};
+
+function mockQuery(rows: Record<string, unknown>[]) {
+  let result = rows;
+  const query: any = {
+    eq: (column: string, value: unknown) => {
+      result = result.filter(row => !(column in row) || row[column] === value);
+      return query;
+    },
+    insert: () => Promise.resolve({ error: null }),
+    upsert: () => Promise.resolve({ error: null }),
+    single: () => Promise.resolve({ data: result[0] ?? null, error: null }),
+    maybeSingle: () => Promise.resolve({ data: result[0] ?? null, error: null }),
+    then: (resolve: any, reject: any) => Promise.resolve({ data: result, error: null }).then(resolve, reject),
+  };
+  ['select', 'in', 'gte', 'lte', 'not', 'is', 'order', 'limit'].forEach(method => {
+    query[method] = () => query;
+  });
+  return query;
+}
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: (table: string) => mockQuery(mockTables[table] || []),
+  },
+}));
+
+// Places stub: the logged recommendations are the city cache
+const mockGetCachedPlaces = jest.fn();
+jest.mock('@/services/cache-manager', () => ({
+  checkCityCache: jest.fn().mockResolvedValue({ exists: true, isStale: false, count: 0 }),
+  seedCityData: jest.fn().mockResolvedValue(0),
+  getCachedPlaces: (...args: unknown[]) => mockGetCachedPlaces(...args),
+}));
+
+jest.mock('@/utils/safe-fetch', () => ({
+  safeFetch: jest.fn().mockRejectedValue(new Error('Network disabled in ranking replay')),
+}));
+
+jest.mock('@/services/city-detection', () => ({
+  detectUserCity: jest.fn().mockResolvedValue({ city: 'Dallas', state: 'TX', lat: 32.7767, lng: -96.797 }),
+  detectUserCityWithFallback: jest.fn().mockResolvedValue({ city: 'Dallas', state: 'TX', lat: 32.7767, lng: -96.797 }),
+}));
+
+jest.mock('@/services/activity-source', () => ({
+  ...jest.requireActual('@/services/activity-source'),
+  isMixedFeedEnabled: () => false,
+}));
+
+jest.mock('@/services/unsplash', () => ({
+  getCachedUnsplashImage: jest.fn().mockResolvedValue(''),
+}));
+
+import { recommend } from '@/services/recommendations';
+import { asPreferences } from '@/services/scoring-pipeline';
+import {
+  compareToBaseline,
+  formatEvalReport,
+  replaySessions,
+  splitFeedback,
+  toBaseline,
+  trackingRowToActivity,
+  EVAL_STYLES,
+} from '@/services/ranking-eval';
+import type { RankedItem, ReplaySession, SessionMetrics, StyleReport } from '@/services/ranking-eval';
+import type { DiscoveryStyle, User } from '@/types/database';
+
+const FIXTURE_DIR = path.join(__dirname, 'fixtures');
+const BASELINE_PATH = path.join(__dirname, 'ranking-baseline.json');
+
+function loadSessions(): ReplaySession[] {
+  return fs.readdirSync(FIXTURE_DIR)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, file), 'utf8')) as ReplaySession);
+}
+
+async function replayRank(session: ReplaySession, style: DiscoveryStyle): Promise<RankedItem[]> {
+  mockTables = { feedback: splitFeedback(session).history as unknown as Record<string, unknown>[] };
+  mockGetCachedPlaces.mockResolvedValue(session.recommendation_tracking.map(trackingRowToActivity));
+  jest.setSystemTime(new Date(session.capturedAt));
+
+  const user = {
+    ...session.user,
+    preferences: { ...asPreferences(session.user.preferences), discovery_style: style },
+  } as User;
+
+  const recommendations = await recommend({
+    kind: 'solo',
+    user,
+    userLocation: session.userLocation,
+    homeLocation: session.homeLocation,
+    maxResults: session.recommendation_tracking.length,
+  });
+
+  return recommendations.map(rec => ({ placeId: rec.place.place_id, category: rec.category }));
+}
+
+describe('ranking replay', () => {
+  const sessions = loadSessions();
+  let metrics: SessionMetrics[] = [];
+  let reports: StyleReport[] = [];
+
+  beforeAll(async () => {
+    process.env.EXPO_PUBLIC_DISABLE_GOOGLE_PLACES_API = 'true';
+    jest.useFakeTimers({ advanceTimers: true });
+    // Freeze the shuffle so replays are deterministic
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    ({ metrics, reports } = await replaySessions(sessions, replayRank));
+
+    if (process.env.UPDATE_RANKING_BASELINE === '1') {
+      fs.writeFileSync(BASELINE_PATH, JSON.stringify(toBaseline(reports), null, 2) + '\n');
+    }
+    console.info(`Ranking replay (${sessions.length} sessions)\n${formatEvalReport(reports)}`);
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    delete process.env.EXPO_PUBLIC_DISABLE_GOOGLE_PLACES_API;
+  });
+
+  it('replays every fixture under every discovery style', () => {
+    expect(sessions.length).toBeGreaterThan(0);
+    expect(metrics).toHaveLength(sessions.length * EVAL_STYLES.length);
+    metrics.forEach(m => expect(m.ranked).toBeGreaterThan(0));
+  });
+
+  it('keeps every metric within [0, 1]', () => {
+    metrics.forEach(m => {
+      [m.ndcg, m.hitRate, m.diversity, m.novelty].forEach(value => {
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThanOrEqual(1);
+      });
+    });
+  });
+
+  it('does not regress NDCG or hit-rate against the baseline', () => {
+    const baseline = JSON.parse(fs.readFileSync(BASELINE_PATH, 'utf8'));
+    const drifts = compareToBaseline(reports, baseline);
+
+    if (drifts.length > 0) {
+      console.info('Metric drift vs baseline:\n' + drifts
+        .map(d => `  ${d.style} ${d.metric}: ${d.baseline.toFixed(3)} → ${d.current.toFixed(3)}`)
+        .join('\n'));
+    }
+
+    const regressions = drifts.filter(d => (d.metric === 'ndcg' || d.metric === 'hitRate') && d.delta < 0);
+    expect(regressions).toEqual([]);
+  });
+});
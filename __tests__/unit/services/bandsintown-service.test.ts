@@ -0,0 +1,99 @@
+/**
+ * Bandsintown Service — Unit Tests
+ *
+ * Tests cover:
+ * - Narrowing an artist's tour to one city
+ * - Mapping listings to CachedEvents
+ * - Failed and unknown-artist responses
+ */
+
+process.env.EXPO_PUBLIC_BANDSINTOWN_APP_ID = 'test-bit-app';
+
+import {
+  isBandsintownConfigured,
+  searchBandsintownArtistEvents,
+  transformBandsintownEvent,
+} from '@/services/bandsintown-service';
+
+const originalFetch = global.fetch;
+const mockFetch = jest.fn();
+
+function listing(overrides: Record<string, any> = {}) {
+  return {
+    id: '1001',
+    datetime: '2026-06-20T19:30:00',
+    title: '',
+    lineup: ['Taylor Swift'],
+    url: 'https://www.bandsintown.com/e/1001',
+    offers: [{ type: 'Tickets', url: 'https://tickets.example.com/1001', status: 'available' }],
+    venue: { name: 'AT&T Stadium', city: 'Arlington', region: 'TX', country: 'United States' },
+    artist: { image_url: 'https://photos.bandsintown.com/ts.jpg' },
+    ...overrides,
+  };
+}
+
+describe('bandsintown-service', () => {
+  beforeEach(() => {
+    (global as any).fetch = mockFetch;
+    mockFetch.mockReset();
+  });
+
+  afterAll(() => {
+    (global as any).fetch = originalFetch;
+  });
+
+  it('is configured when an app_id is set', () => {
+    expect(isBandsintownConfigured()).toBe(true);
+  });
+
+  describe('transformBandsintownEvent', () => {
+    it('maps a listing, naming it after the lineup when untitled', () => {
+      expect(transformBandsintownEvent(listing(), 'Taylor Swift')).toEqual({
+        id: 'bit:1001',
+        name: 'Taylor Swift',
+        venue: 'AT&T Stadium',
+        address: 'Arlington, TX',
+        city: 'Arlington',
+        date: '2026-06-20',
+        time: '19:30:00',
+        imageUrl: 'https://photos.bandsintown.com/ts.jpg',
+        ticketUrl: 'https://tickets.example.com/1001',
+        source: 'bandsintown',
+        category: 'music',
+      });
+    });
+
+    it('skips listings without a date', () => {
+      expect(transformBandsintownEvent(listing({ datetime: '' }), 'Taylor Swift')).toBeNull();
+    });
+  });
+
+  describe('searchBandsintownArtistEvents', () => {
+    it('keeps upcoming shows in the city, soonest first', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => [
+          listing({ id: '3', datetime: '2026-08-01T20:00:00', venue: { name: 'Dos Equis Pavilion', city: 'Dallas', region: 'TX' } }),
+          listing({ id: '2', datetime: '2026-05-01T20:00:00', venue: { name: 'Moody Center', city: 'Austin', region: 'TX' } }),
+          listing({ id: '1', datetime: '2026-07-01T20:00:00', venue: { name: 'The Factory', city: 'dallas', region: '' } }),
+          listing({ id: '4', datetime: '2026-07-02T20:00:00', venue: { name: 'Elsewhere', city: 'Dallas', region: 'GA' } }),
+        ],
+      });
+
+      const events = await searchBandsintownArtistEvents('Taylor Swift', 'Dallas', 'TX');
+
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        'https://rest.bandsintown.com/artists/Taylor%20Swift/events?app_id=test-bit-app&date=upcoming'
+      );
+      expect(events.map(e => e.id)).toEqual(['bit:1', 'bit:3']);
+    });
+
+    it('returns nothing for unknown artists and failed requests', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ errorMessage: '[NotFound] The artist was not found' }) });
+      await expect(searchBandsintownArtistEvents('Nobody', 'Dallas', 'TX')).resolves.toEqual([]);
+
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 403 });
+      await expect(searchBandsintownArtistEvents('Taylor Swift', 'Dallas', 'TX')).resolves.toEqual([]);
+    });
+  });
+});
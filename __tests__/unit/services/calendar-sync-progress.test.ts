@@ -1,7 +1,8 @@
 /**
  * Calendar Sync Progress Tests
  *
- * Tests inferCategory keyword matching, edge cases, and progress callback logic.
+ * Tests inferCategory keyword matching, edge cases, progress callback logic,
+ * and that importing never overwrites a Loop event synced to the device.
  */
 
 jest.mock('expo-calendar', () => ({}));
@@ -31,7 +32,8 @@ jest.mock('@/utils/route-calculations', () => ({
   calculateTravelTimeWithBuffer: jest.fn(() => 15),
 }));
 
-import { inferCategory } from '@/services/calendar-service';
+import { inferCategory, syncSelectedEventsWithProgress, type CalendarEvent } from '@/services/calendar-service';
+import { supabase } from '@/lib/supabase';
 
 describe('inferCategory', () => {
   // Fitness
@@ -181,3 +183,50 @@ describe('syncSelectedEventsWithProgress callback', () => {
     expect(onProgress).toHaveBeenNthCalledWith(2, { current: 2, total: 2, currentTitle: 'Event C' });
   });
 });
+
+describe('syncSelectedEventsWithProgress with linked rows', () => {
+  const upsert = jest.fn();
+  let linked: { source: string } | null = null;
+
+  const deviceEvent: CalendarEvent = {
+    id: 'device-1',
+    title: 'Dinner with family',
+    startDate: new Date('2026-10-20T23:00:00Z'),
+    endDate: new Date('2026-10-21T01:00:00Z'),
+    allDay: false,
+    calendarId: 'cal-1',
+  };
+
+  beforeEach(() => {
+    upsert.mockResolvedValue({ error: null });
+    jest.mocked(supabase.from).mockImplementation(() => {
+      const query: any = {
+        select: () => query,
+        eq: () => query,
+        maybeSingle: () => Promise.resolve({ data: linked, error: null }),
+        upsert,
+      };
+      return query;
+    });
+  });
+
+  it('leaves a Loop event that sync copied to the device untouched', async () => {
+    linked = { source: 'manual' };
+
+    const result = await syncSelectedEventsWithProgress('user-1', [deviceEvent], jest.fn());
+
+    expect(result).toEqual({ success: true, eventsSynced: 1, errors: [] });
+    expect(upsert).not.toHaveBeenCalled();
+  });
+
+  it('refreshes an event imported earlier', async () => {
+    linked = { source: 'apple_calendar' };
+
+    await syncSelectedEventsWithProgress('user-1', [deviceEvent], jest.fn());
+
+    expect(upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ external_event_id: 'device-1', source: 'apple_calendar', category: 'dining' }),
+      { onConflict: 'user_id,external_event_id' }
+    );
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Calendar Sync — Unit Tests
+ *
+ * Tests cover:
+ * - External keys for single and recurring device events
+ * - Fingerprints of the fields Loop and the device share
+ * - Sync planning: imports, pulls, pushes, deletions both ways and conflicts
+ */
+
+import {
+  buildExternalEventKey,
+  buildSyncConflict,
+  fingerprintSyncFields,
+  parseExternalEventKey,
+  planCalendarSync,
+  syncFieldsFromDeviceEvent,
+  syncFieldsFromRow,
+  type CalendarSyncPlanOptions,
+  type SyncedEventRow,
+} from '@/services/calendar-sync';
+import type { CalendarEvent } from '@/services/calendar-service';
+
+const options: CalendarSyncPlanOptions = {
+  windowStart: new Date('2026-04-01T00:00:00Z'),
+  windowEnd: new Date('2026-05-01T00:00:00Z'),
+  pushLoopEvents: true,
+};
+
+function deviceEvent(overrides: Partial<CalendarEvent> = {}): CalendarEvent {
+  return {
+    id: 'dev-1',
+    title: 'Dentist',
+    startDate: new Date('2026-04-10T15:00:00Z'),
+    endDate: new Date('2026-04-10T16:00:00Z'),
+    location: '123 Main St',
+    notes: '',
+    allDay: false,
+    calendarId: 'cal-1',
+    ...overrides,
+  };
+}
+
+/** A row imported from deviceEvent() and synced since */
+function syncedRow(overrides: Partial<SyncedEventRow> = {}): SyncedEventRow {
+  const row: SyncedEventRow = {
+    id: 'row-1',
+    title: 'Dentist',
+    description: null,
+    address: '123 Main St',
+    start_time: '2026-04-10T15:00:00+00:00',
+    end_time: '2026-04-10T16:00:00+00:00',
+    all_day: false,
+    status: 'scheduled',
+    source: 'apple_calendar',
+    external_calendar_id: 'cal-1',
+    external_event_id: 'dev-1',
+    external_etag: fingerprintSyncFields(syncFieldsFromDeviceEvent(deviceEvent())),
+    sync_conflict: null,
+  };
+  return { ...row, ...overrides };
+}
+
+function loopRow(overrides: Partial<SyncedEventRow> = {}): SyncedEventRow {
+  return syncedRow({
+    id: 'loop-1',
+    title: 'Climbing',
+    address: 'Summit Gym',
+    source: 'manual',
+    external_calendar_id: null,
+    external_event_id: null,
+    external_etag: null,
+    ...overrides,
+  });
+}
+
+const types = (actions: { type: string }[]) => actions.map(a => a.type);
+
+describe('calendar-sync', () => {
+  describe('keys and fingerprints', () => {
+    it('keys recurring instances by their original start', () => {
+      const instance = deviceEvent({ id: 'series-9', instanceStartDate: new Date('2026-04-14T17:00:00Z') });
+
+      const key = buildExternalEventKey(instance);
+
+      expect(key).toBe('series-9@2026-04-14T17:00:00.000Z');
+      expect(parseExternalEventKey(key)).toEqual({ eventId: 'series-9', instanceStartDate: new Date('2026-04-14T17:00:00Z') });
+      expect(parseExternalEventKey('dev-1')).toEqual({ eventId: 'dev-1' });
+    });
+
+    it('fingerprints a row and its device event the same', () => {
+      const fromRow = syncFieldsFromRow(syncedRow({ description: '  ' }));
+      const fromDevice = syncFieldsFromDeviceEvent(deviceEvent({ location: ' 123 Main St ', notes: undefined }));
+
+      expect(fromRow).toEqual(fromDevice);
+      expect(fingerprintSyncFields(fromRow)).toBe(fingerprintSyncFields(fromDevice));
+      expect(fingerprintSyncFields({ ...fromRow, title: 'Dentist!' })).not.toBe(fingerprintSyncFields(fromRow));
+    });
+  });
+
+  describe('planCalendarSync', () => {
+    it('does nothing when neither side changed', () => {
+      expect(planCalendarSync([syncedRow()], [deviceEvent()], options)).toEqual([]);
+    });
+
+    it('imports new device events, including ones without a location', () => {
+      const busy = deviceEvent({ id: 'dev-2', location: undefined });
+
+      const actions = planCalendarSync([syncedRow()], [deviceEvent(), busy], options);
+
+      expect(actions).toEqual([{ type: 'import', event: busy }]);
+    });
+
+    it('pulls device edits into Loop', () => {
+      const moved = deviceEvent({ startDate: new Date('2026-04-10T17:00:00Z'), endDate: new Date('2026-04-10T18:00:00Z') });
+      expect(types(planCalendarSync([syncedRow()], [moved], options))).toEqual(['pull']);
+    });
+
+    it('pushes Loop edits to the device', () => {
+      const edited = syncedRow({ title: 'Dentist (bring forms)' });
+      expect(types(planCalendarSync([edited], [deviceEvent()], options))).toEqual(['push']);
+    });
+
+    it('flags a conflict when both sides changed differently', () => {
+      const row = syncedRow({ title: 'Dentist - Dr. Lee' });
+      const event = deviceEvent({ title: 'Dentist cleaning' });
+
+      expect(planCalendarSync([row], [event], options)).toEqual([{ type: 'conflict', row, event }]);
+      // The same edit on both sides is not a conflict
+      expect(types(planCalendarSync([row], [deviceEvent({ title: 'Dentist - Dr. Lee' })], options))).toEqual(['pull']);
+    });
+
+    it('leaves rows with an open conflict alone', () => {
+      const row = syncedRow({ title: 'Changed', sync_conflict: buildSyncConflict(syncedRow(), deviceEvent()) });
+      expect(planCalendarSync([row], [deviceEvent({ title: 'Also changed' })], options)).toEqual([]);
+    });
+
+    it('deletes the device copy of an event cancelled in Loop', () => {
+      expect(types(planCalendarSync([syncedRow({ status: 'cancelled' })], [deviceEvent()], options))).toEqual(['delete_on_device']);
+    });
+
+    it('removes imported events deleted on the device, and cancels Loop-made ones', () => {
+      const imported = syncedRow();
+      const pushed = loopRow({ external_event_id: 'dev-7' });
+      pushed.external_etag = fingerprintSyncFields(syncFieldsFromRow(pushed));
+
+      expect(types(planCalendarSync([imported, pushed], [], options))).toEqual(['remove', 'unlink']);
+    });
+
+    it('flags a conflict when Loop edited an event deleted on the device', () => {
+      const actions = planCalendarSync([syncedRow({ title: 'Dentist 4pm' })], [], options);
+      expect(actions).toEqual([expect.objectContaining({ type: 'conflict', event: null })]);
+    });
+
+    it('leaves linked rows outside the synced range alone', () => {
+      const later = syncedRow({ start_time: '2026-06-01T15:00:00Z', end_time: '2026-06-01T16:00:00Z' });
+      expect(planCalendarSync([later], [], options)).toEqual([]);
+    });
+
+    it('creates upcoming Loop-only events on the device when allowed', () => {
+      const rows = [
+        loopRow(),
+        loopRow({ id: 'loop-2', status: 'cancelled' }),
+        loopRow({ id: 'loop-3', start_time: '2026-03-01T15:00:00Z', end_time: '2026-03-01T16:00:00Z' }),
+      ];
+
+      expect(planCalendarSync(rows, [], options)).toEqual([{ type: 'create_on_device', row: rows[0] }]);
+      expect(planCalendarSync(rows, [], { ...options, pushLoopEvents: false })).toEqual([]);
+    });
+
+    it('adopts rows synced before etags by trusting the side that owns them', () => {
+      const legacyImport = syncedRow({ external_etag: null, title: 'Old title' });
+      const legacyLoop = loopRow({ external_event_id: 'dev-7', title: 'Climbing (new)' });
+
+      const actions = planCalendarSync(
+        [legacyImport, legacyLoop],
+        [deviceEvent(), deviceEvent({ id: 'dev-7', title: 'Climbing' })],
+        options
+      );
+
+      expect(types(actions)).toEqual(['pull', 'push']);
+    });
+  });
+
+  it('records both versions in a conflict', () => {
+    const conflict = buildSyncConflict(syncedRow({ title: 'Loop title' }), null, new Date('2026-04-02T00:00:00Z'));
+    expect(conflict).toEqual({
+      detectedAt: '2026-04-02T00:00:00.000Z',
+      loop: expect.objectContaining({ title: 'Loop title', location: '123 Main St' }),
+      device: null,
+    });
+  });
+});
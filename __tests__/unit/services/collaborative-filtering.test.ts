@@ -0,0 +1,255 @@
+/**
+ * Collaborative Filtering — Unit Tests
+ *
+ * Tests cover:
+ * - Interaction merging (strength, thumbs-down veto, private rows)
+ * - Item-to-item neighbours (co-user threshold, shrinkage, ordering)
+ * - Seed voting, friend endorsements and the community cold start
+ * - Explanation clauses
+ * - Feed-time loading from Supabase (warm and cold users)
+ */
+
+let mockTables: Record<string, Record<string, unknown>[]> = {};
+
+function mockQuery(rows: Record<string, unknown>[]) {
+  let result = rows;
+  const query: any = {
+    eq: (column: string, value: unknown) => {
+      result = result.filter(row => row[column] === value);
+      return query;
+    },
+    in: (column: string, values: unknown[]) => {
+      result = result.filter(row => values.includes(row[column]));
+      return query;
+    },
+    then: (resolve: any, reject: any) => Promise.resolve({ data: result, error: null }).then(resolve, reject),
+  };
+  ['select', 'or', 'order', 'limit'].forEach(method => {
+    query[method] = () => query;
+  });
+  return query;
+}
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: (table: string) => mockQuery(mockTables[table] || []),
+  },
+}));
+
+import {
+  buildItemNeighbors,
+  collectInteractions,
+  communityFallback,
+  describeCollaborativeMatch,
+  loadCollaborativeMatches,
+  mergeFriendEndorsements,
+  neighborsToRows,
+  scoreFromNeighbors,
+  CF_CONFIG,
+} from '@/services/collaborative-filtering';
+import type { CollaborativeMatch, PlaceInteraction } from '@/services/collaborative-filtering';
+
+function like(userId: string, placeId: string, strength = 1): PlaceInteraction {
+  return { userId, placeId, strength };
+}
+
+describe('collaborative-filtering', () => {
+  beforeEach(() => {
+    mockTables = {};
+  });
+
+  describe('collectInteractions', () => {
+    it('keeps the strongest interaction per user and place', () => {
+      const interactions = collectInteractions({
+        feedback: [{ user_id: 'u1', activity_id: 'a', rating: 'thumbs_up' }],
+        likes: [{ user_id: 'u1', place_id: 'a', place_name: 'Place A' }],
+        tracking: [{ user_id: 'u1', google_place_id: 'b', place_name: 'Place B', status: 'accepted' }],
+      });
+
+      expect(interactions).toEqual([
+        { userId: 'u1', placeId: 'a', strength: 1, placeName: 'Place A' },
+        { userId: 'u1', placeId: 'b', strength: 0.5, placeName: 'Place B' },
+      ]);
+    });
+
+    it('lets a thumbs down cancel that user’s positive signals', () => {
+      const interactions = collectInteractions({
+        feedback: [{ user_id: 'u1', activity_id: 'a', rating: 'thumbs_down' }],
+        likes: [{ user_id: 'u1', place_id: 'a' }, { user_id: 'u2', place_id: 'a' }],
+      });
+
+      expect(interactions.map(i => i.userId)).toEqual(['u2']);
+    });
+
+    it('drops private rows unless they are the user’s own seeds', () => {
+      const sources = {
+        likes: [{ user_id: 'u1', place_id: 'a', visibility: 'private' }],
+        feedback: [{ user_id: 'u1', activity_id: 'b', rating: 'thumbs_up', visibility: 'private' }],
+      };
+
+      expect(collectInteractions(sources)).toHaveLength(0);
+      expect(collectInteractions(sources, true)).toHaveLength(2);
+    });
+
+    it('ignores tracking rows that were not accepted', () => {
+      expect(collectInteractions({
+        tracking: [{ user_id: 'u1', google_place_id: 'a', status: 'viewed' }],
+      })).toHaveLength(0);
+    });
+  });
+
+  describe('buildItemNeighbors', () => {
+    // a+b liked together by three users, a+c by two, a+d by one
+    const interactions = [
+      like('u1', 'a'), like('u1', 'b'), like('u1', 'c'), like('u1', 'd'),
+      like('u2', 'a'), like('u2', 'b'), like('u2', 'c'),
+      like('u3', 'a'), like('u3', 'b'),
+    ];
+
+    it('links places that enough users engaged with together', () => {
+      const neighbors = buildItemNeighbors(interactions);
+
+      expect(neighbors.get('a')?.map(n => n.placeId)).toEqual(['b', 'c']);
+      expect(neighbors.get('b')?.map(n => n.placeId)).toEqual(['a', 'c']);
+      expect(neighbors.has('d')).toBe(false);
+    });
+
+    it('shrinks similarity toward 0 when the overlap is small', () => {
+      const neighbors = buildItemNeighbors(interactions);
+      const ab = neighbors.get('a')!.find(n => n.placeId === 'b')!;
+
+      // cosine(a, b) = 1 with 3 co-users → 1 × 3 / (3 + 5)
+      expect(ab.coUsers).toBe(3);
+      expect(ab.similarity).toBeCloseTo(3 / 8);
+    });
+
+    it('keeps only the strongest neighbours per place', () => {
+      const neighbors = buildItemNeighbors(interactions, { maxNeighborsPerPlace: 1, minCoUsers: 1 });
+
+      expect(neighbors.get('a')).toHaveLength(1);
+      expect(neighbors.get('a')![0].placeId).toBe('b');
+    });
+  });
+
+  describe('scoring', () => {
+    const neighbors = new Map([
+      ['a', [{ placeId: 'x', similarity: 0.6, coUsers: 4 }, { placeId: 'b', similarity: 0.5, coUsers: 3 }]],
+      ['b', [{ placeId: 'x', similarity: 0.5, coUsers: 3 }, { placeId: 'y', similarity: 0.2, coUsers: 2 }]],
+    ]);
+    const seeds = [
+      { userId: 'me', placeId: 'a', strength: 1, placeName: 'Place A' },
+      { userId: 'me', placeId: 'b', strength: 0.5, placeName: 'Place B' },
+    ];
+
+    it('combines votes from several liked places', () => {
+      const matches = scoreFromNeighbors(seeds, neighbors);
+
+      // 1 - (1 - 0.6)(1 - 0.25)
+      expect(matches.get('x')!.score).toBeCloseTo(0.7);
+      expect(matches.get('x')).toMatchObject({ source: 'neighbors', becauseOfPlaceId: 'a', becauseOfPlaceName: 'Place A' });
+      expect(matches.get('y')!.score).toBeCloseTo(0.1);
+    });
+
+    it('does not score places the user already liked', () => {
+      expect(scoreFromNeighbors(seeds, neighbors).has('b')).toBe(false);
+    });
+
+    it('folds in friend endorsements', () => {
+      const matches = new Map<string, CollaborativeMatch>([['x', { score: 0.2, source: 'neighbors' }]]);
+      mergeFriendEndorsements(matches, new Map([['x', 1], ['z', 2], ['a', 3]]), new Set(['a']));
+
+      expect(matches.get('x')).toMatchObject({ source: 'friends', friendCount: 1 });
+      expect(matches.get('x')!.score).toBeCloseTo(0.6);
+      expect(matches.get('z')!.score).toBeCloseTo(0.75);
+      expect(matches.has('a')).toBe(false);
+    });
+
+    it('falls back to capped community favourites', () => {
+      const matches = communityFallback([
+        { place_id: 'p1', total_likes: 30, total_thumbs_up: 10, total_thumbs_down: 0 },
+        { place_id: 'p2', total_likes: 2, total_thumbs_up: 1, total_thumbs_down: 0 },
+        { place_id: 'p3', total_likes: 5, total_thumbs_up: 5, total_thumbs_down: 10 },
+      ]);
+
+      expect(matches.get('p1')).toEqual({ score: CF_CONFIG.communityMaxScore, source: 'community' });
+      expect(matches.has('p2')).toBe(false);
+      expect(matches.get('p3')!.score).toBeCloseTo(0.5 * 0.5 * 0.5);
+    });
+  });
+
+  describe('describeCollaborativeMatch', () => {
+    it('names the reason behind strong matches only', () => {
+      expect(describeCollaborativeMatch({ score: 0.7, source: 'neighbors', becauseOfPlaceName: 'Place A' }))
+        .toBe('people who loved Place A loved this');
+      expect(describeCollaborativeMatch({ score: 0.7, source: 'neighbors' })).toBe('people like you loved this');
+      expect(describeCollaborativeMatch({ score: 0.5, source: 'friends', friendCount: 1 })).toBe('a friend loved this');
+      expect(describeCollaborativeMatch({ score: 0.8, source: 'friends', friendCount: 3 })).toBe('3 friends loved this');
+      expect(describeCollaborativeMatch({ score: 0.5, source: 'community' })).toBe('a Loop community favorite');
+      expect(describeCollaborativeMatch({ score: 0.2, source: 'neighbors' })).toBeNull();
+      expect(describeCollaborativeMatch(undefined)).toBeNull();
+    });
+  });
+
+  describe('neighborsToRows', () => {
+    it('flattens neighbours into place_neighbors rows', () => {
+      const rows = neighborsToRows('Dallas', 'TX', new Map([['a', [{ placeId: 'b', similarity: 0.123456, coUsers: 3 }]]]));
+
+      expect(rows).toEqual([
+        { city: 'Dallas', state: 'TX', place_id: 'a', neighbor_place_id: 'b', similarity: 0.1235, co_users: 3 },
+      ]);
+    });
+  });
+
+  describe('loadCollaborativeMatches', () => {
+    const aggregates = [{ place_id: 'popular', total_likes: 40, total_thumbs_up: 0, total_thumbs_down: 0 }];
+
+    it('scores neighbours of the user’s liked places', async () => {
+      mockTables = {
+        activity_likes: [
+          { user_id: 'me', place_id: 'a', place_name: 'Place A' },
+          { user_id: 'me', place_id: 'b', place_name: 'Place B' },
+        ],
+        place_neighbors: [{ place_id: 'a', neighbor_place_id: 'x', similarity: '0.9000', co_users: 6 }],
+        place_ratings_aggregate: aggregates,
+      };
+
+      const matches = await loadCollaborativeMatches('me');
+
+      expect(matches.get('x')).toMatchObject({ source: 'neighbors', becauseOfPlaceName: 'Place A' });
+      expect(matches.get('x')!.score).toBeCloseTo(0.72);
+      expect(matches.has('popular')).toBe(false);
+    });
+
+    it('uses community favourites for a cold-start user', async () => {
+      mockTables = {
+        activity_likes: [{ user_id: 'me', place_id: 'a' }],
+        place_neighbors: [{ place_id: 'a', neighbor_place_id: 'x', similarity: 0.9, co_users: 6 }],
+        place_ratings_aggregate: aggregates,
+      };
+
+      const matches = await loadCollaborativeMatches('me');
+
+      expect(matches.has('x')).toBe(false);
+      expect(matches.get('popular')).toMatchObject({ source: 'community' });
+    });
+
+    it('counts friends’ shared likes', async () => {
+      mockTables = {
+        friendships: [
+          { user_id: 'me', friend_id: 'f1', status: 'accepted' },
+          { user_id: 'f2', friend_id: 'me', status: 'accepted' },
+        ],
+        activity_likes: [
+          { user_id: 'f1', place_id: 'z', visibility: 'friends' },
+          { user_id: 'f2', place_id: 'z', visibility: 'public' },
+          { user_id: 'f2', place_id: 'hidden', visibility: 'private' },
+        ],
+      };
+
+      const matches = await loadCollaborativeMatches('me');
+
+      expect(matches.get('z')).toMatchObject({ source: 'friends', friendCount: 2 });
+      expect(matches.has('hidden')).toBe(false);
+    });
+  });
+});
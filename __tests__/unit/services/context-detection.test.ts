@@ -10,6 +10,7 @@
  * - generateContextBadges (badge generation and prioritization)
  * - Social context inference (keyword matching, occasion detection, group naming)
  * - Trip detection (distance thresholds, grouping)
+ * - Trip timezones (destination zone, dates shown in it)
  *
  * Follows project pattern: pure logic is duplicated as standalone functions
  * to avoid importing React Native dependencies.
@@ -53,6 +54,8 @@ jest.mock('@/lib/supabase', () => ({
   },
 }));
 
+import { detectTripContexts, formatDateRange as formatTripDateRange } from '@/services/context-detection';
+
 // ============================================================================
 // REPLICATED PURE FUNCTIONS (from services/context-detection.ts)
 // ============================================================================
@@ -1791,3 +1794,56 @@ describe('Context Detection Service - Pure Logic', () => {
     });
   });
 });
+
+// ============================================================================
+// TRIP TIMEZONES (real implementation)
+// ============================================================================
+
+describe('Trip timezones', () => {
+  const dallas = { lat: 32.7767, lng: -96.797 };
+  const tokyoStation = { latitude: 35.6812, longitude: 139.7671 };
+  const originalApiKey = process.env.EXPO_PUBLIC_GOOGLE_PLACES_API_KEY;
+
+  beforeAll(() => {
+    // No reverse geocoding — trips are named trip-N
+    delete process.env.EXPO_PUBLIC_GOOGLE_PLACES_API_KEY;
+  });
+
+  afterAll(() => {
+    process.env.EXPO_PUBLIC_GOOGLE_PLACES_API_KEY = originalApiKey;
+  });
+
+  it('takes the destination zone from the trip\'s events', async () => {
+    const trips = await detectTripContexts(
+      [
+        { id: 'e1', title: 'Conference', start_time: '2026-04-14T00:00:00Z', end_time: '2026-04-14T08:00:00Z', location: tokyoStation, timezone: 'Asia/Tokyo' },
+        { id: 'e2', title: 'Dinner', start_time: '2026-04-15T10:00:00Z', end_time: '2026-04-15T12:00:00Z', location: tokyoStation, timezone: null },
+      ],
+      dallas,
+      'America/Chicago'
+    );
+
+    expect(trips).toHaveLength(1);
+    expect(trips[0]).toMatchObject({ destinationTimezone: 'Asia/Tokyo', calendarEventIds: ['e1', 'e2'] });
+    expect(trips[0].scheduledGaps).toHaveLength(1);
+  });
+
+  it('falls back to the home zone when no event has one', async () => {
+    const trips = await detectTripContexts(
+      [{ id: 'e1', title: 'Conference', start_time: '2026-04-14T00:00:00Z', end_time: '2026-04-14T08:00:00Z', location: tokyoStation }],
+      dallas,
+      'America/Chicago'
+    );
+
+    expect(trips[0].destinationTimezone).toBe('America/Chicago');
+  });
+
+  it('shows trip dates on the destination\'s calendar', () => {
+    // 9 AM Tuesday in Tokyo is Monday evening in Chicago
+    const start = new Date('2026-04-14T00:00:00Z');
+    const end = new Date('2026-04-16T03:00:00Z');
+
+    expect(formatTripDateRange(start, end, 'Asia/Tokyo')).toBe('Apr 14 - Apr 16');
+    expect(formatTripDateRange(start, end, 'America/Chicago')).toBe('Apr 13 - Apr 15');
+  });
+});
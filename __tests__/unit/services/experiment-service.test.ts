@@ -0,0 +1,163 @@
+/**
+ * Experiment Service — Unit Tests
+ *
+ * Tests cover:
+ * - hashToUnitInterval (stable, in range)
+ * - Deterministic, weighted variant assignment
+ * - Control fallback for disabled experiments and anonymous users
+ * - Exposure logging through utils/analytics (once per session)
+ * - QA overrides
+ * - Upgrade prompt copy variants
+ */
+
+const mockTrackExperimentExposure = jest.fn();
+jest.mock('@/utils/analytics', () => ({
+  trackExperimentExposure: (...args: unknown[]) => mockTrackExperimentExposure(...args),
+}));
+
+import { EXPERIMENTS } from '@/constants/experiments';
+import { ExperimentService, experiments, hashToUnitInterval } from '@/services/experiment-service';
+import { getRefreshCooldownPrompt, REFRESH_COOLDOWN_PROMPTS } from '@/utils/upgrade-prompts';
+
+function enabledRegistry(): typeof EXPERIMENTS {
+  return {
+    feed_ranking: { ...EXPERIMENTS.feed_ranking, enabled: true },
+    upgrade_prompt_copy: { ...EXPERIMENTS.upgrade_prompt_copy, enabled: true },
+  };
+}
+
+describe('experiment-service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    experiments.reset();
+  });
+
+  describe('hashToUnitInterval', () => {
+    it('is stable and within [0, 1)', () => {
+      const a = hashToUnitInterval('feed_ranking:user-1');
+      expect(hashToUnitInterval('feed_ranking:user-1')).toBe(a);
+      expect(a).toBeGreaterThanOrEqual(0);
+      expect(a).toBeLessThan(1);
+      expect(hashToUnitInterval('feed_ranking:user-2')).not.toBe(a);
+    });
+  });
+
+  describe('assignment', () => {
+    it('assigns the same variant to a user every time', () => {
+      const service = new ExperimentService(enabledRegistry());
+      const first = service.getAssignment('feed_ranking', 'user-42');
+
+      expect(new ExperimentService(enabledRegistry()).getAssignment('feed_ranking', 'user-42')).toEqual(first);
+      expect(first.inExperiment).toBe(true);
+    });
+
+    it('splits users roughly by variant weight', () => {
+      const service = new ExperimentService(enabledRegistry());
+      const counts: Record<string, number> = {};
+
+      for (let i = 0; i < 4000; i++) {
+        const { variant } = service.getAssignment('feed_ranking', `user-${i}`);
+        counts[variant] = (counts[variant] || 0) + 1;
+      }
+
+      // Weights 50 / 25 / 25
+      expect(counts.control / 4000).toBeCloseTo(0.5, 1);
+      expect(counts.stable / 4000).toBeCloseTo(0.25, 1);
+      expect(counts.diverse / 4000).toBeCloseTo(0.25, 1);
+    });
+
+    it('never assigns zero-weight variants', () => {
+      const registry = enabledRegistry();
+      registry.feed_ranking = {
+        ...registry.feed_ranking,
+        variants: registry.feed_ranking.variants.map(v => ({ ...v, weight: v.name === 'diverse' ? 1 : 0 })),
+      };
+      const service = new ExperimentService(registry);
+
+      for (let i = 0; i < 50; i++) {
+        expect(service.getAssignment('feed_ranking', `user-${i}`).variant).toBe('diverse');
+      }
+    });
+
+    it('serves control to everyone when the experiment is disabled', () => {
+      const registry = enabledRegistry();
+      registry.feed_ranking = { ...registry.feed_ranking, enabled: false };
+      const assignment = new ExperimentService(registry).getAssignment('feed_ranking', 'user-1');
+
+      expect(assignment).toMatchObject({ variant: 'control', inExperiment: false });
+      expect(assignment.params.shuffleAmplitude).toBe(10);
+    });
+
+    it('serves control to anonymous callers', () => {
+      const assignment = new ExperimentService(enabledRegistry()).getAssignment('feed_ranking', undefined);
+      expect(assignment).toMatchObject({ variant: 'control', inExperiment: false });
+    });
+  });
+
+  describe('exposure', () => {
+    it('logs one exposure per user per experiment with the variant attached', () => {
+      const service = new ExperimentService(enabledRegistry());
+      const { variant } = service.trackExposure('feed_ranking', 'user-7');
+      service.trackExposure('feed_ranking', 'user-7');
+
+      expect(mockTrackExperimentExposure).toHaveBeenCalledTimes(1);
+      expect(mockTrackExperimentExposure).toHaveBeenCalledWith('user-7', 'feed_ranking', variant);
+    });
+
+    it('does not log exposures outside the experiment', () => {
+      const registry = enabledRegistry();
+      registry.feed_ranking = { ...registry.feed_ranking, enabled: false };
+      new ExperimentService(registry).trackExposure('feed_ranking', 'user-7');
+
+      expect(mockTrackExperimentExposure).not.toHaveBeenCalled();
+    });
+
+    it('does not log reads via getParams', () => {
+      new ExperimentService(enabledRegistry()).getParams('feed_ranking', 'user-7');
+      expect(mockTrackExperimentExposure).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('overrides', () => {
+    it('forces a variant without counting an exposure', () => {
+      const service = new ExperimentService(enabledRegistry());
+      service.setOverride('feed_ranking', 'diverse');
+
+      const assignment = service.trackExposure('feed_ranking', 'user-1');
+      expect(assignment).toMatchObject({ variant: 'diverse', inExperiment: false });
+      expect(assignment.params.maxPerCategoryInTop10).toBe(2);
+      expect(mockTrackExperimentExposure).not.toHaveBeenCalled();
+
+      service.clearOverride('feed_ranking');
+      expect(service.getAssignment('feed_ranking', 'user-1').inExperiment).toBe(true);
+    });
+
+    it('ignores unknown variant names', () => {
+      const service = new ExperimentService(enabledRegistry());
+      service.setOverride('feed_ranking', 'nope');
+
+      expect(service.getAssignment('feed_ranking', 'user-1').inExperiment).toBe(true);
+    });
+  });
+
+  describe('upgrade prompt copy', () => {
+    it('keeps the default copy for control', () => {
+      expect(getRefreshCooldownPrompt('free', 'user-1')).toEqual(REFRESH_COOLDOWN_PROMPTS.free);
+    });
+
+    it('applies variant copy', () => {
+      experiments.setOverride('upgrade_prompt_copy', 'direct');
+      const prompt = getRefreshCooldownPrompt('free', 'user-1');
+
+      expect(prompt.title).toBe('Want fresh picks right now?');
+      expect(prompt.primaryButton).toBe('Try Loop Plus');
+      expect(prompt.featureHighlight).toBeUndefined();
+      expect(prompt.message).toBe(REFRESH_COOLDOWN_PROMPTS.free.message);
+    });
+
+    it('leaves the empty Plus prompt alone', () => {
+      experiments.setOverride('upgrade_prompt_copy', 'direct');
+      expect(getRefreshCooldownPrompt('plus', 'user-1').title).toBe('');
+    });
+  });
+});
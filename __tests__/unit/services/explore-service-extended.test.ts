@@ -25,9 +25,9 @@ jest.mock('@/components/category-selector', () => ({
 }));
 
 // Mock recommendations service
-const mockGenerateRecommendations = jest.fn().mockResolvedValue([]);
+const mockRecommend = jest.fn().mockResolvedValue([]);
 jest.mock('@/services/recommendations', () => ({
-  generateRecommendations: (...args: any[]) => mockGenerateRecommendations(...args),
+  recommend: (...args: any[]) => mockRecommend(...args),
 }));
 
 // Mock moments service
@@ -184,8 +184,8 @@ describe('fetchExploreBatch - categoryFilter', () => {
   const mockLocation = { lat: 32.7, lng: -96.8 };
 
   beforeEach(() => {
-    mockGenerateRecommendations.mockClear();
-    mockGenerateRecommendations.mockResolvedValue([]);
+    mockRecommend.mockClear();
+    mockRecommend.mockResolvedValue([]);
   });
 
   it('passes categories array when categoryFilter is provided', async () => {
@@ -197,8 +197,9 @@ describe('fetchExploreBatch - categoryFilter', () => {
       categoryFilter: 'dining',
     });
 
-    expect(mockGenerateRecommendations).toHaveBeenCalledWith(
+    expect(mockRecommend).toHaveBeenCalledWith(
       expect.objectContaining({
+        kind: 'solo',
         categories: ['dining'],
       })
     );
@@ -212,7 +213,7 @@ describe('fetchExploreBatch - categoryFilter', () => {
       excludePlaceIds: [],
     });
 
-    const callArgs = mockGenerateRecommendations.mock.calls[0][0];
+    const callArgs = mockRecommend.mock.calls[0][0];
     expect(callArgs.categories).toBeUndefined();
   });
 });
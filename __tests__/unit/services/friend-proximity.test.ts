@@ -0,0 +1,281 @@
+/**
+ * Friend Proximity Radar — Unit Tests
+ *
+ * Tests cover:
+ * - Free/busy windows and stale locations
+ * - Radius, mute and cooldown filtering
+ * - Alert copy for full vs busy_only visibility
+ * - Polling: notifications, pair cooldowns and trigger counts
+ * - Saving the user's location
+ */
+
+let mockTables: Record<string, Record<string, unknown>[]> = {};
+let mockSnapshots: Record<string, unknown>[] = [];
+const mockInserts: { table: string; values: any }[] = [];
+const mockUpdates: { table: string; values: any }[] = [];
+const mockRpcCalls: Record<string, unknown>[] = [];
+
+function mockQuery(table: string) {
+  let result = mockTables[table] || [];
+  const query: any = {
+    select: () => query,
+    eq: (column: string, value: unknown) => {
+      result = result.filter(row => row[column] === value);
+      return query;
+    },
+    gte: (column: string, value: string) => {
+      result = result.filter(row => String(row[column]) >= value);
+      return query;
+    },
+    insert: (values: any) => {
+      mockInserts.push({ table, values });
+      return {
+        select: () => ({
+          single: () => Promise.resolve({ data: { id: `notif-${mockInserts.length}`, created_at: 'now' }, error: null }),
+        }),
+      };
+    },
+    update: (values: any) => {
+      mockUpdates.push({ table, values });
+      return query;
+    },
+    then: (resolve: any, reject: any) => Promise.resolve({ data: result, error: null }).then(resolve, reject),
+  };
+  return query;
+}
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: (table: string) => mockQuery(table),
+    rpc: (_name: string, args: Record<string, unknown>) => {
+      mockRpcCalls.push(args);
+      return Promise.resolve({ data: mockSnapshots, error: null });
+    },
+  },
+}));
+
+jest.mock('@/services/radar-push-service', () => ({
+  sendRadarPushNotification: jest.fn().mockResolvedValue(false),
+}));
+
+const mockMuted = new Set<string>();
+jest.mock('@/services/friend-groups-service', () => ({
+  getEffectivePrivacyForFriend: jest.fn((_userId: string, friendId: string) =>
+    Promise.resolve({ i_can_see_their_loop: !mockMuted.has(friendId) })
+  ),
+}));
+
+import {
+  buildProximityAlert,
+  FRIEND_PROXIMITY_CONFIG,
+  getFreeUntil,
+  matchProximity,
+  pollProximityRadarsForUser,
+  reportCurrentLocation,
+} from '@/services/friend-proximity';
+import type { ProximitySnapshot } from '@/services/friend-proximity';
+import { sendRadarPushNotification } from '@/services/radar-push-service';
+
+const NOW = new Date('2026-03-03T18:00:00Z');
+const MINUTE_MS = 60 * 1000;
+
+function minutesFromNow(minutes: number): string {
+  return new Date(NOW.getTime() + minutes * MINUTE_MS).toISOString();
+}
+
+function snapshot(overrides: Partial<ProximitySnapshot> = {}): ProximitySnapshot {
+  return {
+    userId: 'friend-1',
+    name: 'Sam',
+    isSelf: false,
+    visibility: 'full',
+    distanceMiles: 0.7,
+    withinRadius: true,
+    locationUpdatedAt: minutesFromNow(-5),
+    busy: [],
+    ...overrides,
+  };
+}
+
+const self = snapshot({ userId: 'user-1', name: 'Me', isSelf: true, distanceMiles: null, withinRadius: false });
+const nearby = snapshot();
+const hook = { friendIds: ['friend-1', 'friend-2'], proximityRadiusMiles: 1 };
+
+describe('friend-proximity', () => {
+  beforeEach(() => {
+    mockTables = {};
+    mockSnapshots = [];
+    mockInserts.length = 0;
+    mockUpdates.length = 0;
+    mockRpcCalls.length = 0;
+    mockMuted.clear();
+    jest.clearAllMocks();
+  });
+
+  describe('getFreeUntil', () => {
+    it('runs to the end of the lookahead with nothing scheduled', () => {
+      expect(getFreeUntil([], NOW)?.getTime())
+        .toBe(NOW.getTime() + FRIEND_PROXIMITY_CONFIG.lookaheadHours * 60 * MINUTE_MS);
+    });
+
+    it('ends at the next busy interval and ignores finished ones', () => {
+      const busy = [
+        { start: minutesFromNow(-120), end: minutesFromNow(-60) },
+        { start: minutesFromNow(90), end: minutesFromNow(120) },
+      ];
+      expect(getFreeUntil(busy, NOW)?.toISOString()).toBe(minutesFromNow(90));
+    });
+
+    it('is null when busy now or free only briefly', () => {
+      expect(getFreeUntil([{ start: minutesFromNow(-10), end: minutesFromNow(10) }], NOW)).toBeNull();
+      expect(getFreeUntil([{ start: minutesFromNow(20), end: minutesFromNow(60) }], NOW)).toBeNull();
+    });
+  });
+
+  describe('matchProximity', () => {
+    it('matches a friend in range when both are free', () => {
+      const [match] = matchProximity(hook, [self, nearby], NOW);
+
+      expect(match.friendId).toBe('friend-1');
+      expect(match.distanceMiles).toBe(0.7);
+      expect(match.freeUntil.toISOString()).toBe(minutesFromNow(FRIEND_PROXIMITY_CONFIG.lookaheadHours * 60));
+    });
+
+    it('uses whoever becomes busy first', () => {
+      const friend = snapshot({ busy: [{ start: minutesFromNow(60), end: minutesFromNow(90) }] });
+      expect(matchProximity(hook, [self, friend], NOW)[0].freeUntil.toISOString()).toBe(minutesFromNow(60));
+    });
+
+    it('skips friends out of range, stale, busy, off the radar or excluded', () => {
+      expect(matchProximity(hook, [self, snapshot({ distanceMiles: 8.7, withinRadius: false })], NOW)).toEqual([]);
+      expect(matchProximity(hook, [self, snapshot({ locationUpdatedAt: minutesFromNow(-120) })], NOW)).toEqual([]);
+      expect(matchProximity(hook, [self, snapshot({ busy: [{ start: minutesFromNow(-5), end: minutesFromNow(30) }] })], NOW)).toEqual([]);
+      expect(matchProximity(hook, [self, snapshot({ userId: 'friend-9' })], NOW)).toEqual([]);
+      expect(matchProximity(hook, [self, nearby], NOW, new Set(['friend-1']))).toEqual([]);
+    });
+
+    it('needs the user to be located and free too', () => {
+      expect(matchProximity(hook, [nearby], NOW)).toEqual([]);
+      expect(matchProximity(hook, [{ ...self, locationUpdatedAt: null }, nearby], NOW)).toEqual([]);
+      expect(matchProximity(hook, [{ ...self, busy: [{ start: minutesFromNow(-5), end: minutesFromNow(30) }] }, nearby], NOW)).toEqual([]);
+    });
+
+    it('puts busy_only friends, whose distance is unknown, last', () => {
+      const busyOnly = snapshot({ userId: 'friend-2', visibility: 'busy_only', distanceMiles: null });
+      const matches = matchProximity(hook, [self, busyOnly, nearby], NOW);
+
+      expect(matches.map(m => [m.friendId, m.distanceMiles])).toEqual([['friend-1', 0.7], ['friend-2', null]]);
+    });
+  });
+
+  describe('buildProximityAlert', () => {
+    it('hides distance from busy_only friends', () => {
+      const [match] = matchProximity(hook, [self, nearby], NOW);
+      const full = buildProximityAlert(match);
+      const busyOnly = buildProximityAlert({ ...match, visibility: 'busy_only' });
+
+      expect(full.title).toBe('Sam is nearby');
+      expect(full.body).toMatch(/^0\.7 mi away · you're both free until /);
+      expect(full.data.distanceMiles).toBe(0.7);
+      expect(busyOnly.body).toMatch(/^Nearby · /);
+      expect(busyOnly.data.distanceMiles).toBeUndefined();
+    });
+  });
+
+  describe('pollProximityRadarsForUser', () => {
+    const hookRow = {
+      id: 'hook-1',
+      user_id: 'user-1',
+      hook_type: 'proximity',
+      friend_ids: ['friend-1', 'friend-2'],
+      proximity_radius_miles: 1,
+      is_active: true,
+      trigger_count: 2,
+    };
+
+    function rpcRow(s: ProximitySnapshot) {
+      return {
+        user_id: s.userId,
+        name: s.name,
+        is_self: s.isSelf,
+        visibility: s.visibility,
+        distance_miles: s.distanceMiles,
+        within_radius: s.withinRadius,
+        location_updated_at: s.locationUpdatedAt,
+        busy: s.busy,
+      };
+    }
+
+    it('notifies once per nearby friend and bumps the trigger count', async () => {
+      mockTables = { user_hooks: [hookRow] };
+      mockSnapshots = [rpcRow(self), rpcRow(nearby), rpcRow(snapshot({ userId: 'friend-2', name: 'Alex', distanceMiles: 0.2 }))];
+
+      await expect(pollProximityRadarsForUser('user-1', 'plus', NOW)).resolves.toBe(2);
+
+      expect(mockRpcCalls).toEqual([expect.objectContaining({ p_friend_ids: ['friend-1', 'friend-2'], p_radius_miles: 1 })]);
+      expect(mockInserts.map(i => i.values.proximity_data.friendId)).toEqual(['friend-2', 'friend-1']);
+      expect(mockInserts[0].values).toMatchObject({ hook_id: 'hook-1', status: 'pending', title: 'Alex is nearby' });
+      expect(sendRadarPushNotification).toHaveBeenCalledTimes(2);
+      expect(mockUpdates[0].values.trigger_count).toBe(4);
+    });
+
+    it('respects pair cooldowns and muted friends', async () => {
+      mockTables = {
+        user_hooks: [hookRow],
+        hook_notifications: [
+          { user_id: 'user-1', created_at: minutesFromNow(-60), proximity_data: { friendId: 'friend-1' } },
+        ],
+      };
+      mockSnapshots = [rpcRow(self), rpcRow(nearby), rpcRow(snapshot({ userId: 'friend-2', distanceMiles: 0.2 }))];
+      mockMuted.add('friend-2');
+
+      await expect(pollProximityRadarsForUser('user-1', 'plus', NOW)).resolves.toBe(0);
+      expect(mockInserts).toHaveLength(0);
+    });
+
+    it('alerts again once the cooldown has passed', async () => {
+      const cooldownMinutes = FRIEND_PROXIMITY_CONFIG.pairCooldownHours * 60;
+      mockTables = {
+        user_hooks: [hookRow],
+        hook_notifications: [
+          { user_id: 'user-1', created_at: minutesFromNow(-cooldownMinutes - 1), proximity_data: { friendId: 'friend-1' } },
+        ],
+      };
+      mockSnapshots = [rpcRow(self), rpcRow(nearby)];
+
+      await expect(pollProximityRadarsForUser('user-1', 'plus', NOW)).resolves.toBe(1);
+    });
+
+    it('loads snapshots once per radius', async () => {
+      mockTables = {
+        user_hooks: [
+          hookRow,
+          { ...hookRow, id: 'hook-2', friend_ids: ['friend-3'], proximity_radius_miles: 3 },
+        ],
+      };
+
+      await pollProximityRadarsForUser('user-1', 'plus', NOW);
+
+      expect(mockRpcCalls.map(c => [c.p_radius_miles, c.p_friend_ids])).toEqual([
+        [1, ['friend-1', 'friend-2']],
+        [3, ['friend-3']],
+      ]);
+    });
+
+    it('does nothing without proximity radars', async () => {
+      mockTables = { user_hooks: [{ ...hookRow, hook_type: 'artist' }] };
+      await expect(pollProximityRadarsForUser('user-1', 'plus', NOW)).resolves.toBe(0);
+    });
+  });
+
+  describe('reportCurrentLocation', () => {
+    it('saves the position with the time it was taken', async () => {
+      await expect(reportCurrentLocation('user-1', { latitude: 32.78, longitude: -96.8 }, NOW)).resolves.toBe(true);
+
+      expect(mockUpdates).toEqual([{
+        table: 'users',
+        values: { current_location: 'POINT(-96.8 32.78)', current_location_updated_at: NOW.toISOString() },
+      }]);
+    });
+  });
+});
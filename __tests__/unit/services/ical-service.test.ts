@@ -0,0 +1,181 @@
+/**
+ * iCalendar Service — Unit Tests
+ *
+ * Tests cover:
+ * - Calendar rows and occurrences as standalone VEVENTs
+ * - Import rows: series, exceptions from cancelled overrides
+ * - Importing: upsert on UID, new vs updated counts, changed occurrences,
+ *   skipping the user's own exported events
+ */
+
+jest.mock('expo-calendar', () => ({}));
+jest.mock('react-native', () => ({
+  Platform: { OS: 'ios' },
+  Share: { share: jest.fn(), sharedAction: 'sharedAction' },
+}));
+jest.mock('@/lib/supabase', () => ({
+  supabase: { from: jest.fn(), rpc: jest.fn() },
+}));
+
+import { supabase } from '@/lib/supabase';
+import {
+  buildImportRows,
+  buildLoopEventUid,
+  calendarEventToICal,
+  importICSText,
+} from '@/services/ical-service';
+import type { CalendarEvent } from '@/types/calendar-event';
+import { serializeICal, type ICalEvent } from '@/utils/ical';
+
+const USER_ID = 'user-1';
+const SERIES_ID = '11111111-2222-3333-4444-555555555555';
+
+/** Chainable query that resolves to `result` when awaited */
+function query(result: { data?: unknown; error?: unknown }) {
+  const chain: any = {};
+  for (const method of ['select', 'eq', 'in', 'upsert']) {
+    chain[method] = jest.fn(() => chain);
+  }
+  chain.then = (resolve: (value: unknown) => unknown) => resolve({ data: null, error: null, ...result });
+  return chain;
+}
+
+function makeEvent(overrides: Partial<CalendarEvent> = {}): CalendarEvent {
+  return {
+    id: SERIES_ID,
+    user_id: USER_ID,
+    title: 'Climbing',
+    category: 'fitness',
+    location: { latitude: 32.78, longitude: -96.8 },
+    address: 'Summit Gym',
+    start_time: '2026-03-03T00:00:00.000Z',
+    end_time: '2026-03-03T01:30:00.000Z',
+    all_day: false,
+    timezone: 'America/Chicago',
+    source: 'manual',
+    status: 'scheduled',
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  } as CalendarEvent;
+}
+
+const weekly: ICalEvent = {
+  uid: 'climb@example.com',
+  summary: 'Team climb',
+  start: new Date('2026-03-03T00:00:00Z'),
+  end: new Date('2026-03-03T01:30:00Z'),
+  timeZone: 'America/Chicago',
+  rrule: 'FREQ=WEEKLY',
+  exdates: [new Date('2026-03-10T00:00:00Z')],
+};
+
+describe('ical-service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('calendarEventToICal', () => {
+    it('maps a single event with its place and zone', () => {
+      expect(calendarEventToICal(makeEvent())).toMatchObject({
+        uid: `${SERIES_ID}@loopapp`,
+        summary: 'Climbing',
+        location: 'Summit Gym',
+        geo: { latitude: 32.78, longitude: -96.8 },
+        timeZone: 'America/Chicago',
+        status: 'CONFIRMED',
+        categories: ['fitness'],
+      });
+    });
+
+    it('gives each occurrence of a series its own UID', () => {
+      const occurrence = makeEvent({
+        id: `${SERIES_ID}@2026-03-10T00:00:00.000Z`,
+        recurrence_series_id: SERIES_ID,
+        occurrence_start: '2026-03-10T00:00:00.000Z',
+        ics_uid: 'climb@example.com',
+      });
+
+      const event = calendarEventToICal(occurrence);
+
+      expect(event.uid).toBe(buildLoopEventUid(occurrence));
+      expect(event.uid).toBe(`${SERIES_ID}-${Date.parse('2026-03-10T00:00:00Z')}@loopapp`);
+      expect(event.rrule).toBeUndefined();
+    });
+
+    it('keeps the original UID of imported single events', () => {
+      expect(calendarEventToICal(makeEvent({ ics_uid: 'abc@example.com' })).uid).toBe('abc@example.com');
+    });
+  });
+
+  describe('buildImportRows', () => {
+    it('builds series rows and turns cancelled overrides into exceptions', () => {
+      const cancelled: ICalEvent = { ...weekly, status: 'CANCELLED', rrule: null, recurrenceId: new Date('2026-03-17T00:00:00Z') };
+      const moved: ICalEvent = { ...weekly, rrule: null, exdates: undefined, recurrenceId: new Date('2026-03-24T00:00:00Z'), start: new Date('2026-03-24T01:00:00Z'), end: new Date('2026-03-24T02:30:00Z') };
+
+      const { seriesRows, overrides } = buildImportRows(USER_ID, [weekly, cancelled, moved]);
+
+      expect(seriesRows).toHaveLength(1);
+      expect(seriesRows[0]).toMatchObject({
+        user_id: USER_ID,
+        ics_uid: 'climb@example.com',
+        source: 'ics_import',
+        recurrence_rule: 'FREQ=WEEKLY',
+        recurrence_exdates: ['2026-03-10T00:00:00.000Z', '2026-03-17T00:00:00.000Z'],
+        location: null,
+        status: 'scheduled',
+      });
+      expect(overrides).toEqual([moved]);
+    });
+  });
+
+  describe('importICSText', () => {
+    it('upserts on UID and counts new and updated events', async () => {
+      const single: ICalEvent = { uid: 'dentist@example.com', summary: 'Dentist', start: new Date('2026-03-05T15:00:00Z'), end: new Date('2026-03-05T16:00:00Z') };
+      const upsert = query({ data: [{ id: 'row-1', ics_uid: 'climb@example.com' }, { id: 'row-2', ics_uid: 'dentist@example.com' }] });
+      (supabase.from as jest.Mock)
+        .mockReturnValueOnce(query({ data: [{ ics_uid: 'dentist@example.com' }] }))
+        .mockReturnValueOnce(upsert);
+
+      const result = await importICSText(USER_ID, serializeICal({ events: [weekly, single] }), 'America/Chicago');
+
+      expect(result).toEqual({ imported: 1, updated: 1, skipped: 0 });
+      expect(upsert.upsert).toHaveBeenCalledWith(
+        expect.arrayContaining([expect.objectContaining({ ics_uid: 'dentist@example.com', title: 'Dentist' })]),
+        { onConflict: 'user_id,ics_uid' }
+      );
+    });
+
+    it('imports changed occurrences onto their series', async () => {
+      const moved: ICalEvent = { ...weekly, rrule: null, exdates: undefined, recurrenceId: new Date('2026-03-24T00:00:00Z') };
+      const overrideUpsert = query({});
+      (supabase.from as jest.Mock)
+        .mockReturnValueOnce(query({ data: [] }))
+        .mockReturnValueOnce(query({ data: [{ id: 'row-1', ics_uid: 'climb@example.com' }] }))
+        .mockReturnValueOnce(overrideUpsert);
+
+      await importICSText(USER_ID, serializeICal({ events: [weekly, moved] }));
+
+      expect(overrideUpsert.upsert).toHaveBeenCalledWith(
+        [expect.objectContaining({ recurrence_parent_id: 'row-1', recurrence_original_start: '2026-03-24T00:00:00.000Z' })],
+        { onConflict: 'recurrence_parent_id,recurrence_original_start' }
+      );
+    });
+
+    it("skips the user's own exported events", async () => {
+      const own = calendarEventToICal(makeEvent());
+      (supabase.from as jest.Mock).mockReturnValueOnce(query({ data: [{ id: SERIES_ID }] }));
+
+      const result = await importICSText(USER_ID, serializeICal({ events: [own] }));
+
+      expect(result).toEqual({ imported: 0, updated: 0, skipped: 1 });
+      expect(supabase.from).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports files without events', async () => {
+      const result = await importICSText(USER_ID, 'BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n');
+      expect(result.error).toBeDefined();
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Loop Routing — Unit Tests
+ *
+ * Tests cover:
+ * - Departures for many events from one home lookup and one travel-time
+ *   request (walking, so traffic doesn't split the trips by departure time)
+ */
+
+const mockFrom = jest.fn();
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: { from: (...args: unknown[]) => mockFrom(...args) },
+}));
+
+jest.mock('react-native', () => ({
+  Platform: { OS: 'ios', select: (options: Record<string, unknown>) => options.ios },
+}));
+
+import { computeEventDepartures } from '@/services/loop-routing';
+import { setTravelTimeProvider } from '@/services/travel-time';
+import type { CalendarEvent } from '@/types/calendar-event';
+
+const HOME = { type: 'Point', coordinates: [-96.8, 32.78] };
+
+function makeEvent(id: string, start: string, location: CalendarEvent['location']): CalendarEvent {
+  return {
+    id,
+    user_id: 'user-1',
+    title: id,
+    category: 'personal',
+    location,
+    address: '',
+    start_time: `2026-10-20T${start}:00.000Z`,
+    end_time: `2026-10-20T${start}:00.000Z`,
+    all_day: false,
+    source: 'manual',
+    status: 'scheduled',
+    loop_routing: {
+      is_chained: false,
+      chain_with_event_id: null,
+      recommended_departure_time: null,
+      estimated_travel_minutes: null,
+      starting_location: null,
+      route_type: 'single',
+    },
+    notifications_scheduled: false,
+    created_at: '',
+    updated_at: '',
+  };
+}
+
+describe('loop-routing', () => {
+  afterEach(() => setTravelTimeProvider(null));
+
+  describe('computeEventDepartures', () => {
+    it('looks up home once and sends every trip in one batch', async () => {
+      mockFrom.mockImplementation(() => {
+        const query = {
+          select: () => query,
+          eq: () => query,
+          single: () => Promise.resolve({ data: { home_location: HOME }, error: null }),
+        };
+        return query;
+      });
+      const getMatrix = jest.fn(async (origins: unknown[], destinations: unknown[]) =>
+        origins.map(() => destinations.map((_, i) => 20 + i * 10))
+      );
+      setTravelTimeProvider({ name: 'fake', getMatrix });
+
+      const departures = await computeEventDepartures(
+        [
+          makeEvent('coffee', '15:00', { latitude: 32.8, longitude: -96.7 }),
+          makeEvent('call', '15:10', null as unknown as CalendarEvent['location']),
+          makeEvent('gym', '15:20', { latitude: 32.7, longitude: -96.9 }),
+        ],
+        { mode: 'walk' }
+      );
+
+      expect(mockFrom).toHaveBeenCalledTimes(1);
+      expect(getMatrix).toHaveBeenCalledTimes(1);
+      expect(departures.map(d => d?.travelMinutes ?? null)).toEqual([20, null, 30]);
+      expect(departures[0]?.mode).toBe('walk');
+    });
+  });
+});
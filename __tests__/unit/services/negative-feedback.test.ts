@@ -0,0 +1,212 @@
+/**
+ * Negative Feedback — Unit Tests
+ *
+ * Tests cover:
+ * - Chain name normalization
+ * - Per-reason matching and half-life decay
+ * - Reading, adding and undoing entries on the AI profile
+ * - Recording a reason to Supabase
+ */
+
+const mockUpdates: { table: string; values: any }[] = [];
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: (table: string) => {
+      const query: any = {
+        eq: () => query,
+        update: (values: any) => {
+          mockUpdates.push({ table, values });
+          return query;
+        },
+        then: (resolve: any, reject: any) => Promise.resolve({ data: null, error: null }).then(resolve, reject),
+      };
+      return query;
+    },
+  },
+}));
+
+import {
+  buildNegativeFeedbackEntry,
+  chainKey,
+  decayFactor,
+  getNegativeFeedback,
+  getSuppressions,
+  negativeFeedbackPenalty,
+  recordNegativeFeedback,
+  withNegativeFeedback,
+  withoutNegativeFeedback,
+} from '@/services/negative-feedback';
+import type { NegativeFeedbackEntry, NegativeFeedbackTarget, NotInterestedReason } from '@/services/negative-feedback';
+import type { Recommendation } from '@/types/activity';
+import type { Json } from '@/types/database';
+
+const NOW = new Date('2026-03-03T19:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function entry(reason: NotInterestedReason, overrides: Partial<NegativeFeedbackEntry> = {}): NegativeFeedbackEntry {
+  return {
+    id: `${reason}-1`,
+    reason,
+    place_id: 'p1',
+    place_name: 'Starbucks - Main St',
+    category: 'Coffee',
+    chain: 'starbucks',
+    price_level: 3,
+    distance_miles: 10,
+    time_of_day: 'morning',
+    created_at: NOW.toISOString(),
+    ...overrides,
+  };
+}
+
+/** ai_profile as stored; entries are plain JSON at rest */
+function asJson(value: object): Json {
+  return value as unknown as Json;
+}
+
+function target(overrides: Partial<NegativeFeedbackTarget> = {}): NegativeFeedbackTarget {
+  return {
+    placeId: 'p2',
+    name: 'Blue Bottle',
+    category: 'Dining',
+    priceLevel: 1,
+    distanceMiles: 1,
+    timeOfDay: 'evening',
+    ...overrides,
+  };
+}
+
+describe('negative-feedback', () => {
+  beforeEach(() => {
+    mockUpdates.length = 0;
+  });
+
+  describe('chainKey', () => {
+    it('strips branch suffixes and punctuation', () => {
+      expect(chainKey('Starbucks - Main St #1234')).toBe('starbucks');
+      expect(chainKey("McDonald's | Uptown")).toBe('mcdonalds');
+      expect(chainKey('Whataburger at Mockingbird')).toBe('whataburger');
+      expect(chainKey('The Rustic')).toBe('therustic');
+    });
+  });
+
+  describe('negativeFeedbackPenalty', () => {
+    it('penalizes places at least as far or as pricey', () => {
+      expect(negativeFeedbackPenalty([entry('too_far')], target({ distanceMiles: 9 }), NOW)).toBe(-15);
+      expect(negativeFeedbackPenalty([entry('too_far')], target({ distanceMiles: 3 }), NOW)).toBe(0);
+      expect(negativeFeedbackPenalty([entry('too_expensive')], target({ priceLevel: 4 }), NOW)).toBe(-15);
+      expect(negativeFeedbackPenalty([entry('too_expensive')], target({ priceLevel: 2 }), NOW)).toBe(0);
+    });
+
+    it('hits the place hard and its category lightly for "not my vibe"', () => {
+      expect(negativeFeedbackPenalty([entry('not_my_vibe')], target({ placeId: 'p1' }), NOW)).toBe(-30);
+      expect(negativeFeedbackPenalty([entry('not_my_vibe')], target({ category: 'coffee' }), NOW)).toBe(-6);
+      expect(negativeFeedbackPenalty([entry('already_been')], target({ category: 'Coffee' }), NOW)).toBe(0);
+    });
+
+    it('matches wrong time only for the same category and time of day', () => {
+      const wrongTime = [entry('wrong_time')];
+      expect(negativeFeedbackPenalty(wrongTime, target({ category: 'Coffee', timeOfDay: 'morning' }), NOW)).toBe(-15);
+      expect(negativeFeedbackPenalty(wrongTime, target({ category: 'Coffee', timeOfDay: 'evening' }), NOW)).toBe(0);
+    });
+
+    it('suppresses whole categories and chains', () => {
+      expect(negativeFeedbackPenalty([entry('dislike_category')], target({ category: 'Coffee' }), NOW)).toBe(-35);
+      expect(negativeFeedbackPenalty([entry('dislike_chain')], target({ name: 'Starbucks @ Airport' }), NOW)).toBe(-50);
+    });
+
+    it('decays each reason on its own half-life', () => {
+      const monthOld = new Date(NOW.getTime() - 30 * DAY_MS).toISOString();
+
+      expect(decayFactor(entry('too_far', { created_at: monthOld }), NOW)).toBeCloseTo(0.5);
+      expect(decayFactor(entry('dislike_chain', { created_at: monthOld }), NOW)).toBeCloseTo(Math.pow(0.5, 30 / 180));
+      expect(negativeFeedbackPenalty([entry('already_been', { created_at: monthOld })], target({ placeId: 'p1' }), NOW)).toBe(-20);
+    });
+
+    it('stacks repeated reasons', () => {
+      const entries = [entry('too_far'), entry('too_far', { id: 'b', distance_miles: 5 })];
+      expect(negativeFeedbackPenalty(entries, target({ distanceMiles: 12 }), NOW)).toBe(-30);
+    });
+  });
+
+  describe('profile helpers', () => {
+    it('skips malformed entries', () => {
+      expect(getNegativeFeedback(asJson({ negative_feedback: [entry('too_far'), { reason: 'bogus' }, 'x'] }))).toHaveLength(1);
+      expect(getNegativeFeedback(null)).toEqual([]);
+    });
+
+    it('adds entries, replacing the same reason for the same target and pruning faded ones', () => {
+      const ancient = entry('wrong_time', { id: 'old', created_at: new Date(NOW.getTime() - 365 * DAY_MS).toISOString() });
+      const profile = asJson({ budget_level: 2, negative_feedback: [entry('dislike_category'), ancient] });
+
+      const updated = withNegativeFeedback(profile, entry('dislike_category', { id: 'new', place_id: 'p9' }), NOW);
+
+      expect(updated).toMatchObject({ budget_level: 2 });
+      expect(getNegativeFeedback(updated).map(e => e.id)).toEqual(['new']);
+    });
+
+    it('lists live category and chain suppressions and undoes them', () => {
+      const profile = asJson({
+        negative_feedback: [
+          entry('too_far'),
+          entry('dislike_category', { created_at: new Date(NOW.getTime() - DAY_MS).toISOString() }),
+          entry('dislike_chain'),
+        ],
+      });
+
+      expect(getSuppressions(profile, NOW).map(e => e.reason)).toEqual(['dislike_chain', 'dislike_category']);
+      expect(getSuppressions(withoutNegativeFeedback(profile, 'dislike_chain-1'), NOW)).toHaveLength(1);
+    });
+
+    it('builds an entry from a recommendation', () => {
+      const rec = {
+        id: 'rec-1',
+        title: 'Starbucks - Main St',
+        category: 'Coffee',
+        distance: '2.4 mi',
+        priceRange: 2,
+        activity: { googlePlaceId: 'gp-1' },
+      } as unknown as Recommendation;
+
+      expect(buildNegativeFeedbackEntry(rec, 'too_far', { timeOfDay: 'morning', now: NOW })).toEqual({
+        id: `too_far:gp-1:${NOW.getTime()}`,
+        reason: 'too_far',
+        place_id: 'gp-1',
+        place_name: 'Starbucks - Main St',
+        category: 'Coffee',
+        chain: 'starbucks',
+        price_level: 2,
+        distance_miles: 2.4,
+        time_of_day: 'morning',
+        created_at: NOW.toISOString(),
+      });
+    });
+  });
+
+  describe('recordNegativeFeedback', () => {
+    it('saves the reason through the profile updater and declines the place', async () => {
+      let saved: any = null;
+      const updateAIProfile = jest.fn(async (update: (aiProfile: any) => any) => {
+        saved = update({ budget_level: 2 });
+        return { error: null };
+      });
+
+      await expect(recordNegativeFeedback('u1', entry('not_my_vibe'), updateAIProfile)).resolves.toBe(true);
+
+      expect(saved).toMatchObject({ budget_level: 2 });
+      expect(saved.negative_feedback).toHaveLength(1);
+      expect(mockUpdates.find(u => u.table === 'users')).toBeUndefined();
+      expect(mockUpdates.find(u => u.table === 'recommendation_tracking')!.values)
+        .toMatchObject({ status: 'declined', block_reason: 'not_my_vibe' });
+    });
+
+    it('leaves the tracking record alone when the profile update fails', async () => {
+      const updateAIProfile = jest.fn(async () => ({ error: new Error('offline') }));
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(recordNegativeFeedback('u1', entry('too_far'), updateAIProfile)).resolves.toBe(false);
+      expect(mockUpdates).toHaveLength(0);
+    });
+  });
+});
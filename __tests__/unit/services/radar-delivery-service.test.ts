@@ -0,0 +1,290 @@
+/**
+ * Radar Delivery Service — Unit Tests
+ *
+ * Tests cover:
+ * - Local time, local midnight and quiet hours in the user's timezone
+ * - Normalizing stored preferences
+ * - Push planning: digest mode, quiet hours, budget with type priority
+ * - Digest timing (daily, weekly, end of quiet hours) and bundling
+ * - Counting today's pushes and collecting due digests against a fake DB
+ */
+
+jest.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+import {
+  buildRadarDigest,
+  collectDueDigests,
+  getDigestReason,
+  getLastDigestTime,
+  getLocalTime,
+  isInQuietHours,
+  loadPushCountsToday,
+  normalizeRadarDelivery,
+  planRadarDelivery,
+  startOfLocalDay,
+} from '@/services/radar-delivery-service';
+import type { RadarDeliveryCandidate } from '@/services/radar-delivery-service';
+import { DEFAULT_RADAR_DELIVERY } from '@/types/radar';
+import type { HookNotification, HookType, RadarDeliveryPreferences } from '@/types/radar';
+
+// ---------------------------------------------------------------------------
+// In-memory database
+// ---------------------------------------------------------------------------
+
+type Row = Record<string, any>;
+
+let tables: Record<string, Row[]> = {};
+
+function fakeQuery(table: string) {
+  const filters: ((row: Row) => boolean)[] = [];
+  let op: 'select' | 'insert' | 'update' = 'select';
+  let payload: any;
+
+  const rows = () => (tables[table] = tables[table] || []);
+
+  function exec(single: boolean): Promise<{ data: any; error: any }> {
+    let result: Row[];
+    if (op === 'insert') {
+      const row = { id: `${table}-${rows().length + 1}`, created_at: '2026-01-15T15:30:00Z', ...payload };
+      rows().push(row);
+      result = [row];
+    } else {
+      result = rows().filter(row => filters.every(f => f(row)));
+      if (op === 'update') result.forEach(row => Object.assign(row, payload));
+    }
+    return Promise.resolve({ data: single ? result[0] ?? null : result, error: null });
+  }
+
+  const query: any = {
+    select: () => query,
+    eq: (column: string, value: unknown) => (filters.push(row => row[column] === value), query),
+    in: (column: string, values: unknown[]) => (filters.push(row => values.includes(row[column])), query),
+    gte: (column: string, value: string) => (filters.push(row => row[column] != null && String(row[column]) >= value), query),
+    order: () => query,
+    range: () => query,
+    insert: (values: Row) => ((op = 'insert'), (payload = values), query),
+    update: (values: Row) => ((op = 'update'), (payload = values), query),
+    single: () => exec(true),
+    then: (resolve: any, reject: any) => exec(false).then(resolve, reject),
+  };
+  return query;
+}
+
+const db = { from: (table: string) => fakeQuery(table) };
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const CHICAGO = 'America/Chicago'; // UTC-6 in January
+
+function prefs(overrides: Partial<RadarDeliveryPreferences> = {}): RadarDeliveryPreferences {
+  return { ...DEFAULT_RADAR_DELIVERY, timezone: CHICAGO, ...overrides };
+}
+
+function notification(id: string, overrides: Partial<HookNotification> = {}): HookNotification {
+  return {
+    id,
+    userId: 'user-1',
+    hookId: `hook-${id}`,
+    title: `Alert ${id}`,
+    body: 'New event',
+    status: 'pending',
+    createdAt: '2026-01-15T10:00:00Z',
+    ...overrides,
+  };
+}
+
+function candidate(id: string, hookType: HookType, createdAt = '2026-01-15T10:00:00Z'): RadarDeliveryCandidate {
+  return { notification: notification(id, { createdAt }), hookType };
+}
+
+describe('radar-delivery-service', () => {
+  describe('local time', () => {
+    it('reads wall-clock time in the user timezone', () => {
+      expect(getLocalTime(new Date('2026-01-15T04:30:00Z'), CHICAGO)).toEqual({
+        year: 2026,
+        month: 1,
+        day: 14,
+        hour: 22,
+        minute: 30,
+        weekday: 3,
+      });
+    });
+
+    it('falls back to UTC for an unknown timezone', () => {
+      expect(getLocalTime(new Date('2026-01-15T04:30:00Z'), 'Mars/Olympus')).toMatchObject({ day: 15, hour: 4 });
+    });
+
+    it('finds local midnight', () => {
+      expect(startOfLocalDay(new Date('2026-01-15T04:30:00Z'), CHICAGO).toISOString()).toBe('2026-01-14T06:00:00.000Z');
+    });
+  });
+
+  describe('isInQuietHours', () => {
+    const overnight = prefs({ quietHoursEnabled: true, quietHoursStart: '22:00', quietHoursEnd: '08:00' });
+
+    it('handles windows that wrap past midnight', () => {
+      expect(isInQuietHours(overnight, new Date('2026-01-15T04:30:00Z'))).toBe(true); // 22:30
+      expect(isInQuietHours(overnight, new Date('2026-01-15T13:59:00Z'))).toBe(true); // 07:59
+      expect(isInQuietHours(overnight, new Date('2026-01-15T14:00:00Z'))).toBe(false); // 08:00
+      expect(isInQuietHours(overnight, new Date('2026-01-15T20:00:00Z'))).toBe(false); // 14:00
+    });
+
+    it('handles same-day windows and the off switch', () => {
+      const afternoon = prefs({ quietHoursEnabled: true, quietHoursStart: '13:00', quietHoursEnd: '15:00' });
+      expect(isInQuietHours(afternoon, new Date('2026-01-15T20:00:00Z'))).toBe(true);
+      expect(isInQuietHours(afternoon, new Date('2026-01-15T04:30:00Z'))).toBe(false);
+      expect(isInQuietHours({ ...overnight, quietHoursEnabled: false }, new Date('2026-01-15T04:30:00Z'))).toBe(false);
+    });
+  });
+
+  describe('normalizeRadarDelivery', () => {
+    it('fills defaults and drops invalid values', () => {
+      expect(normalizeRadarDelivery(null)).toEqual(DEFAULT_RADAR_DELIVERY);
+      expect(normalizeRadarDelivery({
+        mode: 'hourly',
+        timezone: 'Nowhere/Special',
+        quietHoursStart: '25:00',
+        digestHour: 30,
+        maxPushesPerDay: 500,
+      })).toEqual({ ...DEFAULT_RADAR_DELIVERY, digestHour: 23, maxPushesPerDay: 50 });
+    });
+
+    it("falls back to the user's home timezone before the default", () => {
+      expect(normalizeRadarDelivery(null, 'Asia/Tokyo').timezone).toBe('Asia/Tokyo');
+      expect(normalizeRadarDelivery({ timezone: 'Nowhere/Special' }, 'Europe/Paris').timezone).toBe('Europe/Paris');
+      expect(normalizeRadarDelivery({ timezone: 'America/Denver' }, 'Asia/Tokyo').timezone).toBe('America/Denver');
+      expect(normalizeRadarDelivery(null, 'Nowhere/Special').timezone).toBe(DEFAULT_RADAR_DELIVERY.timezone);
+    });
+  });
+
+  describe('planRadarDelivery', () => {
+    const now = new Date('2026-01-15T18:00:00Z');
+    const candidates = [
+      candidate('category', 'category', '2026-01-15T09:00:00Z'),
+      candidate('artist', 'artist'),
+      candidate('keyword', 'keyword'),
+      candidate('proximity', 'proximity'),
+    ];
+
+    it('spends the remaining budget on the highest-priority radar types', () => {
+      const plan = planRadarDelivery(candidates, prefs({ maxPushesPerDay: 5 }), 3, now);
+
+      expect(plan.push.map(n => n.id)).toEqual(['proximity', 'artist']);
+      expect(plan.feedOnly.map(n => n.id)).toEqual(['keyword', 'category']);
+      expect(plan.held).toEqual([]);
+    });
+
+    it('holds everything in digest mode or during quiet hours', () => {
+      expect(planRadarDelivery(candidates, prefs({ mode: 'weekly_digest' }), 0, now).held).toHaveLength(4);
+
+      const quiet = prefs({ quietHoursEnabled: true, quietHoursStart: '11:00', quietHoursEnd: '13:00' });
+      expect(planRadarDelivery(candidates, quiet, 0, now)).toMatchObject({ push: [], feedOnly: [] });
+    });
+  });
+
+  describe('digest timing', () => {
+    it('finds the most recent daily digest time', () => {
+      const daily = prefs({ mode: 'daily_digest', digestHour: 9 });
+      expect(getLastDigestTime(daily, new Date('2026-01-15T14:00:00Z')).toISOString()).toBe('2026-01-14T15:00:00.000Z');
+      expect(getLastDigestTime(daily, new Date('2026-01-15T16:00:00Z')).toISOString()).toBe('2026-01-15T15:00:00.000Z');
+    });
+
+    it('finds the most recent weekly digest time', () => {
+      const weekly = prefs({ mode: 'weekly_digest', digestHour: 9, digestDay: 0 });
+      // Thursday → the previous Sunday at 9am
+      expect(getLastDigestTime(weekly, new Date('2026-01-15T16:00:00Z')).toISOString()).toBe('2026-01-11T15:00:00.000Z');
+    });
+
+    it('is due once a digest time passes after the oldest held alert', () => {
+      const daily = prefs({ mode: 'daily_digest', digestHour: 9 });
+      const now = new Date('2026-01-15T15:30:00Z');
+
+      expect(getDigestReason(daily, now, new Date('2026-01-15T10:00:00Z'))).toBe('daily');
+      expect(getDigestReason(daily, now, new Date('2026-01-15T15:10:00Z'))).toBeNull();
+    });
+
+    it('delivers alerts held overnight once quiet hours end', () => {
+      const instant = prefs({ quietHoursEnabled: true, quietHoursStart: '22:00', quietHoursEnd: '08:00' });
+      const heldAt = new Date('2026-01-15T05:00:00Z');
+
+      expect(getDigestReason(instant, new Date('2026-01-15T13:00:00Z'), heldAt)).toBeNull();
+      expect(getDigestReason(instant, new Date('2026-01-15T14:05:00Z'), heldAt)).toBe('quiet_hours');
+    });
+  });
+
+  describe('buildRadarDigest', () => {
+    it('bundles alerts highest priority first into one title and body', () => {
+      const digest = buildRadarDigest('user-1', 'daily', [
+        candidate('category', 'category'),
+        candidate('venue', 'venue'),
+        { notification: notification('artist', { eventData: { name: 'Eras', venue: 'AT&T Stadium', date: '2026-06-15' } }), hookType: 'artist' },
+      ]);
+
+      expect(digest.title).toBe('Your daily radar digest');
+      expect(digest.body).toBe('3 new radar alerts: Alert artist, Alert venue +1 more');
+      expect(digest.notificationIds).toEqual(['artist', 'venue', 'category']);
+      expect(digest.items[0]).toMatchObject({ hookType: 'artist', venue: 'AT&T Stadium', date: '2026-06-15' });
+    });
+  });
+
+  describe('with a database', () => {
+    beforeEach(() => {
+      tables = {};
+    });
+
+    it('counts only pushes since local midnight', async () => {
+      tables.hook_notifications = [
+        { id: 'a', user_id: 'user-1', push_sent_at: '2026-01-15T05:00:00Z' }, // 23:00 yesterday local
+        { id: 'b', user_id: 'user-1', push_sent_at: '2026-01-15T07:00:00Z' },
+        { id: 'c', user_id: 'user-1', push_sent_at: '2026-01-15T12:00:00Z' },
+        { id: 'd', user_id: 'user-2', push_sent_at: '2026-01-15T12:00:00Z' },
+        { id: 'e', user_id: 'user-1', push_sent_at: null },
+      ];
+
+      const counts = await loadPushCountsToday(new Map([['user-1', prefs()]]), new Date('2026-01-15T18:00:00Z'), db);
+
+      expect(counts).toEqual(new Map([['user-1', 2]]));
+    });
+
+    it('bundles due held alerts into a digest and releases ones already seen', async () => {
+      tables = {
+        users: [
+          { id: 'user-1', subscription_tier: 'plus', expo_push_token: 'ExponentPushToken[1]', radar_delivery: { mode: 'daily_digest', timezone: CHICAGO, digestHour: 9 } },
+          { id: 'user-2', subscription_tier: 'plus', expo_push_token: 'ExponentPushToken[2]', radar_delivery: { mode: 'weekly_digest', timezone: CHICAGO, digestDay: 0 } },
+        ],
+        user_hooks: [
+          { id: 'hook-1', hook_type: 'category' },
+          { id: 'hook-2', hook_type: 'artist' },
+        ],
+        hook_notifications: [
+          { id: 'n1', user_id: 'user-1', hook_id: 'hook-1', title: 'Jazz Night', body: '', status: 'pending', delivery: 'held', created_at: '2026-01-15T02:00:00Z' },
+          { id: 'n2', user_id: 'user-1', hook_id: 'hook-2', title: 'Taylor Swift', body: '', status: 'sent', delivery: 'held', created_at: '2026-01-15T03:00:00Z' },
+          { id: 'n3', user_id: 'user-1', hook_id: 'hook-1', title: 'Seen Already', body: '', status: 'viewed', delivery: 'held', created_at: '2026-01-15T04:00:00Z' },
+          { id: 'n4', user_id: 'user-2', hook_id: 'hook-2', title: 'Not Sunday', body: '', status: 'pending', delivery: 'held', created_at: '2026-01-15T02:00:00Z' },
+        ],
+      };
+
+      const run = await collectDueDigests(db, new Date('2026-01-15T15:30:00Z'));
+
+      expect(run).toMatchObject({ digestsCreated: 1, notificationsBundled: 2 });
+      expect(tables.radar_digests).toEqual([
+        expect.objectContaining({
+          user_id: 'user-1',
+          reason: 'daily',
+          notification_ids: ['n2', 'n1'],
+          body: '2 new radar alerts: Taylor Swift, Jazz Night',
+        }),
+      ]);
+      const byId = (id: string) => tables.hook_notifications.find(n => n.id === id);
+      expect(byId('n1')).toMatchObject({ delivery: 'digested', digest_id: 'radar_digests-1' });
+      expect(byId('n3')).toMatchObject({ delivery: 'digested' });
+      expect(byId('n3')?.digest_id).toBeUndefined();
+      expect(byId('n4')).toMatchObject({ delivery: 'held' });
+      expect(run.pushItems).toEqual([
+        { digest: expect.objectContaining({ id: 'radar_digests-1', title: 'Your daily radar digest' }), pushToken: 'ExponentPushToken[1]' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Radar Entity Service — Unit Tests
+ *
+ * Tests cover:
+ * - Fuzzy name similarity and confident auto-picks
+ * - Artist / venue candidate search (Ticketmaster, Google Places fallback)
+ * - Narrowing keyword results to the named performer or venue
+ * - Suppressing events like a rejected alert
+ */
+
+process.env.EXPO_PUBLIC_TICKETMASTER_API_KEY = 'test-tm-key';
+
+jest.mock('@/services/places-text-search', () => ({
+  searchPlacesByText: jest.fn().mockResolvedValue([]),
+}));
+
+import {
+  addSuppressedMatch,
+  buildSuppressedMatch,
+  entityNameSimilarity,
+  filterSuppressedMatches,
+  isSuppressedMatch,
+  matchesPerformer,
+  matchesVenueName,
+  normalizeEntityName,
+  pickConfidentCandidate,
+  searchArtistCandidates,
+  searchRadarEntities,
+  searchVenueCandidates,
+} from '@/services/radar-entity-service';
+import { searchPlacesByText } from '@/services/places-text-search';
+import type { CachedEvent, HookNotification, RadarEntityCandidate, SuppressedMatch } from '@/types/radar';
+
+const originalFetch = global.fetch;
+const mockFetch = jest.fn();
+
+function makeEvent(overrides: Partial<CachedEvent> = {}): CachedEvent {
+  return {
+    id: 'evt-1',
+    name: 'Phoenix',
+    venue: 'House of Blues',
+    date: '2026-06-20',
+    source: 'ticketmaster',
+    ...overrides,
+  };
+}
+
+function candidate(name: string, score: number, id = name): RadarEntityCandidate {
+  return { id, source: 'ticketmaster_attraction', name, score };
+}
+
+function jsonResponse(body: any) {
+  return { ok: true, json: async () => body };
+}
+
+describe('radar-entity-service', () => {
+  beforeEach(() => {
+    (global as any).fetch = mockFetch;
+    mockFetch.mockReset();
+    jest.clearAllMocks();
+  });
+
+  afterAll(() => {
+    (global as any).fetch = originalFetch;
+  });
+
+  describe('name matching', () => {
+    it('normalizes accents, punctuation, "&" and a leading "the"', () => {
+      expect(normalizeEntityName('The Beyoncé & Friends!')).toBe('beyonce and friends');
+    });
+
+    it('scores exact and near-exact names high, different entities low', () => {
+      expect(entityNameSimilarity('Beyonce', 'Beyoncé')).toBe(1);
+      expect(entityNameSimilarity('Deadmau5', 'deadmau 5')).toBeGreaterThanOrEqual(0.9);
+      expect(entityNameSimilarity('Phoenix', 'Phoenix Suns')).toBeLessThan(0.9);
+      expect(entityNameSimilarity('Phoenix', 'Drake')).toBe(0);
+    });
+
+    it('auto-picks only a near-exact match clearly ahead of the rest', () => {
+      expect(pickConfidentCandidate([candidate('Phoenix Suns', 0.74), candidate('Phoenix', 1)])?.name).toBe('Phoenix');
+      expect(pickConfidentCandidate([candidate('Phoenix', 1, 'a'), candidate('Phoenix', 1, 'b')])).toBeNull();
+      expect(pickConfidentCandidate([candidate('Phoenx', 0.8)])).toBeNull();
+      expect(pickConfidentCandidate([])).toBeNull();
+    });
+
+    it('keeps keyword results whose performers include the artist', () => {
+      expect(matchesPerformer(makeEvent({ performers: ['Phoenix', 'Yelle'] }), 'Phoenix')).toBe(true);
+      expect(matchesPerformer(makeEvent({ name: 'Phoenix Suns vs. Lakers', performers: ['Phoenix Suns', 'Los Angeles Lakers'] }), 'Phoenix')).toBe(false);
+      // Cached before performers were recorded — can't tell, keep
+      expect(matchesPerformer(makeEvent(), 'Phoenix')).toBe(true);
+    });
+
+    it('keeps keyword results at the named venue', () => {
+      expect(matchesVenueName(makeEvent({ venue: 'House of Blues Dallas' }), 'House of Blues')).toBe(true);
+      expect(matchesVenueName(makeEvent({ venue: 'The Blues House' }), 'House of Blues')).toBe(false);
+      expect(matchesVenueName(makeEvent({ venue: undefined }), 'House of Blues')).toBe(false);
+    });
+  });
+
+  describe('candidate search', () => {
+    it('ranks Ticketmaster attractions by name similarity', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({
+        _embedded: {
+          attractions: [
+            { id: 'K1', name: 'Phoenix Suns', classifications: [{ segment: { name: 'Sports' }, genre: { name: 'Basketball' } }] },
+            { id: 'K2', name: 'Phoenix', classifications: [{ segment: { name: 'Music' }, genre: { name: 'Rock' } }], images: [{ ratio: '1_1', url: 'https://img/phoenix.jpg' }] },
+          ],
+        },
+      }));
+
+      const candidates = await searchArtistCandidates('Phoenix');
+
+      expect(mockFetch.mock.calls[0][0]).toContain('/attractions.json?');
+      expect(mockFetch.mock.calls[0][0]).toContain('keyword=Phoenix');
+      expect(candidates.map(c => c.id)).toEqual(['K2', 'K1']);
+      expect(candidates[0]).toMatchObject({
+        source: 'ticketmaster_attraction',
+        subtitle: 'Rock · Music',
+        imageUrl: 'https://img/phoenix.jpg',
+        score: 1,
+      });
+    });
+
+    it('searches venues in the radar city state and shows where each is', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({
+        _embedded: {
+          venues: [
+            { id: 'V1', name: 'House of Blues', city: { name: 'Houston' }, state: { stateCode: 'TX' } },
+            { id: 'V2', name: 'House of Blues', city: { name: 'Dallas' }, state: { stateCode: 'TX' } },
+          ],
+        },
+      }));
+
+      const candidates = await searchVenueCandidates('House of Blues', { city: 'Dallas', state: 'TX' });
+
+      expect(mockFetch.mock.calls[0][0]).toContain('stateCode=TX');
+      expect(candidates[0]).toMatchObject({ id: 'V2', source: 'ticketmaster_venue', subtitle: 'Dallas, TX' });
+      expect(searchPlacesByText).not.toHaveBeenCalled();
+    });
+
+    it('falls back to Google Places when Ticketmaster has no such venue', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({}));
+      (searchPlacesByText as jest.Mock).mockResolvedValueOnce([
+        { place_id: 'ChIJ-brew', name: 'Deep Ellum Brewing Company', formatted_address: '2823 St Louis St, Dallas, TX' },
+      ]);
+
+      const candidates = await searchVenueCandidates('Deep Ellum Brewing', { city: 'Dallas', state: 'TX', lat: 32.78, lng: -96.8 });
+
+      expect(searchPlacesByText).toHaveBeenCalledWith(expect.objectContaining({
+        query: 'Deep Ellum Brewing',
+        location: { lat: 32.78, lng: -96.8 },
+      }));
+      expect(candidates).toEqual([
+        expect.objectContaining({ id: 'ChIJ-brew', source: 'google_place', subtitle: '2823 St Louis St, Dallas, TX' }),
+      ]);
+    });
+
+    it('returns no candidates for other radar types or a failed search', async () => {
+      expect(await searchRadarEntities('category', 'Music')).toEqual([]);
+
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 500 });
+      expect(await searchRadarEntities('artist', 'Phoenix')).toEqual([]);
+    });
+  });
+
+  describe('false positives', () => {
+    const hook = { entityId: 'K2', entityName: 'Phoenix' };
+
+    function rejected(overrides: Partial<SuppressedMatch> = {}): SuppressedMatch {
+      return { name: 'Phoenix Suns vs. Dallas Mavericks', createdAt: '2026-05-01T00:00:00Z', ...overrides };
+    }
+
+    it('remembers the rejected alert', () => {
+      const notification: HookNotification = {
+        id: 'n1',
+        userId: 'user-1',
+        hookId: 'hook-1',
+        title: 'Phoenix Suns vs. Dallas Mavericks',
+        body: '',
+        eventKey: 'tm-123',
+        eventData: { name: 'Phoenix Suns vs. Dallas Mavericks', venue: 'Footprint Center', attractionIds: ['K1', 'K9'] },
+        status: 'pending',
+        createdAt: '2026-05-01T00:00:00Z',
+      };
+
+      expect(buildSuppressedMatch(notification, new Date('2026-05-02T00:00:00Z'))).toEqual({
+        eventKey: 'tm-123',
+        name: 'Phoenix Suns vs. Dallas Mavericks',
+        venue: 'Footprint Center',
+        attractionIds: ['K1', 'K9'],
+        createdAt: '2026-05-02T00:00:00.000Z',
+      });
+    });
+
+    it('keeps the newest rejections without repeats', () => {
+      const older = rejected({ eventKey: 'tm-1' });
+      const list = addSuppressedMatch([older], rejected({ eventKey: 'tm-1', createdAt: '2026-05-03T00:00:00Z' }));
+      expect(list).toHaveLength(1);
+      expect(list[0].createdAt).toBe('2026-05-03T00:00:00Z');
+    });
+
+    it('suppresses the same listing and events sharing a rejected performer', () => {
+      const withRejection = { ...hook, suppressedMatches: [rejected({ eventKey: 'tm-123', attractionIds: ['K1', 'K2'] })] };
+
+      expect(isSuppressedMatch(makeEvent({ id: 'tm-123' }), withRejection)).toBe(true);
+      expect(isSuppressedMatch(makeEvent({ id: 'tm-456', name: 'Phoenix Suns vs. Lakers', attractionIds: ['K1', 'K7'] }), withRejection)).toBe(true);
+      // The radar's own artist being on the rejected bill doesn't suppress its shows
+      expect(isSuppressedMatch(makeEvent({ id: 'tm-789', name: 'Phoenix', attractionIds: ['K2'] }), withRejection)).toBe(false);
+    });
+
+    it('suppresses similarly named events, ignoring the radar name itself', () => {
+      const withRejection = { ...hook, suppressedMatches: [rejected({ name: 'Phoenix Home & Garden Show' })] };
+
+      expect(isSuppressedMatch(makeEvent({ id: 'x', name: 'Phoenix Home and Garden Show 2026' }), withRejection)).toBe(true);
+      expect(isSuppressedMatch(makeEvent({ id: 'y', name: 'Phoenix - Alpha Zulu Tour' }), withRejection)).toBe(false);
+    });
+
+    it('filters nothing for radars without rejections', () => {
+      const events = [makeEvent()];
+      expect(filterSuppressedMatches(events, hook)).toBe(events);
+      expect(filterSuppressedMatches(events, { ...hook, suppressedMatches: [rejected({ eventKey: 'evt-1' })] })).toEqual([]);
+    });
+  });
+});
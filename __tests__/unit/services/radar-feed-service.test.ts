@@ -0,0 +1,203 @@
+/**
+ * Radar Feed Service — Unit Tests
+ *
+ * Tests cover:
+ * - Parsing Meetup RSS items and iCal VEVENTs into CachedEvents
+ * - Dropping past events and broken feeds
+ * - Matching feed events to category and keyword radars
+ */
+
+let mockFeedRows: Record<string, unknown>[] = [];
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: () => {
+      const query: any = {
+        select: () => query,
+        eq: () => query,
+        then: (resolve: any, reject: any) => Promise.resolve({ data: mockFeedRows, error: null }).then(resolve, reject),
+      };
+      return query;
+    },
+  },
+}));
+
+import {
+  fetchFeedEvents,
+  filterFeedEventsForHook,
+  parseICalFeed,
+  parseRssFeed,
+  searchCityFeeds,
+} from '@/services/radar-feed-service';
+import type { RadarFeed } from '@/services/radar-feed-service';
+
+const FEED: RadarFeed = {
+  id: 'feed-1',
+  name: 'Dallas Run Club',
+  url: 'https://www.meetup.com/dallas-run-club/events/rss/',
+  format: 'rss',
+  city: 'Dallas',
+  state: 'TX',
+  categories: ['fitness'],
+};
+
+const RSS = `<?xml version="1.0"?>
+<rss version="2.0" xmlns:ev="http://purl.org/rss/1.0/modules/event/">
+  <channel>
+    <title>Dallas Run Club</title>
+    <item>
+      <title><![CDATA[Saturday 5K &amp; Tacos]]></title>
+      <link>https://www.meetup.com/dallas-run-club/events/301/</link>
+      <guid>https://www.meetup.com/dallas-run-club/events/301/</guid>
+      <description>&lt;p&gt;Easy pace loop, then &lt;b&gt;tallow fries&lt;/b&gt;.&lt;/p&gt;</description>
+      <ev:startdate>2026-04-18T13:00:00Z</ev:startdate>
+      <ev:location>White Rock Lake, 8300 E Lawther Dr, Dallas, TX</ev:location>
+      <category>running</category>
+    </item>
+    <item>
+      <title>Trail Night</title>
+      <link>https://www.meetup.com/dallas-run-club/events/302/</link>
+      <pubDate>Thu, 23 Apr 2026 23:30:00 GMT</pubDate>
+    </item>
+    <item>
+      <title>No date</title>
+    </item>
+  </channel>
+</rss>`;
+
+const ICS = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'BEGIN:VEVENT',
+  'UID:evt-77@library.example',
+  'SUMMARY:Board Game Night\\, All Ages',
+  'DTSTART;TZID=America/Chicago:20260420T183000',
+  'LOCATION:Central Library\\, 1515 Young St\\, Dallas',
+  'DESCRIPTION:Bring a friend.\\nGames provided; snacks too.',
+  'CATEGORIES:Games,Family',
+  'URL:https://library.example/events/77',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'SUMMARY:Author Talk',
+  'DTSTART;VALUE=DATE:20260502',
+  'DESCRIPTION:A long description that wraps onto',
+  '  the next line',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'SUMMARY:Cancelled Class',
+  'DTSTART:20260425T150000Z',
+  'STATUS:CANCELLED',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+describe('radar-feed-service', () => {
+  describe('parseRssFeed', () => {
+    it('reads event dates, locations and categories', () => {
+      const events = parseRssFeed(RSS, FEED);
+
+      expect(events).toHaveLength(2);
+      expect(events[0]).toEqual({
+        id: 'rss:https://www.meetup.com/dallas-run-club/events/301/',
+        name: 'Saturday 5K & Tacos',
+        venue: 'White Rock Lake',
+        address: 'White Rock Lake, 8300 E Lawther Dr, Dallas, TX',
+        city: 'Dallas',
+        date: '2026-04-18',
+        time: '13:00:00',
+        ticketUrl: 'https://www.meetup.com/dallas-run-club/events/301/',
+        description: 'Easy pace loop, then tallow fries .',
+        tags: ['fitness', 'running'],
+        source: 'meetup_rss',
+      });
+      // Falls back to pubDate without the event module
+      expect(events[1]).toMatchObject({ name: 'Trail Night', date: '2026-04-23', time: '23:30:00' });
+    });
+  });
+
+  describe('parseICalFeed', () => {
+    it('reads VEVENTs, unfolding and unescaping text', () => {
+      const events = parseICalFeed(ICS, { ...FEED, format: 'ical', categories: [] });
+
+      expect(events).toHaveLength(2);
+      expect(events[0]).toMatchObject({
+        id: 'ical:evt-77@library.example',
+        name: 'Board Game Night, All Ages',
+        venue: 'Central Library',
+        date: '2026-04-20',
+        time: '18:30:00',
+        ticketUrl: 'https://library.example/events/77',
+        description: 'Bring a friend.\nGames provided; snacks too.',
+        tags: ['Games', 'Family'],
+      });
+      expect(events[1]).toMatchObject({
+        id: 'ical:feed-1:Author Talk:2026-05-02',
+        date: '2026-05-02',
+        time: undefined,
+        description: 'A long description that wraps onto the next line',
+      });
+    });
+  });
+
+  describe('fetching', () => {
+    const originalFetch = global.fetch;
+    const mockFetch = jest.fn();
+
+    beforeEach(() => {
+      (global as any).fetch = mockFetch;
+      mockFetch.mockReset();
+      mockFeedRows = [];
+    });
+
+    afterAll(() => {
+      (global as any).fetch = originalFetch;
+    });
+
+    it('drops events that already happened', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, text: async () => RSS });
+
+      const events = await fetchFeedEvents(FEED, new Date('2026-04-20T00:00:00Z'));
+
+      expect(events.map(e => e.name)).toEqual(['Trail Night']);
+    });
+
+    it('reads every feed in the city and survives broken ones', async () => {
+      mockFeedRows = [
+        { id: 'feed-1', name: 'Run Club', url: 'https://a.example/rss', format: 'rss', city: 'Dallas', state: 'TX', categories: ['fitness'] },
+        { id: 'feed-2', name: 'Library', url: 'https://b.example/cal.ics', format: 'ical', city: 'Dallas', state: 'TX', categories: null },
+        { id: 'feed-3', name: 'Gone', url: 'https://c.example/rss', format: 'rss', city: 'Dallas', state: 'TX', categories: [] },
+      ];
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, text: async () => RSS })
+        .mockResolvedValueOnce({ ok: true, text: async () => ICS })
+        .mockResolvedValueOnce({ ok: false, status: 404 });
+
+      jest.useFakeTimers({ now: new Date('2026-04-01T00:00:00Z') });
+      const events = await searchCityFeeds('Dallas', 'TX');
+      jest.useRealTimers();
+
+      expect(events.map(e => e.date)).toEqual(['2026-04-18', '2026-04-20', '2026-04-23', '2026-05-02']);
+    });
+  });
+
+  describe('filterFeedEventsForHook', () => {
+    const events = parseRssFeed(RSS, FEED);
+
+    it('matches category radars on feed categories or text', () => {
+      expect(filterFeedEventsForHook(events, { hookType: 'category', category: 'fitness' })).toHaveLength(2);
+      expect(filterFeedEventsForHook(events, { hookType: 'category', category: 'running' }).map(e => e.name))
+        .toEqual(['Saturday 5K & Tacos']);
+      expect(filterFeedEventsForHook(events, { hookType: 'category', category: 'live_music' })).toEqual([]);
+    });
+
+    it('matches keyword radars on whole words in the title or description', () => {
+      expect(filterFeedEventsForHook(events, { hookType: 'keyword', searchKeyword: 'Tallow Fries' }).map(e => e.name))
+        .toEqual(['Saturday 5K & Tacos']);
+      expect(filterFeedEventsForHook(events, { hookType: 'keyword', searchKeyword: 'tall' })).toEqual([]);
+    });
+
+    it('ignores other radar types', () => {
+      expect(filterFeedEventsForHook(events, { hookType: 'artist', entityName: 'Trail' })).toEqual([]);
+    });
+  });
+});
@@ -2,7 +2,8 @@
  * Tests for radar-polling-service
  *
  * Covers: event cache logic, Ticketmaster API integration, hook matching,
- * batch polling, and the cachedEventToRadarEventData transformer.
+ * per-user keyword polling, multi-city matching, multi-source merging, and
+ * the cachedEventToRadarEventData transformer.
  *
  * Mock strategy:
  * - Supabase: chained mock builder for from().select().eq() etc.
@@ -14,7 +15,7 @@
 // Set the API key BEFORE imports so the module-level const captures it
 process.env.EXPO_PUBLIC_TICKETMASTER_API_KEY = 'test-tm-key';
 
-import type { CachedEvent, UserHook, RadarEventData } from '@/types/radar';
+import type { CachedEvent, UserHook, RadarCity, RadarEventData } from '@/types/radar';
 
 // ---------------------------------------------------------------------------
 // Supabase mock — flexible chain that can be configured per test
@@ -32,6 +33,15 @@ jest.mock('@/services/radar-push-service', () => ({
   sendRadarPushNotification: jest.fn().mockResolvedValue(false),
 }));
 
+jest.mock('@/services/city-detection', () => ({
+  detectUserCityWithFallback: jest.fn(),
+}));
+
+jest.mock('@/services/bandsintown-service', () => ({
+  isBandsintownConfigured: jest.fn(() => false),
+  searchBandsintownArtistEvents: jest.fn().mockResolvedValue([]),
+}));
+
 // Default chain builder — creates a chainable mock for any Supabase table call
 function defaultChain(resolveValue: any = { data: null, error: null }) {
   const chain: any = {};
@@ -76,7 +86,16 @@ import {
   matchHookToEvents,
   cachedEventToRadarEventData,
   pollRadarsForUser,
+  resolveRadarHomeCity,
+  getHookCities,
+  cityCacheSlug,
+  buildEventAlertBody,
+  isSameEvent,
+  mergeEventSources,
 } from '@/services/radar-polling-service';
+import { isBandsintownConfigured } from '@/services/bandsintown-service';
+import { detectUserCityWithFallback } from '@/services/city-detection';
+import { createFixtureTmdbClient, setTmdbClient } from '@/services/tmdb-service';
 
 // ---------------------------------------------------------------------------
 // Reset mocks before each test
@@ -243,7 +262,7 @@ describe('radar-polling-service', () => {
       });
       mockFromImpl = () => chain;
 
-      const result = await getCachedEvents('artist:taylor_swift:dallas');
+      const result = await getCachedEvents('artist:taylor_swift:dallas_tx');
       expect(result).toEqual(cachedEvents);
     });
 
@@ -251,7 +270,7 @@ describe('radar-polling-service', () => {
       const chain = defaultChain({ data: null, error: { code: 'PGRST116' } });
       mockFromImpl = () => chain;
 
-      const result = await getCachedEvents('artist:unknown:dallas');
+      const result = await getCachedEvents('artist:unknown:dallas_tx');
       expect(result).toBeNull();
     });
 
@@ -263,7 +282,7 @@ describe('radar-polling-service', () => {
       });
       mockFromImpl = () => chain;
 
-      const result = await getCachedEvents('artist:expired:dallas');
+      const result = await getCachedEvents('artist:expired:dallas_tx');
       expect(result).toBeNull();
     });
 
@@ -272,7 +291,7 @@ describe('radar-polling-service', () => {
       chain.single.mockRejectedValue(new Error('Network error'));
       mockFromImpl = () => chain;
 
-      const result = await getCachedEvents('artist:error:dallas');
+      const result = await getCachedEvents('artist:error:dallas_tx');
       expect(result).toBeNull();
     });
 
@@ -284,7 +303,7 @@ describe('radar-polling-service', () => {
       });
       mockFromImpl = () => chain;
 
-      const result = await getCachedEvents('artist:no_expiry:dallas');
+      const result = await getCachedEvents('artist:no_expiry:dallas_tx');
       expect(result).toEqual(cachedEvents);
     });
   });
@@ -304,7 +323,7 @@ describe('radar-polling-service', () => {
       ];
 
       await updateEventCache(
-        'artist:test:dallas',
+        'artist:test:dallas_tx',
         'ticketmaster',
         'artist',
         'Test Artist',
@@ -321,7 +340,7 @@ describe('radar-polling-service', () => {
       expect(expiresDate.getUTCDate()).toBe(16);
       expect(expiresDate.getUTCMonth()).toBe(5); // June = month 5 (0-indexed)
 
-      expect(upsertArg.cache_key).toBe('artist:test:dallas');
+      expect(upsertArg.cache_key).toBe('artist:test:dallas_tx');
       expect(upsertArg.source).toBe('ticketmaster');
       expect(upsertArg.entity_type).toBe('artist');
       expect(upsertArg.entity_name).toBe('Test Artist');
@@ -335,7 +354,7 @@ describe('radar-polling-service', () => {
 
       const beforeCall = Date.now();
       await updateEventCache(
-        'artist:empty:dallas',
+        'artist:empty:dallas_tx',
         'ticketmaster',
         'artist',
         'Unknown Artist',
@@ -501,6 +520,29 @@ describe('radar-polling-service', () => {
       expect(result[0].priceMin).toBeUndefined();
       expect(result[0].imageUrl).toBeUndefined();
     });
+
+    it('maps sale status, on-sale time and presales', async () => {
+      const tmEvent = {
+        ...makeTMEvent(),
+        dates: { start: { localDate: '2026-08-01' }, status: { code: 'offsale' } },
+        sales: {
+          public: { startDateTime: '2026-05-15T15:00:00Z' },
+          presales: [{ name: 'Verified Fan', startDateTime: '2026-05-12T15:00:00Z', endDateTime: '2026-05-14T03:00:00Z' }],
+        },
+      };
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => makeTMResponse([tmEvent]),
+      });
+
+      const result = await searchTicketmasterByKeyword('Presale');
+
+      expect(result[0]).toMatchObject({
+        saleStatus: 'offsale',
+        onSaleAt: '2026-05-15T15:00:00Z',
+        presales: [{ name: 'Verified Fan', startAt: '2026-05-12T15:00:00Z', endAt: '2026-05-14T03:00:00Z' }],
+      });
+    });
   });
 
   // --------------------------------------------------------------------------
@@ -581,7 +623,7 @@ describe('radar-polling-service', () => {
 
       // Verify cache key used
       const eqCalls = cacheChain.eq.mock.calls;
-      expect(eqCalls[0]).toEqual(['cache_key', 'artist:taylor_swift:dallas']);
+      expect(eqCalls[0]).toEqual(['cache_key', 'artist:taylor_swift:dallas_tx']);
       expect(result).toEqual(events);
     });
 
@@ -603,7 +645,7 @@ describe('radar-polling-service', () => {
 
       // live_music maps to "Music" -> key = "category:music:dallas"
       const eqCalls = cacheChain.eq.mock.calls;
-      expect(eqCalls[0]).toEqual(['cache_key', 'category:music:dallas']);
+      expect(eqCalls[0]).toEqual(['cache_key', 'category:music:dallas_tx']);
     });
 
     it('builds correct cache key for venue hook', async () => {
@@ -623,7 +665,7 @@ describe('radar-polling-service', () => {
       await matchHookToEvents(hook);
 
       const eqCalls = cacheChain.eq.mock.calls;
-      expect(eqCalls[0]).toEqual(['cache_key', 'venue:house_of_blues:dallas']);
+      expect(eqCalls[0]).toEqual(['cache_key', 'venue:house_of_blues:dallas_tx']);
     });
 
     it('returns cached events without calling fetch on cache hit', async () => {
@@ -679,9 +721,9 @@ describe('radar-polling-service', () => {
       expect(result).toEqual([]);
     });
 
-    it('handles film_talent hook same as artist', async () => {
+    it('keys film_talent caches by TMDb person and department, not city', async () => {
       const futureDate = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
-      const events = [makeCachedEvent()];
+      const events = [makeCachedEvent({ source: 'tmdb' })];
 
       const cacheChain = defaultChain({
         data: { events, expires_at: futureDate },
@@ -692,12 +734,58 @@ describe('radar-polling-service', () => {
         return defaultChain();
       };
 
-      const hook = makeUserHook({ hookType: 'film_talent', entityName: 'Christopher Nolan' });
+      const hook = makeUserHook({
+        hookType: 'film_talent',
+        entityName: 'Christopher Nolan',
+        entityId: '525',
+        talentDepartment: 'Directing',
+      });
       const result = await matchHookToEvents(hook);
 
       const eqCalls = cacheChain.eq.mock.calls;
-      expect(eqCalls[0]).toEqual(['cache_key', 'artist:christopher_nolan:dallas']);
+      expect(eqCalls[0]).toEqual(['cache_key', 'film:525:directing']);
       expect(result).toEqual(events);
+      // Films never go to Ticketmaster
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('resolves the TMDb person on first poll and caches theatrical releases', async () => {
+      const releaseDate = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+      setTmdbClient(createFixtureTmdbClient({
+        people: [{ id: 525, name: 'Christopher Nolan', knownForDepartment: 'Directing', popularity: 20 }],
+        credits: {
+          525: [{ movieId: 10, title: 'The Odyssey', releaseDate, posterPath: '/o.jpg', department: 'Directing' }],
+        },
+        theatricalDates: { 10: releaseDate },
+      }));
+
+      const cacheChain = defaultChain({ data: null, error: null });
+      const hooksChain = defaultChain();
+      mockFromImpl = (table: string) => {
+        if (table === 'event_cache') return cacheChain;
+        if (table === 'user_hooks') return hooksChain;
+        return defaultChain();
+      };
+
+      const hook = makeUserHook({ hookType: 'film_talent', entityName: 'Christopher Nolan' });
+      const result = await matchHookToEvents(hook);
+
+      expect(hooksChain.update).toHaveBeenCalledWith({ entity_id: '525' });
+      expect(hook.entityId).toBe('525');
+      expect(cacheChain.eq.mock.calls[0]).toEqual(['cache_key', 'film:525:any']);
+      expect(result.map(e => e.name)).toEqual(['The Odyssey']);
+      expect(cacheChain.upsert.mock.calls[0][0]).toMatchObject({ source: 'tmdb', entity_type: 'film_talent' });
+
+      setTmdbClient(null);
+    });
+
+    it('skips film_talent radars with no TMDb match', async () => {
+      setTmdbClient(createFixtureTmdbClient({ people: [], credits: {} }));
+
+      const result = await matchHookToEvents(makeUserHook({ hookType: 'film_talent', entityName: 'Nobody' }));
+
+      expect(result).toEqual([]);
+      setTmdbClient(null);
     });
 
     it('uses entityName as fallback for category when category is undefined', async () => {
@@ -722,422 +810,184 @@ describe('radar-polling-service', () => {
 
       // sports maps to "Sports" -> "category:sports:dallas"
       const eqCalls = cacheChain.eq.mock.calls;
-      expect(eqCalls[0]).toEqual(['cache_key', 'category:sports:dallas']);
+      expect(eqCalls[0]).toEqual(['cache_key', 'category:sports:dallas_tx']);
     });
-  });
 
-  // --------------------------------------------------------------------------
-  // 6. pollRadarsForUser
-  // --------------------------------------------------------------------------
-  describe('pollRadarsForUser', () => {
-    it('returns 0 when user has no active hooks', async () => {
-      // user_hooks query returns empty array
-      mockFromImpl = (table: string) => {
-        const chain = defaultChain();
-        if (table === 'user_hooks') {
-          // .neq() is the last chain call, and the whole thing is awaited
-          chain.neq = jest.fn(() => Promise.resolve({ data: [], error: null }));
-        }
-        return chain;
-      };
+    it('queries a resolved artist radar by Ticketmaster attraction ID', async () => {
+      const cacheChain = defaultChain({ data: null, error: null });
+      mockFromImpl = (table: string) => (table === 'event_cache' ? cacheChain : defaultChain());
 
-      const result = await pollRadarsForUser('user-1');
-      expect(result).toBe(0);
-    });
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => makeTMResponse([makeTMEvent({
+          name: 'Phoenix - Alpha Zulu Tour',
+          _embedded: {
+            venues: [{ id: 'KovZ1', name: 'House of Blues', city: { name: 'Dallas' }, state: { stateCode: 'TX' } }],
+            attractions: [{ id: 'K2', name: 'Phoenix' }],
+          },
+        })]),
+      });
 
-    it('returns 0 when supabase errors fetching hooks', async () => {
-      mockFromImpl = (table: string) => {
-        const chain = defaultChain();
-        if (table === 'user_hooks') {
-          chain.neq = jest.fn(() =>
-            Promise.resolve({ data: null, error: { message: 'DB error' } })
-          );
-        }
-        return chain;
-      };
+      const hook = makeUserHook({ entityName: 'Phoenix', entityId: 'K2', entitySource: 'ticketmaster_attraction' });
+      const result = await matchHookToEvents(hook);
 
-      const result = await pollRadarsForUser('user-1');
-      expect(result).toBe(0);
+      expect(cacheChain.eq.mock.calls[0]).toEqual(['cache_key', 'artist:tm:K2:dallas_tx']);
+      expect(mockFetch.mock.calls[0][0]).toContain('attractionId=K2');
+      expect(mockFetch.mock.calls[0][0]).not.toContain('keyword=');
+      expect(result[0]).toMatchObject({ attractionIds: ['K2'], performers: ['Phoenix'], venueId: 'KovZ1' });
     });
 
-    it('creates notifications for new events found via cache', async () => {
-      const hookRow = {
-        id: 'hook-1',
-        user_id: 'user-1',
-        hook_type: 'artist',
-        entity_name: 'Taylor Swift',
-        entity_id: null,
-        category: null,
-        is_active: true,
-        trigger_count: 0,
-        created_at: '2026-01-01T00:00:00Z',
-        updated_at: '2026-01-01T00:00:00Z',
-      };
-
-      const cachedEvents = [
-        makeCachedEvent({ name: 'Taylor Swift - Eras Tour Dallas' }),
-      ];
-
-      const futureDate = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
-      const insertSelectChain: any = { select: jest.fn().mockReturnThis(), single: jest.fn().mockResolvedValue({ data: { id: 'notif-new', created_at: new Date().toISOString() }, error: null }) };
-      const insertMock = jest.fn(() => insertSelectChain);
-
-      mockFromImpl = (table: string) => {
-        const chain = defaultChain();
-
-        if (table === 'user_hooks') {
-          chain.neq = jest.fn(() =>
-            Promise.resolve({ data: [hookRow], error: null })
-          );
-          return chain;
-        }
-
-        if (table === 'event_cache') {
-          chain.single = jest.fn().mockResolvedValue({
-            data: { events: cachedEvents, expires_at: futureDate },
-            error: null,
-          });
-          return chain;
-        }
-
-        if (table === 'hook_notifications') {
-          // For the existing-notifications SELECT query: .select().eq().eq() -> awaited
-          // The second .eq() returns a promise (end of chain)
-          const selectChain: any = {};
-          selectChain.eq = jest.fn(() => selectChain);
-          // The final .eq in the chain returns the result promise
-          let eqCallCount = 0;
-          selectChain.eq = jest.fn(() => {
-            eqCallCount++;
-            if (eqCallCount >= 2) {
-              return Promise.resolve({ data: [], error: null });
-            }
-            return selectChain;
-          });
-          chain.select = jest.fn(() => selectChain);
-          chain.insert = insertMock;
-          return chain;
-        }
-
-        return chain;
-      };
+    it('keys a Ticketmaster venue radar by venue ID', async () => {
+      const cacheChain = defaultChain({ data: null, error: null });
+      mockFromImpl = (table: string) => (table === 'event_cache' ? cacheChain : defaultChain());
+      mockFetch.mockResolvedValue({ ok: true, json: async () => makeTMResponse([]) });
 
-      const result = await pollRadarsForUser('user-1');
+      const hook = makeUserHook({ hookType: 'venue', entityName: 'House of Blues', entityId: 'KovZ1', entitySource: 'ticketmaster_venue' });
+      await matchHookToEvents(hook);
 
-      expect(result).toBe(1);
-      expect(insertMock).toHaveBeenCalledTimes(1);
-      const insertArg = (insertMock.mock.calls as any)[0][0];
-      expect(insertArg.title).toBe('Taylor Swift - Eras Tour Dallas');
-      expect(insertArg.user_id).toBe('user-1');
-      expect(insertArg.hook_id).toBe('hook-1');
-      expect(insertArg.status).toBe('pending');
+      expect(cacheChain.eq.mock.calls[0]).toEqual(['cache_key', 'venue:tm:KovZ1']);
+      expect(mockFetch.mock.calls[0][0]).toContain('venueId=KovZ1');
     });
 
-    it('deduplicates: skips events already notified about', async () => {
-      const hookRow = {
-        id: 'hook-1',
-        user_id: 'user-1',
-        hook_type: 'artist',
-        entity_name: 'Drake',
-        entity_id: null,
-        category: null,
-        is_active: true,
-        trigger_count: 2,
-        created_at: '2026-01-01T00:00:00Z',
-        updated_at: '2026-01-01T00:00:00Z',
-      };
-
-      const cachedEvents = [
-        makeCachedEvent({ name: 'Drake - Houston Show' }),
-        makeCachedEvent({ name: 'Drake - Dallas Show' }),
-      ];
-
-      const existingNotifs = [
-        { event_data: { name: 'Drake - Houston Show' } },
-      ];
-
+    it('narrows a name-only artist radar to events the artist plays', async () => {
       const futureDate = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
-      const insertSelectChain: any = { select: jest.fn().mockReturnThis(), single: jest.fn().mockResolvedValue({ data: { id: 'notif-new', created_at: new Date().toISOString() }, error: null }) };
-      const insertMock = jest.fn(() => insertSelectChain);
-
-      mockFromImpl = (table: string) => {
-        const chain = defaultChain();
-
-        if (table === 'user_hooks') {
-          chain.neq = jest.fn(() =>
-            Promise.resolve({ data: [hookRow], error: null })
-          );
-          return chain;
-        }
-
-        if (table === 'event_cache') {
-          chain.single = jest.fn().mockResolvedValue({
-            data: { events: cachedEvents, expires_at: futureDate },
-            error: null,
-          });
-          return chain;
-        }
-
-        if (table === 'hook_notifications') {
-          const selectChain: any = {};
-          let eqCallCount = 0;
-          selectChain.eq = jest.fn(() => {
-            eqCallCount++;
-            if (eqCallCount >= 2) {
-              return Promise.resolve({ data: existingNotifs, error: null });
-            }
-            return selectChain;
-          });
-          chain.select = jest.fn(() => selectChain);
-          chain.insert = insertMock;
-          return chain;
-        }
-
-        return chain;
-      };
+      const events = [
+        makeCachedEvent({ id: 'a', name: 'Phoenix Suns vs. Lakers', performers: ['Phoenix Suns', 'Los Angeles Lakers'] }),
+        makeCachedEvent({ id: 'b', name: 'Phoenix - Alpha Zulu Tour', performers: ['Phoenix'] }),
+      ];
+      const cacheChain = defaultChain({ data: { events, expires_at: futureDate }, error: null });
+      mockFromImpl = (table: string) => (table === 'event_cache' ? cacheChain : defaultChain());
 
-      const result = await pollRadarsForUser('user-1');
+      const result = await matchHookToEvents(makeUserHook({ entityName: 'Phoenix' }));
 
-      // Should only create 1 notification (Dallas), Houston is already notified
-      expect(result).toBe(1);
-      expect(insertMock).toHaveBeenCalledTimes(1);
-      const insertArg = (insertMock.mock.calls as any)[0][0];
-      expect(insertArg.title).toBe('Drake - Dallas Show');
+      expect(cacheChain.eq.mock.calls[0]).toEqual(['cache_key', 'artist:phoenix:dallas_tx']);
+      expect(result.map(e => e.id)).toEqual(['b']);
     });
 
-    it('limits to 3 events per hook (slice(0, 3))', async () => {
-      const hookRow = {
-        id: 'hook-1',
-        user_id: 'user-1',
-        hook_type: 'category',
-        entity_name: null,
-        entity_id: null,
-        category: 'music',
-        is_active: true,
-        trigger_count: 0,
-        created_at: '2026-01-01T00:00:00Z',
-        updated_at: '2026-01-01T00:00:00Z',
-      };
-
-      const cachedEvents = [
-        makeCachedEvent({ name: 'Event 1' }),
-        makeCachedEvent({ name: 'Event 2' }),
-        makeCachedEvent({ name: 'Event 3' }),
-        makeCachedEvent({ name: 'Event 4' }),
-        makeCachedEvent({ name: 'Event 5' }),
-      ];
-
+    it('skips events like alerts the user rejected for the radar', async () => {
       const futureDate = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
-      const insertSelectChain: any = { select: jest.fn().mockReturnThis(), single: jest.fn().mockResolvedValue({ data: { id: 'notif-new', created_at: new Date().toISOString() }, error: null }) };
-      const insertMock = jest.fn(() => insertSelectChain);
+      const events = [
+        makeCachedEvent({ id: 'tm-rejected', name: 'Category Night' }),
+        makeCachedEvent({ id: 'tm-ok', name: 'Jazz Under the Stars' }),
+      ];
+      const cacheChain = defaultChain({ data: { events, expires_at: futureDate }, error: null });
+      mockFromImpl = (table: string) => (table === 'event_cache' ? cacheChain : defaultChain());
 
-      mockFromImpl = (table: string) => {
-        const chain = defaultChain();
+      const hook = makeUserHook({
+        hookType: 'category',
+        category: 'live_music',
+        suppressedMatches: [{ eventKey: 'tm-rejected', name: 'Category Night', createdAt: '2026-01-02T00:00:00Z' }],
+      });
+      const result = await matchHookToEvents(hook);
 
-        if (table === 'user_hooks') {
-          chain.neq = jest.fn(() =>
-            Promise.resolve({ data: [hookRow], error: null })
-          );
-          return chain;
-        }
+      expect(result.map(e => e.id)).toEqual(['tm-ok']);
+    });
+  });
 
-        if (table === 'event_cache') {
-          chain.single = jest.fn().mockResolvedValue({
-            data: { events: cachedEvents, expires_at: futureDate },
-            error: null,
-          });
-          return chain;
-        }
+  // --------------------------------------------------------------------------
+  // 6. pollRadarsForUser
+  // --------------------------------------------------------------------------
+  describe('pollRadarsForUser', () => {
+    const futureDate = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
 
-        if (table === 'hook_notifications') {
-          const selectChain: any = {};
-          let eqCallCount = 0;
-          selectChain.eq = jest.fn(() => {
-            eqCallCount++;
-            if (eqCallCount >= 2) {
-              return Promise.resolve({ data: [], error: null });
-            }
-            return selectChain;
-          });
-          chain.select = jest.fn(() => selectChain);
-          chain.insert = insertMock;
-          return chain;
-        }
+    /** user_hooks chain whose final .eq() is awaited */
+    function hooksChain(result: { data: any; error: any }) {
+      const chain = defaultChain();
+      chain.then = (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject);
+      return chain;
+    }
+
+    function makePlace(placeId: string) {
+      return { placeId, name: `Rooftop ${placeId}`, address: '', rating: 4.6, reviewsCount: 120, priceLevel: 2, category: 'bar', matchedKeyword: 'rooftop bar' };
+    }
+
+    const keywordHookRow = {
+      id: 'hook-1',
+      user_id: 'user-1',
+      hook_type: 'keyword',
+      search_keyword: 'rooftop bar',
+      is_active: true,
+      trigger_count: 1,
+    };
 
-        return chain;
-      };
+    it('returns 0 when user has no active hooks', async () => {
+      mockFromImpl = (table: string) => (table === 'user_hooks' ? hooksChain({ data: [], error: null }) : defaultChain());
 
       const result = await pollRadarsForUser('user-1');
-
-      // Max 3 per hook (events.slice(0, 3))
-      expect(result).toBe(3);
-      expect(insertMock).toHaveBeenCalledTimes(3);
-    });
-
-    it('excludes proximity hooks from polling', async () => {
-      mockFromImpl = (table: string) => {
-        const chain = defaultChain();
-        if (table === 'user_hooks') {
-          chain.neq = jest.fn((col, val) => {
-            // Verify that proximity is excluded
-            expect(col).toBe('hook_type');
-            expect(val).toBe('proximity');
-            return Promise.resolve({ data: [], error: null });
-          });
-        }
-        return chain;
-      };
-
-      await pollRadarsForUser('user-1');
+      expect(result).toBe(0);
     });
 
-    it('returns 0 and does not throw when polling encounters an error', async () => {
-      mockFromImpl = () => {
-        throw new Error('Unexpected error');
-      };
+    it('returns 0 when supabase errors fetching hooks', async () => {
+      mockFromImpl = (table: string) =>
+        table === 'user_hooks' ? hooksChain({ data: null, error: { message: 'DB error' } }) : defaultChain();
 
       const result = await pollRadarsForUser('user-1');
       expect(result).toBe(0);
     });
 
-    it('notification body includes venue and price info', async () => {
-      const hookRow = {
-        id: 'hook-1',
-        user_id: 'user-1',
-        hook_type: 'artist',
-        entity_name: 'Adele',
-        entity_id: null,
-        category: null,
-        is_active: true,
-        trigger_count: 0,
-        created_at: '2026-01-01T00:00:00Z',
-        updated_at: '2026-01-01T00:00:00Z',
-      };
+    it('only polls keyword radars (the sweep handles event radars)', async () => {
+      const chain = hooksChain({ data: [], error: null });
+      mockFromImpl = (table: string) => (table === 'user_hooks' ? chain : defaultChain());
 
-      const cachedEvents = [
-        makeCachedEvent({
-          name: 'Adele Live',
-          venue: 'AT&T Stadium',
-          date: '2026-06-20',
-          priceMin: 75,
-        }),
-      ];
+      await pollRadarsForUser('user-1');
 
-      const futureDate = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
-      const insertSelectChain: any = { select: jest.fn().mockReturnThis(), single: jest.fn().mockResolvedValue({ data: { id: 'notif-new', created_at: new Date().toISOString() }, error: null }) };
-      const insertMock = jest.fn(() => insertSelectChain);
+      expect(chain.eq.mock.calls).toContainEqual(['hook_type', 'keyword']);
+    });
+
+    it('alerts new keyword places, skipping ones already alerted, without reading event sources', async () => {
+      const insertMock = jest.fn(() => ({
+        select: () => ({ single: () => Promise.resolve({ data: { id: 'notif-new', created_at: 'now' }, error: null }) }),
+      }));
+      const hookUpdates: any[] = [];
+      const cacheKeys: string[] = [];
 
       mockFromImpl = (table: string) => {
         const chain = defaultChain();
-
         if (table === 'user_hooks') {
-          chain.neq = jest.fn(() =>
-            Promise.resolve({ data: [hookRow], error: null })
-          );
-          return chain;
+          const hooks = hooksChain({ data: [keywordHookRow], error: null });
+          hooks.update = jest.fn((values: any) => (hookUpdates.push(values), hooks));
+          return hooks;
         }
-
         if (table === 'event_cache') {
+          chain.eq = jest.fn((_col: string, value: string) => (cacheKeys.push(value), chain));
           chain.single = jest.fn().mockResolvedValue({
-            data: { events: cachedEvents, expires_at: futureDate },
+            data: { events: [makePlace('p1'), makePlace('p2')], expires_at: futureDate },
             error: null,
           });
-          return chain;
         }
-
         if (table === 'hook_notifications') {
           const selectChain: any = {};
           let eqCallCount = 0;
-          selectChain.eq = jest.fn(() => {
-            eqCallCount++;
-            if (eqCallCount >= 2) {
-              return Promise.resolve({ data: [], error: null });
-            }
-            return selectChain;
-          });
+          selectChain.eq = jest.fn(() => (
+            ++eqCallCount >= 2 ? Promise.resolve({ data: [{ place_data: { placeId: 'p1' } }], error: null }) : selectChain
+          ));
           chain.select = jest.fn(() => selectChain);
           chain.insert = insertMock;
-          return chain;
         }
-
         return chain;
       };
 
-      await pollRadarsForUser('user-1');
+      const result = await pollRadarsForUser('user-1', 'free', { city: 'Dallas', state: 'TX', lat: 32.7767, lng: -96.797 });
 
-      const insertArg = (insertMock.mock.calls as any)[0][0];
-      expect(insertArg.body).toContain('AT&T Stadium');
-      expect(insertArg.body).toContain('2026-06-20');
-      expect(insertArg.body).toContain('From $75');
+      expect(result).toBe(1);
+      expect(cacheKeys).toEqual(['keyword:rooftop_bar:dallas_tx']);
+      expect(insertMock).toHaveBeenCalledTimes(1);
+      expect((insertMock.mock.calls as any)[0][0]).toMatchObject({
+        hook_id: 'hook-1',
+        title: 'Rooftop p2',
+        source: 'google_places',
+        place_data: { placeId: 'p2' },
+      });
+      expect(hookUpdates).toEqual([expect.objectContaining({ trigger_count: 2 })]);
     });
 
-    it('notification body shows "Free" when priceMin is undefined', async () => {
-      const hookRow = {
-        id: 'hook-1',
-        user_id: 'user-1',
-        hook_type: 'artist',
-        entity_name: 'Free Artist',
-        entity_id: null,
-        category: null,
-        is_active: true,
-        trigger_count: 0,
-        created_at: '2026-01-01T00:00:00Z',
-        updated_at: '2026-01-01T00:00:00Z',
-      };
-
-      const cachedEvents = [
-        makeCachedEvent({
-          name: 'Free Show',
-          venue: 'City Park',
-          date: '2026-07-04',
-          priceMin: undefined,
-        }),
-      ];
-
-      const futureDate = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
-      const insertSelectChain: any = { select: jest.fn().mockReturnThis(), single: jest.fn().mockResolvedValue({ data: { id: 'notif-new', created_at: new Date().toISOString() }, error: null }) };
-      const insertMock = jest.fn(() => insertSelectChain);
-
-      mockFromImpl = (table: string) => {
-        const chain = defaultChain();
-
-        if (table === 'user_hooks') {
-          chain.neq = jest.fn(() =>
-            Promise.resolve({ data: [hookRow], error: null })
-          );
-          return chain;
-        }
-
-        if (table === 'event_cache') {
-          chain.single = jest.fn().mockResolvedValue({
-            data: { events: cachedEvents, expires_at: futureDate },
-            error: null,
-          });
-          return chain;
-        }
-
-        if (table === 'hook_notifications') {
-          const selectChain: any = {};
-          let eqCallCount = 0;
-          selectChain.eq = jest.fn(() => {
-            eqCallCount++;
-            if (eqCallCount >= 2) {
-              return Promise.resolve({ data: [], error: null });
-            }
-            return selectChain;
-          });
-          chain.select = jest.fn(() => selectChain);
-          chain.insert = insertMock;
-          return chain;
-        }
-
-        return chain;
+    it('returns 0 and does not throw when polling encounters an error', async () => {
+      mockFromImpl = () => {
+        throw new Error('Unexpected error');
       };
 
-      await pollRadarsForUser('user-1');
-
-      const insertArg = (insertMock.mock.calls as any)[0][0];
-      expect(insertArg.body).toContain('Free');
+      const result = await pollRadarsForUser('user-1');
+      expect(result).toBe(0);
     });
   });
 
@@ -1176,8 +1026,166 @@ describe('radar-polling-service', () => {
         await matchHookToEvents(hook);
 
         const eqCalls = cacheChain.eq.mock.calls;
-        expect(eqCalls[0]).toEqual(['cache_key', `category:${expectedTM}:dallas`]);
+        expect(eqCalls[0]).toEqual(['cache_key', `category:${expectedTM}:dallas_tx`]);
       });
     });
   });
+
+  // --------------------------------------------------------------------------
+  // 8. Multi-city polling
+  // --------------------------------------------------------------------------
+  describe('multi-city polling', () => {
+    const dallas: RadarCity = { city: 'Dallas', state: 'TX', lat: 32.7767, lng: -96.797 };
+    const austin: RadarCity = { city: 'Austin', state: 'TX', lat: 30.2672, lng: -97.7431 };
+    const fortWorth: RadarCity = { city: 'Fort Worth', state: 'TX', lat: 32.7555, lng: -97.3308 };
+
+    it('resolves the home city from the user profile', async () => {
+      mockFromImpl = () => defaultChain({ data: { id: 'user-1', email: 'a@b.c' }, error: null });
+      (detectUserCityWithFallback as jest.Mock).mockResolvedValue({ city: 'Austin', state: 'TX', lat: 30.27, lng: -97.74 });
+
+      await expect(resolveRadarHomeCity('user-1')).resolves.toEqual({ city: 'Austin', state: 'TX', lat: 30.27, lng: -97.74 });
+    });
+
+    it('falls back to the default city without a location', async () => {
+      mockFromImpl = () => defaultChain({ data: { id: 'user-1' }, error: null });
+      (detectUserCityWithFallback as jest.Mock).mockResolvedValue(null);
+
+      await expect(resolveRadarHomeCity('user-1')).resolves.toMatchObject({ city: 'Dallas', state: 'TX' });
+    });
+
+    it('lists home first and drops duplicate watch cities', () => {
+      const cities = getHookCities({ watchCities: [austin, { ...dallas, lat: undefined }, austin] }, dallas);
+      expect(cities.map(c => c.city)).toEqual(['Dallas', 'Austin']);
+    });
+
+    it('keeps same-named cities in different states apart in cache keys', async () => {
+      expect(cityCacheSlug({ city: 'Portland', state: 'OR' })).toBe('portland_or');
+      expect(cityCacheSlug({ city: 'Portland', state: 'ME' })).toBe('portland_me');
+
+      const cacheChain = defaultChain({ data: { events: [], expires_at: null }, error: null });
+      mockFromImpl = (table: string) => (table === 'event_cache' ? cacheChain : defaultChain());
+      await matchHookToEvents(makeUserHook({ hookType: 'category', category: 'music', entityName: undefined }), { city: 'Portland', state: 'ME' });
+
+      expect(cacheChain.eq.mock.calls.map((call: unknown[]) => call[1])).toEqual(['category:music:portland_me', 'feeds:portland_me']);
+    });
+
+    it('keys the cache and Ticketmaster query by city', async () => {
+      const cacheChain = defaultChain({ data: null, error: null });
+      mockFromImpl = (table: string) => (table === 'event_cache' ? cacheChain : defaultChain());
+      mockFetch.mockResolvedValue({ ok: true, json: async () => makeTMResponse([]) });
+
+      await matchHookToEvents(makeUserHook({ entityName: 'Taylor Swift' }), { city: 'San Antonio', state: 'TX' });
+
+      expect(cacheChain.eq.mock.calls[0]).toEqual(['cache_key', 'artist:taylor_swift:san_antonio_tx']);
+      const url = new URL(mockFetch.mock.calls[0][0]);
+      expect(url.searchParams.get('city')).toBe('San Antonio');
+      expect(url.searchParams.get('stateCode')).toBe('TX');
+      expect(cacheChain.upsert.mock.calls[0][0].location_city).toBe('San Antonio');
+    });
+
+    it('announces films by release date rather than venue and price', () => {
+      const film = makeCachedEvent({ source: 'tmdb', venue: 'In theaters', date: '2026-07-17', priceMin: undefined });
+      expect(buildEventAlertBody(film, dallas, dallas)).toBe('In theaters 2026-07-17');
+    });
+
+    it('mentions the watch city and trip length in alert copy', () => {
+      const event = makeCachedEvent({ venue: "Stubb's", date: '2026-05-01', priceMin: 45 });
+
+      expect(buildEventAlertBody(event, dallas, dallas)).toBe("Stubb's, 2026-05-01 - From $45");
+      expect(buildEventAlertBody(event, fortWorth, dallas)).toBe("Stubb's, Fort Worth (31 mi · day trip), 2026-05-01 - From $45");
+      expect(buildEventAlertBody(event, austin, dallas)).toBe("Stubb's, Austin (182 mi · weekend trip), 2026-05-01 - From $45");
+      expect(buildEventAlertBody(event, { city: 'Austin', state: 'TX' }, dallas)).toBe("Stubb's, Austin, 2026-05-01 - From $45");
+    });
+  });
+
+  // =========================================================================
+  // MULTI-SOURCE EVENTS
+  // =========================================================================
+
+  describe('multi-source events', () => {
+    const futureDate = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
+    const tmShow = makeCachedEvent({
+      id: 'tm-1',
+      name: 'Taylor Swift | The Eras Tour',
+      venue: 'AT&T Stadium',
+      date: '2026-06-20',
+    });
+    const bitShow = makeCachedEvent({
+      id: 'bit:1001',
+      name: 'Taylor Swift',
+      venue: 'AT&T Stadium',
+      date: '2026-06-20',
+      priceMin: undefined,
+      source: 'bandsintown',
+    });
+    const bitOnly = makeCachedEvent({
+      id: 'bit:1002',
+      name: 'Taylor Swift, Phoebe Bridgers',
+      venue: 'The Factory',
+      date: '2026-07-01',
+      source: 'bandsintown',
+    });
+
+    /** event_cache rows by cache key, capturing the keys read */
+    function mockSources(eventsByKey: Record<string, CachedEvent[]>) {
+      const cacheKeys: string[] = [];
+
+      mockFromImpl = (table: string) => {
+        const chain = defaultChain();
+        if (table === 'event_cache') {
+          let key = '';
+          chain.eq = jest.fn((_col: string, value: string) => {
+            key = value;
+            cacheKeys.push(value);
+            return chain;
+          });
+          chain.single = jest.fn(() => Promise.resolve({ data: { events: eventsByKey[key] || [], expires_at: futureDate }, error: null }));
+        }
+        return chain;
+      };
+
+      return { cacheKeys };
+    }
+
+    afterEach(() => {
+      (isBandsintownConfigured as jest.Mock).mockReturnValue(false);
+    });
+
+    it('treats the same day, venue and act as one show', () => {
+      expect(isSameEvent(tmShow, bitShow)).toBe(true);
+      expect(isSameEvent(tmShow, { ...bitShow, venue: 'The AT&T Stadium Arlington' })).toBe(true);
+      expect(isSameEvent(tmShow, { ...bitShow, date: '2026-06-21' })).toBe(false);
+      expect(isSameEvent(tmShow, { ...bitShow, venue: 'Globe Life Field' })).toBe(false);
+      expect(isSameEvent(tmShow, { ...bitShow, name: 'Drake' })).toBe(false);
+      expect(isSameEvent({ name: 'Taylor Swift' }, bitShow)).toBe(false);
+    });
+
+    it('keeps the first source when merging and adds shows only others list', () => {
+      expect(mergeEventSources([[tmShow], [bitOnly, bitShow]])).toEqual([tmShow, bitOnly]);
+    });
+
+    it('merges Bandsintown into artist radars when configured', async () => {
+      (isBandsintownConfigured as jest.Mock).mockReturnValue(true);
+      const { cacheKeys } = mockSources({
+        'artist:taylor_swift:dallas_tx': [tmShow],
+        'bandsintown:taylor_swift:dallas_tx': [bitShow, bitOnly],
+      });
+
+      const events = await matchHookToEvents(makeUserHook());
+
+      expect(cacheKeys).toEqual(['artist:taylor_swift:dallas_tx', 'bandsintown:taylor_swift:dallas_tx']);
+      expect(events.map(e => e.id)).toEqual(['tm-1', 'bit:1002']);
+    });
+
+    it('adds matching feed events to category radars', async () => {
+      const runClub = makeCachedEvent({ id: 'rss:1', name: 'Saturday 5K', venue: 'White Rock Lake', source: 'meetup_rss', tags: ['fitness'] });
+      const bookClub = makeCachedEvent({ id: 'rss:2', name: 'Book Club', venue: 'Library', source: 'meetup_rss', tags: ['books'] });
+      const { cacheKeys } = mockSources({ 'feeds:dallas_tx': [runClub, bookClub] });
+
+      const events = await matchHookToEvents(makeUserHook({ hookType: 'category', category: 'fitness', entityName: undefined }));
+
+      expect(cacheKeys).toEqual(['category:fitness:dallas_tx', 'feeds:dallas_tx']);
+      expect(events.map(e => e.id)).toEqual(['rss:1']);
+    });
+  });
 });
@@ -4,8 +4,11 @@
  * Covers:
  * - registerPushToken: permission check, token retrieval, supabase storage, error paths
  * - sendRadarPushNotification: tier gating, push token lookup, Expo Push API call,
- *   response handling (ok, error status, delivery error), push_sent_at marking
- * - handleRadarNotificationTap: non-radar data returns null, radar_alert extraction
+ *   response handling (ok, error status, delivery error), push_sent_at marking,
+ *   delivery gate (digest mode, daily budget)
+ * - sendRadarPushBatch: chunking, per-ticket push_sent_at marking
+ * - sendRadarDigestPushBatch: digest messages, radar_digests push_sent_at marking
+ * - handleRadarNotificationTap: non-radar data returns null, radar_alert / radar_digest extraction
  * - setupRadarNotificationChannel: Android-only channel creation, error handling
  *
  * Mock strategy:
@@ -13,6 +16,7 @@
  * - expo-notifications: mocked for permissions, token, and channel APIs
  * - global.fetch: mocked for Expo Push API calls
  * - Platform.OS: overridden per test for Android channel logic
+ * - radar-delivery-service: real planning, stubbed push counts and plan writes
  */
 
 import type { HookNotification } from '@/types/radar';
@@ -39,6 +43,19 @@ function defaultChain(resolveValue: any = { data: null, error: null }) {
   return chain;
 }
 
+// ============================================================================
+// DELIVERY MOCK
+// ============================================================================
+
+const mockLoadPushCountsToday = jest.fn();
+const mockApplyDeliveryPlan = jest.fn();
+
+jest.mock('@/services/radar-delivery-service', () => ({
+  ...jest.requireActual('@/services/radar-delivery-service'),
+  loadPushCountsToday: (...args: any[]) => mockLoadPushCountsToday(...args),
+  applyDeliveryPlan: (...args: any[]) => mockApplyDeliveryPlan(...args),
+}));
+
 // ============================================================================
 // EXPO NOTIFICATIONS MOCK
 // ============================================================================
@@ -89,6 +106,8 @@ afterAll(() => {
 import {
   registerPushToken,
   sendRadarPushNotification,
+  sendRadarPushBatch,
+  sendRadarDigestPushBatch,
   handleRadarNotificationTap,
   setupRadarNotificationChannel,
 } from '@/services/radar-push-service';
@@ -123,6 +142,8 @@ beforeEach(() => {
   jest.clearAllMocks();
   mockFromImpl = () => defaultChain();
   mockPlatformOS = 'ios';
+  mockLoadPushCountsToday.mockResolvedValue(new Map());
+  mockApplyDeliveryPlan.mockResolvedValue(undefined);
 });
 
 // ============================================================================
@@ -497,6 +518,129 @@ describe('sendRadarPushNotification', () => {
     const callBody = JSON.parse(mockFetch.mock.calls[0][1].body);
     expect(callBody.sound).toBe('default');
   });
+
+  describe('delivery preferences', () => {
+    function withUser(radarDelivery: Record<string, unknown>) {
+      const usersChain = defaultChain();
+      usersChain.single = jest.fn().mockResolvedValue({
+        data: { expo_push_token: 'ExponentPushToken[xyz789]', radar_delivery: radarDelivery },
+        error: null,
+      });
+      mockFromImpl = (table: string) => (table === 'users' ? usersChain : defaultChain());
+    }
+
+    it('holds the alert for a digest instead of pushing', async () => {
+      withUser({ mode: 'daily_digest' });
+
+      const result = await sendRadarPushNotification(notification, 'plus');
+
+      expect(result).toBe(false);
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(mockApplyDeliveryPlan).toHaveBeenCalledWith({ push: [], held: [notification], feedOnly: [] });
+    });
+
+    it('leaves the alert feed-only once the daily budget is spent', async () => {
+      withUser({ mode: 'instant', maxPushesPerDay: 3 });
+      mockLoadPushCountsToday.mockResolvedValue(new Map([['user-123', 3]]));
+
+      const result = await sendRadarPushNotification(notification, 'plus');
+
+      expect(result).toBe(false);
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(mockApplyDeliveryPlan).toHaveBeenCalledWith({ push: [], held: [], feedOnly: [notification] });
+    });
+
+    it('pushes while budget remains', async () => {
+      withUser({ mode: 'instant', maxPushesPerDay: 3 });
+      mockLoadPushCountsToday.mockResolvedValue(new Map([['user-123', 2]]));
+      mockFetch.mockResolvedValue({ ok: true, json: () => Promise.resolve({ data: [{ status: 'ok' }] }) });
+
+      await expect(sendRadarPushNotification(notification, 'plus')).resolves.toBe(true);
+      expect(mockApplyDeliveryPlan).not.toHaveBeenCalled();
+    });
+  });
+});
+
+// ============================================================================
+// sendRadarPushBatch
+// ============================================================================
+
+describe('sendRadarPushBatch', () => {
+  function items(count: number) {
+    return Array.from({ length: count }, (_, i) => ({
+      notification: makeNotification({ id: `notif-${i}` }),
+      pushToken: `ExponentPushToken[${i}]`,
+    }));
+  }
+
+  it('sends up to 100 messages per request and marks accepted ones', async () => {
+    const tickets = (count: number, failAt?: number) =>
+      Array.from({ length: count }, (_, i) => ({ status: i === failAt ? 'error' : 'ok' }));
+    mockFetch
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ data: tickets(100, 3) }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ data: tickets(20) }) });
+    const client = defaultChain();
+    client.from = jest.fn(() => client);
+    client.in = jest.fn().mockResolvedValue({ error: null });
+
+    const sent = await sendRadarPushBatch(items(120), client);
+
+    expect(sent).toBe(119);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    const firstBody = JSON.parse(mockFetch.mock.calls[0][1].body);
+    expect(firstBody).toHaveLength(100);
+    expect(firstBody[0]).toMatchObject({ to: 'ExponentPushToken[0]', title: '📡 Taylor Swift in Dallas', channelId: 'radar-alerts' });
+    expect(client.in.mock.calls[0][1]).not.toContain('notif-3');
+    expect(client.in.mock.calls[1][1]).toHaveLength(20);
+  });
+
+  it('keeps going when a chunk fails', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 500 });
+
+    await expect(sendRadarPushBatch(items(2))).resolves.toBe(0);
+  });
+});
+
+// ============================================================================
+// sendRadarDigestPushBatch
+// ============================================================================
+
+describe('sendRadarDigestPushBatch', () => {
+  it('pushes one message per digest and marks accepted digests', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ data: [{ status: 'ok' }, { status: 'error' }] }),
+    });
+    const client = defaultChain();
+    client.from = jest.fn(() => client);
+    client.in = jest.fn().mockResolvedValue({ error: null });
+    const digest = (id: string) => ({
+      id,
+      userId: 'user-123',
+      reason: 'daily' as const,
+      title: 'Your daily radar digest',
+      body: '2 new radar alerts: Taylor Swift in Dallas, Dune: Part Three',
+      notificationIds: ['notif-1', 'notif-2'],
+      items: [],
+      status: 'pending' as const,
+      createdAt: '2026-02-17T15:00:00Z',
+    });
+
+    const sent = await sendRadarDigestPushBatch([
+      { digest: digest('digest-1'), pushToken: 'ExponentPushToken[1]' },
+      { digest: digest('digest-2'), pushToken: 'ExponentPushToken[2]' },
+    ], client);
+
+    expect(sent).toBe(1);
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+    expect(body[0]).toMatchObject({
+      to: 'ExponentPushToken[1]',
+      title: '📡 Your daily radar digest',
+      data: { type: 'radar_digest', digestId: 'digest-1' },
+    });
+    expect(client.from).toHaveBeenCalledWith('radar_digests');
+    expect(client.in).toHaveBeenCalledWith('id', ['digest-1']);
+  });
 });
 
 // ============================================================================
@@ -525,6 +669,11 @@ describe('handleRadarNotificationTap', () => {
     expect(result).toBeNull();
   });
 
+  it('extracts digestId for radar_digest type', () => {
+    expect(handleRadarNotificationTap({ type: 'radar_digest', digestId: 'digest-1' }))
+      .toEqual({ type: 'radar_digest', digestId: 'digest-1' });
+  });
+
   it('extracts notificationId and hookId for radar_alert type', () => {
     const result = handleRadarNotificationTap({
       type: 'radar_alert',
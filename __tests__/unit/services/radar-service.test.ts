@@ -12,6 +12,8 @@
  * - getPendingRadarAlerts: pending notifications, demo mode
  * - getRecentNotifications: history with limit
  * - markNotificationViewed / markNotificationDismissed: status updates
+ * - getPendingRadarDigest / updateRadarDigestStatus: digest feed card
+ * - reportRadarFalsePositive: "not what I meant" feedback on alerts
  *
  * Pattern: Supabase mocked at module level. Pure functions tested directly.
  */
@@ -27,6 +29,7 @@ const mockSingle = jest.fn();
 const mockLimit = jest.fn();
 const mockOrder = jest.fn();
 const mockIn = jest.fn();
+const mockOr = jest.fn();
 const mockEq = jest.fn();
 const mockSelect = jest.fn();
 const mockInsert = jest.fn();
@@ -43,6 +46,7 @@ function buildChain() {
   chain.delete = mockDelete.mockReturnValue(chain);
   chain.eq = mockEq.mockReturnValue(chain);
   chain.in = mockIn.mockReturnValue(chain);
+  chain.or = mockOr.mockReturnValue(chain);
   chain.order = mockOrder.mockReturnValue(chain);
   chain.limit = mockLimit.mockReturnValue(chain);
   chain.single = mockSingle.mockReturnValue(chain);
@@ -78,6 +82,9 @@ import {
   getRecentNotifications,
   markNotificationViewed,
   markNotificationDismissed,
+  getPendingRadarDigest,
+  updateRadarDigestStatus,
+  reportRadarFalsePositive,
   buildMatchReason,
   notificationToRadarMatch,
   MAX_RADAR_CARDS_PER_SESSION,
@@ -97,6 +104,7 @@ function makeDbRow(overrides: Record<string, any> = {}): Record<string, any> {
     hook_type: overrides.hook_type || 'artist',
     entity_name: overrides.entity_name || 'Taylor Swift',
     entity_id: overrides.entity_id || 'K8vZ9171oZ7',
+    entity_source: overrides.entity_source || null,
     talent_department: overrides.talent_department || null,
     category: overrides.category || null,
     custom_keywords: overrides.custom_keywords || null,
@@ -152,6 +160,7 @@ function mockResolve(result: { data: any; error: any }) {
   mockDelete.mockReturnValue(thenable);
   mockEq.mockReturnValue(thenable);
   mockIn.mockReturnValue(thenable);
+  mockOr.mockReturnValue(thenable);
   mockOrder.mockReturnValue(thenable);
   mockLimit.mockReturnValue(thenable);
   mockSingle.mockReturnValue(thenable);
@@ -448,6 +457,24 @@ describe('createRadar', () => {
     expect(result.radar!.hookType).toBe('artist');
   });
 
+  it('saves the picked Ticketmaster attraction as the radar entity', async () => {
+    mockResolve({ data: makeDbRow({ entity_name: 'Phoenix', entity_id: 'K2', entity_source: 'ticketmaster_attraction' }), error: null });
+
+    const result = await createRadar({
+      userId: REAL_USER_ID,
+      hookType: 'artist',
+      entityName: 'Phoenix',
+      entityId: 'K2',
+      entitySource: 'ticketmaster_attraction',
+    }, 'plus');
+
+    expect(mockInsert).toHaveBeenCalledWith(expect.objectContaining({
+      entity_id: 'K2',
+      entity_source: 'ticketmaster_attraction',
+    }));
+    expect(result.radar).toMatchObject({ entityId: 'K2', entitySource: 'ticketmaster_attraction' });
+  });
+
   it('returns error when limit check fails', async () => {
     // Return 3 active radars so free tier total limit is hit
     mockResolve({
@@ -665,6 +692,13 @@ describe('getPendingRadarAlerts', () => {
     expect(mockFrom).toHaveBeenCalledWith('hook_notifications');
   });
 
+  it('leaves out alerts held for or bundled into a digest', async () => {
+    mockResolve({ data: [], error: null });
+
+    await getPendingRadarAlerts(REAL_USER_ID);
+    expect(mockOr).toHaveBeenCalledWith('delivery.is.null,delivery.eq.feed_only');
+  });
+
   it('returns empty array when no pending alerts', async () => {
     mockResolve({ data: [], error: null });
 
@@ -753,6 +787,101 @@ describe('markNotificationDismissed', () => {
   });
 });
 
+// --------------------------------------------------------------------------
+// getPendingRadarDigest / updateRadarDigestStatus
+// --------------------------------------------------------------------------
+
+describe('getPendingRadarDigest', () => {
+  it('returns null for demo user', async () => {
+    await expect(getPendingRadarDigest(DEMO_USER_ID)).resolves.toBeNull();
+    expect(mockFrom).not.toHaveBeenCalled();
+  });
+
+  it('maps the newest pending digest', async () => {
+    mockResolve({
+      data: [{
+        id: 'digest-1',
+        user_id: REAL_USER_ID,
+        reason: 'daily',
+        title: 'Your daily radar digest',
+        body: '2 new radar alerts: Concert Alert, Pop-up Alert',
+        notification_ids: ['n1', 'n2'],
+        items: [{ notificationId: 'n1', hookId: 'h1', title: 'Concert Alert', body: '' }],
+        status: 'pending',
+        push_sent_at: null,
+        created_at: '2026-02-17T15:00:00Z',
+      }],
+      error: null,
+    });
+
+    const digest = await getPendingRadarDigest(REAL_USER_ID);
+    expect(mockFrom).toHaveBeenCalledWith('radar_digests');
+    expect(digest).toMatchObject({ id: 'digest-1', reason: 'daily', notificationIds: ['n1', 'n2'], pushSentAt: undefined });
+    expect(digest!.items).toHaveLength(1);
+  });
+
+  it('returns null gracefully when table does not exist', async () => {
+    mockResolve({ data: null, error: { message: 'relation does not exist', code: '42P01' } });
+
+    await expect(getPendingRadarDigest(REAL_USER_ID)).resolves.toBeNull();
+  });
+});
+
+describe('updateRadarDigestStatus', () => {
+  it('calls Supabase update with the new status', async () => {
+    mockResolve({ data: null, error: null });
+
+    await updateRadarDigestStatus(REAL_USER_ID, 'digest-1', 'dismissed');
+    expect(mockFrom).toHaveBeenCalledWith('radar_digests');
+    expect(mockUpdate).toHaveBeenCalledWith({ status: 'dismissed' });
+  });
+});
+
+// --------------------------------------------------------------------------
+// reportRadarFalsePositive
+// --------------------------------------------------------------------------
+
+describe('reportRadarFalsePositive', () => {
+  const notification: HookNotification = {
+    id: 'notif-1',
+    userId: REAL_USER_ID,
+    hookId: 'radar-1',
+    title: 'Phoenix Suns vs. Dallas Mavericks',
+    body: 'Footprint Center, 2026-03-10 - From $40',
+    eventKey: 'tm-123',
+    eventData: { name: 'Phoenix Suns vs. Dallas Mavericks', venue: 'Footprint Center', attractionIds: ['K1'] },
+    status: 'pending',
+    createdAt: '2026-02-15T00:00:00Z',
+  };
+
+  it('does nothing for demo user', async () => {
+    await expect(reportRadarFalsePositive(DEMO_USER_ID, notification)).resolves.toBe(true);
+    expect(mockFrom).not.toHaveBeenCalled();
+  });
+
+  it('dismisses the alert with feedback and adds it to the radar\'s suppressed matches', async () => {
+    const earlier = { eventKey: 'tm-9', name: 'Phoenix Open', createdAt: '2026-02-01T00:00:00Z' };
+    mockResolve({ data: { suppressed_matches: [earlier] }, error: null });
+
+    await expect(reportRadarFalsePositive(REAL_USER_ID, notification)).resolves.toBe(true);
+
+    expect(mockFrom).toHaveBeenCalledWith('hook_notifications');
+    expect(mockFrom).toHaveBeenCalledWith('user_hooks');
+    expect(mockUpdate.mock.calls[0][0]).toMatchObject({ status: 'dismissed', feedback: 'false_positive' });
+    expect(mockUpdate.mock.calls[1][0].suppressed_matches).toEqual([
+      expect.objectContaining({ eventKey: 'tm-123', name: 'Phoenix Suns vs. Dallas Mavericks', attractionIds: ['K1'] }),
+      earlier,
+    ]);
+  });
+
+  it('returns false when the alert cannot be updated', async () => {
+    mockResolve({ data: null, error: { message: 'update failed' } });
+
+    await expect(reportRadarFalsePositive(REAL_USER_ID, notification)).resolves.toBe(false);
+    expect(mockUpdate).toHaveBeenCalledTimes(1);
+  });
+});
+
 // --------------------------------------------------------------------------
 // MAX_RADAR_CARDS_PER_SESSION constant
 // --------------------------------------------------------------------------
@@ -0,0 +1,569 @@
+/**
+ * Radar Sweep — Unit Tests
+ *
+ * Tests cover:
+ * - Grouping radars across users so each entity is fetched once
+ * - Diffing against event_cache on later runs
+ * - Idempotent re-runs and the single-run lock
+ * - Retrying alerts that failed to save
+ * - Batched pushes for Plus users, trigger counts and run metrics
+ * - Delivery preferences: digest mode, quiet hours and daily push budgets
+ * - Watches on alerted events and their follow-up alerts
+ *
+ * Mock strategy:
+ * - An in-memory database standing in for the service-role client
+ *   (filters, upserts and the unique indexes from migration 043)
+ * - Rows are stamped with the sweep's clock
+ * - Stubbed providers (fetchSource), home cities and push sender
+ */
+
+jest.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+jest.mock('@/services/radar-push-service', () => ({
+  sendRadarPushBatch: jest.fn(),
+  sendRadarDigestPushBatch: jest.fn(),
+}));
+
+jest.mock('@/services/city-detection', () => ({
+  detectUserCityWithFallback: jest.fn(),
+}));
+
+import { RADAR_SWEEP_CONFIG, runRadarSweep } from '@/services/radar-sweep';
+import { RADAR_WATCH_CONFIG } from '@/services/radar-watch-service';
+import type { EventSourceQuery } from '@/services/radar-polling-service';
+import type { CachedEvent, RadarCity } from '@/types/radar';
+
+// ---------------------------------------------------------------------------
+// In-memory database
+// ---------------------------------------------------------------------------
+
+type Row = Record<string, any>;
+
+let tables: Record<string, Row[]> = {};
+let nextId = 1;
+let clock = '';
+/** Tables whose upserts fail, e.g. hook_notifications during an outage */
+let failingUpserts = new Set<string>();
+/** PostgREST's max-rows per table: no select returns more */
+let maxRows: Record<string, number> = {};
+
+function fakeQuery(table: string) {
+  const filters: ((row: Row) => boolean)[] = [];
+  let op: 'select' | 'insert' | 'upsert' | 'update' = 'select';
+  let payload: any;
+  let conflictColumns: string[] = [];
+  let ignoreDuplicates = false;
+  let orderBy: { column: string; ascending: boolean } | null = null;
+  let limit: number | null = null;
+  let range: [number, number] | null = null;
+
+  const rows = () => (tables[table] = tables[table] || []);
+
+  function conflicts(a: Row, b: Row): boolean {
+    return conflictColumns.length > 0 && conflictColumns.every(c => a[c] != null && a[c] === b[c]);
+  }
+
+  function exec(single: boolean): Promise<{ data: any; error: any }> {
+    let result: Row[] = [];
+
+    if (op === 'insert') {
+      // idx_radar_sweep_runs_single_running
+      if (table === 'radar_sweep_runs' && rows().some(r => r.status === 'running')) {
+        return Promise.resolve({ data: null, error: { message: 'duplicate key value violates unique constraint' } });
+      }
+      for (const values of Array.isArray(payload) ? payload : [payload]) {
+        const row = { id: `row-${nextId++}`, created_at: clock, ...values };
+        rows().push(row);
+        result.push(row);
+      }
+    } else if (op === 'upsert') {
+      if (failingUpserts.has(table)) {
+        return Promise.resolve({ data: null, error: { message: 'connection reset' } });
+      }
+      for (const values of payload as Row[]) {
+        const existing = rows().find(r => conflicts(r, values));
+        if (existing && ignoreDuplicates) continue;
+        if (existing) {
+          Object.assign(existing, values);
+          result.push(existing);
+        } else {
+          const row = { id: `row-${nextId++}`, created_at: clock, ...values };
+          rows().push(row);
+          result.push(row);
+        }
+      }
+    } else {
+      result = rows().filter(row => filters.every(f => f(row)));
+      if (op === 'update') result.forEach(row => Object.assign(row, payload));
+      if (orderBy) {
+        const { column, ascending } = orderBy;
+        result = [...result].sort((a, b) => String(a[column]).localeCompare(String(b[column])) * (ascending ? 1 : -1));
+      }
+      if (range) result = result.slice(range[0], range[1] + 1);
+      if (limit != null) result = result.slice(0, limit);
+      if (maxRows[table] != null) result = result.slice(0, maxRows[table]);
+    }
+
+    return Promise.resolve({ data: single ? result[0] ?? null : result, error: null });
+  }
+
+  const query: any = {
+    select: () => query,
+    eq: (column: string, value: unknown) => (filters.push(row => row[column] === value), query),
+    neq: (column: string, value: unknown) => (filters.push(row => row[column] !== value), query),
+    lt: (column: string, value: string) => (filters.push(row => String(row[column]) < value), query),
+    gte: (column: string, value: string) => (filters.push(row => row[column] != null && String(row[column]) >= value), query),
+    in: (column: string, values: unknown[]) => (filters.push(row => values.includes(row[column])), query),
+    order: (column: string, opts: { ascending?: boolean } = {}) => ((orderBy = { column, ascending: opts.ascending !== false }), query),
+    limit: (n: number) => ((limit = n), query),
+    range: (from: number, to: number) => ((range = [from, to]), query),
+    insert: (values: Row[] | Row) => ((op = 'insert'), (payload = values), query),
+    update: (values: Row) => ((op = 'update'), (payload = values), query),
+    upsert: (values: Row[] | Row, opts: { onConflict?: string; ignoreDuplicates?: boolean } = {}) => {
+      op = 'upsert';
+      payload = Array.isArray(values) ? values : [values];
+      conflictColumns = (opts.onConflict || '').split(',').filter(Boolean);
+      ignoreDuplicates = !!opts.ignoreDuplicates;
+      return query;
+    },
+    single: () => exec(true),
+    then: (resolve: any, reject: any) => exec(false).then(resolve, reject),
+  };
+  return query;
+}
+
+const db = { from: (table: string) => fakeQuery(table) };
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const NOW = new Date('2026-03-03T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dallas: RadarCity = { city: 'Dallas', state: 'TX', lat: 32.7767, lng: -96.797 };
+const austin: RadarCity = { city: 'Austin', state: 'TX', lat: 30.2672, lng: -97.7431 };
+
+function event(id: string, overrides: Partial<CachedEvent> = {}): CachedEvent {
+  return {
+    id,
+    name: `Taylor Swift ${id}`,
+    venue: `Venue ${id}`,
+    date: '2026-06-20',
+    priceMin: 75,
+    source: 'ticketmaster',
+    ...overrides,
+  };
+}
+
+function hookRow(id: string, userId: string, overrides: Row = {}): Row {
+  return {
+    id,
+    user_id: userId,
+    hook_type: 'artist',
+    entity_name: 'Taylor Swift',
+    is_active: true,
+    trigger_count: 0,
+    created_at: '2026-03-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+let providerEvents: Record<string, CachedEvent[]> = {};
+const fetchSource = jest.fn(async (query: EventSourceQuery) => providerEvents[query.cacheKey] || []);
+const sendPushBatch = jest.fn(async (items: unknown[]) => items.length);
+const sendDigestPushBatch = jest.fn(async (items: unknown[]) => items.length);
+const resolveHomeCity = async (user: Row) => (user.home === 'austin' ? austin : dallas);
+
+function sweep(now: Date = NOW) {
+  clock = now.toISOString();
+  return runRadarSweep({ db, fetchSource, sendPushBatch, sendDigestPushBatch, resolveHomeCity, now });
+}
+
+function notifications() {
+  return tables.hook_notifications || [];
+}
+
+describe('radar-sweep', () => {
+  beforeEach(() => {
+    nextId = 1;
+    failingUpserts = new Set();
+    maxRows = {};
+    jest.clearAllMocks();
+    tables = {
+      users: [
+        { id: 'user-1', subscription_tier: 'plus', expo_push_token: 'ExponentPushToken[1]' },
+        { id: 'user-2', subscription_tier: 'free', expo_push_token: 'ExponentPushToken[2]' },
+        { id: 'user-3', subscription_tier: 'plus', expo_push_token: null, home: 'austin' },
+      ],
+      user_hooks: [
+        hookRow('hook-1', 'user-1'),
+        hookRow('hook-2', 'user-2'),
+        hookRow('hook-3', 'user-3'),
+        hookRow('hook-4', 'user-1', { hook_type: 'proximity', entity_name: null }),
+        hookRow('hook-5', 'user-2', { is_active: false }),
+      ],
+    };
+    providerEvents = {
+      'artist:taylor_swift:dallas_tx': [event('a'), event('b')],
+      'artist:taylor_swift:austin_tx': [event('c')],
+    };
+  });
+
+  it('fetches each entity once and notifies every radar following it', async () => {
+    const metrics = await sweep();
+
+    expect(fetchSource.mock.calls.map(([q]) => q.cacheKey)).toEqual([
+      'artist:taylor_swift:dallas_tx',
+      'artist:taylor_swift:austin_tx',
+    ]);
+    expect(metrics).toMatchObject({
+      hooksScanned: 3,
+      usersScanned: 3,
+      entitiesTotal: 2,
+      entitiesFetched: 2,
+      newEvents: 3,
+      notificationsCreated: 5,
+      duplicatesSkipped: 0,
+      pushesSent: 2,
+    });
+    expect(notifications().map(n => `${n.hook_id}:${n.event_key}`)).toEqual([
+      'hook-1:a', 'hook-1:b', 'hook-2:a', 'hook-2:b', 'hook-3:c',
+    ]);
+    expect(notifications()[0]).toMatchObject({ user_id: 'user-1', source: 'ticketmaster', status: 'pending' });
+    expect(tables.event_cache.map(r => r.cache_key)).toEqual(['artist:taylor_swift:dallas_tx', 'artist:taylor_swift:austin_tx']);
+    expect(tables.user_hooks.find(h => h.id === 'hook-1')!.trigger_count).toBe(2);
+  });
+
+  it('alerts in watch cities, tagged with the trip from home', async () => {
+    tables.user_hooks[0].watch_cities = [austin];
+    providerEvents['artist:taylor_swift:austin_tx'] = [event('c', { venue: 'Moody Center' })];
+
+    await sweep();
+
+    const hook1 = notifications().filter(n => n.hook_id === 'hook-1');
+    expect(hook1.map(n => n.event_key)).toEqual(['a', 'b', 'c']);
+    expect(hook1[0].event_data.watchCity).toBeUndefined();
+    expect(hook1[2].event_data).toMatchObject({ watchCity: 'Austin', travelMiles: 182 });
+    expect(hook1[2].body).toContain('Moody Center, Austin (182 mi · weekend trip)');
+  });
+
+  it('pushes in one batch, only to Plus users with a token', async () => {
+    await sweep();
+
+    expect(sendPushBatch).toHaveBeenCalledTimes(1);
+    const [items, client] = sendPushBatch.mock.calls[0] as unknown as [any[], unknown];
+    expect(client).toBe(db);
+    expect(items.map(i => `${i.pushToken}:${i.notification.hookId}`)).toEqual([
+      'ExponentPushToken[1]:hook-1',
+      'ExponentPushToken[1]:hook-1',
+    ]);
+  });
+
+  it('records the run and its metrics', async () => {
+    const metrics = await sweep();
+
+    expect(tables.radar_sweep_runs).toHaveLength(1);
+    expect(tables.radar_sweep_runs[0]).toMatchObject({
+      id: metrics!.runId,
+      status: 'succeeded',
+      notifications_created: 5,
+      entities_fetched: 2,
+      error: null,
+    });
+  });
+
+  it('alerts existing radars only about events new since the last run', async () => {
+    await sweep();
+
+    // Caches are due again a week later; one new date was announced
+    providerEvents['artist:taylor_swift:dallas_tx'] = [event('a'), event('b'), event('d', { date: '2026-07-01' })];
+    tables.user_hooks.push(hookRow('hook-6', 'user-2', { entity_name: 'Taylor  Swift', created_at: new Date(NOW.getTime() + 2 * DAY_MS).toISOString() }));
+    const metrics = await sweep(new Date(NOW.getTime() + 8 * DAY_MS));
+
+    // hook-6 was created after the first run, so it gets current events too
+    expect(metrics).toMatchObject({ newEvents: 1, notificationsCreated: 5 });
+    expect(notifications().slice(5).map(n => `${n.hook_id}:${n.event_key}`)).toEqual([
+      'hook-1:d', 'hook-2:d', 'hook-6:a', 'hook-6:b', 'hook-6:d',
+    ]);
+  });
+
+  it('serves fresh caches without calling providers', async () => {
+    await sweep();
+    fetchSource.mockClear();
+    // Watched events are re-fetched sooner (see below)
+    tables.radar_event_watches.forEach(w => { w.is_active = false; });
+
+    const metrics = await sweep(new Date(NOW.getTime() + DAY_MS));
+
+    expect(fetchSource).not.toHaveBeenCalled();
+    expect(metrics).toMatchObject({ entitiesFetched: 0, notificationsCreated: 0 });
+  });
+
+  it('never duplicates notifications when a run is repeated', async () => {
+    await sweep();
+    // Lose the run history so every radar looks new again
+    tables.radar_sweep_runs = [];
+    tables.event_cache = [];
+
+    const metrics = await sweep();
+
+    expect(metrics).toMatchObject({ notificationsCreated: 0, duplicatesSkipped: 5 });
+    expect(notifications()).toHaveLength(5);
+  });
+
+  it('skips the same show already alerted from another source', async () => {
+    tables.hook_notifications = [{
+      id: 'old',
+      hook_id: 'hook-1',
+      event_key: 'bit:9',
+      event_data: { name: 'Taylor Swift', venue: 'Venue a', date: '2026-06-20', source: 'bandsintown' },
+    }];
+
+    const metrics = await sweep();
+
+    expect(notifications().filter(n => n.hook_id === 'hook-1').map(n => n.event_key)).toEqual(['bit:9', 'b']);
+    expect(metrics!.duplicatesSkipped).toBe(1);
+  });
+
+  it('reads every page of earlier alerts', async () => {
+    const pageSize = RADAR_SWEEP_CONFIG.notificationPageSize;
+    RADAR_SWEEP_CONFIG.notificationPageSize = 2;
+    maxRows.hook_notifications = 2;
+    tables.hook_notifications = ['x', 'y', 'z'].map((key, i) => ({
+      id: `old-${i}`,
+      hook_id: 'hook-1',
+      event_key: key,
+      event_data: { name: `Show ${key}`, venue: 'Elsewhere', date: '2026-05-01' },
+    }));
+    // On the second page
+    tables.hook_notifications.push({
+      id: 'old-3',
+      hook_id: 'hook-1',
+      event_key: 'bit:9',
+      event_data: { name: 'Taylor Swift', venue: 'Venue a', date: '2026-06-20', source: 'bandsintown' },
+    });
+
+    try {
+      const metrics = await sweep();
+
+      expect(notifications().filter(n => n.hook_id === 'hook-1').map(n => n.event_key)).toEqual(['x', 'y', 'z', 'bit:9', 'b']);
+      expect(metrics!.duplicatesSkipped).toBe(1);
+    } finally {
+      RADAR_SWEEP_CONFIG.notificationPageSize = pageSize;
+    }
+  });
+
+  it('alerts same-named shows in different cities separately', async () => {
+    tables.user_hooks[0].watch_cities = [austin];
+    providerEvents = {
+      'artist:taylor_swift:dallas_tx': [event('a', { name: 'Taylor Swift | The Eras Tour', venue: 'AT&T Stadium' })],
+      'artist:taylor_swift:austin_tx': [event('c', { name: 'Taylor Swift | The Eras Tour', venue: 'Moody Center' })],
+    };
+
+    const metrics = await sweep();
+
+    expect(notifications().filter(n => n.hook_id === 'hook-1').map(n => n.event_key)).toEqual(['a', 'c']);
+    expect(metrics!.duplicatesSkipped).toBe(0);
+  });
+
+  it('does nothing while another sweep is running', async () => {
+    tables.radar_sweep_runs = [{ id: 'other', status: 'running', started_at: new Date(NOW.getTime() - 5 * 60 * 1000).toISOString() }];
+
+    await expect(sweep()).resolves.toBeNull();
+    expect(fetchSource).not.toHaveBeenCalled();
+  });
+
+  it('takes over from a sweep that died', async () => {
+    tables.radar_sweep_runs = [{ id: 'dead', status: 'running', started_at: new Date(NOW.getTime() - 3 * 60 * 60 * 1000).toISOString() }];
+
+    const metrics = await sweep();
+
+    expect(metrics).not.toBeNull();
+    expect(tables.radar_sweep_runs.find(r => r.id === 'dead')).toMatchObject({ status: 'failed', error: 'Timed out' });
+  });
+
+  it('fails the run and keeps events new when alerts cannot be saved', async () => {
+    await sweep();
+    providerEvents['artist:taylor_swift:dallas_tx'] = [event('a'), event('b'), event('d', { date: '2026-07-01' })];
+    const later = new Date(NOW.getTime() + 8 * DAY_MS);
+
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    failingUpserts.add('hook_notifications');
+    const failed = await sweep(later);
+
+    expect(failed).toMatchObject({ notificationsCreated: 0, error: '1 notification batch(es) failed to save' });
+    expect(tables.radar_sweep_runs.find(r => r.id === failed!.runId)).toMatchObject({ status: 'failed' });
+    expect(tables.event_cache.find(r => r.cache_key === 'artist:taylor_swift:dallas_tx')!.events).toHaveLength(2);
+
+    // The next run finds 'd' new again and alerts it
+    failingUpserts.clear();
+    const retried = await sweep(new Date(later.getTime() + 60 * 1000));
+
+    expect(retried).toMatchObject({ newEvents: 1, notificationsCreated: 2 });
+    expect(notifications().slice(5).map(n => `${n.hook_id}:${n.event_key}`)).toEqual(['hook-1:d', 'hook-2:d']);
+  });
+
+  it('keeps cached events when a provider fails', async () => {
+    fetchSource.mockImplementationOnce(async () => {
+      throw new Error('Ticketmaster down');
+    });
+
+    const metrics = await sweep();
+
+    expect(metrics).toMatchObject({ fetchErrors: 1, entitiesFetched: 1, notificationsCreated: 1 });
+    expect(tables.event_cache.map(r => r.cache_key)).toEqual(['artist:taylor_swift:austin_tx']);
+  });
+
+  describe('delivery preferences', () => {
+    const user1 = () => tables.users.find(u => u.id === 'user-1')!;
+    const hook1Alerts = () => notifications().filter(n => n.hook_id === 'hook-1');
+
+    it('holds pushes in digest mode and sends one digest at digest time', async () => {
+      user1().radar_delivery = { mode: 'daily_digest', timezone: 'UTC', digestHour: 9 };
+
+      const first = await sweep();
+
+      expect(sendPushBatch).not.toHaveBeenCalled();
+      expect(first).toMatchObject({ pushesHeld: 2, digestsCreated: 0, pushesSent: 0 });
+      expect(hook1Alerts().map(n => n.delivery)).toEqual(['held', 'held']);
+
+      // 9am UTC has passed since the alerts were held
+      const next = await sweep(new Date('2026-03-04T10:00:00Z'));
+
+      expect(next).toMatchObject({ digestsCreated: 1, pushesSent: 1 });
+      expect(sendDigestPushBatch).toHaveBeenCalledTimes(1);
+      const [items] = sendDigestPushBatch.mock.calls[0] as unknown as [any[]];
+      expect(items).toEqual([{
+        digest: expect.objectContaining({ title: 'Your daily radar digest', notificationIds: hook1Alerts().map(n => n.id) }),
+        pushToken: 'ExponentPushToken[1]',
+      }]);
+      expect(hook1Alerts().map(n => n.delivery)).toEqual(['digested', 'digested']);
+      expect(tables.radar_sweep_runs[1]).toMatchObject({ digests_created: 1, pushes_held: 0 });
+    });
+
+    it('bundles alerts from quiet hours once they end', async () => {
+      user1().radar_delivery = { timezone: 'UTC', quietHoursEnabled: true, quietHoursStart: '11:00', quietHoursEnd: '13:00' };
+
+      await sweep();
+      expect(sendPushBatch).not.toHaveBeenCalled();
+
+      const after = await sweep(new Date('2026-03-03T13:05:00Z'));
+
+      expect(after).toMatchObject({ digestsCreated: 1 });
+      expect(tables.radar_digests[0]).toMatchObject({ user_id: 'user-1', reason: 'quiet_hours' });
+    });
+
+    it('stops pushing once the daily budget is spent', async () => {
+      user1().radar_delivery = { maxPushesPerDay: 3 };
+      tables.hook_notifications = [
+        { id: 'earlier-1', user_id: 'user-1', hook_id: 'hook-x', push_sent_at: '2026-03-03T08:00:00Z' },
+        { id: 'earlier-2', user_id: 'user-1', hook_id: 'hook-x', push_sent_at: '2026-03-03T09:00:00Z' },
+      ];
+
+      const metrics = await sweep();
+
+      expect(metrics).toMatchObject({ pushesSent: 1, pushesOverBudget: 1 });
+      expect(hook1Alerts().map(n => n.delivery)).toEqual([undefined, 'feed_only']);
+    });
+  });
+
+  describe('event watches', () => {
+    const watch = (userId: string, eventKey: string) =>
+      tables.radar_event_watches.find(w => w.user_id === userId && w.event_key === eventKey)!;
+
+    it('starts watching every newly alerted event', async () => {
+      await sweep();
+
+      expect(tables.radar_event_watches.map(w => `${w.user_id}:${w.event_key}`)).toEqual([
+        'user-1:a', 'user-1:b', 'user-2:a', 'user-2:b', 'user-3:c',
+      ]);
+      expect(watch('user-1', 'a')).toMatchObject({
+        hook_id: 'hook-1',
+        event_date: '2026-06-20',
+        last_snapshot: expect.objectContaining({ priceMin: 75 }),
+      });
+      expect(tables.event_snapshots).toHaveLength(3);
+    });
+
+    it('alerts once when the price drops under the user threshold', async () => {
+      await sweep();
+      watch('user-1', 'a').price_threshold = 60;
+
+      providerEvents['artist:taylor_swift:dallas_tx'] = [event('a', { priceMin: 55 }), event('b')];
+      const metrics = await sweep(new Date(NOW.getTime() + 8 * DAY_MS));
+
+      expect(metrics).toMatchObject({ watchesChecked: 5, followUpsCreated: 1, notificationsCreated: 1 });
+      expect(notifications().slice(5)).toEqual([expect.objectContaining({
+        hook_id: 'hook-1',
+        event_key: 'a:price:60',
+        alert_kind: 'price_drop',
+        body: 'Now from $55 — under your $60 alert',
+      })]);
+      expect(watch('user-1', 'a').fired_triggers).toEqual(['price:60']);
+      // user-2 set no threshold
+      expect(watch('user-2', 'a').fired_triggers).toEqual([]);
+      expect(tables.radar_sweep_runs[1]).toMatchObject({ watches_checked: 5, follow_ups_created: 1 });
+
+      const again = await sweep(new Date(NOW.getTime() + 16 * DAY_MS));
+      expect(again).toMatchObject({ followUpsCreated: 0 });
+    });
+
+    it('alerts when a presale opens, even without re-fetching the event', async () => {
+      providerEvents['artist:taylor_swift:dallas_tx'] = [
+        event('a'),
+        event('b', {
+          saleStatus: 'offsale',
+          presales: [{ name: 'Verified Fan', startAt: '2026-03-03T15:00:00Z', endAt: '2026-03-06T03:00:00Z' }],
+        }),
+      ];
+      await sweep();
+      fetchSource.mockClear();
+      sendPushBatch.mockClear();
+
+      // Within the watched-event refresh interval, so nothing is re-fetched
+      const metrics = await sweep(new Date('2026-03-03T16:00:00Z'));
+
+      expect(fetchSource).not.toHaveBeenCalled();
+      expect(metrics).toMatchObject({ followUpsCreated: 2 });
+      expect(notifications().slice(5).map(n => `${n.hook_id}:${n.event_key}:${n.alert_kind}`)).toEqual([
+        'hook-1:b:presale:verified_fan:presale',
+        'hook-2:b:presale:verified_fan:presale',
+      ]);
+      // Follow-ups are pushed like any other alert
+      const [items] = sendPushBatch.mock.calls[0] as unknown as [any[]];
+      expect(items.map(i => i.notification.alertKind)).toEqual(['presale']);
+    });
+
+    it('re-fetches entities with watched events every few hours', async () => {
+      await sweep();
+      fetchSource.mockClear();
+      // Only user-3's watch on 'c' (Austin) stays active
+      tables.radar_event_watches.forEach(w => { w.is_active = w.event_key === 'c'; });
+
+      await sweep(new Date(NOW.getTime() + 2 * 60 * 60 * 1000));
+      expect(fetchSource).not.toHaveBeenCalled();
+
+      await sweep(new Date(NOW.getTime() + (RADAR_WATCH_CONFIG.refreshHours + 1) * 60 * 60 * 1000));
+      expect(fetchSource.mock.calls.map(([q]) => q.cacheKey)).toEqual(['artist:taylor_swift:austin_tx']);
+    });
+
+    it('fires follow-ups again after their alerts failed to save', async () => {
+      await sweep();
+      watch('user-1', 'a').price_threshold = 60;
+      providerEvents['artist:taylor_swift:dallas_tx'] = [event('a', { priceMin: 55 }), event('b')];
+      const later = new Date(NOW.getTime() + 8 * DAY_MS);
+
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      failingUpserts.add('hook_notifications');
+      await sweep(later);
+      expect(watch('user-1', 'a').fired_triggers).toEqual([]);
+
+      failingUpserts.clear();
+      const retried = await sweep(new Date(later.getTime() + 60 * 1000));
+
+      expect(retried).toMatchObject({ followUpsCreated: 1 });
+      expect(watch('user-1', 'a').fired_triggers).toEqual(['price:60']);
+    });
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Radar Watch Service — Unit Tests
+ *
+ * Tests cover:
+ * - Snapshot history rows for refreshed events
+ * - Follow-up triggers: on-sale, presale, price drop, few tickets left
+ * - Setting a price alert from the alert card
+ *
+ * The sweep side (checkEventWatches against a database) is covered in
+ * radar-sweep.test.ts.
+ */
+
+const mockFrom = jest.fn();
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: { from: (...args: any[]) => mockFrom(...args) },
+}));
+
+import {
+  buildFollowUpNotificationRow,
+  buildSnapshotRows,
+  diffEventSnapshots,
+  mapDbRowToWatch,
+  setEventPriceThreshold,
+  snapshotEvent,
+} from '@/services/radar-watch-service';
+import type { CachedEvent, HookNotification, RadarEventSnapshot, RadarEventWatch } from '@/types/radar';
+
+const NOW = new Date('2026-05-10T12:00:00Z');
+
+function makeEvent(overrides: Partial<CachedEvent> = {}): CachedEvent {
+  return {
+    id: 'tm-1',
+    name: 'Phoenix',
+    venue: 'House of Blues',
+    date: '2026-06-20',
+    priceMin: 80,
+    priceMax: 150,
+    currency: 'USD',
+    source: 'ticketmaster',
+    ...overrides,
+  };
+}
+
+function snapshot(overrides: Partial<RadarEventSnapshot> = {}): RadarEventSnapshot {
+  return {
+    priceMin: 80,
+    priceMax: 150,
+    currency: 'USD',
+    saleStatus: 'onsale',
+    capturedAt: '2026-05-09T12:00:00Z',
+    ...overrides,
+  };
+}
+
+function makeWatch(overrides: Partial<RadarEventWatch> = {}): RadarEventWatch {
+  return {
+    id: 'w1',
+    userId: 'user-1',
+    hookId: 'hook-1',
+    eventKey: 'tm-1',
+    eventName: 'Phoenix',
+    eventDate: '2026-06-20',
+    eventData: { name: 'Phoenix', venue: 'House of Blues', date: '2026-06-20', priceMin: 80, source: 'ticketmaster' },
+    firedTriggers: [],
+    isActive: true,
+    createdAt: '2026-05-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('radar-watch-service', () => {
+  beforeEach(() => {
+    mockFrom.mockReset();
+  });
+
+  describe('snapshots', () => {
+    it('records new events and changed sale fields, not unchanged ones', () => {
+      const previous = [makeEvent({ id: 'same' }), makeEvent({ id: 'cheaper' })];
+      const events = [makeEvent({ id: 'same' }), makeEvent({ id: 'cheaper', priceMin: 60 }), makeEvent({ id: 'new' })];
+
+      const rows = buildSnapshotRows('artist:tm:K1:dallas', previous, events, NOW);
+
+      expect(rows.map(r => r.event_key)).toEqual(['cheaper', 'new']);
+      expect(rows[0]).toMatchObject({
+        cache_key: 'artist:tm:K1:dallas',
+        snapshot: expect.objectContaining({ priceMin: 60, capturedAt: NOW.toISOString() }),
+      });
+    });
+
+    it('keeps only sale and price fields', () => {
+      expect(snapshotEvent(makeEvent({ availability: 'limited', presales: [] }), NOW)).toEqual({
+        priceMin: 80,
+        priceMax: 150,
+        currency: 'USD',
+        saleStatus: undefined,
+        onSaleAt: undefined,
+        presales: undefined,
+        availability: 'limited',
+        capturedAt: NOW.toISOString(),
+      });
+    });
+  });
+
+  describe('diffEventSnapshots', () => {
+    it('fires nothing without a baseline or for a cancelled event', () => {
+      expect(diffEventSnapshots(undefined, snapshot({ priceMin: 10 }), makeWatch({ priceThreshold: 50 }), NOW)).toEqual([]);
+      expect(diffEventSnapshots(snapshot({ saleStatus: 'offsale' }), snapshot({ saleStatus: 'cancelled' }), makeWatch(), NOW)).toEqual([]);
+    });
+
+    it('fires on-sale when general sale opens', () => {
+      const followUps = diffEventSnapshots(snapshot({ saleStatus: 'offsale' }), snapshot(), makeWatch(), NOW);
+      expect(followUps).toEqual([expect.objectContaining({ kind: 'onsale', triggerKey: 'onsale', title: 'On sale now: Phoenix' })]);
+    });
+
+    it('fires on-sale once the on-sale time passes, though the listing still says offsale', () => {
+      const scheduled = snapshot({ saleStatus: 'offsale', onSaleAt: '2026-05-10T10:00:00Z' });
+
+      expect(diffEventSnapshots(scheduled, scheduled, makeWatch(), new Date('2026-05-10T09:00:00Z'))).toEqual([]);
+      expect(diffEventSnapshots(scheduled, scheduled, makeWatch(), NOW).map(f => f.kind)).toEqual(['onsale']);
+      expect(diffEventSnapshots(scheduled, scheduled, makeWatch({ firedTriggers: ['onsale'] }), NOW)).toEqual([]);
+    });
+
+    it('fires for each presale window while it is open', () => {
+      const presales = [
+        { name: 'Verified Fan', startAt: '2026-05-10T10:00:00Z', endAt: '2026-05-11T00:00:00Z' },
+        { name: 'Amex Presale', startAt: '2026-05-12T10:00:00Z' },
+        { name: 'Fan Club', startAt: '2026-05-01T10:00:00Z', endAt: '2026-05-02T00:00:00Z' },
+      ];
+      const next = snapshot({ saleStatus: 'offsale', presales });
+
+      const followUps = diffEventSnapshots(snapshot({ saleStatus: 'offsale' }), next, makeWatch(), NOW);
+
+      expect(followUps).toEqual([{
+        kind: 'presale',
+        triggerKey: 'presale:verified_fan',
+        title: 'Presale open: Phoenix',
+        body: 'Verified Fan presale is open until 2026-05-11',
+      }]);
+    });
+
+    it('fires a price drop at or under the threshold, once per threshold', () => {
+      const watch = makeWatch({ priceThreshold: 60 });
+
+      expect(diffEventSnapshots(snapshot(), snapshot({ priceMin: 65 }), watch, NOW)).toEqual([]);
+      expect(diffEventSnapshots(snapshot(), snapshot({ priceMin: 59.5 }), watch, NOW)).toEqual([{
+        kind: 'price_drop',
+        triggerKey: 'price:60',
+        title: 'Price drop: Phoenix',
+        body: 'Now from $59.50 — under your $60 alert',
+      }]);
+      expect(diffEventSnapshots(snapshot(), snapshot({ priceMin: 55 }), makeWatch({ priceThreshold: 60, firedTriggers: ['price:60'] }), NOW)).toEqual([]);
+    });
+
+    it('fires a price drop for a threshold set above the current price only when it falls further', () => {
+      const watch = makeWatch({ priceThreshold: 100 });
+
+      expect(diffEventSnapshots(snapshot(), snapshot(), watch, NOW)).toEqual([]);
+      expect(diffEventSnapshots(snapshot(), snapshot({ priceMin: 70 }), watch, NOW).map(f => f.kind)).toEqual(['price_drop']);
+    });
+
+    it('fires when few tickets are left', () => {
+      const followUps = diffEventSnapshots(snapshot(), snapshot({ availability: 'limited' }), makeWatch(), NOW);
+      expect(followUps).toEqual([expect.objectContaining({
+        kind: 'low_inventory',
+        body: 'House of Blues, 2026-06-20 - going fast',
+      })]);
+      expect(diffEventSnapshots(snapshot({ availability: 'limited' }), snapshot({ availability: 'limited' }), makeWatch(), NOW)).toEqual([]);
+    });
+  });
+
+  describe('follow-up rows', () => {
+    it('keys the notification by event and trigger with the latest prices', () => {
+      const row = buildFollowUpNotificationRow(
+        makeWatch(),
+        { kind: 'price_drop', triggerKey: 'price:60', title: 'Price drop: Phoenix', body: '...' },
+        snapshot({ priceMin: 55 })
+      );
+
+      expect(row).toMatchObject({
+        user_id: 'user-1',
+        hook_id: 'hook-1',
+        event_key: 'tm-1:price:60',
+        alert_kind: 'price_drop',
+        source: 'ticketmaster',
+        event_data: expect.objectContaining({ priceMin: 55, priceMax: 150 }),
+        expires_at: '2026-06-21T00:00:00.000Z',
+      });
+    });
+
+    it('maps watch rows', () => {
+      expect(mapDbRowToWatch({
+        id: 'w1', user_id: 'u', hook_id: 'h', event_key: 'tm-1', event_name: 'Phoenix', event_date: '2026-06-20',
+        price_threshold: '60.00', fired_triggers: null, is_active: true, created_at: 'x',
+      })).toMatchObject({ priceThreshold: 60, firedTriggers: [], eventData: { name: 'Phoenix' } });
+    });
+  });
+
+  describe('setEventPriceThreshold', () => {
+    const notification: HookNotification = {
+      id: 'n1',
+      userId: 'user-1',
+      hookId: 'hook-1',
+      title: 'Phoenix',
+      body: '',
+      eventKey: 'tm-1',
+      eventData: { name: 'Phoenix', date: '2026-06-20T20:00:00', priceMin: 80, currency: 'USD' },
+      status: 'viewed',
+      createdAt: '2026-05-01T00:00:00Z',
+    };
+
+    function updateChain(data: any[], error: any = null) {
+      const chain: any = {};
+      chain.update = jest.fn(() => chain);
+      chain.eq = jest.fn(() => chain);
+      chain.select = jest.fn().mockResolvedValue({ data, error });
+      chain.insert = jest.fn().mockResolvedValue({ error: null });
+      return chain;
+    }
+
+    it('updates the existing watch', async () => {
+      const chain = updateChain([{ id: 'w1' }]);
+      mockFrom.mockReturnValue(chain);
+
+      await expect(setEventPriceThreshold('user-1', notification, 60)).resolves.toBe(true);
+
+      expect(mockFrom).toHaveBeenCalledWith('radar_event_watches');
+      expect(chain.update).toHaveBeenCalledWith(expect.objectContaining({ price_threshold: 60, is_active: true }));
+      expect(chain.eq).toHaveBeenCalledWith('event_key', 'tm-1');
+      expect(chain.insert).not.toHaveBeenCalled();
+    });
+
+    it('creates a watch for alerts from before watches existed', async () => {
+      const chain = updateChain([]);
+      mockFrom.mockReturnValue(chain);
+
+      await expect(setEventPriceThreshold('user-1', notification, 60)).resolves.toBe(true);
+
+      expect(chain.insert).toHaveBeenCalledWith(expect.objectContaining({
+        hook_id: 'hook-1',
+        notification_id: 'n1',
+        event_key: 'tm-1',
+        event_date: '2026-06-20',
+        price_threshold: 60,
+        last_snapshot: expect.objectContaining({ priceMin: 80 }),
+      }));
+    });
+
+    it('fails for alerts without an event and skips the demo user', async () => {
+      await expect(setEventPriceThreshold('user-1', { ...notification, eventKey: undefined }, 60)).resolves.toBe(false);
+      await expect(setEventPriceThreshold('demo-user-123', notification, 60)).resolves.toBe(true);
+      expect(mockFrom).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Ranking Evaluation — Unit Tests
+ *
+ * Tests cover:
+ * - Relevance judgments (tracking status + post-session feedback)
+ * - History/label feedback split at capture time
+ * - NDCG@k, hit@k, category diversity and novelty
+ * - Fixture → cached Activity conversion
+ * - Per-style summaries and baseline drift
+ */
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: { from: jest.fn() },
+}));
+
+import {
+  buildJudgments,
+  categoryDiversityAtK,
+  compareToBaseline,
+  getFamiliarCategories,
+  hitAtK,
+  labelToPlaceType,
+  ndcgAtK,
+  noveltyAtK,
+  replaySessions,
+  splitFeedback,
+  summarizeByStyle,
+  trackingRowToActivity,
+} from '@/services/ranking-eval';
+import type { ReplaySession, TrackingFixtureRow, SessionMetrics } from '@/services/ranking-eval';
+import type { User } from '@/types/database';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+function row(id: string, category: string, status: TrackingFixtureRow['status']): TrackingFixtureRow {
+  return {
+    user_id: 'user-1',
+    google_place_id: id,
+    place_name: `Place ${id}`,
+    category,
+    status,
+    created_at: '2026-03-06T18:30:00',
+    recommendation_data: { id, title: `Place ${id}`, category, priceRange: 2, rating: 4.5 },
+  };
+}
+
+function makeSession(overrides: Partial<ReplaySession> = {}): ReplaySession {
+  return {
+    id: 'session-1',
+    capturedAt: '2026-03-06T18:30:00',
+    user: {
+      id: 'user-1',
+      interests: ['Dining'],
+      preferences: {},
+      ai_profile: { favorite_categories: ['Coffee & Cafes'] },
+    } as unknown as User,
+    userLocation: { lat: 32.78, lng: -96.8 },
+    recommendation_tracking: [
+      row('a', 'Dining', 'accepted'),
+      row('b', 'Arts & Culture', 'viewed'),
+      row('c', 'Bars & Nightlife', 'declined'),
+      row('d', 'Outdoor Activities', 'pending'),
+    ],
+    feedback: [
+      { user_id: 'user-1', activity_id: 'c', rating: 'thumbs_up', created_at: '2026-02-01T12:00:00' },
+      { user_id: 'user-1', activity_id: 'd', rating: 'thumbs_up', created_at: '2026-03-07T10:00:00' },
+      { user_id: 'user-1', activity_id: 'a', rating: 'thumbs_down', created_at: '2026-03-08T10:00:00' },
+    ],
+    ...overrides,
+  };
+}
+
+function metric(style: SessionMetrics['style'], ndcg: number): SessionMetrics {
+  return { sessionId: 's', style, ndcg, hitRate: 1, diversity: 0.5, novelty: 0.2, ranked: 5 };
+}
+
+describe('ranking-eval', () => {
+  describe('judgments', () => {
+    it('splits feedback at capture time', () => {
+      const { history, labels } = splitFeedback(makeSession());
+
+      expect(history.map(f => f.activity_id)).toEqual(['c']);
+      expect(labels.map(f => f.activity_id)).toEqual(['d', 'a']);
+    });
+
+    it('grades tracking status and applies post-session feedback only', () => {
+      const judgments = buildJudgments(makeSession());
+
+      expect(judgments.get('a')).toBe(0); // accepted, then thumbs down
+      expect(judgments.get('b')).toBe(1); // viewed
+      expect(judgments.get('c')).toBe(0); // declined; earlier thumbs up is history
+      expect(judgments.get('d')).toBe(3); // thumbs up after the session
+    });
+
+    it('treats interests, favorites and earlier thumbs-up categories as familiar', () => {
+      const familiar = getFamiliarCategories(makeSession());
+
+      expect(Array.from(familiar).sort()).toEqual(['Bars & Nightlife', 'Coffee & Cafes', 'Dining']);
+    });
+  });
+
+  describe('metrics', () => {
+    const judgments = new Map([['a', 3], ['b', 1], ['c', 0]]);
+
+    it('gives NDCG 1 for the ideal ordering and less otherwise', () => {
+      expect(ndcgAtK(['a', 'b', 'c'], judgments, 3)).toBeCloseTo(1);
+      expect(ndcgAtK(['c', 'b', 'a'], judgments, 3)).toBeLessThan(1);
+    });
+
+    it('penalizes relevant items the ranker dropped', () => {
+      expect(ndcgAtK(['b', 'c'], judgments, 3)).toBeLessThan(ndcgAtK(['a', 'c'], judgments, 3));
+    });
+
+    it('returns 0 NDCG when nothing was relevant', () => {
+      expect(ndcgAtK(['x'], new Map([['x', 0]]), 5)).toBe(0);
+    });
+
+    it('counts a hit only for strong positives inside k', () => {
+      expect(hitAtK(['b', 'a'], judgments, 2)).toBe(1);
+      expect(hitAtK(['b', 'a'], judgments, 1)).toBe(0);
+    });
+
+    it('measures category diversity and novelty over the top k', () => {
+      const items = [
+        { placeId: '1', category: 'Dining' },
+        { placeId: '2', category: 'Dining' },
+        { placeId: '3', category: 'Arts & Culture' },
+        { placeId: '4', category: 'Outdoor Activities' },
+      ];
+
+      expect(categoryDiversityAtK(items, 2)).toBe(0.5);
+      expect(categoryDiversityAtK(items, 4)).toBe(0.75);
+      expect(noveltyAtK(items, new Set(['Dining']), 4)).toBe(0.5);
+      expect(noveltyAtK([], new Set(), 4)).toBe(0);
+    });
+  });
+
+  describe('fixture conversion', () => {
+    it('maps interest labels back to a Google place type', () => {
+      expect(labelToPlaceType('Dining')).toBe('restaurant');
+      expect(labelToPlaceType('Coffee & Cafes')).toBe('cafe');
+      expect(labelToPlaceType('night_club')).toBe('night_club');
+    });
+
+    it('rebuilds a cache Activity from a logged recommendation', () => {
+      const activity = trackingRowToActivity(row('a', 'Dining', 'accepted'));
+
+      expect(activity).toMatchObject({
+        id: 'a',
+        googlePlaceId: 'a',
+        name: 'Place a',
+        category: 'restaurant',
+        rating: 4.5,
+        priceRange: 2,
+      });
+    });
+  });
+
+  describe('replay and reporting', () => {
+    it('runs every session under every requested style', async () => {
+      const rank = jest.fn().mockResolvedValue([
+        { placeId: 'd', category: 'Outdoor Activities' },
+        { placeId: 'b', category: 'Arts & Culture' },
+      ]);
+
+      const { metrics, reports } = await replaySessions([makeSession()], rank, { styles: ['explorer', 'balanced'] });
+
+      expect(rank).toHaveBeenCalledTimes(2);
+      expect(metrics.map(m => m.style)).toEqual(['explorer', 'balanced']);
+      expect(reports).toHaveLength(2);
+      expect(reports[0]).toMatchObject({ style: 'explorer', sessions: 1, hitRate: 1, novelty: 1 });
+    });
+
+    it('averages metrics per style', () => {
+      const reports = summarizeByStyle([metric('explorer', 0.5), metric('explorer', 1), metric('balanced', 0.2)]);
+
+      expect(reports.map(r => r.style)).toEqual(['explorer', 'balanced']);
+      expect(reports[0].ndcg).toBeCloseTo(0.75);
+    });
+
+    it('reports drift beyond tolerance in either direction', () => {
+      const reports = summarizeByStyle([metric('explorer', 0.7)]);
+      const drifts = compareToBaseline(reports, {
+        explorer: { ndcg: 0.8, hitRate: 1, diversity: 0.51, novelty: 0.2 },
+      });
+
+      expect(drifts).toHaveLength(1);
+      expect(drifts[0]).toMatchObject({ style: 'explorer', metric: 'ndcg', baseline: 0.8 });
+      expect(drifts[0].delta).toBeCloseTo(-0.1);
+    });
+  });
+});
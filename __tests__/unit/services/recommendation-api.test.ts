@@ -0,0 +1,353 @@
+/**
+ * Recommendation Engine API — Unit Tests
+ *
+ * Tests cover:
+ * - recommend() returns exactly what the solo / group engines return for
+ *   each caller's request shape (index feed, explore, explore-service,
+ *   daily script, group planning)
+ * - toRecommendation() produces the cards the callers used to build inline
+ * - getPlaceCoords / parseNeighborhood fallbacks
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+jest.mock('@/lib/supabase', () => {
+  const query: any = {
+    insert: () => Promise.resolve({ error: null }),
+    upsert: () => Promise.resolve({ error: null }),
+    single: () => Promise.resolve({ data: null, error: null }),
+    maybeSingle: () => Promise.resolve({ data: null, error: null }),
+    then: (resolve: any, reject: any) => Promise.resolve({ data: [], error: null }).then(resolve, reject),
+  };
+  ['select', 'eq', 'in', 'gte', 'lte', 'not', 'is', 'order', 'limit'].forEach(method => {
+    query[method] = () => query;
+  });
+  return { supabase: { from: () => query } };
+});
+
+const mockGetCachedPlaces = jest.fn();
+jest.mock('@/services/cache-manager', () => ({
+  checkCityCache: jest.fn().mockResolvedValue({ exists: true, isStale: false, count: 0 }),
+  seedCityData: jest.fn().mockResolvedValue(0),
+  getCachedPlaces: (...args: unknown[]) => mockGetCachedPlaces(...args),
+}));
+
+jest.mock('@/utils/safe-fetch', () => ({
+  safeFetch: jest.fn().mockRejectedValue(new Error('Network disabled')),
+}));
+
+jest.mock('@/services/city-detection', () => ({
+  detectUserCity: jest.fn().mockResolvedValue({ city: 'Dallas', state: 'TX', lat: 32.7767, lng: -96.797 }),
+  detectUserCityWithFallback: jest.fn().mockResolvedValue({ city: 'Dallas', state: 'TX', lat: 32.7767, lng: -96.797 }),
+}));
+
+jest.mock('@/services/activity-source', () => ({
+  ...jest.requireActual('@/services/activity-source'),
+  isMixedFeedEnabled: () => false,
+}));
+
+jest.mock('@/services/unsplash', () => ({
+  getCachedUnsplashImage: jest.fn().mockResolvedValue(''),
+}));
+
+jest.mock('@/utils/api-cost-tracker', () => ({
+  trackPlacesAPIRequest: jest.fn().mockResolvedValue(true),
+}));
+
+jest.mock('@/utils/api-rate-limiter', () => ({
+  rateLimitedPlacesRequest: (request: () => Promise<unknown>) => request(),
+}));
+
+import {
+  generateGroupRecommendations,
+  generateRecommendations,
+  getPlaceCoords,
+  parseNeighborhood,
+  recommend,
+  toRecommendation,
+} from '@/services/recommendations';
+import type {
+  GroupRecommendationParams,
+  PlaceResult,
+  RecommendationParams,
+  ScoredRecommendation,
+} from '@/services/recommendations';
+import { trackingRowToActivity } from '@/services/ranking-eval';
+import type { ReplaySession } from '@/services/ranking-eval';
+
+const session = JSON.parse(
+  fs.readFileSync(path.join(__dirname, '../../eval/fixtures/balanced-uptown.json'), 'utf8')
+) as ReplaySession;
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+function scored(overrides: Partial<ScoredRecommendation> = {}, place: Partial<PlaceResult> = {}): ScoredRecommendation {
+  return {
+    place: {
+      place_id: 'place-1',
+      name: 'Ellum Coffee',
+      vicinity: '2700 Elm St, Deep Ellum',
+      formatted_address: '2700 Elm St, Deep Ellum, Dallas, TX 75226, USA',
+      geometry: { location: { lat: 32.784, lng: -96.784 } },
+      types: ['cafe', 'food'],
+      rating: 4.6,
+      user_ratings_total: 310,
+      price_level: 1,
+      photos: [{ photo_reference: 'places/p1/photos/a' }, { photo_reference: '' }],
+      opening_hours: { open_now: true },
+      description: 'Neighborhood espresso bar',
+      formatted_phone_number: '+1 214-555-0100',
+      website: 'https://example.com',
+      ...place,
+    },
+    score: 72,
+    scoreBreakdown: {
+      baseScore: 30,
+      locationScore: 18,
+      timeScore: 8,
+      feedbackScore: 6,
+      collaborativeScore: 0,
+      eventUrgencyScore: 0,
+      sponsoredBoost: 0,
+      signals: [{ id: 'base_interest', label: 'Interest match', points: 30 }] as any,
+      finalScore: 72,
+    },
+    distance: 1.234,
+    category: 'Coffee & Cafes',
+    photoUrl: 'https://img/1.jpg',
+    photoUrls: ['https://img/1.jpg', 'https://img/2.jpg', 'https://img/3.jpg'],
+    aiExplanation: 'Close by and matches your coffee habit',
+    isSponsored: false,
+    businessHours: { open_now: true },
+    hasEstimatedHours: false,
+    suggestedTime: new Date('2026-03-06T19:00:00'),
+    ...overrides,
+  };
+}
+
+/** Copy of the card mapping app/(tabs)/index.tsx used to build inline */
+function legacyFeedCard(s: ScoredRecommendation, index: number) {
+  return {
+    id: s.place.place_id || `rec-${index}`,
+    title: s.place.name,
+    category: s.category,
+    location: s.place.vicinity || s.place.formatted_address || 'Unknown location',
+    distance: `${s.distance.toFixed(1)} mi`,
+    priceRange: s.place.price_level || 2,
+    rating: s.place.rating || 0,
+    imageUrl: s.photoUrl || '',
+    photos: s.photoUrls,
+    photoReferences: s.place.photos?.map(p => p.photo_reference).filter(Boolean),
+    aiExplanation: s.aiExplanation,
+    description: s.place.description,
+    openNow: s.place.opening_hours?.open_now,
+    isSponsored: s.isSponsored,
+    isCurated: !!(s.place as any)?._isCurated,
+    curatorName: (s.place as any)?._curatorName,
+    score: s.score,
+    businessHours: s.businessHours,
+    hasEstimatedHours: s.hasEstimatedHours,
+    suggestedTime: s.suggestedTime,
+    event_metadata: s.place.event_metadata,
+    scoreBreakdown: {
+      baseScore: s.scoreBreakdown.baseScore,
+      locationScore: s.scoreBreakdown.locationScore,
+      timeScore: s.scoreBreakdown.timeScore,
+      feedbackScore: s.scoreBreakdown.feedbackScore,
+      collaborativeScore: s.scoreBreakdown.collaborativeScore,
+      sponsorBoost: s.scoreBreakdown.sponsoredBoost,
+      finalScore: s.scoreBreakdown.finalScore,
+      signals: s.scoreBreakdown.signals,
+    },
+    activity: {
+      id: s.place.place_id || `act-${index}`,
+      name: s.place.name,
+      category: s.category,
+      description: s.place.description,
+      location: {
+        latitude: s.place.geometry.location.lat,
+        longitude: s.place.geometry.location.lng,
+        address: s.place.vicinity || s.place.formatted_address || '',
+      },
+      distance: s.distance,
+      rating: s.place.rating,
+      reviewsCount: s.place.user_ratings_total,
+      priceRange: s.place.price_level || 2,
+      photoUrl: s.photoUrl,
+      phone: s.place.formatted_phone_number,
+      website: s.place.website,
+      googlePlaceId: s.place.place_id,
+    },
+    groupContext: s.groupMemberMatches?.length ? {
+      memberMatches: s.groupMemberMatches,
+      interestMatchScore: s.scoreBreakdown.baseScore,
+      farthestMemberName: s.groupMemberMatches.reduce((f, m) =>
+        m.distanceMiles > f.distanceMiles ? m : f
+      ).name,
+      farthestMemberDistance: Math.max(...s.groupMemberMatches.map(m => m.distanceMiles)),
+    } : undefined,
+  };
+}
+
+/** Google Places (New) searchNearby response for the group path */
+function placesResponse() {
+  return {
+    ok: true,
+    json: async () => ({
+      places: session.recommendation_tracking.map((row, i) => ({
+        id: row.google_place_id,
+        displayName: { text: row.place_name },
+        formattedAddress: `${100 + i} Main St, Uptown, Dallas, TX 75201, USA`,
+        location: { latitude: 32.79 + i * 0.002, longitude: -96.8 - i * 0.002 },
+        types: [trackingRowToActivity(row).category],
+        rating: 4.2,
+        userRatingCount: 120,
+        priceLevel: 2,
+      })),
+    }),
+  };
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('recommendation engine API', () => {
+  describe('recommend', () => {
+    const user = session.user;
+    const base = { user, userLocation: session.userLocation, homeLocation: session.homeLocation };
+
+    // One request per caller, as each builds it today
+    const callers: [string, RecommendationParams][] = [
+      ['index feed (initial load)', { ...base, maxDistance: 10, maxResults: 100, discoveryMode: 'for_you' }],
+      ['index feed (filters)', { ...base, maxDistance: 5, maxResults: 250, timeOfDay: 'evening', priceRange: 2, categories: ['Dining'] }],
+      ['index feed (load more)', { ...base, maxResults: 20, excludePlaceIds: [session.recommendation_tracking[0].google_place_id] }],
+      ['explore search', { user, userLocation: session.userLocation, maxDistance: 50, maxResults: 20, discoveryMode: 'explore' }],
+      ['daily script', { ...base, maxDistance: 10, maxResults: 20 }],
+    ];
+
+    beforeAll(() => {
+      process.env.EXPO_PUBLIC_DISABLE_GOOGLE_PLACES_API = 'true';
+      jest.useFakeTimers({ advanceTimers: true });
+      jest.setSystemTime(new Date(session.capturedAt));
+    });
+
+    beforeEach(() => {
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      mockGetCachedPlaces.mockResolvedValue(session.recommendation_tracking.map(trackingRowToActivity));
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    afterAll(() => {
+      jest.useRealTimers();
+      delete process.env.EXPO_PUBLIC_DISABLE_GOOGLE_PLACES_API;
+    });
+
+    it.each(callers)('matches the solo engine for the %s request', async (_caller, params) => {
+      const expected = await generateRecommendations(params);
+      const actual = await recommend({ kind: 'solo', ...params });
+
+      expect(expected.length).toBeGreaterThan(0);
+      expect(actual).toEqual(expected);
+    });
+
+    it('matches the group engine for the group planning request', async () => {
+      process.env.EXPO_PUBLIC_DISABLE_GOOGLE_PLACES_API = 'false';
+      process.env.EXPO_PUBLIC_GOOGLE_PLACES_API_KEY = 'test-key';
+      const fetchSpy = jest.spyOn(global, 'fetch').mockImplementation(async () => placesResponse() as any);
+
+      const params: GroupRecommendationParams = {
+        groupId: 'ad-hoc',
+        participants: [
+          { userId: 'u1', name: 'Sam Lee', homeLocation: { lat: 32.79, lng: -96.8 }, interests: ['Dining'], preferences: { budget_level: 3 } },
+          { userId: 'u2', name: 'Ari Cole', homeLocation: { lat: 32.8, lng: -96.81 }, interests: ['Coffee & Cafes'], preferences: { budget_level: 2 } },
+        ],
+        userLocation: { lat: 32.795, lng: -96.805 },
+        tags: ['Food & Drink'],
+        maxDistance: 5,
+        maxResults: 5,
+      };
+
+      try {
+        const expected = await generateGroupRecommendations(params);
+        const actual = await recommend({ kind: 'group', ...params });
+
+        expect(fetchSpy).toHaveBeenCalledTimes(2);
+        expect(expected.length).toBeGreaterThan(0);
+        expect(actual).toEqual(expected);
+      } finally {
+        process.env.EXPO_PUBLIC_DISABLE_GOOGLE_PLACES_API = 'true';
+        delete process.env.EXPO_PUBLIC_GOOGLE_PLACES_API_KEY;
+      }
+    });
+  });
+
+  describe('toRecommendation', () => {
+    it('builds the same card the index feed built inline', () => {
+      const s = scored();
+      const legacy = legacyFeedCard(s, 0);
+
+      expect(toRecommendation(s, 0)).toEqual({
+        ...legacy,
+        activity: { ...legacy.activity, tags: ['cafe', 'food'], isSponsored: false },
+      });
+    });
+
+    it('carries group member matches into groupContext', () => {
+      const members = [
+        { userId: 'u1', name: 'Sam Lee', matchedInterests: ['Coffee'], distanceMiles: 1.2 },
+        { userId: 'u2', name: 'Ari Cole', matchedInterests: [], distanceMiles: 3.4 },
+      ];
+      const card = toRecommendation(scored({ groupMemberMatches: members }), 0);
+
+      expect(card.groupContext).toEqual(legacyFeedCard(scored({ groupMemberMatches: members }), 0).groupContext);
+      expect(card.groupContext?.farthestMemberName).toBe('Ari Cole');
+    });
+
+    it('adds a neighborhood only when asked', () => {
+      expect(toRecommendation(scored(), 0).neighborhood).toBeUndefined();
+      expect(toRecommendation(scored(), 0, { includeNeighborhood: true }).neighborhood).toBe('Deep Ellum');
+    });
+
+    it('uses indexed fallback ids when the place has no id', () => {
+      const card = toRecommendation(scored({}, { place_id: '' }), 3, { fallbackIdStem: 'fresh-1-' });
+
+      expect(card.id).toBe('rec-fresh-1-3');
+      expect(card.activity?.id).toBe('act-fresh-1-3');
+      expect(toRecommendation(scored({}, { place_id: '' }), 3).id).toBe('rec-3');
+    });
+
+    it('keeps Ticketmaster metadata and curated flags', () => {
+      const place = { event_metadata: { start_time: '2026-03-07T20:00:00' }, _isCurated: true, _curatorName: 'Maya' } as any;
+      const card = toRecommendation(scored({}, place), 0);
+
+      expect(card.event_metadata).toEqual({ start_time: '2026-03-07T20:00:00' });
+      expect(card).toMatchObject({ isCurated: true, curatorName: 'Maya' });
+    });
+  });
+
+  describe('helpers', () => {
+    it('falls back through cache coordinate columns', () => {
+      const place = scored().place;
+
+      expect(getPlaceCoords(place)).toEqual({ lat: 32.784, lng: -96.784 });
+      expect(getPlaceCoords({ ...place, geometry: undefined, lat: 1, lng: 2 } as any)).toEqual({ lat: 1, lng: 2 });
+      expect(getPlaceCoords({ ...place, geometry: undefined, _latitude: 3, _longitude: 4 } as any)).toEqual({ lat: 3, lng: 4 });
+      expect(getPlaceCoords({ ...place, geometry: undefined } as any)).toEqual({ lat: 0, lng: 0 });
+    });
+
+    it('parses a neighborhood from the full address, then the vicinity', () => {
+      expect(parseNeighborhood(undefined, '2700 Elm St, Deep Ellum, Dallas, TX 75226')).toBe('Deep Ellum');
+      expect(parseNeighborhood('2700 Elm St, Uptown', '2700 Elm St, Dallas, TX')).toBe('Uptown');
+      expect(parseNeighborhood(undefined, '2700 Elm St, TX, 75226, USA')).toBeUndefined();
+    });
+  });
+});
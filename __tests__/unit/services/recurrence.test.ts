@@ -0,0 +1,285 @@
+/**
+ * Recurrence — Unit Tests
+ *
+ * Tests cover:
+ * - RRULE parsing, formatting and descriptions
+ * - Expansion of weekly, monthly (by day and by ordinal weekday) and yearly rules
+ * - COUNT / UNTIL limits and exception dates
+ * - Keeping the wall-clock time across DST changes
+ * - Expanding calendar_events rows with override rows
+ * - Suggesting recurring events from repeated manual events
+ */
+
+import {
+  buildPresetRRule,
+  countOccurrencesBefore,
+  describeRecurrence,
+  expandEventRows,
+  expandOccurrences,
+  formatRRule,
+  isOccurrenceRow,
+  parseRRule,
+  suggestRecurringEvents,
+  type RecurringEventRow,
+} from '@/services/recurrence';
+
+const NEW_YORK = 'America/New_York';
+
+/** Tuesday, January 6, 2026, 6–7 PM in New York */
+const YOGA_START = new Date('2026-01-06T23:00:00Z');
+const YOGA_END = new Date('2026-01-07T00:00:00Z');
+
+const isoStarts = (occurrences: { start: Date }[]) => occurrences.map(o => o.start.toISOString());
+
+describe('recurrence', () => {
+  describe('parseRRule / formatRRule', () => {
+    it('parses the supported parts', () => {
+      const rule = parseRRule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=2TU,-1FR;COUNT=6');
+
+      expect(rule).toEqual({
+        freq: 'MONTHLY',
+        interval: 2,
+        count: 6,
+        byDay: [{ day: 2, ordinal: 2 }, { day: 5, ordinal: -1 }],
+      });
+    });
+
+    it('parses UNTIL as a UTC instant', () => {
+      expect(parseRRule('FREQ=DAILY;UNTIL=20260131T235959Z')?.until?.toISOString()).toBe('2026-01-31T23:59:59.000Z');
+    });
+
+    it('rejects rules without a valid FREQ', () => {
+      expect(parseRRule('INTERVAL=2')).toBeNull();
+      expect(parseRRule('FREQ=HOURLY')).toBeNull();
+      expect(parseRRule(null)).toBeNull();
+    });
+
+    it('round-trips through formatRRule', () => {
+      const value = 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20260301T050000Z';
+      expect(formatRRule(parseRRule(value)!)).toBe(value);
+    });
+
+    it('describes rules in plain words', () => {
+      expect(describeRecurrence('FREQ=WEEKLY;BYDAY=TU')).toBe('Every Tuesday');
+      expect(describeRecurrence('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR')).toBe('Every weekday');
+      expect(describeRecurrence('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE')).toBe('Every 2 weeks on Mon, Wed');
+      expect(describeRecurrence('FREQ=MONTHLY;BYDAY=-1FR;COUNT=3')).toBe('Monthly on the last Friday, 3 times');
+      expect(describeRecurrence('garbage')).toBe('Does not repeat');
+    });
+
+    it('builds preset rules from the first occurrence', () => {
+      expect(buildPresetRRule('weekly', YOGA_START, NEW_YORK)).toBe('FREQ=WEEKLY;BYDAY=TU');
+      expect(buildPresetRRule('monthly', YOGA_START, NEW_YORK)).toBe('FREQ=MONTHLY;BYMONTHDAY=6');
+      expect(buildPresetRRule('none', YOGA_START, NEW_YORK)).toBeNull();
+    });
+  });
+
+  describe('expandOccurrences', () => {
+    const yoga = { start: YOGA_START, end: YOGA_END, rule: 'FREQ=WEEKLY;BYDAY=TU', timeZone: NEW_YORK };
+
+    it('expands a weekly rule within the range', () => {
+      const occurrences = expandOccurrences(yoga, new Date('2026-01-10T00:00:00Z'), new Date('2026-01-31T00:00:00Z'));
+
+      expect(isoStarts(occurrences)).toEqual([
+        '2026-01-13T23:00:00.000Z',
+        '2026-01-20T23:00:00.000Z',
+        '2026-01-27T23:00:00.000Z',
+      ]);
+      expect(occurrences[0].end.toISOString()).toBe('2026-01-14T00:00:00.000Z');
+    });
+
+    it('keeps 6 PM local across the March DST change', () => {
+      const occurrences = expandOccurrences(yoga, new Date('2026-03-01T00:00:00Z'), new Date('2026-03-18T00:00:00Z'));
+
+      // EST (UTC-5) before March 8, EDT (UTC-4) after
+      expect(isoStarts(occurrences)).toEqual(['2026-03-03T23:00:00.000Z', '2026-03-10T22:00:00.000Z', '2026-03-17T22:00:00.000Z']);
+    });
+
+    it('expands several weekdays every other week', () => {
+      const occurrences = expandOccurrences(
+        { ...yoga, rule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH' },
+        YOGA_START,
+        new Date('2026-01-25T00:00:00Z')
+      );
+
+      expect(isoStarts(occurrences)).toEqual([
+        '2026-01-06T23:00:00.000Z',
+        '2026-01-08T23:00:00.000Z',
+        '2026-01-20T23:00:00.000Z',
+        '2026-01-22T23:00:00.000Z',
+      ]);
+    });
+
+    it('expands monthly rules by ordinal weekday', () => {
+      // Book club on the last Friday of each month at 7 PM
+      const occurrences = expandOccurrences(
+        { start: new Date('2026-01-31T00:00:00Z'), end: new Date('2026-01-31T02:00:00Z'), rule: 'FREQ=MONTHLY;BYDAY=-1FR', timeZone: NEW_YORK },
+        new Date('2026-01-01T00:00:00Z'),
+        new Date('2026-04-30T00:00:00Z')
+      );
+
+      expect(isoStarts(occurrences)).toEqual([
+        '2026-01-31T00:00:00.000Z', // Jan 30
+        '2026-02-28T00:00:00.000Z', // Feb 27
+        '2026-03-27T23:00:00.000Z', // Mar 27, now EDT
+        '2026-04-24T23:00:00.000Z', // Apr 24
+      ]);
+    });
+
+    it('skips months without the day of month', () => {
+      const occurrences = expandOccurrences(
+        { start: new Date('2026-01-31T15:00:00Z'), end: new Date('2026-01-31T16:00:00Z'), rule: 'FREQ=MONTHLY', timeZone: 'UTC' },
+        new Date('2026-01-01T00:00:00Z'),
+        new Date('2026-05-01T00:00:00Z')
+      );
+
+      expect(isoStarts(occurrences)).toEqual(['2026-01-31T15:00:00.000Z', '2026-03-31T15:00:00.000Z']);
+    });
+
+    it('expands yearly rules', () => {
+      const occurrences = expandOccurrences(
+        { start: new Date('2026-07-04T16:00:00Z'), end: new Date('2026-07-04T20:00:00Z'), rule: 'FREQ=YEARLY', timeZone: NEW_YORK },
+        new Date('2026-01-01T00:00:00Z'),
+        new Date('2028-12-31T00:00:00Z')
+      );
+
+      expect(isoStarts(occurrences)).toEqual(['2026-07-04T16:00:00.000Z', '2027-07-04T16:00:00.000Z', '2028-07-04T16:00:00.000Z']);
+    });
+
+    it('stops after COUNT occurrences, counting the first', () => {
+      const occurrences = expandOccurrences({ ...yoga, rule: 'FREQ=WEEKLY;BYDAY=TU;COUNT=3' }, YOGA_START, new Date('2026-12-31T00:00:00Z'));
+      expect(occurrences).toHaveLength(3);
+    });
+
+    it('stops at UNTIL', () => {
+      const occurrences = expandOccurrences(
+        { ...yoga, rule: 'FREQ=WEEKLY;BYDAY=TU;UNTIL=20260120T235959Z' },
+        YOGA_START,
+        new Date('2026-12-31T00:00:00Z')
+      );
+      expect(isoStarts(occurrences)).toEqual(['2026-01-06T23:00:00.000Z', '2026-01-13T23:00:00.000Z', '2026-01-20T23:00:00.000Z']);
+    });
+
+    it('removes exception dates without changing COUNT', () => {
+      const occurrences = expandOccurrences(
+        { ...yoga, rule: 'FREQ=WEEKLY;BYDAY=TU;COUNT=3', exdates: ['2026-01-13T23:00:00.000Z'] },
+        YOGA_START,
+        new Date('2026-12-31T00:00:00Z')
+      );
+      expect(isoStarts(occurrences)).toEqual(['2026-01-06T23:00:00.000Z', '2026-01-20T23:00:00.000Z']);
+    });
+
+    it('expands a range years after the series started', () => {
+      const occurrences = expandOccurrences(
+        { ...yoga, rule: 'FREQ=DAILY' },
+        new Date('2030-06-10T00:00:00Z'),
+        new Date('2030-06-12T00:00:00Z')
+      );
+      expect(isoStarts(occurrences)).toEqual(['2030-06-10T22:00:00.000Z', '2030-06-11T22:00:00.000Z']);
+    });
+
+    it('counts occurrences before a date', () => {
+      expect(countOccurrencesBefore(yoga, new Date('2026-01-20T23:00:00Z'))).toBe(2);
+    });
+  });
+
+  describe('expandEventRows', () => {
+    const series: RecurringEventRow & { title: string } = {
+      id: 'series-1',
+      title: 'Yoga',
+      start_time: YOGA_START.toISOString(),
+      end_time: YOGA_END.toISOString(),
+      timezone: NEW_YORK,
+      recurrence_rule: 'FREQ=WEEKLY;BYDAY=TU',
+      recurrence_exdates: [],
+      loop_routing: { recommended_departure_time: '2026-01-06T22:30:00.000Z' },
+    };
+    const override: RecurringEventRow & { title: string } = {
+      id: 'override-1',
+      title: 'Yoga (late class)',
+      start_time: '2026-01-14T00:00:00.000Z',
+      end_time: '2026-01-14T01:00:00.000Z',
+      recurrence_parent_id: 'series-1',
+      recurrence_original_start: '2026-01-13T23:00:00.000Z',
+    };
+    const single: RecurringEventRow & { title: string } = {
+      id: 'dinner',
+      title: 'Dinner',
+      start_time: '2026-01-15T01:00:00.000Z',
+      end_time: '2026-01-15T02:00:00.000Z',
+    };
+    const rangeStart = new Date('2026-01-10T00:00:00Z');
+    const rangeEnd = new Date('2026-01-24T00:00:00Z');
+
+    it('replaces series with occurrences and overridden occurrences with their overrides', () => {
+      const rows = expandEventRows([series, override, single], rangeStart, rangeEnd);
+
+      expect(rows.map(r => r.title)).toEqual(['Yoga (late class)', 'Dinner', 'Yoga']);
+      expect(rows[2].start_time).toBe('2026-01-20T23:00:00.000Z');
+    });
+
+    it('gives occurrences synthetic ids and points them at the series', () => {
+      const occurrence = expandEventRows([series], rangeStart, rangeEnd)[0];
+
+      expect(isOccurrenceRow(occurrence)).toBe(true);
+      expect(occurrence.id).toBe('series-1@2026-01-13T23:00:00.000Z');
+      expect(isOccurrenceRow(occurrence) && occurrence.recurrence_series_id).toBe('series-1');
+    });
+
+    it('moves the departure time with each occurrence', () => {
+      const occurrence = expandEventRows([series], rangeStart, rangeEnd)[0];
+      expect(occurrence.loop_routing).toEqual({ recommended_departure_time: '2026-01-13T22:30:00.000Z' });
+    });
+
+    it('leaves out single events outside the range', () => {
+      expect(expandEventRows([single], new Date('2026-02-01T00:00:00Z'), new Date('2026-02-02T00:00:00Z'))).toEqual([]);
+    });
+  });
+
+  describe('suggestRecurringEvents', () => {
+    const tuesdayYoga = (id: string, date: string, source = 'manual') => ({
+      id,
+      title: id.startsWith('x') ? 'yoga ' : 'Yoga',
+      start_time: `${date}T23:00:00.000Z`,
+      end_time: `${date}T23:59:00.000Z`,
+      source,
+      category: 'fitness',
+    });
+
+    it('suggests a weekly rule for the same event on consecutive weeks', () => {
+      const suggestions = suggestRecurringEvents(
+        [tuesdayYoga('a', '2026-01-06'), tuesdayYoga('x-b', '2026-01-13'), tuesdayYoga('c', '2026-01-20')],
+        NEW_YORK
+      );
+
+      expect(suggestions).toHaveLength(1);
+      expect(suggestions[0]).toMatchObject({
+        rule: 'FREQ=WEEKLY;BYDAY=TU',
+        description: 'Every Tuesday at 6:00 PM',
+        eventIds: ['a', 'x-b', 'c'],
+        category: 'fitness',
+      });
+    });
+
+    it('needs enough consecutive weeks', () => {
+      const suggestions = suggestRecurringEvents(
+        [tuesdayYoga('a', '2026-01-06'), tuesdayYoga('b', '2026-01-13'), tuesdayYoga('c', '2026-02-03')],
+        NEW_YORK
+      );
+      expect(suggestions).toEqual([]);
+    });
+
+    it('ignores imported and already-recurring events', () => {
+      const suggestions = suggestRecurringEvents(
+        [
+          tuesdayYoga('a', '2026-01-06', 'google_calendar'),
+          tuesdayYoga('b', '2026-01-13'),
+          { ...tuesdayYoga('c', '2026-01-20'), recurrence_rule: 'FREQ=WEEKLY;BYDAY=TU' },
+          tuesdayYoga('d', '2026-01-27'),
+        ],
+        NEW_YORK
+      );
+      expect(suggestions).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Recurring Events Service — Unit Tests
+ *
+ * Tests cover:
+ * - Fetching a range with series expanded and overrides applied, including
+ *   occurrences moved out of the range
+ * - Editing one occurrence against the unique indexes the migrations create
+ */
+
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+const mockFrom = jest.fn();
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: { from: (...args: unknown[]) => mockFrom(...args) },
+}));
+
+import { fetchCalendarEventsInRange, updateRecurringEvent } from '@/services/recurring-events';
+import type { CalendarEvent } from '@/types/calendar-event';
+
+/** Weekly on Tuesdays, 6–7 PM UTC, from January 6, 2026 */
+const SERIES = {
+  id: 'series-1',
+  user_id: 'user-1',
+  title: 'Yoga',
+  start_time: '2026-01-06T18:00:00.000Z',
+  end_time: '2026-01-06T19:00:00.000Z',
+  timezone: 'UTC',
+  status: 'scheduled',
+  recurrence_rule: 'RRULE:FREQ=WEEKLY;BYDAY=TU',
+};
+
+/** The January 13 class, moved to Thursday the 15th */
+const MOVED = {
+  id: 'override-1',
+  user_id: 'user-1',
+  title: 'Yoga',
+  start_time: '2026-01-15T18:00:00.000Z',
+  end_time: '2026-01-15T19:00:00.000Z',
+  status: 'scheduled',
+  recurrence_rule: null,
+  recurrence_parent_id: 'series-1',
+  recurrence_original_start: '2026-01-13T18:00:00.000Z',
+};
+
+/**
+ * A calendar_events table holding SERIES and MOVED that answers the three
+ * range queries by their filters
+ */
+function mockCalendarTable() {
+  mockFrom.mockImplementation(() => {
+    const filters: unknown[][] = [];
+    const query = {
+      select: () => query,
+      eq: () => query,
+      order: () => query,
+      is: (...args: unknown[]) => (filters.push(['is', ...args]), query),
+      not: (...args: unknown[]) => (filters.push(['not', ...args]), query),
+      gte: (...args: unknown[]) => (filters.push(['gte', ...args]), query),
+      lte: (...args: unknown[]) => (filters.push(['lte', ...args]), query),
+      then: (resolve: (result: unknown) => void) => {
+        const rows = [SERIES, MOVED].filter(row =>
+          filters.every(([op, column, ...rest]) => {
+            const value = (row as Record<string, unknown>)[column as string];
+            if (op === 'is') return value == null;
+            if (op === 'not') return value != null;
+            if (value == null) return false;
+            const time = new Date(value as string).getTime();
+            const bound = new Date(rest[0] as string).getTime();
+            return op === 'gte' ? time >= bound : time <= bound;
+          })
+        );
+        resolve({ data: rows, error: null });
+      },
+    };
+    return query;
+  });
+}
+
+/**
+ * Column lists of the non-partial unique indexes on calendar_events, the
+ * only ones Postgres accepts as a plain ON CONFLICT (columns) target
+ */
+function loadConflictTargets(): Set<string> {
+  const dir = join(__dirname, '../../../database/migrations');
+  const targets = new Set<string>();
+  for (const file of readdirSync(dir).filter(name => name.endsWith('.sql'))) {
+    const sql = readFileSync(join(dir, file), 'utf8').replace(/--.*$/gm, '');
+    for (const match of sql.matchAll(/CREATE UNIQUE INDEX[^;]*?ON calendar_events\s*\(([^)]*)\)([^;]*);/gi)) {
+      if (/\bWHERE\b/i.test(match[2])) continue;
+      targets.add(match[1].split(',').map(c => c.trim()).join(','));
+    }
+  }
+  return targets;
+}
+
+const startsOf = (events: { start_time: string }[]) => events.map(e => e.start_time);
+
+describe('recurring-events', () => {
+  describe('fetchCalendarEventsInRange', () => {
+    beforeEach(mockCalendarTable);
+
+    it('leaves out an occurrence that was moved out of the range', async () => {
+      const { events } = await fetchCalendarEventsInRange(
+        'user-1',
+        new Date('2026-01-12T00:00:00Z'),
+        new Date('2026-01-14T00:00:00Z')
+      );
+
+      expect(events).toEqual([]);
+    });
+
+    it('shows a moved occurrence once, at its new time', async () => {
+      const { events } = await fetchCalendarEventsInRange(
+        'user-1',
+        new Date('2026-01-12T00:00:00Z'),
+        new Date('2026-01-21T00:00:00Z')
+      );
+
+      expect(startsOf(events)).toEqual(['2026-01-15T18:00:00.000Z', '2026-01-20T18:00:00.000Z']);
+      expect(events[0].id).toBe('override-1');
+    });
+
+    it('shows an occurrence moved into the range', async () => {
+      const { events } = await fetchCalendarEventsInRange(
+        'user-1',
+        new Date('2026-01-15T00:00:00Z'),
+        new Date('2026-01-16T00:00:00Z')
+      );
+
+      expect(events.map(e => e.id)).toEqual(['override-1']);
+    });
+  });
+
+  describe('updateRecurringEvent', () => {
+    it("saves an edit to one occurrence against the override index's conflict target", async () => {
+      const targets = loadConflictTargets();
+      const upserts: { row: Record<string, unknown>; onConflict?: string }[] = [];
+      mockFrom.mockImplementation(() => {
+        const query = {
+          select: () => query,
+          eq: () => query,
+          single: () => Promise.resolve({ data: SERIES, error: null }),
+          upsert: (row: Record<string, unknown>, options: { onConflict?: string }) => {
+            upserts.push({ row, onConflict: options.onConflict });
+            return Promise.resolve(
+              targets.has(options.onConflict || '')
+                ? { error: null }
+                : { error: { code: '42P10', message: 'there is no unique or exclusion constraint matching the ON CONFLICT specification' } }
+            );
+          },
+        };
+        return query;
+      });
+
+      const occurrence = {
+        ...SERIES,
+        id: 'series-1@2026-01-20T18:00:00.000Z',
+        start_time: '2026-01-20T18:00:00.000Z',
+        end_time: '2026-01-20T19:00:00.000Z',
+        recurrence_series_id: 'series-1',
+        occurrence_start: '2026-01-20T18:00:00.000Z',
+      } as unknown as CalendarEvent;
+
+      const result = await updateRecurringEvent(occurrence, { title: 'Hot yoga' }, 'this');
+
+      expect(result).toEqual({ success: true });
+      expect(upserts).toEqual([
+        {
+          row: expect.objectContaining({
+            title: 'Hot yoga',
+            recurrence_parent_id: 'series-1',
+            recurrence_original_start: '2026-01-20T18:00:00.000Z',
+          }),
+          onConflict: 'recurrence_parent_id,recurrence_original_start',
+        },
+      ]);
+    });
+  });
+});
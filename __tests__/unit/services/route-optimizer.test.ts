@@ -0,0 +1,254 @@
+/**
+ * Route Optimizer — Unit Tests
+ *
+ * Tests cover:
+ * - Rush-hour travel times in the user's zone
+ * - Simulating an order: waiting for opening, locked starts, lateness
+ * - Exact solving matches brute force on small seeded days
+ * - Local search on larger seeded days beats the current order and greedy
+ *   nearest neighbor
+ * - Locked stops, opening hours and home/work endpoints
+ */
+
+import {
+  createTrafficAwareTravelTime,
+  evaluateRoute,
+  optimizeRoute,
+  type RouteProblem,
+  type RouteStop,
+  type TravelTimeFn,
+} from '@/services/route-optimizer';
+import { calculateDistance, estimateTravelTime, type Coordinate } from '@/utils/route-calculations';
+
+const ZONE = 'America/Chicago';
+// Tuesday Oct 20, 2026, 8:00 AM Chicago
+const DAY_START = new Date('2026-10-20T13:00:00Z');
+const HOME: Coordinate = { latitude: 32.78, longitude: -96.8 };
+const MINUTE = 60 * 1000;
+
+const at = (minutesAfterStart: number) => new Date(DAY_START.getTime() + minutesAfterStart * MINUTE);
+
+/** Plain haversine driving, no traffic: keeps hand-built cases easy to reason about */
+const flatTravel: TravelTimeFn = (from, to) => estimateTravelTime(calculateDistance(from, to));
+
+/** Deterministic PRNG (mulberry32) so fixtures are the same every run */
+function seeded(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * A day of errands within ~10 miles of home, in a random (user-entered)
+ * order, with one locked appointment and some stops closing early.
+ */
+function dayFixture(seed: number, count: number): RouteProblem {
+  const random = seeded(seed);
+  const stops: RouteStop[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const stop: RouteStop = {
+      id: `s${i}`,
+      location: { latitude: HOME.latitude + (random() - 0.5) * 0.3, longitude: HOME.longitude + (random() - 0.5) * 0.3 },
+      durationMinutes: 20 + Math.floor(random() * 4) * 10,
+    };
+    if (i === Math.floor(count / 2)) stop.fixedStart = at(5 * 60);
+    else if (random() < 0.2) stop.latestEnd = at(8 * 60);
+    else if (random() < 0.2) stop.earliestStart = at(2 * 60);
+    stops.push(stop);
+  }
+
+  return {
+    start: { location: HOME, time: DAY_START },
+    end: { location: HOME, latestArrival: at(14 * 60) },
+    stops,
+  };
+}
+
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, i) =>
+    permutations([...items.slice(0, i), ...items.slice(i + 1)]).map(rest => [item, ...rest])
+  );
+}
+
+/** Baseline the optimizer replaced: always drive to the closest stop next */
+function nearestNeighborOrder(problem: RouteProblem): string[] {
+  const left = [...problem.stops];
+  const order: string[] = [];
+  let here = problem.start.location;
+  while (left.length > 0) {
+    left.sort((a, b) => calculateDistance(here, a.location!) - calculateDistance(here, b.location!));
+    const next = left.shift()!;
+    order.push(next.id);
+    here = next.location!;
+  }
+  return order;
+}
+
+const currentOrder = (problem: RouteProblem) => problem.stops.map(s => s.id);
+
+describe('route-optimizer', () => {
+  describe('createTrafficAwareTravelTime', () => {
+    const travel = createTrafficAwareTravelTime(ZONE);
+    const far: Coordinate = { latitude: 32.9, longitude: -96.8 };
+    const base = estimateTravelTime(calculateDistance(HOME, far));
+
+    it('slows down weekday rush hours in the given zone', () => {
+      expect(travel(HOME, far, new Date('2026-10-20T13:30:00Z'))).toBe(Math.ceil(base * 1.35)); // 8:30 AM
+      expect(travel(HOME, far, new Date('2026-10-20T22:00:00Z'))).toBe(Math.ceil(base * 1.45)); // 5 PM
+      expect(travel(HOME, far, new Date('2026-10-20T16:00:00Z'))).toBe(base); // 11 AM
+    });
+
+    it('leaves weekends alone', () => {
+      expect(travel(HOME, far, new Date('2026-10-24T13:30:00Z'))).toBe(base);
+    });
+  });
+
+  describe('evaluateRoute', () => {
+    it('waits for opening and for locked starts, and counts missed windows', () => {
+      const problem: RouteProblem = {
+        start: { location: HOME, time: DAY_START },
+        stops: [
+          { id: 'cafe', location: HOME, durationMinutes: 30, earliestStart: at(60) },
+          { id: 'meeting', location: HOME, durationMinutes: 60, fixedStart: at(120) },
+          { id: 'bank', location: HOME, durationMinutes: 30, latestEnd: at(150) },
+        ],
+      };
+
+      const result = evaluateRoute(problem, ['cafe', 'meeting', 'bank'], { travelTime: flatTravel });
+
+      expect(result.schedule.map(s => s.start)).toEqual([at(60), at(120), at(180)]);
+      expect(result.schedule[0].waitMinutes).toBe(60);
+      expect(result.lateMinutes).toBe(60); // bank ends at 3:30, closes at 2:30
+      expect(result.feasible).toBe(false);
+    });
+
+    it("doesn't travel for stops without a place", () => {
+      const office: Coordinate = { latitude: 32.9, longitude: -96.8 };
+      const problem: RouteProblem = {
+        start: { location: HOME, time: DAY_START },
+        stops: [
+          { id: 'call', durationMinutes: 30 },
+          { id: 'office', location: office, durationMinutes: 60 },
+        ],
+      };
+
+      const result = evaluateRoute(problem, ['call', 'office'], { travelTime: flatTravel });
+
+      expect(result.schedule[0].arrival).toEqual(DAY_START);
+      expect(result.travelMinutes).toBe(flatTravel(HOME, office, DAY_START));
+    });
+  });
+
+  describe('optimizeRoute', () => {
+    it('matches brute force on small seeded days', () => {
+      for (const seed of [1, 2, 3, 4, 5, 6]) {
+        const problem = dayFixture(seed, 6);
+        const best = Math.min(
+          ...permutations(currentOrder(problem)).map(order => evaluateRoute(problem, order, { timeZone: ZONE }).cost)
+        );
+
+        const solution = optimizeRoute(problem, { timeZone: ZONE });
+
+        expect(solution.method).toBe('exact');
+        expect(solution.cost).toBeCloseTo(best, 6);
+      }
+    });
+
+    it('beats the current order and nearest neighbor on larger seeded days', () => {
+      let currentTravel = 0;
+      let optimizedTravel = 0;
+
+      for (const seed of [11, 12, 13, 14, 15, 16, 17, 18]) {
+        const problem = dayFixture(seed, 14);
+        const current = evaluateRoute(problem, currentOrder(problem), { timeZone: ZONE });
+        const greedy = evaluateRoute(problem, nearestNeighborOrder(problem), { timeZone: ZONE });
+
+        const solution = optimizeRoute(problem, { timeZone: ZONE });
+
+        expect(solution.method).toBe('local_search');
+        expect(solution.order).toHaveLength(14);
+        expect(solution.cost).toBeLessThanOrEqual(current.cost);
+        expect(solution.cost).toBeLessThanOrEqual(greedy.cost);
+        currentTravel += current.travelMinutes;
+        optimizedTravel += solution.travelMinutes;
+      }
+
+      // A shuffled day of errands has plenty of backtracking to remove
+      expect(optimizedTravel).toBeLessThan(currentTravel * 0.75);
+    });
+
+    it('gets close to the exact answer with local search alone', () => {
+      for (const seed of [21, 22, 23, 24]) {
+        const problem = dayFixture(seed, 8);
+        const exact = optimizeRoute(problem, { timeZone: ZONE });
+        const local = optimizeRoute(problem, { timeZone: ZONE, exactMaxStops: 0 });
+
+        expect(local.cost).toBeGreaterThanOrEqual(exact.cost - 1e-6);
+        expect(local.cost).toBeLessThanOrEqual(exact.cost * 1.15);
+      }
+    });
+
+    it('solves a busy day quickly', () => {
+      const started = Date.now();
+      optimizeRoute(dayFixture(99, 20), { timeZone: ZONE });
+      expect(Date.now() - started).toBeLessThan(5000);
+    });
+
+    it('keeps locked stops at their time', () => {
+      const problem = dayFixture(7, 10);
+      const locked = problem.stops.find(s => s.fixedStart)!;
+
+      const solution = optimizeRoute(problem, { timeZone: ZONE });
+
+      expect(solution.feasible).toBe(true);
+      expect(solution.schedule.find(s => s.id === locked.id)!.start).toEqual(locked.fixedStart);
+    });
+
+    it('visits a place before it closes even when it is out of the way', () => {
+      const east: Coordinate = { latitude: 32.78, longitude: -96.7 };
+      const problem: RouteProblem = {
+        start: { location: HOME, time: DAY_START },
+        end: { location: HOME },
+        stops: [
+          { id: 'near', location: { latitude: 32.781, longitude: -96.8 }, durationMinutes: 60 },
+          { id: 'far', location: east, durationMinutes: 60, latestEnd: at(90) },
+        ],
+      };
+
+      const solution = optimizeRoute(problem, { travelTime: flatTravel });
+
+      expect(solution.order).toEqual(['far', 'near']);
+      expect(solution.feasible).toBe(true);
+    });
+
+    it('heads toward work when the day ends there', () => {
+      const work: Coordinate = { latitude: 32.78, longitude: -96.6 };
+      const stops: RouteStop[] = [
+        { id: 'c', location: { latitude: 32.78, longitude: -96.65 }, durationMinutes: 20 },
+        { id: 'a', location: { latitude: 32.78, longitude: -96.75 }, durationMinutes: 20 },
+        { id: 'b', location: { latitude: 32.78, longitude: -96.7 }, durationMinutes: 20 },
+      ];
+
+      const toWork = optimizeRoute({ start: { location: HOME, time: DAY_START }, end: { location: work }, stops }, { travelTime: flatTravel });
+      const fromWork = optimizeRoute({ start: { location: work, time: DAY_START }, end: { location: HOME }, stops }, { travelTime: flatTravel });
+
+      expect(toWork.order).toEqual(['a', 'b', 'c']);
+      expect(fromWork.order).toEqual(['c', 'b', 'a']);
+    });
+
+    it('is never worse than the current order', () => {
+      const problem: RouteProblem = {
+        start: { location: HOME, time: DAY_START },
+        stops: [{ id: 'only', location: HOME, durationMinutes: 30 }],
+      };
+      expect(optimizeRoute(problem, { travelTime: flatTravel }).order).toEqual(['only']);
+    });
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * Running Late Service — Unit Tests
+ *
+ * Tests cover:
+ * - Lateness from the live travel time, with the planned departure's buffers
+ * - Checking events the monitor already loaded without querying again
+ * - Downstream changes: flexible tasks shift or drop, fixed ones stay
+ * - Applying changes to the calendar
+ * - Running-late messages to a group plan's chat
+ */
+
+const mockFrom = jest.fn();
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: { from: (...args: unknown[]) => mockFrom(...args) },
+}));
+
+const mockGetOrCreateGroupConversation = jest.fn();
+const mockSendMessage = jest.fn();
+
+jest.mock('@/services/chat-service', () => ({
+  getOrCreateGroupConversation: (...args: unknown[]) => mockGetOrCreateGroupConversation(...args),
+  sendMessage: (...args: unknown[]) => mockSendMessage(...args),
+}));
+
+const mockCancelEventNotifications = jest.fn();
+const mockRescheduleEventNotifications = jest.fn();
+
+jest.mock('@/services/notification-service', () => ({
+  ...jest.requireActual('@/services/notification-service'),
+  cancelEventNotifications: (...args: unknown[]) => mockCancelEventNotifications(...args),
+  rescheduleEventNotifications: (...args: unknown[]) => mockRescheduleEventNotifications(...args),
+}));
+
+const mockRefreshDepartureTimesForUser = jest.fn();
+
+jest.mock('@/services/loop-routing', () => ({
+  ...jest.requireActual('@/services/loop-routing'),
+  refreshDepartureTimesForUser: (...args: unknown[]) => mockRefreshDepartureTimesForUser(...args),
+}));
+
+jest.mock('react-native', () => ({
+  Platform: { OS: 'ios', select: (options: Record<string, unknown>) => options.ios },
+  AppState: { addEventListener: jest.fn(() => ({ remove: jest.fn() })) },
+}));
+
+import {
+  applyDownstreamChanges,
+  checkEventLateness,
+  checkRunningLate,
+  planDownstreamChanges,
+  sendRunningLateMessage,
+} from '@/services/running-late';
+import { setTravelTimeProvider } from '@/services/travel-time';
+import type { CalendarEvent } from '@/types/calendar-event';
+
+const VENUE = { latitude: 32.8, longitude: -96.8 };
+const ELSEWHERE = { latitude: 32.7, longitude: -96.8 };
+
+function makeEvent(id: string, start: string, end: string, overrides: Partial<CalendarEvent> = {}): CalendarEvent {
+  return {
+    id,
+    user_id: 'user-1',
+    title: id,
+    category: 'personal',
+    location: VENUE,
+    address: '',
+    start_time: `2026-10-20T${start}:00.000Z`,
+    end_time: `2026-10-20T${end}:00.000Z`,
+    all_day: false,
+    source: 'manual',
+    status: 'scheduled',
+    loop_routing: {
+      is_chained: false,
+      chain_with_event_id: null,
+      recommended_departure_time: null,
+      estimated_travel_minutes: 10,
+      starting_location: null,
+      route_type: 'single',
+    },
+    notifications_scheduled: false,
+    created_at: '',
+    updated_at: '',
+    ...overrides,
+  };
+}
+
+const at = (time: string) => new Date(`2026-10-20T${time}:00.000Z`);
+
+describe('running-late', () => {
+  afterEach(() => {
+    setTravelTimeProvider(null);
+    jest.clearAllMocks();
+  });
+
+  describe('checkEventLateness', () => {
+    const event = makeEvent('dinner', '19:00', '20:30');
+
+    beforeEach(() => {
+      // 30 minutes from anywhere
+      setTravelTimeProvider({ name: 'fake', getMatrix: async (o, d) => o.map(() => d.map(() => 30)) });
+    });
+
+    it('is late when the trip from here ends past the start', async () => {
+      // Leave by 18:20 (30 min travel + 10 min parking); it's 18:40
+      const check = await checkEventLateness(event, ELSEWHERE, { now: at('18:40'), mode: 'drive', plannedDeparture: null });
+
+      expect(check?.status).toBe('late');
+      expect(check?.minutesLate).toBe(20);
+      expect(check?.leaveBy).toEqual(at('18:20'));
+      expect(check?.projectedArrival).toEqual(at('19:20'));
+    });
+
+    it('gives a few minutes of grace', async () => {
+      const check = await checkEventLateness(event, ELSEWHERE, { now: at('18:23'), mode: 'drive', plannedDeparture: null });
+      expect(check?.status).toBe('behind');
+    });
+
+    it('is on time before the latest time to leave', async () => {
+      const planned = at('18:15');
+      const check = await checkEventLateness(event, ELSEWHERE, { now: at('18:10'), mode: 'drive', plannedDeparture: planned });
+
+      expect(check?.status).toBe('on_time');
+      expect(check?.minutesLate).toBe(-10);
+      expect(check?.plannedDeparture).toBe(planned);
+    });
+
+    it('knows when the user is already there', async () => {
+      const check = await checkEventLateness(event, VENUE, { now: at('18:55'), mode: 'walk', plannedDeparture: null });
+      expect(check?.status).toBe('arrived');
+    });
+  });
+
+  describe('checkRunningLate', () => {
+    it('checks the events it is given without loading them again', async () => {
+      setTravelTimeProvider({ name: 'fake', getMatrix: async (o, d) => o.map(() => d.map(() => 30)) });
+      // An occurrence has no chain to look up
+      const event = makeEvent('yoga@1', '19:00', '20:00', { recurrence_series_id: 'yoga' });
+
+      const alerts = await checkRunningLate('user-1', ELSEWHERE, at('18:40'), {
+        mode: 'drive',
+        watched: [{ event, plannedDeparture: null }],
+      });
+
+      expect(alerts.map(a => [a.event.id, a.check.minutesLate])).toEqual([['yoga@1', 20]]);
+      expect(mockFrom).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('planDownstreamChanges', () => {
+    it('pushes flexible tasks back by the delay less the spare time between stops', () => {
+      const chain = [
+        makeEvent('coffee', '15:00', '15:30'),
+        // 30 min gap, 10 min travel: 20 spare
+        makeEvent('errand', '16:00', '16:30'),
+        // No spare time
+        makeEvent('groceries', '16:40', '17:10'),
+      ];
+
+      const changes = planDownstreamChanges(chain, 'coffee', 35);
+
+      expect(changes).toEqual([
+        expect.objectContaining({ eventId: 'errand', action: 'shift', newStart: at('16:15').toISOString(), newEnd: at('16:45').toISOString() }),
+        expect.objectContaining({ eventId: 'groceries', action: 'shift', newStart: at('16:55').toISOString() }),
+      ]);
+    });
+
+    it('stops once the spare time absorbs the delay', () => {
+      const chain = [makeEvent('coffee', '15:00', '15:30'), makeEvent('errand', '16:30', '17:00')];
+      expect(planDownstreamChanges(chain, 'coffee', 20)).toEqual([]);
+    });
+
+    it('drops flexible tasks, latest first, to make a fixed event on time', () => {
+      const chain = [
+        makeEvent('coffee', '15:00', '15:30'),
+        makeEvent('errand', '15:40', '16:00'),
+        makeEvent('groceries', '16:10', '16:40'),
+        makeEvent('meeting', '16:50', '18:00', { category: 'work' }),
+        makeEvent('gym', '18:10', '19:00'),
+      ];
+
+      const changes = planDownstreamChanges(chain, 'coffee', 25);
+
+      expect(changes.map(c => [c.eventId, c.action])).toEqual([
+        ['errand', 'shift'],
+        ['groceries', 'drop'],
+      ]);
+    });
+
+    it('keeps a fixed event it cannot make and reports how late it will be', () => {
+      const chain = [
+        makeEvent('coffee', '15:00', '15:30'),
+        makeEvent('errand', '15:40', '15:50'),
+        makeEvent('plan', '16:00', '18:00', { source: 'group_plan' }),
+      ];
+
+      const changes = planDownstreamChanges(chain, 'coffee', 30);
+
+      expect(changes).toEqual([
+        expect.objectContaining({ eventId: 'errand', action: 'drop' }),
+        expect.objectContaining({ eventId: 'plan', action: 'keep', minutesLate: 20 }),
+      ]);
+    });
+
+    it('moves nothing after a fixed event, which ends on time', () => {
+      const chain = [makeEvent('shift', '09:00', '17:00', { category: 'work' }), makeEvent('gym', '17:10', '18:00')];
+      expect(planDownstreamChanges(chain, 'shift', 30)).toEqual([]);
+    });
+  });
+
+  describe('applyDownstreamChanges', () => {
+    it('moves shifted events, cancels dropped ones and leaves kept ones', async () => {
+      const updates: unknown[] = [];
+      mockFrom.mockImplementation(() => ({
+        update: (values: unknown) => {
+          updates.push(values);
+          return { eq: () => ({ eq: () => Promise.resolve({ error: null }) }) };
+        },
+      }));
+
+      const result = await applyDownstreamChanges('user-1', [
+        { eventId: 'a', title: 'A', action: 'shift', oldStart: '', newStart: 's', newEnd: 'e', reason: '' },
+        { eventId: 'b', title: 'B', action: 'drop', oldStart: '', reason: '' },
+        { eventId: 'c', title: 'C', action: 'keep', oldStart: '', minutesLate: 5, reason: '' },
+      ]);
+
+      expect(result).toEqual({ success: true, updated: 2 });
+      expect(updates).toEqual([{ start_time: 's', end_time: 'e' }, { status: 'cancelled' }]);
+      expect(mockRescheduleEventNotifications).toHaveBeenCalledWith('a');
+      expect(mockCancelEventNotifications).toHaveBeenCalledWith('b');
+      expect(mockRefreshDepartureTimesForUser).toHaveBeenCalledWith('user-1');
+    });
+  });
+
+  describe('sendRunningLateMessage', () => {
+    it("posts to the plan's chat with everyone who hasn't declined", async () => {
+      mockFrom.mockImplementation(() => ({
+        select: () => ({
+          eq: () => ({
+            single: () => Promise.resolve({
+              data: {
+                id: 'plan-1',
+                creator_id: 'friend-1',
+                title: 'Trivia',
+                plan_participants: [
+                  { user_id: 'user-1', rsvp_status: 'accepted' },
+                  { user_id: 'friend-2', rsvp_status: 'declined' },
+                ],
+              },
+              error: null,
+            }),
+          }),
+        }),
+      }));
+      mockGetOrCreateGroupConversation.mockResolvedValue({ id: 'conv-1' });
+      mockSendMessage.mockResolvedValue({ id: 'msg-1' });
+
+      const sent = await sendRunningLateMessage('user-1', 'plan-1', 15, at('19:15'), 'UTC');
+
+      expect(sent).toBe(true);
+      expect(mockGetOrCreateGroupConversation).toHaveBeenCalledWith('plan-1', 'friend-1', ['user-1'], 'Trivia');
+      expect(mockSendMessage).toHaveBeenCalledWith('conv-1', 'user-1', expect.stringContaining('15 min late'));
+    });
+  });
+});
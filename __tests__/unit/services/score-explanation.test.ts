@@ -0,0 +1,114 @@
+/**
+ * Score Explanation — Unit Tests
+ *
+ * Tests cover:
+ * - Grouping pipeline signals into user-facing factors
+ * - Legacy breakdowns without per-signal contributions
+ * - Sponsorship disclosure
+ * - Reading, writing and expanding per-user factor weights
+ */
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: { from: jest.fn() },
+}));
+
+import {
+  explainScore,
+  factorForSignal,
+  getFactorWeights,
+  withFactorWeight,
+  toSignalWeights,
+} from '@/services/score-explanation';
+import type { RecommendationScore } from '@/types/activity';
+
+function breakdown(overrides: Partial<RecommendationScore> = {}): RecommendationScore {
+  return {
+    baseScore: 0,
+    locationScore: 0,
+    timeScore: 0,
+    feedbackScore: 0,
+    collaborativeScore: 0,
+    sponsorBoost: 0,
+    finalScore: 0,
+    ...overrides,
+  };
+}
+
+describe('score-explanation', () => {
+  describe('explainScore', () => {
+    it('groups signals into factors, strongest first', () => {
+      const factors = explainScore(breakdown({
+        signals: [
+          { name: 'interestMatch', label: 'Matches your interests', component: 'base', points: 30 },
+          { name: 'proximity', label: 'Close to you', component: 'location', points: 12 },
+          { name: 'nearHome', label: 'Near home', component: 'location', points: 8 },
+          { name: 'friendVisitBoost', label: 'Friends went recently', component: 'boost', points: 10 },
+          { name: 'recencyPenalty', label: 'Shown recently', component: 'penalty', points: -5 },
+        ],
+      }));
+
+      expect(factors.map(f => f.factor)).toEqual(['interests', 'distance', 'friends', 'feedback']);
+      expect(factors[1]).toMatchObject({ points: 20, detail: 'Close to you', adjustable: true, weight: 1 });
+      expect(factors[0].share).toBeCloseTo(0.5);
+      expect(factors[3]).toMatchObject({ points: -5, share: 0 });
+    });
+
+    it('falls back to component totals for older breakdowns', () => {
+      const factors = explainScore(breakdown({ baseScore: 20, timeScore: 5, collaborativeScore: 5 }));
+
+      expect(factors.map(f => f.factor)).toEqual(['interests', 'timeOfDay', 'friends']);
+    });
+
+    it('always discloses sponsorship last', () => {
+      const factors = explainScore(breakdown({
+        signals: [{ name: 'interestMatch', label: 'Matches', component: 'base', points: 10 }],
+      }), { isSponsored: true });
+
+      expect(factors[factors.length - 1]).toMatchObject({ factor: 'sponsored', adjustable: false });
+      expect(explainScore(undefined, { isSponsored: true }).map(f => f.factor)).toEqual(['sponsored']);
+    });
+
+    it('reports the user’s current weight per factor', () => {
+      const factors = explainScore(breakdown({
+        signals: [{ name: 'calendarFit', label: 'Fits your calendar', component: 'location', points: 10 }],
+      }), { factorWeights: { calendar: 0.5 } });
+
+      expect(factors[0]).toMatchObject({ factor: 'calendar', weight: 0.5 });
+    });
+
+    it('maps unknown signals by component', () => {
+      expect(factorForSignal('brandNewSignal', 'collaborative')).toBe('friends');
+      expect(factorForSignal('sponsoredBoost', 'sponsor')).toBe('sponsored');
+    });
+  });
+
+  describe('factor weights', () => {
+    it('ignores malformed and non-adjustable weights', () => {
+      expect(getFactorWeights({
+        factor_weights: { friends: 0.5, distance: 4, sponsored: 0, bogus: 0.1, calendar: 'x' },
+      })).toEqual({ friends: 0.5, distance: 1 });
+      expect(getFactorWeights(null)).toEqual({});
+    });
+
+    it('sets and clears a factor without touching the rest of the profile', () => {
+      const profile = { budget_level: 2, factor_weights: { friends: 0.5 } };
+
+      expect(withFactorWeight(profile, 'distance', 0.5)).toEqual({
+        budget_level: 2,
+        factor_weights: { friends: 0.5, distance: 0.5 },
+      });
+      expect(withFactorWeight(profile, 'friends', 1)).toEqual({ budget_level: 2, factor_weights: {} });
+    });
+
+    it('expands factor weights to every signal in the factor', () => {
+      const weights = toSignalWeights({ friends: 0.5, distance: 1 });
+
+      expect(weights).toEqual({
+        friendVisitBoost: 0.5,
+        friendPhotoBoost: 0.5,
+        trendingFriendsBoost: 0.5,
+        collaborativeFiltering: 0.5,
+      });
+    });
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Scoring Pipeline — Unit Tests
+ *
+ * Tests cover:
+ * - Every built-in signal against its declared fixture
+ * - ScoringSignalRegistry (register, disable/enable, weight overrides, caps)
+ * - Component caps and final score clamping
+ * - Per-user signal weights ("Why this?" down-weights)
+ * - Sponsor signal reading earlier component totals
+ * - getFiredSignals (explanation helper)
+ */
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: { from: jest.fn() },
+}));
+
+import {
+  ScoringSignalRegistry,
+  scoringSignals,
+  getFiredSignals,
+  MAX_FINAL_SCORE,
+} from '@/services/scoring-pipeline';
+import type { ScoringSignal } from '@/services/scoring-pipeline';
+import { BUILT_IN_SIGNALS, buildFixtureContext } from '@/services/scoring-signals';
+
+function makeSignal(overrides: Partial<ScoringSignal> & { points?: number } = {}): ScoringSignal {
+  const { points = 10, ...rest } = overrides;
+  return {
+    name: 'test',
+    label: 'Test signal',
+    component: 'boost',
+    weight: 1,
+    maxContribution: 100,
+    fixture: { description: 'constant', context: {}, expected: points },
+    evaluate: () => points,
+    ...rest,
+  };
+}
+
+describe('scoring-pipeline', () => {
+  describe('built-in signal fixtures', () => {
+    it.each(BUILT_IN_SIGNALS.map(s => [s.name, s] as const))(
+      '%s matches its fixture',
+      (_name, signal) => {
+        const ctx = buildFixtureContext(signal.fixture.context);
+        const totals = scoringSignals.run(buildFixtureContext()).totals;
+
+        expect(signal.evaluate(ctx, totals)).toBeCloseTo(signal.fixture.expected);
+      }
+    );
+
+    it('registers every built-in signal with a unique name', () => {
+      const names = BUILT_IN_SIGNALS.map(s => s.name);
+      expect(new Set(names).size).toBe(names.length);
+      names.forEach(name => expect(scoringSignals.getSignal(name)).toBeDefined());
+    });
+
+    it('declares sane weights and contribution bounds', () => {
+      BUILT_IN_SIGNALS.forEach(signal => {
+        expect(signal.weight).toBeGreaterThan(0);
+        expect(signal.maxContribution).toBeGreaterThanOrEqual(signal.minContribution ?? -signal.maxContribution);
+      });
+    });
+  });
+
+  describe('default pipeline', () => {
+    afterEach(() => scoringSignals.reset());
+
+    it('scores the fixture context the same as the legacy inline algorithm', () => {
+      // base 30 + 8 + 2 = 40; location 10; time 5 + 10 + 25 = 40 → capped 25;
+      // feedback 5; budget +15
+      const result = scoringSignals.run(buildFixtureContext());
+
+      expect(result.totals.base).toBe(40);
+      expect(result.totals.location).toBe(10);
+      expect(result.totals.time).toBe(25);
+      expect(result.totals.feedback).toBe(5);
+      expect(result.totals.boost).toBe(15);
+      expect(result.finalScore).toBe(95);
+    });
+
+    it('carries a per-signal breakdown of what fired', () => {
+      const result = scoringSignals.run(buildFixtureContext());
+      const names = result.signals.map(s => s.name);
+
+      expect(names).toEqual(expect.arrayContaining(['interestMatch', 'rating', 'proximity', 'budgetBoost']));
+      expect(names).not.toContain('facebookExactPlaceBoost');
+    });
+
+    it('drops a disabled signal from the score', () => {
+      scoringSignals.disable('budgetBoost');
+      const result = scoringSignals.run(buildFixtureContext());
+
+      expect(result.finalScore).toBe(80);
+      expect(result.signals.find(s => s.name === 'budgetBoost')).toBeUndefined();
+    });
+
+    it('applies sponsor boost on top of the capped organic subtotal', () => {
+      const ctx = buildFixtureContext({
+        place: { ...buildFixtureContext().place, sponsor_tier: 'premium' },
+      });
+      const result = scoringSignals.run(ctx);
+
+      // (40 + 10 + 25 + 5 + 0) * 0.30 = 24
+      expect(result.totals.sponsor).toBeCloseTo(24);
+      expect(result.finalScore).toBe(119);
+    });
+  });
+
+  describe('ScoringSignalRegistry', () => {
+    let registry: ScoringSignalRegistry;
+
+    beforeEach(() => {
+      registry = new ScoringSignalRegistry();
+    });
+
+    it('evaluates signals in registration order', () => {
+      const seen: number[] = [];
+      registry.register(makeSignal({ name: 'a', component: 'base', evaluate: () => 7 }));
+      registry.register(makeSignal({
+        name: 'b',
+        evaluate: (_ctx, totals) => {
+          seen.push(totals.base);
+          return 0;
+        },
+      }));
+
+      registry.run(buildFixtureContext());
+      expect(seen).toEqual([7]);
+    });
+
+    it('applies weight overrides and clamps to max contribution', () => {
+      registry.register(makeSignal({ name: 'a', points: 10, maxContribution: 15 }));
+
+      registry.setWeight('a', 0.5);
+      expect(registry.run(buildFixtureContext()).finalScore).toBe(5);
+
+      registry.setWeight('a', 3);
+      expect(registry.run(buildFixtureContext()).finalScore).toBe(15);
+    });
+
+    it('clamps negative contributions to the declared minimum', () => {
+      registry.register(makeSignal({ name: 'base', component: 'base', points: 50 }));
+      registry.register(makeSignal({ name: 'neg', points: -40, maxContribution: 0, minContribution: -20 }));
+
+      expect(registry.run(buildFixtureContext()).signals.find(s => s.name === 'neg')?.points).toBe(-20);
+    });
+
+    it('caps components and the final score', () => {
+      registry.register(makeSignal({ name: 'a', component: 'base', points: 40 }));
+      registry.register(makeSignal({ name: 'b', component: 'base', points: 40 }));
+      expect(registry.run(buildFixtureContext()).totals.base).toBe(55);
+
+      registry.register(makeSignal({ name: 'c', points: 200, maxContribution: 500 }));
+      expect(registry.run(buildFixtureContext()).finalScore).toBe(MAX_FINAL_SCORE);
+    });
+
+    it('scales positive points by per-user signal weights but leaves penalties alone', () => {
+      registry.register(makeSignal({ name: 'boost', points: 20 }));
+      registry.register(makeSignal({ name: 'penalty', points: -10, maxContribution: 0, minContribution: -20 }));
+
+      const result = registry.run(buildFixtureContext({ signalWeights: { boost: 0.5, penalty: 0.5 } }));
+      expect(result.signals.find(s => s.name === 'boost')?.points).toBe(10);
+      expect(result.signals.find(s => s.name === 'penalty')?.points).toBe(-10);
+    });
+
+    it('never returns a negative final score', () => {
+      registry.register(makeSignal({ name: 'a', component: 'urgency', points: -100 }));
+      expect(registry.run(buildFixtureContext()).finalScore).toBe(0);
+    });
+
+    it('supports enable, unregister and reset', () => {
+      registry.register(makeSignal({ name: 'a' }));
+      registry.disable('a');
+      expect(registry.isEnabled('a')).toBe(false);
+
+      registry.enable('a');
+      expect(registry.isEnabled('a')).toBe(true);
+
+      registry.setWeight('a', 2);
+      registry.reset();
+      expect(registry.getWeight('a')).toBe(1);
+
+      registry.unregister('a');
+      expect(registry.getAll()).toHaveLength(0);
+    });
+  });
+
+  describe('getFiredSignals', () => {
+    it('returns the strongest positive signals first', () => {
+      const fired = getFiredSignals([
+        { name: 'a', label: 'A', component: 'boost', points: 5 },
+        { name: 'b', label: 'B', component: 'boost', points: -10 },
+        { name: 'c', label: 'C', component: 'base', points: 30 },
+        { name: 'd', label: 'D', component: 'time', points: 12 },
+      ], 2);
+
+      expect(fired.map(s => s.name)).toEqual(['c', 'd']);
+    });
+
+    it('handles a missing breakdown', () => {
+      expect(getFiredSignals(undefined)).toEqual([]);
+    });
+  });
+});
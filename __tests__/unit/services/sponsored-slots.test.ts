@@ -0,0 +1,264 @@
+/**
+ * Sponsored Slot Allocator — Unit Tests
+ *
+ * Tests cover:
+ * - getSponsorBoost (tier rates, low-relevance cap)
+ * - allocateSponsoredSlots (tier positions, position caps, spacing,
+ *   frequency caps, below-fold losses, organic order preservation)
+ * - summarizeSlotDecisions (win rate, loss reasons)
+ * - getSponsorImpressionCounts / logSlotDecisions (persistence)
+ */
+
+const mockChain = {
+  from: jest.fn().mockReturnThis(),
+  select: jest.fn().mockReturnThis(),
+  insert: jest.fn(),
+  eq: jest.fn().mockReturnThis(),
+  in: jest.fn().mockReturnThis(),
+  gte: jest.fn(),
+};
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: mockChain,
+}));
+
+import {
+  allocateSponsoredSlots,
+  getSponsorBoost,
+  getSponsorImpressionCounts,
+  logSlotDecisions,
+  summarizeSlotDecisions,
+} from '@/services/sponsored-slots';
+import type { SponsorSlotCandidate, SponsorTier } from '@/services/sponsored-slots';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+function makeRec(id: string, score: number, tier?: SponsorTier, boost: number = 0): SponsorSlotCandidate {
+  return {
+    place: { place_id: id },
+    score,
+    isSponsored: tier === 'boosted' || tier === 'premium',
+    sponsorTier: tier,
+    scoreBreakdown: { sponsoredBoost: boost, finalScore: score },
+  };
+}
+
+function ids(recs: SponsorSlotCandidate[]): string[] {
+  return recs.map(r => r.place.place_id);
+}
+
+function organicFeed(count: number, startScore: number = 100): SponsorSlotCandidate[] {
+  return Array.from({ length: count }, (_, i) => makeRec(`o${i}`, startScore - i));
+}
+
+describe('sponsored-slots', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getSponsorBoost', () => {
+    it('gives no boost to organic or untiered places', () => {
+      expect(getSponsorBoost('organic', 80)).toBe(0);
+      expect(getSponsorBoost(undefined, 80)).toBe(0);
+    });
+
+    it('gives 15% for boosted and 30% for premium', () => {
+      expect(getSponsorBoost('boosted', 100)).toBeCloseTo(15);
+      expect(getSponsorBoost('premium', 100)).toBeCloseTo(30);
+    });
+
+    it('caps boost at 10 for low-relevance places', () => {
+      expect(getSponsorBoost('premium', 35)).toBe(10);
+      expect(getSponsorBoost('premium', 30)).toBeCloseTo(9);
+    });
+  });
+
+  describe('allocateSponsoredSlots', () => {
+    it('leaves a fully organic feed untouched', () => {
+      const feed = organicFeed(6);
+      const result = allocateSponsoredSlots(feed, 6);
+
+      expect(ids(result.recommendations)).toEqual(ids(feed));
+      expect(result.decisions).toEqual([]);
+    });
+
+    it('never gives slot 0 to a sponsor and demotes boosted below slot 2', () => {
+      const feed = [makeRec('b', 120, 'boosted', 15), ...organicFeed(5)];
+      const result = allocateSponsoredSlots(feed, 6);
+
+      expect(result.recommendations.findIndex(r => r.place.place_id === 'b')).toBe(2);
+      expect(result.decisions[0]).toMatchObject({
+        placeId: 'b',
+        requestedPosition: 0,
+        assignedPosition: 2,
+        outcome: 'demoted',
+        reason: 'tier_position',
+      });
+    });
+
+    it('lets premium take slot 1 cleanly', () => {
+      const feed = [makeRec('o0', 120), makeRec('p', 110, 'premium', 20), ...organicFeed(4, 90)];
+      const result = allocateSponsoredSlots(feed, 6);
+
+      expect(ids(result.recommendations).slice(0, 2)).toEqual(['o0', 'p']);
+      expect(result.decisions[0]).toMatchObject({ outcome: 'won', reason: 'placed', assignedPosition: 1 });
+    });
+
+    it('keeps at least two organic cards between sponsors', () => {
+      const feed = [
+        makeRec('o0', 130),
+        makeRec('p1', 120, 'premium', 20),
+        makeRec('p2', 115, 'premium', 20),
+        ...organicFeed(6, 100),
+      ];
+      const result = allocateSponsoredSlots(feed, 9);
+      const order = ids(result.recommendations);
+
+      expect(order.indexOf('p1')).toBe(1);
+      expect(order.indexOf('p2')).toBe(4);
+      expect(result.decisions.find(d => d.placeId === 'p2')).toMatchObject({
+        outcome: 'demoted',
+        reason: 'spacing',
+      });
+    });
+
+    it('enforces max 2 sponsored in top 5 and 3 in top 10', () => {
+      const feed = [
+        makeRec('o0', 200),
+        makeRec('p1', 190, 'premium', 20),
+        makeRec('p2', 180, 'premium', 20),
+        makeRec('p3', 170, 'premium', 20),
+        makeRec('p4', 160, 'premium', 20),
+        ...organicFeed(12, 100),
+      ];
+      const result = allocateSponsoredSlots(feed, 16);
+      const sponsoredPositions = result.recommendations
+        .map((r, i) => (r.isSponsored ? i : -1))
+        .filter(i => i >= 0);
+
+      expect(sponsoredPositions.filter(p => p < 5).length).toBeLessThanOrEqual(2);
+      expect(sponsoredPositions.filter(p => p < 10).length).toBeLessThanOrEqual(3);
+      expect(result.decisions.find(d => d.placeId === 'p4')?.reason).toBe('position_cap');
+    });
+
+    it('strips sponsorship from frequency-capped sponsors and re-ranks them organically', () => {
+      const feed = [makeRec('o0', 120), makeRec('b', 115, 'boosted', 30), makeRec('o1', 100), makeRec('o2', 80)];
+      const result = allocateSponsoredSlots(feed, 4, new Map([['b', 2]]));
+      const capped = result.recommendations.find(r => r.place.place_id === 'b')!;
+
+      expect(capped.isSponsored).toBe(false);
+      expect(capped.score).toBe(85);
+      expect(capped.scoreBreakdown.sponsoredBoost).toBe(0);
+      expect(ids(result.recommendations)).toEqual(['o0', 'o1', 'b', 'o2']);
+      expect(result.decisions[0]).toMatchObject({ outcome: 'lost', reason: 'frequency_cap', assignedPosition: null });
+    });
+
+    it('allows premium more impressions per window than boosted', () => {
+      const feed = [makeRec('o0', 120), makeRec('p', 110, 'premium', 20), ...organicFeed(3, 90)];
+      const result = allocateSponsoredSlots(feed, 5, new Map([['p', 2]]));
+
+      expect(result.decisions[0].outcome).toBe('won');
+    });
+
+    it('marks sponsors pushed past maxResults as lost below the fold', () => {
+      const feed = [makeRec('o0', 120), makeRec('o1', 110), makeRec('b', 100, 'boosted', 10), makeRec('o2', 90)];
+      const result = allocateSponsoredSlots(feed, 2);
+
+      expect(result.decisions[0]).toMatchObject({ outcome: 'lost', reason: 'below_fold', assignedPosition: null });
+    });
+
+    it('forfeits sponsorship when no organic filler is left', () => {
+      const feed = [makeRec('o0', 120), makeRec('p1', 110, 'premium', 20), makeRec('p2', 100, 'premium', 20)];
+      const result = allocateSponsoredSlots(feed, 3);
+
+      expect(ids(result.recommendations)).toEqual(['o0', 'p1', 'p2']);
+      expect(result.recommendations[2].isSponsored).toBe(false);
+      expect(result.decisions.find(d => d.placeId === 'p2')).toMatchObject({ outcome: 'lost', reason: 'spacing' });
+    });
+
+    it('preserves the relative order of organic items', () => {
+      // Non-monotonic scores (e.g. after diversity swaps) must not be re-sorted
+      const feed = [makeRec('a', 50), makeRec('b', 90), makeRec('p', 80, 'premium', 10), makeRec('c', 70)];
+      const result = allocateSponsoredSlots(feed, 4);
+
+      expect(ids(result.recommendations).filter(id => id !== 'p')).toEqual(['a', 'b', 'c']);
+    });
+  });
+
+  describe('summarizeSlotDecisions', () => {
+    it('computes win rate and groups loss reasons', () => {
+      const stats = summarizeSlotDecisions([
+        { outcome: 'won', reason: 'placed' },
+        { outcome: 'demoted', reason: 'spacing' },
+        { outcome: 'lost', reason: 'frequency_cap' },
+        { outcome: 'lost', reason: 'frequency_cap' },
+      ]);
+
+      expect(stats).toEqual({
+        totalDecisions: 4,
+        won: 1,
+        demoted: 1,
+        lost: 2,
+        winRate: 50,
+        lossReasons: { frequency_cap: 2 },
+      });
+    });
+
+    it('handles no decisions', () => {
+      expect(summarizeSlotDecisions([]).winRate).toBe(0);
+    });
+  });
+
+  describe('persistence', () => {
+    it('counts won/demoted impressions per place', async () => {
+      mockChain.gte.mockResolvedValueOnce({
+        data: [{ google_place_id: 'a' }, { google_place_id: 'a' }, { google_place_id: 'b' }],
+        error: null,
+      });
+
+      const counts = await getSponsorImpressionCounts('user-1');
+
+      expect(mockChain.from).toHaveBeenCalledWith('sponsored_slot_decisions');
+      expect(mockChain.in).toHaveBeenCalledWith('outcome', ['won', 'demoted']);
+      expect(counts.get('a')).toBe(2);
+      expect(counts.get('b')).toBe(1);
+    });
+
+    it('returns an empty map when the query fails', async () => {
+      mockChain.gte.mockResolvedValueOnce({ data: null, error: { message: 'boom' } });
+
+      const counts = await getSponsorImpressionCounts('user-1');
+      expect(counts.size).toBe(0);
+    });
+
+    it('logs decisions as snake_case rows', async () => {
+      mockChain.insert.mockResolvedValueOnce({ error: null });
+
+      await logSlotDecisions('user-1', [{
+        placeId: 'p',
+        sponsorTier: 'premium',
+        requestedPosition: 0,
+        assignedPosition: 1,
+        outcome: 'demoted',
+        reason: 'tier_position',
+      }]);
+
+      expect(mockChain.insert).toHaveBeenCalledWith([{
+        user_id: 'user-1',
+        google_place_id: 'p',
+        sponsor_tier: 'premium',
+        requested_position: 0,
+        assigned_position: 1,
+        outcome: 'demoted',
+        reason: 'tier_position',
+      }]);
+    });
+
+    it('skips the insert when there are no decisions', async () => {
+      await logSlotDecisions('user-1', []);
+      expect(mockChain.insert).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Task Optimization — Unit Tests
+ *
+ * Tests cover:
+ * - Reordering flexible tasks around locked ones, starting and ending at home
+ * - Savings reported against the current order
+ * - Recurring occurrences stay locked
+ * - Restaurants and gyms fit inside their estimated opening hours
+ */
+
+const mockFetchEvents = jest.fn();
+const mockUser = jest.fn();
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(() => ({
+      select: () => ({ eq: () => ({ single: () => mockUser() }) }),
+    })),
+  },
+}));
+jest.mock('@/services/recurring-events', () => ({
+  fetchCalendarEventsInRange: (...args: unknown[]) => mockFetchEvents(...args),
+}));
+
+import { optimizeTasksForDay } from '@/services/task-optimization';
+import type { CalendarEvent } from '@/types/calendar-event';
+
+const USER_ID = 'user-1';
+const DATE = '2026-10-20'; // Tuesday
+const HOME = { latitude: 32.78, longitude: -96.8 };
+
+function event(id: string, category: CalendarEvent['category'], longitude: number, start: string, end: string, overrides: Partial<CalendarEvent> = {}): CalendarEvent {
+  return {
+    id,
+    user_id: USER_ID,
+    title: id,
+    category,
+    location: { latitude: 32.78, longitude },
+    address: `${id} St`,
+    start_time: start,
+    end_time: end,
+    all_day: false,
+    timezone: null,
+    source: 'manual',
+    status: 'scheduled',
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  } as CalendarEvent;
+}
+
+describe('task-optimization', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockUser.mockResolvedValue({
+      data: { home_location: HOME, work_location: null, timezone: 'America/Chicago' },
+      error: null,
+    });
+  });
+
+  it('reorders flexible tasks to cut backtracking and reports the savings', async () => {
+    // Entered far → near → far: zig-zags east and back
+    mockFetchEvents.mockResolvedValue({
+      events: [
+        event('far-1', 'personal', -96.6, '2026-10-20T15:00:00Z', '2026-10-20T15:30:00Z'),
+        event('near', 'personal', -96.78, '2026-10-20T16:00:00Z', '2026-10-20T16:30:00Z'),
+        event('far-2', 'personal', -96.61, '2026-10-20T17:00:00Z', '2026-10-20T17:30:00Z'),
+      ],
+    });
+
+    const result = await optimizeTasksForDay(USER_ID, DATE);
+
+    expect(mockFetchEvents).toHaveBeenCalledWith(
+      USER_ID,
+      new Date('2026-10-20T05:00:00Z'),
+      new Date('2026-10-21T04:59:59.999Z'),
+      'America/Chicago'
+    );
+    expect(result.method).toBe('exact');
+    const order = result.optimized_tasks.map(t => t.id);
+    expect(Math.abs(order.indexOf('far-1') - order.indexOf('far-2'))).toBe(1);
+    expect(result.optimized_travel_minutes).toBeLessThan(result.current_travel_minutes);
+    expect(result.time_saved_minutes).toBe(result.current_travel_minutes - result.optimized_travel_minutes);
+    expect(result.distance_saved_miles).toBeGreaterThan(0);
+    expect(result.route_efficiency_score).toBeLessThan(100);
+  });
+
+  it('keeps work and recurring occurrences at their times', async () => {
+    const work = event('work', 'work', -96.7, '2026-10-20T14:00:00Z', '2026-10-20T22:00:00Z');
+    const gym = event('gym@2026-10-20', 'personal', -96.79, '2026-10-20T23:00:00Z', '2026-10-21T00:00:00Z', {
+      recurrence_series_id: 'gym',
+    });
+    mockFetchEvents.mockResolvedValue({
+      events: [work, gym, event('errand', 'personal', -96.79, '2026-10-21T01:00:00Z', '2026-10-21T01:30:00Z')],
+    });
+
+    const result = await optimizeTasksForDay(USER_ID, DATE);
+
+    const byId = new Map(result.optimized_tasks.map(t => [t.id, t]));
+    expect(byId.get('work')!.start_time).toBe(work.start_time);
+    expect(byId.get('gym@2026-10-20')).toMatchObject({ start_time: gym.start_time, is_mandatory: true });
+    expect(byId.get('errand')!.is_mandatory).toBe(false);
+  });
+
+  it("doesn't optimize days without flexible tasks", async () => {
+    mockFetchEvents.mockResolvedValue({
+      events: [event('work', 'work', -96.7, '2026-10-20T14:00:00Z', '2026-10-20T22:00:00Z')],
+    });
+
+    const result = await optimizeTasksForDay(USER_ID, DATE);
+
+    expect(result).toMatchObject({ method: 'none', time_saved_minutes: 0, suggestions: [] });
+  });
+
+  it('schedules restaurants inside their opening hours', async () => {
+    mockFetchEvents.mockResolvedValue({
+      events: [
+        event('lunch', 'dining', -96.79, '2026-10-20T17:00:00Z', '2026-10-20T18:00:00Z'),
+        // Estimated restaurant hours open at 11am; a 9am table can't stay there
+        event('breakfast', 'dining', -96.79, '2026-10-20T14:00:00Z', '2026-10-20T15:00:00Z'),
+      ],
+    });
+
+    const result = await optimizeTasksForDay(USER_ID, DATE);
+
+    for (const task of result.optimized_tasks) {
+      expect(new Date(task.start_time).getTime()).toBeGreaterThanOrEqual(Date.parse('2026-10-20T16:00:00Z'));
+    }
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Time-of-Day Preferences — Unit Tests
+ *
+ * Tests cover:
+ * - Learning a per-category model with recency decay
+ * - Learned boosts, and falling back to the static table without enough data
+ * - The timeCategory signal using the learned model
+ * - Loading evidence from accepted recs, completed events and feedback
+ * - Rebuilding a stale model without rewriting the rest of the profile
+ * - Heatmap formatting
+ */
+
+let mockTables: Record<string, Record<string, unknown>[]> = {};
+const mockRpc = jest.fn();
+
+function mockQuery(rows: Record<string, unknown>[]) {
+  let result = rows;
+  const query: any = {
+    eq: (column: string, value: unknown) => {
+      result = result.filter(row => row[column] === value);
+      return query;
+    },
+    maybeSingle: () => Promise.resolve({ data: result[0] ?? null, error: null }),
+    then: (resolve: any, reject: any) => Promise.resolve({ data: result, error: null }).then(resolve, reject),
+  };
+  ['select', 'gte'].forEach(method => {
+    query[method] = () => query;
+  });
+  return query;
+}
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: (table: string) => mockQuery(mockTables[table] || []),
+    rpc: (...args: unknown[]) => mockRpc(...args),
+  },
+}));
+
+import {
+  ensureTimeOfDayModel,
+  formatTimeOfDayHeatmap,
+  getLearnedTimeBoost,
+  isTimeOfDayModelStale,
+  learnTimeOfDayModel,
+  loadTimeObservations,
+  TIME_PREFERENCE_CONFIG,
+} from '@/services/time-preferences';
+import type { TimeObservation } from '@/services/time-preferences';
+import { getUserTimeCategoryBoost, buildFixtureContext } from '@/services/scoring-signals';
+import { scoringSignals } from '@/services/scoring-pipeline';
+import type { User } from '@/types/database';
+
+const NOW = new Date(2026, 2, 3, 19, 0, 0);
+
+function at(hour: number, daysAgo = 0): Date {
+  const date = new Date(NOW);
+  date.setDate(date.getDate() - daysAgo);
+  date.setHours(hour, 0, 0, 0);
+  return date;
+}
+
+/** Coffee every morning, plus filler so the model has enough observations */
+function coffeeMornings(count = 10): TimeObservation[] {
+  return Array.from({ length: count }, () => ({ category: 'Coffee & Cafes', at: at(8), weight: 1 }));
+}
+
+describe('time-preferences', () => {
+  beforeEach(() => {
+    mockTables = {};
+    mockRpc.mockReset();
+    mockRpc.mockResolvedValue({ data: null, error: null });
+  });
+
+  describe('learnTimeOfDayModel', () => {
+    it('buckets evidence by category and slot', () => {
+      const model = learnTimeOfDayModel([
+        { category: 'Dining', at: at(19), weight: 2 },
+        { category: 'Dining', at: at(12), weight: 1 },
+        { category: 'Dining', at: at(12), weight: -1 },
+        { category: 'Fitness', at: at(23), weight: 1 },
+      ], NOW);
+
+      expect(model.counts.Dining).toEqual({ morning: 0, afternoon: 0, evening: 2, night: 0 });
+      expect(model.counts.Fitness.night).toBe(1);
+      expect(model.observations).toBe(4);
+    });
+
+    it('decays old evidence', () => {
+      const model = learnTimeOfDayModel([
+        { category: 'Dining', at: at(19, TIME_PREFERENCE_CONFIG.halfLifeDays), weight: 2 },
+      ], NOW);
+
+      expect(model.counts.Dining.evening).toBeCloseTo(1, 1);
+    });
+  });
+
+  describe('getLearnedTimeBoost', () => {
+    it('boosts the slots a category is done in and penalizes the rest', () => {
+      const model = learnTimeOfDayModel(coffeeMornings(), NOW);
+
+      expect(getLearnedTimeBoost(model, 'Coffee & Cafes', 'morning')).toBe(TIME_PREFERENCE_CONFIG.maxBoost);
+      expect(getLearnedTimeBoost(model, 'Coffee & Cafes', 'night')).toBe(-TIME_PREFERENCE_CONFIG.maxPenalty);
+    });
+
+    it('is neutral for a category done evenly across the day', () => {
+      const model = learnTimeOfDayModel(
+        [8, 13, 18, 22, 8, 13, 18, 22, 8, 13, 18, 22].map(hour => ({ category: 'Dining', at: at(hour), weight: 1 })),
+        NOW
+      );
+
+      expect(getLearnedTimeBoost(model, 'Dining', 'evening')).toBe(0);
+    });
+
+    it('returns null without enough data', () => {
+      expect(getLearnedTimeBoost(undefined, 'Dining', 'evening')).toBeNull();
+      expect(getLearnedTimeBoost(learnTimeOfDayModel(coffeeMornings(5), NOW), 'Coffee & Cafes', 'morning')).toBeNull();
+      expect(getLearnedTimeBoost(learnTimeOfDayModel(coffeeMornings(), NOW), 'Dining', 'evening')).toBeNull();
+    });
+  });
+
+  describe('scoring', () => {
+    it('replaces the static table once the category has enough data', () => {
+      const nightOwl = learnTimeOfDayModel(
+        Array.from({ length: 10 }, () => ({ category: 'Coffee & Cafes', at: at(23), weight: 1 })),
+        NOW
+      );
+      const user = { ai_profile: { time_of_day_model: nightOwl } } as unknown as User;
+
+      // Static table: coffee at night is -15
+      expect(getUserTimeCategoryBoost({ ai_profile: {} } as unknown as User, 'Coffee & Cafes', 'night')).toBe(-15);
+      expect(getUserTimeCategoryBoost(user, 'Coffee & Cafes', 'night')).toBe(25);
+      // Categories without data keep the table
+      expect(getUserTimeCategoryBoost(user, 'Dining', 'evening')).toBe(25);
+
+      const result = scoringSignals.run(buildFixtureContext({
+        category: 'Coffee & Cafes',
+        timeOfDay: 'night',
+        user: { ...buildFixtureContext().user, ai_profile: { time_of_day_model: nightOwl } } as unknown as User,
+      }));
+      expect(result.signals.find(s => s.name === 'timeCategory')?.points).toBe(25);
+    });
+
+    it('flags a missing or day-old model as stale', () => {
+      expect(isTimeOfDayModelStale(undefined, NOW)).toBe(true);
+      expect(isTimeOfDayModelStale(learnTimeOfDayModel([], NOW), NOW)).toBe(false);
+      expect(isTimeOfDayModelStale(learnTimeOfDayModel([], at(19, 2)), NOW)).toBe(true);
+    });
+  });
+
+  describe('loadTimeObservations', () => {
+    it('collects accepted recommendations, completed events and feedback', async () => {
+      mockTables = {
+        recommendation_tracking: [
+          { user_id: 'u1', google_place_id: 'gp-1', category: 'Coffee & Cafes', status: 'accepted' },
+          { user_id: 'u1', google_place_id: 'gp-2', category: 'Dining', status: 'declined' },
+        ],
+        calendar_events: [
+          { user_id: 'u1', start_time: at(8).toISOString(), category: 'dining', status: 'scheduled', google_place_id: 'gp-1' },
+          { user_id: 'u1', start_time: at(19).toISOString(), category: 'dining', status: 'completed', google_place_id: null },
+          { user_id: 'u1', start_time: at(9).toISOString(), category: 'work', status: 'completed', google_place_id: null },
+          { user_id: 'u1', start_time: at(20).toISOString(), category: 'dining', status: 'scheduled', google_place_id: 'gp-2' },
+          { user_id: 'u1', start_time: at(8).toISOString(), category: 'dining', status: 'cancelled', google_place_id: 'gp-1' },
+        ],
+        feedback: [
+          { user_id: 'u1', rating: 'thumbs_down', completed_at: at(22).toISOString(), activities: { category: 'Fitness' } },
+        ],
+      };
+
+      const observations = await loadTimeObservations('u1', undefined, NOW);
+
+      expect(observations.map(o => [o.category, o.weight])).toEqual([
+        ['Coffee & Cafes', TIME_PREFERENCE_CONFIG.weights.accepted],
+        ['Dining', TIME_PREFERENCE_CONFIG.weights.completed],
+        ['Fitness', TIME_PREFERENCE_CONFIG.weights.thumbsDown],
+      ]);
+    });
+  });
+
+  describe('ensureTimeOfDayModel', () => {
+    const fresh = () => learnTimeOfDayModel(coffeeMornings(), NOW);
+    const stale = () => learnTimeOfDayModel(coffeeMornings(), at(19, 2));
+
+    it('uses a fresh model as is', async () => {
+      const model = fresh();
+      await expect(ensureTimeOfDayModel('u1', model, undefined, NOW)).resolves.toBe(model);
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+
+    it('uses the saved model when only the caller\'s copy is stale', async () => {
+      const saved = fresh();
+      mockTables = { users: [{ id: 'u1', ai_profile: { time_of_day_model: saved } }] };
+
+      await expect(ensureTimeOfDayModel('u1', stale(), undefined, NOW)).resolves.toEqual(saved);
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+
+    it('rebuilds a stale model, saving only that key', async () => {
+      mockTables = { users: [{ id: 'u1', ai_profile: { time_of_day_model: stale() } }] };
+
+      const model = await ensureTimeOfDayModel('u1', undefined, undefined, NOW);
+
+      expect(model?.observations).toBe(0);
+      expect(mockRpc).toHaveBeenCalledWith('merge_ai_profile', {
+        p_user_id: 'u1',
+        p_patch: { time_of_day_model: model },
+      });
+    });
+
+    it('keeps the caller\'s model when the rebuild cannot be saved', async () => {
+      const current = stale();
+      mockRpc.mockResolvedValue({ data: null, error: { message: 'denied' } });
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(ensureTimeOfDayModel('u1', current, undefined, NOW)).resolves.toBe(current);
+    });
+  });
+
+  describe('formatTimeOfDayHeatmap', () => {
+    it('renders one row per category, busiest first', () => {
+      const heatmap = formatTimeOfDayHeatmap(learnTimeOfDayModel([
+        ...coffeeMornings(),
+        { category: 'Dining', at: at(19), weight: 1 },
+      ], NOW));
+      const lines = heatmap.split('\n');
+
+      expect(lines[1].startsWith('Coffee & Cafes')).toBe(true);
+      expect(lines[1]).toContain('██');
+      expect(lines[2].startsWith('Dining')).toBe(true);
+      expect(lines[3]).toContain('11 observations · learned');
+      expect(formatTimeOfDayHeatmap(undefined)).toBe('(no time-of-day data yet)');
+    });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * TMDb Service — Unit Tests
+ *
+ * Tests cover:
+ * - Resolving a radar name to a TMDb person
+ * - Filtering credits by department and release window
+ * - Theatrical-only releases as CachedEvents
+ * - The live HTTP client's response mapping
+ */
+
+process.env.EXPO_PUBLIC_TMDB_API_KEY = 'test-tmdb-key';
+
+import {
+  createFixtureTmdbClient,
+  createHttpTmdbClient,
+  filterCandidateCredits,
+  findTheatricalReleases,
+  getTmdbClient,
+  resolveTalent,
+  setTmdbClient,
+} from '@/services/tmdb-service';
+import type { TmdbCredit, TmdbFixture } from '@/services/tmdb-service';
+
+const NOW = new Date('2026-03-03T12:00:00Z');
+
+function credit(overrides: Partial<TmdbCredit> = {}): TmdbCredit {
+  return {
+    movieId: 1,
+    title: 'Untitled',
+    releaseDate: '2026-04-10',
+    posterPath: '/poster.jpg',
+    department: 'Directing',
+    role: 'Director',
+    ...overrides,
+  };
+}
+
+const FIXTURE: TmdbFixture = {
+  people: [
+    { id: 525, name: 'Christopher Nolan', knownForDepartment: 'Directing', popularity: 20 },
+    { id: 9999, name: 'Christopher Nolan Jr', knownForDepartment: 'Acting', popularity: 1 },
+    { id: 1892, name: 'Matt Damon', knownForDepartment: 'Acting', popularity: 40 },
+  ],
+  credits: {
+    525: [
+      credit({ movieId: 10, title: 'The Odyssey', releaseDate: '2026-07-17' }),
+      credit({ movieId: 11, title: 'Streaming Special', releaseDate: '2026-05-01' }),
+      credit({ movieId: 12, title: 'Oppenheimer', releaseDate: '2023-07-21' }),
+      credit({ movieId: 13, title: 'Produced Thing', releaseDate: '2026-04-01', department: 'Production', role: 'Producer' }),
+    ],
+  },
+  theatricalDates: { 10: '2026-07-17', 13: '2026-04-01' },
+};
+
+describe('tmdb-service', () => {
+  const fixtureClient = createFixtureTmdbClient(FIXTURE);
+
+  afterEach(() => setTmdbClient(null));
+
+  describe('resolveTalent', () => {
+    it('prefers an exact name known for the department', async () => {
+      await expect(resolveTalent('christopher nolan', 'Directing', fixtureClient)).resolves.toMatchObject({ id: 525 });
+      await expect(resolveTalent('Christopher', 'Acting', fixtureClient)).resolves.toMatchObject({ id: 9999 });
+    });
+
+    it('returns null when nobody matches', async () => {
+      await expect(resolveTalent('Nobody Real', undefined, fixtureClient)).resolves.toBeNull();
+      await expect(resolveTalent('  ', undefined, fixtureClient)).resolves.toBeNull();
+    });
+
+    it('uses the installed client by default', async () => {
+      setTmdbClient(fixtureClient);
+      expect(getTmdbClient()).toBe(fixtureClient);
+      await expect(resolveTalent('Matt Damon')).resolves.toMatchObject({ id: 1892 });
+    });
+  });
+
+  describe('filterCandidateCredits', () => {
+    it('keeps recent and upcoming credits in the department, once per film', () => {
+      const credits = [
+        ...FIXTURE.credits[525],
+        credit({ movieId: 10, title: 'The Odyssey', releaseDate: '2026-07-17', role: 'Writer' }),
+        credit({ movieId: 14, title: 'Far Future', releaseDate: '2027-06-01' }),
+        credit({ movieId: 15, title: 'TBA', releaseDate: '' }),
+      ];
+
+      expect(filterCandidateCredits(credits, 'Directing', NOW).map(c => c.movieId)).toEqual([10, 11]);
+      expect(filterCandidateCredits(credits, 'Producing', NOW).map(c => c.movieId)).toEqual([13]);
+      expect(filterCandidateCredits(credits, undefined, NOW).map(c => c.movieId)).toEqual([10, 11, 13]);
+    });
+  });
+
+  describe('findTheatricalReleases', () => {
+    it('returns theatrical releases with poster, soonest first', async () => {
+      const events = await findTheatricalReleases(525, undefined, fixtureClient, NOW);
+
+      expect(events.map(e => e.name)).toEqual(['Produced Thing', 'The Odyssey']);
+      expect(events[1]).toEqual({
+        id: 'tmdb:10',
+        name: 'The Odyssey',
+        venue: 'In theaters',
+        date: '2026-07-17',
+        imageUrl: 'https://image.tmdb.org/t/p/w500/poster.jpg',
+        ticketUrl: 'https://www.themoviedb.org/movie/10',
+        source: 'tmdb',
+        category: 'film',
+      });
+    });
+
+    it('filters by the radar department', async () => {
+      const events = await findTheatricalReleases(525, 'Directing', fixtureClient, NOW);
+      expect(events.map(e => e.name)).toEqual(['The Odyssey']);
+    });
+  });
+
+  describe('createHttpTmdbClient', () => {
+    const originalFetch = global.fetch;
+    const mockFetch = jest.fn();
+
+    beforeEach(() => {
+      (global as any).fetch = mockFetch;
+      mockFetch.mockReset();
+    });
+
+    afterAll(() => {
+      (global as any).fetch = originalFetch;
+    });
+
+    function respond(json: unknown) {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => json });
+    }
+
+    it('maps cast and crew credits', async () => {
+      respond({
+        cast: [{ id: 1, title: 'A', release_date: '2026-05-01', poster_path: '/a.jpg', character: 'Hero' }],
+        crew: [{ id: 2, title: 'B', release_date: '', department: 'Directing', job: 'Director' }],
+      });
+
+      const credits = await createHttpTmdbClient().getMovieCredits(525);
+
+      expect(mockFetch.mock.calls[0][0]).toContain('/person/525/movie_credits?api_key=test-tmdb-key');
+      expect(credits).toEqual([
+        { movieId: 1, title: 'A', releaseDate: '2026-05-01', posterPath: '/a.jpg', department: 'Acting', role: 'Hero' },
+        { movieId: 2, title: 'B', releaseDate: '', posterPath: undefined, department: 'Directing', role: 'Director' },
+      ]);
+    });
+
+    it('picks the earliest theatrical date in the region', async () => {
+      respond({
+        results: [
+          { iso_3166_1: 'GB', release_dates: [{ type: 3, release_date: '2026-06-01T00:00:00.000Z' }] },
+          {
+            iso_3166_1: 'US',
+            release_dates: [
+              { type: 4, release_date: '2026-05-01T00:00:00.000Z' },
+              { type: 3, release_date: '2026-07-17T00:00:00.000Z' },
+              { type: 2, release_date: '2026-07-10T00:00:00.000Z' },
+            ],
+          },
+        ],
+      });
+
+      await expect(createHttpTmdbClient().getTheatricalReleaseDate(10, 'US')).resolves.toBe('2026-07-10');
+    });
+
+    it('returns nothing when the request fails', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 500 });
+      await expect(createHttpTmdbClient().searchPerson('Nolan')).resolves.toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Travel Time Service — Unit Tests
+ *
+ * Tests cover:
+ * - One matrix request per departure bucket, cached by origin/destination/bucket
+ * - Offline haversine fallback when the provider fails or has no answer
+ * - Google Distance Matrix: modes, traffic durations, request limits
+ * - The user's preferred mode
+ */
+
+const mockSingle = jest.fn();
+const mockUpdateEq = jest.fn();
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(() => ({
+      select: () => ({ eq: () => ({ single: () => mockSingle() }) }),
+      update: () => ({ eq: (...args: unknown[]) => mockUpdateEq(...args) }),
+    })),
+  },
+}));
+
+import {
+  createGoogleDistanceMatrixProvider,
+  estimateOfflineTravelMinutes,
+  getPreferredTravelMode,
+  getTravelMatrix,
+  getTravelMinutes,
+  getTravelTimesForLegs,
+  setPreferredTravelMode,
+  setTravelTimeProvider,
+  type TravelTimeProvider,
+} from '@/services/travel-time';
+import type { Coordinate } from '@/utils/route-calculations';
+
+const HOME: Coordinate = { latitude: 32.78, longitude: -96.8 };
+const GYM: Coordinate = { latitude: 32.82, longitude: -96.8 };
+const CAFE: Coordinate = { latitude: 32.78, longitude: -96.75 };
+const NINE_AM = new Date('2026-10-20T14:00:00Z');
+
+/** Provider answering 10 minutes per hop, recording its calls */
+function fakeProvider(answer: (number | null) = 10): TravelTimeProvider & { getMatrix: jest.Mock } {
+  return {
+    name: 'fake',
+    getMatrix: jest.fn(async (origins: Coordinate[], destinations: Coordinate[]) =>
+      origins.map(() => destinations.map(() => answer))
+    ),
+  };
+}
+
+describe('travel-time', () => {
+  afterEach(() => {
+    setTravelTimeProvider(null);
+    jest.clearAllMocks();
+  });
+
+  describe('lookups', () => {
+    it('asks for all legs leaving together in one matrix request', async () => {
+      const provider = fakeProvider();
+      setTravelTimeProvider(provider);
+
+      const matrix = await getTravelMatrix([HOME, GYM], [GYM, CAFE], { departAt: NINE_AM, mode: 'transit' });
+
+      expect(matrix).toEqual([[10, 10], [0, 10]]); // GYM → GYM is no trip
+      expect(provider.getMatrix).toHaveBeenCalledTimes(1);
+      expect(provider.getMatrix).toHaveBeenCalledWith([HOME, GYM], [GYM, CAFE], 'transit', NINE_AM);
+    });
+
+    it('caches answers by departure bucket', async () => {
+      const provider = fakeProvider();
+      setTravelTimeProvider(provider);
+
+      await getTravelMinutes(HOME, GYM, { departAt: NINE_AM });
+      await getTravelMinutes(HOME, GYM, { departAt: new Date(NINE_AM.getTime() + 5 * 60000) });
+      expect(provider.getMatrix).toHaveBeenCalledTimes(1);
+
+      await getTravelMinutes(HOME, GYM, { departAt: new Date(NINE_AM.getTime() + 60 * 60000) });
+      expect(provider.getMatrix).toHaveBeenCalledTimes(2);
+    });
+
+    it('groups legs by bucket and ignores the time for walking', async () => {
+      const provider = fakeProvider();
+      setTravelTimeProvider(provider);
+      const legs = [
+        { from: HOME, to: GYM, departAt: NINE_AM },
+        { from: GYM, to: CAFE, departAt: new Date(NINE_AM.getTime() + 3 * 60 * 60000) },
+      ];
+
+      await getTravelTimesForLegs(legs, 'drive');
+      expect(provider.getMatrix).toHaveBeenCalledTimes(2);
+
+      provider.getMatrix.mockClear();
+      await getTravelTimesForLegs(legs, 'walk');
+      expect(provider.getMatrix).toHaveBeenCalledTimes(1);
+    });
+
+    it('falls back to the offline estimate when the provider fails', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      setTravelTimeProvider({ name: 'down', getMatrix: jest.fn().mockRejectedValue(new Error('offline')) });
+
+      const minutes = await getTravelMinutes(HOME, GYM, { mode: 'bike', departAt: NINE_AM });
+
+      expect(minutes).toBe(estimateOfflineTravelMinutes(HOME, GYM, 'bike'));
+      warn.mockRestore();
+    });
+
+    it("doesn't cache fallbacks for pairs without an answer", async () => {
+      const provider = fakeProvider(null);
+      setTravelTimeProvider(provider);
+
+      expect(await getTravelMinutes(HOME, CAFE, { departAt: NINE_AM })).toBe(estimateOfflineTravelMinutes(HOME, CAFE));
+      await getTravelMinutes(HOME, CAFE, { departAt: NINE_AM });
+
+      expect(provider.getMatrix).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('createGoogleDistanceMatrixProvider', () => {
+    const ok = (rows: unknown[]) => ({ ok: true, json: async () => ({ status: 'OK', rows }) });
+
+    it('uses traffic durations for driving and maps the mode', async () => {
+      const fetchImpl = jest.fn().mockResolvedValue(
+        ok([{ elements: [{ status: 'OK', duration: { value: 600 }, duration_in_traffic: { value: 900 } }, { status: 'ZERO_RESULTS' }] }])
+      );
+      const provider = createGoogleDistanceMatrixProvider('key', fetchImpl as unknown as typeof fetch);
+      const future = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+      const matrix = await provider.getMatrix([HOME], [GYM, CAFE], 'drive', future);
+
+      expect(matrix).toEqual([[15, null]]);
+      const url = new URL(fetchImpl.mock.calls[0][0]);
+      expect(url.searchParams.get('mode')).toBe('driving');
+      expect(url.searchParams.get('departure_time')).toBe(String(Math.floor(future.getTime() / 1000)));
+    });
+
+    it('leaves out the departure time for cycling', async () => {
+      const fetchImpl = jest.fn().mockResolvedValue(ok([{ elements: [{ status: 'OK', duration: { value: 60 } }] }]));
+      const provider = createGoogleDistanceMatrixProvider('key', fetchImpl as unknown as typeof fetch);
+
+      await provider.getMatrix([HOME], [GYM], 'bike', NINE_AM);
+
+      const url = new URL(fetchImpl.mock.calls[0][0]);
+      expect(url.searchParams.get('mode')).toBe('bicycling');
+      expect(url.searchParams.has('departure_time')).toBe(false);
+    });
+
+    it('splits large matrices into requests of at most 100 elements', async () => {
+      const fetchImpl = jest.fn(async (input: string) => {
+        const url = new URL(input);
+        const origins = url.searchParams.get('origins')!.split('|');
+        const destinations = url.searchParams.get('destinations')!.split('|');
+        return ok(origins.map(() => ({ elements: destinations.map(() => ({ status: 'OK', duration: { value: 120 } })) })));
+      });
+      const provider = createGoogleDistanceMatrixProvider('key', fetchImpl as unknown as typeof fetch);
+      const points = Array.from({ length: 30 }, (_, i) => ({ latitude: 32.7 + i * 0.01, longitude: -96.8 }));
+
+      const matrix = await provider.getMatrix(points, points, 'walk', NINE_AM);
+
+      expect(matrix).toHaveLength(30);
+      expect(matrix.every(row => row.length === 30 && row.every(m => m === 2))).toBe(true);
+      for (const [input] of fetchImpl.mock.calls) {
+        const url = new URL(input);
+        const elements = url.searchParams.get('origins')!.split('|').length * url.searchParams.get('destinations')!.split('|').length;
+        expect(elements).toBeLessThanOrEqual(100);
+      }
+    });
+  });
+
+  describe('preferred mode', () => {
+    it("reads the user's mode once and defaults to driving", async () => {
+      mockSingle.mockResolvedValueOnce({ data: { preferred_travel_mode: 'transit' }, error: null });
+      mockSingle.mockResolvedValueOnce({ data: { preferred_travel_mode: null }, error: null });
+
+      expect(await getPreferredTravelMode('user-1')).toBe('transit');
+      expect(await getPreferredTravelMode('user-1')).toBe('transit');
+      expect(await getPreferredTravelMode('user-2')).toBe('drive');
+      expect(mockSingle).toHaveBeenCalledTimes(2);
+    });
+
+    it('remembers a newly saved mode', async () => {
+      mockUpdateEq.mockResolvedValue({ error: null });
+
+      expect(await setPreferredTravelMode('user-3', 'bike')).toBe(true);
+      expect(await getPreferredTravelMode('user-3')).toBe('bike');
+      expect(mockSingle).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,366 @@
+/**
+ * Weekend Planner — Unit Tests
+ *
+ * Tests cover:
+ * - "This weekend" date range
+ * - Itineraries: calendar gaps, business hours, travel, meals, variety
+ * - Ranked, distinct alternatives
+ * - One-tap accept (calendar events, accepted tracking, loop routing)
+ */
+
+const mockInsert = jest.fn();
+const mockMarkAsAccepted = jest.fn();
+const mockUpdateLoopRouting = jest.fn();
+
+jest.mock('react-native', () => ({
+  Platform: { OS: 'ios' },
+}));
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(() => ({
+      insert: (rows: unknown) => ({ select: () => mockInsert(rows) }),
+    })),
+  },
+}));
+jest.mock('@/services/recommendation-persistence', () => ({
+  markAsAccepted: (...args: unknown[]) => mockMarkAsAccepted(...args),
+}));
+jest.mock('@/services/loop-routing', () => ({
+  updateLoopRoutingForUser: (...args: unknown[]) => mockUpdateLoopRouting(...args),
+}));
+
+import {
+  acceptWeekendPlan,
+  generateWeekendPlans,
+  getDaysInRange,
+  getThisWeekendRange,
+  isMealCategory,
+  _testExports,
+} from '@/services/weekend-planner';
+import type { Recommendation } from '@/types/activity';
+import type { CalendarEvent, WeekendPlan } from '@/types/time-slots';
+import { getDeviceTimezone, getZonedMinutesOfDay } from '@/utils/timezone';
+
+const { mealWindowAt, blocksMeal } = _testExports;
+
+// Saturday Oct 24 – Sunday Oct 25, 2026 (local time)
+const SATURDAY = new Date(2026, 9, 24);
+const SUNDAY = new Date(2026, 9, 25);
+const THURSDAY = new Date(2026, 9, 22, 18, 0);
+const HOME = { latitude: 32.78, longitude: -96.8 };
+const LOCAL_ZONE = getDeviceTimezone();
+
+function openDaily(open: string, close: string) {
+  return {
+    periods: [0, 1, 2, 3, 4, 5, 6].map(day => ({
+      open: { day, time: open },
+      close: { day, time: close },
+    })),
+  };
+}
+
+function rec(
+  id: string,
+  category: string,
+  score: number,
+  overrides: Partial<Recommendation> = {},
+  offset = 0.01
+): Recommendation {
+  return {
+    id,
+    title: `Place ${id}`,
+    category,
+    location: `${id} Main St`,
+    distance: '1 mi',
+    priceRange: 2,
+    rating: 4.5,
+    imageUrl: '',
+    aiExplanation: `Because ${id}`,
+    isSponsored: false,
+    score,
+    businessHours: openDaily('0800', '2330'),
+    activity: {
+      id: `act-${id}`,
+      name: `Place ${id}`,
+      category,
+      priceRange: 2,
+      googlePlaceId: `gp-${id}`,
+      location: { latitude: HOME.latitude + offset, longitude: HOME.longitude, address: `${id} Main St` },
+    },
+    ...overrides,
+  };
+}
+
+const CANDIDATES: Recommendation[] = [
+  rec('taco', 'restaurant', 80),
+  rec('steak', 'restaurant', 75),
+  rec('sushi', 'restaurant', 70),
+  rec('bbq', 'restaurant', 65),
+  rec('dma', 'museum', 85),
+  rec('klyde', 'park', 60),
+  rec('galleria', 'shopping', 55),
+  rec('dive', 'bar', 72),
+  rec('speakeasy', 'bar', 68),
+  rec('roastery', 'coffee', 50),
+  rec('crow', 'gallery', 58),
+  rec('spa', 'spa', 45),
+];
+
+function allStops(plan: WeekendPlan) {
+  return plan.days.flatMap(d => d.stops);
+}
+
+function minutesOf(date: Date): number {
+  return date.getHours() * 60 + date.getMinutes();
+}
+
+describe('weekend-planner', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockUpdateLoopRouting.mockResolvedValue({ success: true, eventsUpdated: 3 });
+    mockMarkAsAccepted.mockResolvedValue(undefined);
+  });
+
+  describe('date range', () => {
+    it('points "this weekend" at the coming Saturday and Sunday', () => {
+      const { start, end } = getThisWeekendRange(THURSDAY);
+
+      expect(start).toEqual(SATURDAY);
+      expect(end).toEqual(SUNDAY);
+    });
+
+    it('keeps the current weekend on Saturday and only today on Sunday', () => {
+      expect(getThisWeekendRange(new Date(2026, 9, 24, 15))).toEqual({ start: SATURDAY, end: SUNDAY });
+      expect(getThisWeekendRange(new Date(2026, 9, 25, 9))).toEqual({ start: SUNDAY, end: SUNDAY });
+    });
+
+    it('lists every day in the range at midnight', () => {
+      expect(getDaysInRange(new Date(2026, 9, 24, 14), new Date(2026, 9, 26, 1))).toEqual([
+        SATURDAY,
+        SUNDAY,
+        new Date(2026, 9, 26),
+      ]);
+    });
+
+    it("uses the user's zone, not the device's", () => {
+      // Friday 10 PM in Chicago, already Saturday in UTC
+      const fridayNight = new Date('2026-10-24T03:00:00Z');
+
+      expect(getThisWeekendRange(fridayNight, 'America/Chicago')).toEqual({
+        start: new Date('2026-10-24T05:00:00Z'),
+        end: new Date('2026-10-25T05:00:00Z'),
+      });
+      expect(getDaysInRange(new Date('2026-10-24T05:00:00Z'), new Date('2026-10-25T05:00:00Z'), 'Asia/Tokyo')).toEqual([
+        new Date('2026-10-23T15:00:00Z'),
+        new Date('2026-10-24T15:00:00Z'),
+      ]);
+    });
+  });
+
+  describe('meals', () => {
+    it('recognizes meal categories', () => {
+      expect(isMealCategory('Restaurant')).toBe(true);
+      expect(isMealCategory('fine_dining')).toBe(true);
+      expect(isMealCategory('coffee')).toBe(false);
+      expect(isMealCategory('bar')).toBe(false);
+    });
+
+    it('only counts starts before the meal’s last call', () => {
+      expect(mealWindowAt(new Date(2026, 9, 24, 12, 30), LOCAL_ZONE)).toBe('lunch');
+      expect(mealWindowAt(new Date(2026, 9, 24, 13, 30), LOCAL_ZONE)).toBeUndefined();
+      expect(mealWindowAt(new Date(2026, 9, 24, 19, 0), LOCAL_ZONE)).toBe('dinner');
+    });
+
+    it('flags non-meal stops that run through an unserved meal', () => {
+      const noon = new Date(2026, 9, 24, 12, 0);
+      const twoPm = new Date(2026, 9, 24, 14, 0);
+
+      expect(blocksMeal(noon, twoPm, new Set(), LOCAL_ZONE)).toBe(true);
+      expect(blocksMeal(noon, twoPm, new Set(['lunch']), LOCAL_ZONE)).toBe(false);
+    });
+  });
+
+  describe('generateWeekendPlans', () => {
+    const baseOptions = {
+      ...getThisWeekendRange(THURSDAY),
+      candidates: CANDIDATES,
+      userLocation: HOME,
+      now: THURSDAY,
+    };
+
+    it('builds a lunch-and-dinner itinerary for each day', () => {
+      const [best] = generateWeekendPlans(baseOptions);
+
+      expect(best.days.map(d => d.date)).toEqual([SATURDAY, SUNDAY]);
+      for (const day of best.days) {
+        expect(day.stops.map(s => s.meal).filter(Boolean)).toEqual(['lunch', 'dinner']);
+        expect(day.summary).toMatch(/stops, lunch \+ dinner$/);
+        for (const stop of day.stops.filter(s => s.meal)) {
+          expect(isMealCategory(stop.recommendation.category)).toBe(true);
+        }
+      }
+    });
+
+    it('leaves room to travel between stops and never repeats a place', () => {
+      const [best] = generateWeekendPlans(baseOptions);
+
+      for (const day of best.days) {
+        day.stops.forEach((stop, i) => {
+          expect(stop.end.getTime()).toBeGreaterThan(stop.start.getTime());
+          if (i > 0) {
+            const gap = (stop.start.getTime() - day.stops[i - 1].end.getTime()) / 60000;
+            expect(gap).toBeGreaterThanOrEqual(stop.travelMinutes);
+          }
+        });
+      }
+      const ids = allStops(best).map(s => s.recommendation.id);
+      expect(new Set(ids).size).toBe(ids.length);
+      expect(best.totalTravelMinutes).toBe(allStops(best).reduce((sum, s) => sum + s.travelMinutes, 0));
+    });
+
+    it('mixes categories instead of stacking the top scorer', () => {
+      const [best] = generateWeekendPlans(baseOptions);
+
+      for (const day of best.days) {
+        day.stops.slice(1).forEach((stop, i) => {
+          expect(stop.recommendation.category).not.toBe(day.stops[i].recommendation.category);
+        });
+      }
+      expect(best.categories.length).toBeGreaterThanOrEqual(4);
+    });
+
+    it('schedules around calendar events', () => {
+      const events: CalendarEvent[] = [{
+        id: 'brunch-with-mom',
+        title: 'Brunch with Mom',
+        startTime: new Date(2026, 9, 24, 11, 0),
+        endTime: new Date(2026, 9, 24, 15, 0),
+        location: HOME,
+      }];
+
+      const [best] = generateWeekendPlans({ ...baseOptions, events });
+
+      for (const stop of best.days[0].stops) {
+        const overlaps = stop.start < events[0].endTime && stop.end > events[0].startTime;
+        expect(overlaps).toBe(false);
+      }
+    });
+
+    it('only visits places while they are open', () => {
+      const lateBar = rec('late-bar', 'nightlife', 99, { businessHours: openDaily('2000', '2330') });
+      const plans = generateWeekendPlans({ ...baseOptions, candidates: [lateBar, ...CANDIDATES.slice(0, 4)] });
+
+      const visits = plans.flatMap(allStops).filter(s => s.recommendation.id === 'late-bar');
+      expect(visits.length).toBeGreaterThan(0);
+      for (const visit of visits) {
+        expect(minutesOf(visit.start)).toBeGreaterThanOrEqual(20 * 60);
+      }
+    });
+
+    it('starts no earlier than now on the current day', () => {
+      const saturdayAfternoon = new Date(2026, 9, 24, 16, 10);
+      const [best] = generateWeekendPlans({
+        ...baseOptions,
+        ...getThisWeekendRange(saturdayAfternoon),
+        now: saturdayAfternoon,
+      });
+
+      for (const stop of best.days[0].stops) {
+        expect(stop.start.getTime()).toBeGreaterThanOrEqual(saturdayAfternoon.getTime());
+      }
+      expect(best.days[0].stops.map(s => s.meal).filter(Boolean)).toEqual(['dinner']);
+    });
+
+    it('skips ticketed events, non-venue cards and places without coordinates', () => {
+      const concert = rec('concert', 'concert', 100, { event_metadata: { event_url: 'https://tickets' } });
+      const header = rec('header', 'museum', 100, { cardType: 'section_header' });
+      const nowhere = rec('nowhere', 'museum', 100, { activity: undefined });
+
+      const plans = generateWeekendPlans({ ...baseOptions, candidates: [...CANDIDATES, concert, header, nowhere] });
+      const ids = plans.flatMap(allStops).map(s => s.recommendation.id);
+
+      expect(ids).not.toContain('concert');
+      expect(ids).not.toContain('header');
+      expect(ids).not.toContain('nowhere');
+    });
+
+    it('returns distinct alternatives ranked best first', () => {
+      const plans = generateWeekendPlans({ ...baseOptions, planCount: 3 });
+
+      expect(plans).toHaveLength(3);
+      expect(new Set(plans.map(p => p.id)).size).toBe(3);
+      expect(plans.map(p => p.score)).toEqual([...plans.map(p => p.score)].sort((a, b) => b - a));
+    });
+
+    it("plans the day, meals and opening hours in the user's zone", () => {
+      const zone = 'Asia/Tokyo';
+      const [best] = generateWeekendPlans({
+        ...baseOptions,
+        ...getThisWeekendRange(THURSDAY, zone),
+        timeZone: zone,
+      });
+      const stops = allStops(best);
+
+      expect(stops.length).toBeGreaterThan(0);
+      for (const stop of stops) {
+        expect(getZonedMinutesOfDay(stop.start, zone)).toBeGreaterThanOrEqual(10 * 60);
+        expect(getZonedMinutesOfDay(stop.end, zone)).toBeLessThanOrEqual(23 * 60 + 30);
+      }
+      const lunches = stops.filter(s => s.meal === 'lunch');
+      expect(lunches).toHaveLength(2);
+      for (const lunch of lunches) {
+        expect(getZonedMinutesOfDay(lunch.start, zone)).toBeGreaterThanOrEqual(11 * 60);
+        expect(getZonedMinutesOfDay(lunch.start, zone)).toBeLessThanOrEqual(13 * 60);
+      }
+    });
+
+    it('returns no plans when nothing fits', () => {
+      expect(generateWeekendPlans({ ...baseOptions, candidates: [] })).toEqual([]);
+    });
+  });
+
+  describe('acceptWeekendPlan', () => {
+    const [plan] = generateWeekendPlans({
+      ...getThisWeekendRange(THURSDAY),
+      candidates: CANDIDATES,
+      userLocation: HOME,
+      now: THURSDAY,
+      maxStopsPerDay: 3,
+    });
+    const stops = allStops(plan);
+
+    it('creates every stop, marks them accepted and refreshes loop routing', async () => {
+      mockInsert.mockResolvedValue({ data: stops.map((_, i) => ({ id: `evt-${i}` })), error: null });
+
+      const result = await acceptWeekendPlan('user-1', plan);
+
+      expect(result).toEqual({ success: true, eventIds: stops.map((_, i) => `evt-${i}`) });
+      const rows = mockInsert.mock.calls[0][0];
+      const lunch = stops.findIndex(s => s.meal === 'lunch');
+      expect(rows).toHaveLength(stops.length);
+      expect(rows[lunch]).toMatchObject({
+        user_id: 'user-1',
+        title: stops[lunch].recommendation.title,
+        category: 'dining',
+        location: `POINT(${HOME.longitude} ${stops[lunch].recommendation.activity!.location.latitude})`,
+        start_time: stops[lunch].start.toISOString(),
+        end_time: stops[lunch].end.toISOString(),
+        source: 'recommendation',
+        status: 'scheduled',
+      });
+      expect(mockMarkAsAccepted).toHaveBeenCalledWith('user-1', stops[0].recommendation.activity!.googlePlaceId, 'evt-0');
+      expect(mockMarkAsAccepted).toHaveBeenCalledTimes(stops.length);
+      expect(mockUpdateLoopRouting).toHaveBeenCalledWith('user-1');
+    });
+
+    it('reports insert failures without touching routing', async () => {
+      mockInsert.mockResolvedValue({ data: null, error: { message: 'permission denied' } });
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await acceptWeekendPlan('user-1', plan);
+
+      expect(result).toEqual({ success: false, eventIds: [], error: 'permission denied' });
+      expect(mockUpdateLoopRouting).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -344,4 +344,39 @@ describe('business-hours', () => {
       expect(hours).toEqual({ open: '12:00', close: '20:00' });
     });
   });
+
+  describe('venue timezones', () => {
+    const NEW_YORK = 'America/New_York';
+    const cafeHours: BusinessHours = {
+      friday: { open: '07:00', close: '18:00' },
+      saturday: { open: '08:00', close: '17:00' },
+      sunday: { open: '08:00', close: '17:00' },
+    };
+
+    it('checks hours on the venue\'s clock, wherever the device is', () => {
+      // 1 PM UTC Friday is 8 AM in New York (open) and 10 PM in Tokyo
+      const instant = new Date('2026-01-16T13:00:00Z');
+
+      expect(isOpenAt(cafeHours, instant, NEW_YORK)).toBe(true);
+      expect(isOpenAt(cafeHours, instant, 'Asia/Tokyo')).toBe(false);
+      // 11:30 PM UTC Friday is already Saturday morning in Tokyo
+      expect(isOpenAt(cafeHours, new Date('2026-01-16T23:30:00Z'), 'Asia/Tokyo')).toBe(true);
+    });
+
+    it('reads the weekday in the venue\'s zone', () => {
+      // Saturday 2 AM UTC is still Friday evening in New York
+      expect(getTodayHours(cafeHours, new Date('2026-01-17T02:00:00Z'), NEW_YORK)).toEqual(cafeHours.friday);
+    });
+
+    it('finds the next opening across the spring-forward change', () => {
+      // Saturday March 7, 2026 after close (EST); Sunday opens at 8 AM EDT
+      const nextOpen = getNextOpeningTime(cafeHours, new Date('2026-03-08T00:00:00Z'), NEW_YORK);
+      expect(nextOpen?.toISOString()).toBe('2026-03-08T12:00:00.000Z');
+    });
+
+    it('suggests a visit time on the venue\'s clock', () => {
+      const suggestion = suggestVisitTime(cafeHours, 'afternoon', new Date('2026-01-16T13:00:00Z'), NEW_YORK);
+      expect(suggestion.toISOString()).toBe('2026-01-16T19:00:00.000Z'); // 2 PM EST
+    });
+  });
 });
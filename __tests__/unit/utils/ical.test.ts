@@ -0,0 +1,246 @@
+/**
+ * iCalendar Utility — Unit Tests
+ *
+ * Tests cover:
+ * - Serializing VEVENTs with TZID times and generated VTIMEZONEs
+ * - Round trips of RRULE/EXDATE, overrides, attendees and escaped text
+ * - Parsing Outlook/Google style files: Windows zone names, custom
+ *   VTIMEZONE definitions, UTC, floating and all-day times, DURATION
+ * - Line folding
+ */
+
+import { normalizeICalUrl, parseICal, serializeICal, type ICalEvent } from '@/utils/ical';
+
+const NEW_YORK = 'America/New_York';
+const NOW = new Date('2026-01-01T12:00:00Z');
+
+/** Tuesday yoga, 6–7 PM New York time */
+const yoga: ICalEvent = {
+  uid: 'yoga-1@loopapp',
+  summary: 'Yoga',
+  start: new Date('2026-01-06T23:00:00Z'),
+  end: new Date('2026-01-07T00:00:00Z'),
+  timeZone: NEW_YORK,
+  rrule: 'FREQ=WEEKLY;BYDAY=TU',
+};
+
+const contentLines = (ics: string) => ics.replace(/\r\n[ \t]/g, '').split('\r\n');
+
+describe('ical utils', () => {
+  describe('serializeICal', () => {
+    it('writes a VCALENDAR with CRLF line endings', () => {
+      const ics = serializeICal({ name: 'My Loop', events: [yoga] }, { now: NOW });
+
+      expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+      expect(contentLines(ics)).toEqual(
+        expect.arrayContaining(['X-WR-CALNAME:My Loop', 'UID:yoga-1@loopapp', 'DTSTAMP:20260101T120000Z', 'RRULE:FREQ=WEEKLY;BYDAY=TU'])
+      );
+    });
+
+    it('writes wall-clock times with TZID and a matching VTIMEZONE', () => {
+      const lines = contentLines(serializeICal({ events: [yoga] }, { now: NOW }));
+
+      expect(lines).toContain('DTSTART;TZID=America/New_York:20260106T180000');
+      expect(lines).toContain('DTEND;TZID=America/New_York:20260106T190000');
+      expect(lines).toContain('TZID:America/New_York');
+      // US rules: second Sunday of March, first Sunday of November
+      expect(lines).toContain('RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU');
+      expect(lines).toContain('RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU');
+      expect(lines).toContain('TZOFFSETTO:-0400');
+    });
+
+    it('uses last-weekday rules for European zones', () => {
+      const lines = contentLines(serializeICal({ events: [{ ...yoga, timeZone: 'Europe/Berlin' }] }, { now: NOW }));
+
+      expect(lines).toContain('RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU');
+      expect(lines).toContain('RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU');
+    });
+
+    it('writes a fixed offset for zones without DST', () => {
+      const lines = contentLines(serializeICal({ events: [{ ...yoga, timeZone: 'Asia/Tokyo' }] }, { now: NOW }));
+
+      expect(lines).toContain('TZOFFSETFROM:+0900');
+      expect(lines).toContain('TZOFFSETTO:+0900');
+      expect(lines.filter(l => l === 'BEGIN:STANDARD')).toHaveLength(1);
+      expect(lines).not.toContain('BEGIN:DAYLIGHT');
+    });
+
+    it('writes UTC times for events without a zone', () => {
+      const lines = contentLines(serializeICal({ events: [{ ...yoga, timeZone: null, rrule: null }] }, { now: NOW }));
+
+      expect(lines).toContain('DTSTART:20260106T230000Z');
+      expect(lines).not.toContain('BEGIN:VTIMEZONE');
+    });
+
+    it('folds long lines at 75 octets, counting multi-byte characters', () => {
+      const description = 'Café crawl → '.repeat(20);
+      const ics = serializeICal({ events: [{ ...yoga, description }] }, { now: NOW });
+
+      for (const line of ics.split('\r\n')) {
+        expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75);
+      }
+      expect(parseICal(ics).events[0].description).toBe(description);
+    });
+  });
+
+  describe('round trip', () => {
+    it('keeps every field', () => {
+      const event: ICalEvent = {
+        ...yoga,
+        description: 'Bring a mat, water; and a towel\nStudio 2',
+        location: 'Flow Studio, 12 Main St',
+        geo: { latitude: 40.7128, longitude: -74.006 },
+        exdates: [new Date('2026-01-13T23:00:00Z')],
+        status: 'CONFIRMED',
+        categories: ['fitness', 'wellness'],
+        organizer: { email: 'ana@example.com', name: 'Ana Ruiz' },
+        attendees: [
+          { email: 'ana@example.com', name: 'Ana Ruiz', status: 'ACCEPTED', role: 'CHAIR' },
+          { email: 'ben@example.com', name: 'Ben, Jr.', status: 'NEEDS-ACTION', role: 'REQ-PARTICIPANT' },
+        ],
+        url: 'https://example.com/yoga',
+        sequence: 2,
+      };
+
+      const [parsed] = parseICal(serializeICal({ events: [event] }, { now: NOW })).events;
+
+      expect(parsed).toEqual(event);
+    });
+
+    it('keeps overrides of single occurrences', () => {
+      const override: ICalEvent = {
+        uid: yoga.uid,
+        summary: 'Yoga (late class)',
+        start: new Date('2026-01-21T00:00:00Z'),
+        end: new Date('2026-01-21T01:00:00Z'),
+        timeZone: NEW_YORK,
+        recurrenceId: new Date('2026-01-20T23:00:00Z'),
+      };
+
+      const { events } = parseICal(serializeICal({ events: [yoga, override] }, { now: NOW }));
+
+      expect(events).toHaveLength(2);
+      expect(events[1].recurrenceId?.toISOString()).toBe('2026-01-20T23:00:00.000Z');
+      expect(events[1].rrule).toBeUndefined();
+    });
+
+    it('keeps all-day events on their date', () => {
+      const holiday: ICalEvent = {
+        uid: 'holiday',
+        summary: 'Day off',
+        start: new Date('2026-07-03T04:00:00Z'),
+        end: new Date('2026-07-04T04:00:00Z'),
+        allDay: true,
+        timeZone: NEW_YORK,
+      };
+      const ics = serializeICal({ events: [holiday] }, { now: NOW });
+
+      expect(contentLines(ics)).toContain('DTSTART;VALUE=DATE:20260703');
+      expect(parseICal(ics, { defaultTimeZone: NEW_YORK }).events[0]).toMatchObject({
+        allDay: true,
+        start: holiday.start,
+        end: holiday.end,
+      });
+    });
+  });
+
+  describe('parseICal', () => {
+    const wrap = (...lines: string[]) => ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+
+    it('maps Windows zone names to IANA zones', () => {
+      const { events } = parseICal(
+        wrap('BEGIN:VEVENT', 'UID:1', 'SUMMARY:Standup', 'DTSTART;TZID=Pacific Standard Time:20260715T090000', 'DURATION:PT15M', 'END:VEVENT')
+      );
+
+      expect(events[0].start.toISOString()).toBe('2026-07-15T16:00:00.000Z');
+      expect(events[0].end.toISOString()).toBe('2026-07-15T16:15:00.000Z');
+      expect(events[0].timeZone).toBe('America/Los_Angeles');
+    });
+
+    it('uses a custom VTIMEZONE definition for unknown TZIDs', () => {
+      const ics = wrap(
+        'BEGIN:VTIMEZONE',
+        'TZID:Custom Eastern',
+        'BEGIN:STANDARD',
+        'DTSTART:16011104T020000',
+        'RRULE:FREQ=YEARLY;BYDAY=1SU;BYMONTH=11',
+        'TZOFFSETFROM:-0400',
+        'TZOFFSETTO:-0500',
+        'END:STANDARD',
+        'BEGIN:DAYLIGHT',
+        'DTSTART:16010311T020000',
+        'RRULE:FREQ=YEARLY;BYDAY=2SU;BYMONTH=3',
+        'TZOFFSETFROM:-0500',
+        'TZOFFSETTO:-0400',
+        'END:DAYLIGHT',
+        'END:VTIMEZONE',
+        'BEGIN:VEVENT',
+        'UID:winter',
+        'DTSTART;TZID="Custom Eastern":20260115T090000',
+        'DTEND;TZID="Custom Eastern":20260115T100000',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:summer',
+        'DTSTART;TZID="Custom Eastern":20260715T090000',
+        'DTEND;TZID="Custom Eastern":20260715T100000',
+        'END:VEVENT'
+      );
+
+      const { events } = parseICal(ics);
+
+      expect(events[0].start.toISOString()).toBe('2026-01-15T14:00:00.000Z');
+      expect(events[1].start.toISOString()).toBe('2026-07-15T13:00:00.000Z');
+    });
+
+    it('reads IANA names at the end of prefixed TZIDs', () => {
+      const { events } = parseICal(
+        wrap('BEGIN:VEVENT', 'UID:1', 'DTSTART;TZID=/mozilla.org/20050126_1/Europe/Paris:20260115T090000', 'END:VEVENT')
+      );
+      expect(events[0].start.toISOString()).toBe('2026-01-15T08:00:00.000Z');
+    });
+
+    it('resolves floating times and all-day dates in the default zone', () => {
+      const { events } = parseICal(
+        wrap(
+          'BEGIN:VEVENT', 'UID:float', 'DTSTART:20260115T090000', 'DTEND:20260115T100000', 'END:VEVENT',
+          'BEGIN:VEVENT', 'UID:day', 'DTSTART;VALUE=DATE:20260115', 'END:VEVENT'
+        ),
+        { defaultTimeZone: 'Asia/Tokyo' }
+      );
+
+      expect(events[0].start.toISOString()).toBe('2026-01-15T00:00:00.000Z');
+      expect(events[1]).toMatchObject({ allDay: true, start: new Date('2026-01-14T15:00:00Z'), end: new Date('2026-01-15T15:00:00Z') });
+    });
+
+    it('unfolds lines and reads quoted parameters and multiple EXDATEs', () => {
+      const { events, name } = parseICal(
+        wrap(
+          'X-WR-CALNAME:Team\\, shared',
+          'BEGIN:VEVENT',
+          'UID:1',
+          'SUMMARY:Planning with a very long title that a client folded',
+          '  onto two lines',
+          'DTSTART:20260105T150000Z',
+          'RRULE:FREQ=DAILY;COUNT=5',
+          'EXDATE:20260106T150000Z,20260107T150000Z',
+          'ATTENDEE;CN="Lee: Design";PARTSTAT=TENTATIVE:MAILTO:lee@example.com',
+          'END:VEVENT'
+        )
+      );
+
+      expect(name).toBe('Team, shared');
+      expect(events[0].summary).toBe('Planning with a very long title that a client folded onto two lines');
+      expect(events[0].exdates).toHaveLength(2);
+      expect(events[0].attendees).toEqual([{ email: 'lee@example.com', name: 'Lee: Design', status: 'TENTATIVE' }]);
+    });
+
+    it('skips events without a start', () => {
+      expect(parseICal(wrap('BEGIN:VEVENT', 'UID:1', 'SUMMARY:Broken', 'END:VEVENT')).events).toEqual([]);
+    });
+  });
+
+  it('turns webcal links into https', () => {
+    expect(normalizeICalUrl(' webcal://example.com/feed.ics ')).toBe('https://example.com/feed.ics');
+  });
+});
@@ -130,6 +130,19 @@ describe('route-calculations', () => {
       const time = estimateTravelTime(3);
       expect(time).toBe(8); // ceil(3 / 25 * 60) = ceil(7.2) = 8
     });
+
+    it('should walk at 3 mph and bike at 10 mph along streets', () => {
+      // 2 miles straight line = 2.5 street miles
+      expect(estimateTravelTime(2, 'walk')).toBe(50);
+      expect(estimateTravelTime(2, 'bike')).toBe(15);
+    });
+
+    it('should add stop access and waiting to transit, and walk short trips', () => {
+      // 15 min access + 12.5 street miles at 15 mph (50 min)
+      expect(estimateTravelTime(10, 'transit')).toBe(65);
+      // Walking 0.2 miles beats waiting for a bus
+      expect(estimateTravelTime(0.2, 'transit')).toBe(estimateTravelTime(0.2, 'walk'));
+    });
   });
 
   describe('formatDistance', () => {
@@ -0,0 +1,127 @@
+/**
+ * Timezone Utility — Unit Tests
+ *
+ * Tests cover:
+ * - Wall-clock parts and offsets in a zone other than the device's
+ * - Resolving wall-clock times across DST transitions (gaps and overlaps)
+ * - Day math (start of day, adding days) on 23- and 25-hour days
+ * - Zone fallbacks
+ */
+
+import {
+  addZonedDays,
+  formatZonedDateKey,
+  getTimezoneOffsetMinutes,
+  getZonedMinutesOfDay,
+  getZonedParts,
+  isSameZonedDay,
+  isValidTimezone,
+  resolveTimezone,
+  setZonedTime,
+  startOfZonedDay,
+  zonedTimeToUtc,
+} from '@/utils/timezone';
+
+const NEW_YORK = 'America/New_York';
+const TOKYO = 'Asia/Tokyo';
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('timezone utils', () => {
+  describe('zones', () => {
+    it('validates IANA zones', () => {
+      expect(isValidTimezone(NEW_YORK)).toBe(true);
+      expect(isValidTimezone('Mars/Olympus')).toBe(false);
+      expect(isValidTimezone(null)).toBe(false);
+    });
+
+    it('resolves the first valid zone, then the device zone', () => {
+      expect(resolveTimezone(null, 'Mars/Olympus', TOKYO)).toBe(TOKYO);
+      expect(resolveTimezone(undefined)).toBe(Intl.DateTimeFormat().resolvedOptions().timeZone);
+    });
+  });
+
+  describe('getZonedParts', () => {
+    it('reads the wall clock in the zone, not the device', () => {
+      // 03:30 UTC Saturday is Friday evening in New York and Saturday noon in Tokyo
+      const instant = new Date('2026-01-17T03:30:00Z');
+
+      expect(getZonedParts(instant, NEW_YORK)).toEqual({ year: 2026, month: 1, day: 16, hour: 22, minute: 30, weekday: 5 });
+      expect(getZonedParts(instant, TOKYO)).toEqual({ year: 2026, month: 1, day: 17, hour: 12, minute: 30, weekday: 6 });
+    });
+
+    it('falls back to UTC for an unknown zone', () => {
+      expect(getZonedParts(new Date('2026-01-17T03:30:00Z'), 'Mars/Olympus')).toMatchObject({ day: 17, hour: 3 });
+    });
+
+    it('reports offsets on either side of DST', () => {
+      expect(getTimezoneOffsetMinutes(new Date('2026-01-15T12:00:00Z'), NEW_YORK)).toBe(-300);
+      expect(getTimezoneOffsetMinutes(new Date('2026-07-15T12:00:00Z'), NEW_YORK)).toBe(-240);
+      expect(getTimezoneOffsetMinutes(new Date('2026-07-15T12:00:00Z'), TOKYO)).toBe(540);
+    });
+  });
+
+  describe('zonedTimeToUtc across DST', () => {
+    it('resolves ordinary times', () => {
+      expect(zonedTimeToUtc({ year: 2026, month: 3, day: 7, hour: 9 }, NEW_YORK).toISOString()).toBe('2026-03-07T14:00:00.000Z');
+      expect(zonedTimeToUtc({ year: 2026, month: 3, day: 9, hour: 9 }, NEW_YORK).toISOString()).toBe('2026-03-09T13:00:00.000Z');
+    });
+
+    it('moves a time skipped by spring-forward past the gap', () => {
+      // Clocks jump 2:00 → 3:00 on March 8, 2026; 2:30 doesn't exist
+      const resolved = zonedTimeToUtc({ year: 2026, month: 3, day: 8, hour: 2, minute: 30 }, NEW_YORK);
+
+      expect(resolved.toISOString()).toBe('2026-03-08T07:30:00.000Z');
+      expect(getZonedParts(resolved, NEW_YORK)).toMatchObject({ hour: 3, minute: 30 });
+    });
+
+    it('picks the first of a time repeated by fall-back', () => {
+      // Clocks go 2:00 → 1:00 on November 1, 2026; 1:30 happens twice
+      const resolved = zonedTimeToUtc({ year: 2026, month: 11, day: 1, hour: 1, minute: 30 }, NEW_YORK);
+      expect(resolved.toISOString()).toBe('2026-11-01T05:30:00.000Z');
+    });
+
+    it('normalizes days past the end of the month', () => {
+      expect(zonedTimeToUtc({ year: 2026, month: 1, day: 32, hour: 8 }, TOKYO).toISOString()).toBe('2026-01-31T23:00:00.000Z');
+    });
+  });
+
+  describe('day math', () => {
+    it('finds local midnight in the zone', () => {
+      const instant = new Date('2026-01-17T03:30:00Z');
+
+      expect(startOfZonedDay(instant, NEW_YORK).toISOString()).toBe('2026-01-16T05:00:00.000Z');
+      expect(startOfZonedDay(instant, TOKYO).toISOString()).toBe('2026-01-16T15:00:00.000Z');
+    });
+
+    it('has 23- and 25-hour days at the DST changes', () => {
+      const springDay = startOfZonedDay(new Date('2026-03-08T15:00:00Z'), NEW_YORK);
+      const fallDay = startOfZonedDay(new Date('2026-11-01T15:00:00Z'), NEW_YORK);
+
+      expect(addZonedDays(springDay, 1, NEW_YORK).getTime() - springDay.getTime()).toBe(23 * HOUR_MS);
+      expect(addZonedDays(fallDay, 1, NEW_YORK).getTime() - fallDay.getTime()).toBe(25 * HOUR_MS);
+    });
+
+    it('keeps the wall-clock time when adding days over a DST change', () => {
+      const saturdayNine = new Date('2026-03-07T14:00:00Z'); // 9 AM EST
+      const sundayNine = addZonedDays(saturdayNine, 1, NEW_YORK);
+
+      expect(sundayNine.toISOString()).toBe('2026-03-08T13:00:00.000Z'); // 9 AM EDT
+      expect(getZonedMinutesOfDay(sundayNine, NEW_YORK)).toBe(9 * 60);
+    });
+
+    it('sets a time of day on the zoned day', () => {
+      expect(setZonedTime(new Date('2026-03-08T04:00:00Z'), 7, 0, NEW_YORK).toISOString()).toBe('2026-03-07T12:00:00.000Z');
+    });
+
+    it('compares and keys days in the zone', () => {
+      const lateFriday = new Date('2026-01-17T03:30:00Z');
+      const saturdayMorning = new Date('2026-01-17T16:00:00Z'); // Already Sunday in Tokyo
+
+      expect(isSameZonedDay(lateFriday, saturdayMorning, NEW_YORK)).toBe(false);
+      expect(isSameZonedDay(lateFriday, saturdayMorning, TOKYO)).toBe(false);
+      expect(isSameZonedDay(lateFriday, saturdayMorning, 'UTC')).toBe(true);
+      expect(formatZonedDateKey(lateFriday, NEW_YORK)).toBe('2026-01-16');
+      expect(formatZonedDateKey(lateFriday, TOKYO)).toBe('2026-01-17');
+    });
+  });
+});
@@ -13,6 +13,7 @@ import { SearchIcon } from '@/components/icons/search-icon';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { useTabNotifications } from '@/contexts/tab-notifications-context';
 import { useMessagesUnread } from '@/hooks/use-messages-unread';
+import { useLocationSharing } from '@/hooks/use-location-sharing';
 import { useAuth } from '@/contexts/auth-context';
 
 export default function TabLayout() {
@@ -20,6 +21,7 @@ export default function TabLayout() {
   const { hasNewRecommendations, notifications } = useTabNotifications();
   const { user } = useAuth();
   const messagesUnread = useMessagesUnread();
+  useLocationSharing();
 
   // Get user's first name for Profile tab
   const firstName = user?.name?.split(' ')[0] || 'Profile';
@@ -20,11 +20,20 @@ import { Ionicons } from '@expo/vector-icons';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { ThemeColors, BrandColors, Spacing, BorderRadius, Typography, Shadows } from '@/constants/brand';
 import { useAuth } from '@/contexts/auth-context';
-import { getBusinessAnalytics } from '@/services/business-service';
+import { getBusinessAnalytics, getSponsoredSlotStats } from '@/services/business-service';
+import type { SponsoredSlotStats, SlotReason } from '@/services/sponsored-slots';
 import type { BusinessDailyAnalytics } from '@/types/database';
 
 type TimePeriod = 7 | 14 | 30;
 
+const SLOT_LOSS_LABELS: Partial<Record<SlotReason, string>> = {
+  frequency_cap: 'User already saw you recently',
+  position_cap: 'Sponsored slots were full',
+  spacing: 'Too close to another sponsor',
+  tier_position: 'Slot reserved for a higher tier',
+  below_fold: 'Ranked below the visible feed',
+};
+
 export default function AnalyticsScreen() {
   const colorScheme = useColorScheme() ?? 'light';
   const colors = ThemeColors[colorScheme];
@@ -35,6 +44,7 @@ export default function AnalyticsScreen() {
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [timePeriod, setTimePeriod] = useState<TimePeriod>(30);
+  const [slotStats, setSlotStats] = useState<SponsoredSlotStats | null>(null);
 
   const loadData = useCallback(async () => {
     if (!businessProfile) {
@@ -45,6 +55,10 @@ export default function AnalyticsScreen() {
     try {
       const data = await getBusinessAnalytics(businessProfile.id, timePeriod);
       setAnalytics(data);
+
+      if (businessProfile.google_place_id && businessProfile.business_tier !== 'organic') {
+        setSlotStats(await getSponsoredSlotStats(businessProfile.google_place_id, timePeriod));
+      }
     } catch (error) {
       console.error('Error loading analytics:', error);
     } finally {
@@ -170,6 +184,29 @@ export default function AnalyticsScreen() {
           )}
         </View>
 
+        {/* Sponsored Placement */}
+        {slotStats && slotStats.totalDecisions > 0 && (
+          <>
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>Sponsored Placement</Text>
+            <View style={[styles.insightCard, { backgroundColor: colors.cardBackground, ...Shadows.sm }]}>
+              <View style={styles.insightRow}>
+                <Ionicons name="trophy" size={18} color={BrandColors.loopBlue} />
+                <Text style={[styles.insightText, { color: colors.text }]}>
+                  Won {slotStats.won + slotStats.demoted} of {slotStats.totalDecisions} sponsored slots ({slotStats.winRate}%)
+                </Text>
+              </View>
+              {Object.entries(slotStats.lossReasons).map(([reason, count]) => (
+                <View key={reason} style={styles.insightRow}>
+                  <Ionicons name="remove-circle-outline" size={18} color={colors.textSecondary} />
+                  <Text style={[styles.insightText, { color: colors.textSecondary }]}>
+                    {SLOT_LOSS_LABELS[reason as SlotReason] ?? reason}: {count}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          </>
+        )}
+
         {/* Impressions Chart */}
         <Text style={[styles.sectionTitle, { color: colors.text }]}>Daily Impressions</Text>
         {analytics.length > 0 ? (
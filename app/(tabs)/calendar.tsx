@@ -13,6 +13,7 @@ import {
   TouchableWithoutFeedback,
   KeyboardAvoidingView,
   Dimensions,
+  Share,
 } from 'react-native';
 import Reanimated, {
   FadeIn,
@@ -83,6 +84,14 @@ import { MomentCaptureModal } from '@/components/moment-capture-modal';
 import { FeedbackCardStack } from '@/components/feedback-card-stack';
 import { getCurrentLocation } from '@/services/location-service';
 import { parseLocation } from '@/utils/location-parser';
+import { getDeviceTimezone } from '@/utils/timezone';
+import { buildPresetRRule, describeRecurrence, type RepeatPreset } from '@/services/recurrence';
+import {
+  deleteRecurringEvent,
+  fetchCalendarEventsInRange,
+  updateRecurringEvent,
+  type RecurrenceEditScope,
+} from '@/services/recurring-events';
 import {
   getPendingFeedbackActivities,
   getPastEventsNeedingFeedback,
@@ -96,9 +105,19 @@ import {
   checkCalendarPermissions,
   fetchCalendarEventsForPreview,
   syncSelectedEventsWithProgress,
+  syncCalendarToDatabase,
+  resolveCalendarSyncConflict,
   CalendarEventPreview,
   SyncProgressInfo,
 } from '@/services/calendar-service';
+import type { CalendarSyncConflict } from '@/services/calendar-sync';
+import {
+  getCalendarFeedUrl,
+  importICSFromUrl,
+  importICSText,
+  rotateCalendarFeedToken,
+} from '@/services/ical-service';
+import { ShareBottomSheet } from '@/components/share-bottom-sheet';
 import { trackActivityAdded } from '@/utils/analytics';
 
 interface CalendarEvent {
@@ -115,6 +134,9 @@ interface CalendarEvent {
   end_time: string;
   status: 'scheduled' | 'completed' | 'cancelled';
   activity_id?: string; // Present if task came from a recommendation
+  recurrence_rule?: string | null;
+  recurrence_parent_id?: string | null;
+  recurrence_series_id?: string; // Present on occurrences of a recurring event
 }
 
 // Venue details for tasks that originated from recommendations
@@ -138,6 +160,52 @@ const CATEGORIES = [
   { id: 'other', label: 'Other', icon: 'ellipsis-horizontal', color: CategoryColors.other },
 ];
 
+const REPEAT_OPTIONS: { id: RepeatPreset; label: string }[] = [
+  { id: 'none', label: 'Never' },
+  { id: 'daily', label: 'Daily' },
+  { id: 'weekdays', label: 'Weekdays' },
+  { id: 'weekly', label: 'Weekly' },
+  { id: 'biweekly', label: 'Every 2 weeks' },
+  { id: 'monthly', label: 'Monthly' },
+];
+
+const isRecurringEvent = (event: CalendarEvent) => !!(event.recurrence_series_id || event.recurrence_parent_id);
+
+/** Ask whether a change to a recurring event applies to this occurrence or all future ones */
+const askRecurrenceScope = (title: string): Promise<RecurrenceEditScope | null> =>
+  new Promise((resolve) => {
+    Alert.alert(title, 'This is a repeating event.', [
+      { text: 'This event', onPress: () => resolve('this') },
+      { text: 'All future events', onPress: () => resolve('future') },
+      { text: 'Cancel', style: 'cancel', onPress: () => resolve(null) },
+    ], { cancelable: true, onDismiss: () => resolve(null) });
+  });
+
+// Ask which version to keep for events edited in Loop and the device calendar, one at a time
+function promptCalendarConflicts(userId: string, conflicts: CalendarSyncConflict[], onResolved: () => void) {
+  const [conflict, ...rest] = conflicts;
+  if (!conflict) return;
+
+  const keep = (side: 'loop' | 'device') => {
+    resolveCalendarSyncConflict(userId, conflict.eventId, side).then(() => {
+      onResolved();
+      promptCalendarConflicts(userId, rest, onResolved);
+    });
+  };
+
+  Alert.alert(
+    'Changed in Two Places',
+    conflict.device
+      ? `"${conflict.title}" was edited in Loop and in your calendar. Which version should we keep?`
+      : `"${conflict.title}" was edited in Loop but deleted from your calendar. Which should we keep?`,
+    [
+      { text: 'Decide Later', style: 'cancel', onPress: () => promptCalendarConflicts(userId, rest, onResolved) },
+      { text: conflict.device ? "Calendar's" : 'Delete It', onPress: () => keep('device') },
+      { text: "Loop's", onPress: () => keep('loop') },
+    ]
+  );
+}
+
 // Map Google place types to calendar categories
 function getCategoryFromPlaceTypes(types: string[]): string {
   if (!types || types.length === 0) return 'personal';
@@ -531,6 +599,7 @@ export default function CalendarScreen() {
   const [newTaskTitle, setNewTaskTitle] = useState('');
   const [newTaskDescription, setNewTaskDescription] = useState('');
   const [newTaskCategory, setNewTaskCategory] = useState('personal');
+  const [newTaskRepeat, setNewTaskRepeat] = useState<RepeatPreset>('none');
   const [newTaskDate, setNewTaskDate] = useState(new Date());
   const [newTaskTime, setNewTaskTime] = useState(new Date());
   const [newTaskEndTime, setNewTaskEndTime] = useState(() => {
@@ -600,6 +669,12 @@ export default function CalendarScreen() {
   const [syncPreviewEvents, setSyncPreviewEvents] = useState<CalendarEventPreview[]>([]);
   const [isLoadingPreview, setIsLoadingPreview] = useState(false);
 
+  // .ics import/export state
+  const [showDayExport, setShowDayExport] = useState(false);
+  const [showIcsImport, setShowIcsImport] = useState(false);
+  const [icsImportInput, setIcsImportInput] = useState('');
+  const [isImportingIcs, setIsImportingIcs] = useState(false);
+
   // Month transition animation (reanimated shared value)
   const calendarOpacity = useSharedValue(1);
   const calendarAnimatedStyle = useAnimatedStyle(() => ({
@@ -771,7 +846,7 @@ export default function CalendarScreen() {
   // Select/deselect all events
   const toggleAllEvents = (selected: boolean) => {
     setSyncPreviewEvents(prev =>
-      prev.map(event => ({ ...event, selected: event.hasLocation ? selected : false }))
+      prev.map(event => ({ ...event, selected }))
     );
   };
 
@@ -857,16 +932,11 @@ export default function CalendarScreen() {
       const startOfDay = new Date(`${selectedDate}T00:00:00`);
       const endOfDay = new Date(`${selectedDate}T23:59:59`);
 
-      const { data, error } = await supabase
-        .from('calendar_events')
-        .select('*')
-        .eq('user_id', user.id)
-        .gte('start_time', startOfDay.toISOString())
-        .lte('start_time', endOfDay.toISOString())
-        .order('start_time', { ascending: true });
+      // Recurring series come back as the day's occurrences
+      const { events: dayEvents, error } = await fetchCalendarEventsInRange(user.id, startOfDay, endOfDay, user.timezone);
 
-      if (error) throw error;
-      setEvents(data || []);
+      if (error) throw new Error(error);
+      setEvents(dayEvents as CalendarEvent[]);
 
       // Load which past events need feedback (for "How was it?" chip + card stack)
       Promise.all([
@@ -905,16 +975,10 @@ export default function CalendarScreen() {
       const startOfMonth = new Date(`${yearMonth}-01T00:00:00`);
       const endOfMonth = new Date(startOfMonth.getFullYear(), startOfMonth.getMonth() + 1, 0, 23, 59, 59);
 
-      const { data, error } = await supabase
-        .from('calendar_events')
-        .select('*')
-        .eq('user_id', user.id)
-        .gte('start_time', startOfMonth.toISOString())
-        .lte('start_time', endOfMonth.toISOString())
-        .order('start_time', { ascending: true });
+      const { events: occurrences, error } = await fetchCalendarEventsInRange(user.id, startOfMonth, endOfMonth, user.timezone);
 
-      if (error) throw error;
-      setMonthEvents(data || []);
+      if (error) throw new Error(error);
+      setMonthEvents(occurrences as CalendarEvent[]);
     } catch (error) {
       console.error('Error loading month events:', error);
     }
@@ -926,6 +990,84 @@ export default function CalendarScreen() {
     loadMonthEvents(selectedDate.slice(0, 7));
   };
 
+  // Import an .ics link (https/webcal) or pasted .ics text
+  const handleImportIcs = async () => {
+    const input = icsImportInput.trim();
+    if (!user || !input) return;
+
+    setIsImportingIcs(true);
+    const result = /^(https?|webcal):\/\//i.test(input)
+      ? await importICSFromUrl(user.id, input, user.timezone)
+      : await importICSText(user.id, input, user.timezone);
+    setIsImportingIcs(false);
+
+    if (result.error) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('Import Failed', result.error);
+      return;
+    }
+
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    setShowIcsImport(false);
+    setIcsImportInput('');
+    reloadAfterMutation();
+    const parts = [`${result.imported} new`, `${result.updated} updated`];
+    if (result.skipped > 0) parts.push(`${result.skipped} already in Loop`);
+    Alert.alert('Calendar Imported', `Events: ${parts.join(', ')}.`);
+  };
+
+  // Share the secret feed URL for subscribing from Google Calendar / Outlook
+  const handleSubscribeFeed = async () => {
+    if (!user) return;
+    const url = await getCalendarFeedUrl(user.id);
+    if (!url) {
+      Alert.alert('Error', 'Could not load your calendar link. Please try again.');
+      return;
+    }
+
+    Alert.alert(
+      'Subscribe to Loop',
+      'Add this link as a calendar subscription ("From URL" in Google Calendar, "Subscribe from web" in Outlook). Anyone with the link can see your Loop calendar.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reset Link',
+          style: 'destructive',
+          onPress: async () => {
+            const newUrl = await rotateCalendarFeedToken();
+            Alert.alert(
+              newUrl ? 'Link Reset' : 'Error',
+              newUrl ? 'Existing subscriptions stopped updating. Share the new link to subscribe again.' : 'Could not reset your calendar link.'
+            );
+          },
+        },
+        { text: 'Share Link', onPress: () => Share.share({ message: url }) },
+      ]
+    );
+  };
+
+  // Two-way device calendar sync, once per visit: imports device changes,
+  // pushes Loop edits back, and asks about events changed on both sides
+  const deviceSyncStartedRef = useRef(false);
+  useEffect(() => {
+    if (!user || user.id === 'demo-user-123' || deviceSyncStartedRef.current) return;
+    deviceSyncStartedRef.current = true;
+
+    const refresh = () => {
+      loadEvents();
+      loadFreeTime();
+    };
+
+    (async () => {
+      if (!(await checkCalendarPermissions())) return;
+      const result = await syncCalendarToDatabase(user.id);
+      if (result.eventsSynced > 0 || result.removed > 0) refresh();
+      promptCalendarConflicts(user.id, result.conflicts, refresh);
+    })().catch((err) => {
+      console.warn('[calendar] device calendar sync failed:', err?.message);
+    });
+  }, [user, loadEvents, loadFreeTime]);
+
   const onDayPress = (day: DateData) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     setSelectedDate(day.dateString);
@@ -951,6 +1093,7 @@ export default function CalendarScreen() {
     setNewTaskTitle('');
     setNewTaskDescription('');
     setNewTaskCategory('personal');
+    setNewTaskRepeat('none');
     setNewTaskDate(new Date());
     setNewTaskTime(new Date());
     const defaultEndTime = new Date();
@@ -1033,6 +1176,8 @@ export default function CalendarScreen() {
         address: newTaskAddress,
         start_time: startDateTime.toISOString(),
         end_time: endDateTime.toISOString(),
+        timezone: getDeviceTimezone(),
+        recurrence_rule: buildPresetRRule(newTaskRepeat, startDateTime, getDeviceTimezone()),
         status: 'scheduled' as const,
         source: 'manual' as const,
       } as any);
@@ -1123,21 +1268,32 @@ export default function CalendarScreen() {
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
     try {
-      const { error } = await supabase
-        .from('calendar_events')
-        .update({
-          title: editingEvent.title,
-          description: editingEvent.description || null,
-          category: editingEvent.category as any,
+      const updates = {
+        title: editingEvent.title,
+        description: editingEvent.description || null,
+        category: editingEvent.category as any,
+        // Busy blocks imported from the device calendar have no location
+        ...(editingEvent.location && {
           location: `POINT(${editingEvent.location.longitude} ${editingEvent.location.latitude})`,
-          address: editingEvent.address,
-          start_time: editingEvent.start_time,
-          end_time: editingEvent.end_time,
-          updated_at: new Date().toISOString(),
-        } as any)
-        .eq('id', editingEvent.id);
+        }),
+        address: editingEvent.address,
+        start_time: editingEvent.start_time,
+        end_time: editingEvent.end_time,
+      };
+
+      if (isRecurringEvent(editingEvent)) {
+        const scope = await askRecurrenceScope('Save changes');
+        if (!scope) return;
+        const result = await updateRecurringEvent(editingEvent as any, updates as any, scope);
+        if (!result.success) throw new Error(result.error);
+      } else {
+        const { error } = await supabase
+          .from('calendar_events')
+          .update({ ...updates, updated_at: new Date().toISOString() } as any)
+          .eq('id', editingEvent.id);
 
-      if (error) throw error;
+        if (error) throw error;
+      }
 
       Alert.alert('Success', 'Updated successfully!');
       setShowEditModal(false);
@@ -1149,6 +1305,24 @@ export default function CalendarScreen() {
     }
   };
 
+  /** Delete an event; for a repeating one, asks which occurrences go */
+  const deleteEvent = async (event: CalendarEvent) => {
+    if (isRecurringEvent(event)) {
+      const scope = await askRecurrenceScope('Remove repeating event');
+      if (!scope) return;
+      const result = await deleteRecurringEvent(event as any, scope);
+      if (!result.success) throw new Error(result.error);
+      return;
+    }
+
+    const { error } = await supabase
+      .from('calendar_events')
+      .delete()
+      .eq('id', event.id);
+
+    if (error) throw error;
+  };
+
   const handleDeleteEvent = async () => {
     if (!editingEvent) return;
 
@@ -1167,12 +1341,7 @@ export default function CalendarScreen() {
             Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
             try {
-              const { error } = await supabase
-                .from('calendar_events')
-                .delete()
-                .eq('id', editingEvent.id);
-
-              if (error) throw error;
+              await deleteEvent(editingEvent);
 
               Alert.alert('Success', 'Removed from your Loop');
               setShowEditModal(false);
@@ -1206,12 +1375,8 @@ export default function CalendarScreen() {
             Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
 
             try {
-              const { error } = await supabase
-                .from('calendar_events')
-                .delete()
-                .eq('id', eventId);
-
-              if (error) throw error;
+              const event = events.find((e) => e.id === eventId);
+              if (event) await deleteEvent(event);
 
               reloadAfterMutation();
             } catch (error) {
@@ -1932,12 +2097,93 @@ export default function CalendarScreen() {
                   </View>
                   <Ionicons name="chevron-forward" size={18} color={colors.icon} />
                 </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.addOptionRow}
+                  onPress={() => {
+                    setShowAddOptions(false);
+                    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                    setShowIcsImport(true);
+                  }}
+                  activeOpacity={0.7}
+                  accessibilityRole="button"
+                  accessibilityLabel="Import Calendar File"
+                  accessibilityHint="Add events from an .ics file or link"
+                >
+                  <View style={[styles.addOptionIcon, { backgroundColor: BrandColors.loopOrange + '15' }]}>
+                    <Ionicons name="download-outline" size={22} color={BrandColors.loopOrange} />
+                  </View>
+                  <View style={styles.addOptionText}>
+                    <Text style={[Typography.labelLarge, { color: colors.text }]}>Import Calendar File</Text>
+                    <Text style={[Typography.bodySmall, { color: colors.icon }]}>Add events from an .ics file or link</Text>
+                  </View>
+                  <Ionicons name="chevron-forward" size={18} color={colors.icon} />
+                </TouchableOpacity>
               </View>
             </TouchableWithoutFeedback>
           </View>
         </TouchableWithoutFeedback>
       </Modal>
 
+      {/* Import .ics Sheet */}
+      <Modal visible={showIcsImport} animationType="fade" transparent={true}>
+        <TouchableWithoutFeedback onPress={() => !isImportingIcs && setShowIcsImport(false)}>
+          <KeyboardAvoidingView
+            style={styles.modalOverlay}
+            behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+          >
+            <TouchableWithoutFeedback>
+              <View style={styles.addOptionsSheetGlass}>
+                {Platform.OS === 'ios' && (
+                  <BlurView
+                    intensity={80}
+                    tint={isDark ? 'dark' : 'light'}
+                    style={StyleSheet.absoluteFill}
+                  />
+                )}
+                <View style={[StyleSheet.absoluteFill, {
+                  backgroundColor: isDark ? 'rgba(10,10,10,0.85)' : 'rgba(242,242,247,0.85)',
+                }]} />
+                <View style={styles.addOptionsHandle} />
+                <Text style={[Typography.titleMedium, { color: colors.text }]}>Import Calendar File</Text>
+                <Text style={[Typography.bodySmall, { color: colors.icon, marginTop: Spacing.xs }]}>
+                  Paste an .ics link (https or webcal) or the contents of an .ics file.
+                </Text>
+                <TextInput
+                  style={[styles.icsImportInput, { color: colors.text, borderColor: colors.border }]}
+                  value={icsImportInput}
+                  onChangeText={setIcsImportInput}
+                  placeholder="webcal://example.com/calendar.ics"
+                  placeholderTextColor={colors.icon}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  multiline
+                  editable={!isImportingIcs}
+                />
+                <TouchableOpacity
+                  style={[styles.icsImportButton, { opacity: icsImportInput.trim() && !isImportingIcs ? 1 : 0.5 }]}
+                  onPress={handleImportIcs}
+                  disabled={!icsImportInput.trim() || isImportingIcs}
+                  accessibilityRole="button"
+                  accessibilityLabel="Import events"
+                >
+                  <Text style={[Typography.labelLarge, { color: '#ffffff' }]}>
+                    {isImportingIcs ? 'Importing...' : 'Import'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </TouchableWithoutFeedback>
+          </KeyboardAvoidingView>
+        </TouchableWithoutFeedback>
+      </Modal>
+
+      {/* Export the selected day as .ics */}
+      <ShareBottomSheet
+        visible={showDayExport}
+        onClose={() => setShowDayExport(false)}
+        recommendation={null}
+        calendarExport={{ type: 'day', date: new Date(`${selectedDate}T12:00:00`) }}
+      />
+
       {/* Create Task Drawer */}
       <AnimatedDrawer
         visible={showCreateModal}
@@ -2235,6 +2481,41 @@ export default function CalendarScreen() {
                 ))}
               </View>
 
+              {/* Repeat */}
+              <Text style={[Typography.labelLarge, styles.inputLabel, { color: Colors[colorScheme ?? 'light'].text }]}>
+                Repeat
+              </Text>
+              <View style={styles.repeatRow}>
+                {REPEAT_OPTIONS.map((option) => {
+                  const selected = newTaskRepeat === option.id;
+                  return (
+                    <TouchableOpacity
+                      key={option.id}
+                      style={[
+                        styles.repeatChip,
+                        { backgroundColor: selected ? BrandColors.loopBlue : (isDark ? BrandColors.mediumGray : BrandColors.lightBackground) },
+                      ]}
+                      onPress={() => {
+                        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                        setNewTaskRepeat(option.id);
+                      }}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Repeat ${option.label}`}
+                      accessibilityState={{ selected }}
+                    >
+                      <Text style={[Typography.labelMedium, { color: selected ? '#ffffff' : Colors[colorScheme ?? 'light'].text }]}>
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              {newTaskRepeat !== 'none' && (
+                <Text style={[Typography.bodySmall, styles.repeatSummary, { color: Colors[colorScheme ?? 'light'].textSecondary }]}>
+                  {describeRecurrence(buildPresetRRule(newTaskRepeat, newTaskDate, getDeviceTimezone()) || '')}
+                </Text>
+              )}
+
               {/* Create Button */}
               <TouchableOpacity
                 style={[styles.createButton, { backgroundColor: BrandColors.loopBlue }]}
@@ -2680,6 +2961,50 @@ export default function CalendarScreen() {
               <Ionicons name="chevron-forward" size={20} color={colors.icon} />
             </TouchableOpacity>
 
+            {/* Export Day (.ics) */}
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={() => {
+                handleCloseMenu();
+                setShowDayExport(true);
+              }}
+            >
+              <View style={[styles.menuItemIcon, { backgroundColor: `${BrandColors.loopBlue}15` }]}>
+                <Ionicons name="share-outline" size={22} color={BrandColors.loopBlue} />
+              </View>
+              <View style={styles.menuItemContent}>
+                <Text style={[Typography.labelLarge, { color: colors.text }]}>
+                  Export This Day
+                </Text>
+                <Text style={[Typography.bodySmall, { color: colors.icon }]}>
+                  Share the day as a calendar file (.ics)
+                </Text>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color={colors.icon} />
+            </TouchableOpacity>
+
+            {/* Subscription feed */}
+            <TouchableOpacity
+              style={styles.menuItem}
+              onPress={() => {
+                handleCloseMenu();
+                handleSubscribeFeed();
+              }}
+            >
+              <View style={[styles.menuItemIcon, { backgroundColor: `${BrandColors.loopGreen}15` }]}>
+                <Ionicons name="link" size={22} color={BrandColors.loopGreen} />
+              </View>
+              <View style={styles.menuItemContent}>
+                <Text style={[Typography.labelLarge, { color: colors.text }]}>
+                  Subscribe From Other Calendars
+                </Text>
+                <Text style={[Typography.bodySmall, { color: colors.icon }]}>
+                  See your Loop in Google Calendar or Outlook
+                </Text>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color={colors.icon} />
+            </TouchableOpacity>
+
             {/* Free Time (if we have slots) */}
             {freeTimeSlots.length > 0 && (
               <TouchableOpacity
@@ -2800,7 +3125,7 @@ export default function CalendarScreen() {
                   Select Events to Import
                 </Text>
                 <Text style={[Typography.bodySmall, { color: Colors[colorScheme ?? 'light'].icon, marginTop: 4 }]}>
-                  {syncPreviewEvents.filter(e => e.selected).length} of {syncPreviewEvents.filter(e => e.hasLocation).length} events selected
+                  {syncPreviewEvents.filter(e => e.selected).length} of {syncPreviewEvents.length} events selected
                 </Text>
               </View>
               <TouchableOpacity onPress={() => setShowSyncPreview(false)}>
@@ -2846,16 +3171,13 @@ export default function CalendarScreen() {
                     style={[
                       styles.syncEventItem,
                       { backgroundColor: isDark ? BrandColors.mediumGray : BrandColors.lightBackground },
-                      !event.hasLocation && styles.syncEventDisabled,
                     ]}
-                    onPress={() => event.hasLocation && toggleEventSelection(event.id)}
-                    disabled={!event.hasLocation}
+                    onPress={() => toggleEventSelection(event.id)}
                   >
                     {/* Checkbox */}
                     <View style={[
                       styles.syncCheckbox,
                       event.selected && styles.syncCheckboxChecked,
-                      !event.hasLocation && styles.syncCheckboxDisabled,
                     ]}>
                       {event.selected && (
                         <Ionicons name="checkmark" size={16} color="white" />
@@ -2867,7 +3189,7 @@ export default function CalendarScreen() {
                       <Text
                         style={[
                           Typography.labelLarge,
-                          { color: event.hasLocation ? Colors[colorScheme ?? 'light'].text : Colors[colorScheme ?? 'light'].icon },
+                          { color: Colors[colorScheme ?? 'light'].text },
                         ]}
                         numberOfLines={1}
                       >
@@ -2889,9 +3211,9 @@ export default function CalendarScreen() {
                         </View>
                       ) : (
                         <View style={styles.syncEventLocation}>
-                          <Ionicons name="warning-outline" size={12} color={BrandColors.loopOrange} />
-                          <Text style={[Typography.bodySmall, { color: BrandColors.loopOrange, marginLeft: 4 }]}>
-                            No location - cannot import
+                          <Ionicons name="time-outline" size={12} color={Colors[colorScheme ?? 'light'].icon} />
+                          <Text style={[Typography.bodySmall, { color: Colors[colorScheme ?? 'light'].icon, marginLeft: 4 }]}>
+                            No location - imported as busy time
                           </Text>
                         </View>
                       )}
@@ -3185,6 +3507,23 @@ const styles = StyleSheet.create({
     alignSelf: 'center',
     marginBottom: Spacing.lg,
   },
+  icsImportInput: {
+    minHeight: 88,
+    maxHeight: 160,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.sm,
+    marginTop: Spacing.md,
+    textAlignVertical: 'top',
+    ...Typography.bodyMedium,
+  },
+  icsImportButton: {
+    backgroundColor: BrandColors.loopBlue,
+    borderRadius: BorderRadius.full,
+    paddingVertical: Spacing.sm + 4,
+    alignItems: 'center',
+    marginTop: Spacing.md,
+  },
   addOptionRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -3253,6 +3592,20 @@ const styles = StyleSheet.create({
     gap: Spacing.sm,
     marginBottom: Spacing.md,
   },
+  repeatRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  repeatChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+  },
+  repeatSummary: {
+    marginBottom: Spacing.md,
+  },
   categoryButton: {
     width: '23%',
     aspectRatio: 1,
@@ -3560,9 +3913,6 @@ const styles = StyleSheet.create({
     borderRadius: BorderRadius.md,
     marginBottom: Spacing.sm,
   },
-  syncEventDisabled: {
-    opacity: 0.5,
-  },
   syncCheckbox: {
     width: 24,
     height: 24,
@@ -3577,9 +3927,6 @@ const styles = StyleSheet.create({
   syncCheckboxChecked: {
     backgroundColor: BrandColors.loopBlue,
   },
-  syncCheckboxDisabled: {
-    borderColor: '#ccc',
-  },
   syncEventInfo: {
     flex: 1,
   },
@@ -43,7 +43,7 @@ import { ThemeColors, Spacing, BrandColors } from '@/constants/brand';
 import { useAuth } from '@/contexts/auth-context';
 import { supabase } from '@/lib/supabase';
 import { getCurrentLocation } from '@/services/location-service';
-import { generateRecommendations, type RecommendationParams, type ScoredRecommendation } from '@/services/recommendations';
+import { recommend, type RecommendationParams, type ScoredRecommendation } from '@/services/recommendations';
 import { SeeDetailsModal } from '@/components/see-details-modal';
 import SwipeableLayout from '@/components/swipeable-layout';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
@@ -462,7 +462,7 @@ export default function ExploreScreen() {
           maxResults: 20,
           discoveryMode: 'explore',
         };
-        const results = await generateRecommendations(params);
+        const results = await recommend({ kind: 'solo', ...params });
         const filtered = results.filter((r) => {
           const name = r.place?.name?.toLowerCase() || '';
           const types = r.place?.types?.join(' ').toLowerCase() || '';
@@ -530,6 +530,7 @@ export default function ExploreScreen() {
       collaborativeScore: scored.scoreBreakdown?.collaborativeScore || 0,
       sponsorBoost: scored.scoreBreakdown?.sponsoredBoost || 0,
       finalScore: scored.score || 0,
+      signals: scored.scoreBreakdown?.signals,
     };
 
     return {
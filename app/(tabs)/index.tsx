@@ -28,9 +28,11 @@ import { NotificationsTrayModal } from '@/components/notifications-tray-modal';
 import { BlockActivityModal } from '@/components/block-activity-modal';
 import { ActivityFeedbackModal } from '@/components/activity-feedback-modal';
 import { ConflictWarningModal } from '@/components/conflict-warning-modal';
+import { WeekendPlanSheet } from '@/components/weekend-plan-sheet';
 import { type FeedFilters } from '@/components/feed-filters';
 import { analyzeCalendarSlots, matchActivityToSlots, generateDateContext } from '@/services/time-slot-engine';
-import type { DateFilterSelection, DaySlotAnalysis, CalendarEvent } from '@/types/time-slots';
+import type { DateFilterSelection, DaySlotAnalysis, CalendarEvent, WeekendPlan } from '@/types/time-slots';
+import { generateWeekendPlans, getThisWeekendRange, loadPlanningEvents, acceptWeekendPlan } from '@/services/weekend-planner';
 import { type FilterSheetFilters } from '@/components/filter-sheet';
 import { MainMenuModal } from '@/components/main-menu-modal';
 import { useMenuAnimation } from '@/contexts/menu-animation-context';
@@ -44,7 +46,7 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { BLUR_HEADER_HEIGHT } from '@/components/blur-header-wrapper';
 import SwipeableLayout from '@/components/swipeable-layout';
 import { Recommendation } from '@/types/activity';
-import { generateRecommendations, type RecommendationParams } from '@/services/recommendations';
+import { recommend, toRecommendation, type RecommendationParams } from '@/services/recommendations';
 import { useAuth } from '@/contexts/auth-context';
 import { useTabNotifications } from '@/contexts/tab-notifications-context';
 import { useRouter, useLocalSearchParams } from 'expo-router';
@@ -58,23 +60,30 @@ import { shouldShowDashboardNow, markDashboardDismissedToday } from '@/utils/das
 import { getPendingFeedbackNotificationCount, fetchDashboardNotifications } from '@/services/dashboard-aggregator';
 import { computeTabBadges } from '@/utils/notification-routing';
 import { loadRecommendationsFromDB, saveRecommendationsToDB, clearPendingRecommendations, markAsAccepted, blockActivity } from '@/services/recommendation-persistence';
+import { getCurrentTimeOfDay } from '@/services/time-preferences';
+import { buildNegativeFeedbackEntry, chainKey, recordNegativeFeedback, type NotInterestedReason } from '@/services/negative-feedback';
 import { shouldPromptForFeedback, submitFeedback, getRecommendationIdForActivity, getPendingFeedbackActivities, getPastEventsNeedingFeedback } from '@/services/feedback-service';
 import { recordActivity } from '@/services/gamification-service';
 import { getBatchCommentCounts } from '@/services/comments-service';
-import { checkTimeConflict, canMakeItOnTime } from '@/services/calendar-service';
+import { checkTimeConflict, canMakeItOnTime, mapCategoryToDBCategory } from '@/services/calendar-service';
 import { ShareBottomSheet } from '@/components/share-bottom-sheet';
 import { InsightsNudge } from '@/components/insights-nudge';
 import { RadarAlertCard } from '@/components/radar-alert-card';
+import { RadarDigestCard } from '@/components/radar-digest-card';
 import { INSIGHTS_LIMIT } from '@/types/subscription';
 import { LinearGradient } from 'expo-linear-gradient';
 import {
   getPendingRadarAlerts,
+  getPendingRadarDigest,
+  updateRadarDigestStatus,
   notificationToRadarMatch,
   markNotificationViewed,
   markNotificationDismissed,
+  reportRadarFalsePositive,
   MAX_RADAR_CARDS_PER_SESSION,
 } from '@/services/radar-service';
-import type { HookNotification, RadarMatch } from '@/types/radar';
+import { setEventPriceThreshold } from '@/services/radar-watch-service';
+import type { HookNotification, RadarDigest, RadarMatch } from '@/types/radar';
 import type { HotDrop } from '@/types/hot-drop';
 import { FEATURE_FLAGS } from '@/constants/feature-flags';
 import { AddRadarSheet, type RadarPrefillData } from '@/components/add-radar-sheet';
@@ -87,23 +96,10 @@ import { ScreenErrorBoundary } from '@/components/error-boundary';
 // Type for lat/lng coordinates
 type PlaceLocation = { lat: number; lng: number };
 
-/** Extract lat/lng from a scored place with multiple fallbacks */
-function getPlaceCoords(place: any): { lat: number; lng: number } {
-  // Primary: geometry.location (Google Places standard)
-  if (place.geometry?.location?.lat != null && place.geometry?.location?.lng != null) {
-    return { lat: place.geometry.location.lat, lng: place.geometry.location.lng };
-  }
-  // Fallback: direct lat/lng from cache columns
-  if (place.lat != null && place.lng != null) {
-    return { lat: place.lat, lng: place.lng };
-  }
-  // Fallback: underscore-prefixed from cache manager
-  if (place._latitude != null && place._longitude != null) {
-    return { lat: place._latitude, lng: place._longitude };
-  }
-  // Last resort: 0,0 (map won't render but won't crash)
-  return { lat: 0, lng: 0 };
-}
+// Feed cards: recommendations plus the radar cards injected above them
+type RadarAlertFeedItem = Recommendation & { cardType: 'radar_alert'; _radarNotification: HookNotification };
+type RadarDigestFeedItem = Recommendation & { cardType: 'radar_digest'; _radarDigest: RadarDigest };
+type FeedItem = Recommendation | RadarAlertFeedItem | RadarDigestFeedItem;
 
 // ============================================================================
 // MOCK DATA FOR PHASE 2: Group & Friend Activity Features (Demo)
@@ -204,7 +200,7 @@ const USE_SHIMMER_FOR_REFRESH = true;
 
 // Memoized FeedList component to prevent re-renders from parent state changes
 interface FeedListProps {
-  data: Recommendation[];
+  data: FeedItem[];
   renderItem: any;
   flatListRef: any;
   handleScroll: any;
@@ -384,7 +380,7 @@ const FeedList = memo(
 FeedList.displayName = 'FeedList';
 
 export default function RecommendationFeedScreen() {
-  const { user } = useAuth();
+  const { user, updateAIProfile } = useAuth();
   const { setHasNewRecommendations, applyBadges } = useTabNotifications();
   const router = useRouter();
   const colorScheme = useColorScheme();
@@ -627,6 +623,11 @@ export default function RecommendationFeedScreen() {
   const [dateFilter, setDateFilter] = useState<DateFilterSelection>({ date: null, quickLabel: null });
   const [daySlotAnalysis, setDaySlotAnalysis] = useState<DaySlotAnalysis | null>(null);
 
+  // Weekend plan sheet state
+  const [showWeekendPlans, setShowWeekendPlans] = useState(false);
+  const [weekendPlans, setWeekendPlans] = useState<WeekendPlan[]>([]);
+  const [weekendPlansLoading, setWeekendPlansLoading] = useState(false);
+
   // History modal state
   const [showHistory, setShowHistory] = useState(false);
 
@@ -700,6 +701,7 @@ export default function RecommendationFeedScreen() {
 
   // Radar alerts state
   const [radarAlerts, setRadarAlerts] = useState<HookNotification[]>([]);
+  const [radarDigest, setRadarDigest] = useState<RadarDigest | null>(null);
   const radarAlertsFetched = useRef(false);
 
   // Add to Radar sheet state (from card action menu)
@@ -727,7 +729,6 @@ export default function RecommendationFeedScreen() {
   const lastLoadMoreTime = useRef<number>(0); // Timestamp of last load more call (cooldown)
   const searchRadiusRef = useRef<number>(10); // Track current search radius synchronously for infinite scroll
   const feedExhaustedRef = useRef<boolean>(false); // Track if feed is exhausted synchronously
-  const locationUpdatedThisSession = useRef<boolean>(false); // Throttle location updates to once per session
 
   // Viewability config for tracking first card
   const viewabilityConfig = useRef({
@@ -918,7 +919,7 @@ export default function RecommendationFeedScreen() {
     const subscriptionTier = dailyLimitInfo?.subscriptionTier ?? 'free';
     const isPlus = subscriptionTier === 'plus';
 
-    const items: Recommendation[] = [];
+    const items: FeedItem[] = [];
     let sponsoredInFirstTen = 0;
 
     filteredRecommendations.forEach((r, i) => {
@@ -937,7 +938,7 @@ export default function RecommendationFeedScreen() {
 
     // Inject radar alert cards at the top of the feed (max 3)
     if (FEATURE_FLAGS.ENABLE_RADAR && radarAlerts.length > 0) {
-      const radarCards: Recommendation[] = radarAlerts
+      const radarCards: RadarAlertFeedItem[] = radarAlerts
         .slice(0, MAX_RADAR_CARDS_PER_SESSION)
         .map((alert, i) => ({
           id: `radar-alert-${alert.id}`,
@@ -954,11 +955,31 @@ export default function RecommendationFeedScreen() {
           showInsights: false,
           radarMatch: notificationToRadarMatch(alert),
           _radarNotification: alert,
-        } as Recommendation & { _radarNotification: HookNotification }));
+        }));
 
       items.splice(0, 0, ...radarCards);
     }
 
+    // Inject the radar digest card (bundled alerts) above individual alerts
+    if (FEATURE_FLAGS.ENABLE_RADAR && radarDigest) {
+      const digestCard: RadarDigestFeedItem = {
+        id: `radar-digest-${radarDigest.id}`,
+        cardType: 'radar_digest' as const,
+        title: radarDigest.title,
+        category: '',
+        location: '',
+        distance: '',
+        priceRange: 0,
+        rating: 0,
+        imageUrl: '',
+        aiExplanation: '',
+        isSponsored: false,
+        showInsights: false,
+        _radarDigest: radarDigest,
+      };
+      items.splice(0, 0, digestCard);
+    }
+
     // Inject hot drop cards (max 1, at position 2)
     if (FEATURE_FLAGS.ENABLE_HOT_DROPS && hotDrops.length > 0) {
       const hotDropCard: Recommendation = {
@@ -999,7 +1020,7 @@ export default function RecommendationFeedScreen() {
     }
 
     return items;
-  }, [filteredRecommendations, dailyLimitInfo, upgradeDismissed, radarAlerts, hotDrops]);
+  }, [filteredRecommendations, dailyLimitInfo, upgradeDismissed, radarAlerts, radarDigest, hotDrops]);
 
   // Sync refs with state for synchronous access in callbacks (avoid stale closures)
   useEffect(() => {
@@ -1076,8 +1097,8 @@ export default function RecommendationFeedScreen() {
       // No recommendations in database - generate fresh ones (will seed city cache if needed)
       console.log('📭 No recommendations in database - generating fresh recommendations...');
 
-      // Import generateRecommendations
-      const { generateRecommendations } = await import('@/services/recommendations');
+      // Import the recommendation engine
+      const { recommend, toRecommendation } = await import('@/services/recommendations');
       const { detectUserCityWithFallback } = await import('@/services/city-detection');
 
       try {
@@ -1088,18 +1109,6 @@ export default function RecommendationFeedScreen() {
           lng: location.longitude,
         };
 
-        // Update user's current_location in Supabase (once per session)
-        if (!locationUpdatedThisSession.current && user.id) {
-          locationUpdatedThisSession.current = true;
-          supabase
-            .from('users')
-            .update({ current_location: `POINT(${location.longitude} ${location.latitude})` })
-            .eq('id', user.id)
-            .then(({ error }: { error: any }) => {
-              if (error) console.warn('Failed to update current_location:', error.message);
-            });
-        }
-
         // Detect city for loading message using current GPS location
         const cityInfo = await detectUserCityWithFallback(user, {
           lat: location.latitude,
@@ -1132,93 +1141,13 @@ export default function RecommendationFeedScreen() {
           discoveryMode: effectiveMode,
         };
 
-        const scored = await generateRecommendations(params);
+        const scored = await recommend({ kind: 'solo', ...params });
         console.log(`✅ Generated ${scored.length} fresh recommendations`);
 
-        // Parse neighborhood from address (e.g. "123 Main St, Deep Ellum, Dallas, TX" → "Deep Ellum")
-        const parseNeighborhood = (vicinity?: string, fullAddress?: string): string | undefined => {
-          // Vicinity is typically "123 Main St, Neighborhood" (short form)
-          const addr = fullAddress || '';
-          const parts = addr.split(',').map(p => p.trim());
-          // For US addresses: [street, neighborhood/city, state zip, country]
-          // The second part is often neighborhood or city — skip if it matches city from 3rd part
-          if (parts.length >= 3) {
-            const candidate = parts[1];
-            // Skip if it looks like a state abbreviation or zip or country
-            if (candidate && !/^\d/.test(candidate) && candidate.length > 2 && candidate !== 'USA' && candidate !== 'US') {
-              // If we have 4+ parts, parts[1] is often neighborhood (parts[2] is "City" or "State Zip")
-              if (parts.length >= 4) return candidate;
-            }
-          }
-          // Fallback: try vicinity (often "Street, Area")
-          if (vicinity) {
-            const vicParts = vicinity.split(',').map(p => p.trim());
-            if (vicParts.length >= 2) return vicParts[vicParts.length - 1];
-          }
-          return undefined;
-        };
-
         // Convert to Recommendation format
-        const freshRecommendations: Recommendation[] = scored.map((s, index) => ({
-          id: s.place.place_id || `rec-${index}`,
-          title: s.place.name,
-          category: s.category,
-          location: s.place.vicinity || s.place.formatted_address || 'Unknown location',
-          neighborhood: parseNeighborhood(s.place.vicinity, s.place.formatted_address),
-          distance: `${s.distance.toFixed(1)} mi`,
-          priceRange: s.place.price_level || 2,
-          rating: s.place.rating || 0,
-          imageUrl: s.photoUrl || '',
-          photos: s.photoUrls,
-          photoReferences: s.place.photos?.map(p => p.photo_reference).filter(Boolean),
-          aiExplanation: s.aiExplanation,
-          description: s.place.description,
-          openNow: s.place.opening_hours?.open_now,
-          isSponsored: s.isSponsored,
-          score: s.score,
-          businessHours: s.businessHours,
-          hasEstimatedHours: s.hasEstimatedHours,
-          suggestedTime: s.suggestedTime,
-          event_metadata: s.place.event_metadata,
-          isCurated: !!(s.place as any)?._isCurated,
-          curatorName: (s.place as any)?._curatorName,
-          scoreBreakdown: {
-            baseScore: s.scoreBreakdown.baseScore,
-            locationScore: s.scoreBreakdown.locationScore,
-            timeScore: s.scoreBreakdown.timeScore,
-            feedbackScore: s.scoreBreakdown.feedbackScore,
-            collaborativeScore: s.scoreBreakdown.collaborativeScore,
-            sponsorBoost: s.scoreBreakdown.sponsoredBoost,
-            finalScore: s.scoreBreakdown.finalScore,
-          },
-          activity: {
-            id: s.place.place_id || `act-${index}`,
-            name: s.place.name,
-            category: s.category,
-            description: s.place.description,
-            location: {
-              latitude: getPlaceCoords(s.place).lat,
-              longitude: getPlaceCoords(s.place).lng,
-              address: s.place.vicinity || s.place.formatted_address || '',
-            },
-            distance: s.distance,
-            rating: s.place.rating,
-            reviewsCount: s.place.user_ratings_total,
-            priceRange: s.place.price_level || 2,
-            photoUrl: s.photoUrl,
-            phone: s.place.formatted_phone_number,
-            website: s.place.website,
-            googlePlaceId: s.place.place_id,
-          },
-          groupContext: s.groupMemberMatches?.length ? {
-            memberMatches: s.groupMemberMatches,
-            interestMatchScore: s.scoreBreakdown.baseScore,
-            farthestMemberName: s.groupMemberMatches.reduce((f, m) =>
-              m.distanceMiles > f.distanceMiles ? m : f
-            ).name,
-            farthestMemberDistance: Math.max(...s.groupMemberMatches.map(m => m.distanceMiles)),
-          } : undefined,
-        }));
+        const freshRecommendations: Recommendation[] = scored.map((s, index) =>
+          toRecommendation(s, index, { includeNeighborhood: true })
+        );
 
         // Save to database for future loads (with discovery mode tag)
         await saveRecommendationsToDB(user.id, freshRecommendations, effectiveMode);
@@ -1316,71 +1245,12 @@ export default function RecommendationFeedScreen() {
         categories: selectedCategories.length > 0 ? selectedCategories : undefined, // Category filter
       };
 
-      console.log('✅ Params object created, calling generateRecommendations...');
-      const scored = await generateRecommendations(params);
-      console.log(`✅ generateRecommendations returned ${scored.length} results`);
+      console.log('✅ Params object created, calling recommend...');
+      const scored = await recommend({ kind: 'solo', ...params });
+      console.log(`✅ recommend returned ${scored.length} results`);
 
       // Convert ScoredRecommendation[] to Recommendation[]
-      const recommendations: Recommendation[] = scored.map((s, index) => ({
-        id: s.place.place_id || `rec-${index}`,
-        title: s.place.name,
-        category: s.category,
-        location: s.place.vicinity || s.place.formatted_address || 'Unknown location',
-        distance: `${s.distance.toFixed(1)} mi`,
-        priceRange: s.place.price_level || 2,
-        rating: s.place.rating || 0,
-        imageUrl: s.photoUrl || '',
-        photos: s.photoUrls, // Array of photos for carousel (only if 3+ photos)
-        photoReferences: s.place.photos?.map(p => p.photo_reference).filter(Boolean),
-        aiExplanation: s.aiExplanation,
-        description: s.place.description, // Editorial summary from Google Places
-        openNow: s.place.opening_hours?.open_now,
-        isSponsored: s.isSponsored,
-        isCurated: !!(s.place as any)?._isCurated,
-        curatorName: (s.place as any)?._curatorName,
-        score: s.score,
-        businessHours: s.businessHours,
-        hasEstimatedHours: s.hasEstimatedHours,
-        suggestedTime: s.suggestedTime, // Phase 1.6a: Use recommendation context time
-        event_metadata: s.place.event_metadata, // CRITICAL: Maps event data for Ticketmaster events (fixes ticket buttons + deduplication)
-        scoreBreakdown: {
-          baseScore: s.scoreBreakdown.baseScore,
-          locationScore: s.scoreBreakdown.locationScore,
-          timeScore: s.scoreBreakdown.timeScore,
-          feedbackScore: s.scoreBreakdown.feedbackScore,
-          collaborativeScore: s.scoreBreakdown.collaborativeScore,
-          sponsorBoost: s.scoreBreakdown.sponsoredBoost,
-          finalScore: s.scoreBreakdown.finalScore,
-        },
-        activity: {
-          id: s.place.place_id || `act-${index}`,
-          name: s.place.name,
-          category: s.category,
-          description: s.place.description,
-          location: {
-            latitude: getPlaceCoords(s.place).lat,
-            longitude: getPlaceCoords(s.place).lng,
-            address: s.place.vicinity || s.place.formatted_address || '',
-          },
-          distance: s.distance,
-          rating: s.place.rating,
-          reviewsCount: s.place.user_ratings_total,
-          priceRange: s.place.price_level || 2,
-          photoUrl: s.photoUrl,
-          phone: s.place.formatted_phone_number,
-          website: s.place.website,
-          googlePlaceId: s.place.place_id,
-        },
-        // Group planning context — maps groupMemberMatches to GroupContext for see-details-modal
-        groupContext: s.groupMemberMatches?.length ? {
-          memberMatches: s.groupMemberMatches,
-          interestMatchScore: s.scoreBreakdown.baseScore,
-          farthestMemberName: s.groupMemberMatches.reduce((f, m) =>
-            m.distanceMiles > f.distanceMiles ? m : f
-          ).name,
-          farthestMemberDistance: Math.max(...s.groupMemberMatches.map(m => m.distanceMiles)),
-        } : undefined,
-      }));
+      const recommendations: Recommendation[] = scored.map((s, index) => toRecommendation(s, index));
 
       console.log(`✅ Generated ${recommendations.length} recommendations`);
       console.log(`📍 First 3 places:`, recommendations.slice(0, 3).map(r => r.title));
@@ -1543,60 +1413,34 @@ export default function RecommendationFeedScreen() {
     }
   };
 
-  // Map Google Places categories to database-valid categories
-  const mapCategoryToDBCategory = (category: string): string => {
-    const categoryLower = category.toLowerCase();
-
-    // Database allows: 'work', 'personal', 'social', 'dining', 'fitness', 'entertainment', 'travel', 'other'
-    const categoryMap: Record<string, string> = {
-      // Dining
-      'restaurant': 'dining',
-      'restaurants': 'dining',
-      'cafe': 'dining',
-      'coffee': 'dining',
-      'food': 'dining',
-      'bakery': 'dining',
-      'meal_takeaway': 'dining',
-
-      // Entertainment
-      'bar': 'entertainment',
-      'bars': 'entertainment',
-      'night_club': 'entertainment',
-      'movie_theater': 'entertainment',
-      'museum': 'entertainment',
-      'art_gallery': 'entertainment',
-      'amusement_park': 'entertainment',
-      'aquarium': 'entertainment',
-      'bowling_alley': 'entertainment',
-      'casino': 'entertainment',
-      'stadium': 'entertainment',
-      'zoo': 'entertainment',
-      'live music': 'entertainment',
-      'concert': 'entertainment',
-
-      // Fitness
-      'gym': 'fitness',
-      'park': 'fitness',
-      'hiking': 'fitness',
-      'spa': 'fitness',
-      'yoga': 'fitness',
-
-      // Social
-      'shopping_mall': 'social',
-      'book_store': 'social',
-      'library': 'social',
-      'store': 'social',
-
-      // Travel
-      'lodging': 'travel',
-      'tourist_attraction': 'travel',
-      'travel_agency': 'travel',
-      'airport': 'travel',
-      'train_station': 'travel',
-      'bus_station': 'travel',
-    };
+  // Handle "not interested because…" — decaying penalty instead of a permanent block
+  const handleNotInterestedReason = async (reason: NotInterestedReason) => {
+    if (!selectedRecommendation || !user) return;
 
-    return categoryMap[categoryLower] || 'other';
+    const entry = buildNegativeFeedbackEntry(selectedRecommendation, reason, {
+      timeOfDay: getCurrentTimeOfDay(),
+    });
+
+    // Drop everything the reason covers from the current feed
+    setRecommendations(prev => prev.filter(r => {
+      if ((r.activity?.googlePlaceId || r.id) === entry.place_id) return false;
+      if (reason === 'dislike_category') return r.category.toLowerCase() !== entry.category.toLowerCase();
+      if (reason === 'dislike_chain') return chainKey(r.title) !== entry.chain;
+      return true;
+    }));
+
+    setShowBlockModal(false);
+    setSelectedRecommendation(null);
+
+    const saved = await recordNegativeFeedback(user.id, entry, updateAIProfile);
+    if (!saved) {
+      setToastMessage("Couldn't save your feedback");
+    } else if (reason === 'dislike_category' || reason === 'dislike_chain') {
+      setToastMessage('Got it. You can undo this in AI Preferences');
+    } else {
+      setToastMessage("Got it. We'll show fewer like this");
+    }
+    setShowToast(true);
   };
 
   // Handle schedule confirmation
@@ -1791,6 +1635,11 @@ export default function RecommendationFeedScreen() {
         }).catch(err => {
           console.warn('[Radar] Failed to fetch alerts:', err);
         });
+        getPendingRadarDigest(user.id).then(digest => {
+          if (isMounted && digest) setRadarDigest(digest);
+        }).catch(err => {
+          console.warn('[Radar] Failed to fetch digest:', err);
+        });
       }
 
       // Fetch hot drops for feed injection
@@ -1961,7 +1810,7 @@ export default function RecommendationFeedScreen() {
 
   // Memoized render item to prevent unnecessary re-renders
   const renderItem = useCallback(
-    ({ item, index }: { item: Recommendation; index: number }) => {
+    ({ item, index }: { item: FeedItem; index: number }) => {
       // Handle insights nudge (subtle inline upgrade card)
       if (item.cardType === 'insights_nudge') {
         const trialDaysLeft = dailyLimitInfo?.trialStatus?.isTrialing
@@ -2003,10 +1852,26 @@ export default function RecommendationFeedScreen() {
         );
       }
 
+      // Handle radar digest card
+      if (item.cardType === 'radar_digest') {
+        if (!('_radarDigest' in item)) return null;
+        const digest = item._radarDigest;
+        return (
+          <RadarDigestCard
+            digest={digest}
+            onOpen={() => updateRadarDigestStatus(digest.userId, digest.id, 'viewed')}
+            onDismiss={() => {
+              updateRadarDigestStatus(digest.userId, digest.id, 'dismissed');
+              setRadarDigest(null);
+            }}
+          />
+        );
+      }
+
       // Handle radar alert cards
       if (item.cardType === 'radar_alert') {
-        const notification = (item as any)._radarNotification as HookNotification;
-        if (!notification) return null;
+        if (!('_radarNotification' in item)) return null;
+        const notification = item._radarNotification;
         const radarMatch = item.radarMatch || notificationToRadarMatch(notification);
         return (
           <RadarAlertCard
@@ -2021,6 +1886,13 @@ export default function RecommendationFeedScreen() {
               markNotificationViewed(notification.userId, notification.id);
               Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
             }}
+            onNotWhatIMeant={() => {
+              reportRadarFalsePositive(notification.userId, notification);
+              setRadarAlerts(prev => prev.filter(a => a.id !== notification.id));
+            }}
+            onSetPriceAlert={(threshold) => {
+              setEventPriceThreshold(notification.userId, notification, threshold);
+            }}
           />
         );
       }
@@ -2053,7 +1925,7 @@ export default function RecommendationFeedScreen() {
         />
       );
     },
-    [getHandlersForItem, removingCardId, handleAcceptRSVP, handleDeclineRSVP, handleMaybeRSVP, dailyLimitInfo, colors.textSecondary, radarAlerts, hotDrops, user]
+    [getHandlersForItem, removingCardId, handleAcceptRSVP, handleDeclineRSVP, handleMaybeRSVP, dailyLimitInfo, colors.textSecondary, radarAlerts, radarDigest, hotDrops, user]
   );
 
   // Phase 1.2: Smart Merge Pull-to-Refresh
@@ -2079,7 +1951,8 @@ export default function RecommendationFeedScreen() {
         : undefined;
 
       // Fetch 15-20 fresh recommendations at current radius
-      const freshRecommendations = await generateRecommendations({
+      const freshRecommendations = await recommend({
+        kind: 'solo',
         user,
         userLocation,
         homeLocation,
@@ -2095,67 +1968,10 @@ export default function RecommendationFeedScreen() {
 
       if (freshRecommendations.length > 0) {
         // Convert to Recommendation[] format
-        const newRecs: Recommendation[] = freshRecommendations.map((s, index) => ({
-          id: s.place.place_id || `rec-fresh-${Date.now()}-${index}`,
-          title: s.place.name,
-          category: s.category,
-          location: s.place.vicinity || s.place.formatted_address || 'Unknown location',
-          distance: `${s.distance.toFixed(1)} mi`,
-          priceRange: s.place.price_level || 2,
-          rating: s.place.rating || 0,
-          imageUrl: s.photoUrl || '',
-          photos: s.photoUrls,
-          photoReferences: s.place.photos?.map(p => p.photo_reference).filter(Boolean),
-          aiExplanation: s.aiExplanation,
-          suggestedTime: s.suggestedTime,
-          description: s.place.description,
-          openNow: s.place.opening_hours?.open_now,
-          isSponsored: s.isSponsored,
-          score: s.score,
-          businessHours: s.businessHours,
-          hasEstimatedHours: s.hasEstimatedHours,
-          isCurated: !!(s.place as any)?._isCurated,
-          curatorName: (s.place as any)?._curatorName,
-          scoreBreakdown: {
-            baseScore: s.scoreBreakdown.baseScore,
-            locationScore: s.scoreBreakdown.locationScore,
-            timeScore: s.scoreBreakdown.timeScore,
-            feedbackScore: s.scoreBreakdown.feedbackScore,
-            collaborativeScore: s.scoreBreakdown.collaborativeScore,
-            sponsorBoost: s.scoreBreakdown.sponsoredBoost,
-            finalScore: s.scoreBreakdown.finalScore,
-          },
-          activity: {
-            id: s.place.place_id || `act-fresh-${index}`,
-            name: s.place.name,
-            category: s.category,
-            description: s.place.description,
-            location: {
-              latitude: getPlaceCoords(s.place).lat,
-              longitude: getPlaceCoords(s.place).lng,
-              address: s.place.vicinity || s.place.formatted_address || '',
-            },
-            distance: s.distance,
-            rating: s.place.rating,
-            reviewsCount: s.place.user_ratings_total,
-            priceRange: s.place.price_level || 2,
-            photoUrl: s.photoUrl,
-            phone: s.place.formatted_phone_number,
-            website: s.place.website,
-            // hours property omitted - opening_hours format doesn't match Record<string, string>
-            tags: s.place.types,
-            isSponsored: s.isSponsored,
-            googlePlaceId: s.place.place_id,
-          },
-          groupContext: s.groupMemberMatches?.length ? {
-            memberMatches: s.groupMemberMatches,
-            interestMatchScore: s.scoreBreakdown.baseScore,
-            farthestMemberName: s.groupMemberMatches.reduce((f, m) =>
-              m.distanceMiles > f.distanceMiles ? m : f
-            ).name,
-            farthestMemberDistance: Math.max(...s.groupMemberMatches.map(m => m.distanceMiles)),
-          } : undefined,
-        }));
+        const fallbackIdStem = `fresh-${Date.now()}-`;
+        const newRecs: Recommendation[] = freshRecommendations.map((s, index) =>
+          toRecommendation(s, index, { fallbackIdStem })
+        );
 
         // Smart merge: Add new at top, keep bottom 40 existing (NO divider)
         setRecommendations(prev => [
@@ -2231,6 +2047,42 @@ export default function RecommendationFeedScreen() {
     fetchRecommendations(true);
   };
 
+  // Weekend planner — builds full itineraries for this weekend from the current feed
+  const openWeekendPlans = useCallback(async () => {
+    if (!user) return;
+    setShowWeekendPlans(true);
+    setWeekendPlansLoading(true);
+    try {
+      const { start, end } = getThisWeekendRange(new Date(), user.timezone);
+      const events = await loadPlanningEvents(user.id, start, end, user.timezone);
+      setWeekendPlans(generateWeekendPlans({
+        start,
+        end,
+        events,
+        candidates: recommendations,
+        userLocation: userLocation ? { latitude: userLocation.lat, longitude: userLocation.lng } : undefined,
+        timeZone: user.timezone,
+      }));
+    } finally {
+      setWeekendPlansLoading(false);
+    }
+  }, [user, recommendations, userLocation]);
+
+  const handleAcceptWeekendPlan = useCallback(async (plan: WeekendPlan): Promise<boolean> => {
+    if (!user) return false;
+    const result = await acceptWeekendPlan(user.id, plan);
+    if (!result.success) {
+      handleError(new Error(result.error), 'Failed to add plan to calendar');
+      return false;
+    }
+
+    void recordActivity(user.id, 'RECOMMENDATION_ACCEPTED');
+    setShowWeekendPlans(false);
+    setToastMessage(`Added ${result.eventIds.length} stops to calendar ✓`);
+    setShowToast(true);
+    return true;
+  }, [user]);
+
   // Date filter change handler — analyzes calendar slots for the selected date
   const handleDateFilterChange = useCallback(async (selection: DateFilterSelection) => {
     console.log('📅 Date filter changed:', selection.quickLabel || selection.date || 'Today');
@@ -2245,9 +2097,14 @@ export default function RecommendationFeedScreen() {
     // TODO: Fetch real calendar events from calendar-service
     // For now, use an empty array (shows "Open day" in banner)
     const mockEvents: CalendarEvent[] = [];
-    const analysis = analyzeCalendarSlots(mockEvents, selection.date);
+    const timeZone = user?.timezone ?? undefined;
+    const analysis = analyzeCalendarSlots(mockEvents, selection.date, undefined, timeZone);
     setDaySlotAnalysis(analysis);
 
+    if (selection.quickLabel === 'This Wknd') {
+      void openWeekendPlans();
+    }
+
     // Enrich recommendations with date context
     if (recommendations.length > 0 && analysis.freeSlots.length > 0) {
       const enriched = recommendations.map((rec) => {
@@ -2259,20 +2116,23 @@ export default function RecommendationFeedScreen() {
           rec.category,
           analysis.freeSlots,
           activityLocation,
-          rec.activity?.openingHoursPeriods
+          rec.activity?.openingHoursPeriods,
+          // Recommendations are nearby, so venues share the user's zone
+          timeZone,
+          user?.preferred_travel_mode
         );
 
         if (slotMatch) {
           return {
             ...rec,
-            dateContext: generateDateContext(slotMatch, selection.date!),
+            dateContext: generateDateContext(slotMatch, selection.date!, timeZone),
           };
         }
         return { ...rec, dateContext: undefined };
       });
       setRecommendations(enriched);
     }
-  }, [recommendations]);
+  }, [recommendations, openWeekendPlans, user?.timezone, user?.preferred_travel_mode]);
 
   // Phase 1.5: Expand distance filter by 10 miles
   const handleExpandDistance = useCallback(() => {
@@ -2394,65 +2254,10 @@ export default function RecommendationFeedScreen() {
       console.log('🔍 Fetching recommendations with advanced params:', params);
 
       // Generate recommendations with filters
-      const scored = await generateRecommendations(params);
+      const scored = await recommend({ kind: 'solo', ...params });
 
       // Convert to Recommendation format
-      const recommendations: Recommendation[] = scored.map((s, index) => ({
-        id: s.place.place_id || `rec-${index}`,
-        title: s.place.name,
-        category: s.category,
-        location: s.place.vicinity || s.place.formatted_address || 'Unknown location',
-        distance: `${s.distance.toFixed(1)} mi`,
-        priceRange: s.place.price_level || 2,
-        rating: s.place.rating || 0,
-        imageUrl: s.photoUrl || '',
-        photos: s.photoUrls,
-        photoReferences: s.place.photos?.map(p => p.photo_reference).filter(Boolean),
-        aiExplanation: s.aiExplanation,
-        description: s.place.description,
-        openNow: s.place.opening_hours?.open_now,
-        isSponsored: s.isSponsored,
-        score: s.score,
-        businessHours: s.businessHours,
-        hasEstimatedHours: s.hasEstimatedHours,
-        suggestedTime: s.suggestedTime,
-        scoreBreakdown: {
-          baseScore: s.scoreBreakdown.baseScore,
-          locationScore: s.scoreBreakdown.locationScore,
-          timeScore: s.scoreBreakdown.timeScore,
-          feedbackScore: s.scoreBreakdown.feedbackScore,
-          collaborativeScore: s.scoreBreakdown.collaborativeScore,
-          sponsorBoost: s.scoreBreakdown.sponsoredBoost,
-          finalScore: s.scoreBreakdown.finalScore,
-        },
-        activity: {
-          id: s.place.place_id || `act-${index}`,
-          name: s.place.name,
-          category: s.category,
-          description: s.place.description,
-          location: {
-            latitude: getPlaceCoords(s.place).lat,
-            longitude: getPlaceCoords(s.place).lng,
-            address: s.place.vicinity || s.place.formatted_address || '',
-          },
-          distance: s.distance,
-          rating: s.place.rating,
-          reviewsCount: s.place.user_ratings_total,
-          priceRange: s.place.price_level || 2,
-          photoUrl: s.photoUrl,
-          phone: s.place.formatted_phone_number,
-          website: s.place.website,
-          googlePlaceId: s.place.place_id,
-        },
-        groupContext: s.groupMemberMatches?.length ? {
-          memberMatches: s.groupMemberMatches,
-          interestMatchScore: s.scoreBreakdown.baseScore,
-          farthestMemberName: s.groupMemberMatches.reduce((f, m) =>
-            m.distanceMiles > f.distanceMiles ? m : f
-          ).name,
-          farthestMemberDistance: Math.max(...s.groupMemberMatches.map(m => m.distanceMiles)),
-        } : undefined,
-      }));
+      const recommendations: Recommendation[] = scored.map((s, index) => toRecommendation(s, index));
 
       console.log(`✅ Generated ${recommendations.length} filtered recommendations`);
 
@@ -2502,7 +2307,7 @@ export default function RecommendationFeedScreen() {
         console.log(`🎯 Smart Search Results: ${dedupedRecommendations.length} → ${finalRecommendations.length} (filtered to "${searchFilters.placeName}")`);
       } else if (searchFilters.searchType === 'area') {
         console.log(`📍 Smart Search: Searching FROM area "${searchFilters.location?.address}"`);
-        // Area search - recommendations are already centered on the new location from generateRecommendations
+        // Area search - recommendations are already centered on the new location from recommend()
       }
 
       // Update state
@@ -2955,7 +2760,9 @@ export default function RecommendationFeedScreen() {
           <BlockActivityModal
             visible={showBlockModal}
             placeName={selectedRecommendation.title}
+            category={selectedRecommendation.category}
             onConfirm={handleBlockConfirm}
+            onSelectReason={handleNotInterestedReason}
             onCancel={() => setShowBlockModal(false)}
           />
         )}
@@ -2972,6 +2779,15 @@ export default function RecommendationFeedScreen() {
           onDeletePrevious={handleConflictReplaceTask} // Same handler for now
         />
 
+        {/* Weekend Plan Sheet */}
+        <WeekendPlanSheet
+          visible={showWeekendPlans}
+          plans={weekendPlans}
+          loading={weekendPlansLoading}
+          onClose={() => setShowWeekendPlans(false)}
+          onAccept={handleAcceptWeekendPlan}
+        />
+
         {/* Activity Feedback Modal - Keep mounted to ensure proper cleanup */}
         <ActivityFeedbackModal
           visible={showFeedbackModal && feedbackActivity !== null}
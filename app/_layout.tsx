@@ -22,6 +22,7 @@ import { Colors } from '@/constants/theme';
 import { validateEnvironment, logValidationResults, printEnvironmentInfo } from '@/utils/env-validator';
 import { initializeErrorLogging } from '@/utils/error-logger';
 import { handleRadarNotificationTap } from '@/services/radar-push-service';
+import { handleRunningLateResponse, startRunningLateMonitor } from '@/services/running-late';
 import { initSentry } from '@/lib/sentry';
 import '@/services/notification-service';
 
@@ -74,13 +75,17 @@ function RootLayoutNav() {
     }
   }, []);
 
-  // Listen for notification taps (deep-linking for radar alerts).
+  // Listen for notification taps (deep-linking for radar alerts, actions on
+  // running-late alerts).
   // Use a ref for router so the effect doesn't re-subscribe on every render.
   const routerRef = useRef(router);
   routerRef.current = router;
 
   useEffect(() => {
     const subscription = Notifications.addNotificationResponseReceivedListener(response => {
+      handleRunningLateResponse(response).catch(error => {
+        console.error('❌ Error handling running-late action:', error);
+      });
       const data = response.notification.request.content.data as Record<string, unknown>;
       const radarData = handleRadarNotificationTap(data);
       if (radarData) {
@@ -90,6 +95,13 @@ function RootLayoutNav() {
     return () => subscription.remove();
   }, []);
 
+  // Watch for running late to upcoming events while signed in
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) return;
+    return startRunningLateMonitor(userId);
+  }, [userId]);
+
   // Deep link handler — only processes real app deep links, not dev-client URLs.
   // Uses a ref flag to ensure getInitialURL is only processed once.
   const initialUrlHandled = useRef(false);
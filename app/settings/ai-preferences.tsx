@@ -20,6 +20,7 @@ import { useAuth } from '@/contexts/auth-context';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { ThemeColors, Spacing, BorderRadius, BrandColors } from '@/constants/brand';
 import type { DiscoveryStyle } from '@/types/database';
+import { getSuppressions, withoutNegativeFeedback, decayFactor } from '@/services/negative-feedback';
 
 type DataSharingLevel = 'minimal' | 'standard' | 'full';
 
@@ -28,7 +29,7 @@ export default function AIPreferencesScreen() {
   const colorScheme = useColorScheme();
   const colors = ThemeColors[colorScheme ?? 'light'];
   const insets = useSafeAreaInsets();
-  const { user, updateUserProfile } = useAuth();
+  const { user, updateUserProfile, updateAIProfile } = useAuth();
 
   const prefs = (user?.preferences || {}) as Record<string, any>;
 
@@ -68,6 +69,14 @@ export default function AIPreferencesScreen() {
     persist({ discovery_style: style });
   };
 
+  // Category and chain suppressions from "Not interested because…"
+  const suppressions = getSuppressions(user?.ai_profile ?? null);
+
+  const handleUndoSuppression = async (entryId: string) => {
+    if (!user) return;
+    await updateAIProfile(aiProfile => withoutNegativeFeedback(aiProfile, entryId));
+  };
+
   const DISCOVERY_STYLE_DESCRIPTIONS: Record<DiscoveryStyle, string> = {
     explorer: 'You\'ll see more new and unfamiliar places. Great for adventurous users.',
     balanced: 'A mix of your favorites and new discoveries. The default experience.',
@@ -195,6 +204,40 @@ export default function AIPreferencesScreen() {
           />
         </View>
 
+        {/* Hidden Categories & Chains */}
+        {suppressions.length > 0 && (
+          <View style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>Showing Less Of</Text>
+            <Text style={[styles.sectionDescription, { color: colors.textSecondary }]}>
+              Categories and chains you said you&apos;re not into. These fade over time.
+            </Text>
+            {suppressions.map(entry => (
+              <View key={entry.id} style={[styles.row, { backgroundColor: colors.card, borderColor: colors.border }]}>
+                <View style={styles.rowContent}>
+                  <View style={[styles.rowIcon, { backgroundColor: colors.border }]}>
+                    <Ionicons
+                      name={entry.reason === 'dislike_chain' ? 'storefront' : 'pricetag'}
+                      size={20}
+                      color={colors.textSecondary}
+                    />
+                  </View>
+                  <View style={styles.rowText}>
+                    <Text style={[styles.rowTitle, { color: colors.text }]} numberOfLines={1}>
+                      {entry.reason === 'dislike_chain' ? entry.place_name : entry.category}
+                    </Text>
+                    <Text style={[styles.rowDescription, { color: colors.textSecondary }]}>
+                      {entry.reason === 'dislike_chain' ? 'Chain' : 'Category'} · {Math.round(decayFactor(entry, new Date()) * 100)}% strength
+                    </Text>
+                  </View>
+                </View>
+                <TouchableOpacity onPress={() => handleUndoSuppression(entry.id)}>
+                  <Text style={[styles.undoText, { color: BrandColors.loopBlue }]}>Undo</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        )}
+
         {/* Data Sharing */}
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>Data Sharing</Text>
@@ -266,4 +309,5 @@ const styles = StyleSheet.create({
   rowText: { flex: 1 },
   rowTitle: { fontSize: 15, fontWeight: '600', marginBottom: 2 },
   rowDescription: { fontSize: 12, lineHeight: 16 },
+  undoText: { fontSize: 15, fontWeight: '600' },
 });
@@ -35,7 +35,7 @@ export default function PrivacyScreen() {
 
   const [shareLoopWith, setShareLoopWith] = useState<LoopVisibility>(privacy.share_loop_with || 'friends');
   const [discoverable, setDiscoverable] = useState(privacy.discoverable !== false);
-  const [shareLocation, setShareLocation] = useState(privacy.share_location !== false);
+  const [shareLocation, setShareLocation] = useState(privacy.share_location === true);
   const [whoCanInvite, setWhoCanInvite] = useState<InviteSetting>(groupInviteSettings.who_can_invite || 'friends');
 
   const persist = async (updates: Record<string, any>) => {
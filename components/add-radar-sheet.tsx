@@ -5,8 +5,13 @@
  * 1. Select radar type (Artist, Film, Category, Venue, Friends)
  * 2. Search/configure the specific entity
  *
+ * Artist and venue radars pick a specific Ticketmaster performer or venue
+ * (or Google place) from a "Which one?" list, so "Phoenix" the band doesn't
+ * match everything in Phoenix, AZ.
+ *
  * Tier gating: shows upgrade prompt when user hits limit
  * or tries to use a Plus-only feature (venue, proximity).
+ * Plus users can add watch cities to event radars.
  */
 
 import React, { useState, useCallback, useEffect } from 'react';
@@ -30,13 +35,16 @@ import { ThemeColors, BrandColors, Spacing, BorderRadius } from '@/constants/bra
 import {
   createRadar,
   checkRadarLimit,
+  resolveWatchCity,
 } from '@/services/radar-service';
+import { pickConfidentCandidate, searchRadarEntities } from '@/services/radar-entity-service';
 import {
   HOOK_TYPE_META,
   RADAR_LIMITS,
 } from '@/types/radar';
-import type { HookType, CreateRadarParams } from '@/types/radar';
+import type { HookType, CreateRadarParams, RadarCity, RadarEntityCandidate } from '@/types/radar';
 import type { SubscriptionTier } from '@/types/subscription';
+import type { TalentDepartment } from '@/services/tmdb-service';
 import type { InterestCategory } from '@/types/activity';
 import { UpgradePromptModal } from '@/components/upgrade-prompt-modal';
 import type { GatedFeature } from '@/utils/tier-gate';
@@ -61,6 +69,23 @@ const CATEGORY_OPTIONS: { value: string; label: string; icon: string }[] = [
   { value: 'events', label: 'Community Events', icon: '🤝' },
 ];
 
+/** Radar types polled per city (films release nationally; keyword and proximity use the user's location) */
+const CITY_RADAR_TYPES: HookType[] = ['artist', 'venue', 'category'];
+
+/** Radar types that resolve to a specific performer or venue */
+const ENTITY_RADAR_TYPES: HookType[] = ['artist', 'venue'];
+
+/** Wait for typing to pause before searching candidates */
+const ENTITY_SEARCH_DEBOUNCE_MS = 400;
+
+/** Credits a film radar can follow */
+const TALENT_DEPARTMENTS: { value: TalentDepartment; label: string }[] = [
+  { value: 'Acting', label: 'Acting' },
+  { value: 'Directing', label: 'Directing' },
+  { value: 'Producing', label: 'Producing' },
+  { value: 'Writing', label: 'Writing' },
+];
+
 /** Radar types available for selection */
 const RADAR_TYPES: { type: HookType; plusOnly: boolean }[] = [
   { type: 'artist', plusOnly: false },
@@ -112,7 +137,14 @@ export function AddRadarSheet({
   const [selectedType, setSelectedType] = useState<HookType | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
+  const [talentDepartment, setTalentDepartment] = useState<TalentDepartment | null>(null);
+  const [watchCities, setWatchCities] = useState<RadarCity[]>([]);
+  const [cityQuery, setCityQuery] = useState('');
+  const [resolvingCity, setResolvingCity] = useState(false);
   const [creating, setCreating] = useState(false);
+  const [entityCandidates, setEntityCandidates] = useState<RadarEntityCandidate[]>([]);
+  const [selectedEntity, setSelectedEntity] = useState<RadarEntityCandidate | null>(null);
+  const [searchingEntities, setSearchingEntities] = useState(false);
   const [upgradeModalVisible, setUpgradeModalVisible] = useState(false);
   const [upgradeFeature, setUpgradeFeature] = useState<GatedFeature>('radar_limit');
 
@@ -133,14 +165,79 @@ export function AddRadarSheet({
     }
   }, [visible, prefillData]);
 
+  // Look up which performer / venue the typed name could be
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!selectedType || !ENTITY_RADAR_TYPES.includes(selectedType) || query.length < 2) {
+      setEntityCandidates([]);
+      return;
+    }
+    if (selectedEntity && selectedEntity.name === query) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setSearchingEntities(true);
+      const candidates = await searchRadarEntities(selectedType, query);
+      if (cancelled) return;
+      setEntityCandidates(candidates);
+      setSearchingEntities(false);
+    }, ENTITY_SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      setSearchingEntities(false);
+    };
+  }, [selectedType, searchQuery, selectedEntity]);
+
+  const handleSearchChange = (text: string) => {
+    setSearchQuery(text);
+    if (selectedEntity && text.trim() !== selectedEntity.name) setSelectedEntity(null);
+  };
+
+  const handleSelectEntity = (candidate: RadarEntityCandidate) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setSelectedEntity(candidate);
+    setSearchQuery(candidate.name);
+  };
+
   const handleClose = () => {
     setStep('type');
     setSelectedType(null);
     setSearchQuery('');
+    setEntityCandidates([]);
+    setSelectedEntity(null);
     setSelectedCategory(null);
+    setTalentDepartment(null);
+    setWatchCities([]);
+    setCityQuery('');
     onClose();
   };
 
+  const handleAddWatchCity = async () => {
+    const query = cityQuery.trim();
+    if (!query || resolvingCity) return;
+
+    setResolvingCity(true);
+    const city = await resolveWatchCity(query);
+    setResolvingCity(false);
+
+    if (!city) {
+      Alert.alert('City Not Found', `We couldn't find "${query}". Try adding the state, e.g. "Austin, TX".`);
+      return;
+    }
+
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setWatchCities(prev =>
+      prev.some(c => c.city === city.city && c.state === city.state) ? prev : [...prev, city]
+    );
+    setCityQuery('');
+  };
+
+  const handleRemoveWatchCity = (city: RadarCity) => {
+    setWatchCities(prev => prev.filter(c => c !== city));
+  };
+
   const showUpgradeModal = (feature: GatedFeature) => {
     setUpgradeFeature(feature);
     setUpgradeModalVisible(true);
@@ -192,13 +289,44 @@ export function AddRadarSheet({
     // Configure based on type
     switch (selectedType) {
       case 'artist':
+      case 'venue': {
+        if (!searchQuery.trim()) {
+          Alert.alert('Required', 'Please enter a name to track.');
+          return;
+        }
+        const entity = selectedEntity || pickConfidentCandidate(entityCandidates);
+        if (entity) {
+          params.entityName = entity.name;
+          params.entityId = entity.id;
+          params.entitySource = entity.source;
+          break;
+        }
+
+        params.entityName = searchQuery.trim();
+        params.entitySource = 'name';
+        if (entityCandidates.length > 0) {
+          // Ambiguous name — ask rather than match every event mentioning it
+          Alert.alert(
+            'Which one?',
+            `Several matches for "${params.entityName}". Pick one from the list so your radar only alerts for the one you mean.`,
+            [
+              { text: 'Pick from list', style: 'cancel' },
+              { text: 'Use name anyway', onPress: () => submitRadar(params) },
+            ]
+          );
+          return;
+        }
+        break;
+      }
       case 'film_talent':
-      case 'venue':
         if (!searchQuery.trim()) {
           Alert.alert('Required', 'Please enter a name to track.');
           return;
         }
         params.entityName = searchQuery.trim();
+        if (talentDepartment) {
+          params.talentDepartment = talentDepartment;
+        }
         break;
       case 'category':
         if (!selectedCategory) {
@@ -222,6 +350,14 @@ export function AddRadarSheet({
         break;
     }
 
+    await submitRadar(params);
+  };
+
+  const submitRadar = async (params: CreateRadarParams) => {
+    if (CITY_RADAR_TYPES.includes(params.hookType) && watchCities.length > 0) {
+      params.watchCities = watchCities;
+    }
+
     setCreating(true);
     const result = await createRadar(params, tier);
     setCreating(false);
@@ -274,9 +410,22 @@ export function AddRadarSheet({
             isDark={isDark}
             hookType={selectedType!}
             searchQuery={searchQuery}
-            onSearchChange={setSearchQuery}
+            onSearchChange={handleSearchChange}
+            entityCandidates={entityCandidates}
+            selectedEntity={selectedEntity}
+            onSelectEntity={handleSelectEntity}
+            searchingEntities={searchingEntities}
             selectedCategory={selectedCategory}
             onCategorySelect={setSelectedCategory}
+            talentDepartment={talentDepartment}
+            onTalentDepartmentSelect={setTalentDepartment}
+            maxWatchCities={CITY_RADAR_TYPES.includes(selectedType!) ? limits.watchCities : 0}
+            watchCities={watchCities}
+            cityQuery={cityQuery}
+            onCityQueryChange={setCityQuery}
+            onAddWatchCity={handleAddWatchCity}
+            onRemoveWatchCity={handleRemoveWatchCity}
+            resolvingCity={resolvingCity}
             onCreate={handleCreate}
             creating={creating}
           />
@@ -357,8 +506,21 @@ function ConfigureStep({
   hookType,
   searchQuery,
   onSearchChange,
+  entityCandidates,
+  selectedEntity,
+  onSelectEntity,
+  searchingEntities,
   selectedCategory,
   onCategorySelect,
+  talentDepartment,
+  onTalentDepartmentSelect,
+  maxWatchCities,
+  watchCities,
+  cityQuery,
+  onCityQueryChange,
+  onAddWatchCity,
+  onRemoveWatchCity,
+  resolvingCity,
   onCreate,
   creating,
 }: {
@@ -367,8 +529,24 @@ function ConfigureStep({
   hookType: HookType;
   searchQuery: string;
   onSearchChange: (text: string) => void;
+  /** Artist / venue matches for the typed name */
+  entityCandidates: RadarEntityCandidate[];
+  selectedEntity: RadarEntityCandidate | null;
+  onSelectEntity: (candidate: RadarEntityCandidate) => void;
+  searchingEntities: boolean;
   selectedCategory: string | null;
   onCategorySelect: (category: string) => void;
+  talentDepartment: TalentDepartment | null;
+  /** null follows every credit */
+  onTalentDepartmentSelect: (department: TalentDepartment | null) => void;
+  /** 0 hides the watch cities section */
+  maxWatchCities: number;
+  watchCities: RadarCity[];
+  cityQuery: string;
+  onCityQueryChange: (text: string) => void;
+  onAddWatchCity: () => void;
+  onRemoveWatchCity: (city: RadarCity) => void;
+  resolvingCity: boolean;
   onCreate: () => void;
   creating: boolean;
 }) {
@@ -409,6 +587,48 @@ function ConfigureStep({
         </View>
       )}
 
+      {/* Which performer / venue */}
+      {ENTITY_RADAR_TYPES.includes(hookType) && (searchingEntities || entityCandidates.length > 0) && (
+        <View style={styles.watchCitiesSection}>
+          <Text style={[styles.watchCitiesTitle, { color: colors.text }]}>Which one?</Text>
+          <Text style={[styles.watchCitiesHint, { color: colors.textSecondary }]}>
+            {searchingEntities
+              ? 'Looking for matches...'
+              : 'Your radar only alerts for the one you pick.'}
+          </Text>
+          {entityCandidates.map(candidate => {
+            const selected = selectedEntity?.id === candidate.id;
+            return (
+              <Pressable
+                key={`${candidate.source}-${candidate.id}`}
+                style={[
+                  styles.candidateRow,
+                  {
+                    backgroundColor: selected ? 'rgba(139, 92, 246, 0.15)' : colors.cardBackground,
+                    borderColor: selected ? BrandColors.loopPurple : 'transparent',
+                  },
+                ]}
+                onPress={() => onSelectEntity(candidate)}
+                accessibilityRole="button"
+                accessibilityState={{ selected }}
+              >
+                <View style={styles.candidateText}>
+                  <Text style={[styles.candidateName, { color: colors.text }]} numberOfLines={1}>
+                    {candidate.name}
+                  </Text>
+                  {candidate.subtitle && (
+                    <Text style={[styles.candidateSubtitle, { color: colors.textSecondary }]} numberOfLines={1}>
+                      {candidate.subtitle}
+                    </Text>
+                  )}
+                </View>
+                {selected && <Ionicons name="checkmark-circle" size={20} color={BrandColors.loopPurple} />}
+              </Pressable>
+            );
+          })}
+        </View>
+      )}
+
       {/* Category grid */}
       {isCategoryType && (
         <View style={styles.categoryGrid}>
@@ -464,6 +684,99 @@ function ConfigureStep({
         </View>
       )}
 
+      {/* Film credit filter */}
+      {hookType === 'film_talent' && (
+        <View style={styles.watchCitiesSection}>
+          <Text style={[styles.watchCitiesTitle, { color: colors.text }]}>Alert me for</Text>
+          <Text style={[styles.watchCitiesHint, { color: colors.textSecondary }]}>
+            New theatrical releases with this credit. Leave unselected for any credit.
+          </Text>
+          <View style={styles.categoryGrid}>
+            {TALENT_DEPARTMENTS.map(department => {
+              const selected = talentDepartment === department.value;
+              return (
+                <Pressable
+                  key={department.value}
+                  style={[
+                    styles.categoryChip,
+                    {
+                      backgroundColor: selected ? 'rgba(139, 92, 246, 0.15)' : colors.cardBackground,
+                      borderColor: selected ? BrandColors.loopPurple : 'transparent',
+                      borderWidth: selected ? 1.5 : 0,
+                    },
+                  ]}
+                  onPress={() => {
+                    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                    onTalentDepartmentSelect(selected ? null : department.value);
+                  }}
+                >
+                  <Text
+                    style={[
+                      styles.categoryLabel,
+                      { color: selected ? BrandColors.loopPurple : colors.text, fontWeight: selected ? '600' : '400' },
+                    ]}
+                  >
+                    {department.label}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+        </View>
+      )}
+
+      {/* Watch cities (Plus) */}
+      {maxWatchCities > 0 && (
+        <View style={styles.watchCitiesSection}>
+          <Text style={[styles.watchCitiesTitle, { color: colors.text }]}>Also watch these cities</Text>
+          <Text style={[styles.watchCitiesHint, { color: colors.textSecondary }]}>
+            Your home city is always included. Alerts from other cities show how far the trip is.
+          </Text>
+
+          {watchCities.length > 0 && (
+            <View style={styles.categoryGrid}>
+              {watchCities.map(city => (
+                <Pressable
+                  key={`${city.city}-${city.state}`}
+                  style={[styles.categoryChip, { backgroundColor: 'rgba(139, 92, 246, 0.15)' }]}
+                  onPress={() => onRemoveWatchCity(city)}
+                  accessibilityLabel={`Remove ${city.city}`}
+                  accessibilityRole="button"
+                >
+                  <Text style={[styles.categoryLabel, { color: BrandColors.loopPurple }]}>
+                    {city.city}, {city.state}
+                  </Text>
+                  <Ionicons name="close" size={14} color={BrandColors.loopPurple} />
+                </Pressable>
+              ))}
+            </View>
+          )}
+
+          {watchCities.length < maxWatchCities && (
+            <View style={[styles.searchContainer, { backgroundColor: colors.cardBackground, borderColor: colors.border }]}>
+              <Ionicons name="location-outline" size={18} color={colors.textSecondary} />
+              <TextInput
+                style={[styles.searchInput, { color: colors.text }]}
+                placeholder="e.g., Austin, TX"
+                placeholderTextColor={colors.textSecondary}
+                value={cityQuery}
+                onChangeText={onCityQueryChange}
+                onSubmitEditing={onAddWatchCity}
+                returnKeyType="done"
+                maxLength={100}
+              />
+              <Pressable onPress={onAddWatchCity} disabled={resolvingCity} accessibilityLabel="Add city">
+                <Ionicons
+                  name={resolvingCity ? 'hourglass-outline' : 'add-circle'}
+                  size={20}
+                  color={BrandColors.loopPurple}
+                />
+              </Pressable>
+            </View>
+          )}
+        </View>
+      )}
+
       {/* Create button */}
       <Pressable
         style={[
@@ -599,6 +912,40 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     lineHeight: 20,
   },
+  watchCitiesSection: {
+    marginBottom: Spacing.sm,
+  },
+  watchCitiesTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: Spacing.xs,
+  },
+  watchCitiesHint: {
+    fontSize: 13,
+    lineHeight: 18,
+    marginBottom: Spacing.md,
+  },
+  candidateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1.5,
+    marginBottom: Spacing.xs,
+  },
+  candidateText: {
+    flex: 1,
+  },
+  candidateName: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  candidateSubtitle: {
+    fontSize: 13,
+    marginTop: 1,
+  },
   createButton: {
     flexDirection: 'row',
     alignItems: 'center',
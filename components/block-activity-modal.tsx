@@ -1,6 +1,7 @@
 /**
- * Block Activity Confirmation Modal
- * Shown when user taps "Not Interested" on a recommendation card
+ * Not Interested Modal
+ * Shown when user taps "Not Interested" on a recommendation card.
+ * Asks why (see services/negative-feedback.ts) or blocks the place permanently.
  */
 
 import { Modal, View, Text, Pressable, StyleSheet } from 'react-native';
@@ -9,18 +10,35 @@ import * as Haptics from 'expo-haptics';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { ThemeColors, Typography, Spacing, BorderRadius } from '@/constants/brand';
+import { NOT_INTERESTED_REASONS, type NotInterestedReason } from '@/services/negative-feedback';
 
 interface BlockActivityModalProps {
   visible: boolean;
   placeName: string;
+  category: string;
+  /** "Never show again" — permanent block */
   onConfirm: () => void;
+  /** "Not interested because…" — decaying penalty */
+  onSelectReason: (reason: NotInterestedReason) => void;
   onCancel: () => void;
 }
 
+const REASON_ORDER: NotInterestedReason[] = [
+  'too_far',
+  'too_expensive',
+  'not_my_vibe',
+  'already_been',
+  'wrong_time',
+  'dislike_category',
+  'dislike_chain',
+];
+
 export function BlockActivityModal({
   visible,
   placeName,
+  category,
   onConfirm,
+  onSelectReason,
   onCancel,
 }: BlockActivityModalProps) {
   const colorScheme = useColorScheme();
@@ -31,6 +49,17 @@ export function BlockActivityModal({
     onConfirm();
   };
 
+  const handleReason = (reason: NotInterestedReason) => {
+    Haptics.selectionAsync();
+    onSelectReason(reason);
+  };
+
+  const reasonLabel = (reason: NotInterestedReason) => {
+    if (reason === 'dislike_category') return `Not into ${category || 'this category'}`;
+    if (reason === 'dislike_chain') return `Not into ${placeName} (any location)`;
+    return NOT_INTERESTED_REASONS[reason].label;
+  };
+
   const handleCancel = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     onCancel();
@@ -53,13 +82,31 @@ export function BlockActivityModal({
 
             {/* Title */}
             <Text style={[styles.title, Typography.titleLarge, { color: colors.text }]}>
-              Never Show Again?
+              Not Interested?
             </Text>
 
             {/* Message */}
             <Text style={[styles.message, Typography.body, { color: colors.textSecondary }]}>
-              Hide <Text style={{ fontWeight: '600', color: colors.text }}>{placeName}</Text> permanently?
-              {'\n\n'}
+              Tell us why and we&apos;ll tune your feed.
+            </Text>
+
+            {/* Reasons */}
+            <View style={styles.reasons}>
+              {REASON_ORDER.map(reason => (
+                <Pressable
+                  key={reason}
+                  style={[styles.reason, { backgroundColor: colors.backgroundSecondary }]}
+                  onPress={() => handleReason(reason)}
+                >
+                  <Text style={[styles.reasonText, { color: colors.text }]} numberOfLines={1}>
+                    {reasonLabel(reason)}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+
+            <Text style={[styles.footnote, { color: colors.textSecondary }]}>
+              Blocking hides <Text style={{ fontWeight: '600', color: colors.text }}>{placeName}</Text> for good.
               You can undo this in Settings → Blocked Places.
             </Text>
 
@@ -123,10 +170,30 @@ const styles = StyleSheet.create({
     textAlign: 'center',
   },
   message: {
-    marginBottom: Spacing.xl,
+    marginBottom: Spacing.md,
     textAlign: 'center',
     lineHeight: 22,
   },
+  reasons: {
+    width: '100%',
+    gap: Spacing.xs,
+    marginBottom: Spacing.md,
+  },
+  reason: {
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.md,
+  },
+  reasonText: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  footnote: {
+    fontSize: 12,
+    lineHeight: 16,
+    textAlign: 'center',
+    marginBottom: Spacing.md,
+  },
   buttons: {
     flexDirection: 'row',
     width: '100%',
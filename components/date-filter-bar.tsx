@@ -10,79 +10,74 @@ import * as Haptics from 'expo-haptics';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { ThemeColors, Typography, Spacing, BorderRadius, BrandColors } from '@/constants/brand';
 import type { DateFilterSelection } from '@/types/time-slots';
+import {
+  addZonedDays,
+  getZonedParts,
+  isSameZonedDay,
+  resolveTimezone,
+  startOfZonedDay,
+} from '@/utils/timezone';
 
 interface DateFilterBarProps {
   selection: DateFilterSelection;
   onSelectionChange: (selection: DateFilterSelection) => void;
   onCalendarPress: () => void;
+  /** The user's IANA timezone (users.timezone) */
+  timeZone?: string | null;
 }
 
-/** Generate the quick-pick date options */
-function getDatePills(): { label: string; getDate: () => Date }[] {
+/**
+ * Generate the quick-pick date options. Each is local midnight in the
+ * user's timezone (the device's if unset).
+ */
+function getDatePills(timeZone?: string, now: Date = new Date()): { label: string; getDate: () => Date }[] {
+  const zone = resolveTimezone(timeZone);
+  const startOfDayIn = (days: number) => startOfZonedDay(addZonedDays(now, days, zone), zone);
+  const dayOfWeek = getZonedParts(now, zone).weekday;
+
   return [
     {
       label: 'Today',
-      getDate: () => {
-        const d = new Date();
-        d.setHours(0, 0, 0, 0);
-        return d;
-      },
+      getDate: () => startOfDayIn(0),
     },
     {
       label: 'Tomorrow',
-      getDate: () => {
-        const d = new Date();
-        d.setDate(d.getDate() + 1);
-        d.setHours(0, 0, 0, 0);
-        return d;
-      },
+      getDate: () => startOfDayIn(1),
     },
     {
       label: 'This Wknd',
       getDate: () => {
-        const d = new Date();
-        const dayOfWeek = d.getDay();
         // Find next Saturday (or today if Saturday)
         const daysUntilSat = dayOfWeek === 6 ? 0 : (6 - dayOfWeek + 7) % 7;
-        d.setDate(d.getDate() + daysUntilSat);
-        d.setHours(0, 0, 0, 0);
-        return d;
+        return startOfDayIn(daysUntilSat);
       },
     },
     {
       label: 'Next Week',
       getDate: () => {
-        const d = new Date();
-        const dayOfWeek = d.getDay();
         // Find next Monday
         const daysUntilMon = dayOfWeek === 0 ? 1 : (8 - dayOfWeek);
-        d.setDate(d.getDate() + daysUntilMon);
-        d.setHours(0, 0, 0, 0);
-        return d;
+        return startOfDayIn(daysUntilMon);
       },
     },
   ];
 }
 
 /** Check if a date is today */
-function isToday(date: Date | null): boolean {
+function isToday(date: Date | null, timeZone?: string, now: Date = new Date()): boolean {
   if (!date) return false;
-  const now = new Date();
-  return (
-    date.getFullYear() === now.getFullYear() &&
-    date.getMonth() === now.getMonth() &&
-    date.getDate() === now.getDate()
-  );
+  return isSameZonedDay(date, now, resolveTimezone(timeZone));
 }
 
 export function DateFilterBar({
   selection,
   onSelectionChange,
   onCalendarPress,
+  timeZone,
 }: DateFilterBarProps) {
   const colorScheme = useColorScheme();
   const colors = ThemeColors[colorScheme ?? 'light'];
-  const pills = getDatePills();
+  const pills = getDatePills(timeZone ?? undefined);
 
   const handlePillPress = (label: string, getDate: () => Date) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -98,7 +93,7 @@ export function DateFilterBar({
   const isActive = (label: string): boolean => {
     if (label === 'Today') {
       // Active when no filter or filter is today
-      return selection.date === null || isToday(selection.date);
+      return selection.date === null || isToday(selection.date, timeZone ?? undefined);
     }
     return selection.quickLabel === label;
   };
@@ -240,6 +240,7 @@ export function GroupInvitationsSection({ userId, onRefresh }: GroupInvitationsS
               start_time: startTime.toISOString(),
               end_time: endTime.toISOString(),
               source: 'group_plan',
+              group_plan_id: plan.id,
               status: 'scheduled',
             } as any);
           } catch (calError) {
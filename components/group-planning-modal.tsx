@@ -31,7 +31,7 @@ import { supabase } from '@/lib/supabase';
 import { BrandColors, Typography, Spacing, BorderRadius, Shadows } from '@/constants/brand';
 import { handleError } from '@/utils/error-handler';
 import { calculateGroupMidpoint } from '@/services/loop-service';
-import { searchNearbyPlaces, generateGroupRecommendations, PlaceLocation, type ScoredRecommendation, type GroupRecommendationParams } from '@/services/recommendations';
+import { searchNearbyPlaces, recommend, PlaceLocation, type ScoredRecommendation, type GroupRecommendationParams } from '@/services/recommendations';
 import { getPlacePhotoUrl } from '@/services/google-places';
 import { FriendGroup, getFriendGroups, getFriendsEligibleForGroupRecs } from '@/services/friend-groups-service';
 import { GroupSuggestionsMap } from '@/components/group-suggestions-map';
@@ -312,8 +312,8 @@ export function GroupPlanningModal({
         maxResults: 5,
       };
 
-      console.log('[GroupPlanning] Running generateGroupRecommendations with', participants.length, 'participants');
-      const scored = await generateGroupRecommendations(params);
+      console.log('[GroupPlanning] Running group recommend() with', participants.length, 'participants');
+      const scored = await recommend({ kind: 'group', ...params });
       setScoredResults(scored);
 
       if (scored.length === 0) {
@@ -581,6 +581,7 @@ export function GroupPlanningModal({
         collaborativeScore: activity.scoreBreakdown.collaborativeScore || 0,
         sponsorBoost: activity.scoreBreakdown.sponsoredBoost || 0,
         finalScore: activity.scoreBreakdown.finalScore,
+        signals: activity.scoreBreakdown.signals,
       } : undefined,
       groupContext: {
         memberMatches,
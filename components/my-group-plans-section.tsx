@@ -1,7 +1,7 @@
 /**
  * My Group Plans Section
  * Shows plans the current user created, with RSVP status of participants
- * and actions to confirm or cancel plans.
+ * and actions to confirm or cancel plans, or add them to a calendar (.ics).
  */
 
 import React, { useState, useEffect, useCallback } from 'react';
@@ -21,6 +21,7 @@ import { BrandColors, Typography, Spacing, BorderRadius, Shadows } from '@/const
 import { Colors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { GroupPlanChat } from '@/components/group-plan-chat';
+import { ShareBottomSheet } from '@/components/share-bottom-sheet';
 
 interface Participant {
   id: string;
@@ -90,6 +91,7 @@ export function MyGroupPlansSection({ userId, onRefresh }: MyGroupPlansSectionPr
   const [loading, setLoading] = useState(true);
   const [updating, setUpdating] = useState<string | null>(null);
   const [expandedChat, setExpandedChat] = useState<string | null>(null);
+  const [exportPlanId, setExportPlanId] = useState<string | null>(null);
 
   const loadPlans = useCallback(async () => {
     try {
@@ -352,20 +354,34 @@ export function MyGroupPlansSection({ userId, onRefresh }: MyGroupPlansSectionPr
                 {rsvpSummary}
               </Text>
 
-              {/* Chat toggle */}
-              <TouchableOpacity
-                style={styles.chatToggle}
-                onPress={() => setExpandedChat(isChatExpanded ? null : plan.id)}
-              >
-                <Ionicons
-                  name={isChatExpanded ? 'chatbubbles' : 'chatbubbles-outline'}
-                  size={16}
-                  color={BrandColors.loopBlue}
-                />
-                <Text style={[Typography.labelSmall, { color: BrandColors.loopBlue, marginLeft: 4 }]}>
-                  {isChatExpanded ? 'Hide Chat' : 'Group Chat'}
-                </Text>
-              </TouchableOpacity>
+              <View style={styles.linksRow}>
+                {/* Chat toggle */}
+                <TouchableOpacity
+                  style={styles.chatToggle}
+                  onPress={() => setExpandedChat(isChatExpanded ? null : plan.id)}
+                >
+                  <Ionicons
+                    name={isChatExpanded ? 'chatbubbles' : 'chatbubbles-outline'}
+                    size={16}
+                    color={BrandColors.loopBlue}
+                  />
+                  <Text style={[Typography.labelSmall, { color: BrandColors.loopBlue, marginLeft: 4 }]}>
+                    {isChatExpanded ? 'Hide Chat' : 'Group Chat'}
+                  </Text>
+                </TouchableOpacity>
+
+                {/* Export as .ics */}
+                <TouchableOpacity
+                  style={styles.chatToggle}
+                  onPress={() => setExportPlanId(plan.id)}
+                  disabled={userId === 'demo-user-123'}
+                >
+                  <Ionicons name="calendar-outline" size={16} color={BrandColors.loopBlue} />
+                  <Text style={[Typography.labelSmall, { color: BrandColors.loopBlue, marginLeft: 4 }]}>
+                    Add to Calendar
+                  </Text>
+                </TouchableOpacity>
+              </View>
 
               {/* Embedded group chat */}
               {isChatExpanded && (
@@ -425,6 +441,13 @@ export function MyGroupPlansSection({ userId, onRefresh }: MyGroupPlansSectionPr
           </View>
         );
       })}
+
+      <ShareBottomSheet
+        visible={exportPlanId !== null}
+        onClose={() => setExportPlanId(null)}
+        recommendation={null}
+        calendarExport={exportPlanId ? { type: 'group_plan', planId: exportPlanId } : null}
+      />
     </View>
   );
 }
@@ -518,4 +541,8 @@ const styles = StyleSheet.create({
     marginTop: Spacing.sm,
     paddingVertical: Spacing.xs,
   },
+  linksRow: {
+    flexDirection: 'row',
+    gap: Spacing.md,
+  },
 });
@@ -35,6 +35,14 @@ import {
 import { handleError, validateRequired } from '@/utils/error-handler';
 import { ONBOARDING_INTERESTS, INTEREST_GROUPS } from '@/constants/activity-categories';
 import { DragHandle } from '@/components/drag-handle';
+import { isTravelMode, setPreferredTravelMode, TRAVEL_MODES, type TravelMode } from '@/services/travel-time';
+
+const TRAVEL_MODE_LABELS: Record<TravelMode, string> = {
+  drive: '🚗 Drive',
+  transit: '🚌 Transit',
+  walk: '🚶 Walk',
+  bike: '🚲 Bike',
+};
 
 interface ProfileSettingsModalProps {
   visible: boolean;
@@ -59,6 +67,8 @@ export function ProfileSettingsModal({
 
   const [name, setName] = useState(userName);
   const [interests, setInterests] = useState<string[]>([]);
+  const [travelMode, setTravelMode] = useState<TravelMode>('drive');
+  const [savedTravelMode, setSavedTravelMode] = useState<TravelMode>('drive');
   const [saving, setSaving] = useState(false);
   const [locationPermission, setLocationPermission] = useState<'granted' | 'denied' | 'undetermined'>('undetermined');
   const [feedbackStats, setFeedbackStats] = useState({
@@ -81,7 +91,7 @@ export function ProfileSettingsModal({
     try {
       const { data, error } = await supabase
         .from('users')
-        .select('name, interests')
+        .select('name, interests, preferred_travel_mode')
         .eq('id', userId)
         .single();
 
@@ -90,6 +100,9 @@ export function ProfileSettingsModal({
       const userData = data as any;
       setName(userData.name || userName);
       setInterests(userData.interests || []);
+      const mode = isTravelMode(userData.preferred_travel_mode) ? userData.preferred_travel_mode : 'drive';
+      setTravelMode(mode);
+      setSavedTravelMode(mode);
     } catch (error) {
       console.error('Error loading user data:', error);
     }
@@ -178,6 +191,11 @@ export function ProfileSettingsModal({
 
       if (error) throw error;
 
+      if (travelMode !== savedTravelMode && !(await setPreferredTravelMode(userId, travelMode))) {
+        throw new Error('Failed to update travel mode');
+      }
+      setSavedTravelMode(travelMode);
+
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       Alert.alert('Success', 'Profile updated successfully!');
       onClose();
@@ -493,6 +511,54 @@ export function ProfileSettingsModal({
               </View>
             </View>
 
+            {/* Travel Mode */}
+            <View
+              style={[
+                styles.card,
+                {
+                  backgroundColor: isDark ? BrandColors.darkGray : BrandColors.white,
+                  borderColor: colors.border,
+                },
+              ]}
+            >
+              <Text style={[Typography.titleLarge, { color: colors.text, marginBottom: 8 }]}>
+                Getting Around
+              </Text>
+              <Text style={[Typography.bodySmall, { color: colors.icon, marginBottom: 12 }]}>
+                Used for travel times and when to leave
+              </Text>
+              <View style={styles.interestsGrid}>
+                {TRAVEL_MODES.map((mode) => (
+                  <TouchableOpacity
+                    key={mode}
+                    onPress={() => {
+                      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                      setTravelMode(mode);
+                    }}
+                    style={[
+                      styles.interestChip,
+                      travelMode === mode && styles.interestChipSelected,
+                      {
+                        backgroundColor: travelMode === mode
+                          ? BrandColors.loopBlue
+                          : (isDark ? BrandColors.mediumGray : BrandColors.lightBackground),
+                        borderColor: travelMode === mode ? BrandColors.loopBlue : colors.border,
+                      },
+                    ]}
+                  >
+                    <Text
+                      style={[
+                        Typography.bodyMedium,
+                        { color: travelMode === mode ? '#ffffff' : colors.text },
+                      ]}
+                    >
+                      {TRAVEL_MODE_LABELS[mode]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
             {/* Referral Rewards */}
             <TouchableOpacity
               style={[
@@ -6,11 +6,15 @@
  * - "ON YOUR RADAR" badge with radar icon
  * - Shows WHY it matched: "Matched your Artist Radar"
  * - Same card structure as regular activity cards but visually distinct
+ * - "Not what I meant" on event alerts reports a false positive, so the
+ *   radar skips similar events
+ * - Follow-ups (on sale, presale, price drop, few tickets left) swap the
+ *   badge; event alerts with a price offer "Alert me under $X" chips
  *
  * Uses react-native-reanimated for the pulsing border animation.
  */
 
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -32,7 +36,7 @@ import { LinearGradient } from 'expo-linear-gradient';
 import * as Haptics from 'expo-haptics';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { ThemeColors, BrandColors, Shadows, Spacing, BorderRadius } from '@/constants/brand';
-import type { HookNotification , RadarMatch } from '@/types/radar';
+import type { HookNotification, RadarAlertKind, RadarMatch } from '@/types/radar';
 
 
 const SCREEN_WIDTH = Dimensions.get('window').width;
@@ -40,6 +44,18 @@ const CARD_MARGIN = 8;
 const CARD_WIDTH = SCREEN_WIDTH - (CARD_MARGIN * 2);
 const IMAGE_HEIGHT = 200;
 
+const FOLLOW_UP_BADGES: Partial<Record<RadarAlertKind, { label: string; icon: keyof typeof Ionicons.glyphMap }>> = {
+  onsale: { label: 'ON SALE NOW', icon: 'ticket-outline' },
+  presale: { label: 'PRESALE OPEN', icon: 'key-outline' },
+  price_drop: { label: 'PRICE DROP', icon: 'trending-down-outline' },
+  low_inventory: { label: 'FEW TICKETS LEFT', icon: 'flame-outline' },
+};
+
+/** Price alert choices: about 10% and 25% under the current lowest price */
+function getPriceAlertOptions(priceMin: number): number[] {
+  return [...new Set([Math.floor(priceMin * 0.9), Math.floor(priceMin * 0.75)])].filter(p => p > 0);
+}
+
 // ============================================================================
 // PROPS
 // ============================================================================
@@ -50,6 +66,10 @@ interface RadarAlertCardProps {
   onDismiss?: () => void;
   onGetTickets?: () => void;
   onSave?: () => void;
+  /** Wrong artist/venue/event — dismiss and stop similar alerts for this radar */
+  onNotWhatIMeant?: () => void;
+  /** Follow up when the lowest price drops to the threshold (null clears it) */
+  onSetPriceAlert?: (threshold: number | null) => void;
   index: number;
 }
 
@@ -63,6 +83,8 @@ export function RadarAlertCard({
   onDismiss,
   onGetTickets,
   onSave,
+  onNotWhatIMeant,
+  onSetPriceAlert,
   index,
 }: RadarAlertCardProps) {
   const colorScheme = useColorScheme();
@@ -112,6 +134,25 @@ export function RadarAlertCard({
     onSave?.();
   };
 
+  const handleNotWhatIMeant = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onNotWhatIMeant?.();
+  };
+
+  const canReportMismatch = !!onNotWhatIMeant && !!event && !notification.proximityData;
+
+  const [priceAlert, setPriceAlert] = useState<number | null>(null);
+  const priceAlertOptions = onSetPriceAlert && hasPrice && !isPlaceResult ? getPriceAlertOptions(event!.priceMin!) : [];
+
+  const handlePriceAlert = (threshold: number) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const next = priceAlert === threshold ? null : threshold;
+    setPriceAlert(next);
+    onSetPriceAlert?.(next);
+  };
+
+  const followUpBadge = notification.alertKind ? FOLLOW_UP_BADGES[notification.alertKind] : undefined;
+
   const priceText = hasPrice
     ? event!.priceMax && event!.priceMax !== event!.priceMin
       ? `$${event!.priceMin} - $${event!.priceMax}`
@@ -135,8 +176,8 @@ export function RadarAlertCard({
         {/* ON YOUR RADAR badge */}
         <View style={styles.radarBadgeRow}>
           <View style={styles.radarBadge}>
-            <Ionicons name="radio-outline" size={14} color={BrandColors.loopPurple} />
-            <Text style={styles.radarBadgeText}>ON YOUR RADAR</Text>
+            <Ionicons name={followUpBadge?.icon || 'radio-outline'} size={14} color={BrandColors.loopPurple} />
+            <Text style={styles.radarBadgeText}>{followUpBadge?.label || 'ON YOUR RADAR'}</Text>
           </View>
           <Pressable
             onPress={handleDismiss}
@@ -195,12 +236,22 @@ export function RadarAlertCard({
             </>
           ) : (
             <>
+              {/* Proximity layout: distance and shared free time */}
+              {notification.proximityData && (
+                <View style={styles.infoRow}>
+                  <Ionicons name="people-outline" size={14} color={colors.textSecondary} />
+                  <Text style={[styles.infoText, { color: colors.textSecondary }]} numberOfLines={1}>
+                    {notification.body}
+                  </Text>
+                </View>
+              )}
+
               {/* Event layout: venue, date, price */}
               {event?.venue && (
                 <View style={styles.infoRow}>
                   <Ionicons name="location-outline" size={14} color={colors.textSecondary} />
                   <Text style={[styles.infoText, { color: colors.textSecondary }]} numberOfLines={1}>
-                    {event.venue}
+                    {event.venue}{event.watchCity ? ` · ${event.watchCity}` : ''}
                   </Text>
                 </View>
               )}
@@ -220,12 +271,46 @@ export function RadarAlertCard({
                     <Text style={styles.priceText}>{priceText}</Text>
                   </View>
                 )}
+                {event?.travelMiles != null && (
+                  <Text style={[styles.distanceText, { color: colors.textSecondary }]}>
+                    {event.travelMiles} mi from home
+                  </Text>
+                )}
                 {event?.distanceMiles != null && (
                   <Text style={[styles.distanceText, { color: colors.textSecondary }]}>
                     {event.distanceMiles.toFixed(1)} mi away
                   </Text>
                 )}
               </View>
+
+              {/* Price alert: follow up if the lowest price drops */}
+              {priceAlertOptions.length > 0 && (
+                <View style={styles.metaRow}>
+                  <Ionicons name="notifications-outline" size={14} color={colors.textSecondary} />
+                  <Text style={[styles.distanceText, { color: colors.textSecondary }]}>Alert me under</Text>
+                  {priceAlertOptions.map(threshold => {
+                    const selected = priceAlert === threshold;
+                    return (
+                      <Pressable
+                        key={threshold}
+                        style={[
+                          styles.priceAlertChip,
+                          { borderColor: selected ? loopPurple : colors.border },
+                          selected && styles.priceAlertChipSelected,
+                        ]}
+                        onPress={() => handlePriceAlert(threshold)}
+                        accessibilityLabel={`Alert me if tickets drop under $${threshold}`}
+                        accessibilityRole="button"
+                        accessibilityState={{ selected }}
+                      >
+                        <Text style={[styles.priceAlertChipText, { color: selected ? '#FFFFFF' : colors.text }]}>
+                          ${threshold}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+              )}
             </>
           )}
 
@@ -235,6 +320,17 @@ export function RadarAlertCard({
             <Text style={[styles.matchReasonText, { color: BrandColors.loopPurple }]}>
               {radarMatch.matchReason}
             </Text>
+            {canReportMismatch && (
+              <Pressable
+                style={styles.mismatchButton}
+                onPress={handleNotWhatIMeant}
+                hitSlop={8}
+                accessibilityLabel={`${event?.name || notification.title} isn't what I meant`}
+                accessibilityRole="button"
+              >
+                <Text style={[styles.mismatchText, { color: colors.textSecondary }]}>Not what I meant</Text>
+              </Pressable>
+            )}
           </View>
         </View>
 
@@ -396,6 +492,19 @@ const styles = StyleSheet.create({
   distanceText: {
     fontSize: 14,
   },
+  priceAlertChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 3,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+  },
+  priceAlertChipSelected: {
+    backgroundColor: loopPurple,
+  },
+  priceAlertChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
   matchReasonRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -406,6 +515,13 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '600',
   },
+  mismatchButton: {
+    marginLeft: 'auto',
+  },
+  mismatchText: {
+    fontSize: 12,
+    textDecorationLine: 'underline',
+  },
   actionRow: {
     flexDirection: 'row',
     gap: Spacing.sm,
@@ -0,0 +1,347 @@
+/**
+ * Radar Delivery Settings — how radar alerts reach you
+ *
+ * Section of the "My Radar" screen (Plus only):
+ * - Instant pushes, or a daily / weekly digest
+ * - Quiet hours (alerts held overnight arrive as one digest)
+ * - Max pushes per day (highest-priority radar types go first)
+ *
+ * Times are shown and saved in the device timezone so the server-side
+ * sweep can apply them (radar-delivery-service).
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  Switch,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { ThemeColors, BrandColors, Spacing, BorderRadius } from '@/constants/brand';
+import {
+  getDeviceTimezone,
+  getRadarDeliveryPreferences,
+  MAX_PUSHES_PER_DAY_LIMIT,
+  updateRadarDeliveryPreferences,
+} from '@/services/radar-delivery-service';
+import { DEFAULT_RADAR_DELIVERY, RADAR_LIMITS } from '@/types/radar';
+import type { RadarDeliveryMode, RadarDeliveryPreferences } from '@/types/radar';
+import type { SubscriptionTier } from '@/types/subscription';
+
+// ============================================================================
+// PROPS
+// ============================================================================
+
+interface RadarDeliverySettingsProps {
+  userId: string;
+  tier: SubscriptionTier;
+}
+
+const MODE_OPTIONS: { mode: RadarDeliveryMode; label: string }[] = [
+  { mode: 'instant', label: 'Instant' },
+  { mode: 'daily_digest', label: 'Daily digest' },
+  { mode: 'weekly_digest', label: 'Weekly digest' },
+];
+
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export function RadarDeliverySettings({ userId, tier }: RadarDeliverySettingsProps) {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const colors = isDark ? ThemeColors.dark : ThemeColors.light;
+
+  const [prefs, setPrefs] = useState<RadarDeliveryPreferences>(DEFAULT_RADAR_DELIVERY);
+  const isPlus = RADAR_LIMITS[tier].pushNotifications;
+  const isDemo = userId === 'demo-user-123';
+
+  useEffect(() => {
+    if (!isPlus || isDemo) return;
+    getRadarDeliveryPreferences(userId).then(setPrefs);
+  }, [userId, isPlus, isDemo]);
+
+  const update = (updates: Partial<RadarDeliveryPreferences>) => {
+    Haptics.selectionAsync();
+    const next = { ...prefs, ...updates, timezone: getDeviceTimezone() };
+    setPrefs(next);
+    if (isDemo) return;
+
+    updateRadarDeliveryPreferences(userId, next).then(saved => {
+      if (!saved) console.warn('[RadarDelivery] Preferences not saved');
+    });
+  };
+
+  if (!isPlus) {
+    return (
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>Alert Delivery</Text>
+        <View style={[styles.card, styles.lockedRow, { backgroundColor: colors.cardBackground }]}>
+          <Ionicons name="notifications-off-outline" size={18} color={colors.textSecondary} />
+          <Text style={[styles.lockedText, { color: colors.textSecondary }]}>
+            Push alerts, quiet hours and digests are part of Loop Plus. Your alerts show in the feed.
+          </Text>
+        </View>
+      </View>
+    );
+  }
+
+  const isDigest = prefs.mode !== 'instant';
+
+  return (
+    <View style={styles.section}>
+      <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>Alert Delivery</Text>
+
+      <View style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+        {/* Mode */}
+        <View style={styles.chipRow}>
+          {MODE_OPTIONS.map(option => {
+            const selected = prefs.mode === option.mode;
+            return (
+              <Pressable
+                key={option.mode}
+                style={[
+                  styles.chip,
+                  { borderColor: selected ? BrandColors.loopPurple : colors.border },
+                  selected && { backgroundColor: BrandColors.loopPurple },
+                ]}
+                onPress={() => update({ mode: option.mode })}
+              >
+                <Text style={[styles.chipText, { color: selected ? '#FFFFFF' : colors.text }]}>
+                  {option.label}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+
+        {isDigest ? (
+          <>
+            {prefs.mode === 'weekly_digest' && (
+              <View style={styles.row}>
+                <Text style={[styles.rowLabel, { color: colors.text }]}>Day</Text>
+                <View style={styles.weekdayRow}>
+                  {WEEKDAY_LABELS.map((label, day) => {
+                    const selected = prefs.digestDay === day;
+                    return (
+                      <Pressable
+                        key={day}
+                        style={[styles.weekday, selected && { backgroundColor: BrandColors.loopPurple }]}
+                        onPress={() => update({ digestDay: day })}
+                      >
+                        <Text style={[styles.weekdayText, { color: selected ? '#FFFFFF' : colors.textSecondary }]}>
+                          {label}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+              </View>
+            )}
+            <Stepper
+              label="Digest time"
+              value={formatHour(prefs.digestHour)}
+              colors={colors}
+              onDecrement={() => update({ digestHour: (prefs.digestHour + 23) % 24 })}
+              onIncrement={() => update({ digestHour: (prefs.digestHour + 1) % 24 })}
+            />
+          </>
+        ) : (
+          <Stepper
+            label="Max pushes per day"
+            value={String(prefs.maxPushesPerDay)}
+            colors={colors}
+            onDecrement={() => update({ maxPushesPerDay: Math.max(1, prefs.maxPushesPerDay - 1) })}
+            onIncrement={() => update({ maxPushesPerDay: Math.min(MAX_PUSHES_PER_DAY_LIMIT, prefs.maxPushesPerDay + 1) })}
+          />
+        )}
+
+        {/* Quiet hours */}
+        <View style={styles.row}>
+          <Text style={[styles.rowLabel, { color: colors.text }]}>Quiet hours</Text>
+          <Switch
+            value={prefs.quietHoursEnabled}
+            onValueChange={value => update({ quietHoursEnabled: value })}
+            trackColor={{ true: BrandColors.loopPurple, false: colors.border }}
+          />
+        </View>
+        {prefs.quietHoursEnabled && (
+          <>
+            <Stepper
+              label="From"
+              value={formatClock(prefs.quietHoursStart)}
+              colors={colors}
+              onDecrement={() => update({ quietHoursStart: shiftClock(prefs.quietHoursStart, -1) })}
+              onIncrement={() => update({ quietHoursStart: shiftClock(prefs.quietHoursStart, 1) })}
+            />
+            <Stepper
+              label="Until"
+              value={formatClock(prefs.quietHoursEnd)}
+              colors={colors}
+              onDecrement={() => update({ quietHoursEnd: shiftClock(prefs.quietHoursEnd, -1) })}
+              onIncrement={() => update({ quietHoursEnd: shiftClock(prefs.quietHoursEnd, 1) })}
+            />
+          </>
+        )}
+
+        <Text style={[styles.footnote, { color: colors.textSecondary }]}>
+          {isDigest
+            ? 'Alerts are bundled into one push and one feed card.'
+            : 'When the daily limit is reached, friend and artist radars go first; the rest wait in your feed.'}
+          {prefs.quietHoursEnabled ? ' Alerts during quiet hours arrive together afterwards.' : ''}
+          {` Times in ${prefs.timezone.replace(/_/g, ' ')}.`}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+// ============================================================================
+// SUB-COMPONENTS
+// ============================================================================
+
+function Stepper({
+  label,
+  value,
+  colors,
+  onDecrement,
+  onIncrement,
+}: {
+  label: string;
+  value: string;
+  colors: typeof ThemeColors.light;
+  onDecrement: () => void;
+  onIncrement: () => void;
+}) {
+  return (
+    <View style={styles.row}>
+      <Text style={[styles.rowLabel, { color: colors.text }]}>{label}</Text>
+      <View style={styles.stepper}>
+        <Pressable onPress={onDecrement} hitSlop={8} accessibilityLabel={`Decrease ${label}`}>
+          <Ionicons name="chevron-back" size={18} color={BrandColors.loopPurple} />
+        </Pressable>
+        <Text style={[styles.stepperValue, { color: colors.text }]}>{value}</Text>
+        <Pressable onPress={onIncrement} hitSlop={8} accessibilityLabel={`Increase ${label}`}>
+          <Ionicons name="chevron-forward" size={18} color={BrandColors.loopPurple} />
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function formatHour(hour: number): string {
+  const suffix = hour < 12 ? 'AM' : 'PM';
+  return `${hour % 12 === 0 ? 12 : hour % 12} ${suffix}`;
+}
+
+function formatClock(clock: string): string {
+  const [hours, minutes] = clock.split(':').map(Number);
+  const label = formatHour(hours);
+  return minutes ? label.replace(' ', `:${String(minutes).padStart(2, '0')} `) : label;
+}
+
+/** Move an "HH:MM" clock by whole hours, wrapping around midnight */
+function shiftClock(clock: string, hours: number): string {
+  const [h, m] = clock.split(':').map(Number);
+  return `${String((h + hours + 24) % 24).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  section: {
+    paddingHorizontal: Spacing.lg,
+    marginBottom: Spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: Spacing.sm,
+  },
+  card: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.sm,
+  },
+  lockedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  lockedText: {
+    flex: 1,
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: Spacing.xs,
+  },
+  chip: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    minHeight: 36,
+  },
+  rowLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  weekdayRow: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  weekday: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  weekdayText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  stepperValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    minWidth: 64,
+    textAlign: 'center',
+  },
+  footnote: {
+    fontSize: 12,
+    lineHeight: 17,
+  },
+});
+
+export default RadarDeliverySettings;
@@ -0,0 +1,176 @@
+/**
+ * Radar Digest Card — one feed card for a bundle of radar alerts
+ *
+ * Shown instead of individual radar alert cards when alerts were held for a
+ * daily/weekly digest or through quiet hours (radar-delivery-service).
+ * Lists the bundled alerts, highest-priority radar types first.
+ */
+
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { ThemeColors, BrandColors, Shadows, Spacing, BorderRadius } from '@/constants/brand';
+import { HOOK_TYPE_META } from '@/types/radar';
+import type { RadarDigest } from '@/types/radar';
+
+/** Alerts listed before "+N more" */
+const MAX_DIGEST_ROWS = 5;
+
+// ============================================================================
+// PROPS
+// ============================================================================
+
+interface RadarDigestCardProps {
+  digest: RadarDigest;
+  onDismiss?: () => void;
+  onOpen?: () => void;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export function RadarDigestCard({ digest, onDismiss, onOpen }: RadarDigestCardProps) {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const colors = isDark ? ThemeColors.dark : ThemeColors.light;
+
+  const rows = digest.items.slice(0, MAX_DIGEST_ROWS);
+  const extra = digest.items.length - rows.length;
+
+  return (
+    <Pressable
+      style={[styles.card, { backgroundColor: colors.cardBackground, borderColor: BrandColors.loopPurple }]}
+      onPress={() => {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        onOpen?.();
+      }}
+    >
+      <View style={styles.badgeRow}>
+        <View style={styles.badge}>
+          <Ionicons name="radio-outline" size={14} color={BrandColors.loopPurple} />
+          <Text style={styles.badgeText}>RADAR DIGEST</Text>
+        </View>
+        <Pressable
+          onPress={() => {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            onDismiss?.();
+          }}
+          hitSlop={12}
+          accessibilityLabel="Dismiss radar digest"
+          accessibilityRole="button"
+        >
+          <Ionicons name="close" size={18} color={colors.textSecondary} />
+        </Pressable>
+      </View>
+
+      <Text style={[styles.title, { color: colors.text }]}>{digest.title}</Text>
+
+      {rows.map(item => {
+        const meta = item.hookType ? HOOK_TYPE_META[item.hookType] : null;
+        return (
+          <View key={item.notificationId} style={styles.row}>
+            <Text style={styles.rowIcon}>{meta?.icon || '📡'}</Text>
+            <View style={styles.rowContent}>
+              <Text style={[styles.rowTitle, { color: colors.text }]} numberOfLines={1}>
+                {item.title}
+              </Text>
+              {(item.venue || item.date) && (
+                <Text style={[styles.rowMeta, { color: colors.textSecondary }]} numberOfLines={1}>
+                  {[item.venue, item.date && formatDigestDate(item.date)].filter(Boolean).join(' · ')}
+                </Text>
+              )}
+            </View>
+          </View>
+        );
+      })}
+
+      {extra > 0 && (
+        <Text style={[styles.more, { color: BrandColors.loopPurple }]}>+{extra} more on your radar</Text>
+      )}
+    </Pressable>
+  );
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function formatDigestDate(dateStr: string): string {
+  try {
+    const date = new Date(dateStr + 'T00:00:00');
+    return date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  } catch {
+    return dateStr;
+  }
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: 8,
+    marginBottom: Spacing.md,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1.5,
+    gap: Spacing.sm,
+    ...Shadows.md,
+  },
+  badgeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  badgeText: {
+    fontSize: 11,
+    fontWeight: '700',
+    letterSpacing: 1.2,
+    color: BrandColors.loopPurple,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  rowIcon: {
+    fontSize: 18,
+    width: 24,
+    textAlign: 'center',
+  },
+  rowContent: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  rowMeta: {
+    fontSize: 12,
+    marginTop: 1,
+  },
+  more: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default RadarDigestCard;
@@ -7,6 +7,7 @@
  * - Add new radar button
  * - Delete/toggle individual radars
  * - Tier limit display
+ * - Alert delivery settings (quiet hours, digests, push budget)
  */
 
 import React, { useState, useEffect, useCallback } from 'react';
@@ -29,6 +30,7 @@ import {
   deleteRadar,
   getRecentNotifications,
 } from '@/services/radar-service';
+import { RadarDeliverySettings } from '@/components/radar-delivery-settings';
 import { RADAR_LIMITS, HOOK_TYPE_META } from '@/types/radar';
 import type { UserHook, HookNotification, HookType } from '@/types/radar';
 import type { SubscriptionTier } from '@/types/subscription';
@@ -185,6 +187,9 @@ export function RadarManagement({ tier, onAddRadar, onClose, onViewAllAlerts }:
             )}
           </View>
 
+          {/* Alert Delivery */}
+          <RadarDeliverySettings userId={userId} tier={tier} />
+
           {/* Recent Alerts */}
           {recentAlerts.length > 0 && (
             <View style={styles.section}>
@@ -47,6 +47,15 @@ import { getMatchingPartners, openAffiliateLink, trackAffiliateClick, type Match
 import { getComments, postComment, markHelpful, type Comment } from '@/services/comments-service';
 import { getLikesCount } from '@/services/likes-service';
 import { useAuth } from '@/contexts/auth-context';
+import {
+  explainScore,
+  getFactorWeights,
+  withFactorWeight,
+  FACTOR_DOWN_WEIGHT,
+  type ExplanationFactor,
+  type FactorExplanation,
+  type FactorWeights,
+} from '@/services/score-explanation';
 import { DragHandle } from '@/components/drag-handle';
 
 const SCREEN_WIDTH = Dimensions.get('window').width;
@@ -75,66 +84,91 @@ interface SeeDetailsModalProps {
 }
 
 /**
- * Detailed 5-Bar Score Graph Component
- * Shows all score components: Interest, Location, Timing, Feedback, Collaborative
+ * "Why am I seeing this?" Panel
+ * One row per scoring factor with its share of the match, plus a
+ * "Show fewer" control that down-weights the factor for this user.
  */
-interface DetailedScoreGraphProps {
-  scoreBreakdown: {
-    baseScore: number;
-    locationScore: number;
-    timeScore: number;
-    feedbackScore: number;
-    collaborativeScore: number;
-  };
+const FACTOR_COLORS: Record<ExplanationFactor, string> = {
+  distance: ScoreBarColors.location,
+  interests: ScoreBarColors.interest,
+  friends: ScoreBarColors.social,
+  calendar: ScoreBarColors.time,
+  timeOfDay: ScoreBarColors.time,
+  feedback: ScoreBarColors.feedback,
+  popularity: ScoreBarColors.interest,
+  sponsored: BrandColors.loopBlue,
+};
+
+interface WhyThisPanelProps {
+  factors: FactorExplanation[];
   colors: typeof ThemeColors.light;
+  /** Hidden when signed out — there is no profile to save to */
+  canAdjust: boolean;
+  onToggleFactor: (factor: ExplanationFactor) => void;
 }
 
-function DetailedScoreGraph({ scoreBreakdown, colors }: DetailedScoreGraphProps) {
-  const bars = [
-    { label: 'Interest Match', value: scoreBreakdown.baseScore, max: 40, color: ScoreBarColors.interest },
-    { label: 'Location', value: scoreBreakdown.locationScore, max: 20, color: ScoreBarColors.location },
-    { label: 'Timing', value: scoreBreakdown.timeScore, max: 15, color: ScoreBarColors.time },
-    { label: 'Past Feedback', value: scoreBreakdown.feedbackScore, max: 15, color: ScoreBarColors.feedback },
-    { label: 'Similar Users', value: scoreBreakdown.collaborativeScore, max: 10, color: ScoreBarColors.social },
-  ];
-
-  const totalScore = scoreBreakdown.baseScore +
-                     scoreBreakdown.locationScore +
-                     scoreBreakdown.timeScore +
-                     scoreBreakdown.feedbackScore +
-                     scoreBreakdown.collaborativeScore;
-
-  const maxPossible = 100;
+function WhyThisPanel({ factors, colors, canAdjust, onToggleFactor }: WhyThisPanelProps) {
+  if (factors.length === 0) return null;
 
   return (
     <View style={[styles.detailedGraph, { backgroundColor: colors.card }]}>
       <View style={styles.graphHeader}>
-        <Text style={[styles.graphTitle, { color: colors.text }]}>Match Score Breakdown</Text>
-        <Text style={styles.graphTotal}>{Math.round(totalScore)}/100</Text>
+        <Text style={[styles.graphTitle, { color: colors.text }]}>Why am I seeing this?</Text>
       </View>
 
-      {bars.map((bar, index) => {
-        const percentage = (bar.value / bar.max) * 100;
+      {factors.map(item => {
+        if (item.factor === 'sponsored') {
+          return (
+            <View key={item.factor} style={styles.sponsoredDisclosure}>
+              <Ionicons name="megaphone-outline" size={14} color={colors.textSecondary} />
+              <Text style={[styles.factorDetail, { color: colors.textSecondary }]}>
+                Sponsored placement{item.points > 0 ? ` · +${item.points} pts` : ''}. The business paid to be shown here.
+              </Text>
+            </View>
+          );
+        }
+
+        const lessened = item.weight < 1;
         return (
-          <View key={index} style={styles.detailedBarContainer}>
+          <View key={item.factor} style={styles.detailedBarContainer}>
             <View style={styles.barLabelRow}>
-              <Text style={[styles.detailedBarLabel, { color: colors.textSecondary }]}>{bar.label}</Text>
-              <Text style={[styles.barScore, { color: colors.textTertiary }]}>{bar.value}/{bar.max}</Text>
+              <Text style={[styles.detailedBarLabel, { color: colors.textSecondary }]}>{item.label}</Text>
+              <Text style={[styles.barScore, { color: colors.textTertiary }]}>
+                {item.points < 0 ? `${item.points} pts` : `${Math.round(item.share * 100)}%`}
+              </Text>
             </View>
             <View style={[styles.detailedBarBackground, { backgroundColor: colors.border }]}>
               <View
                 style={[
                   styles.detailedBarFill,
                   {
-                    width: `${percentage}%`,
-                    backgroundColor: bar.color,
+                    width: `${Math.round(item.share * 100)}%`,
+                    backgroundColor: FACTOR_COLORS[item.factor],
                   }
                 ]}
               />
             </View>
+            <View style={styles.factorFooter}>
+              <Text style={[styles.factorDetail, { color: colors.textTertiary }]} numberOfLines={1}>
+                {item.detail}
+              </Text>
+              {canAdjust && item.adjustable && (
+                <Pressable onPress={() => onToggleFactor(item.factor)} hitSlop={8}>
+                  <Text style={[styles.factorControl, { color: lessened ? colors.textSecondary : BrandColors.loopBlue }]}>
+                    {lessened ? 'Showing fewer · Undo' : 'Show fewer'}
+                  </Text>
+                </Pressable>
+              )}
+            </View>
           </View>
         );
       })}
+
+      {canAdjust && (
+        <Text style={[styles.factorNote, { color: colors.textTertiary }]}>
+          Changes apply the next time your feed refreshes.
+        </Text>
+      )}
     </View>
   );
 }
@@ -213,7 +247,10 @@ export function SeeDetailsModal({
   const modalScale = useSharedValue<number>(BOTTOM_SHEET_BLUR.sheetInitialScale);
   const scrollViewRef = useRef<ScrollView>(null);
   const commentsYRef = useRef(0);
-  const { user } = useAuth();
+  const { user, updateAIProfile } = useAuth();
+
+  // "Why am I seeing this?" down-weights, mirrored locally for instant feedback
+  const [factorWeights, setFactorWeights] = useState<FactorWeights>({});
 
   // Reviews state
   const [reviews, setReviews] = useState<PlaceReview[]>([]);
@@ -282,6 +319,10 @@ export function SeeDetailsModal({
     return () => { isMounted = false; };
   }, [visible, recommendation?.activity?.googlePlaceId]);
 
+  useEffect(() => {
+    if (visible) setFactorWeights(getFactorWeights(user?.ai_profile ?? null));
+  }, [visible, user?.ai_profile]);
+
   // Scroll to comments section when triggered from card comment icon
   useEffect(() => {
     if (scrollToComments && visible && !loadingReviews && commentsYRef.current > 0) {
@@ -312,6 +353,23 @@ export function SeeDetailsModal({
     }
   }
 
+  async function handleToggleFactor(factor: ExplanationFactor) {
+    if (!user) return;
+
+    const previous = factorWeights[factor] ?? 1;
+    const next = previous < 1 ? 1 : FACTOR_DOWN_WEIGHT;
+    Haptics.selectionAsync();
+    setFactorWeights(prev => ({ ...prev, [factor]: next }));
+
+    // Applied to the latest saved profile, so quick toggles don't undo each other
+    const { error } = await updateAIProfile(aiProfile => withFactorWeight(aiProfile, factor, next));
+    if (error) {
+      console.error('[WhyThis] Failed to save factor weight:', error);
+      setFactorWeights(prev => ({ ...prev, [factor]: previous }));
+      Alert.alert('Couldn’t save', 'Please try again.');
+    }
+  }
+
   useEffect(() => {
     if (visible) {
       slideY.value = withSpring(0, MODAL_SPRING);
@@ -934,10 +992,18 @@ export function SeeDetailsModal({
                 </View>
               )}
 
-              {/* Detailed Score Breakdown */}
-              {recommendation.scoreBreakdown && (
+              {/* Why am I seeing this? — factor breakdown with per-user down-weights */}
+              {(recommendation.scoreBreakdown || recommendation.isSponsored) && (
                 <View style={styles.section}>
-                  <DetailedScoreGraph scoreBreakdown={recommendation.scoreBreakdown} colors={colors} />
+                  <WhyThisPanel
+                    factors={explainScore(recommendation.scoreBreakdown, {
+                      isSponsored: recommendation.isSponsored,
+                      factorWeights,
+                    })}
+                    colors={colors}
+                    canAdjust={!!user}
+                    onToggleFactor={handleToggleFactor}
+                  />
                 </View>
               )}
 
@@ -1773,7 +1839,7 @@ const styles = StyleSheet.create({
     marginBottom: Spacing.sm,
   },
 
-  // DETAILED SCORE GRAPH
+  // WHY AM I SEEING THIS
   detailedGraph: {
     padding: Spacing.md,
     borderRadius: BorderRadius.md,
@@ -1788,11 +1854,6 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '700',
   },
-  graphTotal: {
-    fontSize: 20,
-    fontWeight: '800',
-    color: BrandColors.loopBlue,
-  },
   detailedBarContainer: {
     marginBottom: Spacing.sm,
   },
@@ -1819,6 +1880,31 @@ const styles = StyleSheet.create({
     height: '100%',
     borderRadius: 4,
   },
+  factorFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    marginTop: 4,
+  },
+  factorDetail: {
+    flex: 1,
+    fontSize: 12,
+  },
+  factorControl: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  factorNote: {
+    fontSize: 11,
+    marginTop: Spacing.xs,
+  },
+  sponsoredDisclosure: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    marginTop: Spacing.xs,
+  },
 
   // REVIEW SUMMARY
   reviewSummary: {
@@ -4,7 +4,10 @@
  * Sections:
  * 1. Friends row — horizontal avatars, tap to select, blue check overlay
  * 2. Send button — animated pill, shows "Send to N"
- * 3. Action row — Copy Link, Share, Save Image
+ * 3. Action row — Copy Link, Share, Save Image, Add to Calendar (.ics)
+ *
+ * Without a recommendation (sharing a day, loop or group plan) only the
+ * calendar export is shown.
  */
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
@@ -21,6 +24,7 @@ import {
   Dimensions,
   ActivityIndicator,
   Platform,
+  Alert,
  Image } from 'react-native';
 
 import { Ionicons } from '@expo/vector-icons';
@@ -32,6 +36,7 @@ import { BrandColors, ThemeColors, Spacing, BorderRadius, Typography } from '@/c
 import { Colors } from '@/constants/theme';
 import { getFriends } from '@/services/friends-service';
 import { sendActivityShare, type ActivityShareMetadata } from '@/services/chat-service';
+import { exportToICS, shareICS, type CalendarExportTarget } from '@/services/ical-service';
 import type { Recommendation } from '@/types/activity';
 import type { Friend } from '@/types/friend';
 
@@ -46,6 +51,8 @@ interface ShareBottomSheetProps {
   visible: boolean;
   onClose: () => void;
   recommendation: Recommendation | null;
+  /** Adds an "Add to Calendar" action that shares this as an .ics file */
+  calendarExport?: CalendarExportTarget | null;
   onShareSuccess?: () => void;
 }
 
@@ -57,6 +64,7 @@ export function ShareBottomSheet({
   visible,
   onClose,
   recommendation,
+  calendarExport,
   onShareSuccess,
 }: ShareBottomSheetProps) {
   const colorScheme = useColorScheme();
@@ -71,13 +79,14 @@ export function ShareBottomSheet({
   const [searchQuery, setSearchQuery] = useState('');
   const [sending, setSending] = useState(false);
   const [copiedFlash, setCopiedFlash] = useState(false);
+  const [exporting, setExporting] = useState(false);
 
   // Slide animation
   const slideAnim = useRef(new Animated.Value(0)).current;
 
   useEffect(() => {
     if (visible) {
-      loadFriends();
+      if (recommendation) loadFriends();
       setSelectedIds(new Set());
       setSearchQuery('');
       Animated.spring(slideAnim, {
@@ -180,6 +189,23 @@ export function ShareBottomSheet({
     }
   };
 
+  const handleCalendarExport = async () => {
+    if (!calendarExport || !user?.id || exporting) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setExporting(true);
+    const file = await exportToICS(user.id, calendarExport, user.timezone);
+    setExporting(false);
+
+    if (!file) {
+      Alert.alert('Export Failed', 'Could not create the calendar file. Please try again.');
+      return;
+    }
+    if (await shareICS(file)) {
+      onShareSuccess?.();
+      onClose();
+    }
+  };
+
   // -----------------------------------------------------------------------
   // Render helpers
   // -----------------------------------------------------------------------
@@ -251,6 +277,7 @@ export function ShareBottomSheet({
             paddingBottom: insets.bottom + Spacing.md,
             transform: [{ translateY }],
           },
+          !recommendation && styles.sheetCompact,
         ]}
       >
         {/* Drag handle */}
@@ -259,110 +286,139 @@ export function ShareBottomSheet({
         {/* Title */}
         <Text style={[styles.title, { color: colors.text }]}>Share</Text>
 
-        {/* Search bar */}
-        <View style={[styles.searchContainer, { backgroundColor: colors.background }]}>
-          <Ionicons name="search-outline" size={18} color={themeColors.textSecondary} />
-          <TextInput
-            style={[styles.searchInput, { color: colors.text }]}
-            placeholder="Search friends..."
-            placeholderTextColor={themeColors.textSecondary}
-            value={searchQuery}
-            onChangeText={setSearchQuery}
-            testID="share-search-input"
-          />
-        </View>
-
-        {/* Friends row */}
-        {loading ? (
-          <View style={styles.loadingRow}>
-            <ActivityIndicator color={BrandColors.loopBlue} />
-          </View>
-        ) : filteredFriends.length === 0 ? (
-          <View style={styles.emptyRow}>
-            <Text style={[styles.emptyText, { color: themeColors.textSecondary }]}>
-              {searchQuery ? 'No friends match your search' : 'Add friends to share activities'}
-            </Text>
-          </View>
-        ) : (
-          <FlatList
-            data={filteredFriends}
-            renderItem={renderFriend}
-            keyExtractor={(item) => item.id}
-            horizontal
-            showsHorizontalScrollIndicator={false}
-            contentContainerStyle={styles.friendsList}
-            testID="friends-list"
-          />
-        )}
+        {recommendation && (
+          <>
+            {/* Search bar */}
+            <View style={[styles.searchContainer, { backgroundColor: colors.background }]}>
+              <Ionicons name="search-outline" size={18} color={themeColors.textSecondary} />
+              <TextInput
+                style={[styles.searchInput, { color: colors.text }]}
+                placeholder="Search friends..."
+                placeholderTextColor={themeColors.textSecondary}
+                value={searchQuery}
+                onChangeText={setSearchQuery}
+                testID="share-search-input"
+              />
+            </View>
 
-        {/* Send button */}
-        {selectedIds.size > 0 && (
-          <TouchableOpacity
-            style={[styles.sendButton, sending && styles.sendButtonDisabled]}
-            onPress={handleSend}
-            disabled={sending}
-            activeOpacity={0.8}
-            testID="send-button"
-          >
-            {sending ? (
-              <ActivityIndicator color="#FFF" size="small" />
+            {/* Friends row */}
+            {loading ? (
+              <View style={styles.loadingRow}>
+                <ActivityIndicator color={BrandColors.loopBlue} />
+              </View>
+            ) : filteredFriends.length === 0 ? (
+              <View style={styles.emptyRow}>
+                <Text style={[styles.emptyText, { color: themeColors.textSecondary }]}>
+                  {searchQuery ? 'No friends match your search' : 'Add friends to share activities'}
+                </Text>
+              </View>
             ) : (
-              <Text style={styles.sendButtonText}>
-                Send to {selectedIds.size}
-              </Text>
+              <FlatList
+                data={filteredFriends}
+                renderItem={renderFriend}
+                keyExtractor={(item) => item.id}
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                contentContainerStyle={styles.friendsList}
+                testID="friends-list"
+              />
             )}
-          </TouchableOpacity>
-        )}
 
-        {/* Divider */}
-        <View style={[styles.divider, { backgroundColor: colors.border }]} />
+            {/* Send button */}
+            {selectedIds.size > 0 && (
+              <TouchableOpacity
+                style={[styles.sendButton, sending && styles.sendButtonDisabled]}
+                onPress={handleSend}
+                disabled={sending}
+                activeOpacity={0.8}
+                testID="send-button"
+              >
+                {sending ? (
+                  <ActivityIndicator color="#FFF" size="small" />
+                ) : (
+                  <Text style={styles.sendButtonText}>
+                    Send to {selectedIds.size}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            )}
+
+            {/* Divider */}
+            <View style={[styles.divider, { backgroundColor: colors.border }]} />
+          </>
+        )}
 
         {/* Action row */}
         <View style={styles.actionRow}>
-          {/* Copy Link */}
-          <TouchableOpacity
-            style={styles.actionButton}
-            onPress={handleCopyLink}
-            testID="copy-link-button"
-          >
-            <View style={[styles.actionIcon, { backgroundColor: colors.background }]}>
-              <Ionicons name="copy-outline" size={22} color={colors.text} />
-            </View>
-            <Text style={[styles.actionLabel, { color: themeColors.textSecondary }]}>
-              {copiedFlash ? 'Copied!' : 'Copy Link'}
-            </Text>
-          </TouchableOpacity>
-
-          {/* Share */}
-          <TouchableOpacity
-            style={styles.actionButton}
-            onPress={handleNativeShare}
-            testID="native-share-button"
-          >
-            <View style={[styles.actionIcon, { backgroundColor: colors.background }]}>
-              <Ionicons name="share-outline" size={22} color={colors.text} />
-            </View>
-            <Text style={[styles.actionLabel, { color: themeColors.textSecondary }]}>
-              Share
-            </Text>
-          </TouchableOpacity>
-
-          {/* Save Image (placeholder — requires react-native-view-shot + permissions) */}
-          <TouchableOpacity
-            style={styles.actionButton}
-            onPress={() => {
-              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-              // Future: capture branded card + save via MediaLibrary
-            }}
-            testID="save-image-button"
-          >
-            <View style={[styles.actionIcon, { backgroundColor: colors.background }]}>
-              <Ionicons name="download-outline" size={22} color={colors.text} />
-            </View>
-            <Text style={[styles.actionLabel, { color: themeColors.textSecondary }]}>
-              Save Image
-            </Text>
-          </TouchableOpacity>
+          {recommendation && (
+            <>
+              {/* Copy Link */}
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={handleCopyLink}
+                testID="copy-link-button"
+              >
+                <View style={[styles.actionIcon, { backgroundColor: colors.background }]}>
+                  <Ionicons name="copy-outline" size={22} color={colors.text} />
+                </View>
+                <Text style={[styles.actionLabel, { color: themeColors.textSecondary }]}>
+                  {copiedFlash ? 'Copied!' : 'Copy Link'}
+                </Text>
+              </TouchableOpacity>
+
+              {/* Share */}
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={handleNativeShare}
+                testID="native-share-button"
+              >
+                <View style={[styles.actionIcon, { backgroundColor: colors.background }]}>
+                  <Ionicons name="share-outline" size={22} color={colors.text} />
+                </View>
+                <Text style={[styles.actionLabel, { color: themeColors.textSecondary }]}>
+                  Share
+                </Text>
+              </TouchableOpacity>
+
+              {/* Save Image (placeholder — requires react-native-view-shot + permissions) */}
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() => {
+                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                  // Future: capture branded card + save via MediaLibrary
+                }}
+                testID="save-image-button"
+              >
+                <View style={[styles.actionIcon, { backgroundColor: colors.background }]}>
+                  <Ionicons name="download-outline" size={22} color={colors.text} />
+                </View>
+                <Text style={[styles.actionLabel, { color: themeColors.textSecondary }]}>
+                  Save Image
+                </Text>
+              </TouchableOpacity>
+            </>
+          )}
+
+          {/* Add to Calendar (.ics) */}
+          {calendarExport && (
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={handleCalendarExport}
+              disabled={exporting}
+              testID="calendar-export-button"
+            >
+              <View style={[styles.actionIcon, { backgroundColor: colors.background }]}>
+                {exporting ? (
+                  <ActivityIndicator color={colors.text} size="small" />
+                ) : (
+                  <Ionicons name="calendar-outline" size={22} color={colors.text} />
+                )}
+              </View>
+              <Text style={[styles.actionLabel, { color: themeColors.textSecondary }]}>
+                Add to Calendar
+              </Text>
+            </TouchableOpacity>
+          )}
         </View>
       </Animated.View>
     </Modal>
@@ -389,6 +445,9 @@ const styles = StyleSheet.create({
     paddingTop: Spacing.sm,
     minHeight: 320,
   },
+  sheetCompact: {
+    minHeight: 0,
+  },
   dragHandle: {
     width: 36,
     height: 4,
@@ -0,0 +1,236 @@
+/**
+ * Weekend Plan Sheet
+ *
+ * Shows ranked alternative itineraries from services/weekend-planner.ts,
+ * one card per plan with its stops grouped by day. "Add to calendar"
+ * accepts the whole plan in one tap.
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  ScrollView,
+  Modal,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { ThemeColors, BrandColors, Spacing, BorderRadius } from '@/constants/brand';
+import type { WeekendPlan } from '@/types/time-slots';
+
+// ============================================================================
+// PROPS
+// ============================================================================
+
+interface WeekendPlanSheetProps {
+  visible: boolean;
+  /** Ranked plans, best first */
+  plans: WeekendPlan[];
+  /** True while plans are being generated */
+  loading: boolean;
+  onClose: () => void;
+  /** Create calendar events for the plan; resolves true on success */
+  onAccept: (plan: WeekendPlan) => Promise<boolean>;
+}
+
+function formatTime(date: Date): string {
+  return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export function WeekendPlanSheet({
+  visible,
+  plans,
+  loading,
+  onClose,
+  onAccept,
+}: WeekendPlanSheetProps) {
+  const colorScheme = useColorScheme();
+  const colors = colorScheme === 'dark' ? ThemeColors.dark : ThemeColors.light;
+  const [acceptingId, setAcceptingId] = useState<string | null>(null);
+
+  const handleAccept = async (plan: WeekendPlan) => {
+    if (acceptingId) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setAcceptingId(plan.id);
+    try {
+      const accepted = await onAccept(plan);
+      if (accepted) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+    } finally {
+      setAcceptingId(null);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={[styles.modal, { backgroundColor: colors.background }]}>
+        {/* Header */}
+        <View style={styles.sheetHeader}>
+          <Pressable onPress={onClose}>
+            <Ionicons name="close" size={24} color={colors.text} />
+          </Pressable>
+          <Text style={[styles.sheetTitle, { color: colors.text }]}>Your Weekend</Text>
+          <View style={{ width: 24 }} />
+        </View>
+
+        {loading ? (
+          <View style={styles.centered}>
+            <ActivityIndicator color={BrandColors.loopBlue} />
+          </View>
+        ) : plans.length === 0 ? (
+          <View style={styles.centered}>
+            <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+              Nothing fits your free time this weekend. Try refreshing your feed.
+            </Text>
+          </View>
+        ) : (
+          <ScrollView contentContainerStyle={styles.content}>
+            {plans.map((plan, index) => (
+              <View key={plan.id} style={[styles.planCard, { backgroundColor: colors.cardBackground, borderColor: colors.border }]}>
+                <Text style={[styles.planTitle, { color: colors.text }]}>
+                  {index === 0 ? 'Best plan' : `Option ${index + 1}`}
+                </Text>
+                <Text style={[styles.planMeta, { color: colors.textSecondary }]}>
+                  {plan.categories.join(' · ')} · {plan.totalTravelMinutes} min driving
+                </Text>
+
+                {plan.days.map(day => (
+                  <View key={day.date.toISOString()} style={styles.day}>
+                    <Text style={[styles.daySummary, { color: colors.text }]}>{day.summary}</Text>
+                    {day.stops.map(stop => (
+                      <View key={stop.recommendation.id} style={styles.stopRow}>
+                        <Text style={[styles.stopTime, { color: colors.textSecondary }]}>
+                          {formatTime(stop.start)}
+                        </Text>
+                        <View style={styles.stopInfo}>
+                          <Text style={[styles.stopTitle, { color: colors.text }]} numberOfLines={1}>
+                            {stop.recommendation.title}
+                          </Text>
+                          <Text style={[styles.stopMeta, { color: colors.textSecondary }]} numberOfLines={1}>
+                            {stop.meal ? `${stop.meal} · ` : ''}
+                            {stop.travelMinutes > 0 ? `${stop.travelMinutes} min away` : stop.recommendation.category}
+                          </Text>
+                        </View>
+                      </View>
+                    ))}
+                  </View>
+                ))}
+
+                <Pressable
+                  style={[styles.acceptButton, { backgroundColor: BrandColors.loopBlue, opacity: acceptingId && acceptingId !== plan.id ? 0.5 : 1 }]}
+                  onPress={() => handleAccept(plan)}
+                  disabled={!!acceptingId}
+                >
+                  {acceptingId === plan.id ? (
+                    <ActivityIndicator color="#FFFFFF" />
+                  ) : (
+                    <Text style={styles.acceptText}>Add to calendar</Text>
+                  )}
+                </Pressable>
+              </View>
+            ))}
+          </ScrollView>
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modal: {
+    flex: 1,
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.lg,
+    paddingBottom: Spacing.md,
+  },
+  sheetTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: Spacing.xl,
+  },
+  emptyText: {
+    fontSize: 15,
+    textAlign: 'center',
+  },
+  content: {
+    padding: Spacing.lg,
+    paddingBottom: 40,
+    gap: Spacing.md,
+  },
+  planCard: {
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+    padding: Spacing.md,
+  },
+  planTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+  },
+  planMeta: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  day: {
+    marginTop: Spacing.md,
+    gap: Spacing.xs,
+  },
+  daySummary: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  stopRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  stopTime: {
+    width: 72,
+    fontSize: 13,
+  },
+  stopInfo: {
+    flex: 1,
+  },
+  stopTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  stopMeta: {
+    fontSize: 12,
+    textTransform: 'capitalize',
+  },
+  acceptButton: {
+    marginTop: Spacing.md,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.full,
+    alignItems: 'center',
+  },
+  acceptText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,112 @@
+/**
+ * Experiments
+ *
+ * Per-user A/B experiment definitions. Unlike FEATURE_FLAGS (global on/off),
+ * each experiment splits users across weighted variants; every variant
+ * carries the parameters the code under test reads.
+ *
+ * Assignment and exposure logging live in services/experiment-service.ts.
+ *
+ * REVERT STRATEGY: Set the experiment's env flag to 'false' (or remove it)
+ * → everyone gets the first (control) variant and no exposures are logged.
+ */
+
+// ============================================================================
+// VARIANT PARAMETERS
+// ============================================================================
+
+/** Read by generateRecommendations and applyBusinessRules */
+export interface FeedRankingParams {
+  /** Max random score offset applied to lower-ranked cards on refresh (±half) */
+  shuffleAmplitude: number;
+  /** Per-category cap in the top 10; null = use DISCOVERY_STYLE_CONFIG */
+  maxPerCategoryInTop10: number | null;
+  /** Cap on Ticketmaster events in the top 10 */
+  maxEventsInTop10: number;
+}
+
+/** Read by utils/upgrade-prompts.ts */
+export interface UpgradePromptParams {
+  /** Replaces the prompt title; null = keep the default copy */
+  title: string | null;
+  /** Replaces the primary button label; null = keep the default copy */
+  primaryButton: string | null;
+  /** Show the feature checklist under the message */
+  showFeatureHighlight: boolean;
+}
+
+export interface ExperimentParamsMap {
+  feed_ranking: FeedRankingParams;
+  upgrade_prompt_copy: UpgradePromptParams;
+}
+
+export type ExperimentKey = keyof ExperimentParamsMap;
+
+// ============================================================================
+// DEFINITIONS
+// ============================================================================
+
+export interface ExperimentVariant<P> {
+  name: string;
+  /** Relative weight; weights don't need to sum to 100 */
+  weight: number;
+  params: P;
+}
+
+export interface ExperimentDefinition<P> {
+  description: string;
+  enabled: boolean;
+  /** First variant is control: served when the experiment is disabled */
+  variants: ExperimentVariant<P>[];
+}
+
+export const EXPERIMENTS: { [K in ExperimentKey]: ExperimentDefinition<ExperimentParamsMap[K]> } = {
+  /**
+   * Feed ranking: less shuffle vs tighter category diversity
+   */
+  feed_ranking: {
+    description: 'Feed ranking shuffle and diversity caps',
+    enabled: process.env.EXPO_PUBLIC_EXP_FEED_RANKING === 'true',
+    variants: [
+      {
+        name: 'control',
+        weight: 50,
+        params: { shuffleAmplitude: 10, maxPerCategoryInTop10: null, maxEventsInTop10: 4 },
+      },
+      {
+        name: 'stable',
+        weight: 25,
+        params: { shuffleAmplitude: 4, maxPerCategoryInTop10: null, maxEventsInTop10: 4 },
+      },
+      {
+        name: 'diverse',
+        weight: 25,
+        params: { shuffleAmplitude: 10, maxPerCategoryInTop10: 2, maxEventsInTop10: 3 },
+      },
+    ],
+  },
+
+  /**
+   * Refresh-cooldown upgrade prompt copy
+   */
+  upgrade_prompt_copy: {
+    description: 'Upgrade prompt headline and CTA wording',
+    enabled: process.env.EXPO_PUBLIC_EXP_UPGRADE_PROMPT_COPY === 'true',
+    variants: [
+      {
+        name: 'control',
+        weight: 50,
+        params: { title: null, primaryButton: null, showFeatureHighlight: true },
+      },
+      {
+        name: 'direct',
+        weight: 50,
+        params: {
+          title: 'Want fresh picks right now?',
+          primaryButton: 'Try Loop Plus',
+          showFeatureHighlight: false,
+        },
+      },
+    ],
+  },
+};
@@ -1,9 +1,9 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
 import { Session, User as SupabaseUser, AuthChangeEvent } from '@supabase/supabase-js';
 import { makeRedirectUri } from 'expo-auth-session';
 import * as WebBrowser from 'expo-web-browser';
 import { supabase } from '@/lib/supabase';
-import { User, UserInsert, UserUpdate, BusinessProfile } from '@/types/database';
+import { Json, User, UserInsert, UserUpdate, BusinessProfile } from '@/types/database';
 import {
   signInWithGoogleNative,
   signInWithAppleNative,
@@ -15,6 +15,7 @@ import { type ExtractedGoogleData } from '@/services/google-data';
 import { registerPushToken } from '@/services/radar-push-service';
 import { checkAndUpdateStreak } from '@/services/gamification-service';
 import { trackSignUp, trackLogin, trackEvent } from '@/utils/analytics';
+import { getDeviceTimezone } from '@/utils/timezone';
 
 // Required for OAuth redirect
 WebBrowser.maybeCompleteAuthSession();
@@ -32,6 +33,7 @@ interface AuthContextType {
   signInWithFacebook: () => Promise<{ error: Error | null }>;
   signOut: () => Promise<{ error: Error | null }>;
   updateUserProfile: (userData: UserUpdate) => Promise<{ error: Error | null }>;
+  updateAIProfile: (update: (aiProfile: Json) => Json) => Promise<{ error: Error | null }>;
   updateBusinessProfile: (data: Partial<BusinessProfile>) => Promise<{ error: Error | null }>;
   resetPassword: (email: string) => Promise<{ error: Error | null }>;
 }
@@ -90,14 +92,25 @@ const MOCK_USER: User = {
     share_location: true
   },
   account_type: 'personal' as const,
+  timezone: null,
+  ics_feed_token: null,
+  preferred_travel_mode: 'drive',
 };
 
+/** Save the device's timezone on a profile that doesn't have one yet */
+async function saveProfileTimezone(userId: string, timezone: string) {
+  const { error } = await supabase.from('users').update({ timezone }).eq('id', userId);
+  if (error) console.warn('[auth] Saving timezone failed:', error.message);
+}
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [session, setSession] = useState<Session | null>(null);
   const [user, setUser] = useState<User | null>(DEMO_MODE ? MOCK_USER : null);
   const [businessProfile, setBusinessProfile] = useState<BusinessProfile | null>(null);
   const [loading, setLoading] = useState(DEMO_MODE ? false : true);
   const [appleSignInAvailable, setAppleSignInAvailable] = useState(false);
+  // Tail of the queued updateAIProfile() calls
+  const aiProfileQueue = useRef<Promise<unknown>>(Promise.resolve());
 
   // Initialize OAuth providers and check Apple availability on mount
   useEffect(() => {
@@ -212,6 +225,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         });
         // Check/update daily streak (non-blocking)
         void checkAndUpdateStreak(data.id);
+        // Record the device's timezone for profiles that don't have one (non-blocking)
+        if (!data.timezone) {
+          const timezone = getDeviceTimezone();
+          setUser({ ...data, timezone });
+          void saveProfileTimezone(data.id, timezone);
+        }
         // Fetch business profile if account_type is 'business'
         if (data.account_type === 'business') {
           try {
@@ -475,6 +494,37 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }
 
+  /**
+   * Apply `update` to the latest saved ai_profile rather than this context's
+   * copy, which may be behind. Calls run one at a time, so a quick series of
+   * changes (e.g. toggling several "Why this?" factors) can't overwrite each other.
+   */
+  function updateAIProfile(update: (aiProfile: Json) => Json) {
+    const run = aiProfileQueue.current.then(async () => {
+      if (!session?.user) {
+        return { error: new Error('No authenticated user') };
+      }
+
+      const { data, error } = await supabase
+        .from('users')
+        .select('ai_profile')
+        .eq('id', session.user.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching AI profile:', error);
+        return { error: new Error('Failed to update AI profile') };
+      }
+
+      return updateUserProfile({ ai_profile: update(data?.ai_profile ?? {}) });
+    });
+    aiProfileQueue.current = run.catch(() => undefined);
+    return run.catch((error) => {
+      console.error('Update AI profile error:', error);
+      return { error: error instanceof Error ? error : new Error('Failed to update AI profile') };
+    });
+  }
+
   async function updateBusinessProfile(data: Partial<BusinessProfile>) {
     if (!session?.user || !user) {
       return { error: new Error('No authenticated user') };
@@ -522,6 +572,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     signInWithFacebook,
     signOut,
     updateUserProfile,
+    updateAIProfile,
     updateBusinessProfile,
     resetPassword,
   };
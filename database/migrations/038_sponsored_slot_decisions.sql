@@ -0,0 +1,47 @@
+-- Migration 038: Sponsored slot decision log
+--
+-- One row per sponsored candidate per feed generation. Drives:
+--   - per-user, per-business frequency capping (won/demoted rows in last 24h)
+--   - business analytics: how often a sponsor won or lost a slot, and why
+
+CREATE TABLE IF NOT EXISTS sponsored_slot_decisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  google_place_id VARCHAR(255) NOT NULL,
+  sponsor_tier VARCHAR(20) NOT NULL CHECK (sponsor_tier IN ('boosted', 'premium')),
+  requested_position INTEGER NOT NULL,
+  assigned_position INTEGER,
+  outcome VARCHAR(20) NOT NULL CHECK (outcome IN ('won', 'demoted', 'lost')),
+  reason VARCHAR(30) NOT NULL
+    CHECK (reason IN ('placed', 'tier_position', 'position_cap', 'spacing', 'frequency_cap', 'below_fold')),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ssd_user_recent
+  ON sponsored_slot_decisions(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ssd_place_recent
+  ON sponsored_slot_decisions(google_place_id, created_at DESC);
+
+-- RLS policies
+ALTER TABLE sponsored_slot_decisions ENABLE ROW LEVEL SECURITY;
+
+-- Users log and read their own decisions (frequency capping)
+CREATE POLICY "Users can insert own slot decisions"
+  ON sponsored_slot_decisions FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can read own slot decisions"
+  ON sponsored_slot_decisions FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Business owners read decisions for their linked place
+CREATE POLICY "Business owners can read their slot decisions"
+  ON sponsored_slot_decisions FOR SELECT
+  USING (
+    google_place_id IN (
+      SELECT google_place_id FROM business_profiles
+      WHERE user_id = auth.uid() AND google_place_id IS NOT NULL
+    )
+  );
+
+COMMENT ON TABLE sponsored_slot_decisions IS 'Audit log of sponsored feed slot allocation (see services/sponsored-slots.ts)';
@@ -0,0 +1,31 @@
+-- Migration 039: Precomputed place neighbours for collaborative filtering
+--
+-- Item-to-item similarity from co-occurring positive interactions
+-- (feedback thumbs up, activity_likes, accepted recommendation_tracking).
+-- Rebuilt per city by scripts/precompute-place-neighbors.ts (service role);
+-- read at feed time by services/collaborative-filtering.ts.
+
+CREATE TABLE IF NOT EXISTS place_neighbors (
+  city VARCHAR(100) NOT NULL,
+  state VARCHAR(50) NOT NULL,
+  place_id VARCHAR(255) NOT NULL,
+  neighbor_place_id VARCHAR(255) NOT NULL,
+  similarity NUMERIC(5,4) NOT NULL CHECK (similarity > 0 AND similarity <= 1),
+  co_users INTEGER NOT NULL CHECK (co_users > 0),
+  computed_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (city, state, place_id, neighbor_place_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_place_neighbors_place
+  ON place_neighbors(place_id, similarity DESC);
+
+-- RLS policies
+ALTER TABLE place_neighbors ENABLE ROW LEVEL SECURITY;
+
+-- Aggregated similarities hold no user ids: any signed-in user may read them.
+-- Writes happen only through the service role (bypasses RLS).
+CREATE POLICY "Authenticated users can read place neighbors"
+  ON place_neighbors FOR SELECT
+  USING (auth.role() = 'authenticated');
+
+COMMENT ON TABLE place_neighbors IS 'Item-to-item collaborative filtering neighbours per city (see services/collaborative-filtering.ts)';
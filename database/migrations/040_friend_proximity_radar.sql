@@ -0,0 +1,109 @@
+-- Migration 040: Friend proximity radar
+--
+-- Proximity radars alert a user when a friend on the radar is nearby and
+-- both of them are free. Friends' locations and calendars are owner-only
+-- under RLS, so matching reads them through get_friend_proximity_snapshots(),
+-- which only returns what each friend has agreed to share with the viewer:
+--
+-- - users.privacy_settings.share_location = false  → friend omitted
+-- - effective friend_group_privacy.can_see_my_loop = false → friend omitted
+--   (most permissive across the friend's groups containing the viewer;
+--   ungrouped viewers get the defaults, as in getEffectivePrivacyForFriend)
+-- - effective auto_share_calendar = true → visibility 'full', else 'busy_only'
+--
+-- Busy intervals carry start/end only, never titles or places.
+-- Used by services/friend-proximity.ts.
+
+-- When current_location was last written, so stale positions are ignored
+ALTER TABLE users ADD COLUMN IF NOT EXISTS current_location_updated_at TIMESTAMPTZ;
+
+-- Which friend triggered a proximity alert (also drives per-pair cooldowns)
+ALTER TABLE hook_notifications ADD COLUMN IF NOT EXISTS proximity_data JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_hook_notifications_proximity
+  ON hook_notifications(user_id, created_at DESC)
+  WHERE proximity_data IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION get_friend_proximity_snapshots(
+  p_viewer UUID,
+  p_friend_ids UUID[],
+  p_window_start TIMESTAMPTZ,
+  p_window_end TIMESTAMPTZ
+)
+RETURNS TABLE (
+  user_id UUID,
+  name TEXT,
+  is_self BOOLEAN,
+  visibility TEXT,
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  location_updated_at TIMESTAMPTZ,
+  busy JSONB
+)
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  WITH candidates AS (
+    -- The viewer themselves, plus accepted friends in either direction
+    SELECT p_viewer AS id, TRUE AS is_self
+    UNION
+    SELECT f.friend_id, FALSE
+    FROM friendships f
+    WHERE f.user_id = p_viewer
+      AND f.status = 'accepted'
+      AND f.friend_id = ANY(p_friend_ids)
+    UNION
+    SELECT f.user_id, FALSE
+    FROM friendships f
+    WHERE f.friend_id = p_viewer
+      AND f.status = 'accepted'
+      AND f.user_id = ANY(p_friend_ids)
+  ),
+  friend_privacy AS (
+    -- Each friend's effective privacy toward the viewer (OR across groups)
+    SELECT
+      g.user_id AS friend_id,
+      bool_or(COALESCE(p.can_see_my_loop, TRUE)) AS can_see_my_loop,
+      bool_or(COALESCE(p.auto_share_calendar, FALSE)) AS auto_share_calendar
+    FROM friend_groups g
+    JOIN friend_group_members m ON m.group_id = g.id AND m.friend_user_id = p_viewer
+    LEFT JOIN friend_group_privacy p ON p.group_id = g.id
+    WHERE g.user_id = ANY(p_friend_ids)
+    GROUP BY g.user_id
+  )
+  SELECT
+    u.id,
+    u.name::TEXT,
+    c.is_self,
+    CASE
+      WHEN c.is_self OR COALESCE(fp.auto_share_calendar, FALSE) THEN 'full'
+      ELSE 'busy_only'
+    END,
+    ST_Y(u.current_location::geometry),
+    ST_X(u.current_location::geometry),
+    u.current_location_updated_at,
+    COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('start', e.start_time, 'end', e.end_time) ORDER BY e.start_time)
+      FROM calendar_events e
+      WHERE e.user_id = u.id
+        AND e.status IS DISTINCT FROM 'cancelled'
+        AND e.start_time < p_window_end
+        AND e.end_time > p_window_start
+    ), '[]'::jsonb)
+  FROM candidates c
+  JOIN users u ON u.id = c.id
+  LEFT JOIN friend_privacy fp ON fp.friend_id = u.id
+  WHERE (p_viewer = auth.uid() OR auth.role() = 'service_role')
+    AND (
+      c.is_self OR (
+        COALESCE((u.privacy_settings->>'share_location')::BOOLEAN, TRUE)
+        AND COALESCE(fp.can_see_my_loop, TRUE)
+      )
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION get_friend_proximity_snapshots(UUID, UUID[], TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
+
+COMMENT ON FUNCTION get_friend_proximity_snapshots IS 'Locations and free/busy of the viewer and friends who share them (see services/friend-proximity.ts)';
@@ -0,0 +1,13 @@
+-- Migration 041: Radar watch cities
+--
+-- Event radars (artist, film, venue, category) are polled in the user's home
+-- city, detected from their profile. Plus users can also watch extra cities
+-- per radar ("alert me if this artist plays Dallas OR Austin").
+--
+-- Each entry: { "city": "Austin", "state": "TX", "lat": 30.27, "lng": -97.74 }
+-- Coordinates are used for travel distance in alert copy.
+-- Used by services/radar-polling-service.ts.
+
+ALTER TABLE user_hooks ADD COLUMN IF NOT EXISTS watch_cities JSONB DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN user_hooks.watch_cities IS 'Extra cities polled for this radar besides the home city';
@@ -0,0 +1,44 @@
+-- Migration 042: Radar event sources
+--
+-- Radar events now come from several sources behind the same CachedEvent
+-- contract (services/radar-polling-service.ts):
+--
+-- - ticketmaster  artist, category and venue radars
+-- - bandsintown   artist radars (services/bandsintown-service.ts)
+-- - meetup_rss    category and keyword radars, from per-city Meetup RSS /
+--                 iCal feeds listed in radar_feeds (services/radar-feed-service.ts)
+-- - tmdb          film radars
+--
+-- The same show found by two sources is merged before notifying, and each
+-- notification records which source it came from.
+
+-- Where a notification's event/place/friend came from
+ALTER TABLE hook_notifications ADD COLUMN IF NOT EXISTS source VARCHAR(50);
+
+COMMENT ON COLUMN hook_notifications.source IS 'ticketmaster, bandsintown, meetup_rss, tmdb, google_places or friend_proximity';
+
+-- ============================================================================
+-- Radar Feeds (Meetup RSS / iCal calendars per city)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS radar_feeds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  url TEXT NOT NULL UNIQUE,
+  format VARCHAR(10) NOT NULL CHECK (format IN ('rss', 'ical')),
+  city VARCHAR(100) NOT NULL,
+  state VARCHAR(50) NOT NULL,
+
+  -- Interest categories every event in the feed belongs to (e.g. 'fitness')
+  categories TEXT[] DEFAULT '{}',
+
+  is_active BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_radar_feeds_city ON radar_feeds(city, state, is_active);
+
+ALTER TABLE radar_feeds ENABLE ROW LEVEL SECURITY;
+
+-- Feeds are curated by the Loop team; anyone can read active ones
+CREATE POLICY "radar_feeds_read" ON radar_feeds
+  FOR SELECT USING (is_active = TRUE);
@@ -0,0 +1,49 @@
+-- Migration 043: Server-side radar sweep
+--
+-- scripts/radar-sweep.ts (services/radar-sweep.ts) replaces per-client event
+-- polling: it groups every active radar across users by event_cache key,
+-- fetches each entity once, diffs against event_cache and fans out
+-- hook_notifications + pushes in batches.
+--
+-- - hook_notifications.event_key + a unique index make re-runs idempotent:
+--   the same event is never inserted twice for a radar
+-- - radar_sweep_runs records per-run metrics; a partial unique index allows
+--   only one run in 'running' state at a time
+
+-- Source event ID the notification is about (CachedEvent.id)
+ALTER TABLE hook_notifications ADD COLUMN IF NOT EXISTS event_key TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_hook_notifications_event_key
+  ON hook_notifications(hook_id, event_key);
+
+-- ============================================================================
+-- Sweep Runs
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS radar_sweep_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ,
+
+  -- Metrics
+  hooks_scanned INTEGER DEFAULT 0,
+  users_scanned INTEGER DEFAULT 0,
+  entities_total INTEGER DEFAULT 0,      -- distinct cache keys
+  entities_fetched INTEGER DEFAULT 0,    -- cache keys refreshed from a provider
+  fetch_errors INTEGER DEFAULT 0,
+  new_events INTEGER DEFAULT 0,          -- events not in event_cache before this run
+  notifications_created INTEGER DEFAULT 0,
+  duplicates_skipped INTEGER DEFAULT 0,
+  pushes_sent INTEGER DEFAULT 0,
+  duration_ms INTEGER,
+  error TEXT
+);
+
+-- One sweep at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_radar_sweep_runs_single_running
+  ON radar_sweep_runs((status)) WHERE status = 'running';
+
+CREATE INDEX IF NOT EXISTS idx_radar_sweep_runs_started ON radar_sweep_runs(status, started_at DESC);
+
+-- Service role only (no policies)
+ALTER TABLE radar_sweep_runs ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,71 @@
+-- Migration 044: Radar delivery preferences — quiet hours, digests, push budgets
+--
+-- Plus users choose how radar alerts reach them (services/radar-delivery-service.ts):
+-- - instant pushes, or a daily/weekly digest bundling alerts into one push
+--   and one feed card
+-- - quiet hours in their own timezone; alerts held overnight go out as a
+--   single digest when quiet hours end
+-- - a max-pushes-per-day budget, spent on the highest-priority radar types
+--
+-- - users.radar_delivery holds the preferences (NULL = defaults)
+-- - hook_notifications.delivery records why an alert wasn't pushed on its own
+-- - radar_digests stores each bundle; bundled alerts point at it via digest_id
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS radar_delivery JSONB;
+
+COMMENT ON COLUMN users.radar_delivery IS
+  '{ mode: instant|daily_digest|weekly_digest, timezone, quietHoursEnabled, quietHoursStart, quietHoursEnd, digestHour, digestDay, maxPushesPerDay }';
+
+-- ============================================================================
+-- Digests
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS radar_digests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  reason VARCHAR(20) NOT NULL CHECK (reason IN ('daily', 'weekly', 'quiet_hours')),
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  notification_ids UUID[] NOT NULL DEFAULT '{}',
+  -- Title, hook type and event/place summary per bundled alert (feed card)
+  items JSONB NOT NULL DEFAULT '[]',
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'viewed', 'dismissed')),
+  push_sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_radar_digests_user ON radar_digests(user_id, created_at DESC);
+
+ALTER TABLE radar_digests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "radar_digests_select_own" ON radar_digests
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "radar_digests_update_own" ON radar_digests
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- Per-alert delivery state
+-- ============================================================================
+-- NULL = pushed or never eligible (free tier / no token)
+-- held      = waiting for the next digest (digest mode or quiet hours)
+-- feed_only = over the daily push budget; shown in the feed only
+-- digested  = bundled into digest_id
+ALTER TABLE hook_notifications ADD COLUMN IF NOT EXISTS delivery VARCHAR(20)
+  CHECK (delivery IN ('held', 'feed_only', 'digested'));
+
+ALTER TABLE hook_notifications ADD COLUMN IF NOT EXISTS digest_id UUID
+  REFERENCES radar_digests(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_hook_notifications_held
+  ON hook_notifications(user_id, created_at) WHERE delivery = 'held';
+
+-- Daily budget: pushes sent since local midnight
+CREATE INDEX IF NOT EXISTS idx_hook_notifications_push_sent
+  ON hook_notifications(user_id, push_sent_at) WHERE push_sent_at IS NOT NULL;
+
+-- ============================================================================
+-- Sweep metrics
+-- ============================================================================
+ALTER TABLE radar_sweep_runs ADD COLUMN IF NOT EXISTS pushes_held INTEGER DEFAULT 0;
+ALTER TABLE radar_sweep_runs ADD COLUMN IF NOT EXISTS pushes_over_budget INTEGER DEFAULT 0;
+ALTER TABLE radar_sweep_runs ADD COLUMN IF NOT EXISTS digests_created INTEGER DEFAULT 0;
@@ -0,0 +1,29 @@
+-- Migration 045: Radar entity resolution and false-positive feedback
+--
+-- Artist and venue radars used to match by keyword, so an artist radar for
+-- "Phoenix" (the band) matched every event in Phoenix, AZ.
+-- (services/radar-entity-service.ts)
+--
+-- - user_hooks.entity_source says what entity_id is: a Ticketmaster
+--   attraction or venue ID (picked in add-radar-sheet or resolved on first
+--   poll), a Google place_id, or 'name' when no confident match was found
+-- - user_hooks.suppressed_matches holds alerts the user marked "this isn't
+--   what I meant"; similar events are skipped for that radar
+-- - hook_notifications.feedback records the false positive itself
+
+ALTER TABLE user_hooks ADD COLUMN IF NOT EXISTS entity_source VARCHAR(30)
+  CHECK (entity_source IN ('ticketmaster_attraction', 'ticketmaster_venue', 'google_place', 'name'));
+
+ALTER TABLE user_hooks ADD COLUMN IF NOT EXISTS suppressed_matches JSONB DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN user_hooks.suppressed_matches IS
+  '[{ eventKey, name, venue, attractionIds, createdAt }] — rejected alerts (newest 50)';
+
+ALTER TABLE hook_notifications ADD COLUMN IF NOT EXISTS feedback VARCHAR(30)
+  CHECK (feedback IN ('false_positive'));
+
+ALTER TABLE hook_notifications ADD COLUMN IF NOT EXISTS feedback_at TIMESTAMPTZ;
+
+-- Match-quality reporting
+CREATE INDEX IF NOT EXISTS idx_hook_notifications_feedback
+  ON hook_notifications(hook_id, feedback_at DESC) WHERE feedback IS NOT NULL;
@@ -0,0 +1,81 @@
+-- Migration 046: Follow-up alerts on alerted events — on-sale, presale, price drops, low inventory
+--
+-- Radars used to fire once, when an event first appeared. Every event alert
+-- now starts a watch (services/radar-watch-service.ts); each sweep compares
+-- the event's latest snapshot with the last one and sends follow-ups:
+-- - general on-sale opening
+-- - a presale window opening
+-- - the lowest price dropping to the user's threshold (set on the alert card)
+-- - "few tickets left", where the source reports it
+--
+-- - radar_event_watches: one per user × event, with the last snapshot and
+--   the follow-ups already sent
+-- - event_snapshots: sale/price history per event_cache entry, one row per change
+-- - hook_notifications.alert_kind tells first alerts from follow-ups; follow-ups
+--   use event_key '<event id>:<trigger>' so the (hook_id, event_key) index
+--   still makes re-runs idempotent
+
+-- ============================================================================
+-- Watches
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS radar_event_watches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  hook_id UUID NOT NULL REFERENCES user_hooks(id) ON DELETE CASCADE,
+  notification_id UUID REFERENCES hook_notifications(id) ON DELETE SET NULL,
+  event_key TEXT NOT NULL,
+  event_name TEXT NOT NULL,
+  event_date DATE NOT NULL,
+  event_data JSONB NOT NULL DEFAULT '{}',
+  price_threshold NUMERIC(10, 2),
+  -- { priceMin, priceMax, currency, saleStatus, onSaleAt, presales, availability, capturedAt }
+  last_snapshot JSONB,
+  fired_triggers TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_radar_event_watches_user_event
+  ON radar_event_watches(user_id, event_key);
+
+-- The sweep reads active watches for upcoming events
+CREATE INDEX IF NOT EXISTS idx_radar_event_watches_active
+  ON radar_event_watches(event_date) WHERE is_active = true;
+
+ALTER TABLE radar_event_watches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "radar_event_watches_select_own" ON radar_event_watches
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "radar_event_watches_insert_own" ON radar_event_watches
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "radar_event_watches_update_own" ON radar_event_watches
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- Snapshot history
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS event_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  cache_key TEXT NOT NULL,
+  event_key TEXT NOT NULL,
+  snapshot JSONB NOT NULL,
+  captured_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_snapshots_event
+  ON event_snapshots(event_key, captured_at DESC);
+
+-- ============================================================================
+-- Follow-up notifications
+-- ============================================================================
+ALTER TABLE hook_notifications ADD COLUMN IF NOT EXISTS alert_kind VARCHAR(20) DEFAULT 'new_event'
+  CHECK (alert_kind IN ('new_event', 'onsale', 'presale', 'price_drop', 'low_inventory'));
+
+-- ============================================================================
+-- Sweep metrics
+-- ============================================================================
+ALTER TABLE radar_sweep_runs ADD COLUMN IF NOT EXISTS watches_checked INTEGER DEFAULT 0;
+ALTER TABLE radar_sweep_runs ADD COLUMN IF NOT EXISTS follow_ups_created INTEGER DEFAULT 0;
@@ -0,0 +1,37 @@
+-- Migration 047: Incremental, two-way device calendar sync
+--
+-- Calendar sync used to delete every imported event and re-insert the ones
+-- with a geocodable location. It now diffs each device event against its row
+-- (services/calendar-sync.ts):
+-- - external_etag is a fingerprint of the event as last agreed by both sides;
+--   a side whose current fingerprint differs has changed since the last sync
+-- - external_last_modified is the device's own last-modified time (iOS)
+-- - sync_conflict holds both versions when both sides changed, until the
+--   user picks one
+-- - events without a location are kept as busy blocks (location NULL) so
+--   free-time detection still sees them
+
+ALTER TABLE calendar_events ALTER COLUMN location DROP NOT NULL;
+ALTER TABLE calendar_events ALTER COLUMN address DROP NOT NULL;
+
+ALTER TABLE calendar_events ADD COLUMN IF NOT EXISTS external_etag VARCHAR(64);
+ALTER TABLE calendar_events ADD COLUMN IF NOT EXISTS external_last_modified TIMESTAMPTZ;
+ALTER TABLE calendar_events ADD COLUMN IF NOT EXISTS external_synced_at TIMESTAMPTZ;
+ALTER TABLE calendar_events ADD COLUMN IF NOT EXISTS sync_conflict JSONB;
+
+COMMENT ON COLUMN calendar_events.sync_conflict IS
+  '{ detectedAt, loop: { title, notes, location, startTime, endTime, allDay }, device: same | null (deleted) }';
+
+-- Earlier syncs could leave duplicates; keep the newest copy of each
+DELETE FROM calendar_events a
+  USING calendar_events b
+  WHERE a.user_id = b.user_id
+    AND a.external_event_id = b.external_event_id
+    AND (a.created_at, a.id) < (b.created_at, b.id);
+
+-- One row per device event (NULLs — Loop-only events — don't collide)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_events_external
+  ON calendar_events(user_id, external_event_id);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_events_sync_conflict
+  ON calendar_events(user_id) WHERE sync_conflict IS NOT NULL;
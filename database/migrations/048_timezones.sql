@@ -0,0 +1,22 @@
+-- Migration 048: Timezones on users and calendar events
+--
+-- Scheduling used the device's zone for all wall-clock math, and device
+-- calendar events were created in a hard-coded America/Chicago. Both now
+-- carry an IANA zone (utils/timezone.ts):
+-- - users.timezone is the user's home zone — slot analysis, date pills and
+--   profile-level scheduling run in it. Set from the device at sign-in when
+--   missing; radar delivery preferences already recorded one for some users
+-- - calendar_events.timezone is the zone the event happens in (a trip
+--   event's destination), used for trip contexts, departure alerts and the
+--   device calendar copy. NULL means the user's zone
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS timezone VARCHAR(64);
+ALTER TABLE calendar_events ADD COLUMN IF NOT EXISTS timezone VARCHAR(64);
+
+COMMENT ON COLUMN users.timezone IS 'IANA zone, e.g. America/Chicago';
+COMMENT ON COLUMN calendar_events.timezone IS 'IANA zone the event takes place in; NULL = the user''s zone';
+
+UPDATE users
+  SET timezone = radar_delivery->>'timezone'
+  WHERE timezone IS NULL
+    AND radar_delivery ? 'timezone';
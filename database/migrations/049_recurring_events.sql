@@ -0,0 +1,34 @@
+-- Migration 049: Recurring calendar events
+--
+-- A recurring event is stored once, as a series row: start_time/end_time
+-- are the first occurrence and recurrence_rule is an RFC 5545 RRULE
+-- ("FREQ=WEEKLY;BYDAY=TU"). Readers expand series into occurrences for the
+-- range they show (services/recurrence.ts).
+-- - recurrence_exdates lists occurrence starts removed from the series
+-- - an override row ("edit this occurrence") points at its series with
+--   recurrence_parent_id and records which occurrence it replaces in
+--   recurrence_original_start
+-- - "edit all future occurrences" ends the series with UNTIL and starts a
+--   new series row
+
+ALTER TABLE calendar_events
+  ADD COLUMN IF NOT EXISTS recurrence_rule TEXT,
+  ADD COLUMN IF NOT EXISTS recurrence_exdates TIMESTAMPTZ[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS recurrence_parent_id UUID REFERENCES calendar_events(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS recurrence_original_start TIMESTAMPTZ;
+
+COMMENT ON COLUMN calendar_events.recurrence_rule IS 'RFC 5545 RRULE without the RRULE: prefix; NULL = single event';
+COMMENT ON COLUMN calendar_events.recurrence_exdates IS 'Starts of occurrences deleted from the series';
+COMMENT ON COLUMN calendar_events.recurrence_parent_id IS 'Series this row overrides one occurrence of';
+COMMENT ON COLUMN calendar_events.recurrence_original_start IS 'Start of the occurrence this override replaces';
+
+-- Series are fetched by "started before the range ends" regardless of date
+CREATE INDEX IF NOT EXISTS idx_calendar_events_recurring
+  ON calendar_events(user_id, start_time)
+  WHERE recurrence_rule IS NOT NULL;
+
+-- One override per occurrence. Not partial: upserts name these columns as
+-- their conflict target, which a partial index can't serve (rows without a
+-- parent are NULL here and never collide anyway)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_events_recurrence_override
+  ON calendar_events(recurrence_parent_id, recurrence_original_start);
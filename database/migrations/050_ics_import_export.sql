@@ -0,0 +1,51 @@
+-- Migration 050: iCalendar (.ics) import and subscription feed
+--
+-- Events can be imported from .ics files and URLs (services/ical-service.ts)
+-- and every user gets a secret feed URL that other calendars subscribe to
+-- (supabase/functions/ics-feed):
+-- - calendar_events.ics_uid is the UID of the imported VEVENT, so importing
+--   the same file again updates rows instead of duplicating them. Overrides
+--   of one occurrence leave it NULL and hang off their series through
+--   recurrence_parent_id (migration 049)
+-- - source 'ics_import' marks those rows; like device imports they are not
+--   pushed to the device calendar
+-- - users.ics_feed_token is the secret in the feed URL; rotating it revokes
+--   every existing subscription
+
+ALTER TABLE calendar_events ADD COLUMN IF NOT EXISTS ics_uid TEXT;
+
+COMMENT ON COLUMN calendar_events.ics_uid IS 'UID of the imported iCalendar VEVENT';
+
+-- One row per imported event (NULLs — everything else — don't collide)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_events_ics_uid
+  ON calendar_events(user_id, ics_uid);
+
+ALTER TABLE calendar_events DROP CONSTRAINT IF EXISTS calendar_events_source_check;
+ALTER TABLE calendar_events ADD CONSTRAINT calendar_events_source_check
+  CHECK (source IN ('manual', 'recommendation', 'google_calendar', 'apple_calendar', 'group_plan', 'ics_import'));
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS ics_feed_token TEXT
+  DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+
+UPDATE users
+  SET ics_feed_token = replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '')
+  WHERE ics_feed_token IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_ics_feed_token ON users(ics_feed_token);
+
+COMMENT ON COLUMN users.ics_feed_token IS 'Secret for the calendar subscription URL; rotate to revoke';
+
+-- New token for the caller, generated here so it never comes from a client
+CREATE OR REPLACE FUNCTION rotate_ics_feed_token()
+RETURNS TEXT
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE users
+    SET ics_feed_token = replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '')
+    WHERE id = auth.uid()
+    RETURNING ics_feed_token;
+$$;
+
+GRANT EXECUTE ON FUNCTION rotate_ics_feed_token() TO authenticated;
@@ -0,0 +1,16 @@
+-- Migration 051: Preferred travel mode
+--
+-- Travel times used to assume everyone drives. They now come from a routing
+-- provider in the user's mode (services/travel-time.ts), which loop routing,
+-- departure alerts and "can I make it on time" checks all go through:
+-- - users.preferred_travel_mode is how the user usually gets around
+-- - loop_routing.travel_mode records the mode a departure time was computed
+--   for (JSONB, no schema change)
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS preferred_travel_mode TEXT NOT NULL DEFAULT 'drive';
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_preferred_travel_mode_check;
+ALTER TABLE users ADD CONSTRAINT users_preferred_travel_mode_check
+  CHECK (preferred_travel_mode IN ('drive', 'transit', 'walk', 'bike'));
+
+COMMENT ON COLUMN users.preferred_travel_mode IS 'How the user usually travels: drive, transit, walk or bike';
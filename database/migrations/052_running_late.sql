@@ -0,0 +1,18 @@
+-- Migration 052: Running-late detection
+--
+-- Near departure time the app compares where the user is with where their
+-- next event is (services/running-late.ts). When they won't make it, it
+-- offers to tell the group and to shift or drop flexible tasks later in the
+-- chain:
+-- - calendar_events.group_plan_id links an accepted group plan's event to
+--   the plan, so the running-late message goes to that plan's chat. Older
+--   rows stay NULL and are treated like any other event
+
+ALTER TABLE calendar_events ADD COLUMN IF NOT EXISTS group_plan_id UUID
+  REFERENCES group_plans(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN calendar_events.group_plan_id IS 'Group plan this event was added from';
+
+CREATE INDEX IF NOT EXISTS idx_calendar_events_group_plan
+  ON calendar_events(group_plan_id)
+  WHERE group_plan_id IS NOT NULL;
@@ -0,0 +1,119 @@
+-- Migration 053: Friend proximity without coordinates
+--
+-- get_friend_proximity_snapshots() (migration 040) returned friends' raw
+-- latitude/longitude to the client, even for friends who only share
+-- free/busy. Distances are now worked out here instead:
+-- - within_radius says whether the friend is within p_radius_miles of the
+--   viewer (false when either location is missing, and for the viewer)
+-- - distance_miles, rounded to 0.1 mi, is only returned for friends with
+--   'full' visibility; busy_only friends get NULL
+-- - no row carries coordinates, the viewer's own included
+--
+-- A missing privacy_settings.share_location now means "not shared", as it
+-- already did on the Loop map.
+
+DROP FUNCTION IF EXISTS get_friend_proximity_snapshots(UUID, UUID[], TIMESTAMPTZ, TIMESTAMPTZ);
+
+CREATE OR REPLACE FUNCTION get_friend_proximity_snapshots(
+  p_viewer UUID,
+  p_friend_ids UUID[],
+  p_window_start TIMESTAMPTZ,
+  p_window_end TIMESTAMPTZ,
+  p_radius_miles DOUBLE PRECISION
+)
+RETURNS TABLE (
+  user_id UUID,
+  name TEXT,
+  is_self BOOLEAN,
+  visibility TEXT,
+  distance_miles DOUBLE PRECISION,
+  within_radius BOOLEAN,
+  location_updated_at TIMESTAMPTZ,
+  busy JSONB
+)
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  WITH candidates AS (
+    -- The viewer themselves, plus accepted friends in either direction
+    SELECT p_viewer AS id, TRUE AS is_self
+    UNION
+    SELECT f.friend_id, FALSE
+    FROM friendships f
+    WHERE f.user_id = p_viewer
+      AND f.status = 'accepted'
+      AND f.friend_id = ANY(p_friend_ids)
+    UNION
+    SELECT f.user_id, FALSE
+    FROM friendships f
+    WHERE f.friend_id = p_viewer
+      AND f.status = 'accepted'
+      AND f.user_id = ANY(p_friend_ids)
+  ),
+  friend_privacy AS (
+    -- Each friend's effective privacy toward the viewer (OR across groups)
+    SELECT
+      g.user_id AS friend_id,
+      bool_or(COALESCE(p.can_see_my_loop, TRUE)) AS can_see_my_loop,
+      bool_or(COALESCE(p.auto_share_calendar, FALSE)) AS auto_share_calendar
+    FROM friend_groups g
+    JOIN friend_group_members m ON m.group_id = g.id AND m.friend_user_id = p_viewer
+    LEFT JOIN friend_group_privacy p ON p.group_id = g.id
+    WHERE g.user_id = ANY(p_friend_ids)
+    GROUP BY g.user_id
+  ),
+  viewer AS (
+    SELECT current_location FROM users WHERE id = p_viewer
+  ),
+  snapshots AS (
+    SELECT
+      u.id,
+      u.name::TEXT AS name,
+      c.is_self,
+      CASE
+        WHEN c.is_self OR COALESCE(fp.auto_share_calendar, FALSE) THEN 'full'
+        ELSE 'busy_only'
+      END AS visibility,
+      CASE WHEN NOT c.is_self THEN
+        ST_Distance(u.current_location, v.current_location) / 1609.344
+      END AS distance,
+      u.current_location IS NOT NULL AS has_location,
+      u.current_location_updated_at,
+      COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('start', e.start_time, 'end', e.end_time) ORDER BY e.start_time)
+        FROM calendar_events e
+        WHERE e.user_id = u.id
+          AND e.status IS DISTINCT FROM 'cancelled'
+          AND e.start_time < p_window_end
+          AND e.end_time > p_window_start
+      ), '[]'::jsonb) AS busy
+    FROM candidates c
+    JOIN users u ON u.id = c.id
+    CROSS JOIN viewer v
+    LEFT JOIN friend_privacy fp ON fp.friend_id = u.id
+    WHERE (p_viewer = auth.uid() OR auth.role() = 'service_role')
+      AND (
+        c.is_self OR (
+          COALESCE((u.privacy_settings->>'share_location')::BOOLEAN, FALSE)
+          AND COALESCE(fp.can_see_my_loop, TRUE)
+        )
+      )
+  )
+  SELECT
+    s.id,
+    s.name,
+    s.is_self,
+    s.visibility,
+    CASE WHEN s.visibility = 'full' THEN round(s.distance::NUMERIC, 1)::DOUBLE PRECISION END,
+    COALESCE(s.distance <= p_radius_miles, FALSE),
+    -- NULL without a location, so a missing one reads as stale
+    CASE WHEN s.has_location THEN s.current_location_updated_at END,
+    s.busy
+  FROM snapshots s;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_friend_proximity_snapshots(UUID, UUID[], TIMESTAMPTZ, TIMESTAMPTZ, DOUBLE PRECISION) TO authenticated;
+
+COMMENT ON FUNCTION get_friend_proximity_snapshots IS 'Distances (never coordinates) and free/busy of the viewer and friends who share them (see services/friend-proximity.ts)';
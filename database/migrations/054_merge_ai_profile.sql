@@ -0,0 +1,27 @@
+-- Migration 054: Atomic ai_profile merges
+--
+-- Background writers (e.g. the learned time-of-day model) used to read
+-- users.ai_profile, change one key and write the whole profile back, which
+-- could drop a change the app saved in between. merge_ai_profile() sets just
+-- the given top-level keys in a single UPDATE.
+
+CREATE OR REPLACE FUNCTION merge_ai_profile(
+  p_user_id UUID,
+  p_patch JSONB
+)
+RETURNS JSONB
+LANGUAGE sql
+SECURITY DEFINER
+VOLATILE
+SET search_path = public
+AS $$
+  UPDATE users
+  SET ai_profile = COALESCE(ai_profile, '{}'::jsonb) || p_patch
+  WHERE id = p_user_id
+    AND (p_user_id = auth.uid() OR auth.role() = 'service_role')
+  RETURNING ai_profile;
+$$;
+
+GRANT EXECUTE ON FUNCTION merge_ai_profile(UUID, JSONB) TO authenticated;
+
+COMMENT ON FUNCTION merge_ai_profile IS 'Set top-level ai_profile keys without rewriting the rest of the profile';
@@ -0,0 +1,32 @@
+/**
+ * useExperiment Hook
+ *
+ * Returns the current user's variant for an experiment and logs a single
+ * exposure once the component mounts with a signed-in user.
+ */
+
+import { useEffect, useMemo } from 'react';
+import { useAuth } from '@/contexts/auth-context';
+import { experiments } from '@/services/experiment-service';
+import type { ExperimentAssignment } from '@/services/experiment-service';
+import type { ExperimentKey } from '@/constants/experiments';
+
+/**
+ * Variant assignment for `experiment`. Assignment is deterministic per user,
+ * so this is stable across renders and app launches.
+ */
+export function useExperiment<K extends ExperimentKey>(experiment: K): ExperimentAssignment<K> {
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  const assignment = useMemo(
+    () => experiments.getAssignment(experiment, userId),
+    [experiment, userId]
+  );
+
+  useEffect(() => {
+    experiments.trackExposure(experiment, userId);
+  }, [experiment, userId]);
+
+  return assignment;
+}
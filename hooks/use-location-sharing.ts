@@ -0,0 +1,51 @@
+/**
+ * useLocationSharing Hook
+ *
+ * Keeps the current user's saved location fresh while the app is in use,
+ * so friends' proximity radars don't drop them as stale.
+ */
+
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
+import { useAuth } from '@/contexts/auth-context';
+import { FRIEND_PROXIMITY_CONFIG, reportCurrentLocation } from '@/services/friend-proximity';
+import { getCurrentLocation, getLocationPermissionStatus } from '@/services/location-service';
+
+const REFRESH_INTERVAL_MS = FRIEND_PROXIMITY_CONFIG.locationRefreshMinutes * 60 * 1000;
+
+/**
+ * Saves the user's location now, every locationRefreshMinutes while the app
+ * is in the foreground, and whenever it comes back to the foreground.
+ */
+export function useLocationSharing(): void {
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const report = async () => {
+      if (AppState.currentState !== 'active') return;
+      try {
+        // Without permission getCurrentLocation falls back to a default city,
+        // which must not be shared as the user's position
+        if ((await getLocationPermissionStatus()) !== 'granted') return;
+        const location = await getCurrentLocation();
+        await reportCurrentLocation(userId, location);
+      } catch {
+        // Silently fail — the next refresh will try again
+      }
+    };
+
+    report();
+    const interval = setInterval(report, REFRESH_INTERVAL_MS);
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') report();
+    });
+
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, [userId]);
+}
@@ -32,9 +32,9 @@ const supabase = createClient(supabaseUrl, supabaseKey);
 
 // Import services (using dynamic imports to handle path resolution)
 async function loadServices() {
-  const { generateRecommendations } = await import('../services/recommendations');
+  const { recommend, toRecommendation } = await import('../services/recommendations');
   const { saveRecommendationsToDB, clearPendingRecommendations } = await import('../services/recommendation-persistence');
-  return { generateRecommendations, saveRecommendationsToDB, clearPendingRecommendations };
+  return { recommend, toRecommendation, saveRecommendationsToDB, clearPendingRecommendations };
 }
 
 // Remove UserRecord interface - we'll use the full user type from Supabase
@@ -44,9 +44,9 @@ async function generateDailyRecommendations() {
   console.log(`📅 Date: ${new Date().toISOString()}`);
 
   // Load services
-  const { generateRecommendations, saveRecommendationsToDB, clearPendingRecommendations } = await loadServices();
+  const { recommend, toRecommendation, saveRecommendationsToDB, clearPendingRecommendations } = await loadServices();
 
-  // 1. Fetch all active users (with all fields required by generateRecommendations)
+  // 1. Fetch all active users (with all fields required by recommend)
   const { data: users, error } = await supabase
     .from('users')
     .select('*') // Fetch all fields to match expected user type
@@ -105,7 +105,7 @@ async function generateDailyRecommendations() {
       };
 
       console.log(`  🔍 Generating recommendations...`);
-      const scored = await generateRecommendations(params);
+      const scored = await recommend({ kind: 'solo', ...params });
 
       if (scored.length === 0) {
         console.log(`  ⚠️ No recommendations generated, skipping...`);
@@ -114,54 +114,7 @@ async function generateDailyRecommendations() {
       }
 
       // Convert to Recommendation format
-      const recommendations = scored.map((s: any, index: number) => ({
-        id: s.place.place_id || `rec-${index}`,
-        title: s.place.name,
-        category: s.category,
-        location: s.place.vicinity || s.place.formatted_address || '',
-        distance: `${s.distance.toFixed(1)} mi`,
-        priceRange: s.place.price_level || 2,
-        rating: s.place.rating || 0,
-        imageUrl: s.photoUrl || '',
-        photos: s.photoUrls,
-        aiExplanation: s.aiExplanation,
-        description: s.place.description,
-        openNow: s.place.opening_hours?.open_now,
-        isSponsored: s.isSponsored,
-        score: s.score,
-        businessHours: s.businessHours,
-        hasEstimatedHours: s.hasEstimatedHours,
-        suggestedTime: s.suggestedTime,
-        event_metadata: s.place.event_metadata,
-        scoreBreakdown: {
-          baseScore: s.scoreBreakdown.baseScore,
-          locationScore: s.scoreBreakdown.locationScore,
-          timeScore: s.scoreBreakdown.timeScore,
-          feedbackScore: s.scoreBreakdown.feedbackScore,
-          collaborativeScore: s.scoreBreakdown.collaborativeScore,
-          sponsorBoost: s.scoreBreakdown.sponsoredBoost,
-          finalScore: s.scoreBreakdown.finalScore,
-        },
-        activity: {
-          id: s.place.place_id || `act-${index}`,
-          name: s.place.name,
-          category: s.category,
-          description: s.place.description,
-          location: {
-            latitude: s.place.geometry.location.lat,
-            longitude: s.place.geometry.location.lng,
-            address: s.place.vicinity || s.place.formatted_address || '',
-          },
-          distance: s.distance,
-          rating: s.place.rating,
-          reviewsCount: s.place.user_ratings_total,
-          priceRange: s.place.price_level || 2,
-          photoUrl: s.photoUrl,
-          phone: s.place.formatted_phone_number,
-          website: s.place.website,
-          googlePlaceId: s.place.place_id,
-        },
-      }));
+      const recommendations = scored.map((s, index) => toRecommendation(s, index));
 
       // Save to database
       await saveRecommendationsToDB(user.id, recommendations);
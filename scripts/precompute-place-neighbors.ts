@@ -0,0 +1,89 @@
+/**
+ * Precompute Place Neighbors Script
+ *
+ * Rebuilds the place_neighbors table (collaborative filtering) for every
+ * city in places_cache, or for one city when given.
+ *
+ * Usage:
+ *   npx ts-node scripts/precompute-place-neighbors.ts
+ *   npx ts-node scripts/precompute-place-neighbors.ts "Dallas" "TX"
+ *
+ * Schedule:
+ *   Run nightly, before generate-daily-recommendations.ts
+ *
+ * Prerequisites:
+ *   - SUPABASE_SERVICE_ROLE_KEY must be set in .env.local (reads every user's
+ *     shared likes and feedback)
+ *   - place_neighbors table must exist (run migration 039)
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import * as path from 'path';
+import * as dotenv from 'dotenv';
+
+dotenv.config({ path: path.join(__dirname, '..', '.env.local') });
+
+const SUPABASE_URL = process.env.EXPO_PUBLIC_SUPABASE_URL;
+const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!SUPABASE_URL || !SUPABASE_SERVICE_KEY) {
+  console.error('Missing required environment variables:');
+  console.error('  EXPO_PUBLIC_SUPABASE_URL:', SUPABASE_URL ? 'set' : 'MISSING');
+  console.error('  SUPABASE_SERVICE_ROLE_KEY:', SUPABASE_SERVICE_KEY ? 'set' : 'MISSING');
+  process.exit(1);
+}
+
+// Create Supabase client with service role (bypasses RLS)
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false,
+  },
+});
+
+async function listCities(): Promise<{ city: string; state: string }[]> {
+  const { data, error } = await supabase
+    .from('places_cache')
+    .select('city, state')
+    .limit(50000);
+
+  if (error) throw error;
+
+  const seen = new Map<string, { city: string; state: string }>();
+  for (const row of (data || []) as { city: string; state: string }[]) {
+    seen.set(`${row.city}|${row.state}`, { city: row.city, state: row.state });
+  }
+  return Array.from(seen.values());
+}
+
+async function precomputePlaceNeighbors() {
+  console.log('🤝 Precomputing place neighbors...');
+
+  // Dynamic import to handle path resolution (see generate-daily-recommendations.ts)
+  const { precomputeCityNeighbors } = await import('../services/collaborative-filtering');
+
+  const [cityArg, stateArg] = process.argv.slice(2);
+  const cities = cityArg && stateArg ? [{ city: cityArg, state: stateArg }] : await listCities();
+
+  console.log(`🏙️ ${cities.length} cities`);
+
+  let failCount = 0;
+  for (const { city, state } of cities) {
+    try {
+      const rows = await precomputeCityNeighbors(supabase, city, state);
+      console.log(`  ✅ ${city}, ${state}: ${rows} neighbor rows`);
+    } catch (error: any) {
+      console.error(`  ❌ ${city}, ${state}: ${error.message}`);
+      failCount++;
+    }
+  }
+
+  console.log(`\n📊 Done — ${cities.length - failCount} cities updated, ${failCount} failed`);
+}
+
+precomputePlaceNeighbors()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('\n❌ Script failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,115 @@
+/**
+ * Radar Sweep Script
+ *
+ * Runs one server-side radar sweep (services/radar-sweep.ts): every active
+ * event radar across users, each entity fetched once, notifications and
+ * pushes fanned out in batches. Safe to re-run — notifications are
+ * idempotent and only one sweep runs at a time.
+ *
+ * Usage (the shims let Node load the app modules the sweep shares):
+ *   npx tsx --require ./scripts/react-native-shims.js scripts/radar-sweep.ts
+ *   npx tsx --require ./scripts/react-native-shims.js scripts/radar-sweep.ts --fixtures ./radar-fixtures.json
+ *
+ * With --fixtures, providers and push are stubbed: events come from a JSON
+ * file mapping cache keys to CachedEvent arrays
+ * ({ "artist:taylor_swift:dallas": [...] }) and no pushes are sent. Point
+ * EXPO_PUBLIC_SUPABASE_URL at a local stack (`supabase start`) to test a
+ * sweep end to end against local Postgres.
+ *
+ * Schedule:
+ *   Hourly, by the Radar Sweep GitHub Actions workflow
+ *   (.github/workflows/radar-sweep.yml), which can also be started by hand.
+ *   Elsewhere, a crontab line does the same:
+ *     0 * * * * cd /path/to/loop && npx tsx --require ./scripts/react-native-shims.js scripts/radar-sweep.ts
+ *
+ * Prerequisites:
+ *   - SUPABASE_SERVICE_ROLE_KEY must be set in .env.local or the environment
+ *     (reads every user's radars), along with EXPO_PUBLIC_SUPABASE_URL and
+ *     EXPO_PUBLIC_SUPABASE_ANON_KEY
+ *   - Provider keys for the sources to sweep (EXPO_PUBLIC_TICKETMASTER_API_KEY,
+ *     EXPO_PUBLIC_BANDSINTOWN_APP_ID, EXPO_PUBLIC_TMDB_API_KEY,
+ *     EXPO_PUBLIC_GOOGLE_PLACES_API_KEY); sources without one are skipped
+ *   - Migrations 042, 043 and 044 applied
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as dotenv from 'dotenv';
+
+dotenv.config({ path: path.join(__dirname, '..', '.env.local') });
+
+const SUPABASE_URL = process.env.EXPO_PUBLIC_SUPABASE_URL;
+const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!SUPABASE_URL || !SUPABASE_SERVICE_KEY) {
+  console.error('Missing required environment variables:');
+  console.error('  EXPO_PUBLIC_SUPABASE_URL:', SUPABASE_URL ? 'set' : 'MISSING');
+  console.error('  SUPABASE_SERVICE_ROLE_KEY:', SUPABASE_SERVICE_KEY ? 'set' : 'MISSING');
+  process.exit(1);
+}
+
+// Create Supabase client with service role (bypasses RLS)
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false,
+  },
+});
+
+function readFixtures(): Record<string, any[]> | null {
+  const flag = process.argv.indexOf('--fixtures');
+  if (flag === -1) return null;
+
+  const file = process.argv[flag + 1];
+  if (!file) {
+    console.error('--fixtures needs a JSON file path');
+    process.exit(1);
+  }
+  return JSON.parse(fs.readFileSync(path.resolve(file), 'utf8'));
+}
+
+async function sweep() {
+  const { runRadarSweep } = await import('../services/radar-sweep');
+  const fixtures = readFixtures();
+
+  console.log(`📡 Starting radar sweep${fixtures ? ' (fixture providers, no pushes)' : ''}...`);
+
+  const metrics = await runRadarSweep({
+    db: supabase,
+    ...(fixtures && {
+      fetchSource: async query => fixtures[query.cacheKey] || [],
+      sendPushBatch: async items => {
+        console.log(`  📭 Would push ${items.length} notifications`);
+        return 0;
+      },
+      sendDigestPushBatch: async items => {
+        console.log(`  📭 Would push ${items.length} digests`);
+        return 0;
+      },
+    }),
+  });
+
+  if (!metrics) {
+    console.log('⏭️  Another sweep is running — nothing to do');
+    return;
+  }
+
+  console.log('\n📊 Sweep metrics:');
+  console.table(metrics);
+
+  if (metrics.error) {
+    throw new Error(metrics.error);
+  }
+
+  if (metrics.fetchErrors > 0) {
+    console.warn(`⚠️  ${metrics.fetchErrors} entities failed to refresh (kept cached events)`);
+  }
+}
+
+sweep()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('\n❌ Sweep failed:', error);
+    process.exit(1);
+  });
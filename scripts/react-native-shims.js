@@ -0,0 +1,33 @@
+/**
+ * React Native Shims for Node Scripts
+ *
+ * Server-side scripts (scripts/radar-sweep.ts) reuse app services that
+ * import React Native and Expo modules at the top of the file, for code
+ * paths only the app runs. Node can't load those packages, so this swaps
+ * them for minimal stand-ins before anything requires them.
+ *
+ * Usage (preload before the script):
+ *   npx tsx --require ./scripts/react-native-shims.js scripts/radar-sweep.ts
+ *
+ * Platform.OS is 'web' so lib/supabase.ts picks its window-guarded storage
+ * (no session is kept; scripts pass their own service-role client).
+ */
+
+const Module = require('module');
+
+const SHIMS = {
+  'react-native': {
+    Platform: { OS: 'web', select: (options) => options.web ?? options.default },
+    Alert: { alert: () => {} },
+  },
+  'react-native-url-polyfill/auto': {},
+  '@react-native-async-storage/async-storage': {},
+  'expo-notifications': {},
+  'expo-haptics': {},
+};
+
+const load = Module._load;
+Module._load = function (request, ...rest) {
+  if (Object.prototype.hasOwnProperty.call(SHIMS, request)) return SHIMS[request];
+  return load.call(this, request, ...rest);
+};
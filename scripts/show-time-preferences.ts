@@ -0,0 +1,84 @@
+/**
+ * Show Time-of-Day Preferences Script
+ *
+ * Prints a user's learned time-of-day heatmap (when they actually do each
+ * category) as stored on their AI profile, next to a fresh rebuild from
+ * their history.
+ *
+ * Usage:
+ *   npx ts-node scripts/show-time-preferences.ts <user-id>
+ *   npx ts-node scripts/show-time-preferences.ts <user-id> --save
+ *
+ * --save writes the rebuilt model back to the user's ai_profile.
+ *
+ * Prerequisites:
+ *   - SUPABASE_SERVICE_ROLE_KEY must be set in .env.local
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import * as path from 'path';
+import * as dotenv from 'dotenv';
+
+dotenv.config({ path: path.join(__dirname, '..', '.env.local') });
+
+const SUPABASE_URL = process.env.EXPO_PUBLIC_SUPABASE_URL;
+const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!SUPABASE_URL || !SUPABASE_SERVICE_KEY) {
+  console.error('Missing required environment variables:');
+  console.error('  EXPO_PUBLIC_SUPABASE_URL:', SUPABASE_URL ? 'set' : 'MISSING');
+  console.error('  SUPABASE_SERVICE_ROLE_KEY:', SUPABASE_SERVICE_KEY ? 'set' : 'MISSING');
+  process.exit(1);
+}
+
+// Create Supabase client with service role (bypasses RLS)
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false,
+  },
+});
+
+async function showTimePreferences() {
+  const [userId, flag] = process.argv.slice(2);
+  if (!userId) {
+    console.error('Usage: npx ts-node scripts/show-time-preferences.ts <user-id> [--save]');
+    process.exit(1);
+  }
+
+  // Dynamic import to handle path resolution (see generate-daily-recommendations.ts)
+  const {
+    formatTimeOfDayHeatmap,
+    learnTimeOfDayModel,
+    loadTimeObservations,
+    refreshTimeOfDayModel,
+  } = await import('../services/time-preferences');
+
+  const { data: user, error } = await supabase
+    .from('users')
+    .select('email, ai_profile')
+    .eq('id', userId)
+    .single();
+
+  if (error || !user) throw error || new Error(`No user ${userId}`);
+
+  console.log(`🕒 Time-of-day preferences for ${user.email}\n`);
+  console.log('Stored model:');
+  console.log(formatTimeOfDayHeatmap(user.ai_profile?.time_of_day_model));
+
+  const observations = await loadTimeObservations(userId, supabase);
+  console.log(`\nRebuilt from ${observations.length} observations:`);
+  console.log(formatTimeOfDayHeatmap(learnTimeOfDayModel(observations)));
+
+  if (flag === '--save') {
+    const saved = await refreshTimeOfDayModel(userId, supabase);
+    console.log(saved ? '\n✅ Saved rebuilt model' : '\n❌ Failed to save model');
+  }
+}
+
+showTimePreferences()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('\n❌ Script failed:', error);
+    process.exit(1);
+  });
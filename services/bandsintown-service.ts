@@ -0,0 +1,116 @@
+/**
+ * Bandsintown Service — Artist Radar Source
+ *
+ * Artist radars check Bandsintown alongside Ticketmaster: many club and
+ * festival dates are only listed there (artists post them directly). Events
+ * come back as CachedEvent entries with source 'bandsintown'; the same show
+ * listed on both is merged by radar polling before anyone is notified.
+ *
+ * API: https://rest.bandsintown.com (public artist events, app_id auth)
+ */
+
+import type { CachedEvent, EventAvailability } from '@/types/radar';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const BANDSINTOWN_APP_ID = process.env.EXPO_PUBLIC_BANDSINTOWN_APP_ID;
+const BANDSINTOWN_BASE = 'https://rest.bandsintown.com';
+
+/** Whether an app_id is set; without one the source is left out of polling */
+export function isBandsintownConfigured(): boolean {
+  return !!BANDSINTOWN_APP_ID;
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Upcoming events for an artist in a city, soonest first.
+ * Bandsintown has no city filter, so the artist's full tour is fetched and
+ * narrowed to venues in the city (and state, when the venue has one).
+ */
+export async function searchBandsintownArtistEvents(
+  artistName: string,
+  city: string,
+  stateCode?: string
+): Promise<CachedEvent[]> {
+  if (!BANDSINTOWN_APP_ID) {
+    console.warn('[Bandsintown] No Bandsintown app_id — skipping search');
+    return [];
+  }
+  if (!artistName.trim()) return [];
+
+  const params = new URLSearchParams({ app_id: BANDSINTOWN_APP_ID, date: 'upcoming' });
+  const url = `${BANDSINTOWN_BASE}/artists/${encodeURIComponent(artistName.trim())}/events?${params}`;
+
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      console.error('[Bandsintown] Search failed:', response.status);
+      return [];
+    }
+
+    const json = await response.json();
+    // Unknown artists come back as an error object rather than an array
+    if (!Array.isArray(json)) return [];
+
+    const wantedCity = city.trim().toLowerCase();
+    const wantedState = stateCode?.trim().toLowerCase();
+
+    const events = json
+      .filter((event: any) => {
+        const venue = event.venue || {};
+        if (String(venue.city || '').trim().toLowerCase() !== wantedCity) return false;
+        const region = String(venue.region || '').trim().toLowerCase();
+        return !wantedState || !region || region === wantedState;
+      })
+      .map((event: any) => transformBandsintownEvent(event, artistName))
+      .filter(Boolean) as CachedEvent[];
+
+    return events.sort((a, b) => a.date.localeCompare(b.date));
+  } catch (err) {
+    console.error('[Bandsintown] Search error:', err);
+    return [];
+  }
+}
+
+// ============================================================================
+// TRANSFORM
+// ============================================================================
+
+export function transformBandsintownEvent(event: any, artistName: string): CachedEvent | null {
+  const datetime = String(event?.datetime || event?.starts_at || '');
+  if (!event?.id || !/^\d{4}-\d{2}-\d{2}/.test(datetime)) return null;
+
+  const venue = event.venue || {};
+  const tickets = (event.offers || []).find((o: any) => o.type === 'Tickets' && o.url);
+  const lineup: string[] = Array.isArray(event.lineup) ? event.lineup : [];
+  const address = [venue.street_address, venue.city, venue.region].filter(Boolean).join(', ');
+
+  return {
+    id: `bit:${event.id}`,
+    // Titles are optional; most listings only carry the lineup
+    name: String(event.title || '').trim() || lineup.join(', ') || artistName,
+    venue: venue.name || undefined,
+    address: address || undefined,
+    city: venue.city || undefined,
+    date: datetime.slice(0, 10),
+    time: datetime.length >= 19 ? datetime.slice(11, 19) : undefined,
+    imageUrl: event.artist?.image_url || undefined,
+    ticketUrl: tickets?.url || event.url || undefined,
+    source: 'bandsintown',
+    category: 'music',
+    availability: parseOfferAvailability(tickets?.status),
+  };
+}
+
+/** Offer status → availability; only limited and sold-out listings are flagged */
+function parseOfferAvailability(status: unknown): EventAvailability | undefined {
+  const text = String(status || '').toLowerCase();
+  if (text.includes('sold out')) return 'sold_out';
+  if (/few|limited|low/.test(text)) return 'limited';
+  return undefined;
+}
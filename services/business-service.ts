@@ -6,6 +6,8 @@
 
 import { supabase } from '@/lib/supabase';
 import type { BusinessProfile, BusinessDailyAnalytics } from '@/types/database';
+import { summarizeSlotDecisions } from './sponsored-slots';
+import type { SponsoredSlotStats } from './sponsored-slots';
 
 export interface BusinessOverview {
   totalImpressions: number;
@@ -85,6 +87,29 @@ export async function getBusinessOverview(profileId: string): Promise<BusinessOv
   return { totalImpressions, totalClicks, totalCalendarAdds, clickThroughRate, recentTrend };
 }
 
+/**
+ * Sponsored slot win/loss stats for a business's linked place.
+ */
+export async function getSponsoredSlotStats(
+  googlePlaceId: string,
+  days: number = 30
+): Promise<SponsoredSlotStats> {
+  const startDate = new Date();
+  startDate.setDate(startDate.getDate() - days);
+
+  const { data, error } = await supabase
+    .from('sponsored_slot_decisions')
+    .select('outcome, reason')
+    .eq('google_place_id', googlePlaceId)
+    .gte('created_at', startDate.toISOString());
+
+  if (error) {
+    console.error('Error fetching sponsored slot stats:', error);
+    return summarizeSlotDecisions([]);
+  }
+  return summarizeSlotDecisions(data || []);
+}
+
 export async function trackImpression(businessProfileId: string): Promise<void> {
   const today = new Date().toISOString().split('T')[0];
 
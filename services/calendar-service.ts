@@ -1,10 +1,28 @@
 import * as Calendar from 'expo-calendar';
 import { Platform } from 'react-native';
 import { supabase } from '@/lib/supabase';
-import { calculateTravelTimeWithBuffer } from '@/utils/route-calculations';
+import { getPreferredTravelMode, getTravelMinutes } from '@/services/travel-time';
+import {
+  buildExternalEventKey,
+  buildSyncConflict,
+  fingerprintSyncFields,
+  isImportedRow,
+  parseExternalEventKey,
+  planCalendarSync,
+  syncFieldsFromDeviceEvent,
+  syncFieldsFromRow,
+  type CalendarSyncConflict,
+  type CalendarSyncFields,
+  type SyncedEventRow,
+} from '@/services/calendar-sync';
+import { fetchCalendarEventsInRange } from '@/services/recurring-events';
+import { getDeviceTimezone, resolveTimezone } from '@/utils/timezone';
 
 const GOOGLE_MAPS_API_KEY = process.env.EXPO_PUBLIC_GOOGLE_MAPS_API_KEY || '';
 
+/** How far before a proposed time to look for events still running then */
+const CONFLICT_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
 /**
  * Category keyword map for auto-detecting event categories from titles.
  */
@@ -31,6 +49,65 @@ export function inferCategory(title: string): string {
   return 'personal';
 }
 
+/**
+ * Map a Google Places / recommendation category to a calendar_events category.
+ * Returns 'other' for anything the database CHECK constraint doesn't know.
+ */
+export function mapCategoryToDBCategory(category: string): string {
+  const categoryLower = category.toLowerCase();
+
+  // Database allows: 'work', 'personal', 'social', 'dining', 'fitness', 'entertainment', 'travel', 'other'
+  const categoryMap: Record<string, string> = {
+    // Dining
+    'restaurant': 'dining',
+    'restaurants': 'dining',
+    'cafe': 'dining',
+    'coffee': 'dining',
+    'food': 'dining',
+    'bakery': 'dining',
+    'meal_takeaway': 'dining',
+
+    // Entertainment
+    'bar': 'entertainment',
+    'bars': 'entertainment',
+    'night_club': 'entertainment',
+    'movie_theater': 'entertainment',
+    'museum': 'entertainment',
+    'art_gallery': 'entertainment',
+    'amusement_park': 'entertainment',
+    'aquarium': 'entertainment',
+    'bowling_alley': 'entertainment',
+    'casino': 'entertainment',
+    'stadium': 'entertainment',
+    'zoo': 'entertainment',
+    'live music': 'entertainment',
+    'concert': 'entertainment',
+
+    // Fitness
+    'gym': 'fitness',
+    'park': 'fitness',
+    'hiking': 'fitness',
+    'spa': 'fitness',
+    'yoga': 'fitness',
+
+    // Social
+    'shopping_mall': 'social',
+    'book_store': 'social',
+    'library': 'social',
+    'store': 'social',
+
+    // Travel
+    'lodging': 'travel',
+    'tourist_attraction': 'travel',
+    'travel_agency': 'travel',
+    'airport': 'travel',
+    'train_station': 'travel',
+    'bus_station': 'travel',
+  };
+
+  return categoryMap[categoryLower] || 'other';
+}
+
 export interface SyncProgressInfo {
   current: number;
   total: number;
@@ -51,6 +128,12 @@ export interface CalendarEvent {
   notes?: string;
   allDay: boolean;
   calendarId: string;
+  /** Last edited on the device (iOS only) */
+  lastModifiedDate?: Date;
+  /** Original start of this instance, for recurring events */
+  instanceStartDate?: Date;
+  /** IANA zone the event was created in, when the device reports one */
+  timeZone?: string;
 }
 
 export interface SyncResult {
@@ -192,6 +275,22 @@ export async function getCalendars(): Promise<Calendar.Calendar[]> {
   }
 }
 
+function mapDeviceEvent(event: Calendar.Event): CalendarEvent {
+  return {
+    id: event.id,
+    title: event.title,
+    startDate: new Date(event.startDate),
+    endDate: new Date(event.endDate),
+    location: event.location ?? undefined,
+    notes: event.notes,
+    allDay: event.allDay ?? false,
+    calendarId: event.calendarId,
+    lastModifiedDate: event.lastModifiedDate ? new Date(event.lastModifiedDate) : undefined,
+    instanceStartDate: event.recurrenceRule ? new Date(event.originalStartDate || event.startDate) : undefined,
+    timeZone: event.timeZone || undefined,
+  };
+}
+
 /**
  * Fetch events from all calendars within a date range
  *
@@ -225,18 +324,7 @@ export async function fetchCalendarEvents(
 
         console.log(`  📅 ${calendar.title}: ${events.length} events`);
 
-        const mappedEvents: CalendarEvent[] = events.map((event) => ({
-          id: event.id,
-          title: event.title,
-          startDate: new Date(event.startDate),
-          endDate: new Date(event.endDate),
-          location: event.location ?? undefined,
-          notes: event.notes,
-          allDay: event.allDay ?? false,
-          calendarId: event.calendarId,
-        }));
-
-        allEvents.push(...mappedEvents);
+        allEvents.push(...events.map(mapDeviceEvent));
       } catch (error) {
         console.error(`❌ Error fetching events from calendar ${calendar.title}:`, error);
       }
@@ -295,6 +383,77 @@ export async function fetchCalendarEventsForPreview(
   }
 }
 
+/**
+ * calendar_events row for a device event. Events without a location, or
+ * whose location can't be geocoded, are kept as busy blocks (no
+ * coordinates) so free-time detection still sees them.
+ */
+function buildImportedEventRow(
+  userId: string,
+  event: CalendarEvent,
+  geocoded: { lat: number; lng: number } | null,
+  now: Date = new Date()
+) {
+  return {
+    user_id: userId,
+    title: event.title,
+    description: event.notes || null,
+    category: inferCategory(event.title),
+    location: geocoded
+      ? { type: 'Point', coordinates: [geocoded.lng, geocoded.lat] } // PostGIS uses [lng, lat] order
+      : null,
+    address: event.location?.trim() || null,
+    start_time: event.startDate.toISOString(),
+    end_time: event.endDate.toISOString(),
+    all_day: event.allDay,
+    timezone: event.timeZone || null,
+    source: Platform.OS === 'ios' ? 'apple_calendar' : 'google_calendar',
+    external_calendar_id: event.calendarId,
+    external_event_id: buildExternalEventKey(event),
+    external_etag: fingerprintSyncFields(syncFieldsFromDeviceEvent(event)),
+    external_last_modified: event.lastModifiedDate?.toISOString() ?? null,
+    external_synced_at: now.toISOString(),
+    sync_conflict: null,
+    status: 'scheduled',
+  };
+}
+
+/**
+ * Import one device event, or refresh the row already linked to it.
+ * A Loop event that two-way sync copied to the device is left alone: it is
+ * already in Loop, and overwriting it would turn it into an import.
+ * Returns an error message, or null on success.
+ */
+async function importDeviceEvent(userId: string, event: CalendarEvent): Promise<string | null> {
+  const { data: linked, error: lookupError } = await supabase
+    .from('calendar_events')
+    .select('source')
+    .eq('user_id', userId)
+    .eq('external_event_id', buildExternalEventKey(event))
+    .maybeSingle();
+
+  if (lookupError) {
+    console.error(`❌ Error checking "${event.title}" before import:`, lookupError);
+    return `Failed to sync: ${event.title}`;
+  }
+  if (linked && !isImportedRow(linked)) return null;
+
+  const geocoded = event.location?.trim() ? await geocodeAddress(event.location) : null;
+  if (event.location?.trim() && !geocoded) {
+    console.log(`⚠️ Keeping "${event.title}" as a busy block - couldn't geocode location: ${event.location}`);
+  }
+
+  const { error } = await supabase
+    .from('calendar_events')
+    .upsert(buildImportedEventRow(userId, event, geocoded), { onConflict: 'user_id,external_event_id' });
+
+  if (error) {
+    console.error(`❌ Error importing event "${event.title}":`, error);
+    return `Failed to sync: ${event.title}`;
+  }
+  return null;
+}
+
 /**
  * Sync selected calendar events to Supabase database
  *
@@ -306,93 +465,15 @@ export async function syncSelectedEventsToDatabase(
   userId: string,
   selectedEvents: CalendarEvent[]
 ): Promise<SyncResult> {
-  const errors: string[] = [];
-  let eventsSynced = 0;
-
-  try {
-    console.log(`🔄 Syncing ${selectedEvents.length} selected events...`);
-
-    // Filter to events with location
-    const eventsWithLocation = selectedEvents.filter(
-      (event) => event.location && event.location.trim().length > 0
-    );
-
-    console.log(`📍 ${eventsWithLocation.length} events have location data`);
-
-    // Delete existing external calendar events for this user that match these events
-    const externalIds = eventsWithLocation.map(e => e.id);
-    if (externalIds.length > 0) {
-      await supabase
-        .from('calendar_events')
-        .delete()
-        .eq('user_id', userId)
-        .in('external_event_id', externalIds);
-    }
-
-    // Import selected events
-    for (const event of eventsWithLocation) {
-      try {
-        const geocoded = await geocodeAddress(event.location || '');
-
-        if (!geocoded) {
-          console.log(`⚠️ Skipping "${event.title}" - couldn't geocode location`);
-          errors.push(`Couldn't geocode: ${event.title}`);
-          continue;
-        }
-
-        const { error: insertError } = await supabase
-          .from('calendar_events')
-          .insert({
-            user_id: userId,
-            title: event.title,
-            description: event.notes || null,
-            category: inferCategory(event.title),
-            location: {
-              type: 'Point',
-              coordinates: [geocoded.lng, geocoded.lat],
-            },
-            address: event.location || '',
-            start_time: event.startDate.toISOString(),
-            end_time: event.endDate.toISOString(),
-            all_day: event.allDay,
-            source: Platform.OS === 'ios' ? 'apple_calendar' : 'google_calendar',
-            external_calendar_id: event.calendarId,
-            external_event_id: event.id,
-            status: 'scheduled',
-          });
-
-        if (insertError) {
-          console.error(`❌ Error inserting event "${event.title}":`, insertError);
-          errors.push(`Failed to sync: ${event.title}`);
-        } else {
-          eventsSynced++;
-        }
-      } catch (error) {
-        console.error(`❌ Error processing event "${event.title}":`, error);
-        errors.push(`Failed to process: ${event.title}`);
-      }
-    }
-
-    console.log(`✅ Sync complete: ${eventsSynced}/${eventsWithLocation.length} events synced`);
-
-    return {
-      success: errors.length === 0,
-      eventsSynced,
-      errors,
-    };
-  } catch (error) {
-    console.error('❌ Sync failed:', error);
-    return {
-      success: false,
-      eventsSynced,
-      errors: [...errors, error instanceof Error ? error.message : 'Unknown error'],
-    };
-  }
+  console.log(`🔄 Syncing ${selectedEvents.length} selected events...`);
+  const result = await syncSelectedEventsWithProgress(userId, selectedEvents, () => {});
+  console.log(`✅ Sync complete: ${result.eventsSynced}/${selectedEvents.length} events synced`);
+  return result;
 }
 
 /**
  * Sync selected calendar events with progress callbacks.
- * Wraps syncSelectedEventsToDatabase with per-event progress reporting.
+ * Events already imported are updated in place rather than duplicated.
  */
 export async function syncSelectedEventsWithProgress(
   userId: string,
@@ -401,53 +482,17 @@ export async function syncSelectedEventsWithProgress(
 ): Promise<SyncResult> {
   const errors: string[] = [];
   let eventsSynced = 0;
-  const eventsWithLocation = selectedEvents.filter(
-    (event) => event.location && event.location.trim().length > 0
-  );
-  const total = eventsWithLocation.length;
+  const total = selectedEvents.length;
 
   try {
-    // Delete existing external calendar events for matching IDs
-    const externalIds = eventsWithLocation.map(e => e.id);
-    if (externalIds.length > 0) {
-      await supabase
-        .from('calendar_events')
-        .delete()
-        .eq('user_id', userId)
-        .in('external_event_id', externalIds);
-    }
-
-    for (let i = 0; i < eventsWithLocation.length; i++) {
-      const event = eventsWithLocation[i];
+    for (let i = 0; i < selectedEvents.length; i++) {
+      const event = selectedEvents[i];
       onProgress({ current: i + 1, total, currentTitle: event.title });
 
       try {
-        const geocoded = await geocodeAddress(event.location || '');
-        if (!geocoded) {
-          errors.push(`Couldn't geocode: ${event.title}`);
-          continue;
-        }
-
-        const { error: insertError } = await supabase
-          .from('calendar_events')
-          .insert({
-            user_id: userId,
-            title: event.title,
-            description: event.notes || null,
-            category: inferCategory(event.title),
-            location: { type: 'Point', coordinates: [geocoded.lng, geocoded.lat] },
-            address: event.location || '',
-            start_time: event.startDate.toISOString(),
-            end_time: event.endDate.toISOString(),
-            all_day: event.allDay,
-            source: Platform.OS === 'ios' ? 'apple_calendar' : 'google_calendar',
-            external_calendar_id: event.calendarId,
-            external_event_id: event.id,
-            status: 'scheduled',
-          });
-
-        if (insertError) {
-          errors.push(`Failed to sync: ${event.title}`);
+        const error = await importDeviceEvent(userId, event);
+        if (error) {
+          errors.push(error);
         } else {
           eventsSynced++;
         }
@@ -466,8 +511,106 @@ export async function syncSelectedEventsWithProgress(
   }
 }
 
+// ===================================
+// Incremental two-way sync (see calendar-sync.ts)
+// ===================================
+
+export interface CalendarSyncOptions {
+  /** Create Loop-only events on the device calendar (default: true) */
+  pushLoopEvents?: boolean;
+  /** Device calendar for new Loop events (default: the device's default calendar) */
+  calendarId?: string;
+}
+
+export interface CalendarSyncResult extends SyncResult {
+  imported: number;
+  updated: number;
+  removed: number;
+  pushedToDevice: number;
+  /** Events changed on both sides, waiting for resolveCalendarSyncConflict */
+  conflicts: CalendarSyncConflict[];
+}
+
+const SYNCED_EVENT_COLUMNS =
+  'id, title, description, address, start_time, end_time, all_day, status, source, ' +
+  'timezone, recurrence_rule, recurrence_parent_id, external_calendar_id, external_event_id, external_etag, sync_conflict';
+
+/** expo-calendar details for writing Loop's version of an event */
+function toDeviceEventDetails(fields: CalendarSyncFields) {
+  return {
+    title: fields.title,
+    startDate: new Date(fields.startTime),
+    endDate: new Date(fields.endTime),
+    allDay: fields.allDay,
+    location: fields.location || null,
+    notes: fields.notes,
+  };
+}
+
+function recurringEventOptions(key: string) {
+  const { instanceStartDate } = parseExternalEventKey(key);
+  return instanceStartDate ? { instanceStartDate, futureEvents: false } : undefined;
+}
+
+/** The calendar new Loop events are written to */
+async function getWritableCalendarId(): Promise<string | null> {
+  try {
+    if (Platform.OS === 'ios') {
+      const calendar = await Calendar.getDefaultCalendarAsync();
+      if (calendar?.allowsModifications) return calendar.id;
+    }
+    const calendars = await Calendar.getCalendarsAsync(Calendar.EntityTypes.EVENT);
+    const writable = calendars.filter(c => c.allowsModifications);
+    return (writable.find(c => c.isPrimary) || writable[0])?.id ?? null;
+  } catch (error) {
+    console.error('❌ Error finding a writable calendar:', error);
+    return null;
+  }
+}
+
+/** A linked device event that moved out of the fetched range, or null if it was deleted */
+async function lookUpDeviceEvent(key: string): Promise<CalendarEvent | null> {
+  const { eventId, instanceStartDate } = parseExternalEventKey(key);
+  try {
+    const event = await Calendar.getEventAsync(eventId, instanceStartDate ? { instanceStartDate } : undefined);
+    return event ? mapDeviceEvent(event) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Row columns for a device event's version of the shared fields */
+async function rowUpdateFromDevice(
+  row: SyncedEventRow,
+  fields: CalendarSyncFields
+): Promise<Record<string, unknown>> {
+  const update: Record<string, unknown> = {
+    title: fields.title,
+    description: fields.notes || null,
+    address: fields.location || null,
+    start_time: fields.startTime,
+    end_time: fields.endTime,
+    all_day: fields.allDay,
+  };
+
+  if (fields.location !== (row.address || '').trim()) {
+    const geocoded = fields.location ? await geocodeAddress(fields.location) : null;
+    update.location = geocoded ? { type: 'Point', coordinates: [geocoded.lng, geocoded.lat] } : null;
+  }
+  return update;
+}
+
+function mapRowToSyncConflict(row: SyncedEventRow): CalendarSyncConflict {
+  return { eventId: row.id, title: row.title, ...row.sync_conflict! };
+}
+
 /**
- * Sync calendar events to Supabase database
+ * Sync the device calendar with Loop, both ways and incrementally:
+ * - new device events are imported; events without a location become busy blocks
+ * - device edits update their rows; device deletions remove imported rows
+ * - Loop edits and cancellations are written back to the device
+ * - Loop-only events are created on the device (unless pushLoopEvents is false)
+ * - events changed on both sides are returned as conflicts
  *
  * @param userId - User ID to sync events for
  * @param daysAhead - Number of days ahead to sync (default: 30)
@@ -475,105 +618,292 @@ export async function syncSelectedEventsWithProgress(
  */
 export async function syncCalendarToDatabase(
   userId: string,
-  daysAhead: number = 30
-): Promise<SyncResult> {
+  daysAhead: number = 30,
+  options: CalendarSyncOptions = {}
+): Promise<CalendarSyncResult> {
   const errors: string[] = [];
-  let eventsSynced = 0;
+  const result: CalendarSyncResult = {
+    success: false,
+    eventsSynced: 0,
+    errors,
+    imported: 0,
+    updated: 0,
+    removed: 0,
+    pushedToDevice: 0,
+    conflicts: [],
+  };
 
   try {
     console.log('🔄 Starting calendar sync...');
 
-    // Fetch events for the next N days
-    const startDate = new Date();
-    const endDate = new Date();
+    const now = new Date();
+    const startDate = new Date(now);
+    const endDate = new Date(now);
     endDate.setDate(endDate.getDate() + daysAhead);
 
     const events = await fetchCalendarEvents(startDate, endDate);
 
-    console.log(`📅 Syncing ${events.length} events to database...`);
+    // Current and future rows (imported and Loop-made)
+    const { data: rows, error: rowsError } = await supabase
+      .from('calendar_events')
+      .select(SYNCED_EVENT_COLUMNS)
+      .eq('user_id', userId)
+      .gte('end_time', startDate.toISOString());
+
+    if (rowsError) throw new Error(`Loading calendar events failed: ${rowsError.message}`);
+    const syncedRows = (rows || []) as unknown as SyncedEventRow[];
+
+    // Linked events missing from the range either moved out of it or were deleted
+    const fetchedKeys = new Set(events.map(buildExternalEventKey));
+    for (const row of syncedRows) {
+      const key = row.external_event_id;
+      if (!key || fetchedKeys.has(key) || row.sync_conflict || new Date(row.start_time) > endDate) continue;
+      const moved = await lookUpDeviceEvent(key);
+      if (moved) {
+        events.push({ ...moved, instanceStartDate: parseExternalEventKey(key).instanceStartDate });
+        fetchedKeys.add(key);
+      }
+    }
+
+    const pushLoopEvents = options.pushLoopEvents !== false;
+    const actions = planCalendarSync(syncedRows, events, { windowStart: startDate, windowEnd: endDate, pushLoopEvents });
+    console.log(`📅 ${actions.length} calendar changes to sync`);
+
+    let writableCalendarId: string | null | undefined = options.calendarId;
+    const syncedAt = now.toISOString();
 
-    // Filter out events without location (can't add to map)
-    const eventsWithLocation = events.filter((event) => event.location && event.location.trim().length > 0);
+    for (const action of actions) {
+      const title = action.type === 'import' ? action.event.title : action.row.title;
+      try {
+        switch (action.type) {
+          case 'import': {
+            const error = await importDeviceEvent(userId, action.event);
+            if (error) errors.push(error);
+            else result.imported++;
+            break;
+          }
+
+          case 'pull': {
+            const fields = syncFieldsFromDeviceEvent(action.event);
+            const { error } = await supabase
+              .from('calendar_events')
+              .update({
+                ...(await rowUpdateFromDevice(action.row, fields)),
+                ...(action.event.timeZone ? { timezone: action.event.timeZone } : {}),
+                external_etag: fingerprintSyncFields(fields),
+                external_last_modified: action.event.lastModifiedDate?.toISOString() ?? null,
+                external_synced_at: syncedAt,
+              })
+              .eq('id', action.row.id);
+            if (error) errors.push(`Failed to update: ${title}`);
+            else result.updated++;
+            break;
+          }
+
+          case 'push': {
+            const fields = syncFieldsFromRow(action.row);
+            const key = action.row.external_event_id!;
+            await Calendar.updateEventAsync(
+              parseExternalEventKey(key).eventId,
+              toDeviceEventDetails(fields),
+              recurringEventOptions(key)
+            );
+            await supabase
+              .from('calendar_events')
+              .update({ external_etag: fingerprintSyncFields(fields), external_synced_at: syncedAt })
+              .eq('id', action.row.id);
+            result.pushedToDevice++;
+            break;
+          }
+
+          case 'create_on_device': {
+            if (writableCalendarId === undefined) writableCalendarId = await getWritableCalendarId();
+            if (!writableCalendarId) break;
+
+            const fields = syncFieldsFromRow(action.row);
+            const deviceEventId = await Calendar.createEventAsync(writableCalendarId, {
+              ...toDeviceEventDetails(fields),
+              timeZone: action.row.timezone || getDeviceTimezone(),
+            });
+            await supabase
+              .from('calendar_events')
+              .update({
+                external_calendar_id: writableCalendarId,
+                external_event_id: deviceEventId,
+                external_etag: fingerprintSyncFields(fields),
+                external_synced_at: syncedAt,
+              })
+              .eq('id', action.row.id);
+            result.pushedToDevice++;
+            break;
+          }
+
+          case 'delete_on_device': {
+            const key = action.row.external_event_id!;
+            await Calendar.deleteEventAsync(parseExternalEventKey(key).eventId, recurringEventOptions(key));
+            await supabase
+              .from('calendar_events')
+              .update({ external_calendar_id: null, external_event_id: null, external_etag: null, external_synced_at: syncedAt })
+              .eq('id', action.row.id);
+            result.pushedToDevice++;
+            break;
+          }
+
+          case 'remove': {
+            const { error } = await supabase.from('calendar_events').delete().eq('id', action.row.id);
+            if (error) errors.push(`Failed to remove: ${title}`);
+            else result.removed++;
+            break;
+          }
+
+          case 'unlink': {
+            const { error } = await supabase
+              .from('calendar_events')
+              .update({
+                status: action.row.status === 'scheduled' ? 'cancelled' : action.row.status,
+                external_calendar_id: null,
+                external_event_id: null,
+                external_etag: null,
+                external_synced_at: syncedAt,
+              })
+              .eq('id', action.row.id);
+            if (error) errors.push(`Failed to update: ${title}`);
+            else result.updated++;
+            break;
+          }
+
+          case 'conflict': {
+            const conflict = buildSyncConflict(action.row, action.event, now);
+            await supabase.from('calendar_events').update({ sync_conflict: conflict }).eq('id', action.row.id);
+            result.conflicts.push({ eventId: action.row.id, title, ...conflict });
+            break;
+          }
+        }
+      } catch (error) {
+        console.error(`❌ Error syncing "${title}" (${action.type}):`, error);
+        errors.push(`Failed to sync: ${title}`);
+      }
+    }
+
+    // Conflicts from earlier runs are still waiting on the user
+    for (const row of syncedRows) {
+      if (row.sync_conflict) result.conflicts.push(mapRowToSyncConflict(row));
+    }
+
+    result.eventsSynced = result.imported + result.updated;
+    result.success = errors.length === 0;
+
+    console.log(
+      `✅ Calendar sync complete: ${result.imported} imported, ${result.updated} updated, ` +
+      `${result.removed} removed, ${result.pushedToDevice} pushed, ${result.conflicts.length} conflicts`
+    );
+
+    return result;
+  } catch (error) {
+    console.error('❌ Calendar sync failed:', error);
+    errors.push(error instanceof Error ? error.message : 'Unknown error');
+    return result;
+  }
+}
 
-    console.log(`📍 ${eventsWithLocation.length} events have location data`);
+/**
+ * Events changed both in Loop and on the device since the last sync.
+ */
+export async function getCalendarSyncConflicts(userId: string): Promise<CalendarSyncConflict[]> {
+  const { data, error } = await supabase
+    .from('calendar_events')
+    .select(SYNCED_EVENT_COLUMNS)
+    .eq('user_id', userId)
+    .not('sync_conflict', 'is', null);
+
+  if (error) {
+    console.error('❌ Error fetching calendar conflicts:', error);
+    return [];
+  }
+  return ((data || []) as unknown as SyncedEventRow[]).map(mapRowToSyncConflict);
+}
 
-    // Delete existing external calendar events for this user
-    // (We'll re-import fresh data)
-    const { error: deleteError } = await supabase
+/**
+ * Settle a sync conflict by keeping one side's version and writing it to the other.
+ *
+ * @param keep - 'loop' writes Loop's version to the device; 'device' takes the device's
+ * @returns Promise with whether the conflict was settled
+ */
+export async function resolveCalendarSyncConflict(
+  userId: string,
+  eventId: string,
+  keep: 'loop' | 'device'
+): Promise<boolean> {
+  try {
+    const { data, error } = await supabase
       .from('calendar_events')
-      .delete()
+      .select(SYNCED_EVENT_COLUMNS)
+      .eq('id', eventId)
       .eq('user_id', userId)
-      .in('source', ['google_calendar', 'apple_calendar']);
+      .single();
 
-    if (deleteError) {
-      console.error('❌ Error deleting old calendar events:', deleteError);
-      errors.push('Failed to delete old events');
+    if (error || !data) {
+      console.error('❌ Error loading conflicted event:', error);
+      return false;
     }
 
-    // Import events with location to database
-    for (const event of eventsWithLocation) {
-      try {
-        // Try to geocode the location address
-        const geocoded = await geocodeAddress(event.location || '');
-
-        // Skip events we couldn't geocode (invalid geometry would cause PostGIS error)
-        if (!geocoded) {
-          console.log(`⚠️ Skipping "${event.title}" - couldn't geocode location: ${event.location}`);
-          errors.push(`Couldn't geocode: ${event.title}`);
-          continue;
-        }
+    const row = data as unknown as SyncedEventRow;
+    const conflict = row.sync_conflict;
+    if (!conflict) return true;
 
-        const { error: insertError } = await supabase
-          .from('calendar_events')
-          .insert({
-            user_id: userId,
-            title: event.title,
-            description: event.notes || null,
-            category: inferCategory(event.title),
-            location: {
-              type: 'Point',
-              coordinates: [geocoded.lng, geocoded.lat], // PostGIS uses [lng, lat] order
-            },
-            address: event.location || '',
-            start_time: event.startDate.toISOString(),
-            end_time: event.endDate.toISOString(),
-            all_day: event.allDay,
-            source: Platform.OS === 'ios' ? 'apple_calendar' : 'google_calendar',
-            external_calendar_id: event.calendarId,
-            external_event_id: event.id,
-            status: 'scheduled',
-          });
+    const syncedAt = new Date().toISOString();
+    const key = row.external_event_id;
+    let update: Record<string, unknown>;
 
-        if (insertError) {
-          console.error(`❌ Error inserting event "${event.title}":`, insertError);
-          errors.push(`Failed to sync: ${event.title}`);
-        } else {
-          eventsSynced++;
+    if (keep === 'device') {
+      if (!conflict.device) {
+        // Deleted on the device
+        if (isImportedRow(row)) {
+          const { error: deleteError } = await supabase.from('calendar_events').delete().eq('id', row.id);
+          return !deleteError;
         }
-      } catch (error) {
-        console.error(`❌ Error processing event "${event.title}":`, error);
-        errors.push(`Failed to process: ${event.title}`);
+        update = { status: 'cancelled', external_calendar_id: null, external_event_id: null, external_etag: null };
+      } else {
+        update = {
+          ...(await rowUpdateFromDevice(row, conflict.device)),
+          external_etag: fingerprintSyncFields(conflict.device),
+        };
+      }
+    } else {
+      const loop = syncFieldsFromRow(row);
+      if (row.status === 'cancelled') {
+        if (key && conflict.device) {
+          await Calendar.deleteEventAsync(parseExternalEventKey(key).eventId, recurringEventOptions(key));
+        }
+        update = { external_calendar_id: null, external_event_id: null, external_etag: null };
+      } else if (key && conflict.device) {
+        await Calendar.updateEventAsync(parseExternalEventKey(key).eventId, toDeviceEventDetails(loop), recurringEventOptions(key));
+        update = { external_etag: fingerprintSyncFields(loop) };
+      } else {
+        // Deleted on the device: put it back
+        const calendarId = row.external_calendar_id || await getWritableCalendarId();
+        if (!calendarId) return false;
+        const deviceEventId = await Calendar.createEventAsync(calendarId, {
+          ...toDeviceEventDetails(loop),
+          timeZone: row.timezone || getDeviceTimezone(),
+        });
+        update = { external_calendar_id: calendarId, external_event_id: deviceEventId, external_etag: fingerprintSyncFields(loop) };
       }
     }
 
-    console.log(`✅ Calendar sync complete: ${eventsSynced}/${eventsWithLocation.length} events synced`);
+    const { error: updateError } = await supabase
+      .from('calendar_events')
+      .update({ ...update, sync_conflict: null, external_synced_at: syncedAt })
+      .eq('id', row.id);
 
-    if (errors.length > 0) {
-      console.log(`⚠️ ${errors.length} errors during sync`);
+    if (updateError) {
+      console.error('❌ Error resolving calendar conflict:', updateError);
+      return false;
     }
-
-    return {
-      success: errors.length === 0,
-      eventsSynced,
-      errors,
-    };
+    return true;
   } catch (error) {
-    console.error('❌ Calendar sync failed:', error);
-    return {
-      success: false,
-      eventsSynced,
-      errors: [...errors, error instanceof Error ? error.message : 'Unknown error'],
-    };
+    console.error('❌ Error resolving calendar conflict:', error);
+    return false;
   }
 }
 
@@ -595,21 +925,17 @@ export async function getUpcomingFreeTime(
     const endDate = new Date();
     endDate.setDate(endDate.getDate() + days);
 
-    // Fetch events from database (user's Loop events + imported calendar events)
-    const { data: events, error } = await supabase
-      .from('calendar_events')
-      .select('start_time, end_time')
-      .eq('user_id', userId)
-      .gte('start_time', startDate.toISOString())
-      .lte('start_time', endDate.toISOString())
-      .eq('status', 'scheduled')
-      .order('start_time', { ascending: true });
+    // Fetch events from database (user's Loop events + imported calendar events),
+    // with recurring series expanded into occurrences
+    const { events: rangeEvents, error } = await fetchCalendarEventsInRange(userId, startDate, endDate);
 
     if (error) {
       console.error('❌ Error fetching events:', error);
-      throw error;
+      throw new Error(error);
     }
 
+    const events = rangeEvents.filter(event => event.status === 'scheduled');
+
     // Find gaps between events (free time)
     const freeSlots: { start: Date; end: Date; durationMinutes: number }[] = [];
 
@@ -628,7 +954,7 @@ export async function getUpcomingFreeTime(
       let currentTime = dayStart;
 
       // Filter events for this day
-      const dayEvents = (events || []).filter((event: any) => {
+      const dayEvents = events.filter(event => {
         const eventStart = new Date(event.start_time);
         return (
           eventStart.getDate() === dayStart.getDate() &&
@@ -692,6 +1018,8 @@ export async function getUpcomingFreeTime(
  * @param endDate - Event end date
  * @param location - Event location (optional)
  * @param notes - Event notes (optional)
+ * @param timeZone - IANA zone the event takes place in (optional; the
+ *   event's calendar_events.timezone or the user's, else the device's)
  * @returns Promise with created event ID
  */
 export async function createCalendarEvent(
@@ -700,7 +1028,8 @@ export async function createCalendarEvent(
   startDate: Date,
   endDate: Date,
   location?: string,
-  notes?: string
+  notes?: string,
+  timeZone?: string | null
 ): Promise<string> {
   try {
     console.log(`📅 Creating calendar event: ${title}`);
@@ -713,14 +1042,15 @@ export async function createCalendarEvent(
       }
     }
 
+    const zone = resolveTimezone(timeZone);
     const eventId = await Calendar.createEventAsync(calendarId, {
       title,
       startDate,
       endDate,
       location,
       notes,
-      timeZone: 'America/Chicago', // User's timezone - would get from user profile
-      endTimeZone: 'America/Chicago',
+      timeZone: zone,
+      endTimeZone: zone,
     });
 
     console.log(`✅ Event created: ${eventId}`);
@@ -822,22 +1152,21 @@ export async function checkTimeConflict(
   try {
     console.log(`🔍 Checking for conflicts: ${startTime.toLocaleTimeString()} - ${endTime.toLocaleTimeString()}`);
 
-    const { data, error } = await supabase
-      .from('calendar_events')
-      .select('id, title, start_time, end_time')
-      .eq('user_id', userId)
-      .eq('status', 'scheduled')
-      .gte('end_time', startTime.toISOString())
-      .lte('start_time', endTime.toISOString())
-      .limit(1);
+    // Occurrences of recurring series count too; look back for events that
+    // started earlier but are still running at startTime
+    const { events, error } = await fetchCalendarEventsInRange(
+      userId,
+      new Date(startTime.getTime() - CONFLICT_LOOKBACK_MS),
+      endTime
+    );
 
     if (error) {
       console.error('❌ Error checking conflicts:', error);
       return null;
     }
 
-    if (data && data.length > 0) {
-      const conflict = data[0];
+    const conflict = events.find(event => event.status === 'scheduled' && new Date(event.end_time) >= startTime);
+    if (conflict) {
       console.log(`⚠️ Conflict found: "${conflict.title}" at ${new Date(conflict.start_time).toLocaleTimeString()}`);
       return {
         id: conflict.id,
@@ -903,15 +1232,20 @@ export async function canMakeItOnTime(
       longitude: previousTask.location.coordinates[0],
     };
 
-    // Calculate travel time
-    const travelMinutes = calculateTravelTimeWithBuffer(previousLocation, newTaskLocation);
+    // Calculate travel time in the user's mode, plus 5 min for parking/walking
+    const mode = await getPreferredTravelMode(userId);
+    const baseMinutes = await getTravelMinutes(previousLocation, newTaskLocation, {
+      mode,
+      departAt: new Date(previousTask.end_time),
+    });
+    const travelMinutes = Math.max(5, baseMinutes + 5);
     const arrivalTime = new Date(new Date(previousTask.end_time).getTime() + travelMinutes * 60000);
 
     // Check if arrival time is before new task start time
     const feasible = arrivalTime <= newTaskStartTime;
     const minutesLate = feasible ? 0 : Math.ceil((arrivalTime.getTime() - newTaskStartTime.getTime()) / 60000);
 
-    console.log(`🚗 Travel check: ${previousTask.title} ends at ${new Date(previousTask.end_time).toLocaleTimeString()}, ${travelMinutes} min travel → arrive at ${arrivalTime.toLocaleTimeString()}`);
+    console.log(`🚗 Travel check (${mode}): ${previousTask.title} ends at ${new Date(previousTask.end_time).toLocaleTimeString()}, ${travelMinutes} min travel → arrive at ${arrivalTime.toLocaleTimeString()}`);
     console.log(feasible ? '✅ Can make it on time' : `❌ Will be ${minutesLate} min late`);
 
     return {
@@ -0,0 +1,272 @@
+/**
+ * Calendar Sync — Incremental, Two-Way Planning
+ *
+ * Decides what one sync run should do, given the user's calendar_events
+ * rows and the events on the device calendar. calendar-service.ts carries
+ * the plan out (database writes, expo-calendar calls, geocoding).
+ *
+ * Each linked row stores an etag: a fingerprint of the fields both sides
+ * share (title, notes, location, times, all-day) as of the last sync. A side
+ * whose current fingerprint differs from the etag changed since then:
+ * - only the device changed → pull the device version into Loop
+ * - only Loop changed       → push Loop's version to the device
+ * - both changed, and differently → conflict, kept until the user picks one
+ *
+ * Imported events the device no longer has are removed; Loop-made events
+ * deleted on the device are cancelled in Loop. Cancelling in Loop deletes
+ * the device copy. Recurring events are keyed per instance.
+ */
+
+import type { CalendarEvent } from '@/services/calendar-service';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** The fields Loop and the device calendar both have */
+export interface CalendarSyncFields {
+  title: string;
+  notes: string;
+  location: string;
+  startTime: string;
+  endTime: string;
+  allDay: boolean;
+}
+
+/** A calendar_events row, as far as sync is concerned */
+export interface SyncedEventRow {
+  id: string;
+  title: string;
+  description?: string | null;
+  address?: string | null;
+  start_time: string;
+  end_time: string;
+  all_day?: boolean | null;
+  status: string;
+  source: string;
+  /** IANA zone the event takes place in (not synced as a field) */
+  timezone?: string | null;
+  /** Recurring series and their overrides stay in Loop (not pushed) */
+  recurrence_rule?: string | null;
+  recurrence_parent_id?: string | null;
+  external_calendar_id?: string | null;
+  external_event_id?: string | null;
+  external_etag?: string | null;
+  sync_conflict?: CalendarSyncConflictData | null;
+}
+
+/** calendar_events.sync_conflict */
+export interface CalendarSyncConflictData {
+  detectedAt: string;
+  loop: CalendarSyncFields;
+  /** null when the device copy was deleted */
+  device: CalendarSyncFields | null;
+}
+
+export interface CalendarSyncConflict extends CalendarSyncConflictData {
+  eventId: string;
+  title: string;
+}
+
+export type CalendarSyncAction =
+  /** New device event → insert a row */
+  | { type: 'import'; event: CalendarEvent }
+  /** Device changed → update the row */
+  | { type: 'pull'; row: SyncedEventRow; event: CalendarEvent }
+  /** Loop changed → update the device event */
+  | { type: 'push'; row: SyncedEventRow; event: CalendarEvent }
+  /** Loop-only event → create it on the device */
+  | { type: 'create_on_device'; row: SyncedEventRow }
+  /** Cancelled in Loop → delete the device event */
+  | { type: 'delete_on_device'; row: SyncedEventRow }
+  /** Imported event deleted on the device → delete the row */
+  | { type: 'remove'; row: SyncedEventRow }
+  /** Loop-made event deleted on the device → cancel it and unlink */
+  | { type: 'unlink'; row: SyncedEventRow }
+  | { type: 'conflict'; row: SyncedEventRow; event: CalendarEvent | null };
+
+export interface CalendarSyncPlanOptions {
+  /** The date range device events were fetched for */
+  windowStart: Date;
+  windowEnd: Date;
+  /** Create Loop-only events on the device calendar */
+  pushLoopEvents: boolean;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Sources for rows imported from another calendar; never pushed to the device */
+export const IMPORTED_EVENT_SOURCES = ['google_calendar', 'apple_calendar', 'ics_import'];
+
+// ============================================================================
+// KEYS & FINGERPRINTS
+// ============================================================================
+
+/**
+ * external_event_id for a device event. Instances of a recurring event
+ * share the device ID, so they're told apart by their start time.
+ */
+export function buildExternalEventKey(event: Pick<CalendarEvent, 'id' | 'instanceStartDate'>): string {
+  return event.instanceStartDate ? `${event.id}@${event.instanceStartDate.toISOString()}` : event.id;
+}
+
+/** The device event ID and, for a recurring instance, which one */
+export function parseExternalEventKey(key: string): { eventId: string; instanceStartDate?: Date } {
+  const at = key.lastIndexOf('@');
+  if (at <= 0) return { eventId: key };
+  const instanceStartDate = new Date(key.slice(at + 1));
+  return isNaN(instanceStartDate.getTime()) ? { eventId: key } : { eventId: key.slice(0, at), instanceStartDate };
+}
+
+function normalizeTime(value: Date | string): string {
+  return new Date(value).toISOString();
+}
+
+export function syncFieldsFromDeviceEvent(event: CalendarEvent): CalendarSyncFields {
+  return {
+    title: (event.title || '').trim(),
+    notes: (event.notes || '').trim(),
+    location: (event.location || '').trim(),
+    startTime: normalizeTime(event.startDate),
+    endTime: normalizeTime(event.endDate),
+    allDay: !!event.allDay,
+  };
+}
+
+export function syncFieldsFromRow(row: SyncedEventRow): CalendarSyncFields {
+  return {
+    title: (row.title || '').trim(),
+    notes: (row.description || '').trim(),
+    location: (row.address || '').trim(),
+    startTime: normalizeTime(row.start_time),
+    endTime: normalizeTime(row.end_time),
+    allDay: !!row.all_day,
+  };
+}
+
+/** Short, stable fingerprint of the shared fields (FNV-1a) */
+export function fingerprintSyncFields(fields: CalendarSyncFields): string {
+  const text = JSON.stringify([fields.title, fields.notes, fields.location, fields.startTime, fields.endTime, fields.allDay]);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+export function isImportedRow(row: Pick<SyncedEventRow, 'source'>): boolean {
+  return IMPORTED_EVENT_SOURCES.includes(row.source);
+}
+
+// ============================================================================
+// PLANNING
+// ============================================================================
+
+function inWindow(row: SyncedEventRow, options: CalendarSyncPlanOptions): boolean {
+  const start = new Date(row.start_time);
+  return new Date(row.end_time) >= options.windowStart && start <= options.windowEnd;
+}
+
+/** What to do with a row linked to a device event that still exists */
+function planLinkedRow(row: SyncedEventRow, event: CalendarEvent): CalendarSyncAction | null {
+  const deviceFingerprint = fingerprintSyncFields(syncFieldsFromDeviceEvent(event));
+  const base = row.external_etag;
+
+  if (row.status === 'cancelled') {
+    const deviceChanged = !!base && deviceFingerprint !== base;
+    return deviceChanged ? { type: 'conflict', row, event } : { type: 'delete_on_device', row };
+  }
+
+  const loopFingerprint = fingerprintSyncFields(syncFieldsFromRow(row));
+
+  // Synced before etags existed: the side that owns the event wins
+  if (!base) {
+    if (loopFingerprint === deviceFingerprint || isImportedRow(row)) return { type: 'pull', row, event };
+    return { type: 'push', row, event };
+  }
+
+  const loopChanged = loopFingerprint !== base;
+  const deviceChanged = deviceFingerprint !== base;
+
+  if (!loopChanged && !deviceChanged) return null;
+  if (!loopChanged) return { type: 'pull', row, event };
+  if (!deviceChanged) return { type: 'push', row, event };
+  // Both sides made the same edit — just record it
+  if (loopFingerprint === deviceFingerprint) return { type: 'pull', row, event };
+  return { type: 'conflict', row, event };
+}
+
+/**
+ * Plan one sync run.
+ *
+ * @param rows - The user's current and future calendar_events rows
+ * @param deviceEvents - Device events in the window, plus any linked
+ *   events looked up individually because they moved out of it
+ */
+export function planCalendarSync(
+  rows: SyncedEventRow[],
+  deviceEvents: CalendarEvent[],
+  options: CalendarSyncPlanOptions
+): CalendarSyncAction[] {
+  const actions: CalendarSyncAction[] = [];
+  const eventsByKey = new Map(deviceEvents.map(e => [buildExternalEventKey(e), e]));
+  const linkedKeys = new Set<string>();
+
+  for (const row of rows) {
+    const key = row.external_event_id;
+
+    if (!key) {
+      if (
+        options.pushLoopEvents &&
+        !isImportedRow(row) &&
+        !row.recurrence_rule &&
+        !row.recurrence_parent_id &&
+        row.status === 'scheduled' &&
+        new Date(row.start_time) >= options.windowStart &&
+        inWindow(row, options)
+      ) {
+        actions.push({ type: 'create_on_device', row });
+      }
+      continue;
+    }
+
+    linkedKeys.add(key);
+    // Waiting on the user to pick a version
+    if (row.sync_conflict) continue;
+
+    const event = eventsByKey.get(key);
+    if (event) {
+      const action = planLinkedRow(row, event);
+      if (action) actions.push(action);
+      continue;
+    }
+
+    // Not on the device. Outside the fetched window we can't tell.
+    if (!inWindow(row, options)) continue;
+    if (row.status === 'cancelled') {
+      actions.push({ type: 'unlink', row });
+      continue;
+    }
+    const loopChanged = !!row.external_etag && fingerprintSyncFields(syncFieldsFromRow(row)) !== row.external_etag;
+    if (loopChanged) actions.push({ type: 'conflict', row, event: null });
+    else actions.push(isImportedRow(row) ? { type: 'remove', row } : { type: 'unlink', row });
+  }
+
+  for (const [key, event] of eventsByKey) {
+    if (!linkedKeys.has(key)) actions.push({ type: 'import', event });
+  }
+
+  return actions;
+}
+
+/** sync_conflict for a row and its device copy */
+export function buildSyncConflict(row: SyncedEventRow, event: CalendarEvent | null, now: Date = new Date()): CalendarSyncConflictData {
+  return {
+    detectedAt: now.toISOString(),
+    loop: syncFieldsFromRow(row),
+    device: event ? syncFieldsFromDeviceEvent(event) : null,
+  };
+}
@@ -0,0 +1,614 @@
+/**
+ * Collaborative Filtering
+ *
+ * Item-to-item "people like you loved this" scoring for the recommendation
+ * engine (feeds the `collaborative` score component, 0-10).
+ *
+ * - Positive interactions come from feedback (thumbs up), activity_likes and
+ *   accepted recommendation_tracking rows. Private likes/feedback never leave
+ *   the user's own row.
+ * - Two places are similar when the same users engaged with both: cosine
+ *   similarity over user interaction vectors, shrunk toward 0 when only a few
+ *   users overlap.
+ * - Neighbours are precomputed per city into `place_neighbors`
+ *   (scripts/precompute-place-neighbors.ts), so feed generation is one read.
+ * - At feed time each place the user liked votes for its neighbours, and
+ *   friends' shared likes add direct endorsements.
+ * - Cold start: when the user has too few likes, or their likes have no
+ *   neighbours yet, fall back to Loop community favourites from
+ *   `place_ratings_aggregate` (weaker score, honest explanation).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** One user's strongest positive interaction with one place */
+export interface PlaceInteraction {
+  userId: string;
+  placeId: string;
+  placeName?: string;
+  /** 0-1; see INTERACTION_STRENGTH */
+  strength: number;
+}
+
+export interface PlaceNeighbor {
+  placeId: string;
+  similarity: number;
+  /** Users who engaged with both places */
+  coUsers: number;
+}
+
+export type CollaborativeSource = 'neighbors' | 'friends' | 'community';
+
+export interface CollaborativeMatch {
+  /** 0-1 strength; the scoring signal maps this onto 0-10 points */
+  score: number;
+  source: CollaborativeSource;
+  /** Place the user liked that led here (neighbors) */
+  becauseOfPlaceId?: string;
+  becauseOfPlaceName?: string;
+  /** Friends who liked this place (friends) */
+  friendCount?: number;
+}
+
+/** Raw rows as read from Supabase */
+export interface FeedbackInteractionRow {
+  user_id: string;
+  activity_id: string | null;
+  rating: 'thumbs_up' | 'thumbs_down' | string;
+  visibility?: string | null;
+}
+
+export interface LikeInteractionRow {
+  user_id: string;
+  place_id: string;
+  place_name?: string | null;
+  visibility?: string | null;
+}
+
+export interface TrackingInteractionRow {
+  user_id: string;
+  google_place_id: string;
+  place_name?: string | null;
+  status: string;
+}
+
+export interface PlaceAggregateRow {
+  place_id: string;
+  total_likes: number | null;
+  total_thumbs_up: number | null;
+  total_thumbs_down: number | null;
+}
+
+export interface PlaceNeighborRow {
+  city: string;
+  state: string;
+  place_id: string;
+  neighbor_place_id: string;
+  similarity: number;
+  co_users: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Strength of each positive interaction; a user/place pair keeps the max */
+export const INTERACTION_STRENGTH = {
+  thumbs_up: 1,
+  like: 0.8,
+  accepted: 0.5,
+} as const;
+
+export const CF_CONFIG = {
+  /** Pairs seen together by fewer users are ignored */
+  minCoUsers: 2,
+  /** similarity *= co / (co + shrinkage) — damps pairs with little overlap */
+  similarityShrinkage: 5,
+  minSimilarity: 0.05,
+  maxNeighborsPerPlace: 20,
+  /** Bounds the pairwise pass for heavy users (strongest interactions kept) */
+  maxPlacesPerUser: 100,
+  /** Fewer liked places than this → community cold-start fallback */
+  minSeedPlaces: 2,
+  /** Community favourites need this many likes + thumbs up */
+  communityMinEndorsements: 5,
+  /** Community favourites never outrank a real neighbour match */
+  communityMaxScore: 0.5,
+  /** Matches below this score don't change the explanation text */
+  explainMinScore: 0.4,
+};
+
+const AGGREGATE_FALLBACK_LIMIT = 200;
+const IN_CHUNK_SIZE = 200;
+const INSERT_BATCH_SIZE = 500;
+
+/** Only likes/feedback the owner shared may inform other people's feeds */
+const SHARED_VISIBILITY = ['friends', 'public'];
+
+// ============================================================================
+// INTERACTIONS
+// ============================================================================
+
+/**
+ * Merge the three interaction sources into one strength per user/place.
+ * A thumbs down from the same user cancels their positive signals for that
+ * place. Rows with a private visibility are dropped unless `includePrivate`
+ * (the user's own seeds).
+ */
+export function collectInteractions(
+  sources: {
+    feedback?: FeedbackInteractionRow[];
+    likes?: LikeInteractionRow[];
+    tracking?: TrackingInteractionRow[];
+  },
+  includePrivate: boolean = false
+): PlaceInteraction[] {
+  const byKey = new Map<string, PlaceInteraction>();
+  const vetoed = new Set<string>();
+  const isShared = (visibility?: string | null) =>
+    includePrivate || visibility == null || SHARED_VISIBILITY.includes(visibility);
+
+  const add = (userId: string, placeId: string, strength: number, placeName?: string | null) => {
+    if (!userId || !placeId) return;
+    const key = `${userId}|${placeId}`;
+    const existing = byKey.get(key);
+    if (!existing || strength > existing.strength) {
+      byKey.set(key, { userId, placeId, strength, placeName: placeName || existing?.placeName });
+    } else if (!existing.placeName && placeName) {
+      existing.placeName = placeName;
+    }
+  };
+
+  for (const row of sources.feedback || []) {
+    if (!row.activity_id) continue;
+    if (row.rating === 'thumbs_down') {
+      vetoed.add(`${row.user_id}|${row.activity_id}`);
+    } else if (row.rating === 'thumbs_up' && isShared(row.visibility)) {
+      add(row.user_id, row.activity_id, INTERACTION_STRENGTH.thumbs_up);
+    }
+  }
+
+  for (const row of sources.likes || []) {
+    if (isShared(row.visibility)) {
+      add(row.user_id, row.place_id, INTERACTION_STRENGTH.like, row.place_name);
+    }
+  }
+
+  for (const row of sources.tracking || []) {
+    if (row.status === 'accepted') {
+      add(row.user_id, row.google_place_id, INTERACTION_STRENGTH.accepted, row.place_name);
+    }
+  }
+
+  return Array.from(byKey.entries())
+    .filter(([key]) => !vetoed.has(key))
+    .map(([, interaction]) => interaction);
+}
+
+// ============================================================================
+// SIMILARITY
+// ============================================================================
+
+/**
+ * Item-to-item neighbours from co-occurrence.
+ *
+ * similarity(a, b) = cosine(a, b) × co / (co + shrinkage), where co is the
+ * number of users who engaged with both. Each place keeps its top
+ * `maxNeighborsPerPlace` neighbours, strongest first.
+ */
+export function buildItemNeighbors(
+  interactions: PlaceInteraction[],
+  config: Partial<typeof CF_CONFIG> = {}
+): Map<string, PlaceNeighbor[]> {
+  const { minCoUsers, similarityShrinkage, minSimilarity, maxNeighborsPerPlace, maxPlacesPerUser } = {
+    ...CF_CONFIG,
+    ...config,
+  };
+
+  const byUser = new Map<string, PlaceInteraction[]>();
+  for (const interaction of interactions) {
+    const list = byUser.get(interaction.userId) || [];
+    list.push(interaction);
+    byUser.set(interaction.userId, list);
+  }
+
+  const squaredNorms = new Map<string, number>();
+  const pairs = new Map<string, { dot: number; co: number }>();
+
+  for (const list of byUser.values()) {
+    const places = list
+      .sort((a, b) => b.strength - a.strength)
+      .slice(0, maxPlacesPerUser);
+
+    for (const p of places) {
+      squaredNorms.set(p.placeId, (squaredNorms.get(p.placeId) || 0) + p.strength * p.strength);
+    }
+
+    for (let i = 0; i < places.length; i++) {
+      for (let j = i + 1; j < places.length; j++) {
+        const [a, b] = places[i].placeId < places[j].placeId ? [places[i], places[j]] : [places[j], places[i]];
+        const key = `${a.placeId}|${b.placeId}`;
+        const pair = pairs.get(key) || { dot: 0, co: 0 };
+        pair.dot += a.strength * b.strength;
+        pair.co += 1;
+        pairs.set(key, pair);
+      }
+    }
+  }
+
+  const neighbors = new Map<string, PlaceNeighbor[]>();
+  const push = (from: string, neighbor: PlaceNeighbor) => {
+    const list = neighbors.get(from) || [];
+    list.push(neighbor);
+    neighbors.set(from, list);
+  };
+
+  for (const [key, { dot, co }] of pairs) {
+    if (co < minCoUsers) continue;
+    const [a, b] = key.split('|');
+    const cosine = dot / Math.sqrt((squaredNorms.get(a) || 1) * (squaredNorms.get(b) || 1));
+    const similarity = cosine * (co / (co + similarityShrinkage));
+    if (similarity < minSimilarity) continue;
+
+    push(a, { placeId: b, similarity, coUsers: co });
+    push(b, { placeId: a, similarity, coUsers: co });
+  }
+
+  for (const [placeId, list] of neighbors) {
+    neighbors.set(
+      placeId,
+      list.sort((x, y) => y.similarity - x.similarity).slice(0, maxNeighborsPerPlace)
+    );
+  }
+
+  return neighbors;
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+/** Combine independent evidence: 1 - Π(1 - s) */
+function noisyOr(a: number, b: number): number {
+  return 1 - (1 - a) * (1 - b);
+}
+
+/**
+ * Score candidate places from the user's liked places ("seeds").
+ * Each seed votes for its neighbours with similarity × seed strength; votes
+ * combine with noisy-OR so several agreeing seeds reinforce each other.
+ * Seeds themselves are excluded (loopFeedbackBoost already covers them).
+ */
+export function scoreFromNeighbors(
+  seeds: PlaceInteraction[],
+  neighbors: Map<string, PlaceNeighbor[]>
+): Map<string, CollaborativeMatch> {
+  const seedIds = new Set(seeds.map(s => s.placeId));
+  const matches = new Map<string, CollaborativeMatch>();
+  const bestVotes = new Map<string, number>();
+
+  for (const seed of seeds) {
+    for (const neighbor of neighbors.get(seed.placeId) || []) {
+      if (seedIds.has(neighbor.placeId)) continue;
+
+      const vote = Math.min(1, neighbor.similarity * seed.strength);
+      const existing = matches.get(neighbor.placeId);
+      if (existing) {
+        existing.score = noisyOr(existing.score, vote);
+      }
+
+      if (!existing || vote > (bestVotes.get(neighbor.placeId) || 0)) {
+        bestVotes.set(neighbor.placeId, vote);
+        matches.set(neighbor.placeId, {
+          score: existing ? existing.score : vote,
+          source: 'neighbors',
+          becauseOfPlaceId: seed.placeId,
+          becauseOfPlaceName: seed.placeName,
+        });
+      }
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Fold friends' shared likes into the matches.
+ * One friend ≈ 0.5, two ≈ 0.75, three ≈ 0.875; combined with any neighbour
+ * score by noisy-OR. The stronger piece of evidence names the source.
+ */
+export function mergeFriendEndorsements(
+  matches: Map<string, CollaborativeMatch>,
+  friendCounts: Map<string, number>,
+  excludePlaceIds: Set<string> = new Set()
+): Map<string, CollaborativeMatch> {
+  for (const [placeId, friendCount] of friendCounts) {
+    if (friendCount <= 0 || excludePlaceIds.has(placeId)) continue;
+
+    const friendScore = 1 - Math.pow(0.5, friendCount);
+    const existing = matches.get(placeId);
+    if (!existing) {
+      matches.set(placeId, { score: friendScore, source: 'friends', friendCount });
+      continue;
+    }
+
+    matches.set(placeId, {
+      ...existing,
+      score: noisyOr(existing.score, friendScore),
+      source: friendScore > existing.score ? 'friends' : existing.source,
+      friendCount,
+    });
+  }
+  return matches;
+}
+
+/**
+ * Cold-start fallback: places the Loop community endorses, scaled so they
+ * never reach a real neighbour match (CF_CONFIG.communityMaxScore).
+ */
+export function communityFallback(
+  aggregates: PlaceAggregateRow[],
+  excludePlaceIds: Set<string> = new Set()
+): Map<string, CollaborativeMatch> {
+  const matches = new Map<string, CollaborativeMatch>();
+
+  for (const row of aggregates) {
+    if (excludePlaceIds.has(row.place_id)) continue;
+
+    const positive = (row.total_likes || 0) + (row.total_thumbs_up || 0);
+    if (positive < CF_CONFIG.communityMinEndorsements) continue;
+
+    const approval = positive / (positive + (row.total_thumbs_down || 0));
+    const volume = Math.min(1, positive / (CF_CONFIG.communityMinEndorsements * 4));
+    matches.set(row.place_id, {
+      score: CF_CONFIG.communityMaxScore * approval * volume,
+      source: 'community',
+    });
+  }
+
+  return matches;
+}
+
+/**
+ * Short explanation clause for a match, or null when it's too weak to mention
+ */
+export function describeCollaborativeMatch(match: CollaborativeMatch | undefined): string | null {
+  if (!match || match.score < CF_CONFIG.explainMinScore) return null;
+
+  switch (match.source) {
+    case 'friends':
+      return match.friendCount === 1 ? 'a friend loved this' : `${match.friendCount} friends loved this`;
+    case 'neighbors':
+      return match.becauseOfPlaceName
+        ? `people who loved ${match.becauseOfPlaceName} loved this`
+        : 'people like you loved this';
+    case 'community':
+      return 'a Loop community favorite';
+  }
+}
+
+// ============================================================================
+// FEED-TIME LOADING
+// ============================================================================
+
+/**
+ * Collaborative matches for one user, keyed by place_id.
+ * Never throws: each source that fails is skipped with a warning.
+ */
+export async function loadCollaborativeMatches(userId: string): Promise<Map<string, CollaborativeMatch>> {
+  let seeds: PlaceInteraction[] = [];
+  let matches = new Map<string, CollaborativeMatch>();
+
+  // 1. The user's own positive interactions (private ones count for themselves)
+  try {
+    const [feedbackResult, likesResult, trackingResult] = await Promise.all([
+      supabase.from('feedback').select('user_id, activity_id, rating').eq('user_id', userId),
+      supabase.from('activity_likes').select('user_id, place_id, place_name').eq('user_id', userId),
+      supabase
+        .from('recommendation_tracking')
+        .select('user_id, google_place_id, place_name, status')
+        .eq('user_id', userId)
+        .eq('status', 'accepted'),
+    ]);
+
+    seeds = collectInteractions(
+      {
+        feedback: (feedbackResult.data || []) as FeedbackInteractionRow[],
+        likes: (likesResult.data || []) as LikeInteractionRow[],
+        tracking: (trackingResult.data || []) as TrackingInteractionRow[],
+      },
+      true
+    );
+  } catch (error) {
+    console.warn('[CollaborativeFiltering] Failed to load user interactions:', error);
+  }
+
+  const seedIds = new Set(seeds.map(s => s.placeId));
+
+  // 2. Neighbours of the places they liked
+  if (seeds.length >= CF_CONFIG.minSeedPlaces) {
+    try {
+      const { data, error } = await supabase
+        .from('place_neighbors')
+        .select('place_id, neighbor_place_id, similarity, co_users')
+        .in('place_id', Array.from(seedIds));
+
+      if (error) throw error;
+      matches = scoreFromNeighbors(seeds, rowsToNeighbors((data || []) as PlaceNeighborRow[]));
+    } catch (error) {
+      console.warn('[CollaborativeFiltering] Failed to load place neighbors:', error);
+    }
+  }
+
+  // 3. Friends' shared likes
+  try {
+    const friendCounts = await loadFriendEndorsements(userId);
+    mergeFriendEndorsements(matches, friendCounts, seedIds);
+  } catch (error) {
+    console.warn('[CollaborativeFiltering] Failed to load friend endorsements:', error);
+  }
+
+  // 4. Cold start: nothing personal to go on yet
+  if (!Array.from(matches.values()).some(m => m.source === 'neighbors')) {
+    try {
+      const { data, error } = await supabase
+        .from('place_ratings_aggregate')
+        .select('place_id, total_likes, total_thumbs_up, total_thumbs_down')
+        .order('total_likes', { ascending: false })
+        .limit(AGGREGATE_FALLBACK_LIMIT);
+
+      if (error) throw error;
+      for (const [placeId, match] of communityFallback((data || []) as PlaceAggregateRow[], seedIds)) {
+        if (!matches.has(placeId)) matches.set(placeId, match);
+      }
+    } catch (error) {
+      console.warn('[CollaborativeFiltering] Failed to load community favorites:', error);
+    }
+  }
+
+  return matches;
+}
+
+/** Distinct friends who shared a like or thumbs up, per place */
+async function loadFriendEndorsements(userId: string): Promise<Map<string, number>> {
+  const { data: friendships, error } = await supabase
+    .from('friendships')
+    .select('user_id, friend_id')
+    .or(`user_id.eq.${userId},friend_id.eq.${userId}`)
+    .eq('status', 'accepted');
+
+  if (error) throw error;
+
+  const friendIds = Array.from(new Set(
+    (friendships || []).map((f: any) => (f.user_id === userId ? f.friend_id : f.user_id))
+  ));
+  if (friendIds.length === 0) return new Map();
+
+  const [feedbackResult, likesResult] = await Promise.all([
+    supabase
+      .from('feedback')
+      .select('user_id, activity_id, rating, visibility')
+      .in('user_id', friendIds)
+      .eq('rating', 'thumbs_up')
+      .in('visibility', SHARED_VISIBILITY),
+    supabase
+      .from('activity_likes')
+      .select('user_id, place_id, visibility')
+      .in('user_id', friendIds)
+      .in('visibility', SHARED_VISIBILITY),
+  ]);
+
+  const interactions = collectInteractions({
+    feedback: (feedbackResult.data || []) as FeedbackInteractionRow[],
+    likes: (likesResult.data || []) as LikeInteractionRow[],
+  });
+
+  const counts = new Map<string, number>();
+  for (const interaction of interactions) {
+    counts.set(interaction.placeId, (counts.get(interaction.placeId) || 0) + 1);
+  }
+  return counts;
+}
+
+function rowsToNeighbors(rows: Pick<PlaceNeighborRow, 'place_id' | 'neighbor_place_id' | 'similarity' | 'co_users'>[]): Map<string, PlaceNeighbor[]> {
+  const neighbors = new Map<string, PlaceNeighbor[]>();
+  for (const row of rows) {
+    const list = neighbors.get(row.place_id) || [];
+    list.push({ placeId: row.neighbor_place_id, similarity: Number(row.similarity), coUsers: row.co_users });
+    neighbors.set(row.place_id, list);
+  }
+  return neighbors;
+}
+
+// ============================================================================
+// PRECOMPUTE (service role)
+// ============================================================================
+
+/** Flatten a neighbour map into place_neighbors rows for one city */
+export function neighborsToRows(
+  city: string,
+  state: string,
+  neighbors: Map<string, PlaceNeighbor[]>
+): PlaceNeighborRow[] {
+  const rows: PlaceNeighborRow[] = [];
+  for (const [placeId, list] of neighbors) {
+    for (const neighbor of list) {
+      rows.push({
+        city,
+        state,
+        place_id: placeId,
+        neighbor_place_id: neighbor.placeId,
+        similarity: Math.round(neighbor.similarity * 10000) / 10000,
+        co_users: neighbor.coUsers,
+      });
+    }
+  }
+  return rows;
+}
+
+/**
+ * Rebuild place_neighbors for one city from every user's shared interactions
+ * with that city's cached places. Needs a service-role client (reads other
+ * users' rows). Returns the number of neighbour rows written.
+ */
+export async function precomputeCityNeighbors(
+  client: SupabaseClient,
+  city: string,
+  state: string
+): Promise<number> {
+  const { data: places, error: placesError } = await client
+    .from('places_cache')
+    .select('place_id')
+    .eq('city', city)
+    .eq('state', state);
+
+  if (placesError) throw placesError;
+
+  const placeIds = Array.from(new Set((places || []).map((p: { place_id: string }) => p.place_id)));
+  const feedback: FeedbackInteractionRow[] = [];
+  const likes: LikeInteractionRow[] = [];
+  const tracking: TrackingInteractionRow[] = [];
+
+  for (let i = 0; i < placeIds.length; i += IN_CHUNK_SIZE) {
+    const chunk = placeIds.slice(i, i + IN_CHUNK_SIZE);
+    const [feedbackResult, likesResult, trackingResult] = await Promise.all([
+      client.from('feedback').select('user_id, activity_id, rating, visibility').in('activity_id', chunk),
+      client.from('activity_likes').select('user_id, place_id, place_name, visibility').in('place_id', chunk),
+      client
+        .from('recommendation_tracking')
+        .select('user_id, google_place_id, place_name, status')
+        .in('google_place_id', chunk)
+        .eq('status', 'accepted'),
+    ]);
+
+    if (feedbackResult.error) throw feedbackResult.error;
+    if (likesResult.error) throw likesResult.error;
+    if (trackingResult.error) throw trackingResult.error;
+
+    feedback.push(...(feedbackResult.data || []));
+    likes.push(...(likesResult.data || []));
+    tracking.push(...(trackingResult.data || []));
+  }
+
+  const rows = neighborsToRows(city, state, buildItemNeighbors(collectInteractions({ feedback, likes, tracking })));
+
+  const { error: deleteError } = await client
+    .from('place_neighbors')
+    .delete()
+    .eq('city', city)
+    .eq('state', state);
+
+  if (deleteError) throw deleteError;
+
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const { error } = await client.from('place_neighbors').insert(rows.slice(i, i + INSERT_BATCH_SIZE));
+    if (error) throw error;
+  }
+
+  return rows.length;
+}
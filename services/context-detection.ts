@@ -5,7 +5,7 @@
  * - Trips: Out-of-city calendar events
  * - Social: Events with friends/groups
  * - Schedule: Gaps between events
- * - Routines: (Phase 2) Recurring patterns
+ * - Routines: Manual events repeated weekly that could be one recurring event
  */
 
 import { supabase } from '@/lib/supabase';
@@ -22,6 +22,9 @@ import type {
   ContextBadge,
   ContextBadgeType,
 } from '@/types/context';
+import { resolveTimezone } from '@/utils/timezone';
+import { suggestRecurringEvents, type RecurringEventSuggestion } from './recurrence';
+import { fetchCalendarEventsInRange } from './recurring-events';
 
 // ============================================================================
 // CONSTANTS
@@ -36,6 +39,9 @@ const MIN_GAP_DURATION = 60;
 // Maximum lookahead for trip detection (in days)
 const DEFAULT_LOOKAHEAD_DAYS = 14;
 
+// How far back to look for repeated manual events (in weeks)
+const ROUTINE_LOOKBACK_WEEKS = 8;
+
 // Badge colors (from brand constants)
 const BADGE_COLORS: Record<ContextBadgeType, string> = ContextBadgeColors as Record<ContextBadgeType, string>;
 
@@ -52,10 +58,12 @@ export async function detectUserContexts(
   const {
     userId,
     userHomeLocation,
+    userTimezone,
     lookaheadDays = DEFAULT_LOOKAHEAD_DAYS,
     includeSocial = true,
     includeSchedule = true,
     includeTrips = true,
+    includeRoutines = false,
   } = params;
 
   const now = new Date();
@@ -67,14 +75,8 @@ export async function detectUserContexts(
   const detectedSocialEvents: SocialContext[] = [];
   const detectedGaps: ScheduleContext[] = [];
 
-  // Fetch calendar events
-  const { data: calendarEvents, error } = await supabase
-    .from('calendar_events')
-    .select('*')
-    .eq('user_id', userId)
-    .gte('start_time', now.toISOString())
-    .lte('start_time', lookaheadEnd.toISOString())
-    .order('start_time', { ascending: true });
+  // Fetch calendar events (recurring series expanded into occurrences)
+  const { events: calendarEvents, error } = await fetchCalendarEventsInRange(userId, now, lookaheadEnd, userTimezone);
 
   if (error) {
     console.error('Error fetching calendar events for context detection:', error);
@@ -87,11 +89,11 @@ export async function detectUserContexts(
     };
   }
 
-  const events = calendarEvents || [];
+  const events = calendarEvents as CalendarEventWithLocation[];
 
   // 1. Detect trips (out-of-city events)
   if (includeTrips && userHomeLocation) {
-    const trips = await detectTripContexts(events, userHomeLocation);
+    const trips = await detectTripContexts(events, userHomeLocation, userTimezone);
     detectedTrips.push(...trips);
 
     // Create recommendation contexts for trips
@@ -107,7 +109,7 @@ export async function detectUserContexts(
         id: `trip-${trip.destination.replace(/[^a-zA-Z0-9]/g, '-').toLowerCase()}`,
         type: 'trip',
         title: `For your ${trip.destination} trip`,
-        subtitle: `${formatDateRange(trip.startDate, trip.endDate)} • ${daysAway === 0 ? 'Today' : daysAway === 1 ? 'Tomorrow' : `${daysAway} days away`}`,
+        subtitle: `${formatDateRange(trip.startDate, trip.endDate, trip.destinationTimezone)} • ${daysAway === 0 ? 'Today' : daysAway === 1 ? 'Tomorrow' : `${daysAway} days away`}`,
         icon: '🗺️',
         priority: 10 - Math.min(daysAway, 10), // Closer trips = higher priority
         metadata: trip,
@@ -175,7 +177,10 @@ export async function detectUserContexts(
     }
   }
 
-  // 4. Add general context (always present)
+  // 4. Suggest turning repeated manual events into recurring ones
+  const routineSuggestions = includeRoutines ? await detectRoutineSuggestions(userId, userTimezone) : undefined;
+
+  // 5. Add general context (always present)
   contexts.push({
     id: 'general',
     type: 'general',
@@ -195,6 +200,7 @@ export async function detectUserContexts(
     detectedTrips,
     detectedSocialEvents,
     detectedGaps,
+    routineSuggestions,
     detectionTimestamp: now,
   };
 }
@@ -210,6 +216,17 @@ interface CalendarEventWithLocation {
   end_time: string;
   location?: { latitude: number; longitude: number } | null;
   address?: string;
+  timezone?: string | null;
+}
+
+/** The zone most of a trip's events were scheduled in */
+function getTripTimezone(events: CalendarEventWithLocation[], homeTimezone?: string): string {
+  const counts = new Map<string, number>();
+  for (const event of events) {
+    if (event.timezone) counts.set(event.timezone, (counts.get(event.timezone) || 0) + 1);
+  }
+  const [mostCommon] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0] || [];
+  return resolveTimezone(mostCommon, homeTimezone);
 }
 
 /**
@@ -217,7 +234,8 @@ interface CalendarEventWithLocation {
  */
 async function detectTripContexts(
   events: CalendarEventWithLocation[],
-  homeLocation: { lat: number; lng: number }
+  homeLocation: { lat: number; lng: number },
+  homeTimezone?: string
 ): Promise<TripContext[]> {
   const trips: TripContext[] = [];
   const tripGroups = new Map<string, CalendarEventWithLocation[]>();
@@ -298,6 +316,7 @@ async function detectTripContexts(
         lat: firstEvent.location!.latitude,
         lng: firstEvent.location!.longitude,
       },
+      destinationTimezone: getTripTimezone(sortedEvents, homeTimezone),
       startDate: new Date(firstEvent.start_time),
       endDate: new Date(lastEvent.end_time),
       calendarEventIds: sortedEvents.map((e) => e.id),
@@ -484,6 +503,40 @@ function detectScheduleGaps(
   return gaps;
 }
 
+// ============================================================================
+// ROUTINE DETECTION
+// ============================================================================
+
+/**
+ * Find manual events the user re-creates every week (same title, weekday
+ * and time) over the last few weeks, to offer turning into recurring events
+ */
+async function detectRoutineSuggestions(
+  userId: string,
+  timeZone?: string
+): Promise<RecurringEventSuggestion[]> {
+  const now = new Date();
+  const lookbackStart = new Date(now);
+  lookbackStart.setDate(lookbackStart.getDate() - ROUTINE_LOOKBACK_WEEKS * 7);
+
+  const { data, error } = await supabase
+    .from('calendar_events')
+    .select('id, title, category, source, start_time, end_time, timezone, recurrence_rule, recurrence_parent_id')
+    .eq('user_id', userId)
+    .eq('source', 'manual')
+    .is('recurrence_rule', null)
+    .is('recurrence_parent_id', null)
+    .gte('start_time', lookbackStart.toISOString())
+    .lte('start_time', now.toISOString());
+
+  if (error) {
+    console.error('Error fetching events for routine detection:', error);
+    return [];
+  }
+
+  return suggestRecurringEvents(data || [], timeZone);
+}
+
 // ============================================================================
 // BADGE GENERATION
 // ============================================================================
@@ -662,12 +715,10 @@ function formatDate(date: Date): string {
 /**
  * Format a date range for display
  */
-function formatDateRange(start: Date, end: Date): string {
-  const startStr = start.toLocaleDateString('en-US', {
-    month: 'short',
-    day: 'numeric',
-  });
-  const endStr = end.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+function formatDateRange(start: Date, end: Date, timeZone?: string): string {
+  const options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', ...(timeZone ? { timeZone } : {}) };
+  const startStr = start.toLocaleDateString('en-US', options);
+  const endStr = end.toLocaleDateString('en-US', options);
 
   if (startStr === endStr) {
     return startStr;
@@ -694,6 +745,8 @@ export {
   TRIP_DISTANCE_THRESHOLD,
   MIN_GAP_DURATION,
   calculateDistance,
+  detectTripContexts,
+  detectRoutineSuggestions,
   formatDate,
   formatDateRange,
   formatTimeRange,
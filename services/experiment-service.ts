@@ -0,0 +1,162 @@
+/**
+ * Experiment Service
+ *
+ * Deterministic per-user variant assignment for the experiments defined in
+ * constants/experiments.ts.
+ *
+ * - Assignment hashes `${experimentKey}:${userId}` into [0, 1) and walks the
+ *   cumulative variant weights, so a user always lands in the same variant
+ *   (on any device, without a network round trip) and different experiments
+ *   split users independently.
+ * - Disabled experiments, and callers without a user id, get the control
+ *   variant and are not counted as exposed.
+ * - Exposures go through utils/analytics.ts (`experiment_exposure` with the
+ *   variant attached), at most once per user per experiment per session.
+ */
+
+import { EXPERIMENTS } from '@/constants/experiments';
+import type {
+  ExperimentDefinition,
+  ExperimentKey,
+  ExperimentParamsMap,
+} from '@/constants/experiments';
+import { trackExperimentExposure } from '@/utils/analytics';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ExperimentAssignment<K extends ExperimentKey> {
+  experiment: K;
+  variant: string;
+  params: ExperimentParamsMap[K];
+  /** False when disabled, overridden or anonymous — such reads aren't exposures */
+  inExperiment: boolean;
+}
+
+type ExperimentRegistry = { [K in ExperimentKey]: ExperimentDefinition<ExperimentParamsMap[K]> };
+
+// ============================================================================
+// HASHING
+// ============================================================================
+
+/**
+ * FNV-1a 32-bit hash mapped onto [0, 1).
+ * Stable across platforms and JS engines (no Math.random, no crypto).
+ */
+export function hashToUnitInterval(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class ExperimentService {
+  private overrides: Map<ExperimentKey, string> = new Map();
+  private exposed: Set<string> = new Set();
+
+  constructor(private definitions: ExperimentRegistry = EXPERIMENTS) {}
+
+  /**
+   * Variant for a user. Pure apart from QA overrides — safe to call in
+   * ranking loops; it never logs an exposure.
+   */
+  getAssignment<K extends ExperimentKey>(experiment: K, userId?: string | null): ExperimentAssignment<K> {
+    const definition = this.definitions[experiment] as ExperimentDefinition<ExperimentParamsMap[K]>;
+    const control = definition.variants[0];
+
+    const override = this.overrides.get(experiment);
+    const overridden = override ? definition.variants.find(v => v.name === override) : undefined;
+    if (overridden) {
+      return { experiment, variant: overridden.name, params: overridden.params, inExperiment: false };
+    }
+
+    if (!definition.enabled || !userId) {
+      return { experiment, variant: control.name, params: control.params, inExperiment: false };
+    }
+
+    const totalWeight = definition.variants.reduce((sum, v) => sum + Math.max(0, v.weight), 0);
+    if (totalWeight <= 0) {
+      return { experiment, variant: control.name, params: control.params, inExperiment: false };
+    }
+
+    const point = hashToUnitInterval(`${experiment}:${userId}`) * totalWeight;
+    let cumulative = 0;
+    for (const variant of definition.variants) {
+      cumulative += Math.max(0, variant.weight);
+      if (point < cumulative) {
+        return { experiment, variant: variant.name, params: variant.params, inExperiment: true };
+      }
+    }
+
+    // Floating-point edge: fall back to the last weighted variant
+    const last = definition.variants[definition.variants.length - 1];
+    return { experiment, variant: last.name, params: last.params, inExperiment: true };
+  }
+
+  /** Shorthand for getAssignment(...).params */
+  getParams<K extends ExperimentKey>(experiment: K, userId?: string | null): ExperimentParamsMap[K] {
+    return this.getAssignment(experiment, userId).params;
+  }
+
+  /**
+   * Log an exposure for the user's variant (once per session) and return the
+   * assignment. Call where the variant actually changes what the user sees.
+   */
+  trackExposure<K extends ExperimentKey>(experiment: K, userId?: string | null): ExperimentAssignment<K> {
+    const assignment = this.getAssignment(experiment, userId);
+    if (!assignment.inExperiment || !userId) return assignment;
+
+    const exposureKey = `${experiment}:${userId}`;
+    if (!this.exposed.has(exposureKey)) {
+      this.exposed.add(exposureKey);
+      trackExperimentExposure(userId, experiment, assignment.variant);
+    }
+
+    return assignment;
+  }
+
+  /** Force a variant for every user (QA / dev menu). Unknown names are ignored. */
+  setOverride(experiment: ExperimentKey, variant: string): void {
+    this.overrides.set(experiment, variant);
+  }
+
+  clearOverride(experiment: ExperimentKey): void {
+    this.overrides.delete(experiment);
+  }
+
+  /** Clear overrides and exposure de-duplication (e.g. on logout) */
+  reset(): void {
+    this.overrides.clear();
+    this.exposed.clear();
+  }
+}
+
+// Export singleton instance
+export const experiments = new ExperimentService();
+
+/**
+ * Variant parameters for a user (no exposure logged)
+ */
+export function getExperimentParams<K extends ExperimentKey>(
+  experiment: K,
+  userId?: string | null
+): ExperimentParamsMap[K] {
+  return experiments.getParams(experiment, userId);
+}
+
+/**
+ * Variant parameters for a user, logging an exposure
+ */
+export function exposeExperiment<K extends ExperimentKey>(
+  experiment: K,
+  userId?: string | null
+): ExperimentParamsMap[K] {
+  return experiments.trackExposure(experiment, userId).params;
+}
@@ -9,7 +9,7 @@
 import type { User } from '@/types/database';
 import type { Moment } from '@/types/moment';
 import type { ExploreItem, ExploreRowLayout, ExploreRow } from '@/types/explore';
-import { generateRecommendations, type RecommendationParams, type ScoredRecommendation } from '@/services/recommendations';
+import { recommend, type RecommendationParams, type ScoredRecommendation } from '@/services/recommendations';
 import { getFriendMoments, getPlaceMoments } from '@/services/moments-service';
 import { CATEGORIES } from '@/components/category-selector';
 
@@ -147,7 +147,7 @@ export async function fetchExploreBatch(params: {
     ...(categoryFilter ? { categories: [categoryFilter] } : {}),
   };
 
-  const results = await generateRecommendations(recParams);
+  const results = await recommend({ kind: 'solo', ...recParams });
 
   // Sort by rating for trending
   const sorted = [...results].sort((a, b) => {
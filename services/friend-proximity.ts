@@ -0,0 +1,390 @@
+/**
+ * Friend Proximity Radar
+ *
+ * Proximity radars alert a user when a friend on the radar is nearby and
+ * both of them are free for a while. Matching uses:
+ * - last-known locations (users.current_location), ignored once stale
+ * - calendar free/busy over the next few hours
+ * - get_friend_proximity_snapshots() (migrations 040 and 053), which only
+ *   returns friends who share their location and whose friend_group_privacy
+ *   lets the viewer see their Loop. Distances and the radius check are
+ *   worked out in the database; friends' coordinates never reach the client
+ *
+ * Locations stay fresh while the app is open: reportCurrentLocation is
+ * called every locationRefreshMinutes (hooks/use-location-sharing.ts).
+ *
+ * The viewer's own groups are respected too: a friend muted via
+ * i_can_see_their_loop never triggers an alert. Each user/friend pair has a
+ * cooldown so the same pair isn't re-alerted on every poll.
+ */
+
+import { supabase } from '@/lib/supabase';
+import type { HookNotification, ProximityRadarData, UserHook } from '@/types/radar';
+import type { SubscriptionTier } from '@/types/subscription';
+import { sendRadarPushNotification } from '@/services/radar-push-service';
+import { getEffectivePrivacyForFriend } from '@/services/friend-groups-service';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface BusyInterval {
+  start: string;
+  end: string;
+}
+
+/** A user's position and schedule as returned by get_friend_proximity_snapshots */
+export interface ProximitySnapshot {
+  userId: string;
+  name: string;
+  /** The polling user's own row */
+  isSelf: boolean;
+  visibility: 'full' | 'busy_only';
+  /** Miles from the user; null for the user and for busy_only friends */
+  distanceMiles: number | null;
+  /** Within the radius the snapshots were loaded for */
+  withinRadius: boolean;
+  /** Null when there's no location */
+  locationUpdatedAt: string | null;
+  busy: BusyInterval[];
+}
+
+export interface ProximityMatch {
+  friendId: string;
+  friendName: string;
+  /** Null for busy_only friends */
+  distanceMiles: number | null;
+  /** When the first of the two becomes busy (or the lookahead ends) */
+  freeUntil: Date;
+  visibility: 'full' | 'busy_only';
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const FRIEND_PROXIMITY_CONFIG = {
+  /** Radius when the radar doesn't set one */
+  defaultRadiusMiles: 1.0,
+  /** Locations older than this are ignored */
+  maxLocationAgeMinutes: 45,
+  /** How often the app saves the user's location while open */
+  locationRefreshMinutes: 15,
+  /** Both people must be free for at least this long from now */
+  minFreeMinutes: 45,
+  /** How far ahead free/busy is read */
+  lookaheadHours: 3,
+  /** The same user/friend pair is alerted at most once per cooldown */
+  pairCooldownHours: 6,
+  /** Alerts expire after this long (being nearby doesn't last) */
+  alertTtlHours: 2,
+};
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+export function hasFreshLocation(snapshot: ProximitySnapshot, now: Date): boolean {
+  if (!snapshot.locationUpdatedAt) return false;
+  const ageMs = now.getTime() - new Date(snapshot.locationUpdatedAt).getTime();
+  return ageMs <= FRIEND_PROXIMITY_CONFIG.maxLocationAgeMinutes * MINUTE_MS;
+}
+
+/**
+ * When a user's free time starting now ends, or null if they are busy now or
+ * become busy before minFreeMinutes have passed.
+ */
+export function getFreeUntil(busy: BusyInterval[], now: Date): Date | null {
+  let freeUntil = now.getTime() + FRIEND_PROXIMITY_CONFIG.lookaheadHours * HOUR_MS;
+
+  for (const interval of busy) {
+    const start = new Date(interval.start).getTime();
+    const end = new Date(interval.end).getTime();
+    if (isNaN(start) || isNaN(end) || end <= now.getTime()) continue;
+    if (start <= now.getTime()) return null;
+    freeUntil = Math.min(freeUntil, start);
+  }
+
+  if (freeUntil - now.getTime() < FRIEND_PROXIMITY_CONFIG.minFreeMinutes * MINUTE_MS) return null;
+  return new Date(freeUntil);
+}
+
+/**
+ * Friends on a proximity radar who are within its radius and free at the same
+ * time as the user, closest first (busy_only friends, whose distance isn't
+ * known, last).
+ *
+ * @param snapshots - loaded for the radar's radius
+ * @param excludedFriendIds - friends in cooldown or muted by the user
+ */
+export function matchProximity(
+  hook: Pick<UserHook, 'friendIds'>,
+  snapshots: ProximitySnapshot[],
+  now: Date,
+  excludedFriendIds: Set<string> = new Set()
+): ProximityMatch[] {
+  const self = snapshots.find(s => s.isSelf);
+  if (!self || !hasFreshLocation(self, now)) return [];
+
+  const selfFreeUntil = getFreeUntil(self.busy, now);
+  if (!selfFreeUntil) return [];
+
+  const friendIds = new Set(hook.friendIds || []);
+  const matches: ProximityMatch[] = [];
+
+  for (const friend of snapshots) {
+    if (friend.isSelf || !friendIds.has(friend.userId) || excludedFriendIds.has(friend.userId)) continue;
+    if (!friend.withinRadius || !hasFreshLocation(friend, now)) continue;
+
+    const friendFreeUntil = getFreeUntil(friend.busy, now);
+    if (!friendFreeUntil) continue;
+
+    matches.push({
+      friendId: friend.userId,
+      friendName: friend.name,
+      distanceMiles: friend.visibility === 'full' ? friend.distanceMiles : null,
+      freeUntil: friendFreeUntil < selfFreeUntil ? friendFreeUntil : selfFreeUntil,
+      visibility: friend.visibility,
+    });
+  }
+
+  return matches.sort((a, b) => (a.distanceMiles ?? Infinity) - (b.distanceMiles ?? Infinity));
+}
+
+/** Notification copy; busy_only friends never reveal how far away they are */
+export function buildProximityAlert(match: ProximityMatch): { title: string; body: string; data: ProximityRadarData } {
+  const until = match.freeUntil.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+  const distanceMiles = match.visibility === 'full' ? match.distanceMiles ?? undefined : undefined;
+  const where = distanceMiles !== undefined ? `${distanceMiles} mi away` : 'Nearby';
+
+  return {
+    title: `${match.friendName} is nearby`,
+    body: `${where} · you're both free until ${until}`,
+    data: {
+      friendId: match.friendId,
+      friendName: match.friendName,
+      distanceMiles,
+      freeUntil: match.freeUntil.toISOString(),
+      visibility: match.visibility,
+    },
+  };
+}
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+export async function loadProximitySnapshots(
+  userId: string,
+  friendIds: string[],
+  radiusMiles: number,
+  now: Date
+): Promise<ProximitySnapshot[]> {
+  const { data, error } = await supabase.rpc('get_friend_proximity_snapshots', {
+    p_viewer: userId,
+    p_friend_ids: friendIds,
+    p_window_start: now.toISOString(),
+    p_window_end: new Date(now.getTime() + FRIEND_PROXIMITY_CONFIG.lookaheadHours * HOUR_MS).toISOString(),
+    p_radius_miles: radiusMiles,
+  });
+
+  if (error) {
+    console.warn('[FriendProximity] Error loading snapshots:', error);
+    return [];
+  }
+
+  return ((data || []) as any[]).map(row => ({
+    userId: row.user_id,
+    name: row.name || 'A friend',
+    isSelf: !!row.is_self,
+    visibility: row.visibility === 'full' ? 'full' : 'busy_only',
+    distanceMiles: row.distance_miles ?? null,
+    withinRadius: !!row.within_radius,
+    locationUpdatedAt: row.location_updated_at || null,
+    busy: Array.isArray(row.busy) ? row.busy : [],
+  }));
+}
+
+/** Friends the user was alerted about within the pair cooldown */
+async function loadCooledDownFriendIds(userId: string, now: Date): Promise<Set<string>> {
+  const since = new Date(now.getTime() - FRIEND_PROXIMITY_CONFIG.pairCooldownHours * HOUR_MS);
+
+  const { data, error } = await supabase
+    .from('hook_notifications')
+    .select('proximity_data')
+    .eq('user_id', userId)
+    .gte('created_at', since.toISOString());
+
+  if (error) console.warn('[FriendProximity] Error loading recent alerts:', error);
+
+  return new Set(
+    ((data || []) as { proximity_data: ProximityRadarData | null }[])
+      .map(n => n.proximity_data?.friendId)
+      .filter((id): id is string => !!id)
+  );
+}
+
+/** Friends the user has hidden from themselves via i_can_see_their_loop */
+async function loadMutedFriendIds(userId: string, friendIds: string[]): Promise<Set<string>> {
+  const muted = new Set<string>();
+
+  await Promise.all(friendIds.map(async friendId => {
+    try {
+      const privacy = await getEffectivePrivacyForFriend(userId, friendId);
+      if (!privacy.i_can_see_their_loop) muted.add(friendId);
+    } catch (err) {
+      // Can't confirm the user wants to see this friend — leave them out
+      console.warn('[FriendProximity] Error loading group privacy:', err);
+      muted.add(friendId);
+    }
+  }));
+
+  return muted;
+}
+
+// ============================================================================
+// POLLING
+// ============================================================================
+
+/**
+ * Check all of a user's active proximity radars and create notifications for
+ * friends who are nearby and free. Returns the number of new notifications.
+ */
+export async function pollProximityRadarsForUser(
+  userId: string,
+  tier: SubscriptionTier = 'free',
+  now: Date = new Date()
+): Promise<number> {
+  try {
+    const { data: hookRows, error } = await supabase
+      .from('user_hooks')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .eq('hook_type', 'proximity');
+
+    if (error || !hookRows || hookRows.length === 0) return 0;
+
+    const hooks: UserHook[] = hookRows.map((row: any) => ({
+      id: row.id,
+      userId: row.user_id,
+      hookType: row.hook_type,
+      entityName: row.entity_name,
+      friendIds: row.friend_ids || [],
+      proximityRadiusMiles: row.proximity_radius_miles || FRIEND_PROXIMITY_CONFIG.defaultRadiusMiles,
+      isActive: row.is_active,
+      triggerCount: row.trigger_count || 0,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    }));
+
+    const friendIds = [...new Set(hooks.flatMap(h => h.friendIds || []))];
+    if (friendIds.length === 0) return 0;
+
+    const [cooledDown, muted] = await Promise.all([
+      loadCooledDownFriendIds(userId, now),
+      loadMutedFriendIds(userId, friendIds),
+    ]);
+    const excluded = new Set([...cooledDown, ...muted]);
+
+    // The radius check happens in the database, so one load per radius
+    const radiusOf = (hook: UserHook) => hook.proximityRadiusMiles || FRIEND_PROXIMITY_CONFIG.defaultRadiusMiles;
+    const snapshotsByRadius = new Map<number, ProximitySnapshot[]>();
+    for (const radius of new Set(hooks.map(radiusOf))) {
+      const radiusFriendIds = [...new Set(hooks.filter(h => radiusOf(h) === radius).flatMap(h => h.friendIds || []))];
+      snapshotsByRadius.set(radius, await loadProximitySnapshots(userId, radiusFriendIds, radius, now));
+    }
+
+    let newNotifications = 0;
+
+    for (const hook of hooks) {
+      let hookNotifications = 0;
+      const snapshots = snapshotsByRadius.get(radiusOf(hook)) || [];
+
+      for (const match of matchProximity(hook, snapshots, now, excluded)) {
+        const alert = buildProximityAlert(match);
+
+        const { data: insertedNotif, error: insertError } = await supabase.from('hook_notifications').insert({
+          user_id: userId,
+          hook_id: hook.id,
+          title: alert.title,
+          body: alert.body,
+          proximity_data: alert.data,
+          source: 'friend_proximity',
+          status: 'pending',
+          expires_at: new Date(now.getTime() + FRIEND_PROXIMITY_CONFIG.alertTtlHours * HOUR_MS).toISOString(),
+        }).select().single();
+
+        if (insertError || !insertedNotif) {
+          console.warn('[FriendProximity] Error creating notification:', insertError);
+          continue;
+        }
+
+        // One alert per pair, even if the friend is on several radars
+        excluded.add(match.friendId);
+        hookNotifications++;
+
+        const notification: HookNotification = {
+          id: insertedNotif.id,
+          userId,
+          hookId: hook.id,
+          title: alert.title,
+          body: alert.body,
+          proximityData: alert.data,
+          source: 'friend_proximity',
+          status: 'pending',
+          createdAt: insertedNotif.created_at,
+        };
+        await sendRadarPushNotification(notification, tier);
+      }
+
+      if (hookNotifications > 0) {
+        await supabase
+          .from('user_hooks')
+          .update({
+            last_triggered_at: now.toISOString(),
+            trigger_count: hook.triggerCount + hookNotifications,
+          })
+          .eq('id', hook.id);
+        newNotifications += hookNotifications;
+      }
+    }
+
+    return newNotifications;
+  } catch (err) {
+    console.error('[FriendProximity] Error polling proximity radars:', err);
+    return 0;
+  }
+}
+
+// ============================================================================
+// LOCATION SHARING
+// ============================================================================
+
+/**
+ * Save the user's position (and when it was taken) for friends' proximity
+ * radars. Called regularly while the app is open, so an active user's
+ * location doesn't go stale.
+ */
+export async function reportCurrentLocation(
+  userId: string,
+  location: { latitude: number; longitude: number },
+  now: Date = new Date()
+): Promise<boolean> {
+  const { error } = await supabase
+    .from('users')
+    .update({
+      current_location: `POINT(${location.longitude} ${location.latitude})`,
+      current_location_updated_at: now.toISOString(),
+    })
+    .eq('id', userId);
+
+  if (error) {
+    console.warn('[FriendProximity] Failed to update current_location:', error.message);
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,439 @@
+/**
+ * iCalendar Service
+ *
+ * .ics import and export for calendar_events (see utils/ical.ts for the
+ * format):
+ * - Export a day, a saved loop or a group plan as an .ics file and share it
+ * - Import .ics text or a URL; importing the same events again updates the
+ *   rows imported before (matched on UID) instead of duplicating them
+ * - The user's secret subscription URL, served by the ics-feed edge
+ *   function, for following Loop in Google Calendar or Outlook
+ */
+
+import { Platform, Share } from 'react-native';
+import { supabase } from '@/lib/supabase';
+import type { CalendarEvent } from '@/types/calendar-event';
+import { parseLocation } from '@/utils/location-parser';
+import { normalizeICalUrl, parseICal, serializeICal, type ICalAttendee, type ICalEvent } from '@/utils/ical';
+import { addZonedDays, formatZonedDateKey, resolveTimezone, startOfZonedDay } from '@/utils/timezone';
+import { inferCategory } from './calendar-service';
+import { scheduleLoopTasks, type SavedLoop } from './loop-service';
+import { fetchCalendarEventsInRange } from './recurring-events';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** What to export from the share sheet */
+export type CalendarExportTarget =
+  | { type: 'day'; date: Date }
+  | { type: 'loop'; loop: SavedLoop; date: Date }
+  | { type: 'group_plan'; planId: string };
+
+export interface ICSFile {
+  filename: string;
+  content: string;
+}
+
+export interface ICSImportResult {
+  imported: number;
+  updated: number;
+  skipped: number;
+  error?: string;
+}
+
+interface GroupPlanRow {
+  id: string;
+  creator_id: string;
+  title: string | null;
+  description: string | null;
+  suggested_time: string;
+  duration_minutes: number | null;
+  meeting_location: unknown;
+  meeting_address: string | null;
+  status: string;
+  plan_participants: {
+    user_id: string;
+    rsvp_status: string;
+    users: { name: string | null; email: string | null } | null;
+  }[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** UID domain for events that originate in Loop */
+const LOOP_UID_DOMAIN = 'loopapp';
+
+/** "<row id>@loopapp" or "<series id>-<occurrence ms>@loopapp" */
+const LOOP_UID_PATTERN = /^([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})(?:-\d+)?@loopapp$/i;
+
+const FEED_FUNCTION_PATH = '/functions/v1/ics-feed';
+
+const RSVP_TO_PARTSTAT: Record<string, ICalAttendee['status']> = {
+  accepted: 'ACCEPTED',
+  declined: 'DECLINED',
+  maybe: 'TENTATIVE',
+};
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * UID for a Loop event. Expanded occurrences get one of their own, since
+ * a single-day export carries them as standalone events.
+ */
+export function buildLoopEventUid(event: Pick<CalendarEvent, 'id' | 'recurrence_series_id' | 'occurrence_start'>): string {
+  const id = event.recurrence_series_id && event.occurrence_start
+    ? `${event.recurrence_series_id}-${new Date(event.occurrence_start).getTime()}`
+    : event.id;
+  return `${id}@${LOOP_UID_DOMAIN}`;
+}
+
+/**
+ * A calendar_events row or expanded occurrence as a standalone VEVENT.
+ * Exports are snapshots, so occurrences go out on their own rather than
+ * as a series; imported single events keep their original UID.
+ */
+export function calendarEventToICal(event: CalendarEvent): ICalEvent {
+  const isOccurrence = !!event.recurrence_series_id || !!event.recurrence_parent_id || !!event.recurrence_rule;
+
+  return {
+    uid: event.ics_uid && !isOccurrence ? event.ics_uid : buildLoopEventUid(event),
+    summary: event.title,
+    description: event.description || undefined,
+    location: event.address || undefined,
+    geo: parseLocation(event.location) ?? undefined,
+    start: new Date(event.start_time),
+    end: new Date(event.end_time),
+    allDay: event.all_day,
+    timeZone: event.timezone ?? null,
+    status: event.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+    categories: event.category ? [event.category] : undefined,
+  };
+}
+
+function toFilename(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'loop'}.ics`;
+}
+
+async function exportDay(userId: string, date: Date, timeZone: string): Promise<ICSFile | null> {
+  const dayStart = startOfZonedDay(date, timeZone);
+  const dayEnd = new Date(addZonedDays(dayStart, 1, timeZone).getTime() - 1);
+  const { events, error } = await fetchCalendarEventsInRange(userId, dayStart, dayEnd, timeZone);
+  if (error) return null;
+
+  const dateKey = formatZonedDateKey(date, timeZone);
+  const name = `Loop ${dateKey}`;
+  return {
+    filename: toFilename(name),
+    content: serializeICal({
+      name,
+      events: events
+        .filter(e => e.status !== 'cancelled')
+        .map(e => ({ ...calendarEventToICal(e), timeZone: e.timezone || timeZone })),
+    }),
+  };
+}
+
+function exportLoop(loop: SavedLoop, date: Date, timeZone: string): ICSFile {
+  const dateKey = formatZonedDateKey(date, timeZone);
+  const events = scheduleLoopTasks(loop.tasks || [], date).map(({ task, start, end }, index): ICalEvent => ({
+    uid: `${loop.id}-${dateKey}-${index}@${LOOP_UID_DOMAIN}`,
+    summary: task.title,
+    location: task.address || undefined,
+    geo: task.latitude && task.longitude ? { latitude: task.latitude, longitude: task.longitude } : undefined,
+    start,
+    end,
+    timeZone,
+    categories: task.category ? [task.category] : undefined,
+  }));
+
+  return { filename: toFilename(loop.name), content: serializeICal({ name: loop.name, events }) };
+}
+
+async function exportGroupPlan(planId: string, timeZone: string): Promise<ICSFile | null> {
+  const { data, error } = await supabase
+    .from('group_plans')
+    .select(`
+      id,
+      creator_id,
+      title,
+      description,
+      suggested_time,
+      duration_minutes,
+      meeting_location,
+      meeting_address,
+      status,
+      plan_participants (
+        user_id,
+        rsvp_status,
+        users ( name, email )
+      )
+    `)
+    .eq('id', planId)
+    .single();
+
+  if (error || !data) {
+    console.error('❌ Error fetching group plan for export:', error);
+    return null;
+  }
+
+  const plan = data as unknown as GroupPlanRow;
+  const start = new Date(plan.suggested_time);
+  const toAttendee = (p: GroupPlanRow['plan_participants'][number]): ICalAttendee => ({
+    email: p.users?.email || undefined,
+    name: p.users?.name || undefined,
+    status: RSVP_TO_PARTSTAT[p.rsvp_status] || 'NEEDS-ACTION',
+    role: p.user_id === plan.creator_id ? 'CHAIR' : 'REQ-PARTICIPANT',
+  });
+  const creator = plan.plan_participants.find(p => p.user_id === plan.creator_id);
+  const title = plan.title || 'Group plan';
+
+  const event: ICalEvent = {
+    uid: `plan-${plan.id}@${LOOP_UID_DOMAIN}`,
+    summary: title,
+    description: plan.description || undefined,
+    location: plan.meeting_address || undefined,
+    geo: parseLocation(plan.meeting_location) ?? undefined,
+    start,
+    end: new Date(start.getTime() + (plan.duration_minutes || 60) * 60 * 1000),
+    timeZone,
+    status: plan.status === 'cancelled' ? 'CANCELLED' : plan.status === 'confirmed' ? 'CONFIRMED' : 'TENTATIVE',
+    organizer: creator ? { email: creator.users?.email || undefined, name: creator.users?.name || undefined } : undefined,
+    attendees: plan.plan_participants.map(toAttendee),
+  };
+
+  return { filename: toFilename(title), content: serializeICal({ name: title, events: [event] }) };
+}
+
+/**
+ * Build the .ics file for a day, a saved loop or a group plan.
+ *
+ * @param timeZone - The user's zone (default: the device's)
+ */
+export async function exportToICS(
+  userId: string,
+  target: CalendarExportTarget,
+  timeZone?: string | null
+): Promise<ICSFile | null> {
+  const zone = resolveTimezone(timeZone);
+  try {
+    switch (target.type) {
+      case 'day':
+        return await exportDay(userId, target.date, zone);
+      case 'loop':
+        return exportLoop(target.loop, target.date, zone);
+      case 'group_plan':
+        return await exportGroupPlan(target.planId, zone);
+    }
+  } catch (error) {
+    console.error('❌ Error exporting .ics:', error);
+    return null;
+  }
+}
+
+/**
+ * Hand an .ics file to the native share sheet. iOS shares it as a
+ * text/calendar attachment; Android's share sheet only takes text.
+ */
+export async function shareICS(file: ICSFile): Promise<boolean> {
+  try {
+    const result = Platform.OS === 'ios'
+      ? await Share.share({
+          url: `data:text/calendar;charset=utf-8,${encodeURIComponent(file.content)}`,
+          title: file.filename,
+        })
+      : await Share.share({ message: file.content, title: file.filename });
+    return result.action === Share.sharedAction;
+  } catch (error) {
+    console.error('❌ Error sharing .ics:', error);
+    return false;
+  }
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/** Columns shared by imported series, single events and overrides */
+function buildImportedFields(userId: string, event: ICalEvent) {
+  const title = event.summary.trim() || 'Busy';
+  return {
+    user_id: userId,
+    title,
+    description: event.description || null,
+    category: inferCategory(title),
+    location: event.geo
+      ? { type: 'Point', coordinates: [event.geo.longitude, event.geo.latitude] } // PostGIS uses [lng, lat] order
+      : null,
+    address: event.location?.trim() || null,
+    start_time: event.start.toISOString(),
+    end_time: event.end.toISOString(),
+    all_day: !!event.allDay,
+    timezone: event.timeZone || null,
+    source: 'ics_import',
+    status: event.status === 'CANCELLED' ? 'cancelled' : 'scheduled',
+  };
+}
+
+/**
+ * Rows for the events of a parsed file. Cancelled overrides become
+ * exceptions of their series; other overrides are returned separately,
+ * since they need their series' row ID.
+ */
+export function buildImportRows(userId: string, events: ICalEvent[]) {
+  const overrides = events.filter(e => e.recurrenceId);
+  const seriesRows = events
+    .filter(e => !e.recurrenceId)
+    .map(event => {
+      const cancelled = overrides.filter(o => o.uid === event.uid && o.status === 'CANCELLED');
+      const exdates = [...(event.exdates || []), ...cancelled.map(o => o.recurrenceId!)];
+      return {
+        ...buildImportedFields(userId, event),
+        ics_uid: event.uid,
+        recurrence_rule: event.rrule || null,
+        recurrence_exdates: event.rrule ? exdates.map(d => d.toISOString()) : [],
+      };
+    });
+
+  return { seriesRows, overrides: overrides.filter(o => o.status !== 'CANCELLED') };
+}
+
+/**
+ * Import the events in .ics text into the user's calendar.
+ *
+ * Events exported from this user's own Loop calendar are skipped, so
+ * re-importing an export doesn't duplicate them.
+ *
+ * @param timeZone - Zone for floating times and all-day dates (the user's)
+ */
+export async function importICSText(
+  userId: string,
+  text: string,
+  timeZone?: string | null
+): Promise<ICSImportResult> {
+  try {
+    const { events } = parseICal(text, { defaultTimeZone: timeZone });
+    if (events.length === 0) {
+      return { imported: 0, updated: 0, skipped: 0, error: 'No events found in this calendar' };
+    }
+
+    // Rows behind the UIDs of our own exports (buildLoopEventUid)
+    const loopIdOf = (uid: string) => LOOP_UID_PATTERN.exec(uid)?.[1] ?? null;
+    const loopIds = [...new Set(events.map(e => loopIdOf(e.uid)).filter((id): id is string => !!id))];
+    const ownIds = new Set<string>();
+    if (loopIds.length > 0) {
+      const { data } = await supabase.from('calendar_events').select('id').eq('user_id', userId).in('id', loopIds);
+      (data || []).forEach((row: { id: string }) => ownIds.add(row.id));
+    }
+
+    const importable = events.filter(e => !ownIds.has(loopIdOf(e.uid) ?? ''));
+    const { seriesRows, overrides } = buildImportRows(userId, importable);
+    const skipped = events.length - importable.length;
+    if (seriesRows.length === 0) return { imported: 0, updated: 0, skipped };
+
+    const { data: existing } = await supabase
+      .from('calendar_events')
+      .select('ics_uid')
+      .eq('user_id', userId)
+      .in('ics_uid', seriesRows.map(r => r.ics_uid));
+    const existingUids = new Set((existing || []).map((row: { ics_uid: string }) => row.ics_uid));
+
+    const { data: saved, error } = await supabase
+      .from('calendar_events')
+      .upsert(seriesRows, { onConflict: 'user_id,ics_uid' })
+      .select('id, ics_uid');
+
+    if (error) {
+      console.error('❌ Error importing .ics events:', error);
+      return { imported: 0, updated: 0, skipped, error: error.message };
+    }
+
+    const idsByUid = new Map((saved || []).map((row: { id: string; ics_uid: string }) => [row.ics_uid, row.id]));
+    const overrideRows = overrides
+      .filter(o => idsByUid.has(o.uid))
+      .map(o => ({
+        ...buildImportedFields(userId, o),
+        recurrence_parent_id: idsByUid.get(o.uid),
+        recurrence_original_start: o.recurrenceId!.toISOString(),
+      }));
+
+    if (overrideRows.length > 0) {
+      const { error: overrideError } = await supabase
+        .from('calendar_events')
+        .upsert(overrideRows, { onConflict: 'recurrence_parent_id,recurrence_original_start' });
+      if (overrideError) console.warn('⚠️ Could not import changed occurrences:', overrideError.message);
+    }
+
+    const updated = seriesRows.filter(r => existingUids.has(r.ics_uid)).length;
+    console.log(`✅ Imported .ics: ${seriesRows.length - updated} new, ${updated} updated, ${skipped} skipped`);
+    return { imported: seriesRows.length - updated, updated, skipped };
+  } catch (error) {
+    console.error('❌ Error importing .ics:', error);
+    return { imported: 0, updated: 0, skipped: 0, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Download an .ics file (http(s) or webcal link) and import it.
+ */
+export async function importICSFromUrl(
+  userId: string,
+  url: string,
+  timeZone?: string | null
+): Promise<ICSImportResult> {
+  try {
+    const response = await fetch(normalizeICalUrl(url));
+    if (!response.ok) {
+      return { imported: 0, updated: 0, skipped: 0, error: `Download failed (${response.status})` };
+    }
+    return await importICSText(userId, await response.text(), timeZone);
+  } catch (error) {
+    console.error('❌ Error downloading .ics:', error);
+    return { imported: 0, updated: 0, skipped: 0, error: 'Could not download the calendar' };
+  }
+}
+
+// ============================================================================
+// SUBSCRIPTION FEED
+// ============================================================================
+
+function buildFeedUrl(token: string): string {
+  return `${process.env.EXPO_PUBLIC_SUPABASE_URL}${FEED_FUNCTION_PATH}?token=${token}`;
+}
+
+/**
+ * The user's secret calendar subscription URL. Anyone with the link can
+ * read the calendar until the token is rotated.
+ */
+export async function getCalendarFeedUrl(userId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('users')
+    .select('ics_feed_token')
+    .eq('id', userId)
+    .single();
+
+  if (error || !data?.ics_feed_token) {
+    console.error('❌ Error fetching calendar feed token:', error);
+    return null;
+  }
+  return buildFeedUrl(data.ics_feed_token);
+}
+
+/**
+ * Replace the feed token, cutting off every existing subscription.
+ * Returns the new URL.
+ */
+export async function rotateCalendarFeedToken(): Promise<string | null> {
+  const { data, error } = await supabase.rpc('rotate_ics_feed_token');
+
+  if (error || !data) {
+    console.error('❌ Error rotating calendar feed token:', error);
+    return null;
+  }
+  return buildFeedUrl(data as string);
+}
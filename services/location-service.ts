@@ -8,6 +8,7 @@
 
 import * as Location from 'expo-location';
 import { Alert, Platform } from 'react-native';
+import { estimateTravelTime as estimateTravelMinutes, type TravelMode } from '@/utils/route-calculations';
 
 // Dallas coordinates (fallback if location permission denied)
 const FALLBACK_LOCATION = {
@@ -283,13 +284,11 @@ export function formatDistance(miles: number): string {
 }
 
 /**
- * Get travel time estimate (rough estimate based on avg speed)
+ * Get travel time estimate for display (offline estimate for the mode)
  */
-export function estimateTravelTime(distanceMiles: number): string {
-  if (distanceMiles < 0.5) return '< 5 min';
-
-  // Assume 15 mph average in city (walking + driving mix)
-  const minutes = Math.round((distanceMiles / 15) * 60);
+export function estimateTravelTime(distanceMiles: number, mode: TravelMode = 'drive'): string {
+  const minutes = estimateTravelMinutes(distanceMiles, mode);
+  if (minutes < 5) return '< 5 min';
 
   if (minutes < 60) return `~${minutes} min`;
 
@@ -5,21 +5,42 @@
  * - Auto-chain events when user can't go home between them
  * - Calculate departure times with travel + parking buffers
  * - Update loop_routing data for all user events
+ *
+ * Travel times come from the travel-time service in the user's preferred
+ * mode; the database functions only decide chaining.
  */
 
 import { supabase } from '@/lib/supabase';
 import {
-  calculateDistance,
-  estimateTravelTime,
-  shouldChainEvents,
   calculateDepartureTime,
   type Coordinate,
 } from '@/utils/route-calculations';
 import type { CalendarEvent, LoopRouting } from '@/types/calendar-event';
+import { parseLocation } from '@/utils/location-parser';
+import { addZonedDays, resolveTimezone, startOfZonedDay } from '@/utils/timezone';
+import { fetchCalendarEventsInRange } from './recurring-events';
+import {
+  getPreferredTravelMode,
+  getTravelTimesForLegs,
+  type TravelMode,
+} from './travel-time';
+
+/** How far ahead departure times are kept up to date */
+const DEPARTURE_REFRESH_DAYS = 7;
+
+/** Parking and walking in, on top of travel */
+export const PARKING_BUFFER_MINUTES = 10;
+
+export interface EventDeparture {
+  departureTime: Date;
+  travelMinutes: number;
+  mode: TravelMode;
+}
 
 /**
  * Update loop routing for all of a user's future events
- * Calls the PostgreSQL function to auto-chain events and calculate departure times
+ * Calls the PostgreSQL function to auto-chain events, then recomputes the
+ * coming week's departure times with real travel times
  */
 export async function updateLoopRoutingForUser(userId: string): Promise<{
   success: boolean;
@@ -36,6 +57,8 @@ export async function updateLoopRoutingForUser(userId: string): Promise<{
       return { success: false, eventsUpdated: 0, error: error.message };
     }
 
+    await refreshDepartureTimesForUser(userId);
+
     return { success: true, eventsUpdated: data || 0 };
   } catch (error) {
     console.error('Error in updateLoopRoutingForUser:', error);
@@ -88,10 +111,14 @@ export async function previewChaining(
     const eventBLocation = parsePostGISPoint(eventB.location);
 
     // Calculate travel times
-    const distAToHome = calculateDistance(eventALocation, homeLocation);
-    const distHomeToB = calculateDistance(homeLocation, eventBLocation);
-    const travelAToHome = estimateTravelTime(distAToHome);
-    const travelHomeToB = estimateTravelTime(distHomeToB);
+    const mode = await getPreferredTravelMode(eventA.user_id);
+    const [travelAToHome, travelHomeToB] = await getTravelTimesForLegs(
+      [
+        { from: eventALocation, to: homeLocation, departAt: new Date(eventA.end_time) },
+        { from: homeLocation, to: eventBLocation, departAt: new Date(eventB.start_time) },
+      ],
+      mode
+    );
     const roundTripTime = travelAToHome + travelHomeToB;
 
     // Calculate time gap
@@ -178,22 +205,167 @@ export async function calculateEventDepartureTime(
   eventId: string
 ): Promise<Date | null> {
   try {
-    const { data, error } = await supabase.rpc('calculate_departure_time', {
-      p_event_id: eventId,
-    });
+    const { data: event, error } = await supabase
+      .from('calendar_events')
+      .select('*')
+      .eq('id', eventId)
+      .single();
 
-    if (error || !data) {
-      console.error('Error calculating departure time:', error);
+    if (error || !event) {
+      console.error('Error fetching event for departure time:', error);
       return null;
     }
 
-    return new Date(data);
+    const departure = await computeEventDeparture(event);
+    return departure?.departureTime ?? null;
   } catch (error) {
     console.error('Error in calculateEventDepartureTime:', error);
     return null;
   }
 }
 
+/**
+ * When to leave for an event, and how long the trip takes, in the user's
+ * preferred mode. Chained events start from the previous stop, others from
+ * home; null when either end has no location.
+ */
+export async function computeEventDeparture(
+  event: CalendarEvent,
+  context: { home?: Coordinate | null; mode?: TravelMode } = {}
+): Promise<EventDeparture | null> {
+  const [departure] = await computeEventDepartures([event], context);
+  return departure;
+}
+
+/**
+ * computeEventDeparture for many of one user's events at once: home is
+ * looked up once and every trip goes to the travel-time service in one
+ * batch. Results line up with `events`.
+ */
+export async function computeEventDepartures(
+  events: CalendarEvent[],
+  context: { home?: Coordinate | null; mode?: TravelMode } = {}
+): Promise<(EventDeparture | null)[]> {
+  const legs = await getDepartureLegs(events, context);
+  const routable = events.flatMap((event, i) => {
+    const leg = legs[i];
+    return leg ? [{ i, event, leg }] : [];
+  });
+  const departures: (EventDeparture | null)[] = events.map(() => null);
+  if (routable.length === 0) return departures;
+
+  const mode = context.mode ?? (await getPreferredTravelMode(routable[0].event.user_id));
+  const minutes = await getTravelTimesForLegs(routable.map(r => r.leg), mode);
+  routable.forEach(({ i, event }, j) => {
+    departures[i] = toDeparture(event, minutes[j], mode);
+  });
+  return departures;
+}
+
+/** Where each event's trip starts and ends (null without both) */
+async function getDepartureLegs(
+  events: CalendarEvent[],
+  context: { home?: Coordinate | null }
+): Promise<({ from: Coordinate; to: Coordinate; departAt: Date } | null)[]> {
+  let home = context.home;
+  const needsHome = events.some(e => !(e.loop_routing?.is_chained && e.loop_routing.starting_location));
+  if (home === undefined && needsHome && events.length > 0) {
+    const { data: user, error } = await supabase
+      .from('users')
+      .select('home_location')
+      .eq('id', events[0].user_id)
+      .single();
+
+    if (error) console.error('Error fetching home location:', error);
+    home = parseLocation(user?.home_location);
+  }
+
+  return events.map(event => {
+    const routing = event.loop_routing;
+    const from = routing?.is_chained && routing.starting_location
+      ? parseLocation(routing.starting_location)
+      : home ?? null;
+    const to = parseLocation(event.location);
+    if (!from || !to) return null;
+
+    // Traffic is looked up for roughly when they'd be on the road
+    return { from, to, departAt: new Date(new Date(event.start_time).getTime() - 30 * 60 * 1000) };
+  });
+}
+
+function toDeparture(event: CalendarEvent, travelMinutes: number, mode: TravelMode): EventDeparture {
+  return {
+    departureTime: calculateDepartureTime(
+      event.start_time,
+      travelMinutes,
+      PARKING_BUFFER_MINUTES,
+      !!event.loop_routing?.is_chained
+    ),
+    travelMinutes,
+    mode,
+  };
+}
+
+/**
+ * Recompute departure times for the user's events over the coming week.
+ * All trips go to the travel-time service in one batch.
+ */
+export async function refreshDepartureTimesForUser(userId: string): Promise<number> {
+  try {
+    const now = new Date();
+    const until = new Date(now.getTime() + DEPARTURE_REFRESH_DAYS * 24 * 60 * 60 * 1000);
+
+    const { data, error } = await supabase
+      .from('calendar_events')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('status', 'scheduled')
+      .is('recurrence_rule', null)
+      .not('location', 'is', null)
+      .gte('start_time', now.toISOString())
+      .lte('start_time', until.toISOString());
+
+    if (error) {
+      console.error('Error fetching events for departure times:', error);
+      return 0;
+    }
+
+    const events = (data || []) as CalendarEvent[];
+    const departures = await computeEventDepartures(events);
+
+    let updated = 0;
+    for (const [i, event] of events.entries()) {
+      const departure = departures[i];
+      if (departure && (await saveDeparture(event, departure))) updated++;
+    }
+    return updated;
+  } catch (error) {
+    console.error('Error in refreshDepartureTimesForUser:', error);
+    return 0;
+  }
+}
+
+/** Write a departure into the event's loop_routing */
+async function saveDeparture(event: CalendarEvent, departure: EventDeparture): Promise<boolean> {
+  const { error } = await supabase
+    .from('calendar_events')
+    .update({
+      loop_routing: {
+        ...event.loop_routing,
+        recommended_departure_time: departure.departureTime.toISOString(),
+        estimated_travel_minutes: departure.travelMinutes,
+        travel_mode: departure.mode,
+      },
+    })
+    .eq('id', event.id);
+
+  if (error) {
+    console.error('Error updating departure time:', error);
+    return false;
+  }
+  return true;
+}
+
 /**
  * Get all events in a chain (for visualizing the route)
  */
@@ -248,7 +420,8 @@ export async function getEventChain(
  */
 export async function getDayRoutingSummary(
   userId: string,
-  date: Date
+  date: Date,
+  timeZone?: string
 ): Promise<{
   totalEvents: number;
   totalChains: number;
@@ -256,21 +429,15 @@ export async function getDayRoutingSummary(
   events: CalendarEvent[];
 }> {
   try {
-    const startOfDay = new Date(date);
-    startOfDay.setHours(0, 0, 0, 0);
+    // The day in the given zone (23 or 25 hours long across a DST change)
+    const zone = resolveTimezone(timeZone);
+    const startOfDay = startOfZonedDay(date, zone);
+    const endOfDay = new Date(addZonedDays(startOfDay, 1, zone).getTime() - 1);
 
-    const endOfDay = new Date(date);
-    endOfDay.setHours(23, 59, 59, 999);
+    // Recurring series are expanded into the day's occurrences
+    const { events, error } = await fetchCalendarEventsInRange(userId, startOfDay, endOfDay, zone);
 
-    const { data: events, error } = await supabase
-      .from('calendar_events')
-      .select('*')
-      .eq('user_id', userId)
-      .gte('start_time', startOfDay.toISOString())
-      .lte('start_time', endOfDay.toISOString())
-      .order('start_time', { ascending: true });
-
-    if (error || !events) {
+    if (error) {
       console.error('Error fetching day events:', error);
       return { totalEvents: 0, totalChains: 0, totalTravelMinutes: 0, events: [] };
     }
@@ -278,8 +445,8 @@ export async function getDayRoutingSummary(
     let totalChains = 0;
     let totalTravelMinutes = 0;
 
-    events.forEach((event: { loop_routing: unknown }) => {
-      const routing = event.loop_routing as LoopRouting;
+    events.forEach((event) => {
+      const routing = event.loop_routing;
       if (routing?.is_chained) {
         totalChains++;
       }
@@ -331,23 +498,21 @@ function parsePostGISPoint(point: any): Coordinate {
  */
 async function recalculateDepartureTime(eventId: string): Promise<void> {
   try {
-    const departureTime = await calculateEventDepartureTime(eventId);
-    if (!departureTime) return;
-
-    const { error } = await supabase
+    const { data: event, error } = await supabase
       .from('calendar_events')
-      .update({
-        loop_routing: supabase.rpc('jsonb_set', {
-          target: supabase.raw('loop_routing'),
-          path: '{recommended_departure_time}',
-          new_value: JSON.stringify(departureTime.toISOString()),
-        }),
-      })
-      .eq('id', eventId);
+      .select('*')
+      .eq('id', eventId)
+      .single();
 
-    if (error) {
-      console.error('Error updating departure time:', error);
+    if (error || !event) {
+      console.error('Error fetching event for departure time:', error);
+      return;
     }
+
+    const departure = await computeEventDeparture(event);
+    if (!departure) return;
+
+    await saveDeparture(event, departure);
   } catch (error) {
     console.error('Error in recalculateDepartureTime:', error);
   }
@@ -131,6 +131,29 @@ export async function getSavedLoops(userId: string): Promise<SavedLoop[]> {
   }
 }
 
+/**
+ * Lay out a saved loop's tasks on a date: back to back from 9 AM, with a
+ * 30 min buffer between tasks
+ */
+export function scheduleLoopTasks(
+  tasks: SavedLoopTask[],
+  targetDate: Date
+): { task: SavedLoopTask; start: Date; end: Date }[] {
+  const currentTime = new Date(targetDate);
+  currentTime.setHours(9, 0, 0, 0); // Start at 9 AM by default
+
+  return tasks.map(task => {
+    const start = new Date(currentTime);
+    const end = new Date(currentTime);
+    end.setMinutes(end.getMinutes() + (task.duration_minutes || 60));
+
+    // Move to next time slot
+    currentTime.setTime(end.getTime());
+    currentTime.setMinutes(currentTime.getMinutes() + 30);
+    return { task, start, end };
+  });
+}
+
 /**
  * Apply a saved loop to a specific date
  */
@@ -155,24 +178,16 @@ export async function applyLoopToDate(
 
     // Create calendar events for each task
     const tasks = (loop.tasks as SavedLoopTask[]) || [];
-    const baseTime = new Date(targetDate);
-    baseTime.setHours(9, 0, 0, 0); // Start at 9 AM by default
-
-    let currentTime = baseTime;
-
-    for (const task of tasks) {
-      const startTime = new Date(currentTime);
-      const endTime = new Date(currentTime);
-      endTime.setMinutes(endTime.getMinutes() + (task.duration_minutes || 60));
 
+    for (const { task, start, end } of scheduleLoopTasks(tasks, targetDate)) {
       const eventData = {
         user_id: userId,
         title: task.title,
         category: task.category || 'other',
         location: `POINT(${task.longitude} ${task.latitude})`,
         address: task.address,
-        start_time: startTime.toISOString(),
-        end_time: endTime.toISOString(),
+        start_time: start.toISOString(),
+        end_time: end.toISOString(),
         status: 'scheduled',
         source: 'saved_loop',
       };
@@ -183,12 +198,7 @@ export async function applyLoopToDate(
 
       if (insertError) {
         console.error('❌ Error creating event from loop:', insertError);
-        continue;
       }
-
-      // Move to next time slot (add 30 min buffer between tasks)
-      currentTime = new Date(endTime);
-      currentTime.setMinutes(currentTime.getMinutes() + 30);
     }
 
     // Update loop usage stats
@@ -0,0 +1,290 @@
+/**
+ * Negative Feedback ("Not interested because…")
+ *
+ * Structured reasons a user can give when dismissing a recommendation.
+ * Each reason is stored in ai_profile.negative_feedback and applies its own
+ * penalty to future scoring, fading with a reason-specific half-life:
+ *
+ * - too_far / too_expensive: places at least as far / pricey as this one
+ * - not_my_vibe / already_been: this place (plus a nudge on its category)
+ * - wrong_time: this category at this time of day
+ * - dislike_category / dislike_chain: long-lived suppressions, reviewable
+ *   and undoable in Settings → AI Preferences
+ *
+ * "Never show this place" still goes through blockActivity() and is permanent.
+ */
+
+import { supabase } from '@/lib/supabase';
+import type { Json } from '@/types/database';
+import type { Recommendation } from '@/types/activity';
+import { asAIProfile } from './scoring-pipeline';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type NotInterestedReason =
+  | 'too_far'
+  | 'too_expensive'
+  | 'not_my_vibe'
+  | 'already_been'
+  | 'wrong_time'
+  | 'dislike_category'
+  | 'dislike_chain';
+
+export interface NegativeFeedbackEntry {
+  id: string;
+  reason: NotInterestedReason;
+  place_id: string;
+  place_name: string;
+  category: string;
+  /** Normalized chain name (see chainKey) */
+  chain: string;
+  price_level?: number;
+  distance_miles?: number;
+  time_of_day?: string;
+  created_at: string;
+}
+
+interface ReasonConfig {
+  label: string;
+  /** Days until the penalty halves */
+  halfLifeDays: number;
+  /** Points removed at full strength */
+  penalty: number;
+  /** Shown in settings as a reviewable suppression */
+  suppression?: 'category' | 'chain';
+}
+
+/** The place being scored, as seen by penalty matching */
+export interface NegativeFeedbackTarget {
+  placeId: string;
+  name: string;
+  category: string;
+  priceLevel?: number;
+  distanceMiles?: number;
+  timeOfDay?: string;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const NOT_INTERESTED_REASONS: Record<NotInterestedReason, ReasonConfig> = {
+  too_far: { label: 'Too far', halfLifeDays: 30, penalty: 15 },
+  too_expensive: { label: 'Too expensive', halfLifeDays: 45, penalty: 15 },
+  not_my_vibe: { label: 'Not my vibe', halfLifeDays: 21, penalty: 30 },
+  already_been: { label: 'Already been', halfLifeDays: 30, penalty: 40 },
+  wrong_time: { label: 'Wrong time', halfLifeDays: 14, penalty: 15 },
+  dislike_category: { label: 'Not into this category', halfLifeDays: 90, penalty: 35, suppression: 'category' },
+  dislike_chain: { label: 'Not into this chain', halfLifeDays: 180, penalty: 50, suppression: 'chain' },
+};
+
+export const NEGATIVE_FEEDBACK_CONFIG = {
+  /** Entries weaker than this are pruned on the next write */
+  minStrength: 0.05,
+  /** Oldest entries are dropped beyond this many */
+  maxEntries: 50,
+  /** A "too far" place only penalizes places at least this fraction as far */
+  distanceTolerance: 0.8,
+  /** Share of the place penalty that spills onto the category for "not my vibe" */
+  vibeCategoryShare: 0.2,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+/**
+ * Normalize a place name to its chain: "Starbucks - Main St #1234" → "starbucks".
+ * Branch suffixes after " - ", " | ", " @ " or " at " are dropped.
+ */
+export function chainKey(name: string): string {
+  return name
+    .toLowerCase()
+    .split(/\s+(?:-|–|—|\||@|at)\s+/)[0]
+    .replace(/#\s*\d+/g, '')
+    .replace(/[^a-z0-9]+/g, '');
+}
+
+/** Remaining strength of an entry, 1 when fresh and halving every half-life */
+export function decayFactor(entry: NegativeFeedbackEntry, now: Date): number {
+  const ageDays = Math.max(0, now.getTime() - new Date(entry.created_at).getTime()) / DAY_MS;
+  if (!Number.isFinite(ageDays)) return 0;
+  return Math.pow(0.5, ageDays / NOT_INTERESTED_REASONS[entry.reason].halfLifeDays);
+}
+
+/** How strongly (0-1) an entry applies to a place, before decay */
+function matchStrength(entry: NegativeFeedbackEntry, target: NegativeFeedbackTarget): number {
+  const samePlace = entry.place_id === target.placeId;
+  const sameCategory = !!entry.category && entry.category.toLowerCase() === target.category.toLowerCase();
+
+  switch (entry.reason) {
+    case 'too_far':
+      return entry.distance_miles !== undefined && target.distanceMiles !== undefined &&
+        target.distanceMiles >= entry.distance_miles * NEGATIVE_FEEDBACK_CONFIG.distanceTolerance ? 1 : 0;
+    case 'too_expensive':
+      return entry.price_level && target.priceLevel && target.priceLevel >= entry.price_level ? 1 : 0;
+    case 'not_my_vibe':
+      if (samePlace) return 1;
+      return sameCategory ? NEGATIVE_FEEDBACK_CONFIG.vibeCategoryShare : 0;
+    case 'already_been':
+      return samePlace ? 1 : 0;
+    case 'wrong_time':
+      return sameCategory && !!entry.time_of_day && entry.time_of_day === target.timeOfDay ? 1 : 0;
+    case 'dislike_category':
+      return sameCategory ? 1 : 0;
+    case 'dislike_chain':
+      return !!entry.chain && entry.chain === chainKey(target.name) ? 1 : 0;
+  }
+}
+
+/**
+ * Total (negative) points all of a user's reasons take off one place.
+ * Repeated reasons stack, so dismissing three far places pushes harder than one.
+ */
+export function negativeFeedbackPenalty(
+  entries: NegativeFeedbackEntry[],
+  target: NegativeFeedbackTarget,
+  now: Date
+): number {
+  let penalty = 0;
+  for (const entry of entries) {
+    const strength = matchStrength(entry, target);
+    if (strength > 0) {
+      penalty += NOT_INTERESTED_REASONS[entry.reason].penalty * strength * decayFactor(entry, now);
+    }
+  }
+  return -Math.round(penalty) || 0; // avoid -0
+}
+
+// ============================================================================
+// PROFILE HELPERS
+// ============================================================================
+
+function isEntry(value: unknown): value is NegativeFeedbackEntry {
+  const entry = value as NegativeFeedbackEntry;
+  return !!entry && typeof entry === 'object' &&
+    typeof entry.id === 'string' &&
+    entry.reason in NOT_INTERESTED_REASONS &&
+    typeof entry.place_id === 'string' &&
+    typeof entry.category === 'string' &&
+    typeof entry.created_at === 'string';
+}
+
+/** Read the user's reasons from ai_profile, skipping malformed entries */
+export function getNegativeFeedback(aiProfile: Json): NegativeFeedbackEntry[] {
+  const raw = asAIProfile(aiProfile).negative_feedback;
+  return Array.isArray(raw) ? raw.filter(isEntry) : [];
+}
+
+/** Category and chain suppressions still in effect, newest first */
+export function getSuppressions(aiProfile: Json, now: Date = new Date()): NegativeFeedbackEntry[] {
+  return getNegativeFeedback(aiProfile)
+    .filter(entry => NOT_INTERESTED_REASONS[entry.reason].suppression)
+    .filter(entry => decayFactor(entry, now) >= NEGATIVE_FEEDBACK_CONFIG.minStrength)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+/** Build the entry to store when a user dismisses a recommendation */
+export function buildNegativeFeedbackEntry(
+  recommendation: Recommendation,
+  reason: NotInterestedReason,
+  options: { timeOfDay?: string; now?: Date } = {}
+): NegativeFeedbackEntry {
+  const now = options.now ?? new Date();
+  const placeId = recommendation.activity?.googlePlaceId || recommendation.id;
+  const distance = parseFloat(recommendation.distance);
+
+  return {
+    id: `${reason}:${placeId}:${now.getTime()}`,
+    reason,
+    place_id: placeId,
+    place_name: recommendation.title,
+    category: recommendation.category,
+    chain: chainKey(recommendation.title),
+    price_level: recommendation.priceRange || undefined,
+    distance_miles: Number.isFinite(distance) ? distance : undefined,
+    time_of_day: options.timeOfDay,
+    created_at: now.toISOString(),
+  };
+}
+
+/**
+ * Return a copy of ai_profile with the entry added. Faded entries and
+ * duplicates of the same reason for the same target are dropped.
+ */
+export function withNegativeFeedback(aiProfile: Json, entry: NegativeFeedbackEntry, now: Date = new Date()): Json {
+  const supersedes = (existing: NegativeFeedbackEntry) => {
+    if (existing.reason !== entry.reason) return false;
+    const suppression = NOT_INTERESTED_REASONS[entry.reason].suppression;
+    if (suppression === 'category') return existing.category.toLowerCase() === entry.category.toLowerCase();
+    if (suppression === 'chain') return existing.chain === entry.chain;
+    return existing.place_id === entry.place_id;
+  };
+
+  const kept = getNegativeFeedback(aiProfile)
+    .filter(existing => !supersedes(existing))
+    .filter(existing => decayFactor(existing, now) >= NEGATIVE_FEEDBACK_CONFIG.minStrength);
+
+  return {
+    ...(asAIProfile(aiProfile) as Record<string, unknown>),
+    negative_feedback: [...kept, entry].slice(-NEGATIVE_FEEDBACK_CONFIG.maxEntries),
+  } as unknown as Json;
+}
+
+/** Return a copy of ai_profile with one entry removed (settings "Undo") */
+export function withoutNegativeFeedback(aiProfile: Json, entryId: string): Json {
+  return {
+    ...(asAIProfile(aiProfile) as Record<string, unknown>),
+    negative_feedback: getNegativeFeedback(aiProfile).filter(entry => entry.id !== entryId),
+  } as unknown as Json;
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+/**
+ * Record a "not interested because…" reason: stores it on the AI profile and
+ * declines the place in recommendation_tracking so it leaves the cached feed.
+ *
+ * The profile is written through `updateAIProfile` (from useAuth) so the
+ * signed-in user's profile, and everything reading it, picks up the entry.
+ */
+export async function recordNegativeFeedback(
+  userId: string,
+  entry: NegativeFeedbackEntry,
+  updateAIProfile: (update: (aiProfile: Json) => Json) => Promise<{ error: Error | null }>
+): Promise<boolean> {
+  try {
+    const { error: updateError } = await updateAIProfile(aiProfile => withNegativeFeedback(aiProfile, entry));
+
+    if (updateError) {
+      console.error('[NegativeFeedback] Error updating AI profile:', updateError);
+      return false;
+    }
+
+    const { error: trackingError } = await supabase
+      .from('recommendation_tracking')
+      .update({
+        status: 'declined',
+        block_reason: entry.reason,
+        responded_at: entry.created_at,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('user_id', userId)
+      .eq('google_place_id', entry.place_id);
+
+    if (trackingError) {
+      console.warn('[NegativeFeedback] Error updating tracking record:', trackingError);
+    }
+
+    return true;
+  } catch (error) {
+    console.error('[NegativeFeedback] Error recording reason:', error);
+    return false;
+  }
+}
@@ -6,13 +6,25 @@
  * - Support single and chained routes
  * - 30-min warning + departure time notifications
  * - Deep linking to navigation
+ *
+ * Departure times are recomputed with the travel-time service in the
+ * user's preferred mode when scheduling, falling back to the one saved in
+ * loop_routing; event times in the copy are shown in the event's own
+ * timezone.
+ *
+ * Occurrences of recurring events have no row of their own, so their
+ * notifications use identifiers derived from the occurrence ID instead of
+ * IDs saved to the database.
  */
 
 import * as Notifications from 'expo-notifications';
 import { Platform } from 'react-native';
 import { supabase } from '@/lib/supabase';
-import { getEventChain } from './loop-routing';
+import { computeEventDeparture, computeEventDepartures, getEventChain, type EventDeparture } from './loop-routing';
+import type { TravelMode } from './travel-time';
+import { fetchCalendarEventsInRange } from './recurring-events';
 import type { CalendarEvent, LoopRouting } from '@/types/calendar-event';
+import { getDeviceTimezone, getTimezoneAbbreviation, getTimezoneOffsetMinutes, resolveTimezone } from '@/utils/timezone';
 
 // Configure notification handler
 Notifications.setNotificationHandler({
@@ -70,11 +82,56 @@ export async function requestNotificationPermissions(): Promise<boolean> {
   }
 }
 
+/**
+ * An event's start time for notification copy ("7:30 PM"), in the zone the
+ * event happens in. The zone is named ("7:30 PM EDT") when it differs from
+ * the device's — e.g. an event at a trip destination.
+ */
+export function formatEventStartForNotification(
+  startTime: Date,
+  eventTimezone?: string | null,
+  userTimezone?: string | null
+): string {
+  const zone = resolveTimezone(eventTimezone, userTimezone);
+  const time = startTime.toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+    timeZone: zone,
+  });
+
+  const differsFromDevice =
+    getTimezoneOffsetMinutes(startTime, zone) !== getTimezoneOffsetMinutes(startTime, getDeviceTimezone());
+  return differsFromDevice ? `${time} ${getTimezoneAbbreviation(startTime, zone)}` : time;
+}
+
+const TRAVEL_MODE_ICONS: Record<TravelMode, string> = {
+  drive: '🚗',
+  transit: '🚌',
+  walk: '🚶',
+  bike: '🚲',
+};
+
+/** How far ahead occurrences of recurring events get notifications */
+const RECURRING_NOTIFICATION_DAYS = 7;
+
+/** Notification identifiers for an occurrence of a recurring event */
+function getOccurrenceNotificationIds(occurrenceId: string): { warning: string; departure: string } {
+  return {
+    warning: `departure-warning:${occurrenceId}`,
+    departure: `departure-now:${occurrenceId}`,
+  };
+}
+
 /**
  * Schedule departure notifications for an event
+ *
+ * @param precomputed - The event's departure when the caller already worked
+ *   it out (computed here when omitted)
  */
 export async function scheduleDepartureNotifications(
-  event: CalendarEvent
+  event: CalendarEvent,
+  precomputed?: EventDeparture | null
 ): Promise<{
   success: boolean;
   warningId?: string;
@@ -82,12 +139,15 @@ export async function scheduleDepartureNotifications(
 }> {
   try {
     const routing = event.loop_routing as LoopRouting;
-    if (!routing?.recommended_departure_time) {
+    const departure = precomputed === undefined ? await computeEventDeparture(event) : precomputed;
+    const departureTime = departure?.departureTime
+      ?? (routing?.recommended_departure_time ? new Date(routing.recommended_departure_time) : null);
+    if (!departureTime) {
       console.warn('No departure time calculated for event:', event.id);
       return { success: false };
     }
 
-    const departureTime = new Date(routing.recommended_departure_time);
+    const icon = TRAVEL_MODE_ICONS[departure?.mode ?? routing?.travel_mode ?? 'drive'];
     const now = new Date();
 
     // Don't schedule if departure time has already passed
@@ -96,12 +156,16 @@ export async function scheduleDepartureNotifications(
       return { success: false };
     }
 
-    // Get event chain for notification message
-    const chain = await getEventChain(event.id);
+    // Chain links point at the series' first occurrence, so occurrences
+    // are announced on their own
+    const occurrenceIds = event.recurrence_series_id ? getOccurrenceNotificationIds(event.id) : null;
+    const chain = occurrenceIds ? [event] : await getEventChain(event.id);
     const isChained = chain.length > 1;
+    const startsAt = formatEventStartForNotification(new Date(event.start_time), event.timezone);
 
-    // Cancel any existing notifications for this event
-    await cancelEventNotifications(event.id);
+    // Cancel any existing notifications for this event (scheduling with an
+    // occurrence's identifiers replaces its earlier ones)
+    if (!occurrenceIds) await cancelEventNotifications(event.id);
 
     // Schedule 30-minute warning notification
     const warningTime = new Date(departureTime.getTime() - 30 * 60 * 1000);
@@ -109,15 +173,16 @@ export async function scheduleDepartureNotifications(
 
     if (warningTime > now) {
       warningId = await Notifications.scheduleNotificationAsync({
+        ...(occurrenceIds && { identifier: occurrenceIds.warning }),
         content: {
           title: isChained
-            ? `🚗 Multi-stop trip in 30 minutes`
-            : `🚗 Leaving for ${event.title} in 30 min`,
+            ? `${icon} Multi-stop trip in 30 minutes`
+            : `${icon} Leaving for ${event.title} in 30 min`,
           body: isChained
             ? `Get ready for ${chain.length} stops: ${chain
                 .map((e) => e.title)
                 .join(' → ')}`
-            : `Departure in 30 minutes to arrive on time`,
+            : `Departure in 30 minutes to arrive by ${startsAt}`,
           data: {
             eventId: event.id,
             type: 'departure_warning',
@@ -135,13 +200,14 @@ export async function scheduleDepartureNotifications(
 
     // Schedule "leave now" notification
     const departureId = await Notifications.scheduleNotificationAsync({
+      ...(occurrenceIds && { identifier: occurrenceIds.departure }),
       content: {
         title: isChained
           ? `🕐 Leave now for ${chain.length} stops!`
           : `🕐 Leave now for ${event.title}!`,
         body: isChained
           ? `Route: ${chain.map((e) => e.title).join(' → ')}\nTap to navigate`
-          : `Tap to start navigation`,
+          : `Starts at ${startsAt}. Tap to start navigation`,
         data: {
           eventId: event.id,
           type: 'departure_now',
@@ -158,6 +224,10 @@ export async function scheduleDepartureNotifications(
       } as Notifications.DateTriggerInput,
     });
 
+    if (occurrenceIds) {
+      return { success: true, warningId, departureId };
+    }
+
     // Save notification IDs to database
     await supabase
       .from('calendar_events')
@@ -265,12 +335,14 @@ export async function scheduleAllUserNotifications(userId: string): Promise<{
   failed: number;
 }> {
   try {
-    // Get all future events with locations
+    // Get all future single events with locations
+    const now = new Date();
     const { data: events, error } = await supabase
       .from('calendar_events')
       .select('*')
       .eq('user_id', userId)
-      .gte('start_time', new Date().toISOString())
+      .is('recurrence_rule', null)
+      .gte('start_time', now.toISOString())
       .not('location', 'is', null)
       .order('start_time', { ascending: true });
 
@@ -279,11 +351,19 @@ export async function scheduleAllUserNotifications(userId: string): Promise<{
       return { success: false, scheduled: 0, failed: 0 };
     }
 
+    // Plus the coming week's occurrences of recurring events
+    const horizon = new Date(now.getTime() + RECURRING_NOTIFICATION_DAYS * 24 * 60 * 60 * 1000);
+    const { events: upcoming } = await fetchCalendarEventsInRange(userId, now, horizon);
+    events.push(...upcoming.filter((e) => e.recurrence_series_id && e.location));
+
+    // One home lookup and one travel-time batch for every event
+    const departures = await computeEventDepartures(events);
+
     let scheduled = 0;
     let failed = 0;
 
-    for (const event of events) {
-      const result = await scheduleDepartureNotifications(event);
+    for (const [i, event] of events.entries()) {
+      const result = await scheduleDepartureNotifications(event, departures[i]);
       if (result.success) {
         scheduled++;
       } else {
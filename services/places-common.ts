@@ -34,6 +34,7 @@ export interface PlaceResult {
   };
   ai_description?: string; // Gemini-generated description from cache
   source?: 'google_places' | 'ticketmaster' | 'yelp';
+  sponsor_tier?: 'organic' | 'boosted' | 'premium'; // From cached Activity.sponsorTier
   event_metadata?: any;
   yelp_metadata?: any;
 }
@@ -0,0 +1,518 @@
+/**
+ * Radar Delivery Service — Quiet Hours, Digests and Push Budgets
+ *
+ * Decides how each radar alert reaches a Plus user, per their delivery
+ * preferences (users.radar_delivery, migration 044):
+ *
+ * - instant: push right away, up to maxPushesPerDay per local day. When
+ *   alerts compete for the budget (a sweep batch), higher-priority radar
+ *   types win (HOOK_PUSH_PRIORITY); the rest stay feed-only.
+ * - daily_digest / weekly_digest: hold alerts, then bundle them into one
+ *   push and one feed card at the user's digest time.
+ * - quiet hours (any mode): nothing is pushed; instant-mode alerts are held
+ *   and bundled into a single digest once quiet hours end.
+ *
+ * All times are read in the user's own IANA timezone. Every alert is still
+ * written to hook_notifications — delivery only decides whether and when it
+ * is pushed, and whether it shows alone or inside a digest card.
+ *
+ * Used by radar-push-service (single pushes from client polling) and
+ * radar-sweep (batched pushes and hourly digest delivery).
+ */
+
+import { supabase } from '@/lib/supabase';
+import { DEFAULT_RADAR_DELIVERY, HOOK_PUSH_PRIORITY, RADAR_LIMITS } from '@/types/radar';
+import type {
+  HookNotification,
+  HookType,
+  RadarDeliveryMode,
+  RadarDeliveryPreferences,
+  RadarDigest,
+  RadarDigestItem,
+  RadarDigestReason,
+} from '@/types/radar';
+import type { RadarDigestPushItem } from '@/services/radar-push-service';
+import {
+  getDeviceTimezone as getDeviceZone,
+  getZonedParts,
+  isValidTimezone,
+  startOfZonedDay,
+  type ZonedParts,
+} from '@/utils/timezone';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+const DELIVERY_MODES: RadarDeliveryMode[] = ['instant', 'daily_digest', 'weekly_digest'];
+
+/** Upper bound for the daily push budget setting */
+export const MAX_PUSHES_PER_DAY_LIMIT = 50;
+
+/** Titles listed in a digest push body before "+N more" */
+const DIGEST_BODY_TITLES = 2;
+
+/** Rows per IN query / page */
+const DELIVERY_BATCH_SIZE = 500;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** An alert awaiting a push decision, with its radar type for prioritizing */
+export interface RadarDeliveryCandidate {
+  notification: HookNotification;
+  hookType?: HookType;
+}
+
+export interface RadarDeliveryPlan {
+  /** Push now */
+  push: HookNotification[];
+  /** Hold for the next digest (digest mode or quiet hours) */
+  held: HookNotification[];
+  /** Over today's budget — feed only */
+  feedOnly: HookNotification[];
+}
+
+export interface RadarDigestRun {
+  digestsCreated: number;
+  notificationsBundled: number;
+  /** Digests for Plus users with a push token */
+  pushItems: RadarDigestPushItem[];
+}
+
+export type LocalTime = ZonedParts;
+
+// ============================================================================
+// LOCAL TIME
+// ============================================================================
+
+/** Wall-clock time at `date` in `timeZone` (UTC if the zone is unknown) */
+export function getLocalTime(date: Date, timeZone: string): LocalTime {
+  return getZonedParts(date, timeZone);
+}
+
+/** The instant local midnight began, for the day containing `date` */
+export function startOfLocalDay(date: Date, timeZone: string): Date {
+  return startOfZonedDay(date, isValidTimezone(timeZone) ? timeZone : 'UTC');
+}
+
+/** "HH:MM" → minutes after midnight (null if malformed) */
+function parseClock(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value || '');
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+/** Whether `now` falls in the user's quiet hours (windows may wrap midnight) */
+export function isInQuietHours(prefs: RadarDeliveryPreferences, now: Date): boolean {
+  if (!prefs.quietHoursEnabled) return false;
+
+  const start = parseClock(prefs.quietHoursStart);
+  const end = parseClock(prefs.quietHoursEnd);
+  if (start === null || end === null || start === end) return false;
+
+  const local = getLocalTime(now, prefs.timezone);
+  const minutes = local.hour * 60 + local.minute;
+
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+/**
+ * The most recent digest time at or before `now` — today's (or this
+ * week's) digestHour in the user's timezone.
+ */
+export function getLastDigestTime(prefs: RadarDeliveryPreferences, now: Date): Date {
+  const dayStart = startOfLocalDay(now, prefs.timezone);
+  let digestAt = dayStart.getTime() + prefs.digestHour * HOUR_MS;
+
+  if (prefs.mode === 'weekly_digest') {
+    const { weekday } = getLocalTime(now, prefs.timezone);
+    digestAt -= ((weekday - prefs.digestDay + 7) % 7) * DAY_MS;
+    if (digestAt > now.getTime()) digestAt -= 7 * DAY_MS;
+  } else if (digestAt > now.getTime()) {
+    digestAt -= DAY_MS;
+  }
+
+  return new Date(digestAt);
+}
+
+/** The device's IANA timezone (saved with preferences so the server can use it) */
+export function getDeviceTimezone(): string {
+  return getDeviceZone(DEFAULT_RADAR_DELIVERY.timezone);
+}
+
+// ============================================================================
+// PREFERENCES
+// ============================================================================
+
+function clampInt(value: unknown, min: number, max: number, fallback: number): number {
+  const num = typeof value === 'number' ? Math.round(value) : NaN;
+  if (Number.isNaN(num)) return fallback;
+  return Math.min(max, Math.max(min, num));
+}
+
+/**
+ * Fill in defaults and drop invalid values from a users.radar_delivery value.
+ * A missing or unknown timezone falls back to the user's home zone
+ * (users.timezone) before the default.
+ */
+export function normalizeRadarDelivery(raw: unknown, homeTimezone?: string | null): RadarDeliveryPreferences {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const defaults = DEFAULT_RADAR_DELIVERY;
+  const timezone = [value.timezone, homeTimezone].find(
+    (zone): zone is string => typeof zone === 'string' && isValidTimezone(zone)
+  );
+
+  return {
+    mode: DELIVERY_MODES.includes(value.mode as RadarDeliveryMode) ? value.mode as RadarDeliveryMode : defaults.mode,
+    timezone: timezone || defaults.timezone,
+    quietHoursEnabled: typeof value.quietHoursEnabled === 'boolean' ? value.quietHoursEnabled : defaults.quietHoursEnabled,
+    quietHoursStart: parseClock(value.quietHoursStart as string) !== null ? value.quietHoursStart as string : defaults.quietHoursStart,
+    quietHoursEnd: parseClock(value.quietHoursEnd as string) !== null ? value.quietHoursEnd as string : defaults.quietHoursEnd,
+    digestHour: clampInt(value.digestHour, 0, 23, defaults.digestHour),
+    digestDay: clampInt(value.digestDay, 0, 6, defaults.digestDay),
+    maxPushesPerDay: clampInt(value.maxPushesPerDay, 0, MAX_PUSHES_PER_DAY_LIMIT, defaults.maxPushesPerDay),
+  };
+}
+
+/** A user's radar delivery preferences (defaults if unset or unreadable) */
+export async function getRadarDeliveryPreferences(userId: string): Promise<RadarDeliveryPreferences> {
+  try {
+    const { data, error } = await supabase
+      .from('users')
+      .select('radar_delivery, timezone')
+      .eq('id', userId)
+      .single();
+
+    if (error) {
+      console.warn('[RadarDelivery] Error loading delivery preferences:', error.message);
+      return normalizeRadarDelivery(null);
+    }
+    return normalizeRadarDelivery(data?.radar_delivery, data?.timezone);
+  } catch (err) {
+    console.error('[RadarDelivery] Exception loading delivery preferences:', err);
+    return normalizeRadarDelivery(null);
+  }
+}
+
+/**
+ * Update a user's radar delivery preferences. Returns the saved
+ * preferences, or null on failure.
+ */
+export async function updateRadarDeliveryPreferences(
+  userId: string,
+  updates: Partial<RadarDeliveryPreferences>
+): Promise<RadarDeliveryPreferences | null> {
+  const current = await getRadarDeliveryPreferences(userId);
+  const next = normalizeRadarDelivery({ ...current, ...updates });
+
+  try {
+    const { error } = await supabase
+      .from('users')
+      .update({ radar_delivery: next })
+      .eq('id', userId);
+
+    if (error) {
+      console.error('[RadarDelivery] Error saving delivery preferences:', error);
+      return null;
+    }
+    return next;
+  } catch (err) {
+    console.error('[RadarDelivery] Exception saving delivery preferences:', err);
+    return null;
+  }
+}
+
+// ============================================================================
+// PUSH PLANNING
+// ============================================================================
+
+function byPushPriority(a: RadarDeliveryCandidate, b: RadarDeliveryCandidate): number {
+  const priority = (c: RadarDeliveryCandidate) => (c.hookType ? HOOK_PUSH_PRIORITY[c.hookType] : HOOK_PUSH_PRIORITY.category);
+  return priority(a) - priority(b) || a.notification.createdAt.localeCompare(b.notification.createdAt);
+}
+
+/**
+ * Decide which of a user's new alerts to push now, hold for a digest, or
+ * leave feed-only because today's budget is spent.
+ */
+export function planRadarDelivery(
+  candidates: RadarDeliveryCandidate[],
+  prefs: RadarDeliveryPreferences,
+  pushesSentToday: number,
+  now: Date
+): RadarDeliveryPlan {
+  if (prefs.mode !== 'instant' || isInQuietHours(prefs, now)) {
+    return { push: [], held: candidates.map(c => c.notification), feedOnly: [] };
+  }
+
+  const remaining = Math.max(0, prefs.maxPushesPerDay - pushesSentToday);
+  const ordered = [...candidates].sort(byPushPriority).map(c => c.notification);
+
+  return { push: ordered.slice(0, remaining), held: [], feedOnly: ordered.slice(remaining) };
+}
+
+/**
+ * Radar pushes each user has received since their local midnight.
+ *
+ * @param prefsByUser - delivery preferences (for the timezone) keyed by user ID
+ */
+export async function loadPushCountsToday(
+  prefsByUser: Map<string, RadarDeliveryPreferences>,
+  now: Date,
+  client: any = supabase
+): Promise<Map<string, number>> {
+  const counts = new Map<string, number>();
+  const userIds = [...prefsByUser.keys()];
+
+  // Local midnight is never more than a day back
+  const since = new Date(now.getTime() - DAY_MS).toISOString();
+
+  for (let i = 0; i < userIds.length; i += DELIVERY_BATCH_SIZE) {
+    const ids = userIds.slice(i, i + DELIVERY_BATCH_SIZE);
+    const { data, error } = await client
+      .from('hook_notifications')
+      .select('user_id, push_sent_at')
+      .in('user_id', ids)
+      .gte('push_sent_at', since);
+
+    if (error) {
+      console.warn('[RadarDelivery] Error counting pushes sent today:', error.message);
+      continue;
+    }
+
+    for (const row of data || []) {
+      const dayStart = startOfLocalDay(now, prefsByUser.get(row.user_id)!.timezone);
+      if (new Date(row.push_sent_at) >= dayStart) {
+        counts.set(row.user_id, (counts.get(row.user_id) || 0) + 1);
+      }
+    }
+  }
+
+  return counts;
+}
+
+/** Record held and over-budget alerts so digests and the feed can find them */
+export async function applyDeliveryPlan(plan: RadarDeliveryPlan, client: any = supabase): Promise<void> {
+  const updates: [string, HookNotification[]][] = [['held', plan.held], ['feed_only', plan.feedOnly]];
+
+  for (const [delivery, notifications] of updates) {
+    const ids = notifications.map(n => n.id);
+    for (let i = 0; i < ids.length; i += DELIVERY_BATCH_SIZE) {
+      const { error } = await client
+        .from('hook_notifications')
+        .update({ delivery })
+        .in('id', ids.slice(i, i + DELIVERY_BATCH_SIZE));
+
+      if (error) console.warn(`[RadarDelivery] Error marking alerts ${delivery}:`, error.message);
+    }
+  }
+}
+
+// ============================================================================
+// DIGESTS
+// ============================================================================
+
+/**
+ * Why a user's held alerts should be bundled now, or null to keep waiting.
+ * Never during quiet hours. Digest modes wait until a digest time has passed
+ * since the oldest held alert; instant mode (alerts held overnight) delivers
+ * as soon as quiet hours end.
+ */
+export function getDigestReason(
+  prefs: RadarDeliveryPreferences,
+  now: Date,
+  oldestHeldAt: Date
+): RadarDigestReason | null {
+  if (isInQuietHours(prefs, now)) return null;
+
+  if (prefs.mode === 'instant') return 'quiet_hours';
+
+  const digestAt = getLastDigestTime(prefs, now);
+  if (oldestHeldAt > digestAt) return null;
+  return prefs.mode === 'weekly_digest' ? 'weekly' : 'daily';
+}
+
+const DIGEST_TITLES: Record<RadarDigestReason, string> = {
+  daily: 'Your daily radar digest',
+  weekly: 'Your weekly radar digest',
+  quiet_hours: 'While you were away',
+};
+
+/**
+ * Bundle alerts into a digest row (push title/body and feed card items),
+ * highest-priority radar types first.
+ */
+export function buildRadarDigest(
+  userId: string,
+  reason: RadarDigestReason,
+  candidates: RadarDeliveryCandidate[]
+): Omit<RadarDigest, 'id' | 'status' | 'createdAt'> {
+  const ordered = [...candidates].sort(byPushPriority);
+  const items: RadarDigestItem[] = ordered.map(({ notification, hookType }) => ({
+    notificationId: notification.id,
+    hookId: notification.hookId,
+    hookType,
+    title: notification.title,
+    body: notification.body,
+    venue: notification.eventData?.venue || notification.placeData?.name,
+    date: notification.eventData?.date,
+    imageUrl: notification.eventData?.imageUrl || notification.placeData?.photoUrl,
+  }));
+
+  const names = items.slice(0, DIGEST_BODY_TITLES).map(item => item.title);
+  const extra = items.length - names.length;
+  const count = items.length === 1 ? '1 new radar alert' : `${items.length} new radar alerts`;
+
+  return {
+    userId,
+    reason,
+    title: DIGEST_TITLES[reason],
+    body: `${count}: ${names.join(', ')}${extra > 0 ? ` +${extra} more` : ''}`,
+    notificationIds: items.map(item => item.notificationId),
+    items,
+  };
+}
+
+function mapHeldRow(row: any): HookNotification {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    hookId: row.hook_id,
+    title: row.title,
+    body: row.body,
+    eventData: row.event_data || undefined,
+    proximityData: row.proximity_data || undefined,
+    source: row.source || undefined,
+    status: row.status,
+    delivery: row.delivery,
+    createdAt: row.created_at,
+  };
+}
+
+/** Every alert currently held for a digest, oldest first */
+async function loadHeldNotifications(client: any): Promise<HookNotification[]> {
+  const held: HookNotification[] = [];
+
+  for (let from = 0; ; from += DELIVERY_BATCH_SIZE) {
+    const { data, error } = await client
+      .from('hook_notifications')
+      .select('*')
+      .eq('delivery', 'held')
+      .order('created_at', { ascending: true })
+      .range(from, from + DELIVERY_BATCH_SIZE - 1);
+
+    if (error) throw new Error(`Loading held alerts failed: ${error.message}`);
+    held.push(...(data || []).map(mapHeldRow));
+    if (!data || data.length < DELIVERY_BATCH_SIZE) break;
+  }
+
+  return held;
+}
+
+async function loadByIds(client: any, table: string, columns: string, ids: string[]): Promise<any[]> {
+  const rows: any[] = [];
+  for (let i = 0; i < ids.length; i += DELIVERY_BATCH_SIZE) {
+    const { data, error } = await client.from(table).select(columns).in('id', ids.slice(i, i + DELIVERY_BATCH_SIZE));
+    if (error) throw new Error(`Loading ${table} failed: ${error.message}`);
+    rows.push(...(data || []));
+  }
+  return rows;
+}
+
+/**
+ * Bundle every user's held alerts whose digest is due into a radar_digests
+ * row (the feed card) and return the digests to push. Alerts the user
+ * already opened or dismissed are released without being bundled.
+ *
+ * Run on a schedule (the hourly radar sweep) with a service-role client.
+ */
+export async function collectDueDigests(client: any, now: Date = new Date()): Promise<RadarDigestRun> {
+  const run: RadarDigestRun = { digestsCreated: 0, notificationsBundled: 0, pushItems: [] };
+
+  const held = await loadHeldNotifications(client);
+  if (held.length === 0) return run;
+
+  const byUser = new Map<string, HookNotification[]>();
+  for (const notification of held) {
+    if (!byUser.has(notification.userId)) byUser.set(notification.userId, []);
+    byUser.get(notification.userId)!.push(notification);
+  }
+
+  const users = new Map(
+    (await loadByIds(client, 'users', 'id, subscription_tier, expo_push_token, radar_delivery, timezone', [...byUser.keys()]))
+      .map(user => [user.id, user])
+  );
+  const hookTypes = new Map<string, HookType>(
+    (await loadByIds(client, 'user_hooks', 'id, hook_type', [...new Set(held.map(n => n.hookId))]))
+      .map(hook => [hook.id, hook.hook_type])
+  );
+
+  for (const [userId, notifications] of byUser) {
+    const user = users.get(userId);
+    const prefs = normalizeRadarDelivery(user?.radar_delivery, user?.timezone);
+    const reason = getDigestReason(prefs, now, new Date(notifications[0].createdAt));
+    if (!reason) continue;
+
+    const unread = notifications.filter(n => n.status === 'pending' || n.status === 'sent');
+    const released = notifications.filter(n => !unread.includes(n)).map(n => n.id);
+
+    if (released.length > 0) {
+      await client.from('hook_notifications').update({ delivery: 'digested' }).in('id', released);
+    }
+    if (unread.length === 0) continue;
+
+    const digest = buildRadarDigest(
+      userId,
+      reason,
+      unread.map(notification => ({ notification, hookType: hookTypes.get(notification.hookId) }))
+    );
+
+    const { data: inserted, error } = await client
+      .from('radar_digests')
+      .insert({
+        user_id: digest.userId,
+        reason: digest.reason,
+        title: digest.title,
+        body: digest.body,
+        notification_ids: digest.notificationIds,
+        items: digest.items,
+        status: 'pending',
+      })
+      .select('id, created_at')
+      .single();
+
+    if (error || !inserted) {
+      console.error('[RadarDelivery] Error creating digest:', error);
+      continue;
+    }
+
+    await client
+      .from('hook_notifications')
+      .update({ delivery: 'digested', digest_id: inserted.id })
+      .in('id', digest.notificationIds);
+
+    run.digestsCreated++;
+    run.notificationsBundled += unread.length;
+
+    const tier = user?.subscription_tier === 'plus' ? 'plus' : 'free';
+    if (user?.expo_push_token && RADAR_LIMITS[tier].pushNotifications) {
+      run.pushItems.push({
+        digest: { ...digest, id: inserted.id, status: 'pending', createdAt: inserted.created_at },
+        pushToken: user.expo_push_token,
+      });
+    }
+  }
+
+  return run;
+}
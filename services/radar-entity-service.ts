@@ -0,0 +1,346 @@
+/**
+ * Radar Entity Service — Entity Resolution & False-Positive Feedback
+ *
+ * Artist and venue radars used to match by keyword, so "Phoenix" the band
+ * matched every event in Phoenix, AZ. Radars now point at a canonical ID:
+ * - Artists: Ticketmaster attraction ID
+ * - Venues: Ticketmaster venue ID, or a Google place_id when Ticketmaster
+ *   doesn't list the venue
+ * The add-radar sheet shows the candidates so the user can pick which one
+ * they meant; a confident match is picked automatically.
+ *
+ * Radars without an ID (created before resolution, or no match) still use
+ * keyword search, narrowed to events whose performers or venue match the name.
+ *
+ * "This isn't what I meant" on an alert stores a SuppressedMatch on the
+ * radar; later events like it (same listing, same performer, or a similar
+ * name) are skipped for that radar only.
+ */
+
+import type {
+  CachedEvent,
+  HookNotification,
+  HookType,
+  RadarCity,
+  RadarEntityCandidate,
+  SuppressedMatch,
+  UserHook,
+} from '@/types/radar';
+import { searchPlacesByText } from '@/services/places-text-search';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const TICKETMASTER_API_KEY = process.env.EXPO_PUBLIC_TICKETMASTER_API_KEY;
+const TICKETMASTER_BASE = 'https://app.ticketmaster.com/discovery/v2';
+
+export const RADAR_ENTITY_CONFIG = {
+  /** Candidates shown in the picker */
+  maxCandidates: 6,
+  /** Auto-pick when the top candidate scores at least this... */
+  confidentScore: 0.9,
+  /** ...and beats the runner-up by this much */
+  confidentMargin: 0.1,
+  /** Rejected alerts kept per radar (newest first) */
+  maxSuppressedMatches: 50,
+  /** Word overlap at which an event counts as "like" a rejected one */
+  suppressSimilarity: 0.5,
+  /** Google Places search radius for venue fallback (meters) */
+  placesRadius: 25000,
+};
+
+/** Venues with no city to bias towards are searched around Dallas */
+const DEFAULT_SEARCH_LOCATION = { lat: 32.7767, lng: -96.7970 };
+
+// ============================================================================
+// NAME MATCHING
+// ============================================================================
+
+/** Lowercase, no accents or punctuation, "&" → "and", no leading "the" */
+export function normalizeEntityName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(/^the\s+/, '');
+}
+
+function bigrams(text: string): string[] {
+  const compact = text.replace(/\s+/g, '');
+  const pairs: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) pairs.push(compact.slice(i, i + 2));
+  return pairs;
+}
+
+/**
+ * Fuzzy name similarity (0-1): Dice coefficient over character bigrams of
+ * the normalized names. Tolerates typos and spacing ("Beyonce" / "Beyoncé",
+ * "Deadmau5" / "deadmau 5") while keeping "Phoenix" and "Phoenix Suns" apart.
+ */
+export function entityNameSimilarity(a: string, b: string): number {
+  const normA = normalizeEntityName(a);
+  const normB = normalizeEntityName(b);
+  if (!normA || !normB) return 0;
+  if (normA === normB) return 1;
+
+  const pairsA = bigrams(normA);
+  const pairsB = bigrams(normB);
+  if (pairsA.length === 0 || pairsB.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  for (const pair of pairsA) counts.set(pair, (counts.get(pair) || 0) + 1);
+
+  let shared = 0;
+  for (const pair of pairsB) {
+    const count = counts.get(pair) || 0;
+    if (count > 0) {
+      shared++;
+      counts.set(pair, count - 1);
+    }
+  }
+
+  return (2 * shared) / (pairsA.length + pairsB.length);
+}
+
+/** Best match first; ties keep the source's order (its own relevance) */
+export function rankEntityCandidates(candidates: RadarEntityCandidate[]): RadarEntityCandidate[] {
+  return candidates
+    .map((candidate, index) => ({ candidate, index }))
+    .sort((a, b) => b.candidate.score - a.candidate.score || a.index - b.index)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * The candidate to use without asking, or null when the user should pick:
+ * the top match must be near-exact and clearly ahead of the next one.
+ */
+export function pickConfidentCandidate(candidates: RadarEntityCandidate[]): RadarEntityCandidate | null {
+  const [top, runnerUp] = rankEntityCandidates(candidates);
+  if (!top || top.score < RADAR_ENTITY_CONFIG.confidentScore) return null;
+  if (runnerUp && top.score - runnerUp.score < RADAR_ENTITY_CONFIG.confidentMargin) return null;
+  return top;
+}
+
+function wordSet(text: string): Set<string> {
+  return new Set(normalizeEntityName(text).split(' ').filter(w => w.length >= 2));
+}
+
+function containsWords(haystack: string, needle: string): boolean {
+  const normHaystack = ` ${normalizeEntityName(haystack)} `;
+  const normNeedle = normalizeEntityName(needle);
+  return !!normNeedle && normHaystack.includes(` ${normNeedle} `);
+}
+
+/**
+ * Whether a keyword-search result is actually by the named artist.
+ * Ticketmaster events list their performers; one of them has to be the
+ * artist. Events cached before performers were recorded can't be checked
+ * and are kept.
+ */
+export function matchesPerformer(event: CachedEvent, artistName: string): boolean {
+  if (!artistName.trim()) return false;
+  if (!event.performers?.length) return true;
+  return event.performers.some(p => entityNameSimilarity(p, artistName) >= RADAR_ENTITY_CONFIG.confidentScore);
+}
+
+/** Whether a keyword-search result is at the named venue */
+export function matchesVenueName(event: CachedEvent, venueName: string): boolean {
+  if (!event.venue || !venueName.trim()) return false;
+  return containsWords(event.venue, venueName)
+    || containsWords(venueName, event.venue)
+    || entityNameSimilarity(event.venue, venueName) >= RADAR_ENTITY_CONFIG.confidentScore;
+}
+
+// ============================================================================
+// CANDIDATE SEARCH
+// ============================================================================
+
+async function fetchTicketmaster(path: string, params: Record<string, string>): Promise<any | null> {
+  if (!TICKETMASTER_API_KEY) {
+    console.warn('[RadarEntity] No Ticketmaster API key — skipping search');
+    return null;
+  }
+
+  const query = new URLSearchParams({ apikey: TICKETMASTER_API_KEY, ...params });
+  try {
+    const response = await fetch(`${TICKETMASTER_BASE}/${path}?${query}`);
+    if (!response.ok) {
+      console.error('[RadarEntity] Ticketmaster search failed:', response.status);
+      return null;
+    }
+    return await response.json();
+  } catch (err) {
+    console.error('[RadarEntity] Ticketmaster search error:', err);
+    return null;
+  }
+}
+
+function pickImage(images: any[] | undefined): string | undefined {
+  if (!images?.length) return undefined;
+  const square = images.find((img: any) => img.ratio === '1_1' || img.ratio === '4_3');
+  return (square || images[0])?.url;
+}
+
+/** Ticketmaster attractions (performers) named like the query */
+export async function searchArtistCandidates(query: string): Promise<RadarEntityCandidate[]> {
+  if (!query.trim()) return [];
+
+  const json = await fetchTicketmaster('attractions.json', {
+    keyword: query.trim(),
+    size: String(RADAR_ENTITY_CONFIG.maxCandidates * 2),
+  });
+  const attractions: any[] = json?._embedded?.attractions || [];
+
+  const candidates = attractions
+    .filter(a => a?.id && a?.name)
+    .map((a): RadarEntityCandidate => {
+      const classification = a.classifications?.[0];
+      const subtitle = [classification?.genre?.name, classification?.segment?.name]
+        .filter(part => part && part !== 'Undefined')
+        .join(' · ');
+      return {
+        id: a.id,
+        source: 'ticketmaster_attraction',
+        name: a.name,
+        subtitle: subtitle || undefined,
+        imageUrl: pickImage(a.images),
+        score: entityNameSimilarity(query, a.name),
+      };
+    });
+
+  return rankEntityCandidates(candidates).slice(0, RADAR_ENTITY_CONFIG.maxCandidates);
+}
+
+/**
+ * Venues named like the query. Ticketmaster venues first (their IDs match
+ * events directly); when Ticketmaster has none, Google Places near the city.
+ * Venues in the given city rank ahead of same-named venues elsewhere.
+ */
+export async function searchVenueCandidates(query: string, city?: RadarCity): Promise<RadarEntityCandidate[]> {
+  if (!query.trim()) return [];
+
+  const params: Record<string, string> = {
+    keyword: query.trim(),
+    size: String(RADAR_ENTITY_CONFIG.maxCandidates * 2),
+  };
+  if (city?.state) params.stateCode = city.state;
+
+  const json = await fetchTicketmaster('venues.json', params);
+  const venues: any[] = json?._embedded?.venues || [];
+  const wantedCity = city ? normalizeEntityName(city.city) : null;
+  const inCity = (v: any) => !!wantedCity && !!v?.city?.name && normalizeEntityName(v.city.name) === wantedCity;
+
+  // Same-named venues in the radar's city first (ranking keeps ties in order)
+  const candidates = [...venues.filter(inCity), ...venues.filter(v => !inCity(v))]
+    .filter(v => v?.id && v?.name)
+    .map((v): RadarEntityCandidate => ({
+      id: v.id,
+      source: 'ticketmaster_venue',
+      name: v.name,
+      subtitle: [v.city?.name, v.state?.stateCode].filter(Boolean).join(', ') || undefined,
+      imageUrl: pickImage(v.images),
+      score: entityNameSimilarity(query, v.name),
+    }));
+
+  if (candidates.length > 0) {
+    return rankEntityCandidates(candidates).slice(0, RADAR_ENTITY_CONFIG.maxCandidates);
+  }
+
+  const location = city?.lat != null && city?.lng != null
+    ? { lat: city.lat, lng: city.lng }
+    : DEFAULT_SEARCH_LOCATION;
+  const places = await searchPlacesByText({
+    query: query.trim(),
+    location,
+    radius: RADAR_ENTITY_CONFIG.placesRadius,
+    maxResults: RADAR_ENTITY_CONFIG.maxCandidates,
+  });
+
+  return rankEntityCandidates(places.map((p): RadarEntityCandidate => ({
+    id: p.place_id,
+    source: 'google_place',
+    name: p.name,
+    subtitle: p.formatted_address || p.vicinity || undefined,
+    score: entityNameSimilarity(query, p.name),
+  })));
+}
+
+/** Picker candidates for an artist or venue radar; other types have none */
+export async function searchRadarEntities(
+  hookType: HookType,
+  query: string,
+  city?: RadarCity
+): Promise<RadarEntityCandidate[]> {
+  switch (hookType) {
+    case 'artist':
+      return searchArtistCandidates(query);
+    case 'venue':
+      return searchVenueCandidates(query, city);
+    default:
+      return [];
+  }
+}
+
+// ============================================================================
+// FALSE POSITIVES
+// ============================================================================
+
+/** What to remember about an alert the user rejected */
+export function buildSuppressedMatch(notification: HookNotification, now: Date = new Date()): SuppressedMatch {
+  const event = notification.eventData;
+  return {
+    eventKey: notification.eventKey,
+    name: event?.name || notification.title,
+    venue: event?.venue,
+    attractionIds: event?.attractionIds?.length ? event.attractionIds : undefined,
+    createdAt: now.toISOString(),
+  };
+}
+
+/** Newest first, without repeats, capped */
+export function addSuppressedMatch(existing: SuppressedMatch[], match: SuppressedMatch): SuppressedMatch[] {
+  const rest = existing.filter(s => !(match.eventKey && s.eventKey === match.eventKey) && s.name !== match.name);
+  return [match, ...rest].slice(0, RADAR_ENTITY_CONFIG.maxSuppressedMatches);
+}
+
+/**
+ * Whether an event is like one the user rejected for this radar:
+ * - the same listing
+ * - a performer from the rejected event (other than the radar's own artist)
+ * - a similar name, ignoring the words of the radar's own name ("Phoenix
+ *   Suns vs. Lakers" after rejecting "Phoenix Suns vs. Mavericks" shares
+ *   little once "Phoenix" is dropped, so that case relies on performers)
+ */
+export function isSuppressedMatch(event: CachedEvent, hook: Pick<UserHook, 'entityId' | 'entityName' | 'suppressedMatches'>): boolean {
+  const suppressed = hook.suppressedMatches || [];
+  if (suppressed.length === 0) return false;
+
+  const ownWords = wordSet(hook.entityName || '');
+  const eventWords = [...wordSet(event.name)].filter(w => !ownWords.has(w));
+  const eventAttractions = new Set((event.attractionIds || []).filter(id => id !== hook.entityId));
+
+  return suppressed.some(match => {
+    if (match.eventKey && match.eventKey === event.id) return true;
+
+    if (match.attractionIds?.some(id => eventAttractions.has(id))) return true;
+
+    const matchWords = [...wordSet(match.name)].filter(w => !ownWords.has(w));
+    if (matchWords.length === 0 || eventWords.length === 0) return false;
+    const shared = matchWords.filter(w => eventWords.includes(w)).length;
+    const union = new Set([...matchWords, ...eventWords]).size;
+    return shared / union >= RADAR_ENTITY_CONFIG.suppressSimilarity;
+  });
+}
+
+/** Drop events like ones the user rejected for this radar */
+export function filterSuppressedMatches(
+  events: CachedEvent[],
+  hook: Pick<UserHook, 'entityId' | 'entityName' | 'suppressedMatches'>
+): CachedEvent[] {
+  if (!hook.suppressedMatches?.length) return events;
+  return events.filter(event => !isSuppressedMatch(event, hook));
+}
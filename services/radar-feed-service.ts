@@ -0,0 +1,288 @@
+/**
+ * Radar Feed Service — Meetup RSS / iCal Sources
+ *
+ * Category and keyword radars also match community events from per-city
+ * feeds: Meetup group RSS feeds and public iCal calendars (libraries, run
+ * clubs, makerspaces). Feeds are listed in radar_feeds (migration 042) with
+ * the interest categories their events belong to.
+ *
+ * Every feed in a city is fetched together and cached as one event list
+ * (source 'meetup_rss'); each radar then filters that list, so a city's
+ * feeds are read once no matter how many radars watch them.
+ */
+
+import { supabase } from '@/lib/supabase';
+import type { CachedEvent, UserHook } from '@/types/radar';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RadarFeedFormat = 'rss' | 'ical';
+
+export interface RadarFeed {
+  id: string;
+  name: string;
+  url: string;
+  format: RadarFeedFormat;
+  city: string;
+  state: string;
+  /** Interest categories every event in the feed belongs to */
+  categories: string[];
+}
+
+// ============================================================================
+// TEXT HELPERS
+// ============================================================================
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+function decodeXmlText(text: string): string {
+  return text
+    .replace(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/, '$1')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&(\w+);/g, (match, name) => XML_ENTITIES[name] ?? match)
+    .trim();
+}
+
+function stripHtml(html: string): string {
+  return html.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** Lowercase words for matching; 'live_music' and 'Live Music' compare equal */
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[_\W]+/g, ' ').trim();
+}
+
+// ============================================================================
+// RSS
+// ============================================================================
+
+function readTag(item: string, tag: string): string | undefined {
+  const match = item.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i'));
+  return match ? decodeXmlText(match[1]) : undefined;
+}
+
+function readAllTags(item: string, tag: string): string[] {
+  const matches = item.matchAll(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'gi'));
+  return [...matches].map(m => decodeXmlText(m[1])).filter(Boolean);
+}
+
+/**
+ * Parse an RSS 2.0 feed into events. The event start comes from the RSS
+ * event module (<ev:startdate>) when present; plain Meetup feeds only have
+ * <pubDate>, which Meetup sets to the event time.
+ */
+export function parseRssFeed(xml: string, feed: RadarFeed): CachedEvent[] {
+  const items = xml.match(/<item[\s>][\s\S]*?<\/item>/gi) || [];
+  const events: CachedEvent[] = [];
+
+  for (const item of items) {
+    const name = readTag(item, 'title');
+    const start = new Date(readTag(item, 'ev:startdate') || readTag(item, 'pubDate') || '');
+    if (!name || isNaN(start.getTime())) continue;
+
+    const link = readTag(item, 'link');
+    const location = readTag(item, 'ev:location');
+    const description = readTag(item, 'description');
+
+    events.push({
+      id: `rss:${readTag(item, 'guid') || link || `${feed.id}:${name}:${toDateString(start)}`}`,
+      name,
+      venue: location?.split(',')[0].trim() || undefined,
+      address: location || undefined,
+      city: feed.city,
+      date: toDateString(start),
+      time: start.toISOString().slice(11, 19),
+      ticketUrl: link,
+      description: description ? stripHtml(description) : undefined,
+      tags: [...feed.categories, ...readAllTags(item, 'category')],
+      source: 'meetup_rss',
+    });
+  }
+
+  return events;
+}
+
+// ============================================================================
+// ICAL
+// ============================================================================
+
+function unescapeICalText(text: string): string {
+  return text
+    .replace(/\\n/gi, '\n')
+    .replace(/\\([,;\\])/g, '$1')
+    .trim();
+}
+
+/**
+ * DTSTART as date and time. Floating and TZID times are kept as written
+ * (local to the feed's city); UTC ('Z') times are kept in UTC.
+ */
+function parseICalDate(value: string): { date: string; time?: string } | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2}))?/);
+  if (!match) return null;
+  const [, y, m, d, hh, mm, ss] = match;
+  return { date: `${y}-${m}-${d}`, time: hh ? `${hh}:${mm}:${ss}` : undefined };
+}
+
+/** Parse an iCalendar (RFC 5545) feed's VEVENTs into events */
+export function parseICalFeed(ics: string, feed: RadarFeed): CachedEvent[] {
+  // Unfold continuation lines (CRLF followed by a space or tab)
+  const lines = ics.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: CachedEvent[] = [];
+  let props: Record<string, string> | null = null;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      props = {};
+      continue;
+    }
+    if (line === 'END:VEVENT') {
+      const event = props && icalPropsToEvent(props, feed);
+      if (event) events.push(event);
+      props = null;
+      continue;
+    }
+    if (!props) continue;
+
+    const colon = line.indexOf(':');
+    if (colon < 0) continue;
+    // Drop parameters: "DTSTART;TZID=America/Chicago" → "DTSTART"
+    const key = line.slice(0, colon).split(';')[0].toUpperCase();
+    if (!(key in props)) props[key] = line.slice(colon + 1);
+  }
+
+  return events;
+}
+
+function icalPropsToEvent(props: Record<string, string>, feed: RadarFeed): CachedEvent | null {
+  const name = props.SUMMARY ? unescapeICalText(props.SUMMARY) : '';
+  const start = props.DTSTART ? parseICalDate(props.DTSTART) : null;
+  if (!name || !start) return null;
+  if ((props.STATUS || '').toUpperCase() === 'CANCELLED') return null;
+
+  const location = props.LOCATION ? unescapeICalText(props.LOCATION) : undefined;
+  const categories = props.CATEGORIES
+    ? unescapeICalText(props.CATEGORIES).split(',').map(c => c.trim()).filter(Boolean)
+    : [];
+
+  return {
+    id: `ical:${props.UID || `${feed.id}:${name}:${start.date}`}`,
+    name,
+    venue: location?.split(',')[0].trim() || undefined,
+    address: location || undefined,
+    city: feed.city,
+    date: start.date,
+    time: start.time,
+    ticketUrl: props.URL || undefined,
+    description: props.DESCRIPTION ? unescapeICalText(props.DESCRIPTION) : undefined,
+    tags: [...feed.categories, ...categories],
+    source: 'meetup_rss',
+  };
+}
+
+// ============================================================================
+// FETCHING
+// ============================================================================
+
+/** Active feeds for a city */
+export async function loadRadarFeeds(city: string, state: string): Promise<RadarFeed[]> {
+  const { data, error } = await supabase
+    .from('radar_feeds')
+    .select('*')
+    .eq('city', city)
+    .eq('state', state)
+    .eq('is_active', true);
+
+  if (error) {
+    console.warn('[RadarFeeds] Error loading feeds:', error);
+    return [];
+  }
+
+  return ((data || []) as any[]).map(row => ({
+    id: row.id,
+    name: row.name,
+    url: row.url,
+    format: row.format === 'ical' ? 'ical' : 'rss',
+    city: row.city,
+    state: row.state,
+    categories: row.categories || [],
+  }));
+}
+
+/** Upcoming events from one feed; a broken feed yields none */
+export async function fetchFeedEvents(feed: RadarFeed, now: Date = new Date()): Promise<CachedEvent[]> {
+  try {
+    const response = await fetch(feed.url);
+    if (!response.ok) {
+      console.warn('[RadarFeeds] Feed request failed:', feed.url, response.status);
+      return [];
+    }
+
+    const text = await response.text();
+    const events = feed.format === 'ical' ? parseICalFeed(text, feed) : parseRssFeed(text, feed);
+    const today = toDateString(now);
+
+    return events.filter(e => e.date >= today);
+  } catch (err) {
+    console.warn('[RadarFeeds] Error reading feed:', feed.url, err);
+    return [];
+  }
+}
+
+/** Upcoming events from every feed in a city, soonest first */
+export async function searchCityFeeds(city: string, state: string): Promise<CachedEvent[]> {
+  const feeds = await loadRadarFeeds(city, state);
+  const events: CachedEvent[] = [];
+
+  for (const feed of feeds) {
+    events.push(...await fetchFeedEvents(feed));
+  }
+
+  return events.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+/**
+ * Feed events relevant to a radar. Category radars match a feed/item
+ * category or the category name in the text; keyword radars match the
+ * keyword in the title, description or venue.
+ */
+export function filterFeedEventsForHook(
+  events: CachedEvent[],
+  hook: Pick<UserHook, 'hookType' | 'category' | 'entityName' | 'searchKeyword'>
+): CachedEvent[] {
+  const term = hook.hookType === 'category'
+    ? hook.category || hook.entityName
+    : hook.hookType === 'keyword'
+      ? hook.searchKeyword || hook.entityName
+      : undefined;
+  if (!term) return [];
+
+  const needle = normalizeText(term);
+  if (!needle) return [];
+
+  return events.filter(event => {
+    if (hook.hookType === 'category' && (event.tags || []).some(tag => normalizeText(tag) === needle)) {
+      return true;
+    }
+    const text = normalizeText([event.name, event.description, event.venue].filter(Boolean).join(' '));
+    return ` ${text} `.includes(` ${needle} `);
+  });
+}
@@ -6,14 +6,32 @@
  * - Uses event_cache table with event-date TTL (NOT 24-hour TTL)
  * - Batch queries by city for Ticketmaster (1 call = hundreds of events)
  * - Diffs new vs. cached events to only notify about NEW announcements
+ * - Film talent radars use TMDb theatrical releases (see tmdb-service.ts)
+ * - Artist radars also check Bandsintown; category and keyword radars also
+ *   check per-city Meetup RSS / iCal feeds. The same show from two sources
+ *   is merged so it only notifies once.
+ * - Artist and venue radars with a resolved Ticketmaster ID query by ID;
+ *   older name-only radars are narrowed to the named performer or venue,
+ *   and alerts the user rejected are skipped (see radar-entity-service.ts)
+ *
+ * Event radars are swept server-side on a schedule (see radar-sweep.ts);
+ * pollRadarsForUser is the per-user path for proximity radars and keyword
+ * radars' places.
  *
  * Cost at 10K users: ~$0/month (well within Ticketmaster free tier)
  */
 
 import { supabase } from '@/lib/supabase';
-import type { UserHook, HookType, CachedEvent, RadarEventData, PlaceRadarData, HookNotification } from '@/types/radar';
+import type { UserHook, HookType, CachedEvent, EventPresale, EventSaleStatus, RadarCity, RadarEventData, PlaceRadarData, HookNotification } from '@/types/radar';
 import { sendRadarPushNotification } from '@/services/radar-push-service';
 import { searchPlacesByText } from '@/services/places-text-search';
+import { pollProximityRadarsForUser } from '@/services/friend-proximity';
+import { detectUserCityWithFallback } from '@/services/city-detection';
+import { calculateDistance } from '@/utils/route-calculations';
+import { FILM_RADAR_CONFIG, findTheatricalReleases, resolveTalent } from '@/services/tmdb-service';
+import { isBandsintownConfigured, searchBandsintownArtistEvents } from '@/services/bandsintown-service';
+import { filterFeedEventsForHook, searchCityFeeds } from '@/services/radar-feed-service';
+import { filterSuppressedMatches, matchesPerformer, matchesVenueName } from '@/services/radar-entity-service';
 import type { PlaceResult } from '@/services/places-common';
 import type { SubscriptionTier } from '@/types/subscription';
 
@@ -29,6 +47,10 @@ const TM_PAGE_SIZE = 50;
 
 /** Default city for queries when user's city is unknown */
 const DEFAULT_CITY = 'Dallas';
+export const DEFAULT_RADAR_CITY: RadarCity = { city: DEFAULT_CITY, state: 'TX', lat: 32.7767, lng: -96.7970 };
+
+/** Watch cities within this many miles of home are called a day trip in alerts */
+const DAY_TRIP_MILES = 120;
 
 /** How far ahead to search for events (90 days) */
 const SEARCH_WINDOW_DAYS = 90;
@@ -51,6 +73,96 @@ async function rateLimitedFetch(url: string): Promise<Response> {
   return fetch(url);
 }
 
+// ============================================================================
+// CITIES
+// ============================================================================
+
+/**
+ * City part of a cache key: San Antonio, TX → "san_antonio_tx". The state
+ * keeps same-named cities (Portland OR and Portland ME) apart.
+ */
+export function cityCacheSlug({ city, state }: Pick<RadarCity, 'city' | 'state'>): string {
+  return [city, state].filter(Boolean).join(' ').toLowerCase().replace(/\s+/g, '_');
+}
+
+/**
+ * Resolve the user's home city for radar polling via city detection
+ * (home, then work, then last known location). Falls back to DEFAULT_CITY.
+ */
+export async function resolveRadarHomeCity(userId: string): Promise<RadarCity> {
+  try {
+    const { data: user, error } = await supabase
+      .from('users')
+      .select('*')
+      .eq('id', userId)
+      .single();
+
+    if (error || !user) return DEFAULT_RADAR_CITY;
+
+    const cityInfo = await detectUserCityWithFallback(user);
+    if (!cityInfo) return DEFAULT_RADAR_CITY;
+
+    return { city: cityInfo.city, state: cityInfo.state, lat: cityInfo.lat, lng: cityInfo.lng };
+  } catch (err) {
+    console.warn('[RadarPolling] Error resolving home city, using default:', err);
+    return DEFAULT_RADAR_CITY;
+  }
+}
+
+/** Cities a radar is evaluated in: home first, then its watch cities */
+export function getHookCities(hook: Pick<UserHook, 'watchCities'>, homeCity: RadarCity): RadarCity[] {
+  const cities = [homeCity];
+  const seen = new Set([cityCacheSlug(homeCity)]);
+
+  for (const city of hook.watchCities || []) {
+    if (!city?.city || !city.state) continue;
+    const key = cityCacheSlug(city);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    cities.push(city);
+  }
+
+  return cities;
+}
+
+/** Straight-line miles between two cities, when both have coordinates */
+export function getTravelMiles(from: RadarCity, to: RadarCity): number | undefined {
+  if (from.lat == null || from.lng == null || to.lat == null || to.lng == null) return undefined;
+  return Math.round(calculateDistance(
+    { latitude: from.lat, longitude: from.lng },
+    { latitude: to.lat, longitude: to.lng }
+  ));
+}
+
+/**
+ * Notification body for an event alert. Events in a watch city say where,
+ * and how far that is from home:
+ *   "House of Blues, 2026-05-01 - From $45"
+ *   "Stubb's, Austin (195 mi · weekend trip), 2026-05-01 - From $45"
+ */
+export function buildEventAlertBody(
+  event: CachedEvent,
+  city: RadarCity,
+  homeCity: RadarCity
+): string {
+  if (event.source === 'tmdb') {
+    return `In theaters ${event.date}`;
+  }
+
+  const priceText = event.priceMin ? `From $${event.priceMin}` : 'Free';
+  const venue = event.venue || 'TBD';
+
+  if (city === homeCity) {
+    return `${venue}, ${event.date} - ${priceText}`;
+  }
+
+  const miles = getTravelMiles(homeCity, city);
+  const trip = miles === undefined
+    ? ''
+    : ` (${miles} mi · ${miles <= DAY_TRIP_MILES ? 'day trip' : 'weekend trip'})`;
+  return `${venue}, ${city.city}${trip}, ${event.date} - ${priceText}`;
+}
+
 // ============================================================================
 // EVENT CACHE
 // ============================================================================
@@ -81,17 +193,18 @@ export async function getCachedEvents(cacheKey: string): Promise<CachedEvent[] |
 }
 
 /**
- * Update the event cache for a given entity.
+ * event_cache row for an entity's events.
  * Sets expires_at to the latest event date + 1 day.
  */
-export async function updateEventCache(
+export function buildEventCacheRow(
   cacheKey: string,
   source: string,
   entityType: string,
   entityName: string,
   events: CachedEvent[],
-  city?: string
-): Promise<void> {
+  city?: string,
+  now: Date = new Date()
+): Record<string, unknown> {
   // Calculate expires_at from latest event date
   let expiresAt: string | null = null;
   if (events.length > 0) {
@@ -103,30 +216,44 @@ export async function updateEventCache(
     expiresAt = expiry.toISOString();
   } else {
     // No events found — re-check in 7 days
-    const expiry = new Date();
+    const expiry = new Date(now);
     expiry.setDate(expiry.getDate() + 7);
     expiresAt = expiry.toISOString();
   }
 
   // Weekly re-check for new announcements
-  const nextFetch = new Date();
+  const nextFetch = new Date(now);
   nextFetch.setDate(nextFetch.getDate() + 7);
 
+  return {
+    cache_key: cacheKey,
+    source,
+    entity_type: entityType,
+    entity_name: entityName,
+    events,
+    location_city: city || DEFAULT_CITY,
+    last_fetched_at: now.toISOString(),
+    next_fetch_at: nextFetch.toISOString(),
+    expires_at: expiresAt,
+  };
+}
+
+/**
+ * Update the event cache for a given entity.
+ */
+export async function updateEventCache(
+  cacheKey: string,
+  source: string,
+  entityType: string,
+  entityName: string,
+  events: CachedEvent[],
+  city?: string
+): Promise<void> {
   try {
     await supabase
       .from('event_cache')
       .upsert(
-        {
-          cache_key: cacheKey,
-          source,
-          entity_type: entityType,
-          entity_name: entityName,
-          events,
-          location_city: city || DEFAULT_CITY,
-          last_fetched_at: new Date().toISOString(),
-          next_fetch_at: nextFetch.toISOString(),
-          expires_at: expiresAt,
-        },
+        buildEventCacheRow(cacheKey, source, entityType, entityName, events, city),
         { onConflict: 'cache_key' }
       );
   } catch (err) {
@@ -223,6 +350,80 @@ export async function searchTicketmasterByVenue(
   }
 }
 
+/**
+ * Search Ticketmaster for a performer's events near a city by attraction ID.
+ * Used for artist radars resolved to a Ticketmaster attraction.
+ */
+export async function searchTicketmasterByAttractionId(
+  attractionId: string,
+  city: string = DEFAULT_CITY,
+  stateCode: string = 'TX'
+): Promise<CachedEvent[]> {
+  if (!TICKETMASTER_API_KEY) return [];
+
+  const startDate = new Date().toISOString().split('.')[0] + 'Z';
+  const endDate = new Date(Date.now() + SEARCH_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+    .toISOString()
+    .split('.')[0] + 'Z';
+
+  const params = new URLSearchParams({
+    apikey: TICKETMASTER_API_KEY,
+    attractionId,
+    city,
+    stateCode,
+    startDateTime: startDate,
+    endDateTime: endDate,
+    size: String(TM_PAGE_SIZE),
+    sort: 'date,asc',
+  });
+
+  const url = `${TICKETMASTER_BASE}/events.json?${params}`;
+
+  try {
+    const response = await rateLimitedFetch(url);
+    if (!response.ok) {
+      console.error('[RadarPolling] Ticketmaster attraction search failed:', response.status);
+      return [];
+    }
+    const json = await response.json();
+    const events = json?._embedded?.events || [];
+    return events.map(transformTicketmasterEvent).filter(Boolean) as CachedEvent[];
+  } catch (err) {
+    console.error('[RadarPolling] Ticketmaster attraction search error:', err);
+    return [];
+  }
+}
+
+/**
+ * Search Ticketmaster for events at a venue by venue ID.
+ * Used for venue radars resolved to a Ticketmaster venue (no city needed).
+ */
+export async function searchTicketmasterByVenueId(venueId: string): Promise<CachedEvent[]> {
+  if (!TICKETMASTER_API_KEY) return [];
+
+  const startDate = new Date().toISOString().split('.')[0] + 'Z';
+
+  const params = new URLSearchParams({
+    apikey: TICKETMASTER_API_KEY,
+    venueId,
+    startDateTime: startDate,
+    size: String(TM_PAGE_SIZE),
+    sort: 'date,asc',
+  });
+
+  const url = `${TICKETMASTER_BASE}/events.json?${params}`;
+
+  try {
+    const response = await rateLimitedFetch(url);
+    if (!response.ok) return [];
+    const json = await response.json();
+    const events = json?._embedded?.events || [];
+    return events.map(transformTicketmasterEvent).filter(Boolean) as CachedEvent[];
+  } catch {
+    return [];
+  }
+}
+
 /**
  * Search Ticketmaster for events by category classification.
  * Used for category radars.
@@ -263,9 +464,16 @@ export async function searchTicketmasterByCategory(
 // TRANSFORM HELPERS
 // ============================================================================
 
+/** dates.status.code values kept for sale tracking (see radar-watch-service.ts) */
+const TM_SALE_STATUSES: (EventSaleStatus | undefined)[] = ['onsale', 'offsale', 'cancelled', 'postponed', 'rescheduled'];
+
 function transformTicketmasterEvent(event: any): CachedEvent | null {
   try {
     const venue = event._embedded?.venues?.[0];
+    const attractions: any[] = event._embedded?.attractions || [];
+    const presales: EventPresale[] = (event.sales?.presales || [])
+      .filter((p: any) => p?.name && p?.startDateTime)
+      .map((p: any) => ({ name: p.name, startAt: p.startDateTime, endAt: p.endDateTime || undefined }));
     const priceRanges = event.priceRanges?.[0];
     const images = event.images || [];
 
@@ -293,12 +501,75 @@ function transformTicketmasterEvent(event: any): CachedEvent | null {
       ticketUrl: event.url,
       source: 'ticketmaster',
       category: event.classifications?.[0]?.segment?.name?.toLowerCase(),
+      attractionIds: attractions.length > 0 ? attractions.map(a => a.id) : undefined,
+      performers: attractions.length > 0 ? attractions.map(a => a.name) : undefined,
+      venueId: venue?.id,
+      saleStatus: TM_SALE_STATUSES.includes(event.dates?.status?.code) ? event.dates.status.code : undefined,
+      onSaleAt: event.sales?.public?.startDateTime || undefined,
+      presales: presales.length > 0 ? presales : undefined,
     };
   } catch {
     return null;
   }
 }
 
+// ============================================================================
+// SOURCE MERGING
+// ============================================================================
+
+/** Words that say nothing about which show it is */
+const EVENT_NAME_STOPWORDS = new Set(['the', 'and', 'with', 'live', 'tour', 'show', 'concert', 'presents', 'tickets']);
+
+function significantWords(text: string): Set<string> {
+  return new Set(
+    text.toLowerCase().split(/[^a-z0-9]+/).filter(w => w.length >= 3 && !EVENT_NAME_STOPWORDS.has(w))
+  );
+}
+
+function venueSlug(venue: string): string {
+  return venue.toLowerCase().replace(/^the\s+/, '').replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Whether two listings (from different sources, or an event and an earlier
+ * notification) are the same show: same day, same venue, and names sharing
+ * a significant word ("Taylor Swift | The Eras Tour" vs "Taylor Swift").
+ */
+export function isSameEvent(
+  a: Pick<RadarEventData, 'name' | 'venue' | 'date'>,
+  b: Pick<RadarEventData, 'name' | 'venue' | 'date'>
+): boolean {
+  if (!a.date || !b.date || a.date.slice(0, 10) !== b.date.slice(0, 10)) return false;
+
+  if (a.venue && b.venue) {
+    const venueA = venueSlug(a.venue);
+    const venueB = venueSlug(b.venue);
+    if (!venueA.includes(venueB) && !venueB.includes(venueA)) return false;
+  }
+
+  const wordsA = significantWords(a.name);
+  return [...significantWords(b.name)].some(w => wordsA.has(w));
+}
+
+/**
+ * Combine event lists from several sources, dropping listings of a show an
+ * earlier source already has. Order is kept; earlier sources take precedence
+ * (Ticketmaster first, since it carries prices and ticket links).
+ */
+export function mergeEventSources(sources: CachedEvent[][]): CachedEvent[] {
+  const merged: CachedEvent[] = [];
+
+  for (const events of sources) {
+    const fromEarlierSources = [...merged];
+    for (const event of events) {
+      if (fromEarlierSources.some(existing => isSameEvent(existing, event))) continue;
+      merged.push(event);
+    }
+  }
+
+  return merged.sort((a, b) => a.date.localeCompare(b.date));
+}
+
 // ============================================================================
 // KEYWORD RADAR — PLACE MATCHING
 // ============================================================================
@@ -319,12 +590,12 @@ const KEYWORD_CACHE_DAYS = 7;
 export async function matchHookToPlaces(
   hook: UserHook,
   userLocation?: { lat: number; lng: number },
+  city: Pick<RadarCity, 'city' | 'state'> = DEFAULT_RADAR_CITY,
 ): Promise<PlaceRadarData[]> {
   const keyword = hook.searchKeyword || hook.entityName || '';
   if (!keyword) return [];
 
-  const city = DEFAULT_CITY;
-  const cacheKey = `keyword:${keyword.toLowerCase().replace(/\s+/g, '_')}:${city.toLowerCase()}`;
+  const cacheKey = `keyword:${keyword.toLowerCase().replace(/\s+/g, '_')}:${cityCacheSlug(city)}`;
 
   // Check cache first (7-day TTL)
   const cachedPlaces = await getCachedKeywordResults(cacheKey);
@@ -355,7 +626,7 @@ export async function matchHookToPlaces(
   }));
 
   // Cache for 7 days
-  await cacheKeywordResults(cacheKey, results, keyword);
+  await cacheKeywordResults(cacheKey, results, keyword, city.city);
 
   return results;
 }
@@ -391,6 +662,7 @@ async function cacheKeywordResults(
   cacheKey: string,
   results: PlaceRadarData[],
   keyword: string,
+  city: string,
 ): Promise<void> {
   const expiresAt = new Date();
   expiresAt.setDate(expiresAt.getDate() + KEYWORD_CACHE_DAYS);
@@ -408,7 +680,7 @@ async function cacheKeywordResults(
           entity_type: 'keyword',
           entity_name: keyword,
           events: results as any, // Reuse events JSONB column for place data
-          location_city: DEFAULT_CITY,
+          location_city: city,
           last_fetched_at: new Date().toISOString(),
           next_fetch_at: nextFetch.toISOString(),
           expires_at: expiresAt.toISOString(),
@@ -440,61 +712,222 @@ const CATEGORY_TO_TM_CLASSIFICATION: Record<string, string> = {
 };
 
 /**
- * Match a single radar hook against the event cache.
- * Returns new events that the user hasn't been notified about yet.
+ * TMDb person ID for a film_talent radar. Resolved from the radar's name on
+ * first use and saved to entity_id so later polls skip the search.
+ *
+ * @param client - Supabase client to save with (the sweep passes its service-role client)
  */
-export async function matchHookToEvents(hook: UserHook): Promise<CachedEvent[]> {
-  const city = DEFAULT_CITY; // TODO: use user's city from profile
+export async function resolveFilmTalentId(hook: UserHook, client: any = supabase): Promise<number | null> {
+  const storedId = Number(hook.entityId);
+  if (hook.entityId && Number.isInteger(storedId)) return storedId;
 
-  let cacheKey: string;
-  let fetchFn: () => Promise<CachedEvent[]>;
+  const person = await resolveTalent(hook.entityName || '', hook.talentDepartment);
+  if (!person) {
+    console.warn('[RadarPolling] No TMDb match for film radar:', hook.entityName);
+    return null;
+  }
+
+  hook.entityId = String(person.id);
+  try {
+    await client
+      .from('user_hooks')
+      .update({ entity_id: hook.entityId })
+      .eq('id', hook.id);
+  } catch (err) {
+    console.warn('[RadarPolling] Error saving TMDb person ID:', err);
+  }
+
+  return person.id;
+}
+
+/** One source queried for a radar, with its own event_cache entry */
+export interface EventSourceQuery {
+  cacheKey: string;
+  source: string;
+  entityType: string;
+  entityName: string;
+  cacheCity: string;
+  fetchFn: () => Promise<CachedEvent[]>;
+  /** Narrow a shared cache entry (e.g. a city's feeds) to this radar */
+  filter?: (events: CachedEvent[]) => CachedEvent[];
+}
+
+/**
+ * The sources a radar reads in one city, each with its cache key.
+ * Caches are keyed per city, so users in the same city share them.
+ * Film radars are national (theatrical releases), keyed per person;
+ * radars on a Ticketmaster venue are keyed per venue.
+ */
+export async function buildEventSourceQueries(
+  hook: UserHook,
+  radarCity: RadarCity = DEFAULT_RADAR_CITY,
+  client: any = supabase
+): Promise<EventSourceQuery[]> {
+  const { city, state } = radarCity;
+  const citySlug = cityCacheSlug(radarCity);
+  const entityName = hook.entityName || hook.category || '';
+  const sources: EventSourceQuery[] = [];
+
+  // Community feeds are cached per city and filtered per radar
+  const feedSource: EventSourceQuery = {
+    cacheKey: `feeds:${citySlug}`,
+    source: 'meetup_rss',
+    entityType: 'category',
+    entityName: city,
+    cacheCity: city,
+    fetchFn: () => searchCityFeeds(city, state),
+    filter: events => filterFeedEventsForHook(events, hook),
+  };
 
   switch (hook.hookType) {
-    case 'artist':
-    case 'film_talent': {
+    case 'artist': {
       const name = hook.entityName || '';
-      cacheKey = `artist:${name.toLowerCase().replace(/\s+/g, '_')}:${city.toLowerCase()}`;
-      fetchFn = () => searchTicketmasterByKeyword(name, city);
+      const nameSlug = name.toLowerCase().replace(/\s+/g, '_');
+      if (hook.entitySource === 'ticketmaster_attraction' && hook.entityId) {
+        const attractionId = hook.entityId;
+        sources.push({
+          cacheKey: `artist:tm:${attractionId}:${citySlug}`,
+          source: 'ticketmaster',
+          entityType: hook.hookType,
+          entityName,
+          cacheCity: city,
+          fetchFn: () => searchTicketmasterByAttractionId(attractionId, city, state),
+        });
+      } else {
+        // Keyword search also finds events that merely mention the name
+        sources.push({
+          cacheKey: `artist:${nameSlug}:${citySlug}`,
+          source: 'ticketmaster',
+          entityType: hook.hookType,
+          entityName,
+          cacheCity: city,
+          fetchFn: () => searchTicketmasterByKeyword(name, city, state),
+          filter: events => events.filter(e => matchesPerformer(e, name)),
+        });
+      }
+      if (isBandsintownConfigured()) {
+        sources.push({
+          cacheKey: `bandsintown:${nameSlug}:${citySlug}`,
+          source: 'bandsintown',
+          entityType: hook.hookType,
+          entityName,
+          cacheCity: city,
+          fetchFn: () => searchBandsintownArtistEvents(name, city, state),
+        });
+      }
+      break;
+    }
+    case 'film_talent': {
+      const personId = await resolveFilmTalentId(hook, client);
+      if (!personId) return [];
+      const department = hook.talentDepartment;
+      sources.push({
+        cacheKey: `film:${personId}:${(department || 'any').toLowerCase()}`,
+        source: 'tmdb',
+        entityType: hook.hookType,
+        entityName,
+        cacheCity: FILM_RADAR_CONFIG.region,
+        fetchFn: () => findTheatricalReleases(personId, department),
+      });
       break;
     }
     case 'category': {
       const cat = hook.category || hook.entityName || '';
       const tmClass = CATEGORY_TO_TM_CLASSIFICATION[cat] || cat;
-      cacheKey = `category:${tmClass.toLowerCase()}:${city.toLowerCase()}`;
-      fetchFn = () => searchTicketmasterByCategory(tmClass, city);
+      sources.push({
+        cacheKey: `category:${tmClass.toLowerCase()}:${citySlug}`,
+        source: 'ticketmaster',
+        entityType: hook.hookType,
+        entityName,
+        cacheCity: city,
+        fetchFn: () => searchTicketmasterByCategory(tmClass, city, state),
+      }, feedSource);
       break;
     }
     case 'venue': {
       const venue = hook.entityName || '';
-      cacheKey = `venue:${venue.toLowerCase().replace(/\s+/g, '_')}:${city.toLowerCase()}`;
-      fetchFn = () => searchTicketmasterByVenue(venue, city);
+      if (hook.entitySource === 'ticketmaster_venue' && hook.entityId) {
+        const venueId = hook.entityId;
+        sources.push({
+          cacheKey: `venue:tm:${venueId}`,
+          source: 'ticketmaster',
+          entityType: hook.hookType,
+          entityName,
+          cacheCity: city,
+          fetchFn: () => searchTicketmasterByVenueId(venueId),
+        });
+      } else {
+        // Google-only venues and name-only radars: keyword search, then
+        // keep events actually at the venue
+        sources.push({
+          cacheKey: `venue:${venue.toLowerCase().replace(/\s+/g, '_')}:${citySlug}`,
+          source: 'ticketmaster',
+          entityType: hook.hookType,
+          entityName,
+          cacheCity: city,
+          fetchFn: () => searchTicketmasterByVenue(venue, city, state),
+          filter: events => events.filter(e => matchesVenueName(e, venue)),
+        });
+      }
       break;
     }
     case 'keyword':
-      // Keyword hooks use Places Text Search, not Ticketmaster
-      // Handled separately in pollRadarsForUser
-      return [];
+      // Places come from Places Text Search (matchHookToPlaces); events
+      // only from community feeds
+      sources.push(feedSource);
+      break;
     default:
       return [];
   }
 
-  // Check cache first
-  let events = await getCachedEvents(cacheKey);
-
-  if (!events) {
-    // Cache miss or stale — fetch fresh data
-    events = await fetchFn();
-    await updateEventCache(
-      cacheKey,
-      'ticketmaster',
-      hook.hookType,
-      hook.entityName || hook.category || '',
-      events,
-      city
-    );
+  // Skip events like alerts the user said weren't what they meant
+  if (hook.suppressedMatches?.length) {
+    return sources.map(query => {
+      const sourceFilter = query.filter;
+      return {
+        ...query,
+        filter: (events: CachedEvent[]) => filterSuppressedMatches(sourceFilter ? sourceFilter(events) : events, hook),
+      };
+    });
   }
 
-  return events;
+  return sources;
+}
+
+/**
+ * Match a single radar hook against the event cache for one city.
+ *
+ * Each radar type reads one or more sources; results are merged so a show
+ * listed by two sources comes back once (first source wins).
+ */
+export async function matchHookToEvents(
+  hook: UserHook,
+  radarCity: RadarCity = DEFAULT_RADAR_CITY
+): Promise<CachedEvent[]> {
+  const sources = await buildEventSourceQueries(hook, radarCity);
+  const results: CachedEvent[][] = [];
+  for (const query of sources) {
+    // Check cache first
+    let events = await getCachedEvents(query.cacheKey);
+
+    if (!events) {
+      // Cache miss or stale — fetch fresh data
+      events = await query.fetchFn();
+      await updateEventCache(
+        query.cacheKey,
+        query.source,
+        query.entityType,
+        query.entityName,
+        events,
+        query.cacheCity
+      );
+    }
+
+    results.push(query.filter ? query.filter(events) : events);
+  }
+
+  if (results.length === 0) return [];
+  return results.length === 1 ? results[0] : mergeEventSources(results);
 }
 
 /**
@@ -514,178 +947,136 @@ export function cachedEventToRadarEventData(event: CachedEvent): RadarEventData
     ticketUrl: event.ticketUrl,
     category: event.category,
     source: event.source,
+    attractionIds: event.attractionIds,
+    venueId: event.venueId,
   };
 }
 
 // ============================================================================
-// BATCH POLLING (for server-side cron job)
+// PER-USER POLLING
 // ============================================================================
 
+/** The user_hooks columns event polling reads */
+export function mapHookRowForPolling(hookRow: any): UserHook {
+  return {
+    id: hookRow.id,
+    userId: hookRow.user_id,
+    hookType: hookRow.hook_type,
+    entityName: hookRow.entity_name,
+    entityId: hookRow.entity_id,
+    entitySource: hookRow.entity_source || undefined,
+    category: hookRow.category,
+    talentDepartment: hookRow.talent_department || undefined,
+    searchKeyword: hookRow.search_keyword,
+    watchCities: hookRow.watch_cities || [],
+    suppressedMatches: hookRow.suppressed_matches || [],
+    isActive: hookRow.is_active,
+    lastTriggeredAt: hookRow.last_triggered_at || undefined,
+    triggerCount: hookRow.trigger_count || 0,
+    createdAt: hookRow.created_at,
+    updatedAt: hookRow.updated_at,
+  };
+}
+
 /**
- * Process all active radar hooks for a given user.
- * Matches hooks against cached/fresh event data and creates notifications.
+ * Per-user polling for the radars that depend on where the user is:
+ * proximity radars (friends' live locations) and keyword radars' place
+ * matches near home. Event radars, and keyword radars' feed events, are
+ * matched by the scheduled sweep (radar-sweep.ts).
  *
- * This would typically run as a server-side cron job, but for MVP we run it
- * client-side when the user opens the app (lazy polling).
+ * Runs client-side when the user opens the app (lazy polling).
  */
-export async function pollRadarsForUser(userId: string, tier: SubscriptionTier = 'free'): Promise<number> {
+export async function pollRadarsForUser(
+  userId: string,
+  tier: SubscriptionTier = 'free',
+  homeCity?: RadarCity
+): Promise<number> {
+  // Proximity radars match friends' locations, not events (see friend-proximity.ts)
+  const proximityNotifications = await pollProximityRadarsForUser(userId, tier);
+
   try {
     const { data: hooks, error } = await supabase
       .from('user_hooks')
       .select('*')
       .eq('user_id', userId)
       .eq('is_active', true)
-      .neq('hook_type', 'proximity'); // Proximity is handled differently
+      .eq('hook_type', 'keyword');
 
-    if (error || !hooks || hooks.length === 0) return 0;
+    if (error || !hooks || hooks.length === 0) return proximityNotifications;
 
+    const home = homeCity ?? await resolveRadarHomeCity(userId);
+    const homeLocation = home.lat != null && home.lng != null ? { lat: home.lat, lng: home.lng } : undefined;
     let newNotifications = 0;
 
     for (const hookRow of hooks) {
-      const hook: UserHook = {
-        id: hookRow.id,
-        userId: hookRow.user_id,
-        hookType: hookRow.hook_type,
-        entityName: hookRow.entity_name,
-        entityId: hookRow.entity_id,
-        category: hookRow.category,
-        searchKeyword: hookRow.search_keyword,
-        isActive: hookRow.is_active,
-        triggerCount: hookRow.trigger_count || 0,
-        createdAt: hookRow.created_at,
-        updatedAt: hookRow.updated_at,
-      };
+      const hook = mapHookRowForPolling(hookRow);
+      const places = await matchHookToPlaces(hook, homeLocation, home);
+      if (places.length === 0) continue;
 
-      // Keyword hooks use Places Text Search (not Ticketmaster)
-      if (hook.hookType === 'keyword') {
-        const places = await matchHookToPlaces(hook);
-        if (places.length === 0) continue;
-
-        // Dedup: check existing notifications by place_id
-        const { data: existingNotifs } = await supabase
-          .from('hook_notifications')
-          .select('place_data')
-          .eq('hook_id', hook.id)
-          .eq('user_id', userId);
-
-        const notifiedPlaceIds = new Set(
-          (existingNotifs || [])
-            .map((n: any) => n.place_data?.placeId)
-            .filter(Boolean)
-        );
-
-        for (const place of places) {
-          if (notifiedPlaceIds.has(place.placeId)) continue;
-
-          const expiresAt = new Date();
-          expiresAt.setDate(expiresAt.getDate() + KEYWORD_CACHE_DAYS);
-
-          const { data: insertedNotif } = await supabase.from('hook_notifications').insert({
-            user_id: userId,
-            hook_id: hook.id,
-            title: place.name,
-            body: `Matches your "${place.matchedKeyword}" radar — ${place.rating}★`,
-            place_data: place,
-            status: 'pending',
-            expires_at: expiresAt.toISOString(),
-          }).select().single();
-
-          if (insertedNotif) {
-            const notification: HookNotification = {
-              id: insertedNotif.id,
-              userId,
-              hookId: hook.id,
-              title: place.name,
-              body: `Matches your "${place.matchedKeyword}" radar — ${place.rating}★`,
-              placeData: place,
-              status: 'pending',
-              createdAt: insertedNotif.created_at,
-            };
-            await sendRadarPushNotification(notification, tier);
-          }
-          newNotifications++;
-        }
-
-        if (newNotifications > 0) {
-          await supabase
-            .from('user_hooks')
-            .update({
-              last_triggered_at: new Date().toISOString(),
-              trigger_count: hook.triggerCount + newNotifications,
-            })
-            .eq('id', hook.id);
-        }
-        continue;
-      }
-
-      const events = await matchHookToEvents(hook);
-      if (events.length === 0) continue;
-
-      // Check for already-notified events
+      // Dedup: check existing notifications by place_id
       const { data: existingNotifs } = await supabase
         .from('hook_notifications')
-        .select('event_data')
+        .select('place_data')
         .eq('hook_id', hook.id)
         .eq('user_id', userId);
 
-      const notifiedEventIds = new Set(
+      const notifiedPlaceIds = new Set(
         (existingNotifs || [])
-          .map((n: any) => n.event_data?.name)
+          .map((n: any) => n.place_data?.placeId)
           .filter(Boolean)
       );
 
-      // Create notifications for new events only
-      for (const event of events.slice(0, 3)) {
-        if (notifiedEventIds.has(event.name)) continue;
+      let hookNotifications = 0;
 
-        const eventData = cachedEventToRadarEventData(event);
-        const priceText = event.priceMin
-          ? `From $${event.priceMin}`
-          : 'Free';
+      for (const place of places) {
+        if (notifiedPlaceIds.has(place.placeId)) continue;
+
+        const expiresAt = new Date();
+        expiresAt.setDate(expiresAt.getDate() + KEYWORD_CACHE_DAYS);
 
         const { data: insertedNotif } = await supabase.from('hook_notifications').insert({
           user_id: userId,
           hook_id: hook.id,
-          title: event.name,
-          body: `${event.venue || 'TBD'}, ${event.date} - ${priceText}`,
-          event_data: eventData,
+          title: place.name,
+          body: `Matches your "${place.matchedKeyword}" radar — ${place.rating}★`,
+          place_data: place,
+          source: 'google_places',
           status: 'pending',
-          expires_at: new Date(new Date(event.date).getTime() + 24 * 60 * 60 * 1000).toISOString(),
+          expires_at: expiresAt.toISOString(),
         }).select().single();
 
-        // Send push notification for Plus users
         if (insertedNotif) {
           const notification: HookNotification = {
             id: insertedNotif.id,
             userId,
             hookId: hook.id,
-            title: event.name,
-            body: `${event.venue || 'TBD'}, ${event.date} - ${priceText}`,
-            eventData,
+            title: place.name,
+            body: `Matches your "${place.matchedKeyword}" radar — ${place.rating}★`,
+            placeData: place,
+            source: 'google_places',
             status: 'pending',
             createdAt: insertedNotif.created_at,
           };
           await sendRadarPushNotification(notification, tier);
         }
-
-        newNotifications++;
+        hookNotifications++;
       }
 
-      // Update hook trigger count
-      if (newNotifications > 0) {
+      if (hookNotifications > 0) {
         await supabase
           .from('user_hooks')
           .update({
             last_triggered_at: new Date().toISOString(),
-            trigger_count: hook.triggerCount + newNotifications,
+            trigger_count: hook.triggerCount + hookNotifications,
           })
           .eq('id', hook.id);
+        newNotifications += hookNotifications;
       }
     }
 
-    return newNotifications;
+    return newNotifications + proximityNotifications;
   } catch (err) {
     console.error('[RadarPolling] Error polling radars:', err);
-    return 0;
+    return proximityNotifications;
   }
 }
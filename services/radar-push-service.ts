@@ -2,12 +2,14 @@
  * Radar Push Service — Push Notifications for Radar Alerts
  *
  * Plus-only feature: sends push notifications when radar hooks trigger.
- * Free users see alerts in-feed only; Plus users get instant pushes.
+ * Free users see alerts in-feed only; Plus users get pushes per their
+ * delivery preferences (radar-delivery-service: quiet hours, digests, budget).
  *
  * Architecture:
  * - Register push token on login → store in users.expo_push_token
  * - When radar polling creates a notification, call sendRadarPushNotification()
  * - Tier gate: skip push for free users
+ * - Delivery gate: hold for a digest / quiet hours, or skip when over budget
  * - Deep link: tapping notification opens feed with radar highlight
  */
 
@@ -15,7 +17,13 @@ import * as Notifications from 'expo-notifications';
 import { Platform } from 'react-native';
 import { supabase } from '@/lib/supabase';
 import { RADAR_LIMITS } from '@/types/radar';
-import type { HookNotification } from '@/types/radar';
+import type { HookNotification, RadarDigest } from '@/types/radar';
+import {
+  applyDeliveryPlan,
+  loadPushCountsToday,
+  normalizeRadarDelivery,
+  planRadarDelivery,
+} from '@/services/radar-delivery-service';
 import type { SubscriptionTier } from '@/types/subscription';
 
 // ============================================================================
@@ -24,6 +32,25 @@ import type { SubscriptionTier } from '@/types/subscription';
 
 const EXPO_PUSH_API = 'https://exp.host/--/api/v2/push/send';
 
+/** Expo accepts up to 100 messages per request */
+const EXPO_PUSH_BATCH_SIZE = 100;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** A notification and the token to push it to (batch sends) */
+export interface RadarPushItem {
+  notification: HookNotification;
+  pushToken: string;
+}
+
+/** A digest and the token to push it to */
+export interface RadarDigestPushItem {
+  digest: RadarDigest;
+  pushToken: string;
+}
+
 // ============================================================================
 // PUSH TOKEN REGISTRATION
 // ============================================================================
@@ -70,9 +97,43 @@ export async function registerPushToken(userId: string): Promise<string | null>
 // SEND PUSH NOTIFICATION
 // ============================================================================
 
+/** Expo push message for a radar alert */
+export function buildRadarPushMessage(notification: HookNotification, pushToken: string) {
+  return {
+    to: pushToken,
+    sound: 'default' as const,
+    title: `📡 ${notification.title}`,
+    body: notification.body,
+    data: {
+      type: 'radar_alert',
+      notificationId: notification.id,
+      hookId: notification.hookId,
+      eventData: notification.eventData,
+    },
+    channelId: 'radar-alerts',
+  };
+}
+
+/** Expo push message for a radar digest */
+export function buildRadarDigestPushMessage(digest: RadarDigest, pushToken: string) {
+  return {
+    to: pushToken,
+    sound: 'default' as const,
+    title: `📡 ${digest.title}`,
+    body: digest.body,
+    data: {
+      type: 'radar_digest',
+      digestId: digest.id,
+    },
+    channelId: 'radar-alerts',
+  };
+}
+
 /**
  * Send a push notification for a radar alert.
- * Only sends for Plus users (tier gate).
+ * Only sends for Plus users (tier gate), and only when their delivery
+ * preferences allow it now — otherwise the alert is held for a digest or
+ * left feed-only once today's budget is spent.
  *
  * Returns true if push was sent, false if skipped or failed.
  */
@@ -88,10 +149,10 @@ export async function sendRadarPushNotification(
   }
 
   try {
-    // Get user's push token
+    // Get user's push token and delivery preferences
     const { data: userData, error } = await supabase
       .from('users')
-      .select('expo_push_token')
+      .select('expo_push_token, radar_delivery, timezone')
       .eq('id', notification.userId)
       .single();
 
@@ -100,22 +161,19 @@ export async function sendRadarPushNotification(
       return false;
     }
 
-    const pushToken = userData.expo_push_token;
-
-    // Build push message
-    const message = {
-      to: pushToken,
-      sound: 'default' as const,
-      title: `📡 ${notification.title}`,
-      body: notification.body,
-      data: {
-        type: 'radar_alert',
-        notificationId: notification.id,
-        hookId: notification.hookId,
-        eventData: notification.eventData,
-      },
-      channelId: 'radar-alerts',
-    };
+    // Delivery gate: digest mode, quiet hours, daily budget
+    const now = new Date();
+    const prefs = normalizeRadarDelivery(userData.radar_delivery, userData.timezone);
+    const pushCounts = await loadPushCountsToday(new Map([[notification.userId, prefs]]), now);
+    const plan = planRadarDelivery([{ notification }], prefs, pushCounts.get(notification.userId) || 0, now);
+
+    if (plan.push.length === 0) {
+      await applyDeliveryPlan(plan);
+      console.log(`[RadarPush] Push ${plan.held.length > 0 ? 'held for digest' : 'skipped — daily budget spent'}`);
+      return false;
+    }
+
+    const message = buildRadarPushMessage(notification, userData.expo_push_token);
 
     // Send via Expo Push API
     const response = await fetch(EXPO_PUSH_API, {
@@ -153,6 +211,93 @@ export async function sendRadarPushNotification(
   }
 }
 
+/**
+ * POST messages to Expo in chunks of 100 and report which items Expo
+ * accepted (tickets come back in message order).
+ */
+async function sendInChunks<T>(
+  items: T[],
+  toMessage: (item: T) => object,
+  onAccepted: (accepted: T[]) => Promise<void>
+): Promise<number> {
+  let sent = 0;
+
+  for (let i = 0; i < items.length; i += EXPO_PUSH_BATCH_SIZE) {
+    const chunk = items.slice(i, i + EXPO_PUSH_BATCH_SIZE);
+
+    try {
+      const response = await fetch(EXPO_PUSH_API, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+          'Accept-Encoding': 'gzip, deflate',
+        },
+        body: JSON.stringify(chunk.map(toMessage)),
+      });
+
+      if (!response.ok) {
+        console.error('[RadarPush] Batch push API error:', response.status);
+        continue;
+      }
+
+      const result = await response.json();
+      const tickets: any[] = result.data || [];
+      const accepted = chunk.filter((_, index) => tickets[index]?.status === 'ok');
+
+      if (accepted.length > 0) {
+        await onAccepted(accepted);
+      }
+      sent += accepted.length;
+    } catch (err) {
+      console.error('[RadarPush] Error sending push batch:', err);
+    }
+  }
+
+  return sent;
+}
+
+/**
+ * Send many radar pushes at once (used by the server-side radar sweep).
+ * Callers have already applied the tier and delivery gates and looked up
+ * tokens. Messages go out in chunks of 100; each accepted one is marked
+ * push_sent_at.
+ *
+ * @param client - Supabase client to mark sends with (the sweep passes its service-role client)
+ * @returns number of pushes Expo accepted
+ */
+export async function sendRadarPushBatch(items: RadarPushItem[], client: any = supabase): Promise<number> {
+  return sendInChunks(
+    items,
+    item => buildRadarPushMessage(item.notification, item.pushToken),
+    async accepted => {
+      await client
+        .from('hook_notifications')
+        .update({ push_sent_at: new Date().toISOString() })
+        .in('id', accepted.map(item => item.notification.id));
+    }
+  );
+}
+
+/**
+ * Push radar digests (one per user) and mark each accepted digest
+ * push_sent_at.
+ *
+ * @returns number of digest pushes Expo accepted
+ */
+export async function sendRadarDigestPushBatch(items: RadarDigestPushItem[], client: any = supabase): Promise<number> {
+  return sendInChunks(
+    items,
+    item => buildRadarDigestPushMessage(item.digest, item.pushToken),
+    async accepted => {
+      await client
+        .from('radar_digests')
+        .update({ push_sent_at: new Date().toISOString() })
+        .in('id', accepted.map(item => item.digest.id));
+    }
+  );
+}
+
 // ============================================================================
 // NOTIFICATION TAP HANDLER
 // ============================================================================
@@ -163,7 +308,10 @@ export async function sendRadarPushNotification(
  */
 export function handleRadarNotificationTap(
   data: Record<string, unknown>
-): { type: string; notificationId?: string; hookId?: string } | null {
+): { type: string; notificationId?: string; hookId?: string; digestId?: string } | null {
+  if (data?.type === 'radar_digest') {
+    return { type: 'radar_digest', digestId: data.digestId as string };
+  }
   if (data?.type !== 'radar_alert') return null;
 
   return {
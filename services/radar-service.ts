@@ -6,8 +6,9 @@
  * Responsibilities:
  * - Create, delete, list, toggle radars
  * - Enforce tier limits (free: 3 total, plus: unlimited)
- * - Fetch pending radar notifications for feed injection
- * - Mark notifications as viewed/dismissed
+ * - Fetch pending radar notifications and digests for feed injection
+ * - Mark notifications and digests as viewed/dismissed
+ * - Record "this isn't what I meant" feedback on alerts
  */
 
 import { supabase } from '@/lib/supabase';
@@ -21,8 +22,12 @@ import {
   RADAR_LIMITS,
   HOOK_TYPE_META,
   RadarEventData,
+  RadarCity,
+  RadarDigest,
 } from '@/types/radar';
 import type { SubscriptionTier } from '@/types/subscription';
+import { geocodeAddress } from '@/services/geocoding';
+import { addSuppressedMatch, buildSuppressedMatch } from '@/services/radar-entity-service';
 
 // ============================================================================
 // CONSTANTS
@@ -181,11 +186,13 @@ export async function createRadar(
         hook_type: hookType,
         entity_name: params.entityName || null,
         entity_id: params.entityId || null,
+        entity_source: params.entitySource || null,
         talent_department: params.talentDepartment || null,
         category: params.category || null,
         custom_keywords: params.customKeywords || null,
         friend_ids: params.friendIds || null,
         proximity_radius_miles: params.proximityRadiusMiles || 1.0,
+        watch_cities: (params.watchCities || []).slice(0, RADAR_LIMITS[tier].watchCities),
         is_active: true,
         trigger_count: 0,
       })
@@ -204,6 +211,22 @@ export async function createRadar(
   }
 }
 
+/**
+ * Resolve a typed city ("Austin" or "Austin, TX") to a watch city with
+ * coordinates for travel distance. Returns null if it can't be found.
+ */
+export async function resolveWatchCity(query: string): Promise<RadarCity | null> {
+  try {
+    const result = await geocodeAddress(query);
+    const { city, state } = result.addressComponents || {};
+    if (!city || !state) return null;
+    return { city, state, lat: result.latitude, lng: result.longitude };
+  } catch (err) {
+    console.warn('[RadarService] Could not resolve watch city:', err);
+    return null;
+  }
+}
+
 /**
  * Toggle a radar's active state.
  */
@@ -371,7 +394,8 @@ export async function getRadarSummary(userId: string, tier: SubscriptionTier): P
 
 /**
  * Get pending (unviewed) radar notifications for feed injection.
- * Returns up to MAX_RADAR_CARDS_PER_SESSION notifications.
+ * Returns up to MAX_RADAR_CARDS_PER_SESSION notifications. Alerts held for
+ * or bundled into a digest are left out — they show in the digest card.
  */
 export async function getPendingRadarAlerts(userId: string): Promise<HookNotification[]> {
   if (userId === DEMO_USER_ID) {
@@ -384,6 +408,7 @@ export async function getPendingRadarAlerts(userId: string): Promise<HookNotific
       .select('*')
       .eq('user_id', userId)
       .in('status', ['pending', 'sent'])
+      .or('delivery.is.null,delivery.eq.feed_only')
       .order('created_at', { ascending: false })
       .limit(MAX_RADAR_CARDS_PER_SESSION);
 
@@ -522,6 +547,117 @@ export async function markNotificationDismissed(userId: string, notificationId:
   }
 }
 
+/**
+ * "This isn't what I meant": dismiss the alert, record it as a false
+ * positive, and remember it on the radar so similar events are skipped.
+ */
+export async function reportRadarFalsePositive(
+  userId: string,
+  notification: HookNotification
+): Promise<boolean> {
+  if (userId === DEMO_USER_ID) return true;
+
+  try {
+    const now = new Date();
+    const { error: notifError } = await supabase
+      .from('hook_notifications')
+      .update({ status: 'dismissed', feedback: 'false_positive', feedback_at: now.toISOString() })
+      .eq('id', notification.id)
+      .eq('user_id', userId);
+
+    if (notifError) {
+      console.error('[RadarService] Error recording false positive:', notifError);
+      return false;
+    }
+
+    const { data: hook, error: hookError } = await supabase
+      .from('user_hooks')
+      .select('suppressed_matches')
+      .eq('id', notification.hookId)
+      .eq('user_id', userId)
+      .single();
+
+    if (hookError || !hook) {
+      console.error('[RadarService] Error loading radar for false positive:', hookError);
+      return false;
+    }
+
+    const suppressedMatches = addSuppressedMatch(
+      hook.suppressed_matches || [],
+      buildSuppressedMatch(notification, now)
+    );
+
+    const { error: updateError } = await supabase
+      .from('user_hooks')
+      .update({ suppressed_matches: suppressedMatches, updated_at: now.toISOString() })
+      .eq('id', notification.hookId)
+      .eq('user_id', userId);
+
+    if (updateError) {
+      console.error('[RadarService] Error saving suppressed match:', updateError);
+      return false;
+    }
+
+    return true;
+  } catch (err) {
+    console.error('[RadarService] Exception recording false positive:', err);
+    return false;
+  }
+}
+
+// ============================================================================
+// DIGESTS
+// ============================================================================
+
+/**
+ * Get the newest unopened radar digest for the feed's digest card.
+ */
+export async function getPendingRadarDigest(userId: string): Promise<RadarDigest | null> {
+  if (userId === DEMO_USER_ID) return null;
+
+  try {
+    const { data, error } = await supabase
+      .from('radar_digests')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      if (error.code === '42P01') return null;
+      console.error('[RadarService] Error fetching radar digest:', error);
+      return null;
+    }
+
+    return data?.[0] ? mapDbRowToDigest(data[0]) : null;
+  } catch (err) {
+    console.error('[RadarService] Exception fetching radar digest:', err);
+    return null;
+  }
+}
+
+/**
+ * Mark a radar digest as viewed or dismissed.
+ */
+export async function updateRadarDigestStatus(
+  userId: string,
+  digestId: string,
+  status: 'viewed' | 'dismissed'
+): Promise<void> {
+  if (userId === DEMO_USER_ID) return;
+
+  try {
+    await supabase
+      .from('radar_digests')
+      .update({ status })
+      .eq('id', digestId)
+      .eq('user_id', userId);
+  } catch (err) {
+    console.error('[RadarService] Error updating digest status:', err);
+  }
+}
+
 // ============================================================================
 // FEED HELPERS
 // ============================================================================
@@ -575,11 +711,14 @@ function mapDbRowToHook(row: any): UserHook {
     hookType: row.hook_type as HookType,
     entityName: row.entity_name || undefined,
     entityId: row.entity_id || undefined,
+    entitySource: row.entity_source || undefined,
     talentDepartment: row.talent_department || undefined,
     category: row.category || undefined,
     customKeywords: row.custom_keywords || undefined,
     friendIds: row.friend_ids || undefined,
     proximityRadiusMiles: row.proximity_radius_miles || 1.0,
+    watchCities: row.watch_cities || undefined,
+    suppressedMatches: row.suppressed_matches || undefined,
     isActive: row.is_active,
     lastTriggeredAt: row.last_triggered_at || undefined,
     triggerCount: row.trigger_count || 0,
@@ -597,11 +736,33 @@ function mapDbRowToNotification(row: any): HookNotification {
     title: row.title,
     body: row.body,
     eventData: row.event_data || undefined,
+    proximityData: row.proximity_data || undefined,
+    source: row.source || undefined,
     status: row.status,
     sentAt: row.sent_at || undefined,
     viewedAt: row.viewed_at || undefined,
     expiresAt: row.expires_at || undefined,
     pushSentAt: row.push_sent_at || undefined,
+    delivery: row.delivery || undefined,
+    digestId: row.digest_id || undefined,
+    eventKey: row.event_key || undefined,
+    alertKind: row.alert_kind || undefined,
+    feedback: row.feedback || undefined,
+    createdAt: row.created_at,
+  };
+}
+
+function mapDbRowToDigest(row: any): RadarDigest {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    reason: row.reason,
+    title: row.title,
+    body: row.body,
+    notificationIds: row.notification_ids || [],
+    items: row.items || [],
+    status: row.status,
+    pushSentAt: row.push_sent_at || undefined,
     createdAt: row.created_at,
   };
 }
@@ -617,11 +778,13 @@ function createMockRadar(params: CreateRadarParams): UserHook {
     hookType: params.hookType,
     entityName: params.entityName,
     entityId: params.entityId,
+    entitySource: params.entitySource,
     talentDepartment: params.talentDepartment,
     category: params.category,
     customKeywords: params.customKeywords,
     friendIds: params.friendIds,
     proximityRadiusMiles: params.proximityRadiusMiles || 1.0,
+    watchCities: params.watchCities,
     isActive: true,
     triggerCount: 0,
     createdAt: new Date().toISOString(),
@@ -638,6 +801,7 @@ function getMockRadars(): UserHook[] {
       hookType: 'artist',
       entityName: 'Taylor Swift',
       entityId: 'K8vZ9171oZ7',
+      entitySource: 'ticketmaster_attraction',
       isActive: true,
       lastTriggeredAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
       triggerCount: 2,
@@ -661,6 +825,7 @@ function getMockRadars(): UserHook[] {
       hookType: 'venue',
       entityName: 'Deep Ellum Brewing',
       entityId: 'ChIJN1t_tDeuEmsRUsoyG83frY4',
+      entitySource: 'google_place',
       isActive: true,
       triggerCount: 3,
       createdAt: now,
@@ -0,0 +1,691 @@
+/**
+ * Radar Sweep — Scheduled Server-Side Event Matching
+ *
+ * Delivers on "query once per entity, serve many users": instead of every
+ * client polling its own radars, one scheduled job (scripts/radar-sweep.ts)
+ * sweeps all active event radars:
+ *
+ * 1. Group every radar × city across users by event_cache key
+ * 2. Fetch each entity once (when its cache is due, or every few hours
+ *    while it has events users are watching), diff against event_cache
+ * 3. Match radars to their entities' events — new events only, except for
+ *    radars created since the last successful run, which get current events
+ * 4. Follow up on events users were already alerted to — on-sale, presale,
+ *    price drop, few tickets left (radar-watch-service)
+ * 5. Insert hook_notifications and send Plus pushes in batches, per each
+ *    user's delivery preferences (radar-delivery-service), and start
+ *    watching the newly alerted events. Only then are event_cache and the
+ *    watches updated: if any alerts failed to save, the run is marked failed
+ *    and both are left as they were, so the next run finds the same alerts due
+ * 6. Bundle held alerts whose digest is due and push the digests
+ *
+ * Idempotent: notifications carry event_key (the source event ID, plus the
+ * trigger for follow-ups) with a unique (hook_id, event_key) index, so a
+ * retried or overlapping run never duplicates an alert. Runs are recorded with metrics in radar_sweep_runs
+ * (migration 043), which also allows only one running sweep at a time.
+ *
+ * Everything external is injected — the database client (service role in
+ * production, local Postgres in testing), providers and push — so the sweep
+ * can run against stubs.
+ *
+ * Proximity radars (live locations) and keyword place matches (per-user
+ * location) stay in per-user polling.
+ */
+
+import type {
+  CachedEvent,
+  HookNotification,
+  RadarCity,
+  RadarDeliveryPreferences,
+  RadarEventData,
+  UserHook,
+} from '@/types/radar';
+import { RADAR_LIMITS } from '@/types/radar';
+import type { SubscriptionTier } from '@/types/subscription';
+import {
+  buildEventAlertBody,
+  buildEventCacheRow,
+  buildEventSourceQueries,
+  cachedEventToRadarEventData,
+  DEFAULT_RADAR_CITY,
+  getHookCities,
+  getTravelMiles,
+  isSameEvent,
+  mapHookRowForPolling,
+  mergeEventSources,
+} from '@/services/radar-polling-service';
+import type { EventSourceQuery } from '@/services/radar-polling-service';
+import { sendRadarDigestPushBatch, sendRadarPushBatch } from '@/services/radar-push-service';
+import type { RadarDigestPushItem, RadarPushItem } from '@/services/radar-push-service';
+import {
+  applyDeliveryPlan,
+  collectDueDigests,
+  loadPushCountsToday,
+  normalizeRadarDelivery,
+  planRadarDelivery,
+} from '@/services/radar-delivery-service';
+import type { RadarDeliveryCandidate, RadarDeliveryPlan } from '@/services/radar-delivery-service';
+import {
+  buildEventWatchRow,
+  buildSnapshotRows,
+  checkEventWatches,
+  createEventWatches,
+  loadActiveWatches,
+  RADAR_WATCH_CONFIG,
+  recordEventSnapshots,
+  saveEventWatchUpdates,
+} from '@/services/radar-watch-service';
+import { detectUserCityWithFallback } from '@/services/city-detection';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RadarSweepDeps {
+  /** Supabase client with service-role access */
+  db: any;
+  /** Provider call for a source (default: the source's own fetch) */
+  fetchSource?: (query: EventSourceQuery) => Promise<CachedEvent[]>;
+  /** A user's home city (default: city detection, then Dallas) */
+  resolveHomeCity?: (user: any) => Promise<RadarCity>;
+  /** Batch push sender (default: radar-push-service) */
+  sendPushBatch?: (items: RadarPushItem[], client: any) => Promise<number>;
+  /** Digest push sender (default: radar-push-service) */
+  sendDigestPushBatch?: (items: RadarDigestPushItem[], client: any) => Promise<number>;
+  now?: Date;
+}
+
+export interface RadarSweepMetrics {
+  runId: string;
+  hooksScanned: number;
+  usersScanned: number;
+  /** Distinct event_cache keys across all radars */
+  entitiesTotal: number;
+  /** Keys refreshed from a provider this run */
+  entitiesFetched: number;
+  fetchErrors: number;
+  /** Events not in event_cache before this run */
+  newEvents: number;
+  notificationsCreated: number;
+  /** Matches skipped because the radar was already alerted about them */
+  duplicatesSkipped: number;
+  /** Individual and digest pushes Expo accepted */
+  pushesSent: number;
+  /** Alerts held for a digest (digest mode or quiet hours) */
+  pushesHeld: number;
+  /** Alerts left feed-only because the user's daily budget was spent */
+  pushesOverBudget: number;
+  digestsCreated: number;
+  /** Active event watches compared this run */
+  watchesChecked: number;
+  /** On-sale, presale, price-drop and low-inventory alerts (part of notificationsCreated) */
+  followUpsCreated: number;
+  durationMs: number;
+  /** Set when the sweep failed part-way */
+  error?: string;
+}
+
+interface SweepUser {
+  tier: SubscriptionTier;
+  pushToken: string | null;
+  home: RadarCity;
+  delivery: RadarDeliveryPreferences;
+}
+
+interface EntityEvents {
+  events: CachedEvent[];
+  newIds: Set<string>;
+  /** Fetched from the provider this run (fresh prices and availability) */
+  fetched: boolean;
+}
+
+interface EntityRefresh {
+  entities: Map<string, EntityEvents>;
+  /** event_cache and snapshot rows, saved once this run's alerts are in */
+  cacheRows: Record<string, unknown>[];
+  snapshotRows: Record<string, unknown>[];
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const RADAR_SWEEP_CONFIG = {
+  /** user_hooks rows read per page */
+  hookPageSize: 1000,
+  /** hook_notifications rows read per page when loading what was alerted */
+  notificationPageSize: 1000,
+  /** Rows per IN query / insert / upsert */
+  batchSize: 500,
+  /** Most alerts per radar per city per run (matches client polling) */
+  eventsPerCity: 3,
+  /** A 'running' sweep older than this is assumed dead and marked failed */
+  staleRunMinutes: 60,
+};
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+function chunk<T>(items: T[], size: number = RADAR_SWEEP_CONFIG.batchSize): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+// ============================================================================
+// RUN BOOKKEEPING
+// ============================================================================
+
+/** Claim the sweep lock; null when another sweep is running */
+async function startRun(db: any, now: Date): Promise<string | null> {
+  // Clear out sweeps that died without finishing
+  await db
+    .from('radar_sweep_runs')
+    .update({ status: 'failed', finished_at: now.toISOString(), error: 'Timed out' })
+    .eq('status', 'running')
+    .lt('started_at', new Date(now.getTime() - RADAR_SWEEP_CONFIG.staleRunMinutes * MINUTE_MS).toISOString());
+
+  const { data, error } = await db
+    .from('radar_sweep_runs')
+    .insert({ status: 'running', started_at: now.toISOString() })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    console.warn('[RadarSweep] Another sweep is running, skipping:', error?.message);
+    return null;
+  }
+  return data.id;
+}
+
+/** When the last successful sweep started (radars created after it are new) */
+async function loadLastSuccessfulRunStart(db: any): Promise<Date | null> {
+  const { data } = await db
+    .from('radar_sweep_runs')
+    .select('started_at')
+    .eq('status', 'succeeded')
+    .order('started_at', { ascending: false })
+    .limit(1);
+
+  const startedAt = data?.[0]?.started_at;
+  return startedAt ? new Date(startedAt) : null;
+}
+
+async function finishRun(db: any, metrics: RadarSweepMetrics, now: Date, error?: string): Promise<void> {
+  await db
+    .from('radar_sweep_runs')
+    .update({
+      status: error ? 'failed' : 'succeeded',
+      finished_at: new Date(now.getTime() + metrics.durationMs).toISOString(),
+      hooks_scanned: metrics.hooksScanned,
+      users_scanned: metrics.usersScanned,
+      entities_total: metrics.entitiesTotal,
+      entities_fetched: metrics.entitiesFetched,
+      fetch_errors: metrics.fetchErrors,
+      new_events: metrics.newEvents,
+      notifications_created: metrics.notificationsCreated,
+      duplicates_skipped: metrics.duplicatesSkipped,
+      pushes_sent: metrics.pushesSent,
+      pushes_held: metrics.pushesHeld,
+      pushes_over_budget: metrics.pushesOverBudget,
+      digests_created: metrics.digestsCreated,
+      watches_checked: metrics.watchesChecked,
+      follow_ups_created: metrics.followUpsCreated,
+      duration_ms: metrics.durationMs,
+      error: error || null,
+    })
+    .eq('id', metrics.runId);
+}
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+/** Active event radars across all users (proximity is polled per user) */
+async function loadActiveHooks(db: any): Promise<UserHook[]> {
+  const hooks: UserHook[] = [];
+  const pageSize = RADAR_SWEEP_CONFIG.hookPageSize;
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await db
+      .from('user_hooks')
+      .select('*')
+      .eq('is_active', true)
+      .neq('hook_type', 'proximity')
+      .order('id')
+      .range(from, from + pageSize - 1);
+
+    if (error) throw new Error(`Loading radars failed: ${error.message}`);
+    hooks.push(...(data || []).map(mapHookRowForPolling));
+    if (!data || data.length < pageSize) break;
+  }
+
+  return hooks;
+}
+
+async function defaultResolveHomeCity(user: any): Promise<RadarCity> {
+  try {
+    const cityInfo = await detectUserCityWithFallback(user);
+    if (cityInfo) return { city: cityInfo.city, state: cityInfo.state, lat: cityInfo.lat, lng: cityInfo.lng };
+  } catch (err) {
+    console.warn('[RadarSweep] Error resolving home city, using default:', err);
+  }
+  return DEFAULT_RADAR_CITY;
+}
+
+async function loadUsers(
+  db: any,
+  userIds: string[],
+  resolveHomeCity: (user: any) => Promise<RadarCity>
+): Promise<Map<string, SweepUser>> {
+  const users = new Map<string, SweepUser>();
+
+  for (const ids of chunk(userIds)) {
+    const { data, error } = await db.from('users').select('*').in('id', ids);
+    if (error) throw new Error(`Loading users failed: ${error.message}`);
+
+    for (const user of data || []) {
+      users.set(user.id, {
+        tier: user.subscription_tier === 'plus' ? 'plus' : 'free',
+        pushToken: user.expo_push_token || null,
+        home: await resolveHomeCity(user),
+        delivery: normalizeRadarDelivery(user.radar_delivery, user.timezone),
+      });
+    }
+  }
+
+  return users;
+}
+
+// ============================================================================
+// ENTITIES
+// ============================================================================
+
+/**
+ * Refresh every entity whose cache is missing, expired or due for its
+ * re-check, once each, and diff against what was cached. Entities with
+ * watched events are re-checked every RADAR_WATCH_CONFIG.refreshHours so
+ * price and availability follow-ups aren't a week late. Nothing is written
+ * here; see saveEntities().
+ *
+ * @param watchedEventIds - Event IDs with an active watch
+ */
+async function refreshEntities(
+  db: any,
+  queries: Map<string, EventSourceQuery>,
+  fetchSource: (query: EventSourceQuery) => Promise<CachedEvent[]>,
+  watchedEventIds: Set<string>,
+  now: Date,
+  metrics: RadarSweepMetrics
+): Promise<EntityRefresh> {
+  const cached = new Map<string, any>();
+  for (const keys of chunk([...queries.keys()])) {
+    const { data } = await db
+      .from('event_cache')
+      .select('cache_key, events, last_fetched_at, next_fetch_at, expires_at')
+      .in('cache_key', keys);
+    for (const row of data || []) cached.set(row.cache_key, row);
+  }
+
+  const watchRefreshBefore = now.getTime() - RADAR_WATCH_CONFIG.refreshHours * 60 * MINUTE_MS;
+  const watchRefreshDue = (row: any) =>
+    (!row.last_fetched_at || new Date(row.last_fetched_at).getTime() <= watchRefreshBefore)
+    && (row.events || []).some((e: CachedEvent) => watchedEventIds.has(e.id));
+
+  const entities = new Map<string, EntityEvents>();
+  const cacheRows: Record<string, unknown>[] = [];
+  const snapshotRows: Record<string, unknown>[] = [];
+
+  for (const [cacheKey, query] of queries) {
+    const row = cached.get(cacheKey);
+    const previous: CachedEvent[] = row?.events || [];
+    const due = !row
+      || !row.next_fetch_at
+      || new Date(row.next_fetch_at) <= now
+      || (row.expires_at && new Date(row.expires_at) < now)
+      || watchRefreshDue(row);
+
+    if (!due) {
+      entities.set(cacheKey, { events: previous, newIds: new Set(), fetched: false });
+      continue;
+    }
+
+    try {
+      const events = await fetchSource(query);
+      const previousIds = new Set(previous.map(e => e.id));
+      const newIds = new Set(events.filter(e => !previousIds.has(e.id)).map(e => e.id));
+
+      entities.set(cacheKey, { events, newIds, fetched: true });
+      cacheRows.push(buildEventCacheRow(
+        cacheKey, query.source, query.entityType, query.entityName, events, query.cacheCity, now
+      ));
+      snapshotRows.push(...buildSnapshotRows(cacheKey, previous, events, now));
+      metrics.entitiesFetched++;
+      metrics.newEvents += newIds.size;
+    } catch (err) {
+      // Keep serving what we had; the entity is retried next run
+      console.error('[RadarSweep] Error fetching', cacheKey, err);
+      entities.set(cacheKey, { events: previous, newIds: new Set(), fetched: false });
+      metrics.fetchErrors++;
+    }
+  }
+
+  return { entities, cacheRows, snapshotRows };
+}
+
+/** Save refreshed listings to event_cache, and sale and price changes to the snapshot history */
+async function saveEntities(db: any, refresh: EntityRefresh): Promise<void> {
+  for (const rows of chunk(refresh.cacheRows)) {
+    const { error } = await db.from('event_cache').upsert(rows, { onConflict: 'cache_key' });
+    if (error) console.error('[RadarSweep] Error updating event cache:', error);
+  }
+  await recordEventSnapshots(refresh.snapshotRows, db);
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+interface AlertedEvents {
+  /** Source event IDs (event_key) */
+  keys: Set<string>;
+  /** For spotting the same show listed by another source */
+  events: Pick<RadarEventData, 'name' | 'venue' | 'date'>[];
+}
+
+/**
+ * Events already alerted per radar, for dedup by event and across sources.
+ * Throws if a page fails to load: matching without it would alert again.
+ */
+async function loadNotifiedEvents(db: any, hookIds: string[]): Promise<Map<string, AlertedEvents>> {
+  const notified = new Map<string, AlertedEvents>();
+  const pageSize = RADAR_SWEEP_CONFIG.notificationPageSize;
+
+  for (const ids of chunk(hookIds)) {
+    for (let from = 0; ; from += pageSize) {
+      const { data, error } = await db
+        .from('hook_notifications')
+        .select('hook_id, event_key, event_data')
+        .in('hook_id', ids)
+        .order('id')
+        .range(from, from + pageSize - 1);
+
+      if (error) throw new Error(`Loading sent alerts failed: ${error.message}`);
+      for (const row of data || []) {
+        if (!row.event_data?.name) continue;
+        if (!notified.has(row.hook_id)) notified.set(row.hook_id, { keys: new Set(), events: [] });
+        const alerted = notified.get(row.hook_id)!;
+        if (row.event_key) alerted.keys.add(row.event_key);
+        alerted.events.push(row.event_data);
+      }
+      if (!data || data.length < pageSize) break;
+    }
+  }
+
+  return notified;
+}
+
+function buildNotificationRow(hook: UserHook, event: CachedEvent, city: RadarCity, home: RadarCity) {
+  const eventData = cachedEventToRadarEventData(event);
+  if (city !== home) {
+    eventData.watchCity = city.city;
+    eventData.travelMiles = getTravelMiles(home, city);
+  }
+
+  return {
+    user_id: hook.userId,
+    hook_id: hook.id,
+    title: event.name,
+    body: buildEventAlertBody(event, city, home),
+    event_data: eventData,
+    source: event.source,
+    event_key: event.id,
+    alert_kind: 'new_event',
+    status: 'pending',
+    expires_at: new Date(new Date(event.date).getTime() + DAY_MS).toISOString(),
+  };
+}
+
+// ============================================================================
+// SWEEP
+// ============================================================================
+
+/**
+ * Run one sweep. Returns the run's metrics, or null if another sweep holds
+ * the lock.
+ */
+export async function runRadarSweep(deps: RadarSweepDeps): Promise<RadarSweepMetrics | null> {
+  const { db } = deps;
+  const now = deps.now ?? new Date();
+  const fetchSource = deps.fetchSource ?? ((query: EventSourceQuery) => query.fetchFn());
+  const sendPushBatch = deps.sendPushBatch ?? sendRadarPushBatch;
+  const sendDigestPushBatch = deps.sendDigestPushBatch ?? sendRadarDigestPushBatch;
+  const startedMs = Date.now();
+
+  const runId = await startRun(db, now);
+  if (!runId) return null;
+
+  const metrics: RadarSweepMetrics = {
+    runId,
+    hooksScanned: 0,
+    usersScanned: 0,
+    entitiesTotal: 0,
+    entitiesFetched: 0,
+    fetchErrors: 0,
+    newEvents: 0,
+    notificationsCreated: 0,
+    duplicatesSkipped: 0,
+    pushesSent: 0,
+    pushesHeld: 0,
+    pushesOverBudget: 0,
+    digestsCreated: 0,
+    watchesChecked: 0,
+    followUpsCreated: 0,
+    durationMs: 0,
+  };
+
+  try {
+    const lastRunStart = await loadLastSuccessfulRunStart(db);
+    const hooks = await loadActiveHooks(db);
+    const users = await loadUsers(db, [...new Set(hooks.map(h => h.userId))], deps.resolveHomeCity ?? defaultResolveHomeCity);
+    metrics.hooksScanned = hooks.length;
+    metrics.usersScanned = users.size;
+
+    // 1. Group radar × city by cache key
+    const targets: { hook: UserHook; city: RadarCity; home: RadarCity; queries: EventSourceQuery[] }[] = [];
+    const queries = new Map<string, EventSourceQuery>();
+
+    for (const hook of hooks) {
+      const home = users.get(hook.userId)?.home ?? DEFAULT_RADAR_CITY;
+      const cities = hook.hookType === 'film_talent' ? [home] : getHookCities(hook, home);
+
+      for (const city of cities) {
+        const hookQueries = await buildEventSourceQueries(hook, city, db);
+        if (hookQueries.length === 0) continue;
+        targets.push({ hook, city, home, queries: hookQueries });
+        for (const query of hookQueries) {
+          if (!queries.has(query.cacheKey)) queries.set(query.cacheKey, query);
+        }
+      }
+    }
+    metrics.entitiesTotal = queries.size;
+
+    // 2. Fetch each entity once
+    const watches = await loadActiveWatches(db, now);
+    const watchedEventIds = new Set(watches.map(w => w.eventKey));
+    const refresh = await refreshEntities(db, queries, fetchSource, watchedEventIds, now, metrics);
+    const { entities } = refresh;
+
+    // 3. Match radars to new events
+    const notified = await loadNotifiedEvents(db, [...new Set(targets.map(t => t.hook.id))]);
+    const pending: Record<string, unknown>[] = [];
+
+    for (const { hook, city, home, queries: hookQueries } of targets) {
+      const isNewRadar = !lastRunStart || new Date(hook.createdAt) > lastRunStart;
+      const perSource = hookQueries.map(query => {
+        const entity = entities.get(query.cacheKey);
+        if (!entity) return [];
+        return query.filter ? query.filter(entity.events) : entity.events;
+      });
+      const newIds = new Set(hookQueries.flatMap(q => [...(entities.get(q.cacheKey)?.newIds || [])]));
+
+      const events = mergeEventSources(perSource)
+        .filter(e => isNewRadar || newIds.has(e.id))
+        .slice(0, RADAR_SWEEP_CONFIG.eventsPerCity);
+
+      // Shared across the radar's cities, so this run's alerts count too
+      if (!notified.has(hook.id)) notified.set(hook.id, { keys: new Set(), events: [] });
+      const alerted = notified.get(hook.id)!;
+
+      for (const event of events) {
+        // Same-named shows in other cities or on other dates are different events
+        if (alerted.keys.has(event.id) || alerted.events.some(n => isSameEvent(n, event))) {
+          metrics.duplicatesSkipped++;
+          continue;
+        }
+        alerted.keys.add(event.id);
+        alerted.events.push(event);
+        pending.push(buildNotificationRow(hook, event, city, home));
+      }
+    }
+
+    // 4. Follow-ups on watched events, using this run's fresh listings
+    const freshEvents = new Map<string, CachedEvent>();
+    const eventsById = new Map<string, CachedEvent>();
+    for (const entity of entities.values()) {
+      for (const event of entity.events) {
+        eventsById.set(event.id, event);
+        if (entity.fetched) freshEvents.set(event.id, event);
+      }
+    }
+    const watchCheck = checkEventWatches(watches, freshEvents, new Set(hooks.map(h => h.id)), now);
+    metrics.watchesChecked = watchCheck.watchesChecked;
+    pending.push(...watchCheck.notificationRows);
+
+    // 5. Fan out notifications, trigger counts and pushes in batches
+    const created = new Map<string, any[]>();
+    let failedBatches = 0;
+    for (const batch of chunk(pending)) {
+      const { data: inserted, error } = await db
+        .from('hook_notifications')
+        .upsert(batch, { onConflict: 'hook_id,event_key', ignoreDuplicates: true })
+        .select('id, user_id, hook_id, title, body, event_data, source, event_key, alert_kind, created_at');
+
+      if (error) {
+        console.error('[RadarSweep] Error inserting notifications:', error);
+        failedBatches++;
+        continue;
+      }
+
+      // Rows that hit the unique index were already there (e.g. a retried run)
+      metrics.duplicatesSkipped += batch.length - (inserted || []).length;
+      for (const row of inserted || []) {
+        if (!created.has(row.hook_id)) created.set(row.hook_id, []);
+        created.get(row.hook_id)!.push(row);
+      }
+    }
+
+    // With alerts missing, keep the old listings and watch state so the same
+    // events are new, and the same follow-ups due, next run
+    if (failedBatches === 0) {
+      await saveEntities(db, refresh);
+      await saveEventWatchUpdates(watchCheck.watchUpdates, db);
+    }
+
+    const hooksById = new Map(hooks.map(h => [h.id, h]));
+    const candidates = new Map<string, RadarDeliveryCandidate[]>();
+    const watchRows: Record<string, unknown>[] = [];
+
+    for (const [hookId, rows] of created) {
+      const hook = hooksById.get(hookId)!;
+      metrics.notificationsCreated += rows.length;
+
+      for (const row of rows) {
+        if (row.alert_kind && row.alert_kind !== 'new_event') {
+          metrics.followUpsCreated++;
+          continue;
+        }
+        const event = eventsById.get(row.event_key);
+        if (event) {
+          watchRows.push(buildEventWatchRow({ id: row.id, userId: row.user_id, hookId: row.hook_id }, event, row.event_data, now));
+        }
+      }
+
+      await db
+        .from('user_hooks')
+        .update({ last_triggered_at: now.toISOString(), trigger_count: hook.triggerCount + rows.length })
+        .eq('id', hookId);
+
+      const user = users.get(hook.userId);
+      if (!user?.pushToken || !RADAR_LIMITS[user.tier].pushNotifications) continue;
+
+      for (const row of rows) {
+        const notification: HookNotification = {
+          id: row.id,
+          userId: row.user_id,
+          hookId: row.hook_id,
+          title: row.title,
+          body: row.body,
+          eventData: row.event_data,
+          source: row.source,
+          eventKey: row.event_key,
+          alertKind: row.alert_kind || undefined,
+          status: 'pending',
+          createdAt: row.created_at,
+        };
+        if (!candidates.has(hook.userId)) candidates.set(hook.userId, []);
+        candidates.get(hook.userId)!.push({ notification, hookType: hook.hookType });
+      }
+    }
+
+    // Delivery preferences: quiet hours, digest mode, daily budget by priority
+    const pushCounts = await loadPushCountsToday(
+      new Map([...candidates.keys()].map(userId => [userId, users.get(userId)!.delivery])),
+      now,
+      db
+    );
+    const pushItems: RadarPushItem[] = [];
+    const deferred: RadarDeliveryPlan = { push: [], held: [], feedOnly: [] };
+
+    for (const [userId, userCandidates] of candidates) {
+      const user = users.get(userId)!;
+      const plan = planRadarDelivery(userCandidates, user.delivery, pushCounts.get(userId) || 0, now);
+      pushItems.push(...plan.push.map(notification => ({ notification, pushToken: user.pushToken! })));
+      deferred.held.push(...plan.held);
+      deferred.feedOnly.push(...plan.feedOnly);
+    }
+
+    metrics.pushesHeld = deferred.held.length;
+    metrics.pushesOverBudget = deferred.feedOnly.length;
+    await applyDeliveryPlan(deferred, db);
+
+    if (pushItems.length > 0) {
+      metrics.pushesSent = await sendPushBatch(pushItems, db);
+    }
+
+    await createEventWatches(watchRows, db);
+
+    // 6. Digests: held alerts whose digest time (or end of quiet hours) has come
+    const digests = await collectDueDigests(db, now);
+    metrics.digestsCreated = digests.digestsCreated;
+    if (digests.pushItems.length > 0) {
+      metrics.pushesSent += await sendDigestPushBatch(digests.pushItems, db);
+    }
+
+    metrics.durationMs = Date.now() - startedMs;
+    if (failedBatches > 0) {
+      metrics.error = `${failedBatches} notification batch(es) failed to save`;
+      console.error('[RadarSweep] Sweep failed:', metrics);
+    } else {
+      console.log('[RadarSweep] Sweep finished:', metrics);
+    }
+    await finishRun(db, metrics, now, metrics.error);
+    return metrics;
+  } catch (err) {
+    metrics.durationMs = Date.now() - startedMs;
+    metrics.error = err instanceof Error ? err.message : String(err);
+    console.error('[RadarSweep] Sweep failed:', err);
+    await finishRun(db, metrics, now, metrics.error);
+    return metrics;
+  }
+}
@@ -0,0 +1,452 @@
+/**
+ * Radar Watch Service — Follow-Up Alerts on Alerted Events
+ *
+ * A radar alert used to be the end of the story. Every event alert now
+ * starts a watch (radar_event_watches, migration 046); the scheduled sweep
+ * compares each watched event's latest snapshot with the previous one and
+ * sends follow-ups, each at most once per watch:
+ * - onsale:        general on-sale opened
+ * - presale:       a presale window opened
+ * - price_drop:    lowest price at or under the user's threshold
+ * - low_inventory: source reports few tickets left
+ *
+ * On-sale and presale times come with the listing, so those fire on the
+ * sweep's clock even when the event wasn't re-fetched this run. Price and
+ * inventory changes need fresh data, so the sweep re-fetches entities with
+ * watched events every refreshHours instead of weekly. Snapshots that
+ * changed are also kept in event_snapshots as a per-event history.
+ *
+ * Server-side functions take the database client (the sweep's service-role
+ * client); the price threshold is set from the alert card with the app's.
+ */
+
+import { supabase } from '@/lib/supabase';
+import type {
+  CachedEvent,
+  HookNotification,
+  RadarEventData,
+  RadarEventSnapshot,
+  RadarEventWatch,
+  RadarFollowUp,
+} from '@/types/radar';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEMO_USER_ID = 'demo-user-123';
+
+export const RADAR_WATCH_CONFIG = {
+  /** Watches read per page */
+  pageSize: 1000,
+  /** Rows per IN query / insert / upsert */
+  batchSize: 500,
+  /** Re-fetch entities with watched events at least this often */
+  refreshHours: 6,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function chunk<T>(items: T[], size: number = RADAR_WATCH_CONFIG.batchSize): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+// ============================================================================
+// SNAPSHOTS
+// ============================================================================
+
+/** The sale and price fields of an event right now */
+export function snapshotEvent(event: CachedEvent, now: Date = new Date()): RadarEventSnapshot {
+  return {
+    priceMin: event.priceMin,
+    priceMax: event.priceMax,
+    currency: event.currency,
+    saleStatus: event.saleStatus,
+    onSaleAt: event.onSaleAt,
+    presales: event.presales?.length ? event.presales : undefined,
+    availability: event.availability,
+    capturedAt: now.toISOString(),
+  };
+}
+
+const SNAPSHOT_FIELDS = ['priceMin', 'priceMax', 'currency', 'saleStatus', 'onSaleAt', 'availability'] as const;
+
+/** Whether anything but the capture time differs */
+export function snapshotsDiffer(a: RadarEventSnapshot | undefined, b: RadarEventSnapshot): boolean {
+  if (!a) return true;
+  return SNAPSHOT_FIELDS.some(field => a[field] !== b[field])
+    || JSON.stringify(a.presales || []) !== JSON.stringify(b.presales || []);
+}
+
+/**
+ * event_snapshots rows for a refreshed event_cache entry: events that are
+ * new, or whose sale/price fields changed since the cached copy.
+ */
+export function buildSnapshotRows(
+  cacheKey: string,
+  previous: CachedEvent[],
+  events: CachedEvent[],
+  now: Date = new Date()
+): Record<string, unknown>[] {
+  const previousById = new Map(previous.map(e => [e.id, e]));
+
+  return events
+    .map(event => {
+      const before = previousById.get(event.id);
+      const snapshot = snapshotEvent(event, now);
+      if (before && !snapshotsDiffer(snapshotEvent(before, now), snapshot)) return null;
+      return { cache_key: cacheKey, event_key: event.id, snapshot, captured_at: now.toISOString() };
+    })
+    .filter(Boolean) as Record<string, unknown>[];
+}
+
+/** Append snapshot history (best effort — a failure only loses history) */
+export async function recordEventSnapshots(rows: Record<string, unknown>[], client: any = supabase): Promise<void> {
+  for (const batch of chunk(rows)) {
+    const { error } = await client.from('event_snapshots').insert(batch);
+    if (error) console.error('[RadarWatch] Error recording event snapshots:', error);
+  }
+}
+
+// ============================================================================
+// DIFFING
+// ============================================================================
+
+/**
+ * Whether general sale is open at a time. A listing still marked 'offsale'
+ * counts once its on-sale time has passed: the status is only as current as
+ * the last fetch, while the on-sale time is known in advance.
+ */
+export function isOnSale(snapshot: RadarEventSnapshot, at: Date): boolean {
+  const started = !snapshot.onSaleAt || new Date(snapshot.onSaleAt) <= at;
+  if (snapshot.saleStatus === 'onsale') return started;
+  if (!snapshot.saleStatus || snapshot.saleStatus === 'offsale') return !!snapshot.onSaleAt && started;
+  return false;
+}
+
+function presaleTriggerKey(name: string): string {
+  return `presale:${name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '')}`;
+}
+
+function formatPrice(price: number): string {
+  return Number.isInteger(price) ? `$${price}` : `$${price.toFixed(2)}`;
+}
+
+/**
+ * Follow-ups due for a watched event, comparing its previous snapshot with
+ * the latest. Triggers already in firedTriggers are skipped.
+ *
+ * No previous snapshot means the watch was just created: the event as
+ * alerted is the baseline and nothing fires.
+ */
+export function diffEventSnapshots(
+  previous: RadarEventSnapshot | undefined,
+  next: RadarEventSnapshot,
+  watch: Pick<RadarEventWatch, 'eventName' | 'eventData' | 'priceThreshold' | 'firedTriggers'>,
+  now: Date = new Date()
+): RadarFollowUp[] {
+  if (!previous || next.saleStatus === 'cancelled') return [];
+
+  const fired = new Set(watch.firedTriggers);
+  const followUps: RadarFollowUp[] = [];
+  const name = watch.eventName;
+
+  if (!fired.has('onsale') && !isOnSale(previous, new Date(previous.capturedAt)) && isOnSale(next, now)) {
+    followUps.push({
+      kind: 'onsale',
+      triggerKey: 'onsale',
+      title: `On sale now: ${name}`,
+      body: next.priceMin != null
+        ? `General on-sale is open — from ${formatPrice(next.priceMin)}`
+        : 'General on-sale is open',
+    });
+  }
+
+  for (const presale of next.presales || []) {
+    const triggerKey = presaleTriggerKey(presale.name);
+    const open = new Date(presale.startAt) <= now && (!presale.endAt || new Date(presale.endAt) > now);
+    if (!open || fired.has(triggerKey)) continue;
+    fired.add(triggerKey);
+    followUps.push({
+      kind: 'presale',
+      triggerKey,
+      title: `Presale open: ${name}`,
+      body: presale.endAt
+        ? `${presale.name} presale is open until ${presale.endAt.slice(0, 10)}`
+        : `${presale.name} presale is open`,
+    });
+  }
+
+  const threshold = watch.priceThreshold;
+  if (threshold != null && next.priceMin != null && next.priceMin <= threshold) {
+    const triggerKey = `price:${threshold}`;
+    const dropped = previous.priceMin == null || previous.priceMin > threshold || next.priceMin < previous.priceMin;
+    if (dropped && !fired.has(triggerKey)) {
+      followUps.push({
+        kind: 'price_drop',
+        triggerKey,
+        title: `Price drop: ${name}`,
+        body: `Now from ${formatPrice(next.priceMin)} — under your ${formatPrice(threshold)} alert`,
+      });
+    }
+  }
+
+  if (!fired.has('low_inventory') && next.availability === 'limited' && previous.availability !== 'limited') {
+    const where = [watch.eventData.venue, watch.eventData.date].filter(Boolean).join(', ');
+    followUps.push({
+      kind: 'low_inventory',
+      triggerKey: 'low_inventory',
+      title: `Few tickets left: ${name}`,
+      body: where ? `${where} - going fast` : 'Going fast',
+    });
+  }
+
+  return followUps;
+}
+
+// ============================================================================
+// WATCH ROWS
+// ============================================================================
+
+/** radar_event_watches row for a new event alert */
+export function buildEventWatchRow(
+  notification: Pick<HookNotification, 'id' | 'userId' | 'hookId'>,
+  event: CachedEvent,
+  eventData: RadarEventData,
+  now: Date = new Date()
+): Record<string, unknown> {
+  return {
+    user_id: notification.userId,
+    hook_id: notification.hookId,
+    notification_id: notification.id,
+    event_key: event.id,
+    event_name: event.name,
+    event_date: event.date.slice(0, 10),
+    event_data: eventData,
+    last_snapshot: snapshotEvent(event, now),
+    fired_triggers: [],
+    is_active: true,
+    updated_at: now.toISOString(),
+  };
+}
+
+/** Start watching events a user was just alerted to (one watch per user × event) */
+export async function createEventWatches(rows: Record<string, unknown>[], client: any = supabase): Promise<void> {
+  for (const batch of chunk(rows)) {
+    const { error } = await client
+      .from('radar_event_watches')
+      .upsert(batch, { onConflict: 'user_id,event_key', ignoreDuplicates: true });
+    if (error) console.error('[RadarWatch] Error creating event watches:', error);
+  }
+}
+
+/** hook_notifications row for a follow-up; its event_key is unique per trigger */
+export function buildFollowUpNotificationRow(
+  watch: RadarEventWatch,
+  followUp: RadarFollowUp,
+  snapshot: RadarEventSnapshot
+): Record<string, unknown> {
+  const eventData: RadarEventData = {
+    ...watch.eventData,
+    priceMin: snapshot.priceMin ?? watch.eventData.priceMin,
+    priceMax: snapshot.priceMax ?? watch.eventData.priceMax,
+  };
+
+  return {
+    user_id: watch.userId,
+    hook_id: watch.hookId,
+    title: followUp.title,
+    body: followUp.body,
+    event_data: eventData,
+    source: eventData.source,
+    event_key: `${watch.eventKey}:${followUp.triggerKey}`,
+    alert_kind: followUp.kind,
+    status: 'pending',
+    expires_at: new Date(new Date(watch.eventDate).getTime() + DAY_MS).toISOString(),
+  };
+}
+
+export function mapDbRowToWatch(row: any): RadarEventWatch {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    hookId: row.hook_id,
+    notificationId: row.notification_id || undefined,
+    eventKey: row.event_key,
+    eventName: row.event_name,
+    eventDate: row.event_date,
+    eventData: row.event_data || { name: row.event_name },
+    priceThreshold: row.price_threshold != null ? Number(row.price_threshold) : undefined,
+    lastSnapshot: row.last_snapshot || undefined,
+    firedTriggers: row.fired_triggers || [],
+    isActive: row.is_active,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at || undefined,
+  };
+}
+
+// ============================================================================
+// SWEEP
+// ============================================================================
+
+export interface EventWatchCheck {
+  watchesChecked: number;
+  /** Follow-up hook_notifications rows to insert */
+  notificationRows: Record<string, unknown>[];
+  /** Watch changes (new snapshot, fired triggers), saved once the follow-ups are in */
+  watchUpdates: { id: string; values: Record<string, unknown> }[];
+}
+
+/** Active watches on events that haven't happened yet */
+export async function loadActiveWatches(client: any, now: Date): Promise<RadarEventWatch[]> {
+  const watches: RadarEventWatch[] = [];
+  const today = now.toISOString().slice(0, 10);
+  const pageSize = RADAR_WATCH_CONFIG.pageSize;
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await client
+      .from('radar_event_watches')
+      .select('*')
+      .eq('is_active', true)
+      .gte('event_date', today)
+      .order('id')
+      .range(from, from + pageSize - 1);
+
+    if (error) throw new Error(`Loading event watches failed: ${error.message}`);
+    watches.push(...(data || []).map(mapDbRowToWatch));
+    if (!data || data.length < pageSize) break;
+  }
+
+  return watches;
+}
+
+/**
+ * Compare every active watch with its event's latest data and collect the
+ * follow-ups due. Events fetched this run give fresh prices and inventory;
+ * other watches are re-checked against their last snapshot for on-sale and
+ * presale times passing. Nothing is saved: the caller inserts the follow-ups,
+ * then saves watchUpdates, so a failed insert leaves the triggers unfired.
+ *
+ * @param watches - From loadActiveWatches()
+ * @param freshEvents - Events fetched from providers this run, by event ID
+ * @param activeHookIds - Radars still active; watches on others are skipped
+ */
+export function checkEventWatches(
+  watches: RadarEventWatch[],
+  freshEvents: Map<string, CachedEvent>,
+  activeHookIds: Set<string>,
+  now: Date = new Date()
+): EventWatchCheck {
+  const checked = watches.filter(w => activeHookIds.has(w.hookId));
+  const notificationRows: Record<string, unknown>[] = [];
+  const watchUpdates: EventWatchCheck['watchUpdates'] = [];
+
+  for (const watch of checked) {
+    const fresh = freshEvents.get(watch.eventKey);
+    const next = fresh
+      ? snapshotEvent(fresh, now)
+      : watch.lastSnapshot && { ...watch.lastSnapshot, capturedAt: now.toISOString() };
+    if (!next) continue;
+
+    const followUps = diffEventSnapshots(watch.lastSnapshot, next, watch, now);
+    notificationRows.push(...followUps.map(f => buildFollowUpNotificationRow(watch, f, next)));
+
+    // Unchanged snapshots keep their capture time, so on-sale times are
+    // compared against when the data was last different
+    if (followUps.length === 0 && !snapshotsDiffer(watch.lastSnapshot, next)) continue;
+
+    watchUpdates.push({
+      id: watch.id,
+      values: {
+        last_snapshot: next,
+        fired_triggers: [...watch.firedTriggers, ...followUps.map(f => f.triggerKey)],
+        is_active: next.saleStatus !== 'cancelled',
+        updated_at: now.toISOString(),
+      },
+    });
+  }
+
+  return { watchesChecked: checked.length, notificationRows, watchUpdates };
+}
+
+/** Save the watch changes from checkEventWatches() */
+export async function saveEventWatchUpdates(
+  updates: EventWatchCheck['watchUpdates'],
+  client: any = supabase
+): Promise<void> {
+  for (const { id, values } of updates) {
+    const { error } = await client.from('radar_event_watches').update(values).eq('id', id);
+    if (error) console.error('[RadarWatch] Error updating event watch:', error);
+  }
+}
+
+// ============================================================================
+// PRICE THRESHOLD (alert card)
+// ============================================================================
+
+/**
+ * Alert when an event's lowest price drops to the threshold (null clears
+ * it). Creates the watch if the alert predates watches.
+ */
+export async function setEventPriceThreshold(
+  userId: string,
+  notification: HookNotification,
+  threshold: number | null
+): Promise<boolean> {
+  if (userId === DEMO_USER_ID) return true;
+
+  const eventKey = notification.eventKey;
+  const eventData = notification.eventData;
+  if (!eventKey || !eventData?.date) {
+    console.warn('[RadarWatch] Alert has no event to watch:', notification.id);
+    return false;
+  }
+
+  try {
+    const now = new Date();
+    const { data: updated, error } = await supabase
+      .from('radar_event_watches')
+      .update({ price_threshold: threshold, is_active: true, updated_at: now.toISOString() })
+      .eq('user_id', userId)
+      .eq('event_key', eventKey)
+      .select('id');
+
+    if (error) {
+      console.error('[RadarWatch] Error setting price threshold:', error);
+      return false;
+    }
+    if (updated && updated.length > 0) return true;
+
+    const { error: insertError } = await supabase
+      .from('radar_event_watches')
+      .insert({
+        user_id: userId,
+        hook_id: notification.hookId,
+        notification_id: notification.id,
+        event_key: eventKey,
+        event_name: eventData.name,
+        event_date: eventData.date.slice(0, 10),
+        event_data: eventData,
+        price_threshold: threshold,
+        last_snapshot: {
+          priceMin: eventData.priceMin,
+          priceMax: eventData.priceMax,
+          currency: eventData.currency,
+          capturedAt: now.toISOString(),
+        },
+        fired_triggers: [],
+        is_active: true,
+      });
+
+    if (insertError) {
+      console.error('[RadarWatch] Error creating event watch:', insertError);
+      return false;
+    }
+    return true;
+  } catch (err) {
+    console.error('[RadarWatch] Exception setting price threshold:', err);
+    return false;
+  }
+}
@@ -0,0 +1,404 @@
+/**
+ * Ranking Evaluation
+ *
+ * Offline metrics for replaying logged feeds through the recommendation
+ * engine. A replay session is one user's exported `recommendation_tracking`
+ * and `feedback` rows (JSON fixture). The logged recommendations become the
+ * candidate pool, their outcomes become graded relevance judgments, and a
+ * ranker (normally generateRecommendations with Places stubbed) re-orders
+ * the pool once per discovery style.
+ *
+ * Metrics per discovery style:
+ * - NDCG@k: graded relevance (accepted / thumbs up > viewed > everything else)
+ * - Hit-rate@k: share of sessions with at least one strong positive in the top k
+ * - Category diversity@k: distinct categories / items in the top k
+ * - Novelty@k: share of the top k outside categories the user already engages with
+ *
+ * The jest replay lives in __tests__/eval/ranking-replay.test.ts
+ * (`npm run eval:ranking`).
+ */
+
+import { getCategoryById, INTEREST_GROUPS } from '@/constants/activity-categories';
+import type { User, DiscoveryStyle } from '@/types/database';
+import type { Activity, Recommendation } from '@/types/activity';
+import type { PlaceLocation } from './places-common';
+import { asAIProfile, asInterests } from './scoring-pipeline';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Exported recommendation_tracking row (subset the replay needs) */
+export interface TrackingFixtureRow {
+  user_id: string;
+  google_place_id: string;
+  place_name: string;
+  category: string;
+  status: 'pending' | 'viewed' | 'accepted' | 'declined' | 'not_interested' | 'expired';
+  created_at: string;
+  recommendation_data: Pick<Recommendation, 'id' | 'title' | 'category' | 'priceRange' | 'rating'> & {
+    activity?: Activity;
+  };
+}
+
+/**
+ * Exported feedback row. As in generateRecommendations, activity_id is
+ * matched against the Google place_id.
+ */
+export interface FeedbackFixtureRow {
+  user_id: string;
+  activity_id: string;
+  rating: 'thumbs_up' | 'thumbs_down';
+  feedback_tags?: string[];
+  created_at: string;
+}
+
+export interface ReplaySession {
+  id: string;
+  description?: string;
+  /** Local wall-clock time the logged feed was generated (no offset) */
+  capturedAt: string;
+  user: User;
+  userLocation: PlaceLocation;
+  homeLocation?: PlaceLocation;
+  recommendation_tracking: TrackingFixtureRow[];
+  feedback: FeedbackFixtureRow[];
+}
+
+export interface RankedItem {
+  placeId: string;
+  category: string;
+}
+
+/** Re-ranks a session's candidate pool as if the user had `style` */
+export type SessionRanker = (session: ReplaySession, style: DiscoveryStyle) => Promise<RankedItem[]>;
+
+export interface SessionMetrics {
+  sessionId: string;
+  style: DiscoveryStyle;
+  ndcg: number;
+  hitRate: number;
+  diversity: number;
+  novelty: number;
+  ranked: number;
+}
+
+export interface StyleReport {
+  style: DiscoveryStyle;
+  sessions: number;
+  ndcg: number;
+  hitRate: number;
+  diversity: number;
+  novelty: number;
+}
+
+export type EvalMetric = 'ndcg' | 'hitRate' | 'diversity' | 'novelty';
+
+export interface MetricDrift {
+  style: DiscoveryStyle;
+  metric: EvalMetric;
+  baseline: number;
+  current: number;
+  delta: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const EVAL_STYLES: DiscoveryStyle[] = ['explorer', 'balanced', 'creature_of_habit'];
+
+export const EVAL_METRICS: EvalMetric[] = ['ndcg', 'hitRate', 'diversity', 'novelty'];
+
+/** Default cutoff — roughly one screen of feed cards */
+export const DEFAULT_EVAL_K = 5;
+
+/** Graded relevance per tracking status */
+const STATUS_GAIN: Record<TrackingFixtureRow['status'], number> = {
+  accepted: 3,
+  viewed: 1,
+  pending: 0,
+  expired: 0,
+  declined: 0,
+  not_interested: 0,
+};
+
+/** Gain for a thumbs up given after the session */
+const THUMBS_UP_GAIN = 3;
+
+/** Minimum gain that counts as a hit */
+const HIT_GAIN = 3;
+
+// ============================================================================
+// FIXTURE HELPERS
+// ============================================================================
+
+/**
+ * Split feedback into rows the engine could have seen when the feed was
+ * generated (history) and rows given afterwards (labels). Feeding label
+ * rows to the scorer would leak the answer into the ranking.
+ */
+export function splitFeedback(session: ReplaySession): {
+  history: FeedbackFixtureRow[];
+  labels: FeedbackFixtureRow[];
+} {
+  const cutoff = new Date(session.capturedAt).getTime();
+  const history: FeedbackFixtureRow[] = [];
+  const labels: FeedbackFixtureRow[] = [];
+
+  session.feedback.forEach(row => {
+    if (new Date(row.created_at).getTime() < cutoff) history.push(row);
+    else labels.push(row);
+  });
+
+  return { history, labels };
+}
+
+/**
+ * Graded relevance per place_id. Thumbs down after the session always
+ * zeroes the gain; thumbs up raises it to at least THUMBS_UP_GAIN.
+ */
+export function buildJudgments(session: ReplaySession): Map<string, number> {
+  const judgments = new Map<string, number>();
+
+  session.recommendation_tracking.forEach(row => {
+    judgments.set(row.google_place_id, STATUS_GAIN[row.status] ?? 0);
+  });
+
+  splitFeedback(session).labels.forEach(row => {
+    if (row.rating === 'thumbs_down') {
+      judgments.set(row.activity_id, 0);
+    } else {
+      judgments.set(row.activity_id, Math.max(judgments.get(row.activity_id) || 0, THUMBS_UP_GAIN));
+    }
+  });
+
+  return judgments;
+}
+
+/**
+ * Categories the user already engages with: stated interests, AI favorites
+ * and categories of places they rated thumbs up before the session.
+ */
+export function getFamiliarCategories(session: ReplaySession): Set<string> {
+  const familiar = new Set<string>([
+    ...asInterests(session.user.interests),
+    ...(asAIProfile(session.user.ai_profile).favorite_categories || []),
+  ]);
+
+  const categoryByPlace = new Map(
+    session.recommendation_tracking.map(row => [row.google_place_id, row.category])
+  );
+  splitFeedback(session).history.forEach(row => {
+    const category = categoryByPlace.get(row.activity_id);
+    if (row.rating === 'thumbs_up' && category) familiar.add(category);
+  });
+
+  return familiar;
+}
+
+/**
+ * Map a user-facing category label ("Dining") back to a Google place type
+ * ("restaurant") so the engine's mapPlaceTypeToCategory round-trips it.
+ * Values that aren't interest labels are assumed to be place types already.
+ */
+export function labelToPlaceType(label: string): string {
+  const group = INTEREST_GROUPS[label];
+  if (!group) return label;
+
+  for (const id of group.categoryIds) {
+    const type = getCategoryById(id)?.googlePlacesTypes?.[0];
+    if (type) return type;
+  }
+  return label;
+}
+
+/**
+ * Rebuild the cached Activity a logged recommendation was generated from.
+ * Used to stub the city cache so the engine scores the same candidate pool.
+ */
+export function trackingRowToActivity(row: TrackingFixtureRow): Activity {
+  const logged = row.recommendation_data.activity;
+
+  return {
+    ...logged,
+    id: logged?.id || row.google_place_id,
+    googlePlaceId: row.google_place_id,
+    name: logged?.name || row.place_name,
+    category: labelToPlaceType(logged?.category || row.category),
+    location: logged?.location || { latitude: 0, longitude: 0, address: '' },
+    rating: logged?.rating ?? row.recommendation_data.rating,
+    priceRange: logged?.priceRange ?? row.recommendation_data.priceRange,
+  };
+}
+
+// ============================================================================
+// METRICS
+// ============================================================================
+
+function dcg(gains: number[]): number {
+  return gains.reduce((sum, gain, i) => sum + (Math.pow(2, gain) - 1) / Math.log2(i + 2), 0);
+}
+
+/**
+ * Normalized discounted cumulative gain at k. The ideal ordering is built
+ * from every judged place, so items the ranker dropped still count against it.
+ * Returns 0 when nothing in the session was relevant.
+ */
+export function ndcgAtK(rankedIds: string[], judgments: Map<string, number>, k: number): number {
+  const ideal = dcg(
+    Array.from(judgments.values())
+      .sort((a, b) => b - a)
+      .slice(0, k)
+  );
+  if (ideal === 0) return 0;
+
+  return dcg(rankedIds.slice(0, k).map(id => judgments.get(id) || 0)) / ideal;
+}
+
+/** 1 if any strong positive (accepted / thumbs up) is in the top k */
+export function hitAtK(rankedIds: string[], judgments: Map<string, number>, k: number): number {
+  return rankedIds.slice(0, k).some(id => (judgments.get(id) || 0) >= HIT_GAIN) ? 1 : 0;
+}
+
+/** Distinct categories over items shown in the top k (1 = all different) */
+export function categoryDiversityAtK(items: RankedItem[], k: number): number {
+  const top = items.slice(0, k);
+  if (top.length === 0) return 0;
+  return new Set(top.map(item => item.category)).size / top.length;
+}
+
+/** Share of the top k in categories the user doesn't already engage with */
+export function noveltyAtK(items: RankedItem[], familiar: Set<string>, k: number): number {
+  const top = items.slice(0, k);
+  if (top.length === 0) return 0;
+  return top.filter(item => !familiar.has(item.category)).length / top.length;
+}
+
+export function evaluateRanking(
+  session: ReplaySession,
+  ranked: RankedItem[],
+  style: DiscoveryStyle,
+  k: number = DEFAULT_EVAL_K
+): SessionMetrics {
+  const judgments = buildJudgments(session);
+  const rankedIds = ranked.map(item => item.placeId);
+
+  return {
+    sessionId: session.id,
+    style,
+    ndcg: ndcgAtK(rankedIds, judgments, k),
+    hitRate: hitAtK(rankedIds, judgments, k),
+    diversity: categoryDiversityAtK(ranked, k),
+    novelty: noveltyAtK(ranked, getFamiliarCategories(session), k),
+    ranked: ranked.length,
+  };
+}
+
+/** Mean of each metric per discovery style, in EVAL_STYLES order */
+export function summarizeByStyle(metrics: SessionMetrics[]): StyleReport[] {
+  return EVAL_STYLES
+    .map(style => {
+      const rows = metrics.filter(m => m.style === style);
+      const mean = (metric: EvalMetric) =>
+        rows.length > 0 ? rows.reduce((sum, row) => sum + row[metric], 0) / rows.length : 0;
+
+      return {
+        style,
+        sessions: rows.length,
+        ndcg: mean('ndcg'),
+        hitRate: mean('hitRate'),
+        diversity: mean('diversity'),
+        novelty: mean('novelty'),
+      };
+    })
+    .filter(report => report.sessions > 0);
+}
+
+// ============================================================================
+// REPLAY
+// ============================================================================
+
+/**
+ * Replay every session under every discovery style and score the result.
+ * Sessions run sequentially so rankers can install per-session stubs.
+ */
+export async function replaySessions(
+  sessions: ReplaySession[],
+  rank: SessionRanker,
+  options: { styles?: DiscoveryStyle[]; k?: number } = {}
+): Promise<{ metrics: SessionMetrics[]; reports: StyleReport[] }> {
+  const { styles = EVAL_STYLES, k = DEFAULT_EVAL_K } = options;
+  const metrics: SessionMetrics[] = [];
+
+  for (const session of sessions) {
+    for (const style of styles) {
+      const ranked = await rank(session, style);
+      metrics.push(evaluateRanking(session, ranked, style, k));
+    }
+  }
+
+  return { metrics, reports: summarizeByStyle(metrics) };
+}
+
+/**
+ * Compare reports against a saved baseline. Returns every metric that moved
+ * by more than `tolerance` in either direction.
+ */
+export function compareToBaseline(
+  reports: StyleReport[],
+  baseline: Partial<Record<DiscoveryStyle, Record<EvalMetric, number>>>,
+  tolerance: number = 0.02
+): MetricDrift[] {
+  const drifts: MetricDrift[] = [];
+
+  reports.forEach(report => {
+    const saved = baseline[report.style];
+    if (!saved) return;
+
+    EVAL_METRICS.forEach(metric => {
+      const delta = report[metric] - saved[metric];
+      if (Math.abs(delta) > tolerance) {
+        drifts.push({ style: report.style, metric, baseline: saved[metric], current: report[metric], delta });
+      }
+    });
+  });
+
+  return drifts;
+}
+
+/** Baseline shape written by the replay when UPDATE_RANKING_BASELINE=1 */
+export function toBaseline(reports: StyleReport[]): Partial<Record<DiscoveryStyle, Record<EvalMetric, number>>> {
+  const round = (n: number) => Math.round(n * 1000) / 1000;
+  return Object.fromEntries(
+    reports.map(r => [r.style, {
+      ndcg: round(r.ndcg),
+      hitRate: round(r.hitRate),
+      diversity: round(r.diversity),
+      novelty: round(r.novelty),
+    }])
+  );
+}
+
+/** Plain-text table for the console */
+export function formatEvalReport(reports: StyleReport[], k: number = DEFAULT_EVAL_K): string {
+  const header = [
+    'style'.padEnd(20),
+    'sessions'.padStart(8),
+    `NDCG@${k}`.padStart(7),
+    `hit@${k}`.padStart(6),
+    `diversity@${k}`.padStart(12),
+    `novelty@${k}`.padStart(10),
+  ].join('  ');
+  const lines = reports.map(r =>
+    [
+      r.style.padEnd(20),
+      String(r.sessions).padStart(8),
+      r.ndcg.toFixed(3).padStart(7),
+      r.hitRate.toFixed(3).padStart(6),
+      r.diversity.toFixed(3).padStart(12),
+      r.novelty.toFixed(3).padStart(10),
+    ].join('  ')
+  );
+  return [header, ...lines].join('\n');
+}
@@ -16,8 +16,8 @@ const DEBUG_RECS = false;
 import { getCachedUnsplashImage } from './unsplash';
 import { getBusinessHours, suggestVisitTime } from '@/utils/business-hours';
 import { supabase } from '@/lib/supabase';
-import type { User, DiscoveryStyle } from '@/types/database';
-import type { Activity, UnifiedActivity, SearchParams as MultiSourceSearchParams } from '@/types/activity';
+import type { User, DiscoveryStyle, Json } from '@/types/database';
+import type { Activity, Recommendation, UnifiedActivity, SearchParams as MultiSourceSearchParams } from '@/types/activity';
 
 // Multi-source integration
 import { activitySources, isMixedFeedEnabled } from './activity-source';
@@ -32,6 +32,15 @@ import './ticketmaster-service'; // Import to ensure Ticketmaster service is reg
 import { detectUserCity, detectUserCityWithFallback } from './city-detection';
 import { checkCityCache, seedCityData, getCachedPlaces } from './cache-manager';
 
+// Sponsored placement (slot caps, spacing, frequency capping)
+import {
+  allocateSponsoredSlots,
+  getSponsorImpressionCounts,
+  isSponsoredTier,
+  logSlotDecisions,
+} from './sponsored-slots';
+import type { SponsorTier } from './sponsored-slots';
+
 // Curated recommendations (first-session magic)
 import { getCuratedRecommendations, getAgeBracketFromUser } from './curated-service';
 
@@ -43,61 +52,17 @@ import {
   categoryMatchesInterests,
 } from '@/constants/activity-categories';
 
-// NEW: Data source integrations (Day 1 Sprint)
-import { matchFacebookLikedPlace } from './facebook-graph';
-import { matchTimelineVisitedPlace, calculateFreshnessFactor } from './google-timeline';
-import type { FacebookData, GoogleTimelineData, AIProfile, CalendarPattern } from '@/types/user';
-
-// ─── Supabase Json → typed helpers ──────────────────────────────────────
-// The DB `User` type stores interests/preferences/ai_profile as opaque `Json`.
-// These helpers cast them to the shapes the engine actually expects.
-
-import type { Json } from '@/types/database';
-
-/** Safely cast user.interests (Json) to string[] */
-function asInterests(raw: Json): string[] {
-  return Array.isArray(raw) ? (raw as string[]) : [];
-}
-
-/** Safely cast user.preferences (Json) to the expected shape */
-interface UserPrefsShape {
-  budget?: number;
-  max_distance_miles?: number;
-  preferred_times?: string[];
-  notification_enabled?: boolean;
-  discovery_style?: DiscoveryStyle;
-}
-function asPreferences(raw: Json): UserPrefsShape {
-  if (raw && typeof raw === 'object' && !Array.isArray(raw)) return raw as unknown as UserPrefsShape;
-  return {};
-}
+// Scoring pipeline: named signals registered in scoring-signals.ts
+import { scoringSignals, asInterests, asPreferences, asAIProfile } from './scoring-pipeline';
+import type { ScoringContext, SignalContribution, ExtendedUser } from './scoring-pipeline';
+import { DISCOVERY_STYLE_CONFIG } from './scoring-signals';
+import { getCurrentTimeOfDay, ensureTimeOfDayModel, formatTimeOfDayHeatmap } from './time-preferences';
 
-/** Safely cast user.ai_profile (Json) to AIProfile-like shape */
-interface AIProfileShape {
-  preferred_distance_miles?: number;
-  budget_level?: number;
-  favorite_categories?: string[];
-  disliked_categories?: string[];
-  price_sensitivity?: string;
-  time_preferences?: string[];
-  distance_tolerance?: string;
-  calendar_patterns?: CalendarPattern[];
-}
-function asAIProfile(raw: Json): AIProfileShape {
-  if (raw && typeof raw === 'object' && !Array.isArray(raw)) return raw as unknown as AIProfileShape;
-  return {};
-}
-
-/**
- * Extended User that may carry optional OAuth/demographic fields
- * not present in the Supabase schema type but attached at runtime.
- */
-interface ExtendedUser extends User {
-  facebook_data?: FacebookData;
-  google_timeline?: GoogleTimelineData;
-  birth_year?: number | null;
-  age_bracket?: string | null;
-}
+// Per-user A/B experiments (variant params for ranking)
+import { exposeExperiment, getExperimentParams } from './experiment-service';
+import { loadCollaborativeMatches, describeCollaborativeMatch } from './collaborative-filtering';
+import type { CollaborativeMatch } from './collaborative-filtering';
+import { getFactorWeights, toSignalWeights } from './score-explanation';
 
 // Generic place patterns to filter (unless user has positive feedback history)
 const GENERIC_PLACE_PATTERNS = [
@@ -134,13 +99,8 @@ const GENERIC_PLACE_PATTERNS = [
   /laundromat/i, /car wash/i, /storage/i, /self storage/i,
 ];
 
-// Discovery style scoring configuration
-// Shapes how aggressively Loop favours familiar vs novel places
-export const DISCOVERY_STYLE_CONFIG = {
-  explorer:          { nonMatchingBase: 18, visitMultiplier: 0.5, recencyMultiplier: 0.5, maxPerCategory: 2, categoryGroups: 8 },
-  balanced:          { nonMatchingBase: 12, visitMultiplier: 1.0, recencyMultiplier: 1.0, maxPerCategory: 3, categoryGroups: 5 },
-  creature_of_habit: { nonMatchingBase: 6,  visitMultiplier: 1.5, recencyMultiplier: 0.6, maxPerCategory: 4, categoryGroups: 3 },
-} as const;
+// Discovery style config moved to scoring-signals.ts — re-exported so existing consumers don't break
+export { DISCOVERY_STYLE_CONFIG } from './scoring-signals';
 
 // Shared types — re-exported so existing consumers don't break
 export type { PlaceLocation, PlaceResult } from './places-common';
@@ -742,6 +702,8 @@ export interface ScoredRecommendation {
     friendVisitBoost?: number; // +25 if friend visited in last 7 days
     friendPhotoBoost?: number; // +15 if place has friend moments
     trendingFriendsBoost?: number; // +20 if 2+ friends visited this week
+    ageBracketBoost?: number; // -8 to +10 demographic starting weight
+    signals?: SignalContribution[]; // Per-signal breakdown from the scoring pipeline
     finalScore: number;
   };
   distance: number; // miles
@@ -750,6 +712,7 @@ export interface ScoredRecommendation {
   photoUrls?: string[]; // All photos for carousel (when 3+ available)
   aiExplanation: string;
   isSponsored: boolean;
+  sponsorTier?: SponsorTier;
   businessHours?: any; // Google opening_hours object
   hasEstimatedHours?: boolean;
   suggestedTime?: Date;
@@ -834,6 +797,7 @@ function activityToPlaceResult(activity: Activity): PlaceResult {
       periods: activity.openingHoursPeriods,
     },
     source: 'google_places',
+    sponsor_tier: activity.sponsorTier,
   };
 }
 
@@ -875,11 +839,11 @@ export async function generateRecommendations(
   params: RecommendationParams
 ): Promise<ScoredRecommendation[]> {
   const {
-    user,
+    user: requestUser,
     userLocation,
     homeLocation,
     workLocation,
-    maxDistance = asPreferences(user.preferences).max_distance_miles || 5,
+    maxDistance = asPreferences(requestUser.preferences).max_distance_miles || 5,
     maxResults = 30, // Increased for infinite scroll feed
     timeOfDay,
     priceRange,
@@ -893,6 +857,14 @@ export async function generateRecommendations(
   // Reset photo enrichment circuit breaker for this batch
   resetEnrichmentCounter();
 
+  // Learned time-of-day model: rebuilt when stale and used for this batch,
+  // even if the caller's copy of the profile hasn't caught up yet
+  const requestProfile = asAIProfile(requestUser.ai_profile);
+  const timeOfDayModel = await ensureTimeOfDayModel(requestUser.id, requestProfile.time_of_day_model);
+  const user: User = timeOfDayModel === requestProfile.time_of_day_model
+    ? requestUser
+    : { ...requestUser, ai_profile: { ...requestProfile, time_of_day_model: timeOfDayModel } as unknown as Json };
+
   console.log('Generating recommendations for user:', user.id);
   console.log('User interests:', user.interests);
   console.log('Max distance:', maxDistance, 'miles');
@@ -908,6 +880,10 @@ export async function generateRecommendations(
   // If user has no AI profile and no prior activity, serve hand-curated picks
   // ========================================================================
   const aiProfile = asAIProfile(user.ai_profile);
+  // "Why this?" down-weights the user has chosen, expanded per signal
+  const signalWeights = toSignalWeights(getFactorWeights(user.ai_profile));
+
+  if (DEBUG_RECS) console.log(`🕒 Time-of-day preferences:\n${formatTimeOfDayHeatmap(aiProfile.time_of_day_model)}`);
   const hasFavoriteCategories = (aiProfile.favorite_categories?.length ?? 0) > 0;
   const isFirstSession = !hasFavoriteCategories && !user.last_active_date;
 
@@ -953,6 +929,7 @@ export async function generateRecommendations(
               homeLocation,
               workLocation,
               timeOfDay: currentTOD,
+              signalWeights,
             });
 
             // Use curated explanation if available, otherwise generate one
@@ -1137,6 +1114,11 @@ export async function generateRecommendations(
     console.error('⚠️ Exception fetching feedback:', error);
   }
 
+  // Step 0.95: Collaborative filtering — neighbours of places the user liked,
+  // friends' shared likes, or community favourites on cold start
+  const collaborativeMatches = await loadCollaborativeMatches(user.id);
+  console.log(`🤝 Collaborative filtering: ${collaborativeMatches.size} places matched`);
+
   // Step 1: Query Google Places API for nearby activities
   const radiusMeters = maxDistance * 1609.34; // Convert miles to meters
 
@@ -1241,6 +1223,9 @@ export async function generateRecommendations(
   const discoveryStyle: DiscoveryStyle = asPreferences(user.preferences).discovery_style || 'balanced';
   const styleConfig = DISCOVERY_STYLE_CONFIG[discoveryStyle];
 
+  // Feed ranking experiment: variant params shape shuffle + business rules
+  const feedRanking = exposeExperiment('feed_ranking', user.id);
+
   // Query category groups in parallel for variety
   // Discovery style influences base count: explorer=8, balanced=5, creature_of_habit=3
   // Explore mode always overrides to 8; infinite scroll uses styleConfig base
@@ -1582,8 +1567,10 @@ export async function generateRecommendations(
       timeOfDay: Array.isArray(timeOfDay) ? timeOfDay[0] : timeOfDay,
       recentlyShown, // Pass recency map for soft exclusion penalty
       upcomingCalendarEvents, // NEW: Pass calendar events for context-aware location scoring
+      collaborativeMatches, // "People like you loved this"
       discoveryStyle, // Discovery style preference shapes scoring
       discoveryMode: params.discoveryMode, // Fix: pass through for explore vs for_you scoring
+      signalWeights, // User's "Why this?" down-weights
     });
 
     // Removed zero-score threshold filter - let all places through
@@ -1606,6 +1593,7 @@ export async function generateRecommendations(
       distance,
       user,
       scoreBreakdown,
+      collaborative: collaborativeMatches.get(place.place_id),
     });
 
     // Get photo URLs (single + array for carousel)
@@ -1672,7 +1660,8 @@ export async function generateRecommendations(
       photoUrl,
       photoUrls, // Only set if 3+ real photos available
       aiExplanation,
-      isSponsored: false, // TODO: Check if business has sponsored tier
+      isSponsored: isSponsoredTier(place.sponsor_tier),
+      sponsorTier: place.sponsor_tier,
       businessHours: place.opening_hours, // Store Google hours data
       hasEstimatedHours: businessHoursInfo.isEstimated,
       suggestedTime,
@@ -1696,7 +1685,7 @@ export async function generateRecommendations(
     // Randomize Google Places for variety
     // Higher ranked items get less randomization
     const rankFactor = index / scoredRecommendations.length; // 0 to 1
-    const randomOffset = (Math.random() - 0.5) * 10 * rankFactor; // ±5 points max, scaled by rank
+    const randomOffset = (Math.random() - 0.5) * feedRanking.shuffleAmplitude * rankFactor; // ±5 points max (control), scaled by rank
     return {
       ...rec,
       score: rec.score + randomOffset,
@@ -1764,7 +1753,8 @@ export async function generateRecommendations(
   }
 
   // Step 4: Apply business rules (discovery style shapes category diversity)
-  const finalRecommendations = applyBusinessRules(shuffledRecommendations, maxResults, discoveryStyle, user, priceRange);
+  const sponsorImpressions = await getSponsorImpressionCounts(user.id);
+  const finalRecommendations = applyBusinessRules(shuffledRecommendations, maxResults, discoveryStyle, user, priceRange, sponsorImpressions);
 
   console.log(`Returning ${finalRecommendations.length} recommendations`);
 
@@ -1772,659 +1762,54 @@ export async function generateRecommendations(
 }
 
 /**
- * Calculate activity score (0-100 points)
- * Based on MVP algorithm from CLAUDE.md
- * NOW WITH 8 DATA SOURCE INTEGRATIONS (Day 1 Sprint + Feedback Loop):
- * 1. Facebook exact place matches (+30)
- * 2. Facebook category matches (+15)
- * 3. Google Timeline visited places (+20-35)
- * 4. Google Timeline category frequency (+10-20)
- * 5. Calendar patterns (+10-25)
- * 6. Budget/price matching (+15/-10)
- * 7. Loop app visit history (+15-40) - NEW!
- * 8. Loop app feedback ratings (+20/-20) - NEW!
+ * Calculate activity score (0-160 points)
+ * Runs every enabled signal in the scoring pipeline (see scoring-signals.ts)
+ * and maps component totals back onto the legacy breakdown shape.
  */
-function calculateActivityScore(params: {
-  place: PlaceResult;
-  category: string;
-  distance: number;
-  user: User;
-  homeLocation?: PlaceLocation;
-  workLocation?: PlaceLocation;
-  timeOfDay?: string;
-  recentlyShown?: Map<string, { timestamp: number; hoursSince: number }>; // Phase 1.3
-  upcomingCalendarEvents?: Array<{
-    id: string;
-    title: string;
-    start_time: string;
-    location: { coordinates: [number, number] };
-  }>;
-  visitHistoryByAddress?: Map<string, number>; // NEW: Loop app visit counts by address
-  visitHistoryByPlaceId?: Map<string, number>; // NEW: Loop app visit counts by place ID
-  feedbackByPlaceId?: Map<string, { thumbsUp: number; thumbsDown: number; tags: string[] }>; // NEW: Loop app feedback
-  // NEW: Friend social context from Loop Moments
-  friendSocialContext?: Map<string, { // placeId -> context
-    friendVisits: { userId: string; userName: string; visitedAt: string; hasMoment: boolean }[];
-    totalFriendVisits: number;
-    recentFriendVisits: number;
-    hasFriendMoments: boolean;
-    friendMomentsCount: number;
-  }>;
-  discoveryStyle?: DiscoveryStyle;
-  discoveryMode?: 'for_you' | 'explore';
-}): ScoredRecommendation['scoreBreakdown'] {
-  const {
-    place,
-    category,
-    distance,
-    user,
-    homeLocation,
-    workLocation,
-    timeOfDay,
-    recentlyShown,
-    upcomingCalendarEvents,
-    visitHistoryByAddress,
-    visitHistoryByPlaceId,
-    feedbackByPlaceId,
-    friendSocialContext,
-    discoveryStyle = 'balanced',
-  } = params;
-  const styleConfig = DISCOVERY_STYLE_CONFIG[discoveryStyle];
-
-  let baseScore = 0;
-  let locationScore = 0;
-  let timeScore = 0;
-  let feedbackScore = 5; // Neutral default
-  let collaborativeScore = 0;
-  let eventUrgencyScore = 0; // NEW: Urgency bonus for events happening soon
-  let sponsoredBoost = 0;
-
-  // NEW: 8 Data Source Boosts (Day 1 Sprint + Feedback Loop)
-  let facebookExactPlaceBoost = 0;
-  let facebookCategoryBoost = 0;
-  let googleTimelineVisitBoost = 0;
-  let googleTimelineCategoryBoost = 0;
-  let calendarPatternBoost = 0;
-  let budgetBoost = 0;
-  let loopVisitHistoryBoost = 0; // NEW: Visits in Loop app
-  let loopFeedbackBoost = 0; // NEW: User ratings in Loop app
-
-  // NEW: Friend social context boosts (Loop Moments)
-  let friendVisitBoost = 0; // +25 if friend visited in last 7 days
-  let friendPhotoBoost = 0; // +15 if place has friend moments
-  let trendingFriendsBoost = 0; // +20 if 2+ friends visited this week
-
-  // NEW: Age bracket boost (Step 4)
-  let ageBracketBoost = 0;
-
-  // === BASE SCORE (50 → 55 points max for events) ===
-  // Interest match guides scoring but doesn't filter - allow discovery
-  const userInterests = asInterests(user.interests);
-  const topInterests = asAIProfile(user.ai_profile).favorite_categories || userInterests.slice(0, 3);
-  const { discoveryMode = 'for_you' } = params;
-  const isEvent = place.source === 'ticketmaster';
-
-  if (topInterests.includes(category)) {
-    baseScore = 30; // Top 3 interests - STRONG match
-    if (isEvent) baseScore += 5; // Event bonus: unique, one-time opportunities → 35 total
-  } else if (userInterests.includes(category)) {
-    baseScore = 20; // Other interests - GOOD match
-    if (isEvent) baseScore += 3; // Event bonus → 23 total
-  } else {
-    // Discovery mode + discovery style affect non-matching interests
-    if (discoveryMode === 'explore') {
-      baseScore = 15; // More generous in explore mode - encourage discovery
-      if (isEvent) baseScore += 2; // Event bonus → 17 total
-    } else {
-      baseScore = styleConfig.nonMatchingBase; // Shaped by discovery style preference
-      if (isEvent) baseScore += 2; // Event bonus
-    }
-  }
-
-  // Boost based on rating (quality signal)
-  if (place.rating) {
-    if (place.rating >= 4.5) baseScore += 12;
-    else if (place.rating >= 4.0) baseScore += 8;
-    else if (place.rating >= 3.5) baseScore += 4;
-  }
-
-  // POPULARITY BOOST: Trending places with many reviews
-  // This helps surface popular destinations even if not perfect interest match
-  const reviewCount = place.user_ratings_total || 0;
-  if (reviewCount >= 500) baseScore += 8; // Very popular (trending)
-  else if (reviewCount >= 200) baseScore += 5; // Popular
-  else if (reviewCount >= 50) baseScore += 2; // Moderately popular
-
-  baseScore = Math.min(baseScore, 55); // Cap at 55 (raised from 50 to accommodate event bonus)
-
-  // === LOCATION SCORE (20 points max) ===
-  const userMaxDistance = asPreferences(user.preferences).max_distance_miles || 5;
-
-  if (distance <= 0.5) {
-    locationScore = 20; // Very close
-  } else if (distance <= 1) {
-    locationScore = 15; // Walking distance
-  } else if (distance <= userMaxDistance) {
-    locationScore = 10; // Within preferred range
-  } else {
-    locationScore = Math.max(0, 10 - (distance - userMaxDistance) * 2); // Penalty for far
-  }
-
-  // Bonus if near home or work
-  if (homeLocation && calculateDistance(homeLocation, place.geometry.location) <= 1) {
-    locationScore += 5;
-  }
-  if (workLocation && calculateDistance(workLocation, place.geometry.location) <= 1) {
-    locationScore += 5;
-  }
-
-  // === FUTURE CONTEXT BONUS (adds to location score) ===
-  // Boost activities near user's upcoming calendar events
-  let futureContextBonus = 0;
-
-  if (upcomingCalendarEvents && upcomingCalendarEvents.length > 0) {
-    for (const calendarEvent of upcomingCalendarEvents) {
-      // DEFENSIVE CHECK: Ensure location data exists and is properly formatted
-      if (!calendarEvent.location ||
-          !calendarEvent.location.coordinates ||
-          !Array.isArray(calendarEvent.location.coordinates) ||
-          calendarEvent.location.coordinates.length < 2) {
-        if (DEBUG_RECS) console.log(`⚠️ Skipping calendar event "${calendarEvent.title}" - invalid location data`);
-        continue;
-      }
-
-      const eventLocation = {
-        lat: calendarEvent.location.coordinates[1], // PostGIS stores [lng, lat]
-        lng: calendarEvent.location.coordinates[0],
-      };
-
-      const distanceFromEvent = calculateDistance(eventLocation, place.geometry.location);
-      const hoursUntilEvent = (new Date(calendarEvent.start_time).getTime() - Date.now()) / (1000 * 60 * 60);
-
-      // Only consider events in next 7 days
-      if (hoursUntilEvent > 0 && hoursUntilEvent <= 168) {
-        if (distanceFromEvent <= 0.5) {
-          // Very close to upcoming event (within 0.5 miles)
-          const timeRelevance = hoursUntilEvent <= 24 ? 15 : 10; // Higher if event is tomorrow
-          futureContextBonus = Math.max(futureContextBonus, timeRelevance);
-          if (DEBUG_RECS) console.log(`🎯 Near "${calendarEvent.title}" (${distanceFromEvent.toFixed(2)}mi): +${timeRelevance}`);
-        } else if (distanceFromEvent <= 1.5) {
-          // Nearby upcoming event (within 1.5 miles)
-          const timeRelevance = hoursUntilEvent <= 24 ? 10 : 6;
-          futureContextBonus = Math.max(futureContextBonus, timeRelevance);
-        }
-      }
-    }
-  }
-
-  locationScore += futureContextBonus;
-  locationScore = Math.min(locationScore, 30); // Cap raised from 20 → 30 for future context
-
-  // === TIME CONTEXT SCORE (25 points max — enhanced with category weights) ===
-  const currentTimeOfDay = timeOfDay || getCurrentTimeOfDay();
-
-  // Check user's time preferences
-  const preferredTimes = asPreferences(user.preferences).preferred_times || [];
-  if (preferredTimes.includes(currentTimeOfDay)) {
-    timeScore += 5;
-  }
-
-  // Activity type vs time of day matching (legacy 0-10)
-  const timeContextMatches = checkTimeContext(category, currentTimeOfDay);
-  if (timeContextMatches === 'perfect') timeScore += 10;
-  else if (timeContextMatches === 'good') timeScore += 5;
-  else timeScore += 2; // Acceptable
-
-  // NEW: Time-category weight boost (Step 3)
-  // Additive boost making morning feeds surface coffee, evening feeds surface restaurants
-  const timeCategoryBoost = getTimeCategoryBoost(category, currentTimeOfDay);
-  timeScore += timeCategoryBoost;
-
-  timeScore = Math.min(Math.max(timeScore, -10), 25); // Cap at 25, floor at -10
-
-  // === DATA SOURCE INTEGRATIONS (Day 1 Sprint) ===
-  // Source 1 & 2: Facebook Liked Places (EXACT match = +30, category only = +15)
-  const extUser = user as unknown as ExtendedUser;
-  if (extUser.facebook_data) {
-    const facebookData = extUser.facebook_data;
-    if (facebookData.liked_places && facebookData.liked_places.length > 0) {
-      const facebookMatch = matchFacebookLikedPlace(
-        facebookData.liked_places[0], // TODO: Check all liked places, not just first
-        place.name,
-        category
-      );
-
-      if (facebookMatch.type === 'exact') {
-        facebookExactPlaceBoost = 30;
-        if (DEBUG_RECS) console.log(`🎯 FB EXACT MATCH: ${place.name} (+30 points)`);
-      } else if (facebookMatch.type === 'category') {
-        facebookCategoryBoost = 15;
-        if (DEBUG_RECS) console.log(`📂 FB CATEGORY MATCH: ${category} (+15 points)`);
-      }
-    }
-  }
-
-  // Source 3 & 4: Google Timeline Visited Places (+20-35 for exact, +10-20 for category frequency)
-  if (extUser.google_timeline) {
-    const timelineData = extUser.google_timeline;
-    if (timelineData.visited_places && timelineData.visited_places.length > 0) {
-      const timelineMatch = matchTimelineVisitedPlace(
-        timelineData,
-        place.name,
-        category
-      );
-
-      if (timelineMatch.match) {
-        if (timelineMatch.visitCount >= 1) {
-          // This is an exact place match or strong category match
-          googleTimelineVisitBoost = timelineMatch.boost;
-          if (DEBUG_RECS) console.log(`📍 TIMELINE MATCH: ${place.name} (${timelineMatch.visitCount} visits, +${timelineMatch.boost} points)`);
-
-          // Apply freshness factor (prefer recent visits)
-          const visitedPlace = timelineData.visited_places.find(
-            p => p.place_name.toLowerCase().includes(place.name.toLowerCase())
-          );
-          if (visitedPlace) {
-            const freshness = calculateFreshnessFactor(visitedPlace.last_visit);
-            googleTimelineVisitBoost = Math.round(googleTimelineVisitBoost * freshness);
-            if (DEBUG_RECS) console.log(`  ⏰ Freshness factor: ${freshness}x → ${googleTimelineVisitBoost} points`);
-          }
-        } else {
-          // Category frequency match
-          googleTimelineCategoryBoost = timelineMatch.boost;
-          if (DEBUG_RECS) console.log(`📊 CATEGORY FREQUENCY: ${category} (+${timelineMatch.boost} points)`);
-        }
-      }
-    }
-  }
-
-  // Source 5: Calendar Patterns (time-based boosting based on user's schedule)
-  // Analyze user's calendar for recurring patterns (e.g., "Dinner every Friday 7pm")
-  const aiProfileData = asAIProfile(user.ai_profile);
-  if (aiProfileData.calendar_patterns) {
-    const patterns = aiProfileData.calendar_patterns;
-    const now = new Date();
-    const currentDay = now.toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase();
-    const currentHour = now.getHours();
-
-    for (const pattern of patterns) {
-      // Check if current day matches pattern
-      const dayMatch = pattern.day === currentDay ||
-                      (pattern.days && pattern.days.includes(currentDay));
-
-      if (dayMatch && pattern.category === category) {
-        // Parse pattern time (e.g., "19:00")
-        const [patternHour] = pattern.time.split(':').map(Number);
-
-        // Strong match if within 2 hours of usual time
-        if (Math.abs(currentHour - patternHour) <= 2) {
-          calendarPatternBoost = 25;
-          if (DEBUG_RECS) console.log(`📅 STRONG CALENDAR PATTERN: ${category} on ${currentDay} at ${pattern.time} (+25 points)`);
-          break;
-        }
-        // Moderate match if same day
-        else {
-          calendarPatternBoost = Math.max(calendarPatternBoost, 15);
-          if (DEBUG_RECS) console.log(`📅 CALENDAR PATTERN: ${category} on ${currentDay} (+15 points)`);
-        }
-      }
-    }
-  }
-
-  // Source 6: Budget/Price Matching (inferred from user's budget level)
-  const userBudgetLevel = aiProfileData.budget_level || asPreferences(user.preferences).budget || 2;
-  const placePriceLevel = place.price_level || 0;
-
-  if (placePriceLevel > 0) {
-    // Perfect match (same price level)
-    if (placePriceLevel === userBudgetLevel) {
-      budgetBoost = 15;
-      if (DEBUG_RECS) console.log(`💰 PERFECT PRICE MATCH: ${'$'.repeat(placePriceLevel)} (+15 points)`);
-    }
-    // One level off (acceptable)
-    else if (Math.abs(placePriceLevel - userBudgetLevel) === 1) {
-      budgetBoost = 5;
-      if (DEBUG_RECS) console.log(`💵 CLOSE PRICE MATCH: ${'$'.repeat(placePriceLevel)} vs ${'$'.repeat(userBudgetLevel)} (+5 points)`);
-    }
-    // Two levels off (too expensive or too cheap)
-    else if (Math.abs(placePriceLevel - userBudgetLevel) >= 2) {
-      budgetBoost = -10;
-      if (DEBUG_RECS) console.log(`💸 PRICE MISMATCH: ${'$'.repeat(placePriceLevel)} vs ${'$'.repeat(userBudgetLevel)} (-10 points)`);
-    }
-  }
-
-  // Source 7: Loop App Visit History (user has been here before via Loop!)
-  if (visitHistoryByPlaceId || visitHistoryByAddress) {
-    let visitCount = 0;
-
-    // Try matching by place ID first (most accurate)
-    if (visitHistoryByPlaceId && place.place_id) {
-      visitCount = visitHistoryByPlaceId.get(place.place_id) || 0;
-    }
-
-    // Fallback: Try matching by address (fuzzy match)
-    if (visitCount === 0 && visitHistoryByAddress && place.formatted_address) {
-      const normalizedAddress = place.formatted_address.toLowerCase().trim();
-      visitCount = visitHistoryByAddress.get(normalizedAddress) || 0;
-    }
-
-    if (visitCount > 0) {
-      // Boost based on frequency, scaled by discovery style visitMultiplier
-      // explorer: 0.5x (de-emphasise repeats), creature_of_habit: 1.5x (love repeats)
-      let rawBoost = 0;
-      if (visitCount >= 10) {
-        rawBoost = 40; // Frequent favorite (10+ visits via Loop)
-      } else if (visitCount >= 5) {
-        rawBoost = 30; // Regular spot (5-9 visits)
-      } else if (visitCount >= 2) {
-        rawBoost = 20; // Repeat visitor (2-4 visits)
-      } else {
-        rawBoost = 15; // Been here once (1 visit)
-      }
-      loopVisitHistoryBoost = Math.round(rawBoost * styleConfig.visitMultiplier);
-      if (DEBUG_RECS) console.log(`🔄 LOOP VISIT: ${place.name} (${visitCount} visits, +${loopVisitHistoryBoost} pts, ${discoveryStyle} ×${styleConfig.visitMultiplier})`);
-    }
-  }
-
-  // Source 8: Loop App Feedback (user has rated this place!)
-  if (feedbackByPlaceId && place.place_id) {
-    const feedback = feedbackByPlaceId.get(place.place_id);
-
-    if (feedback) {
-      const { thumbsUp, thumbsDown, tags } = feedback;
-      const netRating = thumbsUp - thumbsDown;
-
-      // Strong positive feedback
-      if (netRating >= 2) {
-        loopFeedbackBoost = 20; // Multiple thumbs up
-        if (DEBUG_RECS) console.log(`👍👍 LOVED THIS: ${place.name} (+${thumbsUp}, -${thumbsDown}, +20 points)`);
-      } else if (netRating === 1) {
-        loopFeedbackBoost = 15; // Positive overall
-        if (DEBUG_RECS) console.log(`👍 LIKED THIS: ${place.name} (+${thumbsUp}, -${thumbsDown}, +15 points)`);
-      }
-      // Neutral feedback (mixed reviews)
-      else if (netRating === 0) {
-        loopFeedbackBoost = 0; // Neutral
-        if (DEBUG_RECS) console.log(`😐 MIXED FEELINGS: ${place.name} (+${thumbsUp}, -${thumbsDown}, 0 points)`);
-      }
-      // Negative feedback
-      else if (netRating === -1) {
-        loopFeedbackBoost = -10; // Slight dislike
-        if (DEBUG_RECS) console.log(`👎 DISLIKED: ${place.name} (+${thumbsUp}, -${thumbsDown}, -10 points)`);
-      } else {
-        loopFeedbackBoost = -20; // Strong negative
-        if (DEBUG_RECS) console.log(`👎👎 DID NOT LIKE: ${place.name} (+${thumbsUp}, -${thumbsDown}, -20 points)`);
-
-        // Extra penalty if specific negative tags match this category
-        if (tags.includes('Too expensive') && placePriceLevel >= 3) {
-          loopFeedbackBoost -= 5;
-          if (DEBUG_RECS) console.log(`  💸 User said "too expensive" before → -5 more`);
-        }
-        if (tags.includes('Too far') && distance > 3) {
-          loopFeedbackBoost -= 5;
-          if (DEBUG_RECS) console.log(`  🚗 User said "too far" before → -5 more`);
-        }
-      }
-    }
-  }
-
-  // === FEEDBACK HISTORY SCORE (15 points max) ===
-  // Now integrated above as loopFeedbackBoost!
-  // Keep this neutral base score for backwards compatibility
-  feedbackScore = 5;
-
-  // === FRIEND SOCIAL CONTEXT BOOSTS (Loop Moments) ===
-  // Boost places where friends have visited or shared moments
-  if (friendSocialContext && place.place_id && friendSocialContext.has(place.place_id)) {
-    const socialContext = friendSocialContext.get(place.place_id)!;
-
-    // Friend visit boost: +25 if any friend visited in last 7 days
-    if (socialContext.recentFriendVisits > 0) {
-      friendVisitBoost = 25;
-      if (DEBUG_RECS) console.log(`\ud83d\udc65 FRIEND VISITED: ${place.name} (${socialContext.recentFriendVisits} recent visits, +25 points)`);
-    }
-
-    // Friend photo boost: +15 if place has friend moments
-    if (socialContext.hasFriendMoments) {
-      friendPhotoBoost = 15;
-      if (DEBUG_RECS) console.log(`\ud83d\udcf8 FRIEND MOMENT: ${place.name} (${socialContext.friendMomentsCount} moments, +15 points)`);
-    }
-
-    // Trending with friends: +20 if 2+ friends visited this week
-    if (socialContext.recentFriendVisits >= 2) {
-      trendingFriendsBoost = 20;
-      if (DEBUG_RECS) console.log(`\ud83d\udd25 TRENDING WITH FRIENDS: ${place.name} (${socialContext.recentFriendVisits} friends, +20 points)`);
-    }
-  }
-
-  // === AGE BRACKET BOOST (Step 4: Demographic tuning) ===
-  // Starting weights that feedback overrides over time
-  const AGE_BRACKET_PREFERENCES: Record<string, Record<string, number>> = {
-    '18-24': {
-      'Bars & Nightlife': 10, 'Entertainment': 10, 'Live Music': 8,
-      'Movies': 8, 'Fitness': 5,
-      'Arts & Culture': -3, 'Wellness': -3,
-    },
-    '25-34': {
-      'Dining': 8, 'Bars & Nightlife': 5, 'Fitness': 8,
-      'Live Music': 8, 'Coffee & Cafes': 5, 'Outdoor Activities': 5,
-    },
-    '35-44': {
-      'Dining': 10, 'Outdoor Activities': 8, 'Arts & Culture': 8,
-      'Wellness': 8, 'Shopping': 5,
-      'Bars & Nightlife': -5,
-    },
-    '45+': {
-      'Dining': 10, 'Arts & Culture': 10, 'Outdoor Activities': 8,
-      'Wellness': 10, 'Shopping': 5,
-      'Bars & Nightlife': -8, 'Entertainment': -3,
-    },
-  };
-
-  const userAgeBracket = getAgeBracketFromUser(extUser);
-  if (userAgeBracket && AGE_BRACKET_PREFERENCES[userAgeBracket]) {
-    const prefs = AGE_BRACKET_PREFERENCES[userAgeBracket];
-    ageBracketBoost = prefs[category] || 0;
-    if (ageBracketBoost !== 0) {
-      if (DEBUG_RECS) console.log(`🎂 AGE BRACKET (${userAgeBracket}): ${category} → ${ageBracketBoost > 0 ? '+' : ''}${ageBracketBoost} points`);
-    }
-  }
-
-  // === COLLABORATIVE FILTERING (10 points max) ===
-  // TODO: Implement once we have multiple users
-  collaborativeScore = 0;
-
-  // === SPONSORED TIER BOOST ===
-  // TODO: Check database for sponsored status
-  // For now, all organic
-  const isSponsored = false;
-  if (isSponsored) {
-    const baseTotal = baseScore + locationScore + timeScore + feedbackScore + collaborativeScore;
-    if (baseTotal >= 40) {
-      sponsoredBoost = baseTotal * 0.30; // 30% boost for Premium
-    } else {
-      sponsoredBoost = Math.min(10, baseTotal * 0.30); // Cap irrelevant sponsored at +10
-    }
-  }
-
-  // === RECENCY PENALTY (Strengthened to prevent repetition) ===
-  // Stronger exponential decay to prevent seeing same places repeatedly
-  // Scaled by discovery style: creature_of_habit gets softer penalty (0.6x),
-  // explorer gets softer penalty too (0.5x — they won't see repeats often anyway)
-  let recencyPenalty = 0;
-  if (recentlyShown && recentlyShown.has(place.place_id)) {
-    const { hoursSince } = recentlyShown.get(place.place_id)!;
-
-    let rawPenalty = 0;
-    if (hoursSince < 6) {
-      rawPenalty = -40; // Just shown recently - strong penalty
-    } else if (hoursSince < 12) {
-      rawPenalty = -30; // Very recent - heavy penalty
-    } else if (hoursSince < 24) {
-      rawPenalty = -25; // Recent - significant penalty
-    } else if (hoursSince < 48) {
-      rawPenalty = -12; // Moderate penalty 24-48h
-    } else if (hoursSince < 72) {
-      rawPenalty = -5; // Light penalty 48-72h
-    }
-    recencyPenalty = Math.round(rawPenalty * styleConfig.recencyMultiplier);
-    if (recencyPenalty !== 0) {
-      if (DEBUG_RECS) console.log(`⏱️  ${place.name}: ${recencyPenalty} pts (shown ${hoursSince.toFixed(1)}h ago, ${discoveryStyle} ×${styleConfig.recencyMultiplier})`);
-    }
-    // After 72h: no penalty (fully eligible)
-  }
-
-  // === EVENT URGENCY SCORE (15 points max) ===
-  // Events happening soon get higher priority than distant events
-  if (isEvent && place.event_metadata) {
-    const eventStartTime = new Date(place.event_metadata.start_time);
-    const hoursUntilEvent = (eventStartTime.getTime() - Date.now()) / (1000 * 60 * 60);
-
-    if (hoursUntilEvent < 0) {
-      // Event already passed - exclude from results
-      eventUrgencyScore = -100;
-      if (DEBUG_RECS) console.log(`⏳ Event passed: -100 (removed from feed)`);
-    } else if (hoursUntilEvent <= 24) {
-      // Event TODAY or tomorrow - MAXIMUM urgency
-      eventUrgencyScore = 15;
-      if (DEBUG_RECS) console.log(`🚨 URGENT (${hoursUntilEvent.toFixed(1)}h): +15`);
-    } else if (hoursUntilEvent <= 72) {
-      // Event in 1-3 days - HIGH urgency
-      eventUrgencyScore = 12;
-      if (DEBUG_RECS) console.log(`⏰ Soon (${(hoursUntilEvent/24).toFixed(1)}d): +12`);
-    } else if (hoursUntilEvent <= 168) {
-      // Event this week (3-7 days) - MODERATE urgency
-      eventUrgencyScore = 8;
-      if (DEBUG_RECS) console.log(`📅 This week: +8`);
-    } else if (hoursUntilEvent <= 720) {
-      // Event this month (7-30 days) - MILD urgency
-      eventUrgencyScore = 4;
-      if (DEBUG_RECS) console.log(`📆 This month: +4`);
-    } else {
-      // Event 30+ days away - LOW urgency
-      eventUrgencyScore = 2;
-      if (DEBUG_RECS) console.log(`🗓️  Distant: +2`);
-    }
-  }
+function calculateActivityScore(
+  params: Omit<ScoringContext, 'now' | 'discoveryStyle' | 'discoveryMode'> & {
+    now?: Date;
+    discoveryStyle?: DiscoveryStyle;
+    discoveryMode?: 'for_you' | 'explore';
+  }
+): ScoredRecommendation['scoreBreakdown'] {
+  const result = scoringSignals.run({
+    ...params,
+    now: params.now ?? new Date(),
+    discoveryStyle: params.discoveryStyle ?? 'balanced',
+    discoveryMode: params.discoveryMode ?? 'for_you',
+  });
 
-  // === FINAL SCORE ===
-  // Now includes 8 data source boosts! (6 from Day 1 + 2 from Loop app feedback loop)
-  const finalScore = Math.round(
-    baseScore +
-    locationScore +
-    timeScore +
-    feedbackScore +
-    collaborativeScore +
-    eventUrgencyScore +
-    sponsoredBoost +
-    recencyPenalty +
-    // NEW: 8 Data Source Boosts (Day 1 Sprint + Feedback Loop)
-    facebookExactPlaceBoost +
-    facebookCategoryBoost +
-    googleTimelineVisitBoost +
-    googleTimelineCategoryBoost +
-    calendarPatternBoost +
-    budgetBoost +
-    loopVisitHistoryBoost + // NEW: Loop app visit history (+15 to +40)
-    loopFeedbackBoost + // NEW: Loop app feedback ratings (+20 to -20)
-    // NEW: Friend social context boosts (Loop Moments)
-    friendVisitBoost +
-    friendPhotoBoost +
-    trendingFriendsBoost +
-    // NEW: Age bracket boost (Step 4)
-    ageBracketBoost
-  );
+  // Standalone boosts keep their legacy breakdown keys (signal name === key)
+  const signalPoints = (name: string) =>
+    result.signals.find(s => s.name === name)?.points ?? 0;
 
   return {
-    baseScore,
-    locationScore,
-    timeScore,
-    feedbackScore,
-    collaborativeScore,
-    eventUrgencyScore, // NEW: Urgency bonus for events happening soon
-    sponsoredBoost,
-    recencyPenalty, // NEW: Included in Phase 1.3
-    // NEW: 8 Data Source Boosts (Day 1 Sprint + Feedback Loop)
-    facebookExactPlaceBoost,
-    facebookCategoryBoost,
-    googleTimelineVisitBoost,
-    googleTimelineCategoryBoost,
-    calendarPatternBoost,
-    budgetBoost,
-    loopVisitHistoryBoost, // NEW: Loop app visit history (+15 to +40)
-    loopFeedbackBoost, // NEW: Loop app feedback ratings (+20 to -20)
-    // NEW: Friend social context boosts (Loop Moments)
-    friendVisitBoost, // +25 if friend visited in last 7 days
-    friendPhotoBoost, // +15 if place has friend moments
-    trendingFriendsBoost, // +20 if 2+ friends visited this week
-    finalScore: Math.max(0, Math.min(finalScore, 160)), // Raised cap to accommodate age bracket boost
+    baseScore: result.totals.base,
+    locationScore: result.totals.location,
+    timeScore: result.totals.time,
+    feedbackScore: result.totals.feedback,
+    collaborativeScore: result.totals.collaborative,
+    eventUrgencyScore: result.totals.urgency,
+    sponsoredBoost: result.totals.sponsor,
+    recencyPenalty: result.totals.penalty,
+    facebookExactPlaceBoost: signalPoints('facebookExactPlaceBoost'),
+    facebookCategoryBoost: signalPoints('facebookCategoryBoost'),
+    googleTimelineVisitBoost: signalPoints('googleTimelineVisitBoost'),
+    googleTimelineCategoryBoost: signalPoints('googleTimelineCategoryBoost'),
+    calendarPatternBoost: signalPoints('calendarPatternBoost'),
+    budgetBoost: signalPoints('budgetBoost'),
+    loopVisitHistoryBoost: signalPoints('loopVisitHistoryBoost'),
+    loopFeedbackBoost: signalPoints('loopFeedbackBoost'),
+    friendVisitBoost: signalPoints('friendVisitBoost'),
+    friendPhotoBoost: signalPoints('friendPhotoBoost'),
+    trendingFriendsBoost: signalPoints('trendingFriendsBoost'),
+    ageBracketBoost: signalPoints('ageBracketBoost'),
+    signals: result.signals,
+    finalScore: result.finalScore,
   };
 }
 
-/**
- * Time-of-day category weight matrix (Step 3: Time-of-Day Category Weighting)
- * Returns additive point boost/penalty per category per time slot.
- * Positive = great fit, Negative = poor fit, 0 = neutral.
- */
-const TIME_CATEGORY_WEIGHTS: Record<string, Record<string, number>> = {
-  morning: {
-    'Coffee & Cafes': 25, 'Dining': 15, 'Fitness': 20,
-    'Outdoor Activities': 15, 'Wellness': 10,
-    'Bars & Nightlife': -10, 'Entertainment': 0,
-    'Arts & Culture': 5, 'Shopping': 5,
-  },
-  afternoon: {
-    'Shopping': 15, 'Arts & Culture': 15, 'Outdoor Activities': 15,
-    'Dining': 20, 'Entertainment': 10, 'Fitness': 10,
-    'Coffee & Cafes': 10, 'Bars & Nightlife': 0,
-  },
-  evening: {
-    'Dining': 25, 'Bars & Nightlife': 20, 'Entertainment': 20,
-    'Live Music': 20, 'Movies': 15,
-    'Coffee & Cafes': -5, 'Fitness': 0,
-    'Arts & Culture': 5, 'Shopping': 5,
-  },
-  night: {
-    'Bars & Nightlife': 25, 'Live Music': 25, 'Entertainment': 15,
-    'Dining': 10, 'Coffee & Cafes': -15, 'Fitness': -10,
-    'Arts & Culture': -5, 'Shopping': -10,
-  },
-};
-
-/**
- * Get time-category weight boost for scoring
- */
-function getTimeCategoryBoost(category: string, timeOfDay: string): number {
-  const weights = TIME_CATEGORY_WEIGHTS[timeOfDay];
-  if (!weights) return 0;
-  return weights[category] || 0;
-}
-
-/**
- * Check if activity type matches time of day (legacy compatibility)
- */
-function checkTimeContext(
-  category: string,
-  timeOfDay: string
-): 'perfect' | 'good' | 'acceptable' {
-  const boost = getTimeCategoryBoost(category, timeOfDay);
-  if (boost >= 15) return 'perfect';
-  if (boost >= 5) return 'good';
-  return 'acceptable';
-}
-
-/**
- * Get current time of day
- */
-function getCurrentTimeOfDay(): 'morning' | 'afternoon' | 'evening' | 'night' {
-  const hour = new Date().getHours();
-
-  if (hour >= 5 && hour < 12) return 'morning';
-  if (hour >= 12 && hour < 17) return 'afternoon';
-  if (hour >= 17 && hour < 21) return 'evening';
-  return 'night';
-}
-
 /**
  * Generate AI explanation for recommendation
  */
@@ -2584,8 +1969,9 @@ function generateExplanation(params: {
   distance: number;
   user: User;
   scoreBreakdown: ScoredRecommendation['scoreBreakdown'];
+  collaborative?: CollaborativeMatch;
 }): string {
-  const { place, category, distance, user, scoreBreakdown } = params;
+  const { place, category, distance, user, scoreBreakdown, collaborative } = params;
   const parts: string[] = [];
 
   // EVENT-SPECIFIC EXPLANATIONS (Ticketmaster events)
@@ -2689,6 +2075,12 @@ function generateExplanation(params: {
     parts.push(`Matches your love of ${matchingInterest}`);
   }
 
+  // 1b. ADD SOCIAL PROOF from collaborative filtering
+  const socialProof = describeCollaborativeMatch(collaborative);
+  if (socialProof && parts.length < 2) {
+    parts.push(socialProof);
+  }
+
   // 2. ADD CONVENIENCE CONTEXT (if we have room and it's relevant)
   if (parts.length < 2) {
     if (isOnRoute) {
@@ -2821,14 +2213,13 @@ function applyBusinessRules(
   discoveryStyle: DiscoveryStyle = 'balanced',
   user?: User,
   priceRange?: 'any' | 1 | 2 | 3 | 4,
+  sponsorImpressions?: Map<string, number>,
 ): ScoredRecommendation[] {
-  // Rule 1: Max 2 sponsored activities in top 5
-  const top5 = recommendations.slice(0, 5);
-  const sponsoredInTop5 = top5.filter(r => r.isSponsored).length;
-  if (sponsoredInTop5 > 2) {
-    // Move excess sponsored activities lower
-    // TODO: Implement sponsored activity management
-  }
+  // Variant params for this user (exposure is logged by generateRecommendations)
+  const rankingParams = getExperimentParams('feed_ranking', user?.id);
+
+  // Rule 1: Sponsored slot allocation runs last (Rule 7) so that the
+  // diversity and event-balance reshuffles below can't undo its placement
 
   // Rule 2: Never show same business twice (by place_id AND by normalized name)
   const seenPlaceIds = new Set<string>();
@@ -2859,7 +2250,9 @@ function applyBusinessRules(
 
   // Rule 4: Category diversity — limit shaped by discovery style
   // explorer=2 (force variety), balanced=3, creature_of_habit=4 (allow repeats)
-  const MAX_PER_CATEGORY_IN_TOP_10 = DISCOVERY_STYLE_CONFIG[discoveryStyle].maxPerCategory;
+  // The feed_ranking experiment may override the cap for every style
+  const MAX_PER_CATEGORY_IN_TOP_10 =
+    rankingParams.maxPerCategoryInTop10 ?? DISCOVERY_STYLE_CONFIG[discoveryStyle].maxPerCategory;
   const top10 = balancedRecommendations.slice(0, 10);
   const rest = balancedRecommendations.slice(10);
 
@@ -2899,7 +2292,7 @@ function applyBusinessRules(
   }
 
   // Rule 5: Event balance (prevent spam, ensure visibility)
-  const MAX_EVENTS_IN_TOP_10 = 4; // Cap at 40% events in top 10
+  const MAX_EVENTS_IN_TOP_10 = rankingParams.maxEventsInTop10; // Control: 40% events in top 10
   const MIN_EVENTS_IN_TOP_20 = 2; // Ensure minimum event visibility
 
   const eventsInTop10 = balancedRecommendations
@@ -2976,6 +2369,13 @@ function applyBusinessRules(
     }
   }
 
+  // Rule 7: Sponsored slot allocation — position caps, spacing, tier slots, frequency caps
+  const allocation = allocateSponsoredSlots(balancedRecommendations, maxResults, sponsorImpressions);
+  balancedRecommendations = allocation.recommendations;
+  if (user && allocation.decisions.length > 0) {
+    logSlotDecisions(user.id, allocation.decisions); // Fire and forget
+  }
+
   // Return top N results
   return balancedRecommendations.slice(0, maxResults);
 }
@@ -3320,3 +2720,153 @@ function buildGroupExplanation(
 
   return `${placeName} is a group-friendly ${category.toLowerCase()} spot ${farthest.distanceMiles.toFixed(1)} mi from ${farthest.name.split(' ')[0]}.`;
 }
+
+// ─── Engine API ─────────────────────────────────────────────────────────
+
+/**
+ * Single input for the recommendation engine. `kind` picks solo scoring
+ * (feed, explore, daily batch) or group scoring (group planning).
+ */
+export type RecommendationRequest =
+  | ({ kind: 'solo' } & RecommendationParams)
+  | ({ kind: 'group' } & GroupRecommendationParams);
+
+/**
+ * Entry point for every caller. Both kinds return ScoredRecommendation[];
+ * use toRecommendation() to turn results into feed cards / persisted rows.
+ */
+export async function recommend(request: RecommendationRequest): Promise<ScoredRecommendation[]> {
+  if (request.kind === 'group') {
+    return generateGroupRecommendations(request);
+  }
+  return generateRecommendations(request);
+}
+
+export interface ToRecommendationOptions {
+  /** Inserted into fallback ids when the place has no place_id: `rec-${stem}${index}` */
+  fallbackIdStem?: string;
+  /** Parse a neighborhood label from the address (main feed cards) */
+  includeNeighborhood?: boolean;
+}
+
+/** Extract lat/lng from a scored place with multiple fallbacks */
+export function getPlaceCoords(place: PlaceResult): PlaceLocation {
+  const raw = place as PlaceResult & { lat?: number; lng?: number; _latitude?: number; _longitude?: number };
+  // Primary: geometry.location (Google Places standard)
+  if (raw.geometry?.location?.lat != null && raw.geometry?.location?.lng != null) {
+    return { lat: raw.geometry.location.lat, lng: raw.geometry.location.lng };
+  }
+  // Fallback: direct lat/lng from cache columns
+  if (raw.lat != null && raw.lng != null) {
+    return { lat: raw.lat, lng: raw.lng };
+  }
+  // Fallback: underscore-prefixed from cache manager
+  if (raw._latitude != null && raw._longitude != null) {
+    return { lat: raw._latitude, lng: raw._longitude };
+  }
+  // Last resort: 0,0 (map won't render but won't crash)
+  return { lat: 0, lng: 0 };
+}
+
+/**
+ * Parse neighborhood from address
+ * (e.g. "123 Main St, Deep Ellum, Dallas, TX" → "Deep Ellum")
+ */
+export function parseNeighborhood(vicinity?: string, fullAddress?: string): string | undefined {
+  const parts = (fullAddress || '').split(',').map(p => p.trim());
+  // For US addresses: [street, neighborhood/city, state zip, country]
+  // With 4+ parts, parts[1] is often the neighborhood
+  if (parts.length >= 4) {
+    const candidate = parts[1];
+    // Skip if it looks like a state abbreviation, zip or country
+    if (candidate && !/^\d/.test(candidate) && candidate.length > 2 && candidate !== 'USA' && candidate !== 'US') {
+      return candidate;
+    }
+  }
+  // Fallback: last part of vicinity (often "Street, Area")
+  if (vicinity) {
+    const vicParts = vicinity.split(',').map(p => p.trim());
+    if (vicParts.length >= 2) return vicParts[vicParts.length - 1];
+  }
+  return undefined;
+}
+
+/**
+ * Convert an engine result into the Recommendation shape used by feed
+ * cards, see-details-modal and recommendation-persistence.
+ */
+export function toRecommendation(
+  s: ScoredRecommendation,
+  index: number,
+  options: ToRecommendationOptions = {}
+): Recommendation {
+  const { fallbackIdStem = '', includeNeighborhood = false } = options;
+  const place = s.place as PlaceResult & { _isCurated?: boolean; _curatorName?: string };
+  const coords = getPlaceCoords(place);
+
+  return {
+    id: place.place_id || `rec-${fallbackIdStem}${index}`,
+    title: place.name,
+    category: s.category,
+    location: place.vicinity || place.formatted_address || 'Unknown location',
+    neighborhood: includeNeighborhood ? parseNeighborhood(place.vicinity, place.formatted_address) : undefined,
+    distance: `${s.distance.toFixed(1)} mi`,
+    priceRange: place.price_level || 2,
+    rating: place.rating || 0,
+    imageUrl: s.photoUrl || '',
+    photos: s.photoUrls, // Carousel photos (only if 3+)
+    photoReferences: place.photos?.map(p => p.photo_reference).filter(Boolean),
+    aiExplanation: s.aiExplanation,
+    description: place.description, // Editorial summary from Google Places
+    openNow: place.opening_hours?.open_now,
+    isSponsored: s.isSponsored,
+    isCurated: !!place._isCurated,
+    curatorName: place._curatorName,
+    score: s.score,
+    businessHours: s.businessHours,
+    hasEstimatedHours: s.hasEstimatedHours,
+    suggestedTime: s.suggestedTime,
+    event_metadata: place.event_metadata, // Ticketmaster events (ticket buttons + deduplication)
+    scoreBreakdown: {
+      baseScore: s.scoreBreakdown.baseScore,
+      locationScore: s.scoreBreakdown.locationScore,
+      timeScore: s.scoreBreakdown.timeScore,
+      feedbackScore: s.scoreBreakdown.feedbackScore,
+      collaborativeScore: s.scoreBreakdown.collaborativeScore,
+      sponsorBoost: s.scoreBreakdown.sponsoredBoost,
+      finalScore: s.scoreBreakdown.finalScore,
+      signals: s.scoreBreakdown.signals,
+    },
+    activity: {
+      id: place.place_id || `act-${fallbackIdStem}${index}`,
+      name: place.name,
+      category: s.category,
+      description: place.description,
+      location: {
+        latitude: coords.lat,
+        longitude: coords.lng,
+        address: place.vicinity || place.formatted_address || '',
+      },
+      distance: s.distance,
+      rating: place.rating,
+      reviewsCount: place.user_ratings_total,
+      priceRange: place.price_level || 2,
+      photoUrl: s.photoUrl,
+      phone: place.formatted_phone_number,
+      website: place.website,
+      // hours omitted - opening_hours format doesn't match Record<string, string>
+      tags: place.types,
+      isSponsored: s.isSponsored,
+      googlePlaceId: place.place_id,
+    },
+    // Group planning context — maps groupMemberMatches to GroupContext for see-details-modal
+    groupContext: s.groupMemberMatches?.length ? {
+      memberMatches: s.groupMemberMatches,
+      interestMatchScore: s.scoreBreakdown.baseScore,
+      farthestMemberName: s.groupMemberMatches.reduce((f, m) =>
+        m.distanceMiles > f.distanceMiles ? m : f
+      ).name,
+      farthestMemberDistance: Math.max(...s.groupMemberMatches.map(m => m.distanceMiles)),
+    } : undefined,
+  };
+}
@@ -0,0 +1,623 @@
+/**
+ * Recurrence — RFC 5545 RRULE Parsing & Expansion
+ *
+ * Recurring calendar_events rows are stored once, as a series: the first
+ * occurrence's start/end plus an RRULE ("FREQ=WEEKLY;BYDAY=TU"). Readers
+ * expand series into occurrences for the range they show:
+ * - occurrences keep the series' wall-clock time in its timezone, so
+ *   "every Tuesday 6 PM" stays 6 PM across DST changes
+ * - recurrence_exdates removes single occurrences
+ * - an override row (recurrence_parent_id) replaces the occurrence that
+ *   started at its recurrence_original_start ("edit this occurrence")
+ *
+ * Supported: FREQ DAILY/WEEKLY/MONTHLY/YEARLY, INTERVAL, COUNT, UNTIL,
+ * BYDAY (with ordinals for monthly/yearly, e.g. 2TU, -1FR), BYMONTHDAY,
+ * BYMONTH. Other parts are ignored. recurring-events.ts does the database
+ * side (fetching, editing this/future/all occurrences).
+ */
+
+import { getZonedParts, resolveTimezone, zonedTimeToUtc, type ZonedParts } from '@/utils/timezone';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RecurrenceWeekday {
+  /** 0 = Sunday */
+  day: number;
+  /** 2 = second, -1 = last (MONTHLY/YEARLY only) */
+  ordinal?: number;
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  /** Last possible occurrence start (inclusive) */
+  until?: Date;
+  byDay?: RecurrenceWeekday[];
+  /** 1-31, or negative from the end of the month */
+  byMonthDay?: number[];
+  /** 1-12 */
+  byMonth?: number[];
+}
+
+export interface RecurringSeries {
+  /** First occurrence */
+  start: Date;
+  end: Date;
+  rule: string | RecurrenceRule;
+  /** Zone the series keeps its wall-clock time in */
+  timeZone?: string | null;
+  /** Starts of occurrences removed from the series */
+  exdates?: (Date | string)[] | null;
+}
+
+export interface Occurrence {
+  start: Date;
+  end: Date;
+}
+
+/** Calendar_events columns that expansion reads */
+export interface RecurringEventRow {
+  id: string;
+  start_time: string;
+  end_time: string;
+  timezone?: string | null;
+  recurrence_rule?: string | null;
+  recurrence_exdates?: string[] | null;
+  recurrence_parent_id?: string | null;
+  recurrence_original_start?: string | null;
+  loop_routing?: unknown;
+}
+
+/** One expanded occurrence of a series row */
+export type OccurrenceRow<T extends RecurringEventRow> = T & {
+  /** The series row's ID (the occurrence's own `id` is synthetic) */
+  recurrence_series_id: string;
+  /** Start of this occurrence as generated by the rule */
+  occurrence_start: string;
+};
+
+export type RepeatPreset = 'none' | 'daily' | 'weekdays' | 'weekly' | 'biweekly' | 'monthly';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Stop expanding after this many periods (a century of daily events) */
+const MAX_PERIODS = 36500;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/** "20260601T000000Z" or "20260601" → Date */
+function parseRRuleDate(value: string): Date | undefined {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+  if (!match) return undefined;
+  const [, y, mo, d, h = '23', mi = '59', s = '59'] = match;
+  return new Date(Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s)));
+}
+
+function formatRRuleDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function parseNumberList(value: string, min: number, max: number): number[] | undefined {
+  const numbers = value.split(',').map(Number).filter(n => Number.isInteger(n) && n !== 0 && Math.abs(n) >= min && Math.abs(n) <= max);
+  return numbers.length > 0 ? numbers : undefined;
+}
+
+/** Parse an RRULE ("RRULE:" prefix optional). Null if it has no valid FREQ. */
+export function parseRRule(value: string | null | undefined): RecurrenceRule | null {
+  if (!value) return null;
+  const parts = new Map<string, string>();
+  for (const part of value.trim().replace(/^RRULE:/i, '').split(';')) {
+    const [key, val] = part.split('=');
+    if (key && val) parts.set(key.trim().toUpperCase(), val.trim().toUpperCase());
+  }
+
+  const freq = parts.get('FREQ') as RecurrenceFrequency;
+  if (!FREQUENCIES.includes(freq)) return null;
+
+  const rule: RecurrenceRule = { freq, interval: Math.max(1, Number(parts.get('INTERVAL')) || 1) };
+
+  const count = Number(parts.get('COUNT'));
+  if (Number.isInteger(count) && count > 0) rule.count = count;
+
+  const until = parts.get('UNTIL') && parseRRuleDate(parts.get('UNTIL')!);
+  if (until) rule.until = until;
+
+  const byDay = (parts.get('BYDAY') || '')
+    .split(',')
+    .map(code => /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(code))
+    .filter((m): m is RegExpExecArray => !!m)
+    .map(m => (m[1] ? { day: WEEKDAY_CODES.indexOf(m[2]), ordinal: Number(m[1]) } : { day: WEEKDAY_CODES.indexOf(m[2]) }));
+  if (byDay.length > 0) rule.byDay = byDay;
+
+  const byMonthDay = parts.get('BYMONTHDAY') && parseNumberList(parts.get('BYMONTHDAY')!, 1, 31);
+  if (byMonthDay) rule.byMonthDay = byMonthDay;
+
+  const byMonth = parts.get('BYMONTH') && parseNumberList(parts.get('BYMONTH')!, 1, 12);
+  if (byMonth) rule.byMonth = byMonth.filter(m => m > 0);
+
+  return rule;
+}
+
+/** RRULE string for a rule (no "RRULE:" prefix, as stored) */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(d => `${d.ordinal ?? ''}${WEEKDAY_CODES[d.day]}`).join(',')}`);
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  else if (rule.until) parts.push(`UNTIL=${formatRRuleDate(rule.until)}`);
+  return parts.join(';');
+}
+
+function ordinalLabel(n: number): string {
+  if (n === -1) return 'last';
+  const suffix = n % 10 === 1 && n !== 11 ? 'st' : n % 10 === 2 && n !== 12 ? 'nd' : n % 10 === 3 && n !== 13 ? 'rd' : 'th';
+  return `${n}${suffix}`;
+}
+
+/** "Every Tuesday", "Every 2 weeks on Mon, Wed", "Monthly on the 2nd Tuesday" */
+export function describeRecurrence(rule: RecurrenceRule | string): string {
+  const parsed = typeof rule === 'string' ? parseRRule(rule) : rule;
+  if (!parsed) return 'Does not repeat';
+
+  const { freq, interval, byDay } = parsed;
+  const dayNames = (byDay || []).map(d => WEEKDAY_NAMES[d.day]);
+  const isWeekdays = byDay?.length === 5 && [1, 2, 3, 4, 5].every(day => byDay.some(d => d.day === day && !d.ordinal));
+
+  let text: string;
+  if (freq === 'DAILY') {
+    text = interval === 1 ? 'Daily' : `Every ${interval} days`;
+  } else if (freq === 'WEEKLY') {
+    if (isWeekdays && interval === 1) text = 'Every weekday';
+    else if (interval === 1 && dayNames.length === 1) text = `Every ${dayNames[0]}`;
+    else {
+      const days = dayNames.map(name => name.slice(0, 3)).join(', ');
+      text = `${interval === 1 ? 'Weekly' : `Every ${interval} weeks`}${days ? ` on ${days}` : ''}`;
+    }
+  } else if (freq === 'MONTHLY') {
+    const base = interval === 1 ? 'Monthly' : `Every ${interval} months`;
+    const nth = byDay?.find(d => d.ordinal);
+    if (nth) text = `${base} on the ${ordinalLabel(nth.ordinal!)} ${WEEKDAY_NAMES[nth.day]}`;
+    else if (parsed.byMonthDay?.length === 1) {
+      const day = parsed.byMonthDay[0];
+      text = `${base} on the ${day === -1 ? 'last day' : ordinalLabel(day)}`;
+    } else text = base;
+  } else {
+    text = interval === 1 ? 'Yearly' : `Every ${interval} years`;
+  }
+
+  if (parsed.count) text += `, ${parsed.count} times`;
+  else if (parsed.until) text += `, until ${parsed.until.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+  return text;
+}
+
+/**
+ * RRULE for a quick "Repeat" choice, anchored on the first occurrence's
+ * weekday/day of month in its timezone. Null for 'none'.
+ */
+export function buildPresetRRule(preset: RepeatPreset, start: Date, timeZone?: string | null): string | null {
+  const local = getZonedParts(start, resolveTimezone(timeZone));
+  switch (preset) {
+    case 'daily':
+      return formatRRule({ freq: 'DAILY', interval: 1 });
+    case 'weekdays':
+      return formatRRule({ freq: 'WEEKLY', interval: 1, byDay: [1, 2, 3, 4, 5].map(day => ({ day })) });
+    case 'weekly':
+      return formatRRule({ freq: 'WEEKLY', interval: 1, byDay: [{ day: local.weekday }] });
+    case 'biweekly':
+      return formatRRule({ freq: 'WEEKLY', interval: 2, byDay: [{ day: local.weekday }] });
+    case 'monthly':
+      return formatRRule({ freq: 'MONTHLY', interval: 1, byMonthDay: [local.day] });
+    default:
+      return null;
+  }
+}
+
+// ============================================================================
+// EXPANSION
+// ============================================================================
+
+interface LocalDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function weekdayOf(date: LocalDate): number {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+/** Calendar date `days` after `date` */
+function addDays(date: LocalDate, days: number): LocalDate {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+}
+
+function compareDates(a: LocalDate, b: LocalDate): number {
+  return a.year - b.year || a.month - b.month || a.day - b.day;
+}
+
+function toLocalDate(parts: ZonedParts): LocalDate {
+  return { year: parts.year, month: parts.month, day: parts.day };
+}
+
+/** First day of the `period`th period of the rule */
+function periodStart(rule: RecurrenceRule, first: ZonedParts, period: number): LocalDate {
+  const step = period * rule.interval;
+  switch (rule.freq) {
+    case 'DAILY':
+      return addDays(toLocalDate(first), step);
+    case 'WEEKLY':
+      return addDays(toLocalDate(first), -((first.weekday + 6) % 7) + step * 7);
+    case 'MONTHLY': {
+      const monthIndex = first.month - 1 + step;
+      return { year: first.year + Math.floor(monthIndex / 12), month: (monthIndex % 12) + 1, day: 1 };
+    }
+    case 'YEARLY':
+      return { year: first.year + step, month: 1, day: 1 };
+  }
+}
+
+/** Days of one month matching BYDAY (with or without ordinals) */
+function monthDaysForByDay(year: number, month: number, byDay: RecurrenceWeekday[]): number[] {
+  const total = daysInMonth(year, month);
+  const days = new Set<number>();
+
+  for (const { day: weekday, ordinal } of byDay) {
+    const matches: number[] = [];
+    for (let day = 1; day <= total; day++) {
+      if (weekdayOf({ year, month, day }) === weekday) matches.push(day);
+    }
+    if (!ordinal) matches.forEach(d => days.add(d));
+    else {
+      const pick = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+      if (pick) days.add(pick);
+    }
+  }
+  return [...days];
+}
+
+/** Days of one month matching BYMONTHDAY (negative counts from the end) */
+function monthDaysForByMonthDay(year: number, month: number, byMonthDay: number[]): number[] {
+  const total = daysInMonth(year, month);
+  return byMonthDay.map(d => (d > 0 ? d : total + d + 1)).filter(d => d >= 1 && d <= total);
+}
+
+/** Candidate dates in one month for MONTHLY/YEARLY rules */
+function datesInMonth(year: number, month: number, rule: RecurrenceRule, first: ZonedParts): LocalDate[] {
+  let days: number[];
+  if (rule.byMonthDay?.length) {
+    days = monthDaysForByMonthDay(year, month, rule.byMonthDay);
+    if (rule.byDay?.length) {
+      const weekdays = new Set(rule.byDay.map(d => d.day));
+      days = days.filter(day => weekdays.has(weekdayOf({ year, month, day })));
+    }
+  } else if (rule.byDay?.length) {
+    days = monthDaysForByDay(year, month, rule.byDay);
+  } else {
+    // Same day of month as the first occurrence; months without it are skipped
+    days = first.day <= daysInMonth(year, month) ? [first.day] : [];
+  }
+  return days.map(day => ({ year, month, day }));
+}
+
+/** Candidate dates for the `period`th period of the rule, in order */
+function datesInPeriod(rule: RecurrenceRule, first: ZonedParts, period: number): LocalDate[] {
+  const firstDate = { year: first.year, month: first.month, day: first.day };
+  const step = period * rule.interval;
+  let dates: LocalDate[];
+
+  switch (rule.freq) {
+    case 'DAILY':
+      dates = [addDays(firstDate, step)];
+      break;
+    case 'WEEKLY': {
+      // Weeks start on Monday (RFC 5545 default WKST)
+      const weekStart = addDays(firstDate, -((first.weekday + 6) % 7) + step * 7);
+      const weekdays = rule.byDay?.length ? rule.byDay.map(d => d.day) : [first.weekday];
+      dates = [...new Set(weekdays)].map(day => addDays(weekStart, (day + 6) % 7));
+      break;
+    }
+    case 'MONTHLY': {
+      const monthIndex = first.month - 1 + step;
+      dates = datesInMonth(first.year + Math.floor(monthIndex / 12), (monthIndex % 12) + 1, rule, first);
+      break;
+    }
+    case 'YEARLY': {
+      const months = rule.byMonth?.length ? rule.byMonth : [first.month];
+      const hasDayRule = rule.byDay?.length || rule.byMonthDay?.length;
+      dates = months.flatMap(month =>
+        hasDayRule
+          ? datesInMonth(first.year + step, month, rule, first)
+          : first.day <= daysInMonth(first.year + step, month) ? [{ year: first.year + step, month, day: first.day }] : []
+      );
+      break;
+    }
+  }
+
+  // BYMONTH / BYDAY limit DAILY and WEEKLY rules
+  if (rule.byMonth?.length && rule.freq !== 'YEARLY') {
+    dates = dates.filter(d => rule.byMonth!.includes(d.month));
+  }
+  if (rule.freq === 'DAILY' && rule.byDay?.length) {
+    dates = dates.filter(d => rule.byDay!.some(b => b.day === weekdayOf(d)));
+  }
+  if (rule.freq === 'DAILY' && rule.byMonthDay?.length) {
+    dates = dates.filter(d => monthDaysForByMonthDay(d.year, d.month, rule.byMonthDay!).includes(d.day));
+  }
+
+  return dates.sort(compareDates);
+}
+
+/**
+ * Occurrences of a series that start within [rangeStart, rangeEnd], in
+ * order. The first occurrence is always the series start (RFC 5545 counts
+ * DTSTART as an instance). COUNT counts occurrences before exdates are
+ * removed, as RFC 5545 does.
+ */
+export function expandOccurrences(series: RecurringSeries, rangeStart: Date, rangeEnd: Date): Occurrence[] {
+  const rule = typeof series.rule === 'string' ? parseRRule(series.rule) : series.rule;
+  const durationMs = series.end.getTime() - series.start.getTime();
+  const occurrence = (start: Date): Occurrence => ({ start, end: new Date(start.getTime() + durationMs) });
+
+  const inRange = (start: Date) => start >= rangeStart && start <= rangeEnd;
+  const excluded = new Set((series.exdates || []).map(d => new Date(d).getTime()));
+  const results: Occurrence[] = [];
+  const add = (start: Date) => {
+    if (inRange(start) && !excluded.has(start.getTime())) results.push(occurrence(start));
+  };
+
+  if (!rule) {
+    add(series.start);
+    return results;
+  }
+
+  const zone = resolveTimezone(series.timeZone);
+  const first = getZonedParts(series.start, zone);
+  const firstDate = { year: first.year, month: first.month, day: first.day };
+  // Nothing can fall in a range that ends before the series starts
+  if (rangeEnd < series.start) return results;
+
+  // A day's margin either side covers any zone offset
+  const lastDate = addDays(toLocalDate(getZonedParts(rangeEnd, zone)), 1);
+  const skipBefore = addDays(toLocalDate(getZonedParts(rangeStart, zone)), -1);
+
+  let generated = 1;
+  add(series.start);
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    if (compareDates(periodStart(rule, first, period), lastDate) > 0) break;
+
+    for (const date of datesInPeriod(rule, first, period)) {
+      if (compareDates(date, firstDate) <= 0) continue;
+      if (rule.count && generated >= rule.count) return results;
+      // Without COUNT, dates well before the range don't need resolving
+      if (!rule.count && compareDates(date, skipBefore) < 0) continue;
+
+      const start = zonedTimeToUtc({ ...date, hour: first.hour, minute: first.minute }, zone);
+      if (rule.until && start > rule.until) return results;
+      if (start > rangeEnd) return results;
+
+      generated++;
+      add(start);
+    }
+  }
+
+  return results;
+}
+
+/** Occurrences of a series before `before` (used to carry COUNT across a split) */
+export function countOccurrencesBefore(series: RecurringSeries, before: Date): number {
+  return expandOccurrences({ ...series, exdates: [] }, series.start, new Date(before.getTime() - 1)).length;
+}
+
+/** Synthetic ID for an occurrence of a series row */
+export function buildOccurrenceId(seriesId: string, start: Date): string {
+  return `${seriesId}@${start.toISOString()}`;
+}
+
+/** Shift a row's loop_routing departure by the occurrence's offset from the series start */
+function shiftLoopRouting(loopRouting: unknown, offsetMs: number): unknown {
+  const routing = loopRouting as { recommended_departure_time?: string | null } | null | undefined;
+  if (!routing?.recommended_departure_time || offsetMs === 0) return loopRouting;
+  return {
+    ...routing,
+    recommended_departure_time: new Date(new Date(routing.recommended_departure_time).getTime() + offsetMs).toISOString(),
+  };
+}
+
+/**
+ * Expand calendar_events rows into what a range actually contains.
+ *
+ * @param rows - Single events and overrides starting in the range, plus
+ *   every series that started before the range ends
+ * @returns Single events and overrides as-is, series as one row per
+ *   occurrence (synthetic `id`, `recurrence_series_id` set), sorted by start
+ */
+export function expandEventRows<T extends RecurringEventRow>(
+  rows: T[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  defaultTimeZone?: string | null
+): (T | OccurrenceRow<T>)[] {
+  const overridden = new Set<string>();
+  for (const row of rows) {
+    if (row.recurrence_parent_id && row.recurrence_original_start) {
+      overridden.add(`${row.recurrence_parent_id}@${new Date(row.recurrence_original_start).getTime()}`);
+    }
+  }
+
+  const expanded: (T | OccurrenceRow<T>)[] = [];
+  for (const row of rows) {
+    if (!row.recurrence_rule) {
+      const start = new Date(row.start_time);
+      if (start >= rangeStart && start <= rangeEnd) expanded.push(row);
+      continue;
+    }
+
+    const seriesStart = new Date(row.start_time);
+    const occurrences = expandOccurrences(
+      {
+        start: seriesStart,
+        end: new Date(row.end_time),
+        rule: row.recurrence_rule,
+        timeZone: row.timezone || defaultTimeZone,
+        exdates: row.recurrence_exdates,
+      },
+      rangeStart,
+      rangeEnd
+    );
+
+    for (const { start, end } of occurrences) {
+      if (overridden.has(`${row.id}@${start.getTime()}`)) continue;
+      expanded.push({
+        ...row,
+        id: buildOccurrenceId(row.id, start),
+        start_time: start.toISOString(),
+        end_time: end.toISOString(),
+        loop_routing: shiftLoopRouting(row.loop_routing, start.getTime() - seriesStart.getTime()),
+        recurrence_series_id: row.id,
+        occurrence_start: start.toISOString(),
+      });
+    }
+  }
+
+  return expanded.sort((a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime());
+}
+
+/** Whether a row is one generated occurrence of a series */
+export function isOccurrenceRow<T extends RecurringEventRow>(row: T | OccurrenceRow<T>): row is OccurrenceRow<T> {
+  return typeof (row as OccurrenceRow<T>).recurrence_series_id === 'string';
+}
+
+// ============================================================================
+// ROUTINE SUGGESTIONS
+// ============================================================================
+
+export interface RoutineEventInput {
+  id: string;
+  title: string;
+  start_time: string;
+  end_time: string;
+  category?: string | null;
+  source?: string | null;
+  recurrence_rule?: string | null;
+  recurrence_parent_id?: string | null;
+  timezone?: string | null;
+}
+
+/** Repeated manual events that could become one recurring series */
+export interface RecurringEventSuggestion {
+  title: string;
+  category?: string | null;
+  rule: string;
+  /** "Every Tuesday at 6:00 PM" */
+  description: string;
+  /** Oldest first; the latest becomes the series start */
+  eventIds: string[];
+  weekday: number;
+  /** Minutes after local midnight */
+  minuteOfDay: number;
+}
+
+export const ROUTINE_SUGGESTION_CONFIG = {
+  /** Same weekday, same title, this many weeks in a row */
+  minOccurrences: 3,
+  /** Start times within this many minutes count as the same slot */
+  timeToleranceMinutes: 30,
+};
+
+function normalizeTitle(title: string): string {
+  return title.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function formatMinuteOfDay(minutes: number): string {
+  const hour = Math.floor(minutes / 60);
+  const minute = minutes % 60;
+  const period = hour >= 12 ? 'PM' : 'AM';
+  const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+  return `${displayHour}:${String(minute).padStart(2, '0')} ${period}`;
+}
+
+/**
+ * Find manual one-off events the user keeps re-creating — same title, same
+ * weekday, about the same time, on consecutive weeks — and suggest a
+ * weekly RRULE for each.
+ */
+export function suggestRecurringEvents(
+  events: RoutineEventInput[],
+  timeZone?: string | null
+): RecurringEventSuggestion[] {
+  const config = ROUTINE_SUGGESTION_CONFIG;
+  const groups = new Map<string, { event: RoutineEventInput; local: ZonedParts; minuteOfDay: number }[]>();
+
+  for (const event of events) {
+    if (event.recurrence_rule || event.recurrence_parent_id) continue;
+    if (event.source && event.source !== 'manual') continue;
+
+    const zone = resolveTimezone(event.timezone, timeZone);
+    const local = getZonedParts(new Date(event.start_time), zone);
+    const key = `${normalizeTitle(event.title)}|${local.weekday}`;
+    const group = groups.get(key) || [];
+    group.push({ event, local, minuteOfDay: local.hour * 60 + local.minute });
+    groups.set(key, group);
+  }
+
+  const suggestions: RecurringEventSuggestion[] = [];
+  for (const group of groups.values()) {
+    if (group.length < config.minOccurrences) continue;
+    group.sort((a, b) => new Date(a.event.start_time).getTime() - new Date(b.event.start_time).getTime());
+
+    // Longest run of weekly occurrences at about the same time
+    let best: typeof group = [];
+    let run: typeof group = [];
+    for (const item of group) {
+      const previous = run[run.length - 1];
+      const weeksApart = previous
+        ? Math.round((Date.UTC(item.local.year, item.local.month - 1, item.local.day) -
+            Date.UTC(previous.local.year, previous.local.month - 1, previous.local.day)) / (7 * DAY_MS))
+        : 1;
+      const sameTime = previous ? Math.abs(item.minuteOfDay - previous.minuteOfDay) <= config.timeToleranceMinutes : true;
+
+      if (previous && weeksApart === 0) continue; // Same day twice
+      run = previous && weeksApart === 1 && sameTime ? [...run, item] : [item];
+      if (run.length > best.length) best = run;
+    }
+    if (best.length < config.minOccurrences) continue;
+
+    const latest = best[best.length - 1];
+    const rule = formatRRule({ freq: 'WEEKLY', interval: 1, byDay: [{ day: latest.local.weekday }] });
+    suggestions.push({
+      title: latest.event.title,
+      category: latest.event.category,
+      rule,
+      description: `${describeRecurrence(rule)} at ${formatMinuteOfDay(latest.minuteOfDay)}`,
+      eventIds: best.map(item => item.event.id),
+      weekday: latest.local.weekday,
+      minuteOfDay: latest.minuteOfDay,
+    });
+  }
+
+  return suggestions.sort((a, b) => b.eventIds.length - a.eventIds.length);
+}
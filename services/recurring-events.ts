@@ -0,0 +1,361 @@
+/**
+ * Recurring Events Service
+ *
+ * Database side of recurring calendar events (see recurrence.ts for the
+ * RRULE math):
+ * - Fetch a range of events with series expanded into occurrences
+ * - Edit or delete one occurrence, all future occurrences, or the series
+ * - Turn repeated manual events into a series
+ *
+ * Occurrences returned by fetchCalendarEventsInRange have a synthetic `id`;
+ * pass them back here as-is and the series is looked up from
+ * `recurrence_series_id`.
+ */
+
+import { supabase } from '@/lib/supabase';
+import type { CalendarEvent } from '@/types/calendar-event';
+import {
+  countOccurrencesBefore,
+  expandEventRows,
+  formatRRule,
+  parseRRule,
+  type RecurringEventSuggestion,
+} from './recurrence';
+
+export type RecurrenceEditScope = 'this' | 'future' | 'all';
+
+export type RecurringEventUpdates = Partial<
+  Pick<CalendarEvent, 'title' | 'description' | 'category' | 'location' | 'address' | 'start_time' | 'end_time' | 'all_day' | 'timezone'>
+>;
+
+/** Columns copied from a series onto an override or a split-off series */
+const SERIES_FIELDS = [
+  'user_id',
+  'title',
+  'description',
+  'category',
+  'location',
+  'address',
+  'all_day',
+  'source',
+  'activity_id',
+  'status',
+  'timezone',
+] as const;
+
+type SeriesRow = CalendarEvent & { recurrence_rule: string };
+
+function pickSeriesFields(series: CalendarEvent): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  for (const key of SERIES_FIELDS) fields[key] = series[key] ?? null;
+  return fields;
+}
+
+/** The series row behind an occurrence (or the row itself for a series) */
+async function getSeriesRow(event: CalendarEvent): Promise<SeriesRow | null> {
+  const seriesId = event.recurrence_series_id || event.recurrence_parent_id || event.id;
+  const { data, error } = await supabase.from('calendar_events').select('*').eq('id', seriesId).single();
+
+  if (error || !data?.recurrence_rule) {
+    console.error('Error fetching recurring series:', error);
+    return null;
+  }
+  return data as SeriesRow;
+}
+
+/** Start of the occurrence an event stands for, as generated by the rule */
+function getOccurrenceStart(event: CalendarEvent): Date {
+  return new Date(event.occurrence_start || event.recurrence_original_start || event.start_time);
+}
+
+/**
+ * All events that start in a range, with recurring series expanded into
+ * one row per occurrence.
+ *
+ * @param timeZone - Zone for series without their own (the user's)
+ */
+export async function fetchCalendarEventsInRange(
+  userId: string,
+  rangeStart: Date,
+  rangeEnd: Date,
+  timeZone?: string | null
+): Promise<{ events: CalendarEvent[]; error?: string }> {
+  try {
+    const [single, series, moved] = await Promise.all([
+      supabase
+        .from('calendar_events')
+        .select('*')
+        .eq('user_id', userId)
+        .is('recurrence_rule', null)
+        .gte('start_time', rangeStart.toISOString())
+        .lte('start_time', rangeEnd.toISOString())
+        .order('start_time', { ascending: true }),
+      // A series can have occurrences in the range however long ago it started
+      supabase
+        .from('calendar_events')
+        .select('*')
+        .eq('user_id', userId)
+        .not('recurrence_rule', 'is', null)
+        .lte('start_time', rangeEnd.toISOString()),
+      // Overrides replacing an occurrence in the range, wherever they now
+      // start, so a moved occurrence doesn't also show at its original slot
+      supabase
+        .from('calendar_events')
+        .select('*')
+        .eq('user_id', userId)
+        .not('recurrence_parent_id', 'is', null)
+        .gte('recurrence_original_start', rangeStart.toISOString())
+        .lte('recurrence_original_start', rangeEnd.toISOString()),
+    ]);
+
+    const error = single.error || series.error || moved.error;
+    if (error) {
+      console.error('Error fetching calendar events:', error);
+      return { events: [], error: error.message };
+    }
+
+    const rows = new Map<string, CalendarEvent>();
+    for (const row of [...(single.data || []), ...(series.data || []), ...(moved.data || [])] as CalendarEvent[]) {
+      rows.set(row.id, row);
+    }
+    return { events: expandEventRows([...rows.values()], rangeStart, rangeEnd, timeZone) };
+  } catch (error) {
+    console.error('Error in fetchCalendarEventsInRange:', error);
+    return { events: [], error: String(error) };
+  }
+}
+
+/**
+ * Remove one occurrence from a series.
+ */
+export async function addRecurrenceException(seriesId: string, occurrenceStart: Date): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('calendar_events')
+    .select('recurrence_exdates')
+    .eq('id', seriesId)
+    .single();
+
+  if (error || !data) {
+    console.error('Error fetching recurrence exceptions:', error);
+    return false;
+  }
+
+  const exdates: string[] = data.recurrence_exdates || [];
+  const iso = occurrenceStart.toISOString();
+  if (exdates.some(d => new Date(d).getTime() === occurrenceStart.getTime())) return true;
+
+  const { error: updateError } = await supabase
+    .from('calendar_events')
+    .update({ recurrence_exdates: [...exdates, iso] })
+    .eq('id', seriesId);
+
+  if (updateError) {
+    console.error('Error adding recurrence exception:', updateError);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * End a series before an occurrence: UNTIL just before it, with COUNT
+ * dropped. Returns how many occurrences the series kept, for carrying a
+ * COUNT over to the series that continues it.
+ */
+async function endSeriesBefore(series: SeriesRow, occurrenceStart: Date): Promise<number> {
+  const rule = parseRRule(series.recurrence_rule)!;
+  const kept = countOccurrencesBefore(
+    { start: new Date(series.start_time), end: new Date(series.end_time), rule, timeZone: series.timezone },
+    occurrenceStart
+  );
+
+  const { error } = await supabase
+    .from('calendar_events')
+    .update({
+      recurrence_rule: formatRRule({ ...rule, count: undefined, until: new Date(occurrenceStart.getTime() - 1000) }),
+      recurrence_exdates: (series.recurrence_exdates || []).filter(d => new Date(d) < occurrenceStart),
+    })
+    .eq('id', series.id);
+
+  if (error) throw new Error(`Ending series failed: ${error.message}`);
+  return kept;
+}
+
+/**
+ * Edit a recurring event.
+ *
+ * - 'this': the occurrence becomes an override row; the series is untouched
+ * - 'future': the series ends before this occurrence and a new series with
+ *   the changes starts at it
+ * - 'all': the series row changes; a new time moves every occurrence by
+ *   the same amount
+ */
+export async function updateRecurringEvent(
+  event: CalendarEvent,
+  updates: RecurringEventUpdates,
+  scope: RecurrenceEditScope
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    // Already an override: editing "this" just edits the row
+    if (scope === 'this' && event.recurrence_parent_id) {
+      const { error } = await supabase.from('calendar_events').update(updates).eq('id', event.id);
+      if (error) throw new Error(error.message);
+      return { success: true };
+    }
+
+    const series = await getSeriesRow(event);
+    if (!series) return { success: false, error: 'Recurring series not found' };
+
+    const occurrenceStart = getOccurrenceStart(event);
+    const occurrenceEnd = new Date(occurrenceStart.getTime() + (new Date(series.end_time).getTime() - new Date(series.start_time).getTime()));
+    const newStart = updates.start_time ? new Date(updates.start_time) : occurrenceStart;
+    const newEnd = updates.end_time ? new Date(updates.end_time) : new Date(newStart.getTime() + (occurrenceEnd.getTime() - occurrenceStart.getTime()));
+    const shiftMs = newStart.getTime() - occurrenceStart.getTime();
+
+    if (scope === 'this') {
+      const { error } = await supabase.from('calendar_events').upsert(
+        {
+          ...pickSeriesFields(series),
+          ...updates,
+          start_time: newStart.toISOString(),
+          end_time: newEnd.toISOString(),
+          recurrence_parent_id: series.id,
+          recurrence_original_start: occurrenceStart.toISOString(),
+        },
+        { onConflict: 'recurrence_parent_id,recurrence_original_start' }
+      );
+      if (error) throw new Error(error.message);
+      return { success: true };
+    }
+
+    const isFirstOccurrence = occurrenceStart.getTime() === new Date(series.start_time).getTime();
+
+    if (scope === 'all' || isFirstOccurrence) {
+      const seriesStart = new Date(new Date(series.start_time).getTime() + shiftMs);
+      const { error } = await supabase
+        .from('calendar_events')
+        .update({
+          ...updates,
+          start_time: seriesStart.toISOString(),
+          end_time: new Date(seriesStart.getTime() + (newEnd.getTime() - newStart.getTime())).toISOString(),
+        })
+        .eq('id', series.id);
+      if (error) throw new Error(error.message);
+      return { success: true };
+    }
+
+    // 'future': split the series at this occurrence
+    const rule = parseRRule(series.recurrence_rule)!;
+    const kept = await endSeriesBefore(series, occurrenceStart);
+    const remainingCount = rule.count ? Math.max(1, rule.count - kept) : undefined;
+
+    const { data: newSeries, error: insertError } = await supabase
+      .from('calendar_events')
+      .insert({
+        ...pickSeriesFields(series),
+        ...updates,
+        start_time: newStart.toISOString(),
+        end_time: newEnd.toISOString(),
+        recurrence_rule: formatRRule({ ...rule, count: remainingCount, until: remainingCount ? undefined : rule.until }),
+        recurrence_exdates: (series.recurrence_exdates || [])
+          .filter(d => new Date(d) >= occurrenceStart)
+          .map(d => new Date(new Date(d).getTime() + shiftMs).toISOString()),
+      })
+      .select('id')
+      .single();
+    if (insertError || !newSeries) throw new Error(insertError?.message || 'Creating series failed');
+
+    // Overrides of later occurrences follow them to the new series; if the
+    // times moved they no longer line up with an occurrence and are dropped
+    const { data: laterOverrides } = await supabase
+      .from('calendar_events')
+      .select('id')
+      .eq('recurrence_parent_id', series.id)
+      .gte('recurrence_original_start', occurrenceStart.toISOString());
+    const overrideIds = (laterOverrides || []).map((o: { id: string }) => o.id);
+
+    if (overrideIds.length > 0) {
+      const { error } =
+        shiftMs === 0
+          ? await supabase.from('calendar_events').update({ recurrence_parent_id: newSeries.id }).in('id', overrideIds)
+          : await supabase.from('calendar_events').delete().in('id', overrideIds);
+      if (error) console.warn('[Recurrence] Could not move later overrides:', error.message);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error updating recurring event:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Delete a recurring event.
+ *
+ * - 'this': the occurrence is added to the series' exceptions (and its
+ *   override row, if any, deleted)
+ * - 'future': the series ends before this occurrence
+ * - 'all': the series and its overrides are deleted
+ */
+export async function deleteRecurringEvent(
+  event: CalendarEvent,
+  scope: RecurrenceEditScope
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const series = await getSeriesRow(event);
+    if (!series) return { success: false, error: 'Recurring series not found' };
+
+    const occurrenceStart = getOccurrenceStart(event);
+    const isFirstOccurrence = occurrenceStart.getTime() === new Date(series.start_time).getTime();
+
+    if (scope === 'this') {
+      if (event.recurrence_parent_id) {
+        const { error } = await supabase.from('calendar_events').delete().eq('id', event.id);
+        if (error) throw new Error(error.message);
+      }
+      const added = await addRecurrenceException(series.id, occurrenceStart);
+      return added ? { success: true } : { success: false, error: 'Could not remove occurrence' };
+    }
+
+    if (scope === 'all' || isFirstOccurrence) {
+      // Overrides go with it (ON DELETE CASCADE)
+      const { error } = await supabase.from('calendar_events').delete().eq('id', series.id);
+      if (error) throw new Error(error.message);
+      return { success: true };
+    }
+
+    await endSeriesBefore(series, occurrenceStart);
+    const { error } = await supabase
+      .from('calendar_events')
+      .delete()
+      .eq('recurrence_parent_id', series.id)
+      .gte('recurrence_original_start', occurrenceStart.toISOString());
+    if (error) console.warn('[Recurrence] Could not delete later overrides:', error.message);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting recurring event:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Turn a routine suggestion into a series: the latest of the repeated
+ * events becomes the first occurrence. Earlier ones stay as history.
+ */
+export async function convertToRecurringEvent(
+  suggestion: RecurringEventSuggestion
+): Promise<{ success: boolean; seriesId?: string; error?: string }> {
+  const seriesId = suggestion.eventIds[suggestion.eventIds.length - 1];
+  if (!seriesId) return { success: false, error: 'No events to convert' };
+
+  const { error } = await supabase
+    .from('calendar_events')
+    .update({ recurrence_rule: suggestion.rule })
+    .eq('id', seriesId);
+
+  if (error) {
+    console.error('Error converting to recurring event:', error);
+    return { success: false, error: error.message };
+  }
+  return { success: true, seriesId };
+}
@@ -9,7 +9,7 @@
 import { supabase } from '@/lib/supabase';
 import { SubscriptionTier, TIER_LIMITS } from '@/types/subscription';
 import {
-  REFRESH_COOLDOWN_PROMPTS,
+  getRefreshCooldownPrompt,
   formatTimeRemaining,
   canRefreshNow,
 } from '@/utils/upgrade-prompts';
@@ -72,7 +72,7 @@ export async function checkRefreshEligibility(userId: string): Promise<RefreshCh
     return {
       canRefresh: false,
       secondsUntilRefresh,
-      upgradePrompt: REFRESH_COOLDOWN_PROMPTS[tier],
+      upgradePrompt: getRefreshCooldownPrompt(tier, userId),
     };
   } catch (error) {
     console.error('Error in checkRefreshEligibility:', error);
@@ -0,0 +1,425 @@
+/**
+ * Route Optimizer
+ * Orders a day's stops as a traveling salesman problem with time windows:
+ * leave home (or work, or wherever the user is), visit every stop, and end
+ * back at home or work.
+ * - Locked stops (mandatory tasks) must start exactly at their time
+ * - Other stops can't start before opening and must be done by closing
+ * - Travel times depend on when you leave (rush hour)
+ *
+ * Days with EXACT_MAX_STOPS or fewer are solved exactly by branch and bound.
+ * Larger days start from the better of the current order and cheapest
+ * insertion and are improved with 2-opt and or-opt moves until no move helps.
+ *
+ * No database access: task-optimization.ts builds the problem from the
+ * calendar, and tests benchmark the solver on fixed fixtures.
+ */
+
+import {
+  calculateDistance,
+  estimateTravelTime,
+  type Coordinate,
+  type TravelMode,
+} from '@/utils/route-calculations';
+import { getZonedParts, resolveTimezone } from '@/utils/timezone';
+
+// ── Types ────────────────────────────────────────────────────────────
+
+export interface RouteStop {
+  id: string;
+  /** Omitted for stops without a place (a call, a busy block): no travel */
+  location?: Coordinate | null;
+  durationMinutes: number;
+  /** Locked: must start exactly then */
+  fixedStart?: Date;
+  /** Can't start before this (opening time) */
+  earliestStart?: Date;
+  /** Must be done by this (closing time) */
+  latestEnd?: Date;
+}
+
+export interface RouteProblem {
+  /** Where and when the day starts */
+  start: { location: Coordinate; time: Date };
+  /** Where the day ends; omit to end at the last stop */
+  end?: { location: Coordinate; latestArrival?: Date };
+  /** In the user's current order */
+  stops: RouteStop[];
+}
+
+/** Minutes to get from one point to another leaving at `departAt` */
+export type TravelTimeFn = (from: Coordinate, to: Coordinate, departAt: Date) => number;
+
+export interface RouteOptions {
+  /** Defaults to createTrafficAwareTravelTime(timeZone, mode) */
+  travelTime?: TravelTimeFn;
+  /** Zone for rush hours in the default travel time */
+  timeZone?: string;
+  /** How the user travels in the default travel time (default: drive) */
+  mode?: TravelMode;
+  /** Largest day solved exactly */
+  exactMaxStops?: number;
+}
+
+export interface ScheduledStop {
+  id: string;
+  arrival: Date;
+  start: Date;
+  end: Date;
+  waitMinutes: number;
+  /** How far the stop misses its window (late for a locked start or past closing) */
+  lateMinutes: number;
+}
+
+export interface RouteEvaluation {
+  order: string[];
+  schedule: ScheduledStop[];
+  travelMinutes: number;
+  distanceMiles: number;
+  /** Total minutes of missed windows, including arriving at the end too late */
+  lateMinutes: number;
+  feasible: boolean;
+  /** Arrival at the end, or the end of the last stop */
+  finish: Date;
+  cost: number;
+}
+
+export interface RouteSolution extends RouteEvaluation {
+  method: 'exact' | 'local_search';
+}
+
+// ── Config ───────────────────────────────────────────────────────────
+
+export const ROUTE_OPTIMIZER_CONFIG = {
+  exactMaxStops: 8,
+  /** Cost of one minute of missed window, in travel minutes */
+  latePenalty: 1000,
+  /** Travel times are cached per pair of stops and departure bucket */
+  travelBucketMinutes: 15,
+  /** Longest segment or-opt moves as a block */
+  orOptMaxSegment: 3,
+  maxImprovementPasses: 100,
+  /** Weekday rush hours (local time) and how much slower driving gets */
+  rushHours: [
+    { startMinute: 7 * 60, endMinute: 9 * 60 + 30, factor: 1.35 },
+    { startMinute: 16 * 60, endMinute: 18 * 60 + 30, factor: 1.45 },
+  ],
+};
+
+const MINUTE_MS = 60 * 1000;
+
+// ── Travel Time ──────────────────────────────────────────────────────
+
+/**
+ * Offline estimate for the mode; driving slows down in weekday rush hours,
+ * read in the user's zone.
+ */
+export function createTrafficAwareTravelTime(timeZone?: string, mode: TravelMode = 'drive'): TravelTimeFn {
+  const zone = resolveTimezone(timeZone);
+
+  return (from, to, departAt) => {
+    const base = estimateTravelTime(calculateDistance(from, to), mode);
+    if (mode !== 'drive') return base;
+
+    const local = getZonedParts(departAt, zone);
+    if (local.weekday === 0 || local.weekday === 6) return base;
+
+    const minute = local.hour * 60 + local.minute;
+    const rush = ROUTE_OPTIMIZER_CONFIG.rushHours.find(r => minute >= r.startMinute && minute < r.endMinute);
+    return rush ? Math.ceil(base * rush.factor) : base;
+  };
+}
+
+// ── Evaluation ───────────────────────────────────────────────────────
+
+/** Index of the start point in the travel cache; stops use their own index */
+const START = -1;
+const END = -2;
+
+interface SearchState {
+  time: number;
+  /** Index of the last stop with a place, or START */
+  at: number;
+  late: number;
+  travel: number;
+}
+
+class RouteContext {
+  private readonly cache = new Map<string, number>();
+  private readonly travelTime: TravelTimeFn;
+
+  constructor(readonly problem: RouteProblem, options: RouteOptions) {
+    this.travelTime = options.travelTime ?? createTrafficAwareTravelTime(options.timeZone, options.mode);
+  }
+
+  get size(): number {
+    return this.problem.stops.length;
+  }
+
+  locationOf(index: number): Coordinate | null {
+    if (index === START) return this.problem.start.location;
+    if (index === END) return this.problem.end?.location ?? null;
+    return this.problem.stops[index].location ?? null;
+  }
+
+  travel(from: number, to: number, departAt: number): number {
+    const a = this.locationOf(from);
+    const b = this.locationOf(to);
+    if (!a || !b || from === to) return 0;
+
+    const bucket = Math.floor(departAt / (ROUTE_OPTIMIZER_CONFIG.travelBucketMinutes * MINUTE_MS));
+    const key = `${from}|${to}|${bucket}`;
+    let minutes = this.cache.get(key);
+    if (minutes === undefined) {
+      minutes = this.travelTime(a, b, new Date(departAt));
+      this.cache.set(key, minutes);
+    }
+    return minutes;
+  }
+
+  initialState(): SearchState {
+    return { time: this.problem.start.time.getTime(), at: START, late: 0, travel: 0 };
+  }
+
+  /** State after going to and doing stop `index` */
+  visit(state: SearchState, index: number, out?: ScheduledStop[]): SearchState {
+    const stop = this.problem.stops[index];
+    const travel = stop.location ? this.travel(state.at, index, state.time) : 0;
+    const arrival = state.time + travel * MINUTE_MS;
+    let late = 0;
+    let start: number;
+
+    if (stop.fixedStart) {
+      start = Math.max(arrival, stop.fixedStart.getTime());
+      late = Math.max(0, arrival - stop.fixedStart.getTime()) / MINUTE_MS;
+    } else {
+      start = Math.max(arrival, stop.earliestStart?.getTime() ?? arrival);
+    }
+
+    const end = start + stop.durationMinutes * MINUTE_MS;
+    if (!stop.fixedStart && stop.latestEnd) {
+      late = Math.max(0, end - stop.latestEnd.getTime()) / MINUTE_MS;
+    }
+
+    out?.push({
+      id: stop.id,
+      arrival: new Date(arrival),
+      start: new Date(start),
+      end: new Date(end),
+      waitMinutes: (start - arrival) / MINUTE_MS,
+      lateMinutes: late,
+    });
+
+    return {
+      time: end,
+      at: stop.location ? index : state.at,
+      late: state.late + late,
+      travel: state.travel + travel,
+    };
+  }
+
+  /** State after heading to the end point */
+  finish(state: SearchState): SearchState {
+    const end = this.problem.end;
+    if (!end) return state;
+
+    const travel = this.travel(state.at, END, state.time);
+    const arrival = state.time + travel * MINUTE_MS;
+    const late = end.latestArrival ? Math.max(0, arrival - end.latestArrival.getTime()) / MINUTE_MS : 0;
+    return { time: arrival, at: END, late: state.late + late, travel: state.travel + travel };
+  }
+
+  cost(state: SearchState): number {
+    return state.late * ROUTE_OPTIMIZER_CONFIG.latePenalty + state.travel;
+  }
+
+  costOf(order: number[]): number {
+    let state = this.initialState();
+    for (const index of order) state = this.visit(state, index);
+    return this.cost(this.finish(state));
+  }
+
+  evaluate(order: number[]): RouteEvaluation {
+    const schedule: ScheduledStop[] = [];
+    let state = this.initialState();
+    let distance = 0;
+    let at: Coordinate = this.problem.start.location;
+
+    for (const index of order) {
+      state = this.visit(state, index, schedule);
+      const location = this.problem.stops[index].location;
+      if (location) {
+        distance += calculateDistance(at, location);
+        at = location;
+      }
+    }
+
+    state = this.finish(state);
+    if (this.problem.end) distance += calculateDistance(at, this.problem.end.location);
+
+    return {
+      order: order.map(index => this.problem.stops[index].id),
+      schedule,
+      travelMinutes: state.travel,
+      distanceMiles: distance,
+      lateMinutes: state.late,
+      feasible: state.late === 0,
+      finish: new Date(state.time),
+      cost: this.cost(state),
+    };
+  }
+}
+
+/**
+ * Simulate a given order: drive, wait for opening or a locked start, do the
+ * stop, move on. Stops missing from `order` are left out.
+ */
+export function evaluateRoute(problem: RouteProblem, order: string[], options: RouteOptions = {}): RouteEvaluation {
+  const ctx = new RouteContext(problem, options);
+  const indexById = new Map(problem.stops.map((stop, index) => [stop.id, index]));
+  return ctx.evaluate(order.map(id => indexById.get(id)).filter((index): index is number => index !== undefined));
+}
+
+// ── Exact ────────────────────────────────────────────────────────────
+
+/**
+ * Depth-first branch and bound over every order. Cost only grows along a
+ * partial route (travel and lateness are never negative), so any branch
+ * already costing as much as the best full route is cut.
+ */
+function solveExact(ctx: RouteContext, initial: number[]): number[] {
+  let best = initial;
+  let bestCost = ctx.costOf(initial);
+  const order: number[] = [];
+  const used = new Array<boolean>(ctx.size).fill(false);
+
+  const search = (state: SearchState) => {
+    if (ctx.cost(state) >= bestCost) return;
+
+    if (order.length === ctx.size) {
+      const cost = ctx.cost(ctx.finish(state));
+      if (cost < bestCost) {
+        bestCost = cost;
+        best = [...order];
+      }
+      return;
+    }
+
+    for (let index = 0; index < ctx.size; index++) {
+      if (used[index]) continue;
+      used[index] = true;
+      order.push(index);
+      search(ctx.visit(state, index));
+      order.pop();
+      used[index] = false;
+    }
+  };
+
+  search(ctx.initialState());
+  return best;
+}
+
+// ── Local Search ─────────────────────────────────────────────────────
+
+/**
+ * Insert stops one at a time where they add the least cost. Locked stops go
+ * first in time order so flexible ones are fitted around them.
+ */
+function cheapestInsertion(ctx: RouteContext): number[] {
+  const stops = ctx.problem.stops;
+  const anchorTime = (index: number) =>
+    stops[index].fixedStart?.getTime() ?? stops[index].earliestStart?.getTime() ?? Infinity;
+  const pending = stops
+    .map((_, index) => index)
+    .sort((a, b) => Number(!stops[a].fixedStart) - Number(!stops[b].fixedStart) || anchorTime(a) - anchorTime(b));
+
+  const order: number[] = [];
+  for (const index of pending) {
+    let bestPosition = 0;
+    let bestCost = Infinity;
+    for (let position = 0; position <= order.length; position++) {
+      const cost = ctx.costOf([...order.slice(0, position), index, ...order.slice(position)]);
+      if (cost < bestCost) {
+        bestCost = cost;
+        bestPosition = position;
+      }
+    }
+    order.splice(bestPosition, 0, index);
+  }
+  return order;
+}
+
+/** Reverse order[i..j] */
+function twoOptMove(order: number[], i: number, j: number): number[] {
+  return [...order.slice(0, i), ...order.slice(i, j + 1).reverse(), ...order.slice(j + 1)];
+}
+
+/** Move the segment of `length` at `i` to `position` in what's left */
+function orOptMove(order: number[], i: number, length: number, position: number): number[] {
+  const segment = order.slice(i, i + length);
+  const rest = [...order.slice(0, i), ...order.slice(i + length)];
+  return [...rest.slice(0, position), ...segment, ...rest.slice(position)];
+}
+
+/**
+ * First-improvement 2-opt and or-opt until a full pass finds nothing
+ * better. Deterministic: the same day always gives the same route.
+ */
+function improve(ctx: RouteContext, initial: number[]): number[] {
+  let order = initial;
+  let cost = ctx.costOf(order);
+  const n = order.length;
+
+  const tryMove = (candidate: number[]): boolean => {
+    const candidateCost = ctx.costOf(candidate);
+    if (candidateCost < cost - 1e-9) {
+      order = candidate;
+      cost = candidateCost;
+      return true;
+    }
+    return false;
+  };
+
+  for (let pass = 0; pass < ROUTE_OPTIMIZER_CONFIG.maxImprovementPasses; pass++) {
+    let improved = false;
+
+    for (let i = 0; i < n - 1; i++) {
+      for (let j = i + 1; j < n; j++) {
+        if (tryMove(twoOptMove(order, i, j))) improved = true;
+      }
+    }
+
+    for (let length = 1; length <= Math.min(ROUTE_OPTIMIZER_CONFIG.orOptMaxSegment, n - 1); length++) {
+      for (let i = 0; i + length <= n; i++) {
+        for (let position = 0; position <= n - length; position++) {
+          if (position === i) continue;
+          if (tryMove(orOptMove(order, i, length, position))) improved = true;
+        }
+      }
+    }
+
+    if (!improved) break;
+  }
+
+  return order;
+}
+
+// ── Solver ───────────────────────────────────────────────────────────
+
+/**
+ * Best order for the day's stops. Never worse than the current order:
+ * it seeds both the exact search and the local search.
+ */
+export function optimizeRoute(problem: RouteProblem, options: RouteOptions = {}): RouteSolution {
+  const ctx = new RouteContext(problem, options);
+  const current = problem.stops.map((_, index) => index);
+  const exactMaxStops = options.exactMaxStops ?? ROUTE_OPTIMIZER_CONFIG.exactMaxStops;
+
+  if (ctx.size <= exactMaxStops) {
+    return { ...ctx.evaluate(solveExact(ctx, current)), method: 'exact' };
+  }
+
+  const insertion = cheapestInsertion(ctx);
+  const seed = ctx.costOf(insertion) < ctx.costOf(current) ? insertion : current;
+  return { ...ctx.evaluate(improve(ctx, seed)), method: 'local_search' };
+}
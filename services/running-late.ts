@@ -0,0 +1,609 @@
+/**
+ * Running Late Service
+ *
+ * Notices when the user won't make their next event on time:
+ * - From shortly before the planned departure (calculateEventDepartureTime)
+ *   until the event starts, their position is checked against the live
+ *   travel time to the venue
+ * - When they're late, a notification offers to tell the group plan's chat
+ *   and to fix the rest of the chain: flexible tasks after the event are
+ *   pushed back or dropped, mandatory ones stay where they are
+ *
+ * Checks run while the app is open and whenever it comes back to the
+ * foreground (e.g. from the "leave now" alert). Background location would
+ * need a registered task (expo-task-manager), which the app doesn't ship.
+ */
+
+import * as Notifications from 'expo-notifications';
+import { AppState } from 'react-native';
+import { supabase } from '@/lib/supabase';
+import type { CalendarEvent } from '@/types/calendar-event';
+import { parseLocation } from '@/utils/location-parser';
+import { calculateDepartureTime, calculateDistance, type Coordinate } from '@/utils/route-calculations';
+import { getOrCreateGroupConversation, sendMessage } from './chat-service';
+import { watchLocation } from './location-service';
+import {
+  computeEventDeparture,
+  getEventChain,
+  PARKING_BUFFER_MINUTES,
+  refreshDepartureTimesForUser,
+} from './loop-routing';
+import {
+  cancelEventNotifications,
+  formatEventStartForNotification,
+  rescheduleEventNotifications,
+} from './notification-service';
+import { fetchCalendarEventsInRange } from './recurring-events';
+import { isMandatoryCategory } from './task-optimization';
+import { getPreferredTravelMode, getTravelMinutes, type TravelMode } from './travel-time';
+
+export const RUNNING_LATE_CONFIG = {
+  /** Checks start this long before the planned departure */
+  checkBeforeDepartureMinutes: 15,
+  /** Without a planned departure, checks start this long before the event */
+  defaultCheckWindowMinutes: 60,
+  /** How far ahead to look for events to watch */
+  lookaheadHours: 3,
+  pollMinutes: 2,
+  /** Location updates trigger a check at most this often */
+  minCheckIntervalMinutes: 1,
+  /** Late by this much or less isn't worth an alert */
+  graceMinutes: 5,
+  /** Alert again when the delay grows by this much */
+  realertMinutes: 10,
+  /** Closer than this to the venue counts as there */
+  arrivedMiles: 0.1,
+};
+
+/** Notification categories for alerts, without and with the group action */
+const RUNNING_LATE_CATEGORY = 'running-late';
+const RUNNING_LATE_GROUP_CATEGORY = 'running-late-group';
+const NOTIFY_GROUP_ACTION = 'notify-group';
+const UPDATE_SCHEDULE_ACTION = 'update-schedule';
+
+const MINUTE_MS = 60 * 1000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * - on_time: can still leave on time from here
+ * - behind: past the latest time to leave, but within the grace period
+ * - late: will arrive more than the grace period after the start
+ * - arrived: already at the venue
+ */
+export type LatenessStatus = 'on_time' | 'behind' | 'late' | 'arrived';
+
+export interface LatenessCheck {
+  eventId: string;
+  status: LatenessStatus;
+  /** When they planned to leave (null without a route to the event) */
+  plannedDeparture: Date | null;
+  /** Latest they can leave from where they are now */
+  leaveBy: Date;
+  projectedArrival: Date;
+  /** Minutes after the start they'll arrive (negative = early) */
+  minutesLate: number;
+  travelMinutes: number;
+  mode: TravelMode;
+}
+
+export interface DownstreamChange {
+  eventId: string;
+  title: string;
+  /** shift: move later; drop: skip it; keep: can't move, will be late */
+  action: 'shift' | 'drop' | 'keep';
+  oldStart: string;
+  newStart?: string;
+  newEnd?: string;
+  /** For kept events, how late they'll be */
+  minutesLate?: number;
+  reason: string;
+}
+
+export interface RunningLateAlert {
+  event: CalendarEvent;
+  check: LatenessCheck;
+  changes: DownstreamChange[];
+  groupPlanId: string | null;
+}
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+/**
+ * How late the user will be for an event, leaving now from `position`.
+ * The latest time to leave uses the same travel and parking buffers as the
+ * planned departure, so "behind" means behind the plan's own timing.
+ */
+export async function checkEventLateness(
+  event: CalendarEvent,
+  position: Coordinate,
+  options: { now?: Date; mode?: TravelMode; plannedDeparture?: Date | null } = {}
+): Promise<LatenessCheck | null> {
+  const destination = parseLocation(event.location);
+  if (!destination) return null;
+
+  const now = options.now ?? new Date();
+  const mode = options.mode ?? (await getPreferredTravelMode(event.user_id));
+  const plannedDeparture = options.plannedDeparture !== undefined
+    ? options.plannedDeparture
+    : (await computeEventDeparture(event, { mode }))?.departureTime ?? null;
+  const start = new Date(event.start_time);
+
+  if (calculateDistance(position, destination) <= RUNNING_LATE_CONFIG.arrivedMiles) {
+    return {
+      eventId: event.id,
+      status: 'arrived',
+      plannedDeparture,
+      leaveBy: now,
+      projectedArrival: now,
+      minutesLate: Math.max(0, Math.ceil((now.getTime() - start.getTime()) / MINUTE_MS)),
+      travelMinutes: 0,
+      mode,
+    };
+  }
+
+  const travelMinutes = await getTravelMinutes(position, destination, { mode, departAt: now });
+  const leaveBy = calculateDepartureTime(start, travelMinutes, PARKING_BUFFER_MINUTES, !!event.loop_routing?.is_chained);
+  const minutesLate = Math.ceil((now.getTime() - leaveBy.getTime()) / MINUTE_MS);
+
+  let status: LatenessStatus = 'on_time';
+  if (minutesLate > RUNNING_LATE_CONFIG.graceMinutes) status = 'late';
+  else if (minutesLate > 0) status = 'behind';
+
+  return {
+    eventId: event.id,
+    status,
+    plannedDeparture,
+    leaveBy,
+    projectedArrival: new Date(start.getTime() + minutesLate * MINUTE_MS),
+    minutesLate,
+    travelMinutes,
+    mode,
+  };
+}
+
+interface WatchedEvent {
+  event: CalendarEvent;
+  plannedDeparture: Date | null;
+}
+
+/**
+ * Upcoming events whose check window is open: from shortly before the
+ * planned departure until the start
+ */
+async function getEventsToWatch(userId: string, mode: TravelMode, now: Date): Promise<WatchedEvent[]> {
+  const until = new Date(now.getTime() + RUNNING_LATE_CONFIG.lookaheadHours * 60 * MINUTE_MS);
+  const { events, error } = await fetchCalendarEventsInRange(userId, now, until);
+
+  if (error) {
+    console.error('Error fetching events to watch:', error);
+    return [];
+  }
+
+  const watched: WatchedEvent[] = [];
+  for (const event of events) {
+    const start = new Date(event.start_time);
+    if (event.status !== 'scheduled' || event.all_day || start <= now || !parseLocation(event.location)) continue;
+
+    // Occurrences share their series' routing, so theirs is worked out fresh
+    const saved = !event.recurrence_series_id && event.loop_routing?.recommended_departure_time;
+    const plannedDeparture = saved
+      ? new Date(saved)
+      : (await computeEventDeparture(event, { mode }))?.departureTime ?? null;
+
+    const opensAt = plannedDeparture
+      ? plannedDeparture.getTime() - RUNNING_LATE_CONFIG.checkBeforeDepartureMinutes * MINUTE_MS
+      : start.getTime() - RUNNING_LATE_CONFIG.defaultCheckWindowMinutes * MINUTE_MS;
+    if (now.getTime() >= opensAt) watched.push({ event, plannedDeparture });
+  }
+  return watched;
+}
+
+/** Last delay each event was alerted for, so an alert isn't repeated every check */
+const alertedDelays = new Map<string, number>();
+
+/**
+ * Check the user's events in their window against where they are now.
+ * Returns an alert for each event they'll be late for that hasn't been
+ * alerted already (or has got later by realertMinutes since).
+ *
+ * @param loaded - The travel mode and events to watch, when the caller
+ *   has just loaded them
+ */
+export async function checkRunningLate(
+  userId: string,
+  position: Coordinate,
+  now: Date = new Date(),
+  loaded?: { mode: TravelMode; watched: WatchedEvent[] }
+): Promise<RunningLateAlert[]> {
+  try {
+    const mode = loaded?.mode ?? (await getPreferredTravelMode(userId));
+    const watched = loaded?.watched ?? (await getEventsToWatch(userId, mode, now));
+    const alerts: RunningLateAlert[] = [];
+
+    for (const { event, plannedDeparture } of watched) {
+      const check = await checkEventLateness(event, position, { now, mode, plannedDeparture });
+      if (check?.status !== 'late') continue;
+
+      const alerted = alertedDelays.get(event.id);
+      if (alerted !== undefined && check.minutesLate < alerted + RUNNING_LATE_CONFIG.realertMinutes) continue;
+      alertedDelays.set(event.id, check.minutesLate);
+
+      // Chain links point at the series' first occurrence, so occurrences
+      // have no chain of their own
+      const chain = event.recurrence_series_id ? [event] : await getEventChain(event.id);
+      alerts.push({
+        event,
+        check,
+        changes: planDownstreamChanges(chain, event.id, check.minutesLate),
+        groupPlanId: event.group_plan_id ?? null,
+      });
+    }
+
+    return alerts;
+  } catch (error) {
+    console.error('Error checking running late:', error);
+    return [];
+  }
+}
+
+// ============================================================================
+// DOWNSTREAM RESCHEDULING
+// ============================================================================
+
+/**
+ * Events that stay put when the user runs late: mandatory categories (as in
+ * task optimization), occurrences of recurring events, and group plans —
+ * other people are counting on those times
+ */
+export function isFixedEvent(event: CalendarEvent): boolean {
+  return (
+    isMandatoryCategory(event.category) ||
+    !!event.recurrence_series_id ||
+    !!event.recurrence_parent_id ||
+    event.source === 'group_plan'
+  );
+}
+
+/**
+ * What to do with the events after a late one in its chain.
+ *
+ * A flexible late event runs its full length, so its end moves by the
+ * delay; a fixed one ends on time and nothing after it moves. The delay
+ * then carries down the chain, less any spare time between stops (the gap
+ * minus the travel to the next one):
+ * - Flexible events are pushed back by what's left of it
+ * - When it reaches a fixed event, flexible events pushed back since the
+ *   previous fixed one are dropped, latest first, until it fits. A fixed
+ *   event that still can't be made is kept and reported as late
+ */
+export function planDownstreamChanges(
+  chain: CalendarEvent[],
+  lateEventId: string,
+  minutesLate: number
+): DownstreamChange[] {
+  const index = chain.findIndex(e => e.id === lateEventId);
+  if (index === -1 || minutesLate <= 0 || isFixedEvent(chain[index])) return [];
+
+  const changes: DownstreamChange[] = [];
+  let pending: { change: DownstreamChange; durationMinutes: number }[] = [];
+  let delay = minutesLate;
+  let previousEnd = new Date(chain[index].end_time).getTime();
+
+  for (const event of chain.slice(index + 1)) {
+    const start = new Date(event.start_time).getTime();
+    const end = new Date(event.end_time).getTime();
+    const travel = event.loop_routing?.estimated_travel_minutes ?? 0;
+    const spare = Math.max(0, (start - previousEnd) / MINUTE_MS - travel);
+    previousEnd = end;
+
+    delay = Math.max(0, Math.ceil(delay - spare));
+    if (delay === 0) break;
+
+    if (!isFixedEvent(event)) {
+      const change: DownstreamChange = {
+        eventId: event.id,
+        title: event.title,
+        action: 'shift',
+        oldStart: event.start_time,
+        newStart: new Date(start + delay * MINUTE_MS).toISOString(),
+        newEnd: new Date(end + delay * MINUTE_MS).toISOString(),
+        reason: `Pushed back ${delay} min`,
+      };
+      changes.push(change);
+      pending.push({ change, durationMinutes: (end - start) / MINUTE_MS });
+      continue;
+    }
+
+    // Make room for the fixed event
+    while (delay > 0 && pending.length > 0) {
+      const { change, durationMinutes } = pending.pop()!;
+      change.action = 'drop';
+      delete change.newStart;
+      delete change.newEnd;
+      change.reason = `Skipped to make ${event.title} on time`;
+      delay = Math.max(0, delay - durationMinutes);
+    }
+    pending = [];
+
+    if (delay > 0) {
+      changes.push({
+        eventId: event.id,
+        title: event.title,
+        action: 'keep',
+        oldStart: event.start_time,
+        minutesLate: delay,
+        reason: `Can't be moved; about ${delay} min late`,
+      });
+    }
+
+    // A fixed event ends on time, so nothing after it is affected
+    break;
+  }
+
+  return changes;
+}
+
+/**
+ * Apply proposed changes: shifted events move (and get new departure
+ * alerts), dropped ones are cancelled. Kept events are left alone.
+ */
+export async function applyDownstreamChanges(
+  userId: string,
+  changes: DownstreamChange[]
+): Promise<{ success: boolean; updated: number }> {
+  let updated = 0;
+
+  for (const change of changes) {
+    if (change.action === 'keep') continue;
+
+    try {
+      if (change.action === 'drop') await cancelEventNotifications(change.eventId);
+
+      const { error } = await supabase
+        .from('calendar_events')
+        .update(change.action === 'shift'
+          ? { start_time: change.newStart, end_time: change.newEnd }
+          : { status: 'cancelled' })
+        .eq('id', change.eventId)
+        .eq('user_id', userId);
+
+      if (error) {
+        console.error('Error applying running-late change:', error);
+        continue;
+      }
+
+      updated++;
+      if (change.action === 'shift') await rescheduleEventNotifications(change.eventId);
+    } catch (error) {
+      console.error('Error applying running-late change:', error);
+    }
+  }
+
+  if (updated > 0) await refreshDepartureTimesForUser(userId);
+  return { success: updated > 0, updated };
+}
+
+// ============================================================================
+// GROUP PLANS
+// ============================================================================
+
+/**
+ * Tell the other people in a group plan the user is running late, in the
+ * plan's chat
+ */
+export async function sendRunningLateMessage(
+  userId: string,
+  groupPlanId: string,
+  minutesLate: number,
+  projectedArrival: Date,
+  eventTimezone?: string | null
+): Promise<boolean> {
+  try {
+    const { data: plan, error } = await supabase
+      .from('group_plans')
+      .select('id, creator_id, title, plan_participants ( user_id, rsvp_status )')
+      .eq('id', groupPlanId)
+      .single();
+
+    if (error || !plan) {
+      console.error('Error fetching group plan:', error);
+      return false;
+    }
+
+    const participantIds = ((plan.plan_participants || []) as { user_id: string; rsvp_status: string }[])
+      .filter(p => p.rsvp_status !== 'declined')
+      .map(p => p.user_id);
+
+    const conversation = await getOrCreateGroupConversation(plan.id, plan.creator_id, participantIds, plan.title);
+    if (!conversation) return false;
+
+    const eta = formatEventStartForNotification(projectedArrival, eventTimezone);
+    const message = await sendMessage(
+      conversation.id,
+      userId,
+      `Running about ${minutesLate} min late, I'll be there around ${eta}. Sorry!`
+    );
+    return !!message;
+  } catch (error) {
+    console.error('Error sending running-late message:', error);
+    return false;
+  }
+}
+
+// ============================================================================
+// ALERTS
+// ============================================================================
+
+async function registerRunningLateCategories(): Promise<void> {
+  try {
+    const updateSchedule = { identifier: UPDATE_SCHEDULE_ACTION, buttonTitle: 'Update my schedule' };
+    const notifyGroup = { identifier: NOTIFY_GROUP_ACTION, buttonTitle: 'Tell the group' };
+    await Notifications.setNotificationCategoryAsync(RUNNING_LATE_CATEGORY, [updateSchedule]);
+    await Notifications.setNotificationCategoryAsync(RUNNING_LATE_GROUP_CATEGORY, [notifyGroup, updateSchedule]);
+  } catch (error) {
+    console.error('Error registering running-late actions:', error);
+  }
+}
+
+/** "Move Coffee to 4:20 PM · Skip Gym" */
+function describeChanges(changes: DownstreamChange[], timeZone?: string | null): string {
+  return changes
+    .map(change => {
+      if (change.action === 'shift') {
+        return `Move ${change.title} to ${formatEventStartForNotification(new Date(change.newStart!), timeZone)}`;
+      }
+      if (change.action === 'drop') return `Skip ${change.title}`;
+      return `${change.title} stays (${change.minutesLate} min late)`;
+    })
+    .join(' · ');
+}
+
+/**
+ * Show a running-late alert. Its actions offer to message the group (for
+ * group plans) and to apply the proposed schedule changes.
+ */
+export async function presentRunningLateAlert(userId: string, alert: RunningLateAlert): Promise<string | null> {
+  try {
+    const { event, check, changes, groupPlanId } = alert;
+    const eta = formatEventStartForNotification(check.projectedArrival, event.timezone);
+    const canUpdate = changes.some(c => c.action !== 'keep');
+
+    const body = [
+      `Leave now to get there around ${eta}.`,
+      changes.length > 0 ? `Suggested: ${describeChanges(changes, event.timezone)}` : null,
+    ].filter(Boolean).join('\n');
+
+    return await Notifications.scheduleNotificationAsync({
+      identifier: `running-late:${event.id}`,
+      content: {
+        title: `⏰ Running ${check.minutesLate} min late for ${event.title}`,
+        body,
+        ...((groupPlanId || canUpdate) && {
+          categoryIdentifier: groupPlanId ? RUNNING_LATE_GROUP_CATEGORY : RUNNING_LATE_CATEGORY,
+        }),
+        data: {
+          type: 'running_late',
+          userId,
+          eventId: event.id,
+          minutesLate: check.minutesLate,
+          projectedArrival: check.projectedArrival.toISOString(),
+          eventTimezone: event.timezone ?? null,
+          groupPlanId,
+          changes: canUpdate ? changes : [],
+        },
+        sound: 'default',
+      },
+      trigger: null,
+    });
+  } catch (error) {
+    console.error('Error presenting running-late alert:', error);
+    return null;
+  }
+}
+
+/**
+ * Handle an action on a running-late alert. Returns false for other
+ * notifications.
+ */
+export async function handleRunningLateResponse(
+  response: Notifications.NotificationResponse
+): Promise<boolean> {
+  const data = response.notification.request.content.data as Record<string, unknown>;
+  if (data?.type !== 'running_late') return false;
+
+  const userId = data.userId as string;
+  if (response.actionIdentifier === NOTIFY_GROUP_ACTION && data.groupPlanId) {
+    await sendRunningLateMessage(
+      userId,
+      data.groupPlanId as string,
+      data.minutesLate as number,
+      new Date(data.projectedArrival as string),
+      data.eventTimezone as string | null
+    );
+  } else if (response.actionIdentifier === UPDATE_SCHEDULE_ACTION) {
+    await applyDownstreamChanges(userId, (data.changes as DownstreamChange[]) || []);
+  }
+  return true;
+}
+
+// ============================================================================
+// MONITOR
+// ============================================================================
+
+/**
+ * Watch for running late while the app is open. Location is only watched
+ * while some event's check window is open. Returns a function that stops
+ * the monitor.
+ *
+ * Foreground only: the interval and location watch stop when the app is
+ * backgrounded, and there is no background task (see the module comment).
+ * Until the app is opened again, the "leave now" reminder is the only
+ * prompt the user gets; the first tick after that catches up.
+ */
+export function startRunningLateMonitor(userId: string): () => void {
+  let stopped = false;
+  let checking = false;
+  let lastCheck = 0;
+  let position: Coordinate | null = null;
+  let watcher: { remove: () => void } | null = null;
+
+  registerRunningLateCategories();
+
+  const check = async (loaded?: { mode: TravelMode; watched: WatchedEvent[] }) => {
+    if (stopped || checking || !position) return;
+    checking = true;
+    lastCheck = Date.now();
+    try {
+      const alerts = await checkRunningLate(userId, position, new Date(), loaded);
+      for (const alert of alerts) await presentRunningLateAlert(userId, alert);
+    } finally {
+      checking = false;
+    }
+  };
+
+  const tick = async () => {
+    if (stopped) return;
+    try {
+      const mode = await getPreferredTravelMode(userId);
+      const watched = await getEventsToWatch(userId, mode, new Date());
+
+      if (watched.length === 0) {
+        watcher?.remove();
+        watcher = null;
+        position = null;
+        return;
+      }
+
+      if (!watcher) {
+        watcher = await watchLocation(location => {
+          position = location.coords;
+          if (Date.now() - lastCheck >= RUNNING_LATE_CONFIG.minCheckIntervalMinutes * MINUTE_MS) check();
+        });
+        if (stopped) watcher?.remove();
+      } else {
+        await check({ mode, watched });
+      }
+    } catch (error) {
+      console.error('Error in running-late monitor:', error);
+    }
+  };
+
+  tick();
+  const interval = setInterval(tick, RUNNING_LATE_CONFIG.pollMinutes * MINUTE_MS);
+  const appState = AppState.addEventListener('change', state => {
+    if (state === 'active') tick();
+  });
+
+  return () => {
+    stopped = true;
+    clearInterval(interval);
+    appState.remove();
+    watcher?.remove();
+    watcher = null;
+  };
+}
@@ -0,0 +1,248 @@
+/**
+ * Score Explanation ("Why am I seeing this?")
+ *
+ * Groups the scoring pipeline's per-signal contributions into the handful of
+ * factors users understand — distance, interests, friends, calendar, time of
+ * day, past feedback, popularity — plus a sponsorship disclosure.
+ *
+ * Users can down-weight any adjustable factor ("show me fewer things because
+ * friends went"). Weights live in ai_profile.factor_weights and are turned
+ * into per-signal multipliers for the pipeline by toSignalWeights().
+ */
+
+import type { Json } from '@/types/database';
+import type { RecommendationScore } from '@/types/activity';
+import { asAIProfile, type ScoreComponent, type SignalContribution } from './scoring-pipeline';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ExplanationFactor =
+  | 'distance'
+  | 'interests'
+  | 'friends'
+  | 'calendar'
+  | 'timeOfDay'
+  | 'feedback'
+  | 'popularity'
+  | 'sponsored';
+
+/** Per-factor multipliers (1 = as designed); missing factors count as 1 */
+export type FactorWeights = Partial<Record<ExplanationFactor, number>>;
+
+export interface FactorMeta {
+  label: string;
+  /** Text on the down-weight control */
+  lessLabel: string;
+  /** Sponsorship is a disclosure, not a preference */
+  adjustable: boolean;
+}
+
+export interface FactorExplanation {
+  factor: ExplanationFactor;
+  label: string;
+  /** Strongest signal's label, e.g. "Friends went recently" */
+  detail: string;
+  /** Points this factor added (negative for penalties) */
+  points: number;
+  /** Share of all positive points, 0-1 */
+  share: number;
+  /** The user's current multiplier for this factor */
+  weight: number;
+  adjustable: boolean;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Multiplier applied when a user taps "show me fewer" on a factor */
+export const FACTOR_DOWN_WEIGHT = 0.5;
+
+export const EXPLANATION_FACTORS: Record<ExplanationFactor, FactorMeta> = {
+  distance: { label: 'Distance', lessLabel: 'Fewer because it’s close', adjustable: true },
+  interests: { label: 'Interest match', lessLabel: 'Fewer because of my interests', adjustable: true },
+  friends: { label: 'Friends & people like you', lessLabel: 'Fewer because friends went', adjustable: true },
+  calendar: { label: 'Calendar fit', lessLabel: 'Fewer because of my calendar', adjustable: true },
+  timeOfDay: { label: 'Time of day', lessLabel: 'Fewer because of the time', adjustable: true },
+  feedback: { label: 'Past feedback', lessLabel: 'Fewer because of my history', adjustable: true },
+  popularity: { label: 'Ratings & popularity', lessLabel: 'Fewer because it’s popular', adjustable: true },
+  sponsored: { label: 'Sponsored', lessLabel: '', adjustable: false },
+};
+
+/** Which factor each built-in signal belongs to */
+const SIGNAL_FACTORS: Record<string, ExplanationFactor> = {
+  proximity: 'distance',
+  nearHome: 'distance',
+  nearWork: 'distance',
+  interestMatch: 'interests',
+  facebookExactPlaceBoost: 'interests',
+  facebookCategoryBoost: 'interests',
+  googleTimelineCategoryBoost: 'interests',
+  budgetBoost: 'interests',
+  friendVisitBoost: 'friends',
+  friendPhotoBoost: 'friends',
+  trendingFriendsBoost: 'friends',
+  collaborativeFiltering: 'friends',
+  calendarFit: 'calendar',
+  calendarPatternBoost: 'calendar',
+  preferredTime: 'timeOfDay',
+  timeContext: 'timeOfDay',
+  timeCategory: 'timeOfDay',
+  feedbackBaseline: 'feedback',
+  loopFeedbackBoost: 'feedback',
+  loopVisitHistoryBoost: 'feedback',
+  googleTimelineVisitBoost: 'feedback',
+  recencyPenalty: 'feedback',
+  negativeFeedbackPenalty: 'feedback',
+  rating: 'popularity',
+  popularity: 'popularity',
+  ageBracketBoost: 'popularity',
+  eventUrgencyScore: 'popularity',
+  sponsoredBoost: 'sponsored',
+};
+
+/** Fallback for signals not listed above (e.g. newly added ones) */
+const COMPONENT_FACTORS: Record<ScoreComponent, ExplanationFactor> = {
+  base: 'interests',
+  location: 'distance',
+  time: 'timeOfDay',
+  feedback: 'feedback',
+  collaborative: 'friends',
+  urgency: 'popularity',
+  sponsor: 'sponsored',
+  penalty: 'feedback',
+  boost: 'popularity',
+};
+
+// ============================================================================
+// FACTOR MAPPING
+// ============================================================================
+
+export function factorForSignal(name: string, component: ScoreComponent): ExplanationFactor {
+  return SIGNAL_FACTORS[name] ?? COMPONENT_FACTORS[component];
+}
+
+/**
+ * Rebuild signal contributions from the legacy component totals, for
+ * recommendations saved before per-signal breakdowns existed.
+ */
+function legacyContributions(breakdown: RecommendationScore): SignalContribution[] {
+  const components: [ScoreComponent, number, string][] = [
+    ['base', breakdown.baseScore, 'Matches your interests'],
+    ['location', breakdown.locationScore, 'Close to you'],
+    ['time', breakdown.timeScore, 'Good time to go'],
+    ['feedback', breakdown.feedbackScore, 'Based on your past feedback'],
+    ['collaborative', breakdown.collaborativeScore, 'People like you loved this'],
+    ['sponsor', breakdown.sponsorBoost, 'Sponsored'],
+  ];
+  return components
+    .filter(([, points]) => points)
+    .map(([component, points, label]) => ({ name: component, label, component, points }));
+}
+
+// ============================================================================
+// EXPLANATION
+// ============================================================================
+
+/**
+ * Group a recommendation's score into factors, strongest first.
+ * Sponsored placements always get a disclosure row, last.
+ */
+export function explainScore(
+  breakdown: RecommendationScore | undefined,
+  options: { isSponsored?: boolean; factorWeights?: FactorWeights } = {}
+): FactorExplanation[] {
+  const contributions = breakdown
+    ? breakdown.signals ?? legacyContributions(breakdown)
+    : [];
+
+  const grouped = new Map<ExplanationFactor, { points: number; strongest: SignalContribution }>();
+  for (const signal of contributions) {
+    const factor = factorForSignal(signal.name, signal.component);
+    const entry = grouped.get(factor);
+    if (!entry) {
+      grouped.set(factor, { points: signal.points, strongest: signal });
+    } else {
+      entry.points += signal.points;
+      if (signal.points > entry.strongest.points) entry.strongest = signal;
+    }
+  }
+
+  if (options.isSponsored && !grouped.has('sponsored')) {
+    grouped.set('sponsored', {
+      points: 0,
+      strongest: { name: 'sponsoredBoost', label: 'Sponsored', component: 'sponsor', points: 0 },
+    });
+  }
+
+  const positiveTotal = Array.from(grouped.values()).reduce((sum, e) => sum + Math.max(0, e.points), 0);
+
+  return Array.from(grouped.entries())
+    .filter(([factor, entry]) => entry.points !== 0 || factor === 'sponsored')
+    .map(([factor, entry]) => ({
+      factor,
+      label: EXPLANATION_FACTORS[factor].label,
+      detail: entry.strongest.label,
+      points: Math.round(entry.points),
+      share: positiveTotal > 0 ? Math.max(0, entry.points) / positiveTotal : 0,
+      weight: options.factorWeights?.[factor] ?? 1,
+      adjustable: EXPLANATION_FACTORS[factor].adjustable,
+    }))
+    .sort((a, b) => {
+      if (a.factor === 'sponsored') return 1;
+      if (b.factor === 'sponsored') return -1;
+      return b.points - a.points;
+    });
+}
+
+// ============================================================================
+// USER WEIGHTS
+// ============================================================================
+
+/** Read the user's factor weights from ai_profile, ignoring anything malformed */
+export function getFactorWeights(aiProfile: Json): FactorWeights {
+  const raw = asAIProfile(aiProfile).factor_weights || {};
+  const weights: FactorWeights = {};
+  for (const [factor, weight] of Object.entries(raw)) {
+    if (!(factor in EXPLANATION_FACTORS) || !EXPLANATION_FACTORS[factor as ExplanationFactor].adjustable) continue;
+    if (typeof weight !== 'number' || !Number.isFinite(weight)) continue;
+    weights[factor as ExplanationFactor] = Math.min(1, Math.max(0, weight));
+  }
+  return weights;
+}
+
+/**
+ * Return a copy of ai_profile with one factor's weight set.
+ * Setting a factor back to 1 removes it.
+ */
+export function withFactorWeight(
+  aiProfile: Json,
+  factor: ExplanationFactor,
+  weight: number
+): Json {
+  const profile = { ...(asAIProfile(aiProfile) as Record<string, unknown>) };
+  const weights: Record<string, number> = { ...getFactorWeights(aiProfile) };
+
+  if (weight >= 1) {
+    delete weights[factor];
+  } else {
+    weights[factor] = Math.max(0, weight);
+  }
+
+  profile.factor_weights = weights;
+  return profile as Json;
+}
+
+/** Expand factor weights into per-signal multipliers for ScoringContext.signalWeights */
+export function toSignalWeights(factorWeights: FactorWeights): Record<string, number> {
+  const signalWeights: Record<string, number> = {};
+  for (const [signal, factor] of Object.entries(SIGNAL_FACTORS)) {
+    const weight = factorWeights[factor];
+    if (weight !== undefined && weight !== 1 && EXPLANATION_FACTORS[factor].adjustable) {
+      signalWeights[signal] = weight;
+    }
+  }
+  return signalWeights;
+}
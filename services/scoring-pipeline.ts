@@ -0,0 +1,366 @@
+/**
+ * Scoring Pipeline
+ *
+ * Registry of named scoring signals used by the recommendation engine.
+ * Each signal declares:
+ * - the score component it rolls into (base, location, time, ...)
+ * - a weight (multiplier on its raw points)
+ * - a max (and optional min) contribution after weighting
+ * - a test fixture: a partial context and the raw points it must produce
+ *
+ * Signals are evaluated in registration order. Later signals (e.g. the
+ * sponsored boost) can read the component totals accumulated so far.
+ *
+ * Built-in signals register themselves in services/scoring-signals.ts,
+ * mirroring how activity sources register with the ActivitySourceRegistry.
+ */
+
+import type { User, DiscoveryStyle, Json } from '@/types/database';
+import type { FacebookData, GoogleTimelineData, CalendarPattern } from '@/types/user';
+import type { PlaceLocation, PlaceResult } from './places-common';
+import type { CollaborativeMatch } from './collaborative-filtering';
+import type { TimeOfDayModel } from './time-preferences';
+
+// ============================================================================
+// USER JSON HELPERS
+// ============================================================================
+// The DB `User` type stores interests/preferences/ai_profile as opaque `Json`.
+// These helpers cast them to the shapes the engine actually expects.
+
+/** Safely cast user.interests (Json) to string[] */
+export function asInterests(raw: Json): string[] {
+  return Array.isArray(raw) ? (raw as string[]) : [];
+}
+
+/** Safely cast user.preferences (Json) to the expected shape */
+export interface UserPrefsShape {
+  budget?: number;
+  max_distance_miles?: number;
+  preferred_times?: string[];
+  notification_enabled?: boolean;
+  discovery_style?: DiscoveryStyle;
+}
+export function asPreferences(raw: Json): UserPrefsShape {
+  if (raw && typeof raw === 'object' && !Array.isArray(raw)) return raw as unknown as UserPrefsShape;
+  return {};
+}
+
+/** Safely cast user.ai_profile (Json) to AIProfile-like shape */
+export interface AIProfileShape {
+  preferred_distance_miles?: number;
+  budget_level?: number;
+  favorite_categories?: string[];
+  disliked_categories?: string[];
+  price_sensitivity?: string;
+  time_preferences?: string[];
+  distance_tolerance?: string;
+  calendar_patterns?: CalendarPattern[];
+  /** Per-factor multipliers from the "Why this?" panel (see score-explanation.ts) */
+  factor_weights?: Record<string, number>;
+  /** "Not interested because…" reasons (see negative-feedback.ts) */
+  negative_feedback?: unknown[];
+  /** Learned per-category time-of-day model (see time-preferences.ts) */
+  time_of_day_model?: TimeOfDayModel;
+}
+export function asAIProfile(raw: Json): AIProfileShape {
+  if (raw && typeof raw === 'object' && !Array.isArray(raw)) return raw as unknown as AIProfileShape;
+  return {};
+}
+
+/**
+ * Extended User that may carry optional OAuth/demographic fields
+ * not present in the Supabase schema type but attached at runtime.
+ */
+export interface ExtendedUser extends User {
+  facebook_data?: FacebookData;
+  google_timeline?: GoogleTimelineData;
+  birth_year?: number | null;
+  age_bracket?: string | null;
+}
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FriendSocialContext {
+  friendVisits: { userId: string; userName: string; visitedAt: string; hasMoment: boolean }[];
+  totalFriendVisits: number;
+  recentFriendVisits: number;
+  hasFriendMoments: boolean;
+  friendMomentsCount: number;
+}
+
+/** Everything a signal may look at when scoring one place for one user */
+export interface ScoringContext {
+  place: PlaceResult;
+  category: string;
+  distance: number;
+  user: User;
+  now: Date;
+  homeLocation?: PlaceLocation;
+  workLocation?: PlaceLocation;
+  timeOfDay?: string;
+  recentlyShown?: Map<string, { timestamp: number; hoursSince: number }>;
+  upcomingCalendarEvents?: {
+    id: string;
+    title: string;
+    start_time: string;
+    location: { coordinates: [number, number] };
+  }[];
+  visitHistoryByAddress?: Map<string, number>;
+  visitHistoryByPlaceId?: Map<string, number>;
+  feedbackByPlaceId?: Map<string, { thumbsUp: number; thumbsDown: number; tags: string[] }>;
+  friendSocialContext?: Map<string, FriendSocialContext>;
+  /** Item-to-item CF matches by place_id (see collaborative-filtering.ts) */
+  collaborativeMatches?: Map<string, CollaborativeMatch>;
+  /** Per-user multipliers on positive signal points, by signal name */
+  signalWeights?: Record<string, number>;
+  discoveryStyle: DiscoveryStyle;
+  discoveryMode: 'for_you' | 'explore';
+}
+
+/**
+ * Score bucket a signal rolls into. Buckets map onto the legacy
+ * ScoredRecommendation.scoreBreakdown fields (baseScore, locationScore, ...).
+ */
+export type ScoreComponent =
+  | 'base'
+  | 'location'
+  | 'time'
+  | 'feedback'
+  | 'collaborative'
+  | 'urgency'
+  | 'sponsor'
+  | 'penalty'
+  | 'boost';
+
+export interface SignalFixture {
+  description: string;
+  context: Partial<ScoringContext>;
+  /** Raw points evaluate() must return for this context (before weight/caps) */
+  expected: number;
+}
+
+export interface ScoringSignal {
+  /** Unique signal name; doubles as the legacy breakdown key for standalone boosts */
+  readonly name: string;
+  /** Short user-facing label for "why this?" explanations */
+  readonly label: string;
+  readonly component: ScoreComponent;
+  /** Multiplier applied to raw points (1 = as designed) */
+  readonly weight: number;
+  /** Upper bound on weighted points */
+  readonly maxContribution: number;
+  /** Lower bound on weighted points (defaults to -maxContribution) */
+  readonly minContribution?: number;
+  readonly fixture: SignalFixture;
+
+  /**
+   * Raw points for this place.
+   * @param totals - Component totals accumulated by earlier signals (capped)
+   */
+  evaluate(ctx: ScoringContext, totals: ComponentTotals): number;
+}
+
+export type ComponentTotals = Record<ScoreComponent, number>;
+
+/** One signal's effect on a single recommendation */
+export interface SignalContribution {
+  name: string;
+  label: string;
+  component: ScoreComponent;
+  points: number;
+}
+
+export interface PipelineResult {
+  totals: ComponentTotals;
+  signals: SignalContribution[];
+  /** Rounded sum of all component totals, clamped to [0, MAX_FINAL_SCORE] */
+  finalScore: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Component-level caps. Signals inside a component are summed first, then the
+ * component is clamped — e.g. interest + rating + popularity share a 55 cap.
+ */
+export const COMPONENT_CAPS: Partial<Record<ScoreComponent, { min?: number; max?: number }>> = {
+  base: { max: 55 }, // Raised from 50 to accommodate event bonus
+  location: { max: 30 }, // Raised from 20 for future calendar context
+  time: { min: -10, max: 25 },
+};
+
+/** Final score ceiling (raised to accommodate age bracket boost) */
+export const MAX_FINAL_SCORE = 160;
+
+/** Order in which components are clamped and summed */
+const COMPONENT_ORDER: ScoreComponent[] = [
+  'base',
+  'location',
+  'time',
+  'feedback',
+  'collaborative',
+  'urgency',
+  'sponsor',
+  'penalty',
+  'boost',
+];
+
+function emptyTotals(): ComponentTotals {
+  return {
+    base: 0,
+    location: 0,
+    time: 0,
+    feedback: 0,
+    collaborative: 0,
+    urgency: 0,
+    sponsor: 0,
+    penalty: 0,
+    boost: 0,
+  };
+}
+
+function clampComponent(component: ScoreComponent, value: number): number {
+  const cap = COMPONENT_CAPS[component];
+  if (!cap) return value;
+  let clamped = value;
+  if (cap.max !== undefined) clamped = Math.min(clamped, cap.max);
+  if (cap.min !== undefined) clamped = Math.max(clamped, cap.min);
+  return clamped;
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+/**
+ * Registry that manages scoring signals and runs them as a pipeline
+ */
+export class ScoringSignalRegistry {
+  private signals: Map<string, ScoringSignal> = new Map();
+  private disabled: Set<string> = new Set();
+  private weightOverrides: Map<string, number> = new Map();
+
+  /**
+   * Register a signal. Re-registering a name replaces it in place.
+   */
+  register(signal: ScoringSignal): void {
+    this.signals.set(signal.name, signal);
+  }
+
+  unregister(name: string): void {
+    this.signals.delete(name);
+    this.disabled.delete(name);
+    this.weightOverrides.delete(name);
+  }
+
+  getSignal(name: string): ScoringSignal | undefined {
+    return this.signals.get(name);
+  }
+
+  /** All registered signals in evaluation order (including disabled ones) */
+  getAll(): ScoringSignal[] {
+    return Array.from(this.signals.values());
+  }
+
+  /** Signals that will actually run */
+  getEnabled(): ScoringSignal[] {
+    return this.getAll().filter(s => !this.disabled.has(s.name));
+  }
+
+  disable(name: string): void {
+    this.disabled.add(name);
+  }
+
+  enable(name: string): void {
+    this.disabled.delete(name);
+  }
+
+  isEnabled(name: string): boolean {
+    return this.signals.has(name) && !this.disabled.has(name);
+  }
+
+  /** Override a signal's declared weight globally (e.g. for tuning) */
+  setWeight(name: string, weight: number): void {
+    this.weightOverrides.set(name, weight);
+  }
+
+  getWeight(name: string): number {
+    return this.weightOverrides.get(name) ?? this.signals.get(name)?.weight ?? 0;
+  }
+
+  /** Clear disabled signals and weight overrides */
+  reset(): void {
+    this.disabled.clear();
+    this.weightOverrides.clear();
+  }
+
+  /**
+   * Run every enabled signal against a context.
+   *
+   * Weighted points (times any per-user weight in ctx.signalWeights) are
+   * clamped per signal, summed per component, then each component is
+   * clamped by COMPONENT_CAPS. Signals that evaluate to 0 are
+   * omitted from the returned breakdown.
+   */
+  run(ctx: ScoringContext): PipelineResult {
+    const raw = emptyTotals();
+    const signals: SignalContribution[] = [];
+
+    for (const signal of this.getEnabled()) {
+      const capped = emptyTotals();
+      for (const component of COMPONENT_ORDER) {
+        capped[component] = clampComponent(component, raw[component]);
+      }
+
+      let weighted = signal.evaluate(ctx, capped) * this.getWeight(signal.name);
+      // User down-weights shrink boosts only; penalties stay as designed
+      if (weighted > 0) weighted *= ctx.signalWeights?.[signal.name] ?? 1;
+      const min = signal.minContribution ?? -signal.maxContribution;
+      const points = Math.min(Math.max(weighted, min), signal.maxContribution);
+
+      if (points === 0) continue;
+
+      raw[signal.component] += points;
+      signals.push({
+        name: signal.name,
+        label: signal.label,
+        component: signal.component,
+        points,
+      });
+    }
+
+    const totals = emptyTotals();
+    let sum = 0;
+    for (const component of COMPONENT_ORDER) {
+      totals[component] = clampComponent(component, raw[component]);
+      sum += totals[component];
+    }
+
+    return {
+      totals,
+      signals,
+      finalScore: Math.max(0, Math.min(Math.round(sum), MAX_FINAL_SCORE)),
+    };
+  }
+}
+
+/**
+ * Signals that contributed positively, strongest first.
+ * Used to build "why this?" explanations from what actually fired.
+ */
+export function getFiredSignals(
+  signals: SignalContribution[] | undefined,
+  limit: number = 3
+): SignalContribution[] {
+  return (signals || [])
+    .filter(s => s.points > 0)
+    .sort((a, b) => b.points - a.points)
+    .slice(0, limit);
+}
+
+// Export singleton instance
+export const scoringSignals = new ScoringSignalRegistry();
@@ -0,0 +1,923 @@
+/**
+ * Built-in Scoring Signals
+ *
+ * Every boost that calculateActivityScore used to sum inline is declared here
+ * as a named signal and registered with the scoring pipeline on import.
+ * To add a signal: define it below (or in its own module) and call
+ * scoringSignals.register(). To turn one off: scoringSignals.disable(name).
+ *
+ * Signal names for standalone boosts match the legacy scoreBreakdown keys
+ * (facebookExactPlaceBoost, loopFeedbackBoost, ...) so existing consumers of
+ * ScoredRecommendation['scoreBreakdown'] keep working.
+ */
+
+import type { User, DiscoveryStyle } from '@/types/database';
+import { calculateDistance as haversineMiles } from '@/utils/route-calculations';
+import { matchFacebookLikedPlace } from './facebook-graph';
+import { matchTimelineVisitedPlace, calculateFreshnessFactor } from './google-timeline';
+import { getAgeBracketFromUser } from './curated-service';
+import { getSponsorBoost } from './sponsored-slots';
+import { getNegativeFeedback, negativeFeedbackPenalty } from './negative-feedback';
+import { getCurrentTimeOfDay, getLearnedTimeBoost } from './time-preferences';
+import {
+  scoringSignals,
+  asInterests,
+  asPreferences,
+  asAIProfile,
+} from './scoring-pipeline';
+import type { ScoringContext, ScoringSignal, ExtendedUser } from './scoring-pipeline';
+import type { PlaceLocation, PlaceResult } from './places-common';
+
+// ============================================================================
+// SHARED CONFIG
+// ============================================================================
+
+// Discovery style scoring configuration
+// Shapes how aggressively Loop favours familiar vs novel places
+export const DISCOVERY_STYLE_CONFIG = {
+  explorer:          { nonMatchingBase: 18, visitMultiplier: 0.5, recencyMultiplier: 0.5, maxPerCategory: 2, categoryGroups: 8 },
+  balanced:          { nonMatchingBase: 12, visitMultiplier: 1.0, recencyMultiplier: 1.0, maxPerCategory: 3, categoryGroups: 5 },
+  creature_of_habit: { nonMatchingBase: 6,  visitMultiplier: 1.5, recencyMultiplier: 0.6, maxPerCategory: 4, categoryGroups: 3 },
+} as const;
+
+/**
+ * Time-of-day category weight matrix (Step 3: Time-of-Day Category Weighting)
+ * Returns additive point boost/penalty per category per time slot.
+ * Positive = great fit, Negative = poor fit, 0 = neutral.
+ */
+const TIME_CATEGORY_WEIGHTS: Record<string, Record<string, number>> = {
+  morning: {
+    'Coffee & Cafes': 25, 'Dining': 15, 'Fitness': 20,
+    'Outdoor Activities': 15, 'Wellness': 10,
+    'Bars & Nightlife': -10, 'Entertainment': 0,
+    'Arts & Culture': 5, 'Shopping': 5,
+  },
+  afternoon: {
+    'Shopping': 15, 'Arts & Culture': 15, 'Outdoor Activities': 15,
+    'Dining': 20, 'Entertainment': 10, 'Fitness': 10,
+    'Coffee & Cafes': 10, 'Bars & Nightlife': 0,
+  },
+  evening: {
+    'Dining': 25, 'Bars & Nightlife': 20, 'Entertainment': 20,
+    'Live Music': 20, 'Movies': 15,
+    'Coffee & Cafes': -5, 'Fitness': 0,
+    'Arts & Culture': 5, 'Shopping': 5,
+  },
+  night: {
+    'Bars & Nightlife': 25, 'Live Music': 25, 'Entertainment': 15,
+    'Dining': 10, 'Coffee & Cafes': -15, 'Fitness': -10,
+    'Arts & Culture': -5, 'Shopping': -10,
+  },
+};
+
+// Age bracket starting weights (Step 4: Demographic tuning) — feedback overrides over time
+const AGE_BRACKET_PREFERENCES: Record<string, Record<string, number>> = {
+  '18-24': {
+    'Bars & Nightlife': 10, 'Entertainment': 10, 'Live Music': 8,
+    'Movies': 8, 'Fitness': 5,
+    'Arts & Culture': -3, 'Wellness': -3,
+  },
+  '25-34': {
+    'Dining': 8, 'Bars & Nightlife': 5, 'Fitness': 8,
+    'Live Music': 8, 'Coffee & Cafes': 5, 'Outdoor Activities': 5,
+  },
+  '35-44': {
+    'Dining': 10, 'Outdoor Activities': 8, 'Arts & Culture': 8,
+    'Wellness': 8, 'Shopping': 5,
+    'Bars & Nightlife': -5,
+  },
+  '45+': {
+    'Dining': 10, 'Arts & Culture': 10, 'Outdoor Activities': 8,
+    'Wellness': 10, 'Shopping': 5,
+    'Bars & Nightlife': -8, 'Entertainment': -3,
+  },
+};
+
+// ============================================================================
+// TIME HELPERS
+// ============================================================================
+
+/**
+ * Get time-category weight boost for scoring
+ */
+export function getTimeCategoryBoost(category: string, timeOfDay: string): number {
+  const weights = TIME_CATEGORY_WEIGHTS[timeOfDay];
+  if (!weights) return 0;
+  return weights[category] || 0;
+}
+
+/**
+ * Time-category boost for this user: their learned time-of-day model when it
+ * has enough data for the category, otherwise the fixed table.
+ */
+export function getUserTimeCategoryBoost(user: User, category: string, timeOfDay: string): number {
+  const learned = getLearnedTimeBoost(asAIProfile(user.ai_profile).time_of_day_model, category, timeOfDay);
+  return learned ?? getTimeCategoryBoost(category, timeOfDay);
+}
+
+/**
+ * Check if activity type matches time of day (legacy compatibility)
+ */
+export function checkTimeContext(
+  category: string,
+  timeOfDay: string,
+  boost: number = getTimeCategoryBoost(category, timeOfDay)
+): 'perfect' | 'good' | 'acceptable' {
+  if (boost >= 15) return 'perfect';
+  if (boost >= 5) return 'good';
+  return 'acceptable';
+}
+
+function distanceMiles(a: PlaceLocation, b: PlaceLocation): number {
+  return haversineMiles(
+    { latitude: a.lat, longitude: a.lng },
+    { latitude: b.lat, longitude: b.lng }
+  );
+}
+
+function resolvedTimeOfDay(ctx: ScoringContext): string {
+  return ctx.timeOfDay || getCurrentTimeOfDay(ctx.now);
+}
+
+// ============================================================================
+// FIXTURE CONTEXT
+// ============================================================================
+
+function fixturePlace(): PlaceResult {
+  return {
+    place_id: 'fixture-place',
+    name: 'Fixture Bistro',
+    formatted_address: '100 Main St, Dallas, TX 75201',
+    geometry: { location: { lat: 32.78, lng: -96.8 } },
+    types: ['restaurant'],
+    rating: 4.2,
+    user_ratings_total: 120,
+    price_level: 2,
+    source: 'google_places',
+  };
+}
+
+const FIXTURE_USER = {
+  id: 'fixture-user',
+  email: 'fixture@loop.test',
+  name: 'Fixture User',
+  interests: ['Dining', 'Coffee & Cafes', 'Live Music', 'Fitness'],
+  preferences: { budget: 2, max_distance_miles: 5, preferred_times: ['evening'] },
+  ai_profile: {},
+  subscription_tier: 'free',
+} as unknown as User;
+
+/**
+ * Build a complete ScoringContext from a signal fixture's partial context.
+ * Defaults: a 4.2★ $$ Dallas restaurant 2mi away, Tuesday 2026-03-03 7pm.
+ */
+export function buildFixtureContext(overrides: Partial<ScoringContext> = {}): ScoringContext {
+  return {
+    place: fixturePlace(),
+    category: 'Dining',
+    distance: 2,
+    user: FIXTURE_USER,
+    now: new Date(2026, 2, 3, 19, 0, 0),
+    discoveryStyle: 'balanced' as DiscoveryStyle,
+    discoveryMode: 'for_you',
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// BASE SIGNALS (interest match + quality; component capped at 55)
+// ============================================================================
+
+const interestMatchSignal: ScoringSignal = {
+  name: 'interestMatch',
+  label: 'Matches your interests',
+  component: 'base',
+  weight: 1,
+  maxContribution: 35,
+  minContribution: 0,
+  fixture: { description: 'Top-3 interest, non-event', context: {}, expected: 30 },
+  evaluate(ctx) {
+    const { place, category, user, discoveryMode, discoveryStyle } = ctx;
+    const userInterests = asInterests(user.interests);
+    const topInterests = asAIProfile(user.ai_profile).favorite_categories || userInterests.slice(0, 3);
+    const isEvent = place.source === 'ticketmaster';
+
+    if (topInterests.includes(category)) {
+      return 30 + (isEvent ? 5 : 0); // Top 3 interests - STRONG match (+5 event bonus)
+    }
+    if (userInterests.includes(category)) {
+      return 20 + (isEvent ? 3 : 0); // Other interests - GOOD match
+    }
+    // Discovery mode + discovery style affect non-matching interests
+    const nonMatching = discoveryMode === 'explore'
+      ? 15 // More generous in explore mode - encourage discovery
+      : DISCOVERY_STYLE_CONFIG[discoveryStyle].nonMatchingBase;
+    return nonMatching + (isEvent ? 2 : 0);
+  },
+};
+
+const ratingSignal: ScoringSignal = {
+  name: 'rating',
+  label: 'Highly rated',
+  component: 'base',
+  weight: 1,
+  maxContribution: 12,
+  minContribution: 0,
+  fixture: { description: '4.2 stars', context: {}, expected: 8 },
+  evaluate({ place }) {
+    if (!place.rating) return 0;
+    if (place.rating >= 4.5) return 12;
+    if (place.rating >= 4.0) return 8;
+    if (place.rating >= 3.5) return 4;
+    return 0;
+  },
+};
+
+const popularitySignal: ScoringSignal = {
+  name: 'popularity',
+  label: 'Popular spot',
+  component: 'base',
+  weight: 1,
+  maxContribution: 8,
+  minContribution: 0,
+  fixture: { description: '120 reviews', context: {}, expected: 2 },
+  evaluate({ place }) {
+    const reviewCount = place.user_ratings_total || 0;
+    if (reviewCount >= 500) return 8; // Very popular (trending)
+    if (reviewCount >= 200) return 5; // Popular
+    if (reviewCount >= 50) return 2; // Moderately popular
+    return 0;
+  },
+};
+
+// ============================================================================
+// LOCATION SIGNALS (component capped at 30)
+// ============================================================================
+
+const proximitySignal: ScoringSignal = {
+  name: 'proximity',
+  label: 'Close to you',
+  component: 'location',
+  weight: 1,
+  maxContribution: 20,
+  minContribution: 0,
+  fixture: { description: '2mi away, 5mi preferred radius', context: {}, expected: 10 },
+  evaluate({ distance, user }) {
+    const userMaxDistance = asPreferences(user.preferences).max_distance_miles || 5;
+    if (distance <= 0.5) return 20; // Very close
+    if (distance <= 1) return 15; // Walking distance
+    if (distance <= userMaxDistance) return 10; // Within preferred range
+    return Math.max(0, 10 - (distance - userMaxDistance) * 2); // Penalty for far
+  },
+};
+
+const nearHomeSignal: ScoringSignal = {
+  name: 'nearHome',
+  label: 'Near home',
+  component: 'location',
+  weight: 1,
+  maxContribution: 5,
+  minContribution: 0,
+  fixture: {
+    description: 'Home 0.3mi from place',
+    context: { homeLocation: { lat: 32.784, lng: -96.8 } },
+    expected: 5,
+  },
+  evaluate({ homeLocation, place }) {
+    return homeLocation && distanceMiles(homeLocation, place.geometry.location) <= 1 ? 5 : 0;
+  },
+};
+
+const nearWorkSignal: ScoringSignal = {
+  name: 'nearWork',
+  label: 'Near work',
+  component: 'location',
+  weight: 1,
+  maxContribution: 5,
+  minContribution: 0,
+  fixture: {
+    description: 'Work 10mi from place',
+    context: { workLocation: { lat: 32.93, lng: -96.8 } },
+    expected: 0,
+  },
+  evaluate({ workLocation, place }) {
+    return workLocation && distanceMiles(workLocation, place.geometry.location) <= 1 ? 5 : 0;
+  },
+};
+
+const futureContextSignal: ScoringSignal = {
+  name: 'calendarFit',
+  label: 'Near your upcoming plans',
+  component: 'location',
+  weight: 1,
+  maxContribution: 15,
+  minContribution: 0,
+  fixture: {
+    description: 'Calendar event 0.2mi away in 3 hours',
+    context: {
+      upcomingCalendarEvents: [{
+        id: 'evt-1',
+        title: 'Concert',
+        start_time: new Date(2026, 2, 3, 22, 0, 0).toISOString(),
+        location: { coordinates: [-96.8, 32.783] },
+      }],
+    },
+    expected: 15,
+  },
+  evaluate({ upcomingCalendarEvents, place, now }) {
+    let bonus = 0;
+    for (const calendarEvent of upcomingCalendarEvents || []) {
+      // DEFENSIVE CHECK: Ensure location data exists and is properly formatted
+      const coords = calendarEvent.location?.coordinates;
+      if (!Array.isArray(coords) || coords.length < 2) continue;
+
+      const eventLocation = { lat: coords[1], lng: coords[0] }; // PostGIS stores [lng, lat]
+      const distanceFromEvent = distanceMiles(eventLocation, place.geometry.location);
+      const hoursUntilEvent = (new Date(calendarEvent.start_time).getTime() - now.getTime()) / (1000 * 60 * 60);
+
+      // Only consider events in next 7 days
+      if (hoursUntilEvent <= 0 || hoursUntilEvent > 168) continue;
+
+      if (distanceFromEvent <= 0.5) {
+        bonus = Math.max(bonus, hoursUntilEvent <= 24 ? 15 : 10); // Higher if event is tomorrow
+      } else if (distanceFromEvent <= 1.5) {
+        bonus = Math.max(bonus, hoursUntilEvent <= 24 ? 10 : 6);
+      }
+    }
+    return bonus;
+  },
+};
+
+// ============================================================================
+// TIME SIGNALS (component clamped to [-10, 25])
+// ============================================================================
+
+const preferredTimeSignal: ScoringSignal = {
+  name: 'preferredTime',
+  label: 'Your preferred time',
+  component: 'time',
+  weight: 1,
+  maxContribution: 5,
+  minContribution: 0,
+  fixture: { description: 'Evening, user prefers evenings', context: {}, expected: 5 },
+  evaluate(ctx) {
+    const preferredTimes = asPreferences(ctx.user.preferences).preferred_times || [];
+    return preferredTimes.includes(resolvedTimeOfDay(ctx)) ? 5 : 0;
+  },
+};
+
+const timeContextSignal: ScoringSignal = {
+  name: 'timeContext',
+  label: 'Good time to go',
+  component: 'time',
+  weight: 1,
+  maxContribution: 10,
+  minContribution: 0,
+  fixture: { description: 'Dining in the evening is a perfect fit', context: {}, expected: 10 },
+  evaluate(ctx) {
+    const timeOfDay = resolvedTimeOfDay(ctx);
+    const match = checkTimeContext(ctx.category, timeOfDay, getUserTimeCategoryBoost(ctx.user, ctx.category, timeOfDay));
+    if (match === 'perfect') return 10;
+    if (match === 'good') return 5;
+    return 2; // Acceptable
+  },
+};
+
+const timeCategorySignal: ScoringSignal = {
+  name: 'timeCategory',
+  label: 'Fits this time of day',
+  component: 'time',
+  weight: 1,
+  maxContribution: 25,
+  fixture: {
+    description: 'Coffee at night is a poor fit',
+    context: { category: 'Coffee & Cafes', timeOfDay: 'night' },
+    expected: -15,
+  },
+  evaluate(ctx) {
+    // Additive boost making morning feeds surface coffee, evening feeds surface restaurants
+    // (or whatever this user actually does at this hour, once we've learned it)
+    return getUserTimeCategoryBoost(ctx.user, ctx.category, resolvedTimeOfDay(ctx));
+  },
+};
+
+// ============================================================================
+// FEEDBACK BASELINE
+// ============================================================================
+
+const feedbackBaselineSignal: ScoringSignal = {
+  name: 'feedbackBaseline',
+  label: 'Neutral feedback baseline',
+  component: 'feedback',
+  weight: 1,
+  maxContribution: 15,
+  minContribution: 0,
+  fixture: { description: 'Always neutral 5', context: {}, expected: 5 },
+  evaluate() {
+    // Per-place feedback lives in loopFeedbackBoost; keep this neutral base
+    // score for backwards compatibility of feedbackScore
+    return 5;
+  },
+};
+
+// ============================================================================
+// COLLABORATIVE FILTERING
+// ============================================================================
+
+const collaborativeSignal: ScoringSignal = {
+  name: 'collaborativeFiltering',
+  label: 'People like you loved this',
+  component: 'collaborative',
+  weight: 1,
+  maxContribution: 10,
+  minContribution: 0,
+  fixture: {
+    description: 'Strong neighbour of a liked place',
+    context: {
+      collaborativeMatches: new Map([['fixture-place', { score: 0.8, source: 'neighbors' as const }]]),
+    },
+    expected: 8,
+  },
+  evaluate({ place, collaborativeMatches }) {
+    const match = collaborativeMatches?.get(place.place_id);
+    return match ? Math.round(match.score * 10) : 0;
+  },
+};
+
+// ============================================================================
+// DATA SOURCE BOOSTS (Day 1 Sprint + Feedback Loop)
+// ============================================================================
+
+function facebookMatchType(ctx: ScoringContext): 'exact' | 'category' | null {
+  const facebookData = (ctx.user as ExtendedUser).facebook_data;
+  if (!facebookData?.liked_places?.length) return null;
+  // TODO: Check all liked places, not just first
+  return matchFacebookLikedPlace(facebookData.liked_places[0], ctx.place.name, ctx.category).type;
+}
+
+const facebookExactPlaceSignal: ScoringSignal = {
+  name: 'facebookExactPlaceBoost',
+  label: 'You liked this on Facebook',
+  component: 'boost',
+  weight: 1,
+  maxContribution: 30,
+  minContribution: 0,
+  fixture: {
+    description: 'Liked place name matches',
+    context: {
+      user: { ...FIXTURE_USER, facebook_data: { liked_places: [{ name: 'Fixture Bistro', category: 'Dining' }] } } as unknown as User,
+    },
+    expected: 30,
+  },
+  evaluate(ctx) {
+    return facebookMatchType(ctx) === 'exact' ? 30 : 0;
+  },
+};
+
+const facebookCategorySignal: ScoringSignal = {
+  name: 'facebookCategoryBoost',
+  label: 'Like places you follow on Facebook',
+  component: 'boost',
+  weight: 1,
+  maxContribution: 15,
+  minContribution: 0,
+  fixture: {
+    description: 'Liked a different place in the same category',
+    context: {
+      user: { ...FIXTURE_USER, facebook_data: { liked_places: [{ name: 'Other Grill', category: 'Dining' }] } } as unknown as User,
+    },
+    expected: 15,
+  },
+  evaluate(ctx) {
+    return facebookMatchType(ctx) === 'category' ? 15 : 0;
+  },
+};
+
+function timelineMatch(ctx: ScoringContext) {
+  const timelineData = (ctx.user as ExtendedUser).google_timeline;
+  if (!timelineData?.visited_places?.length) return null;
+  const match = matchTimelineVisitedPlace(timelineData, ctx.place.name, ctx.category);
+  return match.match ? { timelineData, ...match } : null;
+}
+
+const googleTimelineVisitSignal: ScoringSignal = {
+  name: 'googleTimelineVisitBoost',
+  label: 'You’ve been here before',
+  component: 'boost',
+  weight: 1,
+  maxContribution: 35,
+  minContribution: 0,
+  fixture: {
+    description: 'Visited 8 times, last visit today (1.2x freshness)',
+    context: {
+      user: {
+        ...FIXTURE_USER,
+        google_timeline: {
+          visited_places: [{ place_name: 'Fixture Bistro', category: 'Dining', visit_count: 8, last_visit: new Date().toISOString() }],
+          last_synced: null,
+        },
+      } as unknown as User,
+    },
+    expected: 30,
+  },
+  evaluate(ctx) {
+    const match = timelineMatch(ctx);
+    if (!match || match.visitCount < 1) return 0;
+
+    // Apply freshness factor (prefer recent visits)
+    const placeName = ctx.place.name.toLowerCase();
+    const visitedPlace = match.timelineData.visited_places.find(
+      p => p.place_name.toLowerCase().includes(placeName)
+    );
+    return visitedPlace
+      ? Math.round(match.boost * calculateFreshnessFactor(visitedPlace.last_visit))
+      : match.boost;
+  },
+};
+
+const googleTimelineCategorySignal: ScoringSignal = {
+  name: 'googleTimelineCategoryBoost',
+  label: 'You often visit places like this',
+  component: 'boost',
+  weight: 1,
+  maxContribution: 20,
+  minContribution: 0,
+  fixture: { description: 'No timeline data', context: {}, expected: 0 },
+  evaluate(ctx) {
+    const match = timelineMatch(ctx);
+    return match && match.visitCount < 1 ? match.boost : 0;
+  },
+};
+
+const calendarPatternSignal: ScoringSignal = {
+  name: 'calendarPatternBoost',
+  label: 'Fits your weekly routine',
+  component: 'boost',
+  weight: 1,
+  maxContribution: 25,
+  minContribution: 0,
+  fixture: {
+    description: 'Dinner every Tuesday at 19:00',
+    context: {
+      user: {
+        ...FIXTURE_USER,
+        ai_profile: { calendar_patterns: [{ day: 'tuesday', time: '19:00', category: 'Dining', frequency: 4 }] },
+      } as unknown as User,
+    },
+    expected: 25,
+  },
+  evaluate({ user, category, now }) {
+    // Analyze user's calendar for recurring patterns (e.g., "Dinner every Friday 7pm")
+    const patterns = asAIProfile(user.ai_profile).calendar_patterns;
+    if (!patterns) return 0;
+
+    const currentDay = now.toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase();
+    const currentHour = now.getHours();
+    let boost = 0;
+
+    for (const pattern of patterns) {
+      const dayMatch = pattern.day === currentDay || (pattern.days && pattern.days.includes(currentDay));
+      if (!dayMatch || pattern.category !== category) continue;
+
+      const [patternHour] = pattern.time.split(':').map(Number);
+      // Strong match if within 2 hours of usual time
+      if (Math.abs(currentHour - patternHour) <= 2) return 25;
+      // Moderate match if same day
+      boost = Math.max(boost, 15);
+    }
+    return boost;
+  },
+};
+
+function userBudgetLevel(user: User): number {
+  return asAIProfile(user.ai_profile).budget_level || asPreferences(user.preferences).budget || 2;
+}
+
+const budgetSignal: ScoringSignal = {
+  name: 'budgetBoost',
+  label: 'Fits your budget',
+  component: 'boost',
+  weight: 1,
+  maxContribution: 15,
+  minContribution: -10,
+  fixture: { description: '$$ place, $$ budget', context: {}, expected: 15 },
+  evaluate({ place, user }) {
+    const placePriceLevel = place.price_level || 0;
+    if (placePriceLevel <= 0) return 0;
+
+    const gap = Math.abs(placePriceLevel - userBudgetLevel(user));
+    if (gap === 0) return 15; // Perfect match
+    if (gap === 1) return 5; // One level off (acceptable)
+    return -10; // Two+ levels off (too expensive or too cheap)
+  },
+};
+
+const loopVisitHistorySignal: ScoringSignal = {
+  name: 'loopVisitHistoryBoost',
+  label: 'A regular spot of yours',
+  component: 'boost',
+  weight: 1,
+  maxContribution: 60,
+  minContribution: 0,
+  fixture: {
+    description: '3 Loop visits, balanced style',
+    context: { visitHistoryByPlaceId: new Map([['fixture-place', 3]]) },
+    expected: 20,
+  },
+  evaluate({ place, visitHistoryByPlaceId, visitHistoryByAddress, discoveryStyle }) {
+    // Try matching by place ID first (most accurate), then by address
+    let visitCount = (place.place_id && visitHistoryByPlaceId?.get(place.place_id)) || 0;
+    if (visitCount === 0 && visitHistoryByAddress && place.formatted_address) {
+      visitCount = visitHistoryByAddress.get(place.formatted_address.toLowerCase().trim()) || 0;
+    }
+    if (visitCount === 0) return 0;
+
+    let rawBoost = 15; // Been here once
+    if (visitCount >= 10) rawBoost = 40; // Frequent favorite
+    else if (visitCount >= 5) rawBoost = 30; // Regular spot
+    else if (visitCount >= 2) rawBoost = 20; // Repeat visitor
+
+    // explorer: 0.5x (de-emphasise repeats), creature_of_habit: 1.5x (love repeats)
+    return Math.round(rawBoost * DISCOVERY_STYLE_CONFIG[discoveryStyle].visitMultiplier);
+  },
+};
+
+const loopFeedbackSignal: ScoringSignal = {
+  name: 'loopFeedbackBoost',
+  label: 'Based on your past feedback',
+  component: 'boost',
+  weight: 1,
+  maxContribution: 20,
+  minContribution: -30,
+  fixture: {
+    description: 'Two thumbs down, said too expensive on a $$$ place',
+    context: {
+      place: { ...fixturePlace(), price_level: 3 },
+      feedbackByPlaceId: new Map([['fixture-place', { thumbsUp: 0, thumbsDown: 2, tags: ['Too expensive'] }]]),
+    },
+    expected: -25,
+  },
+  evaluate({ place, feedbackByPlaceId, distance }) {
+    const feedback = place.place_id ? feedbackByPlaceId?.get(place.place_id) : undefined;
+    if (!feedback) return 0;
+
+    const netRating = feedback.thumbsUp - feedback.thumbsDown;
+    if (netRating >= 2) return 20; // Multiple thumbs up
+    if (netRating === 1) return 15; // Positive overall
+    if (netRating === 0) return 0; // Mixed feelings
+    if (netRating === -1) return -10; // Slight dislike
+
+    // Strong negative, plus extra penalty if specific negative tags still apply
+    let boost = -20;
+    if (feedback.tags.includes('Too expensive') && (place.price_level || 0) >= 3) boost -= 5;
+    if (feedback.tags.includes('Too far') && distance > 3) boost -= 5;
+    return boost;
+  },
+};
+
+// ============================================================================
+// FRIEND SOCIAL CONTEXT (Loop Moments)
+// ============================================================================
+
+const friendVisitSignal: ScoringSignal = {
+  name: 'friendVisitBoost',
+  label: 'Friends went recently',
+  component: 'boost',
+  weight: 1,
+  maxContribution: 25,
+  minContribution: 0,
+  fixture: {
+    description: 'One friend visited this week',
+    context: { friendSocialContext: new Map([['fixture-place', fixtureSocialContext(1, false)]]) },
+    expected: 25,
+  },
+  evaluate({ place, friendSocialContext }) {
+    const social = friendSocialContext?.get(place.place_id);
+    return social && social.recentFriendVisits > 0 ? 25 : 0;
+  },
+};
+
+const friendPhotoSignal: ScoringSignal = {
+  name: 'friendPhotoBoost',
+  label: 'Friends shared moments here',
+  component: 'boost',
+  weight: 1,
+  maxContribution: 15,
+  minContribution: 0,
+  fixture: {
+    description: 'Place has friend moments',
+    context: { friendSocialContext: new Map([['fixture-place', fixtureSocialContext(0, true)]]) },
+    expected: 15,
+  },
+  evaluate({ place, friendSocialContext }) {
+    return friendSocialContext?.get(place.place_id)?.hasFriendMoments ? 15 : 0;
+  },
+};
+
+const trendingFriendsSignal: ScoringSignal = {
+  name: 'trendingFriendsBoost',
+  label: 'Trending with your friends',
+  component: 'boost',
+  weight: 1,
+  maxContribution: 20,
+  minContribution: 0,
+  fixture: {
+    description: 'Two friends visited this week',
+    context: { friendSocialContext: new Map([['fixture-place', fixtureSocialContext(2, false)]]) },
+    expected: 20,
+  },
+  evaluate({ place, friendSocialContext }) {
+    const social = friendSocialContext?.get(place.place_id);
+    return social && social.recentFriendVisits >= 2 ? 20 : 0;
+  },
+};
+
+const ageBracketSignal: ScoringSignal = {
+  name: 'ageBracketBoost',
+  label: 'Popular with people your age',
+  component: 'boost',
+  weight: 1,
+  maxContribution: 10,
+  fixture: {
+    description: '45+ and a bar',
+    context: {
+      category: 'Bars & Nightlife',
+      user: { ...FIXTURE_USER, age_bracket: '45+' } as unknown as User,
+    },
+    expected: -8,
+  },
+  evaluate({ user, category }) {
+    const bracket = getAgeBracketFromUser(user as ExtendedUser);
+    return (bracket && AGE_BRACKET_PREFERENCES[bracket]?.[category]) || 0;
+  },
+};
+
+// ============================================================================
+// SPONSOR, RECENCY, EVENT URGENCY
+// ============================================================================
+
+const sponsoredSignal: ScoringSignal = {
+  name: 'sponsoredBoost',
+  label: 'Sponsored',
+  component: 'sponsor',
+  weight: 1,
+  maxContribution: 50,
+  minContribution: 0,
+  fixture: { description: 'Organic place', context: {}, expected: 0 },
+  evaluate({ place }, totals) {
+    // Boosted +15%, Premium +30%; capped at +10 for irrelevant sponsored places
+    return getSponsorBoost(
+      place.sponsor_tier,
+      totals.base + totals.location + totals.time + totals.feedback + totals.collaborative
+    );
+  },
+};
+
+const recencySignal: ScoringSignal = {
+  name: 'recencyPenalty',
+  label: 'Shown to you recently',
+  component: 'penalty',
+  weight: 1,
+  maxContribution: 0,
+  minContribution: -60,
+  fixture: {
+    description: 'Shown 3 hours ago',
+    context: { recentlyShown: new Map([['fixture-place', { timestamp: 0, hoursSince: 3 }]]) },
+    expected: -40,
+  },
+  evaluate({ place, recentlyShown, discoveryStyle }) {
+    const shown = recentlyShown?.get(place.place_id);
+    if (!shown) return 0;
+
+    // Stronger exponential decay to prevent seeing same places repeatedly
+    let rawPenalty = 0;
+    if (shown.hoursSince < 6) rawPenalty = -40;
+    else if (shown.hoursSince < 12) rawPenalty = -30;
+    else if (shown.hoursSince < 24) rawPenalty = -25;
+    else if (shown.hoursSince < 48) rawPenalty = -12;
+    else if (shown.hoursSince < 72) rawPenalty = -5;
+    // After 72h: no penalty (fully eligible)
+
+    return Math.round(rawPenalty * DISCOVERY_STYLE_CONFIG[discoveryStyle].recencyMultiplier);
+  },
+};
+
+const negativeFeedbackSignal: ScoringSignal = {
+  name: 'negativeFeedbackPenalty',
+  label: 'You said you weren’t interested',
+  component: 'penalty',
+  weight: 1,
+  maxContribution: 0,
+  minContribution: -50,
+  fixture: {
+    description: 'Said "not my vibe" about this place today',
+    context: {
+      user: {
+        ...FIXTURE_USER,
+        ai_profile: {
+          negative_feedback: [{
+            id: 'fixture',
+            reason: 'not_my_vibe',
+            place_id: 'fixture-place',
+            place_name: 'Fixture Bistro',
+            category: 'Dining',
+            chain: 'fixturebistro',
+            created_at: new Date(2026, 2, 3, 19, 0, 0).toISOString(),
+          }],
+        },
+      } as unknown as User,
+    },
+    expected: -30,
+  },
+  evaluate(ctx) {
+    const entries = getNegativeFeedback(ctx.user.ai_profile);
+    if (entries.length === 0) return 0;
+
+    return negativeFeedbackPenalty(entries, {
+      placeId: ctx.place.place_id,
+      name: ctx.place.name,
+      category: ctx.category,
+      priceLevel: ctx.place.price_level,
+      distanceMiles: ctx.distance,
+      timeOfDay: resolvedTimeOfDay(ctx),
+    }, ctx.now);
+  },
+};
+
+const eventUrgencySignal: ScoringSignal = {
+  name: 'eventUrgencyScore',
+  label: 'Happening soon',
+  component: 'urgency',
+  weight: 1,
+  maxContribution: 15,
+  minContribution: -100,
+  fixture: {
+    description: 'Event in 5 hours',
+    context: {
+      place: {
+        ...fixturePlace(),
+        source: 'ticketmaster',
+        event_metadata: { start_time: new Date(2026, 2, 4, 0, 0, 0).toISOString() },
+      },
+    },
+    expected: 15,
+  },
+  evaluate({ place, now }) {
+    if (place.source !== 'ticketmaster' || !place.event_metadata) return 0;
+
+    const hoursUntilEvent = (new Date(place.event_metadata.start_time).getTime() - now.getTime()) / (1000 * 60 * 60);
+    if (hoursUntilEvent < 0) return -100; // Event already passed - exclude from results
+    if (hoursUntilEvent <= 24) return 15; // Today or tomorrow
+    if (hoursUntilEvent <= 72) return 12; // 1-3 days
+    if (hoursUntilEvent <= 168) return 8; // This week
+    if (hoursUntilEvent <= 720) return 4; // This month
+    return 2; // 30+ days away
+  },
+};
+
+function fixtureSocialContext(recentFriendVisits: number, hasFriendMoments: boolean) {
+  return {
+    friendVisits: [],
+    totalFriendVisits: recentFriendVisits,
+    recentFriendVisits,
+    hasFriendMoments,
+    friendMomentsCount: hasFriendMoments ? 1 : 0,
+  };
+}
+
+// ============================================================================
+// REGISTRATION (evaluation order matters: sponsor reads earlier components)
+// ============================================================================
+
+export const BUILT_IN_SIGNALS: ScoringSignal[] = [
+  interestMatchSignal,
+  ratingSignal,
+  popularitySignal,
+  proximitySignal,
+  nearHomeSignal,
+  nearWorkSignal,
+  futureContextSignal,
+  preferredTimeSignal,
+  timeContextSignal,
+  timeCategorySignal,
+  feedbackBaselineSignal,
+  collaborativeSignal,
+  facebookExactPlaceSignal,
+  facebookCategorySignal,
+  googleTimelineVisitSignal,
+  googleTimelineCategorySignal,
+  calendarPatternSignal,
+  budgetSignal,
+  loopVisitHistorySignal,
+  loopFeedbackSignal,
+  friendVisitSignal,
+  friendPhotoSignal,
+  trendingFriendsSignal,
+  ageBracketSignal,
+  sponsoredSignal,
+  recencySignal,
+  negativeFeedbackSignal,
+  eventUrgencySignal,
+];
+
+BUILT_IN_SIGNALS.forEach(signal => scoringSignals.register(signal));
@@ -0,0 +1,363 @@
+/**
+ * Sponsored Slot Allocator
+ *
+ * Decides where (and whether) sponsored activities appear in a ranked feed.
+ *
+ * Rules:
+ * - Per-position caps: max 2 sponsored in the top 5, max 3 in the top 10
+ * - Tier-based earliest slot: premium may take slot 1, boosted slot 2; slot 0 is always organic
+ * - Minimum spacing of 2 organic cards between sponsored cards
+ * - Frequency cap per user per business across sessions (rolling 24h window)
+ *
+ * Every sponsored candidate produces a SlotDecision. Decisions are logged to
+ * `sponsored_slot_decisions` so the business analytics screen can report how
+ * often a sponsor won or lost a slot and why.
+ */
+
+import { supabase } from '@/lib/supabase';
+import type { Activity } from '@/types/activity';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SponsorTier = NonNullable<Activity['sponsorTier']>;
+
+export type SlotOutcome = 'won' | 'demoted' | 'lost';
+
+export type SlotReason =
+  | 'placed'
+  | 'tier_position'
+  | 'position_cap'
+  | 'spacing'
+  | 'frequency_cap'
+  | 'below_fold';
+
+export interface SlotDecision {
+  placeId: string;
+  sponsorTier: SponsorTier;
+  requestedPosition: number;
+  assignedPosition: number | null;
+  outcome: SlotOutcome;
+  /** 'placed' for a clean win, otherwise the first rule that blocked the requested slot */
+  reason: SlotReason;
+}
+
+/** Minimal shape the allocator needs from a scored recommendation */
+export interface SponsorSlotCandidate {
+  place: { place_id: string };
+  score: number;
+  isSponsored: boolean;
+  sponsorTier?: SponsorTier;
+  scoreBreakdown: { sponsoredBoost: number; finalScore: number };
+}
+
+export interface SlotAllocationResult<T extends SponsorSlotCandidate> {
+  recommendations: T[];
+  decisions: SlotDecision[];
+}
+
+export interface SponsoredSlotStats {
+  totalDecisions: number;
+  won: number;
+  demoted: number;
+  lost: number;
+  winRate: number; // 0-100, won + demoted over all decisions
+  lossReasons: Partial<Record<SlotReason, number>>;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const SPONSORED_SLOT_RULES = {
+  /** Sponsored caps per leading window of the feed */
+  positionCaps: [
+    { withinTop: 5, max: 2 },
+    { withinTop: 10, max: 3 },
+  ],
+  /** Minimum organic cards between two sponsored cards */
+  minSpacing: 2,
+  /** Rolling window for frequency capping */
+  frequencyWindowHours: 24,
+} as const;
+
+export const SPONSOR_TIER_CONFIG: Record<SponsorTier, {
+  boostRate: number;
+  earliestPosition: number;
+  maxImpressionsPerWindow: number;
+}> = {
+  organic: { boostRate: 0, earliestPosition: 0, maxImpressionsPerWindow: 0 },
+  boosted: { boostRate: 0.15, earliestPosition: 2, maxImpressionsPerWindow: 2 },
+  premium: { boostRate: 0.30, earliestPosition: 1, maxImpressionsPerWindow: 4 },
+};
+
+/** Sponsored boost is capped for low-relevance activities to prevent irrelevant spam */
+const LOW_RELEVANCE_THRESHOLD = 40;
+const LOW_RELEVANCE_BOOST_CAP = 10;
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+export function isSponsoredTier(tier: SponsorTier | undefined): tier is 'boosted' | 'premium' {
+  return tier === 'boosted' || tier === 'premium';
+}
+
+/**
+ * Score boost for a sponsored activity.
+ * Organic: 0, Boosted: +15%, Premium: +30%; capped at +10 when the
+ * organic subtotal is below 40 points.
+ */
+export function getSponsorBoost(tier: SponsorTier | undefined, baseTotal: number): number {
+  if (!isSponsoredTier(tier)) return 0;
+
+  const boost = baseTotal * SPONSOR_TIER_CONFIG[tier].boostRate;
+  return baseTotal >= LOW_RELEVANCE_THRESHOLD ? boost : Math.min(LOW_RELEVANCE_BOOST_CAP, boost);
+}
+
+/**
+ * Return the first rule that prevents a sponsored card of `tier` from
+ * taking `position`, or null if the slot is available.
+ */
+function findSlotBlocker(
+  tier: SponsorTier,
+  position: number,
+  placedPositions: number[]
+): SlotReason | null {
+  if (position < SPONSOR_TIER_CONFIG[tier].earliestPosition) {
+    return 'tier_position';
+  }
+
+  for (const cap of SPONSORED_SLOT_RULES.positionCaps) {
+    if (position < cap.withinTop) {
+      const placedInWindow = placedPositions.filter(p => p < cap.withinTop).length;
+      if (placedInWindow >= cap.max) return 'position_cap';
+    }
+  }
+
+  const lastPlaced = placedPositions[placedPositions.length - 1];
+  if (lastPlaced !== undefined && position - lastPlaced - 1 < SPONSORED_SLOT_RULES.minSpacing) {
+    return 'spacing';
+  }
+
+  return null;
+}
+
+/** Remove the sponsored boost so a losing sponsor competes on organic merit */
+function stripSponsorship<T extends SponsorSlotCandidate>(rec: T): T {
+  const boost = rec.scoreBreakdown.sponsoredBoost || 0;
+  return {
+    ...rec,
+    isSponsored: false,
+    score: rec.score - boost,
+    scoreBreakdown: {
+      ...rec.scoreBreakdown,
+      sponsoredBoost: 0,
+      finalScore: rec.scoreBreakdown.finalScore - boost,
+    },
+  };
+}
+
+/** Insert into a score-ordered organic list, after any equal-or-higher scores */
+function insertByScore<T extends SponsorSlotCandidate>(list: T[], rec: T): void {
+  const idx = list.findIndex(r => r.score < rec.score);
+  if (idx === -1) list.push(rec);
+  else list.splice(idx, 0, rec);
+}
+
+/**
+ * Allocate sponsored slots in an already-ranked list.
+ *
+ * Organic items keep their relative order. Each sponsored item asks for the
+ * position it earned by score; if a rule blocks it, it slides down to the
+ * next legal slot ('demoted'). Sponsors that hit their frequency cap, run out
+ * of legal slots, or land past `maxResults` lose sponsorship and compete as
+ * organic items ('lost').
+ *
+ * @param recommendations - Ranked recommendations (best first)
+ * @param maxResults - Number of items the feed will actually show
+ * @param impressionCounts - Sponsored impressions per place_id in the frequency window
+ */
+export function allocateSponsoredSlots<T extends SponsorSlotCandidate>(
+  recommendations: T[],
+  maxResults: number,
+  impressionCounts: Map<string, number> = new Map()
+): SlotAllocationResult<T> {
+  const decisions: SlotDecision[] = [];
+  const organic: T[] = [];
+  const capped: T[] = [];
+  const sponsored: { rec: T; tier: 'boosted' | 'premium'; requestedPosition: number }[] = [];
+
+  recommendations.forEach((rec, index) => {
+    if (!rec.isSponsored || !isSponsoredTier(rec.sponsorTier)) {
+      organic.push(rec);
+      return;
+    }
+
+    const tier = rec.sponsorTier;
+    const impressions = impressionCounts.get(rec.place.place_id) || 0;
+    if (impressions >= SPONSOR_TIER_CONFIG[tier].maxImpressionsPerWindow) {
+      decisions.push({
+        placeId: rec.place.place_id,
+        sponsorTier: tier,
+        requestedPosition: index,
+        assignedPosition: null,
+        outcome: 'lost',
+        reason: 'frequency_cap',
+      });
+      capped.push(stripSponsorship(rec));
+      return;
+    }
+
+    sponsored.push({ rec, tier, requestedPosition: index });
+  });
+
+  // Frequency-capped sponsors re-enter the organic stream at their unboosted score
+  capped.forEach(rec => insertByScore(organic, rec));
+
+  const output: T[] = [];
+  const placedPositions: number[] = [];
+  const firstBlocker = new Map<T, SlotReason>();
+
+  while (organic.length > 0 || sponsored.length > 0) {
+    const position = output.length;
+    const next = sponsored[0];
+
+    // A sponsor is due once the feed reaches the slot it earned by score
+    if (next && (next.requestedPosition <= position || organic.length === 0)) {
+      const blocker = findSlotBlocker(next.tier, position, placedPositions);
+
+      if (!blocker) {
+        sponsored.shift();
+        output.push(next.rec);
+        placedPositions.push(position);
+
+        const earlierBlocker = firstBlocker.get(next.rec);
+        const visible = position < maxResults;
+        decisions.push({
+          placeId: next.rec.place.place_id,
+          sponsorTier: next.tier,
+          requestedPosition: next.requestedPosition,
+          assignedPosition: visible ? position : null,
+          outcome: !visible ? 'lost' : earlierBlocker ? 'demoted' : 'won',
+          reason: !visible ? 'below_fold' : earlierBlocker ?? 'placed',
+        });
+        continue;
+      }
+
+      if (!firstBlocker.has(next.rec)) firstBlocker.set(next.rec, blocker);
+
+      if (organic.length === 0) {
+        // No organic filler left to satisfy spacing/caps: sponsorship is forfeited
+        sponsored.shift();
+        decisions.push({
+          placeId: next.rec.place.place_id,
+          sponsorTier: next.tier,
+          requestedPosition: next.requestedPosition,
+          assignedPosition: null,
+          outcome: 'lost',
+          reason: firstBlocker.get(next.rec)!,
+        });
+        output.push(stripSponsorship(next.rec));
+        continue;
+      }
+    }
+
+    output.push(organic.shift()!);
+  }
+
+  return { recommendations: output, decisions };
+}
+
+/**
+ * Aggregate slot decisions into win/loss stats for the business analytics screen.
+ */
+export function summarizeSlotDecisions(
+  rows: { outcome: SlotOutcome; reason: SlotReason }[]
+): SponsoredSlotStats {
+  const stats: SponsoredSlotStats = {
+    totalDecisions: rows.length,
+    won: 0,
+    demoted: 0,
+    lost: 0,
+    winRate: 0,
+    lossReasons: {},
+  };
+
+  for (const row of rows) {
+    stats[row.outcome]++;
+    if (row.outcome === 'lost') {
+      stats.lossReasons[row.reason] = (stats.lossReasons[row.reason] || 0) + 1;
+    }
+  }
+
+  stats.winRate = rows.length > 0
+    ? Math.round(((stats.won + stats.demoted) / rows.length) * 100)
+    : 0;
+
+  return stats;
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+/**
+ * Count sponsored impressions (won or demoted slots) per place for a user
+ * within the frequency window. Returns an empty map on error so ranking
+ * never blocks on analytics.
+ */
+export async function getSponsorImpressionCounts(userId: string): Promise<Map<string, number>> {
+  const counts = new Map<string, number>();
+  const cutoff = new Date(Date.now() - SPONSORED_SLOT_RULES.frequencyWindowHours * 60 * 60 * 1000);
+
+  try {
+    const { data, error } = await supabase
+      .from('sponsored_slot_decisions')
+      .select('google_place_id')
+      .eq('user_id', userId)
+      .in('outcome', ['won', 'demoted'])
+      .gte('created_at', cutoff.toISOString());
+
+    if (error) {
+      console.warn('[SponsoredSlots] Failed to load impression counts:', error.message);
+      return counts;
+    }
+
+    (data || []).forEach((row: { google_place_id: string }) => {
+      counts.set(row.google_place_id, (counts.get(row.google_place_id) || 0) + 1);
+    });
+  } catch (err) {
+    console.warn('[SponsoredSlots] Exception loading impression counts:', err);
+  }
+
+  return counts;
+}
+
+/**
+ * Persist slot decisions. Fire-and-forget from the ranking path.
+ */
+export async function logSlotDecisions(userId: string, decisions: SlotDecision[]): Promise<void> {
+  if (decisions.length === 0) return;
+
+  try {
+    const { error } = await supabase
+      .from('sponsored_slot_decisions')
+      .insert(decisions.map(d => ({
+        user_id: userId,
+        google_place_id: d.placeId,
+        sponsor_tier: d.sponsorTier,
+        requested_position: d.requestedPosition,
+        assigned_position: d.assignedPosition,
+        outcome: d.outcome,
+        reason: d.reason,
+      })));
+
+    if (error) {
+      console.warn('[SponsoredSlots] Failed to log slot decisions:', error.message);
+    }
+  } catch (err) {
+    console.warn('[SponsoredSlots] Exception logging slot decisions:', err);
+  }
+}
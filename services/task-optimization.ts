@@ -4,15 +4,30 @@
  * Intelligently reorders tasks for maximum efficiency while respecting constraints:
  * - Mandatory tasks (work, school) stay locked at their scheduled times
  * - "Nice to have" tasks get reordered for optimal geographic routing
- * - Considers travel time between locations
- * - Factors in current user location
- * - Minimizes total travel distance
+ * - Flexible tasks at places with opening hours fit inside them
+ * - The day starts and ends at home or work (or the user's current location)
+ * - Travel times are in the user's preferred mode and account for rush hour
+ *
+ * The ordering itself is a traveling salesman problem with time windows,
+ * solved in services/route-optimizer.ts; savings are reported against the
+ * user's current order.
  *
  * Goal: "This coffee shop is 2 min from your route home!"
  */
 
 import { supabase } from '@/lib/supabase';
+import { fetchCalendarEventsInRange } from '@/services/recurring-events';
+import { isTravelMode } from '@/services/travel-time';
+import {
+  evaluateRoute,
+  optimizeRoute,
+  type RouteProblem,
+  type RouteStop,
+} from '@/services/route-optimizer';
+import { getBusinessHours, getTodayHours, type BusinessHours } from '@/utils/business-hours';
 import { parseLocation } from '@/utils/location-parser';
+import { calculateDistance, type Coordinate, type TravelMode } from '@/utils/route-calculations';
+import { addZonedDays, resolveTimezone, setZonedTime, zonedTimeToUtc } from '@/utils/timezone';
 
 export interface CalendarTask {
   id: string;
@@ -22,7 +37,7 @@ export interface CalendarTask {
   location: {
     latitude: number;
     longitude: number;
-  };
+  } | null; // null for events without a place
   address: string;
   start_time: string;
   end_time: string;
@@ -30,6 +45,8 @@ export interface CalendarTask {
   is_mandatory?: boolean; // Work, school, appointments
   is_flexible?: boolean; // Can be moved
   priority?: number; // 1 (low) to 5 (high)
+  business_hours?: BusinessHours; // Opening hours of the place, if known
+  timezone?: string | null; // The place's zone; null = the user's
 }
 
 export interface OptimizedSchedule {
@@ -37,8 +54,11 @@ export interface OptimizedSchedule {
   optimized_tasks: CalendarTask[];
   time_saved_minutes: number;
   distance_saved_miles: number;
-  route_efficiency_score: number; // 0-100
+  route_efficiency_score: number; // 0-100; 100 = the current order is already the best route
   suggestions: OptimizationSuggestion[];
+  current_travel_minutes: number;
+  optimized_travel_minutes: number;
+  method: 'exact' | 'local_search' | 'none';
 }
 
 export interface OptimizationSuggestion {
@@ -51,6 +71,34 @@ export interface OptimizationSuggestion {
   distance_saved?: number;
 }
 
+export interface OptimizeDayOptions {
+  /** Where the day starts; defaults to the current location, then home */
+  start?: 'home' | 'work' | 'current';
+  /** Where the day ends; defaults to home when the user has one */
+  end?: 'home' | 'work' | 'none';
+  /** Defaults to the user's zone */
+  timeZone?: string;
+}
+
+const DAY_START_HOUR = 8; // Default start 8am
+const DAY_END_HOUR = 22; // Default end 10pm
+
+/**
+ * Calendar categories whose places keep typical opening hours
+ * (keys of the business-hours estimates)
+ */
+const CATEGORY_BUSINESS_TYPE: Record<string, string> = {
+  dining: 'restaurant',
+  fitness: 'gym',
+};
+
+interface UserPlaces {
+  home: Coordinate | null;
+  work: Coordinate | null;
+  timezone: string | null;
+  travelMode: TravelMode;
+}
+
 /**
  * Main optimization function
  * Takes a day's tasks and returns optimized schedule
@@ -58,106 +106,164 @@ export interface OptimizationSuggestion {
 export async function optimizeTasksForDay(
   userId: string,
   date: string, // YYYY-MM-DD
-  userLocation?: { latitude: number; longitude: number }
+  userLocation?: { latitude: number; longitude: number },
+  options: OptimizeDayOptions = {}
 ): Promise<OptimizedSchedule> {
+  const places = await fetchUserPlaces(userId);
+  const timeZone = resolveTimezone(options.timeZone, places.timezone);
+  const [year, month, day] = date.split('-').map(Number);
+  const dayStart = zonedTimeToUtc({ year, month, day, hour: DAY_START_HOUR }, timeZone);
+
   // Fetch all tasks for the day
-  const tasks = await fetchTasksForDay(userId, date);
-
-  if (tasks.length === 0) {
-    return {
-      original_tasks: [],
-      optimized_tasks: [],
-      time_saved_minutes: 0,
-      distance_saved_miles: 0,
-      route_efficiency_score: 100,
-      suggestions: [],
-    };
-  }
+  const tasks = await fetchTasksForDay(userId, date, timeZone);
 
-  // Separate mandatory vs flexible tasks
-  const mandatory = tasks.filter((t) => isMandatoryTask(t));
-  const flexible = tasks.filter((t) => !isMandatoryTask(t));
+  const unchanged = (method: OptimizedSchedule['method']): OptimizedSchedule => ({
+    original_tasks: tasks,
+    optimized_tasks: tasks,
+    time_saved_minutes: 0,
+    distance_saved_miles: 0,
+    route_efficiency_score: 100,
+    suggestions: [],
+    current_travel_minutes: 0,
+    optimized_travel_minutes: 0,
+    method,
+  });
 
   // If no flexible tasks, nothing to optimize
-  if (flexible.length === 0) {
-    return {
-      original_tasks: tasks,
-      optimized_tasks: tasks,
-      time_saved_minutes: 0,
-      distance_saved_miles: 0,
-      route_efficiency_score: 100,
-      suggestions: [],
-    };
+  if (tasks.length === 0 || tasks.every((t) => isMandatoryTask(t))) {
+    return unchanged('none');
   }
 
-  // Calculate original route metrics
-  const originalMetrics = calculateRouteMetrics(tasks, userLocation);
+  const startLocation = pickEndpoint(options.start ?? (userLocation ? 'current' : 'home'), places, userLocation)
+    ?? userLocation ?? places.home ?? tasks.find((t) => t.location)?.location;
+  if (!startLocation) return unchanged('none');
 
-  // Optimize flexible tasks around mandatory anchors
-  const optimizedTasks = optimizeFlexibleTasks(
-    mandatory,
-    flexible,
-    userLocation
-  );
+  const endChoice = options.end ?? (places.home ? 'home' : 'none');
+  const endLocation = endChoice === 'none' ? null : pickEndpoint(endChoice, places, userLocation);
 
-  // Calculate optimized route metrics
-  const optimizedMetrics = calculateRouteMetrics(
-    optimizedTasks,
-    userLocation
-  );
+  const { problem, closedTasks } = buildRouteProblem(tasks, dayStart, timeZone, startLocation, endLocation);
+  const routeOptions = { timeZone, mode: places.travelMode };
+  const current = evaluateRoute(problem, problem.stops.map((s) => s.id), routeOptions);
+  const solution = optimizeRoute(problem, routeOptions);
+
+  // Mandatory tasks keep their times; flexible ones take the solver's
+  const scheduleById = new Map(solution.schedule.map((s) => [s.id, s]));
+  const optimizedTasks = tasks
+    .map((task) => {
+      const scheduled = scheduleById.get(task.id);
+      if (!scheduled || isMandatoryTask(task)) return task;
+      return { ...task, start_time: scheduled.start.toISOString(), end_time: scheduled.end.toISOString() };
+    })
+    .sort((a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime());
 
   // Generate suggestions for user
   const suggestions = generateSuggestions(tasks, optimizedTasks);
+  for (const scheduled of solution.schedule) {
+    const task = tasks.find((t) => t.id === scheduled.id);
+    if (task && !isMandatoryTask(task) && scheduled.lateMinutes > 0) {
+      suggestions.push({
+        type: 'skip',
+        task_id: task.id,
+        new_time: scheduled.start.toISOString(),
+        reason: task.business_hours ? `Doesn't fit before ${task.title} closes` : "Doesn't fit in your day",
+      });
+    }
+  }
+  for (const task of closedTasks) {
+    suggestions.push({ type: 'skip', task_id: task.id, new_time: task.start_time, reason: `${task.title} is closed that day` });
+  }
 
   return {
     original_tasks: tasks,
     optimized_tasks: optimizedTasks,
-    time_saved_minutes:
-      originalMetrics.total_time_minutes - optimizedMetrics.total_time_minutes,
-    distance_saved_miles:
-      originalMetrics.total_distance_miles - optimizedMetrics.total_distance_miles,
-    route_efficiency_score: optimizedMetrics.efficiency_score,
+    time_saved_minutes: current.travelMinutes - solution.travelMinutes,
+    distance_saved_miles: current.distanceMiles - solution.distanceMiles,
+    route_efficiency_score: current.travelMinutes > 0
+      ? Math.round((100 * solution.travelMinutes) / current.travelMinutes)
+      : 100,
     suggestions,
+    current_travel_minutes: current.travelMinutes,
+    optimized_travel_minutes: solution.travelMinutes,
+    method: solution.method,
   };
 }
 
+/**
+ * Fetch the user's home, work, timezone and travel mode
+ */
+async function fetchUserPlaces(userId: string): Promise<UserPlaces> {
+  const { data, error } = await supabase
+    .from('users')
+    .select('home_location, work_location, timezone, preferred_travel_mode')
+    .eq('id', userId)
+    .single();
+
+  if (error || !data) {
+    console.error('Error fetching user locations:', error);
+    return { home: null, work: null, timezone: null, travelMode: 'drive' };
+  }
+
+  return {
+    home: parseLocation(data.home_location),
+    work: parseLocation(data.work_location),
+    timezone: data.timezone,
+    travelMode: isTravelMode(data.preferred_travel_mode) ? data.preferred_travel_mode : 'drive',
+  };
+}
+
+function pickEndpoint(
+  choice: 'home' | 'work' | 'current',
+  places: UserPlaces,
+  userLocation?: Coordinate
+): Coordinate | null {
+  if (choice === 'current') return userLocation ?? null;
+  return places[choice];
+}
+
 /**
  * Fetch tasks for a specific day from database
+ * Occurrences of recurring events are locked: moving one means editing the
+ * series, which a reorder shouldn't do.
  */
 async function fetchTasksForDay(
   userId: string,
-  date: string
+  date: string,
+  timeZone: string
 ): Promise<CalendarTask[]> {
-  const startOfDay = `${date}T00:00:00`;
-  const endOfDay = `${date}T23:59:59`;
+  const [year, month, day] = date.split('-').map(Number);
+  const startOfDay = zonedTimeToUtc({ year, month, day }, timeZone);
+  const endOfDay = new Date(zonedTimeToUtc({ year, month, day: day + 1 }, timeZone).getTime() - 1);
 
-  const { data, error } = await supabase
-    .from('calendar_events')
-    .select('*')
-    .eq('user_id', userId)
-    .gte('start_time', startOfDay)
-    .lte('start_time', endOfDay)
-    .eq('status', 'scheduled')
-    .order('start_time', { ascending: true });
+  const { events, error } = await fetchCalendarEventsInRange(userId, startOfDay, endOfDay, timeZone);
 
   if (error) {
     console.error('Error fetching tasks:', error);
     return [];
   }
 
-  return (data || []).map((event: any) => ({
-    id: event.id,
-    title: event.title,
-    description: event.description,
-    category: event.category,
-    location: parseLocation(event.location) ?? { latitude: 32.7767, longitude: -96.797 },
-    address: event.address,
-    start_time: event.start_time,
-    end_time: event.end_time,
-    status: event.status,
-    is_mandatory: isMandatoryCategory(event.category),
-    is_flexible: !isMandatoryCategory(event.category),
-  }));
+  return events
+    .filter((event) => event.status === 'scheduled' && !event.all_day)
+    .sort((a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime())
+    .map((event) => {
+      const locked = isMandatoryCategory(event.category) || !!event.recurrence_series_id || !!event.recurrence_parent_id;
+      const businessType = CATEGORY_BUSINESS_TYPE[event.category];
+
+      return {
+        id: event.id,
+        title: event.title,
+        description: event.description,
+        category: event.category,
+        location: parseLocation(event.location),
+        address: event.address,
+        start_time: event.start_time,
+        end_time: event.end_time,
+        status: event.status,
+        is_mandatory: locked,
+        is_flexible: !locked,
+        business_hours: businessType ? getBusinessHours(undefined, businessType).hours : undefined,
+        timezone: event.timezone,
+      };
+    });
 }
 
 /**
@@ -174,257 +280,93 @@ function isMandatoryTask(task: CalendarTask): boolean {
 /**
  * Check if category is typically mandatory
  */
-function isMandatoryCategory(category: string): boolean {
+export function isMandatoryCategory(category: string): boolean {
   const mandatoryCategories = ['work', 'school', 'medical', 'appointment'];
   return mandatoryCategories.includes(category.toLowerCase());
 }
 
 /**
- * Optimize flexible tasks around mandatory anchors
- * Uses greedy nearest-neighbor algorithm with time windows
+ * Turn the day's tasks into stops for the route optimizer
+ * - Mandatory tasks start exactly at their time
+ * - Flexible tasks fit between 8am and 10pm and inside opening hours
+ * - The day starts early enough to reach a mandatory task before 8am and
+ *   runs late enough for one after 10pm
+ * Flexible tasks at places closed all day are left out.
  */
-function optimizeFlexibleTasks(
-  mandatory: CalendarTask[],
-  flexible: CalendarTask[],
-  userLocation?: { latitude: number; longitude: number }
-): CalendarTask[] {
-  const result: CalendarTask[] = [...mandatory];
-  const unscheduled = [...flexible];
-
-  // Create time windows between mandatory tasks
-  const windows = createTimeWindows(mandatory);
-
-  // For each time window, fit in flexible tasks optimally
-  for (const window of windows) {
-    let currentLocation = window.start_location || userLocation;
-
-    while (unscheduled.length > 0) {
-      // Find closest task that fits in this window
-      const best = findBestTaskForWindow(
-        unscheduled,
-        window,
-        currentLocation
-      );
-
-      if (!best) break; // No more tasks fit in this window
-
-      // Schedule task at optimal time
-      const optimizedTask = scheduleTaskInWindow(best.task, window, currentLocation);
-      result.push(optimizedTask);
-
-      // Remove from unscheduled
-      const index = unscheduled.indexOf(best.task);
-      unscheduled.splice(index, 1);
-
-      // Update current location
-      currentLocation = best.task.location;
-
-      // Reduce window available time
-      const taskDuration = getTaskDuration(best.task);
-      window.end_time = new Date(
-        new Date(optimizedTask.start_time).getTime() + taskDuration * 60000
-      ).toISOString();
-    }
-  }
-
-  // If tasks remain unscheduled, append at end of day
-  for (const task of unscheduled) {
-    result.push(task);
-  }
-
-  // Sort by start time
-  result.sort(
-    (a, b) =>
-      new Date(a.start_time).getTime() - new Date(b.start_time).getTime()
+function buildRouteProblem(
+  tasks: CalendarTask[],
+  dayStart: Date,
+  timeZone: string,
+  startLocation: Coordinate,
+  endLocation: Coordinate | null
+): { problem: RouteProblem; closedTasks: CalendarTask[] } {
+  const firstStart = Math.min(...tasks.map((t) => new Date(t.start_time).getTime()));
+  const lastEnd = Math.max(...tasks.map((t) => new Date(t.end_time).getTime()));
+  const dayEnd = new Date(
+    Math.max(setZonedTime(dayStart, DAY_END_HOUR, 0, timeZone).getTime(), lastEnd)
   );
+  const startTime = new Date(Math.min(dayStart.getTime(), firstStart - 60 * 60000));
 
-  return result;
-}
+  const stops: RouteStop[] = [];
+  const closedTasks: CalendarTask[] = [];
 
-/**
- * Create time windows between mandatory tasks
- */
-interface TimeWindow {
-  start_time: string;
-  end_time: string;
-  start_location?: { latitude: number; longitude: number };
-  end_location?: { latitude: number; longitude: number };
-}
-
-function createTimeWindows(mandatory: CalendarTask[]): TimeWindow[] {
-  const windows: TimeWindow[] = [];
-
-  if (mandatory.length === 0) {
-    // Entire day is free
-    const today = new Date();
-    today.setHours(8, 0, 0, 0); // Default start 8am
-    const endDay = new Date();
-    endDay.setHours(22, 0, 0, 0); // Default end 10pm
-
-    windows.push({
-      start_time: today.toISOString(),
-      end_time: endDay.toISOString(),
-    });
-
-    return windows;
-  }
-
-  // Sort mandatory tasks by time
-  const sorted = [...mandatory].sort(
-    (a, b) =>
-      new Date(a.start_time).getTime() - new Date(b.start_time).getTime()
-  );
+  for (const task of tasks) {
+    const durationMinutes = getTaskDuration(task);
 
-  // Create windows between each mandatory task
-  for (let i = 0; i < sorted.length - 1; i++) {
-    const current = sorted[i];
-    const next = sorted[i + 1];
-
-    const windowStart = current.end_time;
-    const windowEnd = next.start_time;
-
-    // Only create window if there's at least 30 min gap
-    const gapMinutes =
-      (new Date(windowEnd).getTime() - new Date(windowStart).getTime()) /
-      60000;
-
-    if (gapMinutes >= 30) {
-      windows.push({
-        start_time: windowStart,
-        end_time: windowEnd,
-        start_location: current.location,
-        end_location: next.location,
-      });
+    if (isMandatoryTask(task)) {
+      stops.push({ id: task.id, location: task.location, durationMinutes, fixedStart: new Date(task.start_time) });
+      continue;
     }
-  }
-
-  // Window before first mandatory task
-  const firstTask = sorted[0];
-  const morningStart = new Date(firstTask.start_time);
-  morningStart.setHours(8, 0, 0, 0);
 
-  if (new Date(firstTask.start_time).getTime() > morningStart.getTime()) {
-    windows.unshift({
-      start_time: morningStart.toISOString(),
-      end_time: firstTask.start_time,
-      end_location: firstTask.location,
-    });
-  }
-
-  // Window after last mandatory task
-  const lastTask = sorted[sorted.length - 1];
-  const eveningEnd = new Date(lastTask.end_time);
-  eveningEnd.setHours(22, 0, 0, 0);
+    const window = getOpenWindow(task, dayStart, timeZone);
+    if (!window) {
+      closedTasks.push(task);
+      continue;
+    }
 
-  if (new Date(lastTask.end_time).getTime() < eveningEnd.getTime()) {
-    windows.push({
-      start_time: lastTask.end_time,
-      end_time: eveningEnd.toISOString(),
-      start_location: lastTask.location,
+    stops.push({
+      id: task.id,
+      location: task.location,
+      durationMinutes,
+      earliestStart: new Date(Math.max(dayStart.getTime(), window.opens?.getTime() ?? 0)),
+      latestEnd: new Date(Math.min(dayEnd.getTime(), window.closes?.getTime() ?? Infinity)),
     });
   }
 
-  return windows;
-}
-
-/**
- * Find best task to fit in time window using nearest-neighbor heuristic
- */
-function findBestTaskForWindow(
-  tasks: CalendarTask[],
-  window: TimeWindow,
-  currentLocation?: { latitude: number; longitude: number }
-): { task: CalendarTask; distance: number } | null {
-  let bestTask: CalendarTask | null = null;
-  let shortestDistance = Infinity;
-
-  for (const task of tasks) {
-    const duration = getTaskDuration(task);
-
-    // Check if task fits in window
-    const windowDuration =
-      (new Date(window.end_time).getTime() -
-        new Date(window.start_time).getTime()) /
-      60000;
-
-    if (duration > windowDuration - 15) continue; // Need 15 min buffer for travel
-
-    // Calculate distance from current location
-    const distance = currentLocation
-      ? calculateDistance(currentLocation, task.location)
-      : 0;
-
-    if (distance < shortestDistance) {
-      shortestDistance = distance;
-      bestTask = task;
-    }
-  }
-
-  return bestTask ? { task: bestTask, distance: shortestDistance } : null;
+  return {
+    problem: {
+      start: { location: startLocation, time: startTime },
+      end: endLocation ? { location: endLocation, latestArrival: dayEnd } : undefined,
+      stops,
+    },
+    closedTasks,
+  };
 }
 
 /**
- * Schedule task at optimal time within window
+ * Opening and closing time of the task's place on the day, in the place's
+ * zone. Empty without known hours; null when it's closed all day.
  */
-function scheduleTaskInWindow(
+function getOpenWindow(
   task: CalendarTask,
-  window: TimeWindow,
-  fromLocation?: { latitude: number; longitude: number }
-): CalendarTask {
-  let travelTime = 0;
-
-  if (fromLocation) {
-    const distance = calculateDistance(fromLocation, task.location);
-    travelTime = estimateTravelTime(distance);
-  }
+  day: Date,
+  timeZone: string
+): { opens?: Date; closes?: Date } | null {
+  if (!task.business_hours) return {};
 
-  // Schedule task after travel time from window start
-  const scheduledStart = new Date(
-    new Date(window.start_time).getTime() + travelTime * 60000
-  );
+  const zone = resolveTimezone(task.timezone, timeZone);
+  const hours = getTodayHours(task.business_hours, day, zone);
+  if (!hours || hours.isClosed || !hours.open || !hours.close) return null;
 
-  const duration = getTaskDuration(task);
-  const scheduledEnd = new Date(scheduledStart.getTime() + duration * 60000);
+  const [openHour, openMinute] = hours.open.split(':').map(Number);
+  const [closeHour, closeMinute] = hours.close.split(':').map(Number);
+  const opens = setZonedTime(day, openHour, openMinute, zone);
+  let closes = setZonedTime(day, closeHour, closeMinute, zone);
 
-  return {
-    ...task,
-    start_time: scheduledStart.toISOString(),
-    end_time: scheduledEnd.toISOString(),
-  };
-}
+  // Closing after midnight (e.g., bar closes at 2am)
+  if (closes <= opens) closes = addZonedDays(closes, 1, zone);
 
-/**
- * Calculate distance between two points (Haversine formula)
- * Returns distance in miles
- */
-function calculateDistance(
-  loc1: { latitude: number; longitude: number },
-  loc2: { latitude: number; longitude: number }
-): number {
-  const R = 3959; // Earth's radius in miles
-  const dLat = ((loc2.latitude - loc1.latitude) * Math.PI) / 180;
-  const dLon = ((loc2.longitude - loc1.longitude) * Math.PI) / 180;
-
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos((loc1.latitude * Math.PI) / 180) *
-      Math.cos((loc2.latitude * Math.PI) / 180) *
-      Math.sin(dLon / 2) *
-      Math.sin(dLon / 2);
-
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  const distance = R * c;
-
-  return distance;
-}
-
-/**
- * Estimate travel time in minutes based on distance
- * Assumes average city driving: 25 mph
- */
-function estimateTravelTime(distanceMiles: number): number {
-  const avgSpeedMph = 25;
-  return Math.ceil((distanceMiles / avgSpeedMph) * 60);
+  return { opens, closes };
 }
 
 /**
@@ -436,64 +378,6 @@ function getTaskDuration(task: CalendarTask): number {
   return (end - start) / 60000;
 }
 
-/**
- * Calculate route metrics for a set of tasks
- */
-interface RouteMetrics {
-  total_distance_miles: number;
-  total_time_minutes: number;
-  efficiency_score: number; // 0-100
-  travel_segments: number;
-}
-
-function calculateRouteMetrics(
-  tasks: CalendarTask[],
-  startLocation?: { latitude: number; longitude: number }
-): RouteMetrics {
-  if (tasks.length === 0) {
-    return {
-      total_distance_miles: 0,
-      total_time_minutes: 0,
-      efficiency_score: 100,
-      travel_segments: 0,
-    };
-  }
-
-  let totalDistance = 0;
-  let totalTime = 0;
-  let currentLocation = startLocation || tasks[0].location;
-
-  for (const task of tasks) {
-    // Travel to task location
-    const distance = calculateDistance(currentLocation, task.location);
-    const travelTime = estimateTravelTime(distance);
-
-    totalDistance += distance;
-    totalTime += travelTime;
-
-    // Time spent at task
-    const taskDuration = getTaskDuration(task);
-    totalTime += taskDuration;
-
-    currentLocation = task.location;
-  }
-
-  // Efficiency score: Lower distance + fewer backtrack = higher score
-  const avgDistancePerTask = tasks.length > 1 ? totalDistance / (tasks.length - 1) : 0;
-  const idealDistance = avgDistancePerTask * (tasks.length - 1);
-  const efficiencyScore = Math.max(
-    0,
-    Math.min(100, 100 - (totalDistance - idealDistance) * 10)
-  );
-
-  return {
-    total_distance_miles: totalDistance,
-    total_time_minutes: totalTime,
-    efficiency_score: efficiencyScore,
-    travel_segments: tasks.length - 1,
-  };
-}
-
 /**
  * Generate user-friendly suggestions
  */
@@ -519,7 +403,7 @@ function generateSuggestions(
         task_id: optTask.id,
         old_time: origTask.start_time,
         new_time: optTask.start_time,
-        reason: generateReorderReason(origTask, optTask, original),
+        reason: generateReorderReason(origTask, optTask, optimized),
         time_saved: Math.abs(origTime - optTime) / 60000,
       });
     }
@@ -541,6 +425,10 @@ function generateReorderReason(
 
   if (optIndex > 0) {
     const previousTask = allTasks[optIndex - 1];
+    if (!previousTask.location || !optimized.location) {
+      return 'More efficient route between your activities';
+    }
+
     const distance = calculateDistance(
       previousTask.location,
       optimized.location
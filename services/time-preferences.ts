@@ -0,0 +1,337 @@
+/**
+ * Learned Time-of-Day Preferences
+ *
+ * Per-user model of when someone actually does each category, learned from:
+ * - accepted recommendations (the time they scheduled it for)
+ * - completed calendar events
+ * - feedback timestamps (thumbs up counts for, thumbs down against)
+ *
+ * Stored on ai_profile.time_of_day_model. Once a user has enough history the
+ * timeCategory signal scores from this model instead of the fixed
+ * TIME_CATEGORY_WEIGHTS table; categories without enough data keep the table.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { asAIProfile } from './scoring-pipeline';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type TimeSlot = 'morning' | 'afternoon' | 'evening' | 'night';
+
+export const TIME_SLOTS: TimeSlot[] = ['morning', 'afternoon', 'evening', 'night'];
+
+/** One piece of evidence that the user does `category` at `at` */
+export interface TimeObservation {
+  category: string;
+  at: Date;
+  /** Negative for evidence against (thumbs down) */
+  weight: number;
+}
+
+export interface TimeOfDayModel {
+  /** Decayed evidence per category per slot (never negative) */
+  counts: Record<string, Record<TimeSlot, number>>;
+  /** Raw number of observations the model was built from */
+  observations: number;
+  updated_at: string;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const TIME_PREFERENCE_CONFIG = {
+  /** Below this many observations the static table is used for everything */
+  minObservations: 10,
+  /** Per category, decayed evidence needed before it overrides the table */
+  minCategoryWeight: 3,
+  /** Points for a category done only in this slot (matches the table's max) */
+  maxBoost: 25,
+  /** Points for a category never done in this slot */
+  maxPenalty: 15,
+  /** Evidence halves in weight every this many days */
+  halfLifeDays: 90,
+  /** How far back to look for evidence */
+  lookbackDays: 365,
+  /** Rebuild the model when it is older than this */
+  refreshHours: 24,
+  weights: {
+    accepted: 1,
+    completed: 2,
+    thumbsUp: 1,
+    thumbsDown: -1,
+  },
+};
+
+/** calendar_events.category → feed category, for events not from a recommendation */
+const CALENDAR_CATEGORY_MAP: Record<string, string> = {
+  dining: 'Dining',
+  fitness: 'Fitness',
+  entertainment: 'Entertainment',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// TIME SLOTS
+// ============================================================================
+
+/**
+ * Get current time of day
+ */
+export function getCurrentTimeOfDay(now: Date = new Date()): TimeSlot {
+  const hour = now.getHours();
+
+  if (hour >= 5 && hour < 12) return 'morning';
+  if (hour >= 12 && hour < 17) return 'afternoon';
+  if (hour >= 17 && hour < 21) return 'evening';
+  return 'night';
+}
+
+function emptySlots(): Record<TimeSlot, number> {
+  return { morning: 0, afternoon: 0, evening: 0, night: 0 };
+}
+
+// ============================================================================
+// LEARNING
+// ============================================================================
+
+/** Build a model from observations, weighting recent evidence more */
+export function learnTimeOfDayModel(observations: TimeObservation[], now: Date = new Date()): TimeOfDayModel {
+  const counts: Record<string, Record<TimeSlot, number>> = {};
+
+  for (const observation of observations) {
+    if (!observation.category || isNaN(observation.at.getTime())) continue;
+
+    const ageDays = Math.max(0, now.getTime() - observation.at.getTime()) / DAY_MS;
+    const decay = Math.pow(0.5, ageDays / TIME_PREFERENCE_CONFIG.halfLifeDays);
+    const slots = counts[observation.category] ?? (counts[observation.category] = emptySlots());
+    slots[getCurrentTimeOfDay(observation.at)] += observation.weight * decay;
+  }
+
+  for (const slots of Object.values(counts)) {
+    for (const slot of TIME_SLOTS) {
+      slots[slot] = Math.round(Math.max(0, slots[slot]) * 100) / 100;
+    }
+  }
+
+  return { counts, observations: observations.length, updated_at: now.toISOString() };
+}
+
+/**
+ * Learned boost for a category at a time slot, on the same scale as
+ * TIME_CATEGORY_WEIGHTS, or null when there isn't enough data to trust it.
+ * A category done evenly across the day scores 0.
+ */
+export function getLearnedTimeBoost(
+  model: TimeOfDayModel | undefined,
+  category: string,
+  slot: string
+): number | null {
+  if (!model || model.observations < TIME_PREFERENCE_CONFIG.minObservations) return null;
+
+  const slots = model.counts?.[category];
+  if (!slots || !TIME_SLOTS.includes(slot as TimeSlot)) return null;
+
+  const total = TIME_SLOTS.reduce((sum, s) => sum + (slots[s] || 0), 0);
+  if (total < TIME_PREFERENCE_CONFIG.minCategoryWeight) return null;
+
+  const share = (slots[slot as TimeSlot] || 0) / total;
+  const uniform = 1 / TIME_SLOTS.length;
+
+  if (share >= uniform) {
+    return Math.round(((share - uniform) / (1 - uniform)) * TIME_PREFERENCE_CONFIG.maxBoost);
+  }
+  return -Math.round(((uniform - share) / uniform) * TIME_PREFERENCE_CONFIG.maxPenalty) || 0;
+}
+
+export function isTimeOfDayModelStale(model: TimeOfDayModel | undefined, now: Date = new Date()): boolean {
+  if (!model?.updated_at) return true;
+  const ageHours = (now.getTime() - new Date(model.updated_at).getTime()) / (60 * 60 * 1000);
+  return !(ageHours < TIME_PREFERENCE_CONFIG.refreshHours);
+}
+
+// ============================================================================
+// DEBUG
+// ============================================================================
+
+const HEAT_SHADES = [' ', '░', '▒', '▓', '█'];
+
+/**
+ * Render the model as a text heatmap, one row per category:
+ *
+ *   Category            morn  aftn  even  nite    n
+ *   Dining              ░░    ▒▒    ██    ░░    12.5
+ */
+export function formatTimeOfDayHeatmap(model: TimeOfDayModel | undefined): string {
+  if (!model || Object.keys(model.counts).length === 0) return '(no time-of-day data yet)';
+
+  const lines = [`${'Category'.padEnd(20)}morn  aftn  even  nite    n`];
+  const categories = Object.entries(model.counts)
+    .map(([category, slots]) => ({ category, slots, total: TIME_SLOTS.reduce((sum, s) => sum + slots[s], 0) }))
+    .sort((a, b) => b.total - a.total);
+
+  for (const { category, slots, total } of categories) {
+    const cells = TIME_SLOTS.map(slot => {
+      const share = total > 0 ? slots[slot] / total : 0;
+      const shade = HEAT_SHADES[Math.min(HEAT_SHADES.length - 1, Math.ceil(share * (HEAT_SHADES.length - 1)))];
+      return shade.repeat(2).padEnd(6);
+    }).join('');
+    lines.push(`${category.slice(0, 19).padEnd(20)}${cells}${total.toFixed(1).padStart(4)}`);
+  }
+
+  const learned = model.observations >= TIME_PREFERENCE_CONFIG.minObservations;
+  lines.push(`${model.observations} observations · ${learned ? 'learned' : 'using defaults'} · updated ${model.updated_at}`);
+  return lines.join('\n');
+}
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+/**
+ * Gather a user's time-of-day evidence. Pass a service-role client from
+ * scripts; the app uses the signed-in client.
+ */
+export async function loadTimeObservations(
+  userId: string,
+  client: SupabaseClient = supabase,
+  now: Date = new Date()
+): Promise<TimeObservation[]> {
+  const since = new Date(now.getTime() - TIME_PREFERENCE_CONFIG.lookbackDays * DAY_MS).toISOString();
+  const { weights } = TIME_PREFERENCE_CONFIG;
+
+  const [trackingResult, eventsResult, feedbackResult] = await Promise.all([
+    client
+      .from('recommendation_tracking')
+      .select('google_place_id, category')
+      .eq('user_id', userId)
+      .eq('status', 'accepted'),
+    client
+      .from('calendar_events')
+      .select('start_time, category, status, google_place_id')
+      .eq('user_id', userId)
+      .gte('start_time', since),
+    client
+      .from('feedback')
+      .select('rating, completed_at, activities(category)')
+      .eq('user_id', userId)
+      .gte('completed_at', since),
+  ]);
+
+  if (trackingResult.error) console.warn('[TimePreferences] Error loading accepted recommendations:', trackingResult.error);
+  if (eventsResult.error) console.warn('[TimePreferences] Error loading calendar events:', eventsResult.error);
+  if (feedbackResult.error) console.warn('[TimePreferences] Error loading feedback:', feedbackResult.error);
+
+  const acceptedCategories = new Map<string, string>();
+  for (const row of (trackingResult.data || []) as { google_place_id: string; category: string }[]) {
+    if (row.google_place_id && row.category) acceptedCategories.set(row.google_place_id, row.category);
+  }
+
+  const observations: TimeObservation[] = [];
+
+  for (const event of (eventsResult.data || []) as {
+    start_time: string;
+    category: string | null;
+    status: string | null;
+    google_place_id: string | null;
+  }[]) {
+    if (event.status === 'cancelled') continue;
+
+    const completed = event.status === 'completed';
+    const acceptedCategory = event.google_place_id ? acceptedCategories.get(event.google_place_id) : undefined;
+    const category = acceptedCategory ?? CALENDAR_CATEGORY_MAP[event.category || ''];
+    if (!category || (!acceptedCategory && !completed)) continue;
+
+    observations.push({
+      category,
+      at: new Date(event.start_time),
+      weight: completed ? weights.completed : weights.accepted,
+    });
+  }
+
+  for (const row of (feedbackResult.data || []) as {
+    rating: string;
+    completed_at: string;
+    activities: { category: string } | { category: string }[] | null;
+  }[]) {
+    const activity = Array.isArray(row.activities) ? row.activities[0] : row.activities;
+    if (!activity?.category) continue;
+
+    observations.push({
+      category: activity.category,
+      at: new Date(row.completed_at),
+      weight: row.rating === 'thumbs_up' ? weights.thumbsUp : weights.thumbsDown,
+    });
+  }
+
+  return observations;
+}
+
+/**
+ * Rebuild the user's model from their history and save it to ai_profile.
+ * Only the time_of_day_model key is written (see merge_ai_profile in
+ * migration 054), so the rest of the profile is never overwritten.
+ * Returns the new model, or null if it couldn't be saved.
+ */
+export async function refreshTimeOfDayModel(
+  userId: string,
+  client: SupabaseClient = supabase
+): Promise<TimeOfDayModel | null> {
+  try {
+    const model = learnTimeOfDayModel(await loadTimeObservations(userId, client));
+
+    const { error: updateError } = await client.rpc('merge_ai_profile', {
+      p_user_id: userId,
+      p_patch: { time_of_day_model: model },
+    });
+
+    if (updateError) {
+      console.error('[TimePreferences] Error saving model:', updateError);
+      return null;
+    }
+
+    return model;
+  } catch (error) {
+    console.error('[TimePreferences] Error refreshing model:', error);
+    return null;
+  }
+}
+
+/**
+ * The user's model, rebuilt first if stale. `current` is the caller's copy
+ * (usually from the signed-in user's profile); when that is stale the saved
+ * model is checked before rebuilding, since the copy may just be behind a
+ * rebuild that already happened. Falls back to `current` if the rebuild fails.
+ */
+export async function ensureTimeOfDayModel(
+  userId: string,
+  current: TimeOfDayModel | undefined,
+  client: SupabaseClient = supabase,
+  now: Date = new Date()
+): Promise<TimeOfDayModel | undefined> {
+  if (!isTimeOfDayModelStale(current, now)) return current;
+
+  try {
+    const { data: user, error } = await client
+      .from('users')
+      .select('ai_profile')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[TimePreferences] Error fetching saved model:', error);
+    } else {
+      const saved = asAIProfile(user?.ai_profile ?? null).time_of_day_model;
+      if (!isTimeOfDayModelStale(saved, now)) return saved;
+    }
+
+    return (await refreshTimeOfDayModel(userId, client)) ?? current;
+  } catch (error) {
+    console.error('[TimePreferences] Error checking model:', error);
+    return current;
+  }
+}
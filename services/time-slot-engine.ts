@@ -2,6 +2,10 @@
  * Smart Time Slot Engine
  * Analyzes calendar events for a target date, finds free time gaps,
  * and matches activities to optimal slots with contextual labels.
+ *
+ * Day boundaries, time-of-day scoring, opening hours and labels are all
+ * computed in an IANA timezone — the user's for their own day, the venue's
+ * for its hours. Without one the device's zone is used.
  */
 
 import {
@@ -16,6 +20,17 @@ import {
   MIN_SCHEDULABLE_GAP,
   DEFAULT_TRAVEL_BUFFER,
 } from '@/constants/activity-durations';
+import {
+  addZonedDays,
+  getZonedMinutesOfDay,
+  getZonedParts,
+  isSameZonedDay,
+  resolveTimezone,
+  setZonedTime,
+  startOfZonedDay,
+} from '@/utils/timezone';
+import { estimateTravelTime, type TravelMode } from '@/utils/route-calculations';
+import { expandOccurrences } from './recurrence';
 
 // ── Helpers ──────────────────────────────────────────────────────────
 
@@ -39,29 +54,33 @@ function haversineDistance(
   return R * c;
 }
 
-/** Estimate travel time in minutes based on distance (assumes avg 25 mph city driving) */
-export function estimateTravelMinutes(distanceMiles: number): number {
+/**
+ * Estimate travel time in minutes based on distance: the offline estimate
+ * for the mode plus 5 min for parking or getting in the door
+ */
+export function estimateTravelMinutes(distanceMiles: number, mode: TravelMode = 'drive'): number {
   if (distanceMiles <= 0) return 0;
-  // 25 mph average → 1 mile per 2.4 minutes, plus 5 min buffer for parking
-  return Math.ceil(distanceMiles * 2.4 + 5);
+  return estimateTravelTime(distanceMiles, mode) + 5;
 }
 
 /** Calculate travel buffer between two locations */
 export function calculateTravelBuffer(
   from?: { latitude: number; longitude: number },
-  to?: { latitude: number; longitude: number }
+  to?: { latitude: number; longitude: number },
+  mode: TravelMode = 'drive'
 ): number {
   if (!from || !to) return DEFAULT_TRAVEL_BUFFER;
   const distance = haversineDistance(from.latitude, from.longitude, to.latitude, to.longitude);
-  return Math.max(DEFAULT_TRAVEL_BUFFER, estimateTravelMinutes(distance));
+  return Math.max(DEFAULT_TRAVEL_BUFFER, estimateTravelMinutes(distance, mode));
 }
 
 /** Format time as "2:30 PM" */
-function formatTime(date: Date): string {
+function formatTime(date: Date, timeZone?: string): string {
   return date.toLocaleTimeString('en-US', {
     hour: 'numeric',
     minute: '2-digit',
     hour12: true,
+    timeZone: resolveTimezone(timeZone),
   });
 }
 
@@ -74,17 +93,13 @@ function formatDuration(minutes: number): string {
 }
 
 /** Get day-of-week abbreviation for display */
-function getDayAbbrev(date: Date): string {
-  return date.toLocaleDateString('en-US', { weekday: 'short' });
+function getDayAbbrev(date: Date, timeZone?: string): string {
+  return date.toLocaleDateString('en-US', { weekday: 'short', timeZone: resolveTimezone(timeZone) });
 }
 
 /** Check if two dates are the same calendar day */
-function isSameDay(a: Date, b: Date): boolean {
-  return (
-    a.getFullYear() === b.getFullYear() &&
-    a.getMonth() === b.getMonth() &&
-    a.getDate() === b.getDate()
-  );
+function isSameDay(a: Date, b: Date, timeZone?: string): boolean {
+  return isSameZonedDay(a, b, resolveTimezone(timeZone));
 }
 
 // ── Core Engine ──────────────────────────────────────────────────────
@@ -93,25 +108,50 @@ function isSameDay(a: Date, b: Date): boolean {
 const DAY_START_HOUR = 7;
 const DAY_END_HOUR = 23;
 
+/** Replace recurring series with their occurrences on the target day */
+function expandRecurringEvents(events: CalendarEvent[], targetDate: Date, timeZone: string): CalendarEvent[] {
+  if (!events.some((e) => e.recurrence)) return events;
+
+  const dayStart = startOfZonedDay(targetDate, timeZone);
+  const dayEnd = new Date(addZonedDays(dayStart, 1, timeZone).getTime() - 1);
+
+  return events.flatMap((event) => {
+    if (!event.recurrence) return [event];
+    return expandOccurrences(
+      {
+        start: event.startTime,
+        end: event.endTime,
+        rule: event.recurrence.rule,
+        timeZone: event.recurrence.timeZone || timeZone,
+        exdates: event.recurrence.exdates,
+      },
+      dayStart,
+      dayEnd
+    ).map(({ start, end }) => ({ ...event, startTime: start, endTime: end, recurrence: undefined }));
+  });
+}
+
 /**
  * Analyze a day's calendar to find free time slots.
  * Merges overlapping events, computes travel buffers, and identifies gaps.
+ *
+ * @param timeZone - The user's timezone; the day runs 7 AM–11 PM there
  */
 export function analyzeCalendarSlots(
   events: CalendarEvent[],
   targetDate: Date,
-  userLocation?: { latitude: number; longitude: number }
+  userLocation?: { latitude: number; longitude: number },
+  timeZone?: string
 ): DaySlotAnalysis {
-  // Set day boundaries
-  const dayStart = new Date(targetDate);
-  dayStart.setHours(DAY_START_HOUR, 0, 0, 0);
+  const zone = resolveTimezone(timeZone);
 
-  const dayEnd = new Date(targetDate);
-  dayEnd.setHours(DAY_END_HOUR, 0, 0, 0);
+  // Set day boundaries (on a DST day the span is an hour shorter or longer)
+  const dayStart = setZonedTime(targetDate, DAY_START_HOUR, 0, zone);
+  const dayEnd = setZonedTime(targetDate, DAY_END_HOUR, 0, zone);
 
   // Filter events to target date and sort by start time
-  const dayEvents = events
-    .filter((e) => isSameDay(e.startTime, targetDate))
+  const dayEvents = expandRecurringEvents(events, targetDate, zone)
+    .filter((e) => isSameDay(e.startTime, targetDate, zone))
     .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
 
   // Merge overlapping/adjacent events into busy blocks
@@ -204,7 +244,7 @@ export function analyzeCalendarSlots(
   const totalFreeMinutes = freeSlots.reduce((sum, s) => sum + s.durationMinutes, 0);
 
   // Generate human-readable summary
-  const daySummary = generateDaySummary(targetDate, dayEvents, freeSlots, totalFreeMinutes);
+  const daySummary = generateDaySummary(targetDate, dayEvents, freeSlots, totalFreeMinutes, zone);
 
   return {
     date: targetDate,
@@ -219,6 +259,10 @@ export function analyzeCalendarSlots(
 /**
  * Match an activity to the best available time slot.
  * Returns the best SlotMatch or null if no suitable slot found.
+ *
+ * @param venueTimeZone - Where the activity is; opening hours and
+ *   time-of-day scoring are read there
+ * @param travelMode - How the user gets there (default: drive)
  */
 export function matchActivityToSlots(
   category: string,
@@ -227,8 +271,11 @@ export function matchActivityToSlots(
   openingHoursPeriods?: Array<{
     open: { day: number; time: string };
     close?: { day: number; time: string };
-  }>
+  }>,
+  venueTimeZone?: string,
+  travelMode: TravelMode = 'drive'
 ): SlotMatch | null {
+  const zone = resolveTimezone(venueTimeZone);
   const duration = getEstimatedDuration(category);
   const matches: SlotMatch[] = [];
 
@@ -245,7 +292,8 @@ export function matchActivityToSlots(
           slot.previousEvent.location.longitude,
           activityLocation.latitude,
           activityLocation.longitude
-        )
+        ),
+        travelMode
       );
     }
 
@@ -258,7 +306,8 @@ export function matchActivityToSlots(
           activityLocation.longitude,
           slot.nextEvent.location.latitude,
           slot.nextEvent.location.longitude
-        )
+        ),
+        travelMode
       );
     }
 
@@ -279,7 +328,7 @@ export function matchActivityToSlots(
 
     // Check opening hours if available
     if (openingHoursPeriods) {
-      const isOpen = isOpenDuring(openingHoursPeriods, suggestedStart, suggestedEnd);
+      const isOpen = isOpenDuring(openingHoursPeriods, suggestedStart, suggestedEnd, zone);
       if (!isOpen) continue;
     }
 
@@ -290,7 +339,8 @@ export function matchActivityToSlots(
       slot.durationMinutes,
       travelFromPrev,
       travelToNext,
-      suggestedStart
+      suggestedStart,
+      zone
     );
 
     // Determine confidence
@@ -298,7 +348,7 @@ export function matchActivityToSlots(
       fitScore >= 75 ? 'high' : fitScore >= 50 ? 'medium' : 'low';
 
     // Generate context label
-    const contextLabel = generateSlotContextLabel(slot, suggestedStart, suggestedEnd);
+    const contextLabel = generateSlotContextLabel(slot, suggestedStart, suggestedEnd, zone);
 
     matches.push({
       slot,
@@ -321,14 +371,16 @@ export function matchActivityToSlots(
 
 /**
  * Generate a DateContext object for enriching a recommendation card.
+ * Times are labelled in `timeZone` (the user's).
  */
 export function generateDateContext(
   slotMatch: SlotMatch,
-  targetDate: Date
+  targetDate: Date,
+  timeZone?: string
 ): DateContext {
-  const dayAbbrev = getDayAbbrev(targetDate);
-  const startTime = formatTime(slotMatch.suggestedStart);
-  const endTime = formatTime(slotMatch.suggestedEnd);
+  const dayAbbrev = getDayAbbrev(targetDate, timeZone);
+  const startTime = formatTime(slotMatch.suggestedStart, timeZone);
+  const endTime = formatTime(slotMatch.suggestedEnd, timeZone);
 
   const suggestedTimeLabel = `${dayAbbrev} ${startTime} - ${endTime}`;
 
@@ -358,7 +410,8 @@ function calculateFitScore(
   slotDuration: number,
   travelFromPrev: number,
   travelToNext: number,
-  startTime: Date
+  startTime: Date,
+  timeZone?: string
 ): number {
   let score = 0;
 
@@ -395,7 +448,7 @@ function calculateFitScore(
   }
 
   // Time-of-day preference (20 points)
-  const hour = startTime.getHours();
+  const hour = getZonedParts(startTime, resolveTimezone(timeZone)).hour;
   // Prefer popular activity hours (10 AM - 8 PM)
   if (hour >= 10 && hour <= 20) {
     score += 20;
@@ -413,17 +466,19 @@ function calculateFitScore(
 function isOpenDuring(
   periods: Array<{ open: { day: number; time: string }; close?: { day: number; time: string } }>,
   start: Date,
-  end: Date
+  end: Date,
+  timeZone?: string
 ): boolean {
-  const dayOfWeek = start.getDay(); // 0=Sun, 6=Sat
+  const zone = resolveTimezone(timeZone);
+  const dayOfWeek = getZonedParts(start, zone).weekday; // 0=Sun, 6=Sat
   for (const period of periods) {
     if (period.open.day !== dayOfWeek) continue;
     if (!period.close) return true; // Open 24 hours
 
     const openTime = parseInt(period.open.time.slice(0, 2)) * 60 + parseInt(period.open.time.slice(2));
     const closeTime = parseInt(period.close.time.slice(0, 2)) * 60 + parseInt(period.close.time.slice(2));
-    const startMinutes = start.getHours() * 60 + start.getMinutes();
-    const endMinutes = end.getHours() * 60 + end.getMinutes();
+    const startMinutes = getZonedMinutesOfDay(start, zone);
+    const endMinutes = getZonedMinutesOfDay(end, zone);
 
     if (startMinutes >= openTime && endMinutes <= closeTime) {
       return true;
@@ -437,7 +492,8 @@ function isOpenDuring(
 function generateSlotContextLabel(
   slot: FreeTimeSlot,
   suggestedStart: Date,
-  suggestedEnd: Date
+  suggestedEnd: Date,
+  timeZone?: string
 ): string {
   const parts: string[] = [];
 
@@ -454,7 +510,7 @@ function generateSlotContextLabel(
 
   if (parts.length === 0) {
     // No surrounding events — just describe the time
-    const hour = suggestedStart.getHours();
+    const hour = getZonedParts(suggestedStart, resolveTimezone(timeZone)).hour;
     if (hour < 12) return 'Free morning slot';
     if (hour < 17) return 'Free afternoon slot';
     return 'Free evening slot';
@@ -467,12 +523,14 @@ function generateDaySummary(
   targetDate: Date,
   events: CalendarEvent[],
   freeSlots: FreeTimeSlot[],
-  totalFreeMinutes: number
+  totalFreeMinutes: number,
+  timeZone?: string
 ): string {
   const dayName = targetDate.toLocaleDateString('en-US', {
     weekday: 'long',
     month: 'short',
     day: 'numeric',
+    timeZone: resolveTimezone(timeZone),
   });
 
   if (events.length === 0) {
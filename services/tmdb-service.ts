@@ -0,0 +1,282 @@
+/**
+ * TMDb Service — Film Talent Radar
+ *
+ * Resolves actors/directors to TMDb person IDs and finds their upcoming
+ * theatrical releases, as CachedEvent entries (release date + poster) that
+ * radar polling turns into notifications like any artist radar.
+ *
+ * The HTTP client is swappable: tests (and demo builds) install a fixture
+ * client with setTmdbClient(createFixtureTmdbClient(...)).
+ *
+ * API: https://developer.themoviedb.org/reference (v3, api_key auth)
+ */
+
+import type { CachedEvent } from '@/types/radar';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** talentDepartment values on film_talent radars */
+export type TalentDepartment = 'Acting' | 'Directing' | 'Producing' | 'Writing';
+
+export interface TmdbPerson {
+  id: number;
+  name: string;
+  /** TMDb's department, e.g. 'Acting', 'Directing', 'Production' */
+  knownForDepartment?: string;
+  popularity: number;
+}
+
+/** One film in a person's movie credits */
+export interface TmdbCredit {
+  movieId: number;
+  title: string;
+  /** Primary release date (YYYY-MM-DD), may be empty for unannounced films */
+  releaseDate: string;
+  posterPath?: string;
+  /** 'Acting' for cast credits, the crew department otherwise */
+  department: string;
+  /** Character for cast, job for crew (e.g. 'Director') */
+  role?: string;
+}
+
+export interface TmdbClient {
+  searchPerson(name: string): Promise<TmdbPerson[]>;
+  getMovieCredits(personId: number): Promise<TmdbCredit[]>;
+  /** Earliest theatrical release date in a region (YYYY-MM-DD), or null */
+  getTheatricalReleaseDate(movieId: number, region: string): Promise<string | null>;
+}
+
+/** Canned data for createFixtureTmdbClient */
+export interface TmdbFixture {
+  people: TmdbPerson[];
+  credits: Record<number, TmdbCredit[]>;
+  /** movieId → theatrical release date; missing means no theatrical release */
+  theatricalDates?: Record<number, string>;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const TMDB_API_KEY = process.env.EXPO_PUBLIC_TMDB_API_KEY;
+const TMDB_BASE = 'https://api.themoviedb.org/3';
+const TMDB_IMAGE_BASE = 'https://image.tmdb.org/t/p/w500';
+
+export const FILM_RADAR_CONFIG = {
+  /** Region for theatrical release dates */
+  region: 'US',
+  /** Films released up to this many days ago still count as new */
+  recentDays: 14,
+  /** How far ahead to look for announced releases */
+  upcomingDays: 180,
+};
+
+/** TMDb crew departments for each radar talentDepartment */
+const DEPARTMENT_MAP: Record<TalentDepartment, string> = {
+  Acting: 'Acting',
+  Directing: 'Directing',
+  Producing: 'Production',
+  Writing: 'Writing',
+};
+
+/** TMDb release_dates types: 2 = theatrical (limited), 3 = theatrical */
+const THEATRICAL_RELEASE_TYPES = [2, 3];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// CLIENTS
+// ============================================================================
+
+async function tmdbGet(path: string, params: Record<string, string> = {}): Promise<any> {
+  if (!TMDB_API_KEY) {
+    console.warn('[TMDb] No TMDb API key — skipping request');
+    return null;
+  }
+
+  const query = new URLSearchParams({ api_key: TMDB_API_KEY, ...params });
+  const response = await fetch(`${TMDB_BASE}${path}?${query}`);
+  if (!response.ok) {
+    console.error('[TMDb] Request failed:', path, response.status);
+    return null;
+  }
+  return response.json();
+}
+
+/** Live client backed by the TMDb v3 API */
+export function createHttpTmdbClient(): TmdbClient {
+  return {
+    async searchPerson(name) {
+      const json = await tmdbGet('/search/person', { query: name, include_adult: 'false' });
+      return (json?.results || []).map((p: any) => ({
+        id: p.id,
+        name: p.name,
+        knownForDepartment: p.known_for_department || undefined,
+        popularity: p.popularity || 0,
+      }));
+    },
+
+    async getMovieCredits(personId) {
+      const json = await tmdbGet(`/person/${personId}/movie_credits`);
+      if (!json) return [];
+
+      const cast: TmdbCredit[] = (json.cast || []).map((c: any) => ({
+        movieId: c.id,
+        title: c.title,
+        releaseDate: c.release_date || '',
+        posterPath: c.poster_path || undefined,
+        department: 'Acting',
+        role: c.character || undefined,
+      }));
+      const crew: TmdbCredit[] = (json.crew || []).map((c: any) => ({
+        movieId: c.id,
+        title: c.title,
+        releaseDate: c.release_date || '',
+        posterPath: c.poster_path || undefined,
+        department: c.department,
+        role: c.job || undefined,
+      }));
+      return [...cast, ...crew];
+    },
+
+    async getTheatricalReleaseDate(movieId, region) {
+      const json = await tmdbGet(`/movie/${movieId}/release_dates`);
+      const country = (json?.results || []).find((r: any) => r.iso_3166_1 === region);
+      const dates: string[] = (country?.release_dates || [])
+        .filter((d: any) => THEATRICAL_RELEASE_TYPES.includes(d.type) && d.release_date)
+        .map((d: any) => String(d.release_date).slice(0, 10))
+        .sort();
+      return dates[0] || null;
+    },
+  };
+}
+
+/** Offline client serving canned data, for tests and demo mode */
+export function createFixtureTmdbClient(fixture: TmdbFixture): TmdbClient {
+  return {
+    async searchPerson(name) {
+      const needle = name.trim().toLowerCase();
+      return fixture.people.filter(p => p.name.toLowerCase().includes(needle));
+    },
+    async getMovieCredits(personId) {
+      return fixture.credits[personId] || [];
+    },
+    async getTheatricalReleaseDate(movieId) {
+      return fixture.theatricalDates?.[movieId] ?? null;
+    },
+  };
+}
+
+let activeClient: TmdbClient | null = null;
+
+/** The client in use (the live API unless one has been installed) */
+export function getTmdbClient(): TmdbClient {
+  if (!activeClient) activeClient = createHttpTmdbClient();
+  return activeClient;
+}
+
+/** Install a client (e.g. a fixture stub); null restores the live API */
+export function setTmdbClient(client: TmdbClient | null): void {
+  activeClient = client;
+}
+
+// ============================================================================
+// TALENT RESOLUTION
+// ============================================================================
+
+/**
+ * Pick the TMDb person for a radar's name, preferring people known for the
+ * radar's department, then popularity. Returns null when nobody matches.
+ */
+export async function resolveTalent(
+  name: string,
+  department?: string,
+  client: TmdbClient = getTmdbClient()
+): Promise<TmdbPerson | null> {
+  if (!name.trim()) return null;
+
+  const people = await client.searchPerson(name);
+  if (people.length === 0) return null;
+
+  const wanted = department ? DEPARTMENT_MAP[department as TalentDepartment] : undefined;
+  const exact = name.trim().toLowerCase();
+
+  return [...people].sort((a, b) => {
+    const score = (p: TmdbPerson) =>
+      (p.name.toLowerCase() === exact ? 2 : 0) + (wanted && p.knownForDepartment === wanted ? 1 : 0);
+    return score(b) - score(a) || b.popularity - a.popularity;
+  })[0];
+}
+
+// ============================================================================
+// RELEASE MATCHING
+// ============================================================================
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * A person's credits in the radar's department (any department when unset)
+ * with a release date inside the recent/upcoming window, one per film.
+ */
+export function filterCandidateCredits(
+  credits: TmdbCredit[],
+  department: string | undefined,
+  now: Date = new Date()
+): TmdbCredit[] {
+  const wanted = department ? DEPARTMENT_MAP[department as TalentDepartment] : undefined;
+  const from = toDateString(new Date(now.getTime() - FILM_RADAR_CONFIG.recentDays * DAY_MS));
+  const to = toDateString(new Date(now.getTime() + FILM_RADAR_CONFIG.upcomingDays * DAY_MS));
+  const seen = new Set<number>();
+
+  return credits.filter(credit => {
+    if (wanted && credit.department !== wanted) return false;
+    if (!credit.releaseDate || credit.releaseDate < from || credit.releaseDate > to) return false;
+    if (seen.has(credit.movieId)) return false;
+    seen.add(credit.movieId);
+    return true;
+  });
+}
+
+export function creditToCachedEvent(credit: TmdbCredit, releaseDate: string): CachedEvent {
+  return {
+    id: `tmdb:${credit.movieId}`,
+    name: credit.title,
+    venue: 'In theaters',
+    date: releaseDate,
+    imageUrl: credit.posterPath ? `${TMDB_IMAGE_BASE}${credit.posterPath}` : undefined,
+    ticketUrl: `https://www.themoviedb.org/movie/${credit.movieId}`,
+    source: 'tmdb',
+    category: 'film',
+  };
+}
+
+/**
+ * New and upcoming theatrical releases for a person, soonest first.
+ * Films with no theatrical release in the region (streaming-only) are skipped.
+ */
+export async function findTheatricalReleases(
+  personId: number,
+  department: string | undefined,
+  client: TmdbClient = getTmdbClient(),
+  now: Date = new Date()
+): Promise<CachedEvent[]> {
+  try {
+    const candidates = filterCandidateCredits(await client.getMovieCredits(personId), department, now);
+    const events: CachedEvent[] = [];
+
+    for (const credit of candidates) {
+      const theatrical = await client.getTheatricalReleaseDate(credit.movieId, FILM_RADAR_CONFIG.region);
+      if (!theatrical) continue;
+      events.push(creditToCachedEvent(credit, theatrical));
+    }
+
+    return events.sort((a, b) => a.date.localeCompare(b.date));
+  } catch (err) {
+    console.error('[TMDb] Error finding releases:', err);
+    return [];
+  }
+}
@@ -0,0 +1,349 @@
+/**
+ * Travel Time Service
+ *
+ * One place to ask "how long from A to B" in the user's preferred mode
+ * (drive, transit, walk or bike):
+ * - A TravelTimeProvider answers in batches (origins × destinations), so a
+ *   set of legs leaving at the same time is one request
+ * - Answers are cached by mode, origin, destination and departure bucket
+ * - Any pair a provider can't answer (offline, quota, no route) falls back
+ *   to the haversine estimate in utils/route-calculations.ts
+ *
+ * The default provider is the Google Distance Matrix API when a Maps key is
+ * configured and the offline estimate otherwise; setTravelTimeProvider
+ * swaps in another one.
+ */
+
+import { supabase } from '@/lib/supabase';
+import {
+  calculateDistance,
+  estimateTravelTime,
+  TRAVEL_MODES,
+  type Coordinate,
+  type TravelMode,
+} from '@/utils/route-calculations';
+
+export { TRAVEL_MODES, type TravelMode };
+
+export interface TravelTimeProvider {
+  name: string;
+  /**
+   * Minutes from each origin to each destination, leaving at `departAt`:
+   * result[i][j] is origins[i] → destinations[j], null when unknown
+   */
+  getMatrix(
+    origins: Coordinate[],
+    destinations: Coordinate[],
+    mode: TravelMode,
+    departAt: Date
+  ): Promise<(number | null)[][]>;
+}
+
+export interface TravelTimeOptions {
+  mode?: TravelMode;
+  /** Defaults to now */
+  departAt?: Date;
+}
+
+export interface TravelLeg {
+  from: Coordinate;
+  to: Coordinate;
+  departAt?: Date;
+}
+
+export const TRAVEL_TIME_CONFIG = {
+  /** Departures in the same bucket share a cached answer */
+  bucketMinutes: 15,
+  maxCacheEntries: 2000,
+  /** Closer than this counts as the same place */
+  samePlaceMiles: 0.01,
+  /** Google Distance Matrix limits per request */
+  maxMatrixSide: 25,
+  maxMatrixElements: 100,
+};
+
+const MINUTE_MS = 60 * 1000;
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+/** Straight-line estimate for the mode; never fails */
+export function estimateOfflineTravelMinutes(from: Coordinate, to: Coordinate, mode: TravelMode = 'drive'): number {
+  return estimateTravelTime(calculateDistance(from, to), mode);
+}
+
+/** Offline provider: haversine distance and typical speeds */
+export const haversineProvider: TravelTimeProvider = {
+  name: 'haversine',
+  async getMatrix(origins, destinations, mode) {
+    return origins.map(from => destinations.map(to => estimateOfflineTravelMinutes(from, to, mode)));
+  },
+};
+
+const GOOGLE_MODES: Record<TravelMode, string> = {
+  drive: 'driving',
+  transit: 'transit',
+  walk: 'walking',
+  bike: 'bicycling',
+};
+
+/**
+ * Google Distance Matrix API. Driving uses the traffic-aware duration when
+ * Google has one; walking and cycling don't depend on the time of day.
+ */
+export function createGoogleDistanceMatrixProvider(
+  apiKey: string,
+  fetchImpl: typeof fetch = fetch
+): TravelTimeProvider {
+  const formatPoints = (points: Coordinate[]) => points.map(p => `${p.latitude},${p.longitude}`).join('|');
+
+  const request = async (
+    origins: Coordinate[],
+    destinations: Coordinate[],
+    mode: TravelMode,
+    departAt: Date
+  ): Promise<(number | null)[][]> => {
+    const params = new URLSearchParams({
+      origins: formatPoints(origins),
+      destinations: formatPoints(destinations),
+      mode: GOOGLE_MODES[mode],
+      key: apiKey,
+    });
+    if (mode === 'drive' || mode === 'transit') {
+      // Google rejects departure times in the past
+      const seconds = Math.floor(departAt.getTime() / 1000);
+      params.set('departure_time', seconds > Date.now() / 1000 ? String(seconds) : 'now');
+    }
+
+    const response = await fetchImpl(`https://maps.googleapis.com/maps/api/distancematrix/json?${params}`);
+    if (!response.ok) throw new Error(`Distance Matrix HTTP ${response.status}`);
+
+    const data = await response.json();
+    if (data.status !== 'OK') throw new Error(`Distance Matrix ${data.status}`);
+
+    return origins.map((_, i) =>
+      destinations.map((_, j) => {
+        const element = data.rows?.[i]?.elements?.[j];
+        if (element?.status !== 'OK') return null;
+        const seconds = element.duration_in_traffic?.value ?? element.duration?.value;
+        return typeof seconds === 'number' ? Math.ceil(seconds / 60) : null;
+      })
+    );
+  };
+
+  return {
+    name: 'google',
+    async getMatrix(origins, destinations, mode, departAt) {
+      const { maxMatrixSide, maxMatrixElements } = TRAVEL_TIME_CONFIG;
+      const result: (number | null)[][] = origins.map(() => destinations.map(() => null));
+
+      // Split into requests within the per-request limits
+      for (let d = 0; d < destinations.length; d += maxMatrixSide) {
+        const destinationChunk = destinations.slice(d, d + maxMatrixSide);
+        const originStep = Math.max(1, Math.min(maxMatrixSide, Math.floor(maxMatrixElements / destinationChunk.length)));
+
+        for (let o = 0; o < origins.length; o += originStep) {
+          const chunk = await request(origins.slice(o, o + originStep), destinationChunk, mode, departAt);
+          chunk.forEach((row, i) => row.forEach((minutes, j) => {
+            result[o + i][d + j] = minutes;
+          }));
+        }
+      }
+
+      return result;
+    },
+  };
+}
+
+let activeProvider: TravelTimeProvider | null = null;
+
+/** The provider in use (Google when a Maps key is set, offline otherwise) */
+export function getTravelTimeProvider(): TravelTimeProvider {
+  if (!activeProvider) {
+    const apiKey = process.env.EXPO_PUBLIC_GOOGLE_MAPS_API_KEY;
+    activeProvider = apiKey ? createGoogleDistanceMatrixProvider(apiKey) : haversineProvider;
+  }
+  return activeProvider;
+}
+
+/** Replace the provider (null restores the default); clears the cache */
+export function setTravelTimeProvider(provider: TravelTimeProvider | null): void {
+  activeProvider = provider;
+  clearTravelTimeCache();
+}
+
+// ============================================================================
+// CACHE
+// ============================================================================
+
+const travelCache = new Map<string, number>();
+
+export function clearTravelTimeCache(): void {
+  travelCache.clear();
+}
+
+const pointKey = (point: Coordinate) => `${point.latitude.toFixed(4)},${point.longitude.toFixed(4)}`;
+
+/** Walking and cycling take as long at any hour */
+function departureBucket(mode: TravelMode, departAt: Date): number {
+  if (mode === 'walk' || mode === 'bike') return 0;
+  return Math.floor(departAt.getTime() / (TRAVEL_TIME_CONFIG.bucketMinutes * MINUTE_MS));
+}
+
+function cacheKey(mode: TravelMode, from: Coordinate, to: Coordinate, bucket: number): string {
+  return `${mode}|${pointKey(from)}|${pointKey(to)}|${bucket}`;
+}
+
+function remember(key: string, minutes: number): void {
+  // Oldest entries go first (Maps keep insertion order)
+  if (travelCache.size >= TRAVEL_TIME_CONFIG.maxCacheEntries) {
+    const oldest = travelCache.keys().next().value;
+    if (oldest !== undefined) travelCache.delete(oldest);
+  }
+  travelCache.set(key, minutes);
+}
+
+// ============================================================================
+// LOOKUPS
+// ============================================================================
+
+/**
+ * Minutes for each leg, in order. Legs missing from the cache are asked
+ * for in one matrix request per departure bucket.
+ */
+export async function getTravelTimesForLegs(legs: TravelLeg[], mode: TravelMode = 'drive'): Promise<number[]> {
+  const now = new Date();
+  const result: number[] = new Array(legs.length);
+  const pending = new Map<number, { departAt: Date; indexes: number[] }>();
+
+  legs.forEach((leg, index) => {
+    if (calculateDistance(leg.from, leg.to) < TRAVEL_TIME_CONFIG.samePlaceMiles) {
+      result[index] = 0;
+      return;
+    }
+
+    const departAt = leg.departAt ?? now;
+    const bucket = departureBucket(mode, departAt);
+    const cached = travelCache.get(cacheKey(mode, leg.from, leg.to, bucket));
+    if (cached !== undefined) {
+      result[index] = cached;
+      return;
+    }
+
+    const group = pending.get(bucket) ?? { departAt, indexes: [] };
+    group.indexes.push(index);
+    pending.set(bucket, group);
+  });
+
+  for (const [bucket, { departAt, indexes }] of pending) {
+    const origins = uniquePoints(indexes.map(i => legs[i].from));
+    const destinations = uniquePoints(indexes.map(i => legs[i].to));
+    let matrix: (number | null)[][] | null = null;
+
+    try {
+      matrix = await getTravelTimeProvider().getMatrix(origins.points, destinations.points, mode, departAt);
+    } catch (error) {
+      console.warn('Travel time provider failed, using estimates:', error);
+    }
+
+    for (const index of indexes) {
+      const { from, to } = legs[index];
+      const minutes = matrix?.[origins.indexOf(from)]?.[destinations.indexOf(to)];
+
+      if (typeof minutes === 'number' && Number.isFinite(minutes)) {
+        remember(cacheKey(mode, from, to, bucket), minutes);
+        result[index] = minutes;
+      } else {
+        // Not cached, so a later lookup can still get the provider's answer
+        result[index] = estimateOfflineTravelMinutes(from, to, mode);
+      }
+    }
+  }
+
+  return result;
+}
+
+/** Distinct points (to 4 decimals) and a lookup back into them */
+function uniquePoints(points: Coordinate[]): { points: Coordinate[]; indexOf: (point: Coordinate) => number } {
+  const indexByKey = new Map<string, number>();
+  const unique: Coordinate[] = [];
+  for (const point of points) {
+    const key = pointKey(point);
+    if (!indexByKey.has(key)) {
+      indexByKey.set(key, unique.length);
+      unique.push(point);
+    }
+  }
+  return { points: unique, indexOf: point => indexByKey.get(pointKey(point)) ?? -1 };
+}
+
+/** Minutes from `from` to `to` */
+export async function getTravelMinutes(
+  from: Coordinate,
+  to: Coordinate,
+  options: TravelTimeOptions = {}
+): Promise<number> {
+  const [minutes] = await getTravelTimesForLegs([{ from, to, departAt: options.departAt }], options.mode);
+  return minutes;
+}
+
+/** Minutes from every origin to every destination, all leaving at the same time */
+export async function getTravelMatrix(
+  origins: Coordinate[],
+  destinations: Coordinate[],
+  options: TravelTimeOptions = {}
+): Promise<number[][]> {
+  const departAt = options.departAt ?? new Date();
+  const legs = origins.flatMap(from => destinations.map(to => ({ from, to, departAt })));
+  const minutes = await getTravelTimesForLegs(legs, options.mode);
+  return origins.map((_, i) => minutes.slice(i * destinations.length, (i + 1) * destinations.length));
+}
+
+// ============================================================================
+// PREFERRED MODE
+// ============================================================================
+
+const preferredModes = new Map<string, TravelMode>();
+
+export function isTravelMode(value: unknown): value is TravelMode {
+  return typeof value === 'string' && (TRAVEL_MODES as string[]).includes(value);
+}
+
+/**
+ * How the user usually gets around (drive when unset or unreadable)
+ */
+export async function getPreferredTravelMode(userId: string): Promise<TravelMode> {
+  const known = preferredModes.get(userId);
+  if (known) return known;
+
+  const { data, error } = await supabase
+    .from('users')
+    .select('preferred_travel_mode')
+    .eq('id', userId)
+    .single();
+
+  if (error) {
+    console.error('Error fetching travel mode:', error);
+    return 'drive';
+  }
+
+  const mode = isTravelMode(data?.preferred_travel_mode) ? data.preferred_travel_mode : 'drive';
+  preferredModes.set(userId, mode);
+  return mode;
+}
+
+export async function setPreferredTravelMode(userId: string, mode: TravelMode): Promise<boolean> {
+  const { error } = await supabase
+    .from('users')
+    .update({ preferred_travel_mode: mode })
+    .eq('id', userId);
+
+  if (error) {
+    console.error('Error updating travel mode:', error);
+    return false;
+  }
+
+  preferredModes.set(userId, mode);
+  return true;
+}
@@ -0,0 +1,510 @@
+/**
+ * Weekend Planner
+ * Builds full multi-day itineraries (e.g. "this weekend") on top of the time
+ * slot engine: free slots per day, business hours, travel between stops,
+ * meal windows and category variety. Produces ranked alternative plans;
+ * accepting one writes every stop to the calendar and refreshes loop routing.
+ */
+
+import { supabase } from '@/lib/supabase';
+import { analyzeCalendarSlots, estimateTravelMinutes } from '@/services/time-slot-engine';
+import { mapCategoryToDBCategory } from '@/services/calendar-service';
+import { updateLoopRoutingForUser } from '@/services/loop-routing';
+import { fetchCalendarEventsInRange } from '@/services/recurring-events';
+import { markAsAccepted } from '@/services/recommendation-persistence';
+import { getEstimatedDuration } from '@/constants/activity-durations';
+import { getBusinessHours, isOpenAt, type BusinessHours } from '@/utils/business-hours';
+import { calculateDistance, type Coordinate } from '@/utils/route-calculations';
+import {
+  addZonedDays,
+  getZonedMinutesOfDay,
+  getZonedParts,
+  resolveTimezone,
+  setZonedTime,
+  startOfZonedDay,
+} from '@/utils/timezone';
+import type { Recommendation } from '@/types/activity';
+import type {
+  CalendarEvent,
+  DayPlan,
+  FreeTimeSlot,
+  MealKind,
+  PlanStop,
+  WeekendPlan,
+} from '@/types/time-slots';
+
+// ── Config ───────────────────────────────────────────────────────────
+
+export const WEEKEND_PLAN_CONFIG = {
+  /** Plans never start before this hour, even if the calendar is free at 7 AM */
+  dayStartHour: 10,
+  maxStopsPerDay: 5,
+  planCount: 3,
+  /** How far to move forward when nothing fits at the current time (minutes) */
+  cursorStepMinutes: 30,
+  /** Score lost per earlier stop with the same category */
+  varietyPenalty: 20,
+  /** Score lost per minute of driving to a stop */
+  travelPenaltyPerMinute: 0.5,
+  /** Score lost per earlier alternative that already used a place (keeps alternatives distinct) */
+  alternatePenalty: 30,
+  /** Score gained by a meal stop that lands in an open meal window */
+  mealBonus: 25,
+  /** Score for recommendations that arrive without one */
+  defaultScore: 50,
+};
+
+/** Meal windows in minutes since midnight; a meal must start by `lastCall` */
+const MEAL_WINDOWS: { kind: MealKind; start: number; lastCall: number }[] = [
+  { kind: 'lunch', start: 11 * 60, lastCall: 13 * 60 },
+  { kind: 'dinner', start: 17 * 60 + 30, lastCall: 20 * 60 },
+];
+
+const MEAL_CATEGORIES = ['dining', 'restaurant', 'restaurants', 'food', 'fine_dining', 'fast_food', 'brunch'];
+
+/** Feed cards that are not venues (headers, nudges, alerts) */
+const PLANNABLE_CARD_TYPES = [undefined, 'ai_curated', 'discovery'];
+
+// ── Types ────────────────────────────────────────────────────────────
+
+export interface WeekendPlanOptions {
+  /** First day of the range (any time of day) */
+  start: Date;
+  /** Last day of the range, inclusive */
+  end: Date;
+  /** Recommendations to build plans from (usually the current feed) */
+  candidates: Recommendation[];
+  /** Calendar events already in the range */
+  events?: CalendarEvent[];
+  /** Home / current location; first stop of each day travels from here */
+  userLocation?: Coordinate;
+  planCount?: number;
+  maxStopsPerDay?: number;
+  /** Nothing is scheduled before this time (defaults to now) */
+  now?: Date;
+  /** Zone days, meal windows and opening hours are in (the user's; defaults to the device's) */
+  timeZone?: string | null;
+}
+
+export interface AcceptPlanResult {
+  success: boolean;
+  eventIds: string[];
+  error?: string;
+}
+
+interface PlanCandidate {
+  key: string;
+  recommendation: Recommendation;
+  category: string;
+  location: Coordinate;
+  hours: BusinessHours;
+  durationMinutes: number;
+  isMeal: boolean;
+  baseScore: number;
+}
+
+interface PlanState {
+  used: Set<string>;
+  categoryCounts: Map<string, number>;
+  alternateUses: Map<string, number>;
+  score: number;
+}
+
+// ── Date Range ───────────────────────────────────────────────────────
+
+/**
+ * "This weekend": the coming Saturday and Sunday, Saturday–Sunday when it is
+ * already Saturday, and just today when it is Sunday. Days start at
+ * midnight in `timeZone` (the device's by default).
+ */
+export function getThisWeekendRange(
+  now: Date = new Date(),
+  timeZone?: string | null
+): { start: Date; end: Date } {
+  const zone = resolveTimezone(timeZone);
+  const today = startOfZonedDay(now, zone);
+  const dayOfWeek = getZonedParts(now, zone).weekday;
+
+  if (dayOfWeek === 0) {
+    return { start: today, end: new Date(today) };
+  }
+
+  const start = addZonedDays(today, 6 - dayOfWeek, zone);
+  return { start, end: addZonedDays(start, 1, zone) };
+}
+
+/** Every calendar day in `timeZone` from start to end inclusive, at midnight */
+export function getDaysInRange(start: Date, end: Date, timeZone?: string | null): Date[] {
+  const zone = resolveTimezone(timeZone);
+  const days: Date[] = [];
+  const last = startOfZonedDay(end, zone);
+
+  for (let cursor = startOfZonedDay(start, zone); cursor.getTime() <= last.getTime(); cursor = addZonedDays(cursor, 1, zone)) {
+    days.push(cursor);
+  }
+  return days;
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+export function isMealCategory(category: string): boolean {
+  const key = category.toLowerCase();
+  return MEAL_CATEGORIES.includes(key) || key.includes('restaurant') || key.includes('dining');
+}
+
+function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * 60000);
+}
+
+/** Round up to the next 5 minutes so plans show clean times */
+function roundUpToFiveMinutes(date: Date): Date {
+  const step = 5 * 60000;
+  return new Date(Math.ceil(date.getTime() / step) * step);
+}
+
+/** The meal window a stop starting at `start` would serve, if any */
+function mealWindowAt(start: Date, timeZone: string): MealKind | undefined {
+  const minutes = getZonedMinutesOfDay(start, timeZone);
+  return MEAL_WINDOWS.find(w => minutes >= w.start && minutes <= w.lastCall)?.kind;
+}
+
+/** True if a non-meal stop would run through the last chance to eat */
+function blocksMeal(start: Date, end: Date, mealsServed: Set<MealKind>, timeZone: string): boolean {
+  const startMinutes = getZonedMinutesOfDay(start, timeZone);
+  const endMinutes = startMinutes + (end.getTime() - start.getTime()) / 60000;
+  return MEAL_WINDOWS.some(
+    w => !mealsServed.has(w.kind) && startMinutes <= w.lastCall && endMinutes > w.lastCall
+  );
+}
+
+/** Unserved meals that can still start after `time` */
+function mealsAhead(time: Date, mealsServed: Set<MealKind>, timeZone: string): number {
+  const minutes = getZonedMinutesOfDay(time, timeZone);
+  return MEAL_WINDOWS.filter(w => !mealsServed.has(w.kind) && w.lastCall >= minutes).length;
+}
+
+function toCandidates(recommendations: Recommendation[]): PlanCandidate[] {
+  const seen = new Set<string>();
+  const candidates: PlanCandidate[] = [];
+
+  for (const rec of recommendations) {
+    const latitude = rec.activity?.location?.latitude;
+    const longitude = rec.activity?.location?.longitude;
+    const key = rec.activity?.googlePlaceId || rec.id;
+
+    // Ticketed events have fixed times and are scheduled on their own
+    if (!latitude || !longitude || rec.event_metadata) continue;
+    if (!PLANNABLE_CARD_TYPES.includes(rec.cardType) || seen.has(key)) continue;
+    seen.add(key);
+
+    candidates.push({
+      key,
+      recommendation: rec,
+      category: rec.category.toLowerCase(),
+      location: { latitude, longitude },
+      hours: getBusinessHours(rec.businessHours, rec.category).hours,
+      durationMinutes: getEstimatedDuration(rec.category).typical,
+      isMeal: isMealCategory(rec.category),
+      baseScore: rec.score ?? WEEKEND_PLAN_CONFIG.defaultScore,
+    });
+  }
+  return candidates;
+}
+
+// ── Planning ─────────────────────────────────────────────────────────
+
+/**
+ * Pick the best stop that can start at `cursor` and finish inside the slot.
+ * Returns the stop with its ranking score (before the alternate penalty).
+ */
+function pickNextStop(
+  cursor: Date,
+  slot: FreeTimeSlot,
+  position: Coordinate | undefined,
+  lastCategory: string | undefined,
+  mealsServed: Set<MealKind>,
+  stopsLeft: number,
+  candidates: PlanCandidate[],
+  state: PlanState,
+  timeZone: string
+): { candidate: PlanCandidate; stop: PlanStop; score: number } | null {
+  const config = WEEKEND_PLAN_CONFIG;
+  const mealsLeft = candidates.some(c => c.isMeal && !state.used.has(c.key));
+  let best: { candidate: PlanCandidate; stop: PlanStop; score: number; rank: number } | null = null;
+
+  for (const candidate of candidates) {
+    if (state.used.has(candidate.key) || candidate.category === lastCategory) continue;
+
+    const travelMinutes = position
+      ? estimateTravelMinutes(calculateDistance(position, candidate.location))
+      : 0;
+    const start = roundUpToFiveMinutes(addMinutes(cursor, travelMinutes));
+    const end = addMinutes(start, candidate.durationMinutes);
+    if (end.getTime() > slot.end.getTime()) continue;
+
+    // Open on arrival and still open for the last minute of the visit
+    if (!isOpenAt(candidate.hours, start, timeZone) || !isOpenAt(candidate.hours, addMinutes(end, -1), timeZone)) continue;
+
+    const meal = mealWindowAt(start, timeZone);
+    let score =
+      candidate.baseScore -
+      travelMinutes * config.travelPenaltyPerMinute -
+      (state.categoryCounts.get(candidate.category) || 0) * config.varietyPenalty;
+
+    if (candidate.isMeal) {
+      if (!meal || mealsServed.has(meal)) continue;
+      score += config.mealBonus;
+    } else if (mealsLeft && (blocksMeal(start, end, mealsServed, timeZone) || mealsAhead(end, mealsServed, timeZone) >= stopsLeft)) {
+      // Keep the meal window reachable and a stop free for every meal still to come
+      continue;
+    }
+
+    const rank = score - (state.alternateUses.get(candidate.key) || 0) * config.alternatePenalty;
+    if (!best || rank > best.rank) {
+      best = {
+        candidate,
+        score,
+        rank,
+        stop: {
+          recommendation: candidate.recommendation,
+          start,
+          end,
+          travelMinutes,
+          ...(candidate.isMeal && meal ? { meal } : {}),
+        },
+      };
+    }
+  }
+
+  return best;
+}
+
+function summarizeDay(date: Date, stops: PlanStop[], timeZone: string): string {
+  const dayName = date.toLocaleDateString('en-US', { weekday: 'long', timeZone });
+  if (stops.length === 0) return `${dayName} — nothing fits`;
+
+  const meals = stops.filter(s => s.meal).map(s => s.meal);
+  const stopText = stops.length === 1 ? '1 stop' : `${stops.length} stops`;
+  return meals.length > 0
+    ? `${dayName} — ${stopText}, ${meals.join(' + ')}`
+    : `${dayName} — ${stopText}`;
+}
+
+function planDay(
+  date: Date,
+  candidates: PlanCandidate[],
+  state: PlanState,
+  options: WeekendPlanOptions,
+  timeZone: string
+): DayPlan {
+  const config = WEEKEND_PLAN_CONFIG;
+  const maxStops = options.maxStopsPerDay ?? config.maxStopsPerDay;
+  const analysis = analyzeCalendarSlots(options.events || [], date, options.userLocation, timeZone);
+
+  const dayStart = setZonedTime(date, config.dayStartHour, 0, timeZone);
+  const earliest = Math.max(dayStart.getTime(), (options.now || new Date()).getTime());
+
+  const stops: PlanStop[] = [];
+  const mealsServed = new Set<MealKind>();
+  let position = options.userLocation;
+  let lastCategory: string | undefined;
+
+  for (const slot of analysis.freeSlots) {
+    if (slot.previousEvent?.location) {
+      position = slot.previousEvent.location;
+      lastCategory = undefined;
+    }
+
+    let cursor = new Date(Math.max(slot.start.getTime(), earliest));
+    while (stops.length < maxStops && cursor.getTime() < slot.end.getTime()) {
+      const next = pickNextStop(
+        cursor, slot, position, lastCategory, mealsServed, maxStops - stops.length, candidates, state, timeZone
+      );
+      if (!next) {
+        cursor = addMinutes(cursor, config.cursorStepMinutes);
+        continue;
+      }
+
+      const { candidate, stop, score } = next;
+      stops.push(stop);
+      state.used.add(candidate.key);
+      state.categoryCounts.set(candidate.category, (state.categoryCounts.get(candidate.category) || 0) + 1);
+      state.score += score;
+      if (stop.meal) mealsServed.add(stop.meal);
+
+      cursor = stop.end;
+      position = candidate.location;
+      lastCategory = candidate.category;
+    }
+  }
+
+  return { date, stops, summary: summarizeDay(date, stops, timeZone) };
+}
+
+function buildPlan(
+  days: Date[],
+  candidates: PlanCandidate[],
+  alternateUses: Map<string, number>,
+  options: WeekendPlanOptions,
+  timeZone: string
+): WeekendPlan {
+  const state: PlanState = {
+    used: new Set(),
+    categoryCounts: new Map(),
+    alternateUses,
+    score: 0,
+  };
+
+  const dayPlans = days.map(date => planDay(date, candidates, state, options, timeZone));
+  const stops = dayPlans.flatMap(d => d.stops);
+  const keyOf = (stop: PlanStop) => stop.recommendation.activity?.googlePlaceId || stop.recommendation.id;
+
+  return {
+    id: stops.map(keyOf).join(','),
+    days: dayPlans,
+    score: Math.round(state.score),
+    totalTravelMinutes: stops.reduce((sum, s) => sum + s.travelMinutes, 0),
+    categories: Array.from(new Set(stops.map(s => s.recommendation.category))),
+  };
+}
+
+/**
+ * Generate ranked alternative itineraries for a date range.
+ * Each alternative is built greedily; places used by earlier alternatives
+ * are penalized so the options differ. Best plan first.
+ */
+export function generateWeekendPlans(options: WeekendPlanOptions): WeekendPlan[] {
+  const planCount = options.planCount ?? WEEKEND_PLAN_CONFIG.planCount;
+  const zone = resolveTimezone(options.timeZone);
+  const candidates = toCandidates(options.candidates);
+  const days = getDaysInRange(options.start, options.end, zone);
+  const alternateUses = new Map<string, number>();
+  const plans: WeekendPlan[] = [];
+  const seen = new Set<string>();
+
+  for (let attempt = 0; attempt < planCount * 2 && plans.length < planCount; attempt++) {
+    const plan = buildPlan(days, candidates, alternateUses, options, zone);
+    const keys = plan.id ? plan.id.split(',') : [];
+    keys.forEach(key => alternateUses.set(key, (alternateUses.get(key) || 0) + 1));
+
+    if (keys.length === 0 || seen.has(plan.id)) continue;
+    seen.add(plan.id);
+    plans.push(plan);
+  }
+
+  return plans.sort((a, b) => b.score - a.score);
+}
+
+// ── Calendar ─────────────────────────────────────────────────────────
+
+/**
+ * Load the user's scheduled events for the range (whole days in `timeZone`),
+ * in time-slot engine form.
+ * Returns [] on failure so planning can continue on an empty calendar.
+ */
+export async function loadPlanningEvents(
+  userId: string,
+  start: Date,
+  end: Date,
+  timeZone?: string | null
+): Promise<CalendarEvent[]> {
+  const zone = resolveTimezone(timeZone);
+  const rangeStart = startOfZonedDay(start, zone);
+  const rangeEnd = addZonedDays(startOfZonedDay(end, zone), 1, zone);
+
+  try {
+    // Recurring series come back expanded into occurrences
+    const { events, error } = await fetchCalendarEventsInRange(userId, rangeStart, new Date(rangeEnd.getTime() - 1), zone);
+    if (error) throw new Error(error);
+
+    return events.filter((event) => event.status === 'scheduled').map((event: any) => ({
+      id: event.id,
+      title: event.title,
+      category: event.category,
+      startTime: new Date(event.start_time),
+      endTime: new Date(event.end_time),
+      location: event.location?.coordinates
+        ? {
+            latitude: event.location.coordinates[1],
+            longitude: event.location.coordinates[0],
+            address: event.address,
+          }
+        : undefined,
+    }));
+  } catch (error) {
+    console.warn('[WeekendPlanner] Failed to load calendar events:', error);
+    return [];
+  }
+}
+
+/**
+ * Accept a plan in one tap: create a calendar event for every stop, mark the
+ * recommendations accepted and recompute loop routing for the new events.
+ */
+export async function acceptWeekendPlan(userId: string, plan: WeekendPlan): Promise<AcceptPlanResult> {
+  const stops = plan.days.flatMap(d => d.stops);
+  if (stops.length === 0) {
+    return { success: false, eventIds: [], error: 'Plan has no stops' };
+  }
+
+  try {
+    const rows = stops.map(stop => {
+      const rec = stop.recommendation;
+      return {
+        user_id: userId,
+        title: rec.title,
+        description: rec.aiExplanation || '',
+        category: mapCategoryToDBCategory(rec.category),
+        location: `POINT(${rec.activity!.location.longitude} ${rec.activity!.location.latitude})`,
+        address: rec.location,
+        start_time: stop.start.toISOString(),
+        end_time: stop.end.toISOString(),
+        source: 'recommendation',
+        status: 'scheduled',
+      };
+    });
+
+    const { data, error } = await supabase
+      .from('calendar_events')
+      .insert(rows)
+      .select('id');
+
+    if (error) {
+      console.error('[WeekendPlanner] Failed to create plan events:', error);
+      return { success: false, eventIds: [], error: error.message };
+    }
+
+    const eventIds = (data || []).map((row: { id: string }) => row.id);
+
+    await Promise.all(
+      stops.map((stop, i) => {
+        const placeId = stop.recommendation.activity?.googlePlaceId;
+        return placeId && eventIds[i] ? markAsAccepted(userId, placeId, eventIds[i]) : undefined;
+      })
+    );
+
+    const routing = await updateLoopRoutingForUser(userId);
+    if (!routing.success) {
+      console.warn('[WeekendPlanner] Loop routing update failed:', routing.error);
+    }
+
+    return { success: true, eventIds };
+  } catch (error) {
+    console.error('[WeekendPlanner] Error accepting plan:', error);
+    return {
+      success: false,
+      eventIds: [],
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+// ── Exported for testing ─────────────────────────────────────────────
+
+export const _testExports = {
+  toCandidates,
+  mealWindowAt,
+  blocksMeal,
+  mealsAhead,
+  roundUpToFiveMinutes,
+};
@@ -0,0 +1,386 @@
+/**
+ * Supabase Edge Function: ics-feed
+ *
+ * Serves a user's Loop calendar as an iCalendar feed that Google Calendar,
+ * Outlook or Apple Calendar can subscribe to. The URL carries the user's
+ * secret users.ics_feed_token (services/ical-service.ts builds it); calendar
+ * apps can't sign in, so the token is the only credential and rotating it
+ * revokes every subscription.
+ *
+ *   GET /functions/v1/ics-feed?token=<ics_feed_token>
+ *
+ * Deployment (calendar apps send no Authorization header):
+ *   supabase functions deploy ics-feed --no-verify-jwt
+ *
+ * The function reads the Supabase service role key from the built-in
+ * SUPABASE_SERVICE_ROLE_KEY environment variable to look up the token.
+ *
+ * The feed has events from the last 30 days on, plus every recurring series
+ * with its RRULE, exceptions and changed occurrences. Only events made in
+ * Loop are included: ones imported from Google, Apple or .ics files would
+ * show up twice in the calendar they came from. Times are written in
+ * each event's zone (or the user's) with a VTIMEZONE per zone, mirroring
+ * utils/ical.ts, which the app can't share with Deno.
+ */
+
+// NOTE: This is a Deno Edge Function. It uses Deno-style imports.
+// When deployed to Supabase, these imports resolve automatically.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0?target=deno';
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+// Service role: the token lookup happens before we know who the user is
+const supabaseAdmin =
+  supabaseUrl && supabaseServiceRoleKey
+    ? createClient(supabaseUrl, supabaseServiceRoleKey)
+    : null;
+
+const PRODUCT_ID = '-//Loop//Loop Calendar//EN';
+const LOOP_UID_DOMAIN = 'loopapp';
+const HISTORY_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+/** Rows per request, below PostgREST's default max-rows of 1000 */
+const PAGE_SIZE = 500;
+/** calendar_events.source values for events made in Loop */
+const LOOP_SOURCES = ['manual', 'recommendation', 'group_plan'];
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+interface EventRow {
+  id: string;
+  title: string;
+  description: string | null;
+  category: string | null;
+  address: string | null;
+  start_time: string;
+  end_time: string;
+  all_day: boolean;
+  status: string;
+  timezone: string | null;
+  recurrence_rule: string | null;
+  recurrence_exdates: string[] | null;
+  recurrence_parent_id: string | null;
+  recurrence_original_start: string | null;
+  ics_uid: string | null;
+  updated_at: string;
+}
+
+const EVENT_COLUMNS =
+  'id, title, description, category, address, start_time, end_time, all_day, status, timezone, ' +
+  'recurrence_rule, recurrence_exdates, recurrence_parent_id, recurrence_original_start, ics_uid, updated_at';
+
+// ---------------------------------------------------------------------------
+// Text and time formatting (see utils/ical.ts)
+// ---------------------------------------------------------------------------
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/** Fold a content line at 75 octets */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+const pad = (n: number) => String(Math.abs(n)).padStart(2, '0');
+
+function isValidTimezone(timeZone: string | null): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function zonedParts(date: Date, timeZone: string) {
+  const parts: Record<string, number> = {};
+  for (const part of new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return parts as { year: number; month: number; day: number; hour: number; minute: number };
+}
+
+/** UTC offset in minutes (east positive) */
+function offsetMinutes(date: Date, timeZone: string): number {
+  const p = zonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  return Math.round((asUtc - Math.floor(date.getTime() / MINUTE_MS) * MINUTE_MS) / MINUTE_MS);
+}
+
+function formatOffset(minutes: number): string {
+  return `${minutes < 0 ? '-' : '+'}${pad(Math.floor(Math.abs(minutes) / 60))}${pad(Math.abs(minutes) % 60)}`;
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatLocal(date: Date, timeZone: string): string {
+  const p = zonedParts(date, timeZone);
+  return `${p.year}${pad(p.month)}${pad(p.day)}T${pad(p.hour)}${pad(p.minute)}00`;
+}
+
+function formatDate(date: Date, timeZone: string): string {
+  return formatLocal(date, timeZone).slice(0, 8);
+}
+
+function timeProperty(name: string, date: Date, timeZone: string, allDay: boolean): string {
+  if (allDay) return `${name};VALUE=DATE:${formatDate(date, timeZone)}`;
+  return `${name};TZID=${timeZone}:${formatLocal(date, timeZone)}`;
+}
+
+// ---------------------------------------------------------------------------
+// VTIMEZONE
+// ---------------------------------------------------------------------------
+
+/** VTIMEZONE with yearly rules taken from this year's offset changes */
+function serializeVTimezone(timeZone: string, year: number): string[] {
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+  const yearStart = Date.UTC(year, 0, 1);
+  let previous = offsetMinutes(new Date(yearStart), timeZone);
+  let changes = 0;
+
+  for (let t = yearStart + DAY_MS; t <= Date.UTC(year + 1, 0, 1); t += DAY_MS) {
+    const offset = offsetMinutes(new Date(t), timeZone);
+    if (offset === previous) continue;
+
+    // Narrow the change down to the minute
+    let low = t - DAY_MS;
+    let high = t;
+    while (high - low > MINUTE_MS) {
+      const mid = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS;
+      if (offsetMinutes(new Date(mid), timeZone) === previous) low = mid;
+      else high = mid;
+    }
+
+    // Onset in local time before the change
+    const local = new Date(high + previous * MINUTE_MS);
+    const day = local.getUTCDate();
+    const month = local.getUTCMonth() + 1;
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    const ordinal = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+    const kind = offset > previous ? 'DAYLIGHT' : 'STANDARD';
+
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${formatUtc(local).replace('Z', '')}`,
+      `RRULE:FREQ=YEARLY;BYMONTH=${month};BYDAY=${ordinal}${WEEKDAY_CODES[local.getUTCDay()]}`,
+      `TZOFFSETFROM:${formatOffset(previous)}`,
+      `TZOFFSETTO:${formatOffset(offset)}`,
+      `END:${kind}`
+    );
+    previous = offset;
+    changes++;
+  }
+
+  if (changes === 0) {
+    lines.push(
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      `TZOFFSETFROM:${formatOffset(previous)}`,
+      `TZOFFSETTO:${formatOffset(previous)}`,
+      'END:STANDARD'
+    );
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+// ---------------------------------------------------------------------------
+// Feed
+// ---------------------------------------------------------------------------
+
+function buildFeed(name: string, rows: EventRow[], userTimeZone: string): string {
+  const now = formatUtc(new Date());
+  const uidsById = new Map(rows.map(row => [row.id, row.ics_uid || `${row.id}@${LOOP_UID_DOMAIN}`]));
+  const zones = new Set<string>();
+  const events: string[] = [];
+
+  for (const row of rows) {
+    // An override whose series isn't in the feed can't be placed
+    if (row.recurrence_parent_id && !uidsById.has(row.recurrence_parent_id)) continue;
+
+    const timeZone = isValidTimezone(row.timezone) ? row.timezone : userTimeZone;
+    const start = new Date(row.start_time);
+    const end = new Date(row.end_time);
+    if (!row.all_day) zones.add(timeZone);
+
+    const lines = [
+      'BEGIN:VEVENT',
+      `UID:${row.recurrence_parent_id ? uidsById.get(row.recurrence_parent_id) : uidsById.get(row.id)}`,
+      `DTSTAMP:${now}`,
+      `LAST-MODIFIED:${formatUtc(new Date(row.updated_at))}`,
+      timeProperty('DTSTART', start, timeZone, row.all_day),
+      timeProperty('DTEND', end, timeZone, row.all_day),
+      `SUMMARY:${escapeText(row.title || 'Busy')}`,
+    ];
+    if (row.description) lines.push(`DESCRIPTION:${escapeText(row.description)}`);
+    if (row.address) lines.push(`LOCATION:${escapeText(row.address)}`);
+    if (row.category) lines.push(`CATEGORIES:${escapeText(row.category)}`);
+    lines.push(`STATUS:${row.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED'}`);
+
+    if (row.recurrence_rule) {
+      lines.push(`RRULE:${row.recurrence_rule}`);
+      for (const exdate of row.recurrence_exdates || []) {
+        lines.push(timeProperty('EXDATE', new Date(exdate), timeZone, row.all_day));
+      }
+    }
+    if (row.recurrence_parent_id && row.recurrence_original_start) {
+      lines.push(timeProperty('RECURRENCE-ID', new Date(row.recurrence_original_start), timeZone, row.all_day));
+    }
+
+    lines.push('END:VEVENT');
+    events.push(...lines);
+  }
+
+  const year = new Date().getUTCFullYear();
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${userTimeZone}`,
+    'X-PUBLISHED-TTL:PT1H',
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    ...[...zones].flatMap(zone => serializeVTimezone(zone, year)),
+    ...events,
+    'END:VCALENDAR',
+  ]
+    .map(foldLine)
+    .join('\r\n') + '\r\n';
+}
+
+// ---------------------------------------------------------------------------
+// Handler
+// ---------------------------------------------------------------------------
+
+interface PagedQuery {
+  range(from: number, to: number): PromiseLike<{ data: unknown[] | null; error: { message: string } | null }>;
+}
+
+/** Every row of a query, page by page so none are cut off at max-rows */
+async function fetchAllRows(
+  buildQuery: () => PagedQuery
+): Promise<{ data: EventRow[]; error: { message: string } | null }> {
+  const rows: EventRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await buildQuery().range(from, from + PAGE_SIZE - 1);
+    if (error) return { data: rows, error };
+    rows.push(...((data || []) as EventRow[]));
+    if (!data || data.length < PAGE_SIZE) return { data: rows, error: null };
+  }
+}
+
+function textResponse(status: number, body: string): Response {
+  return new Response(body, { status, headers: { 'Content-Type': 'text/plain; charset=utf-8' } });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    return textResponse(405, 'Method not allowed');
+  }
+  if (!supabaseAdmin) {
+    return textResponse(500, 'Feed is not configured');
+  }
+
+  const token = new URL(req.url).searchParams.get('token');
+  // Tokens are 64 hex characters; don't query for anything else
+  if (!token || !/^[0-9a-f]{64}$/.test(token)) {
+    return textResponse(404, 'Calendar not found');
+  }
+
+  const { data: user, error: userError } = await supabaseAdmin
+    .from('users')
+    .select('id, name, timezone')
+    .eq('ics_feed_token', token)
+    .maybeSingle();
+
+  if (userError) {
+    console.error('[ics-feed] User lookup failed:', userError.message);
+    return textResponse(500, 'Could not load calendar');
+  }
+  if (!user) {
+    return textResponse(404, 'Calendar not found');
+  }
+
+  const since = new Date(Date.now() - HISTORY_DAYS * DAY_MS).toISOString();
+  const [single, recurring] = await Promise.all([
+    fetchAllRows(() =>
+      supabaseAdmin
+        .from('calendar_events')
+        .select(EVENT_COLUMNS)
+        .eq('user_id', user.id)
+        .in('source', LOOP_SOURCES)
+        .is('recurrence_rule', null)
+        .is('recurrence_parent_id', null)
+        .neq('status', 'cancelled')
+        .gte('end_time', since)
+        .order('start_time', { ascending: true })
+        .order('id', { ascending: true })
+    ),
+    // Series and their overrides, however long ago they started
+    fetchAllRows(() =>
+      supabaseAdmin
+        .from('calendar_events')
+        .select(EVENT_COLUMNS)
+        .eq('user_id', user.id)
+        .in('source', LOOP_SOURCES)
+        .or('recurrence_rule.not.is.null,recurrence_parent_id.not.is.null')
+        .order('id', { ascending: true })
+    ),
+  ]);
+
+  const error = single.error || recurring.error;
+  if (error) {
+    console.error('[ics-feed] Event lookup failed:', error.message);
+    return textResponse(500, 'Could not load calendar');
+  }
+
+  const userTimeZone = isValidTimezone(user.timezone) ? user.timezone : 'UTC';
+  const rows = [...single.data, ...recurring.data];
+  const body = buildFeed(user.name ? `${user.name}'s Loop` : 'Loop', rows, userTimeZone);
+
+  return new Response(req.method === 'HEAD' ? null : body, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="loop.ics"',
+      'Cache-Control': 'private, max-age=900',
+    },
+  });
+});
@@ -43,6 +43,8 @@ export interface RecommendationScore {
   collaborativeScore: number; // 0-10
   sponsorBoost: number; // 0-30% boost
   finalScore: number; // Total with sponsor boost
+  // Per-signal contributions from the scoring pipeline (what actually fired)
+  signals?: import('@/services/scoring-pipeline').SignalContribution[];
 }
 
 export interface GroupMemberMatchInfo {
@@ -80,7 +82,7 @@ export interface Recommendation {
   isSponsored: boolean;
   isCurated?: boolean; // True for hand-curated "Loop Pick" recommendations
   curatorName?: string; // Curator attribution (e.g., "Sarah, Dallas local")
-  cardType?: 'ai_curated' | 'discovery' | 'upgrade_prompt' | 'section_header' | 'insights_nudge' | 'radar_alert' | 'hot_drop'; // Blended feed card type
+  cardType?: 'ai_curated' | 'discovery' | 'upgrade_prompt' | 'section_header' | 'insights_nudge' | 'radar_alert' | 'radar_digest' | 'hot_drop'; // Blended feed card type
   showInsights?: boolean; // Whether to show AI insight elements (match score, explanation, time chip, Loop Pick)
   commentsCount?: number; // Real comment count from DB (overrides mock)
   score?: number;
@@ -89,6 +91,7 @@ export interface Recommendation {
   businessHours?: any; // Google opening_hours object
   hasEstimatedHours?: boolean; // True if hours are estimated vs from Google
   suggestedTime?: Date; // Recommended visit time when place is open
+  event_metadata?: Partial<EventMetadata>; // Ticketmaster event data (ticket buttons, event dedup)
   // Date-filtered recommendation context (present when user selects a future date)
   dateContext?: import('./time-slots').DateContext;
   // Group planning context
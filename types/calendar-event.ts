@@ -14,6 +14,7 @@ export interface LoopRouting {
     longitude: number;
   } | null;                               // Where this event starts from (home or previous event)
   route_type: 'single' | 'chained';       // Single round trip or multi-stop chain
+  travel_mode?: 'drive' | 'transit' | 'walk' | 'bike';  // Mode the departure time was computed for
 }
 
 export interface CalendarEvent {
@@ -36,12 +37,23 @@ export interface CalendarEvent {
   start_time: string;
   end_time: string;
   all_day: boolean;
+  timezone?: string | null;   // IANA zone the event takes place in; null = the user's
+
+  // Recurrence
+  recurrence_rule?: string | null;            // RFC 5545 RRULE; the row is the first occurrence
+  recurrence_exdates?: string[] | null;       // Occurrence starts removed from the series
+  recurrence_parent_id?: string | null;       // Series this row overrides one occurrence of
+  recurrence_original_start?: string | null;  // Start of the occurrence it replaces
+  recurrence_series_id?: string;              // Set on expanded occurrences (id is synthetic)
+  occurrence_start?: string;                  // Set on expanded occurrences
 
   // Source
-  source: 'manual' | 'recommendation' | 'google_calendar' | 'apple_calendar' | 'group_plan';
+  source: 'manual' | 'recommendation' | 'google_calendar' | 'apple_calendar' | 'group_plan' | 'ics_import';
   activity_id?: string;
   external_calendar_id?: string;
   external_event_id?: string;
+  ics_uid?: string | null;      // UID of the imported iCalendar VEVENT
+  group_plan_id?: string | null; // Group plan it was added from (source 'group_plan')
 
   // Status
   status: 'scheduled' | 'completed' | 'cancelled' | 'no_show';
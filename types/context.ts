@@ -5,6 +5,8 @@
  * life context: trips, social events, schedule gaps, and routines.
  */
 
+import type { RecurringEventSuggestion } from '@/services/recurrence';
+
 // ============================================================================
 // CONTEXT TYPES
 // ============================================================================
@@ -19,6 +21,7 @@ export interface TripContext {
     lat: number;
     lng: number;
   };
+  destinationTimezone: string; // IANA zone at the destination, e.g. "America/New_York"
   startDate: Date;
   endDate: Date;
   calendarEventIds: string[]; // IDs of events during trip
@@ -202,11 +205,12 @@ export interface ContextDetectionParams {
     lat: number;
     lng: number;
   };
+  userTimezone?: string;      // Home IANA zone (users.timezone); default: device zone
   lookaheadDays?: number;     // Default: 14 days
   includeSocial?: boolean;    // Default: true
   includeSchedule?: boolean;  // Default: true
   includeTrips?: boolean;     // Default: true
-  includeRoutines?: boolean;  // Default: false (Phase 2)
+  includeRoutines?: boolean;  // Default: false; adds routineSuggestions
 }
 
 /**
@@ -217,5 +221,6 @@ export interface ContextDetectionResult {
   detectedTrips: TripContext[];
   detectedSocialEvents: SocialContext[];
   detectedGaps: ScheduleContext[];
+  routineSuggestions?: RecurringEventSuggestion[];  // Repeated manual events to make recurring
   detectionTimestamp: Date;
 }
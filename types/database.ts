@@ -48,6 +48,9 @@ export interface Database {
           last_refresh_at: string | null
           // Phase 3: Business accounts
           account_type: 'personal' | 'business'
+          timezone: string | null // IANA zone
+          ics_feed_token: string | null // Secret for the calendar subscription URL
+          preferred_travel_mode: 'drive' | 'transit' | 'walk' | 'bike'
         }
         Insert: {
           id?: string
@@ -81,6 +84,9 @@ export interface Database {
           referral_credits_cents?: number
           last_refresh_at?: string | null
           account_type?: 'personal' | 'business'
+          timezone?: string | null
+          ics_feed_token?: string | null
+          preferred_travel_mode?: 'drive' | 'transit' | 'walk' | 'bike'
         }
         Update: {
           id?: string
@@ -114,6 +120,9 @@ export interface Database {
           referral_credits_cents?: number
           last_refresh_at?: string | null
           account_type?: 'personal' | 'business'
+          timezone?: string | null
+          ics_feed_token?: string | null
+          preferred_travel_mode?: 'drive' | 'transit' | 'walk' | 'bike'
         }
       }
       calendar_events: {
@@ -128,12 +137,19 @@ export interface Database {
           start_time: string
           end_time: string
           all_day: boolean
-          source: 'manual' | 'recommendation' | 'google_calendar' | 'apple_calendar' | 'group_plan'
+          source: 'manual' | 'recommendation' | 'google_calendar' | 'apple_calendar' | 'group_plan' | 'ics_import'
           activity_id: string | null
           external_calendar_id: string | null
           external_event_id: string | null
           status: 'scheduled' | 'completed' | 'cancelled' | 'no_show'
           completed_at: string | null
+          timezone: string | null // IANA zone the event takes place in; null = the user's
+          recurrence_rule: string | null // RFC 5545 RRULE; null = single event
+          recurrence_exdates: string[] // Occurrence starts removed from the series
+          recurrence_parent_id: string | null // Series this row overrides one occurrence of
+          recurrence_original_start: string | null
+          ics_uid: string | null // UID of the imported iCalendar VEVENT
+          group_plan_id: string | null // Group plan the event was added from
           created_at: string
           updated_at: string
         }
@@ -148,12 +164,19 @@ export interface Database {
           start_time: string
           end_time: string
           all_day?: boolean
-          source?: 'manual' | 'recommendation' | 'google_calendar' | 'apple_calendar' | 'group_plan'
+          source?: 'manual' | 'recommendation' | 'google_calendar' | 'apple_calendar' | 'group_plan' | 'ics_import'
           activity_id?: string | null
           external_calendar_id?: string | null
           external_event_id?: string | null
           status?: 'scheduled' | 'completed' | 'cancelled' | 'no_show'
           completed_at?: string | null
+          timezone?: string | null
+          recurrence_rule?: string | null
+          recurrence_exdates?: string[]
+          recurrence_parent_id?: string | null
+          recurrence_original_start?: string | null
+          ics_uid?: string | null
+          group_plan_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -168,12 +191,19 @@ export interface Database {
           start_time?: string
           end_time?: string
           all_day?: boolean
-          source?: 'manual' | 'recommendation' | 'google_calendar' | 'apple_calendar' | 'group_plan'
+          source?: 'manual' | 'recommendation' | 'google_calendar' | 'apple_calendar' | 'group_plan' | 'ics_import'
           activity_id?: string | null
           external_calendar_id?: string | null
           external_event_id?: string | null
           status?: 'scheduled' | 'completed' | 'cancelled' | 'no_show'
           completed_at?: string | null
+          timezone?: string | null
+          recurrence_rule?: string | null
+          recurrence_exdates?: string[]
+          recurrence_parent_id?: string | null
+          recurrence_original_start?: string | null
+          ics_uid?: string | null
+          group_plan_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -61,6 +61,8 @@ export interface UserHook {
   entityName?: string;
   /** External ID: Google place_id, Ticketmaster artist ID, TMDb person_id */
   entityId?: string;
+  /** What entityId refers to (artist and venue radars); 'name' = no confident match, matched by name */
+  entitySource?: RadarEntitySource | 'name';
   /** For film_talent: 'Acting', 'Directing', 'Producing', 'Writing' */
   talentDepartment?: string;
   /** Interest category for category hooks */
@@ -73,6 +75,10 @@ export interface UserHook {
   friendIds?: string[];
   /** Proximity radius in miles (default 1.0) */
   proximityRadiusMiles?: number;
+  /** Extra cities to watch besides the user's home city (Plus only) */
+  watchCities?: RadarCity[];
+  /** Alerts the user said weren't what they meant; similar events are skipped */
+  suppressedMatches?: SuppressedMatch[];
 
   /** Whether this radar is currently active */
   isActive: boolean;
@@ -85,6 +91,42 @@ export interface UserHook {
   updatedAt: string;
 }
 
+/** Where an artist or venue radar's canonical ID comes from */
+export type RadarEntitySource = 'ticketmaster_attraction' | 'ticketmaster_venue' | 'google_place';
+
+/** One option in the add-radar disambiguation picker */
+export interface RadarEntityCandidate {
+  id: string;
+  source: RadarEntitySource;
+  name: string;
+  /** Genre, or city and state — whatever tells same-named entities apart */
+  subtitle?: string;
+  imageUrl?: string;
+  /** Name similarity to the search (0-1) */
+  score: number;
+}
+
+/** A "this isn't what I meant" alert, kept on the radar to skip similar events */
+export interface SuppressedMatch {
+  /** Source event ID of the rejected alert */
+  eventKey?: string;
+  name: string;
+  venue?: string;
+  /** Ticketmaster performers on the rejected event */
+  attractionIds?: string[];
+  createdAt: string;
+}
+
+/** A city a radar is evaluated in */
+export interface RadarCity {
+  city: string;
+  /** State code, e.g. 'TX' */
+  state: string;
+  /** City center, used for travel distance in alert copy */
+  lat?: number;
+  lng?: number;
+}
+
 // ============================================================================
 // HOOK NOTIFICATION (a triggered alert)
 // ============================================================================
@@ -103,6 +145,10 @@ export interface HookNotification {
   eventData?: RadarEventData;
   /** Place details for keyword radar notifications */
   placeData?: PlaceRadarData;
+  /** Which friend is nearby, for proximity radar notifications */
+  proximityData?: ProximityRadarData;
+  /** Where the alert came from: 'ticketmaster', 'bandsintown', 'meetup_rss', 'tmdb', 'google_places' or 'friend_proximity' */
+  source?: string;
 
   status: HookNotificationStatus;
   sentAt?: string;
@@ -110,10 +156,25 @@ export interface HookNotification {
   expiresAt?: string;
   /** When push notification was sent (Plus only) */
   pushSentAt?: string;
+  /** Why it wasn't pushed on its own: held for a digest, over budget, or bundled */
+  delivery?: HookNotificationDelivery;
+  /** Digest this alert was bundled into */
+  digestId?: string;
+  /** Source event ID (CachedEvent.id) */
+  eventKey?: string;
+  /** Set when the user said the alert wasn't what they meant */
+  feedback?: 'false_positive';
+  /** First alert for the event, or a follow-up on a watched event */
+  alertKind?: RadarAlertKind;
 
   createdAt: string;
 }
 
+export type HookNotificationDelivery = 'held' | 'feed_only' | 'digested';
+
+/** 'new_event' = first alert; the rest are follow-ups on an alerted event */
+export type RadarAlertKind = 'new_event' | 'onsale' | 'presale' | 'price_drop' | 'low_inventory';
+
 /** Place data for keyword radar notifications (non-event) */
 export interface PlaceRadarData {
   placeId: string;
@@ -128,6 +189,17 @@ export interface PlaceRadarData {
   matchedKeyword: string;
 }
 
+/** Friend details for proximity radar notifications */
+export interface ProximityRadarData {
+  friendId: string;
+  friendName: string;
+  /** Omitted when the friend only shares free/busy ('busy_only') */
+  distanceMiles?: number;
+  /** How long both are free from the time of the alert */
+  freeUntil: string;
+  visibility: 'full' | 'busy_only';
+}
+
 /** Event data embedded in a notification for card rendering */
 export interface RadarEventData {
   name: string;
@@ -144,8 +216,16 @@ export interface RadarEventData {
   source?: string;
   /** Distance from user in miles */
   distanceMiles?: number;
+  /** City the event was found in, when it isn't the user's home city */
+  watchCity?: string;
+  /** Miles from the user's home city to the watch city */
+  travelMiles?: number;
   /** Google place_id for venue lookup */
   googlePlaceId?: string;
+  /** Ticketmaster performer IDs */
+  attractionIds?: string[];
+  /** Ticketmaster venue ID */
+  venueId?: string;
 }
 
 // ============================================================================
@@ -199,6 +279,80 @@ export interface CachedEvent {
   ticketUrl?: string;
   source: string;
   category?: string;
+  /** Plain-text description (feed events), used for keyword matching */
+  description?: string;
+  /** Feed and item categories (feed events), used for category matching */
+  tags?: string[];
+  /** Ticketmaster performers (IDs and names, in the same order) */
+  attractionIds?: string[];
+  performers?: string[];
+  /** Ticketmaster venue ID */
+  venueId?: string;
+  /** Ticket sale state, where the source exposes it */
+  saleStatus?: EventSaleStatus;
+  /** General on-sale start (ISO) */
+  onSaleAt?: string;
+  presales?: EventPresale[];
+  /** Only set when the source reports limited or no tickets */
+  availability?: EventAvailability;
+}
+
+export type EventSaleStatus = 'onsale' | 'offsale' | 'cancelled' | 'postponed' | 'rescheduled';
+
+export type EventAvailability = 'available' | 'limited' | 'sold_out';
+
+export interface EventPresale {
+  name: string;
+  /** ISO */
+  startAt: string;
+  endAt?: string;
+}
+
+// ============================================================================
+// EVENT WATCHES (follow-up alerts on alerted events)
+// ============================================================================
+
+/** The sale and price fields of an event at one point in time */
+export interface RadarEventSnapshot {
+  priceMin?: number;
+  priceMax?: number;
+  currency?: string;
+  saleStatus?: EventSaleStatus;
+  onSaleAt?: string;
+  presales?: EventPresale[];
+  availability?: EventAvailability;
+  capturedAt: string;
+}
+
+/** An event a user was alerted to, watched for on-sale, presale, price and inventory changes */
+export interface RadarEventWatch {
+  id: string;
+  userId: string;
+  hookId: string;
+  /** The first alert for the event */
+  notificationId?: string;
+  eventKey: string;
+  eventName: string;
+  eventDate: string;
+  /** Alert data for follow-up cards */
+  eventData: RadarEventData;
+  /** Alert when the lowest price is at or under this */
+  priceThreshold?: number;
+  lastSnapshot?: RadarEventSnapshot;
+  /** Follow-ups already sent (e.g. 'onsale', 'presale:verified_fan', 'price:40') */
+  firedTriggers: string[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+/** A follow-up alert produced by comparing two snapshots */
+export interface RadarFollowUp {
+  kind: Exclude<RadarAlertKind, 'new_event'>;
+  /** Fires once per watch */
+  triggerKey: string;
+  title: string;
+  body: string;
 }
 
 // ============================================================================
@@ -228,6 +382,8 @@ export interface RadarLimits {
   priceThreshold: boolean;
   /** Days of history visible */
   historyDays: number;
+  /** Extra watch cities per radar, besides the home city */
+  watchCities: number;
 }
 
 export const RADAR_LIMITS: Record<'free' | 'plus', RadarLimits> = {
@@ -243,6 +399,7 @@ export const RADAR_LIMITS: Record<'free' | 'plus', RadarLimits> = {
     customKeywords: false,
     priceThreshold: false,
     historyDays: 7,
+    watchCities: 0,
   },
   plus: {
     total: Infinity,
@@ -256,9 +413,82 @@ export const RADAR_LIMITS: Record<'free' | 'plus', RadarLimits> = {
     customKeywords: true,
     priceThreshold: true,
     historyDays: Infinity,
+    watchCities: 3,
   },
 };
 
+// ============================================================================
+// DELIVERY PREFERENCES (Plus push delivery)
+// ============================================================================
+
+export type RadarDeliveryMode = 'instant' | 'daily_digest' | 'weekly_digest';
+
+/** How radar alerts reach a Plus user (users.radar_delivery) */
+export interface RadarDeliveryPreferences {
+  mode: RadarDeliveryMode;
+  /** IANA timezone quiet hours and digest times are read in */
+  timezone: string;
+  quietHoursEnabled: boolean;
+  /** Local "HH:MM"; may wrap past midnight (22:00 → 08:00) */
+  quietHoursStart: string;
+  quietHoursEnd: string;
+  /** Local hour (0-23) digests go out */
+  digestHour: number;
+  /** Weekday for weekly digests (0 = Sunday) */
+  digestDay: number;
+  /** Most individual radar pushes per local day */
+  maxPushesPerDay: number;
+}
+
+export const DEFAULT_RADAR_DELIVERY: RadarDeliveryPreferences = {
+  mode: 'instant',
+  timezone: 'America/Chicago',
+  quietHoursEnabled: false,
+  quietHoursStart: '22:00',
+  quietHoursEnd: '08:00',
+  digestHour: 9,
+  digestDay: 0,
+  maxPushesPerDay: 10,
+};
+
+/** Which radar types win when the daily push budget runs short (lower first) */
+export const HOOK_PUSH_PRIORITY: Record<HookType, number> = {
+  proximity: 0,
+  artist: 1,
+  venue: 2,
+  film_talent: 3,
+  keyword: 4,
+  category: 5,
+};
+
+export type RadarDigestReason = 'daily' | 'weekly' | 'quiet_hours';
+
+/** One bundled alert inside a digest */
+export interface RadarDigestItem {
+  notificationId: string;
+  hookId: string;
+  hookType?: HookType;
+  title: string;
+  body: string;
+  venue?: string;
+  date?: string;
+  imageUrl?: string;
+}
+
+/** Several held alerts bundled into one push and one feed card */
+export interface RadarDigest {
+  id: string;
+  userId: string;
+  reason: RadarDigestReason;
+  title: string;
+  body: string;
+  notificationIds: string[];
+  items: RadarDigestItem[];
+  status: 'pending' | 'viewed' | 'dismissed';
+  pushSentAt?: string;
+  createdAt: string;
+}
+
 // ============================================================================
 // CREATE/UPDATE PARAMS
 // ============================================================================
@@ -268,12 +498,15 @@ export interface CreateRadarParams {
   hookType: HookType;
   entityName?: string;
   entityId?: string;
+  /** What entityId refers to; 'name' when the user kept an unresolved name */
+  entitySource?: RadarEntitySource | 'name';
   talentDepartment?: string;
   category?: string;
   customKeywords?: string[];
   searchKeyword?: string;
   friendIds?: string[];
   proximityRadiusMiles?: number;
+  watchCities?: RadarCity[];
 }
 
 // ============================================================================
@@ -34,6 +34,12 @@ export interface CalendarEvent {
     address?: string;
   };
   category?: string;
+  /** Set on a recurring series: startTime/endTime are the first occurrence */
+  recurrence?: {
+    rule: string;
+    timeZone?: string | null;
+    exdates?: string[] | null;
+  };
 }
 
 /** Result of matching an activity to a time slot */
@@ -108,3 +114,40 @@ export interface DatePill {
   dayOfWeek: string;
   dayOfMonth: number;
 }
+
+/** Meal windows a multi-day plan keeps free for food */
+export type MealKind = 'lunch' | 'dinner';
+
+/** One stop of a multi-day plan */
+export interface PlanStop {
+  /** The recommendation scheduled at this stop */
+  recommendation: import('./activity').Recommendation;
+  /** Arrival time at the venue */
+  start: Date;
+  /** Departure time (typical visit duration for the category) */
+  end: Date;
+  /** Drive time from the previous stop, calendar event or home (minutes) */
+  travelMinutes: number;
+  /** Set when this stop is the day's lunch or dinner */
+  meal?: MealKind;
+}
+
+/** Itinerary for a single day of a multi-day plan */
+export interface DayPlan {
+  date: Date;
+  stops: PlanStop[];
+  /** e.g. "Saturday — 3 stops, lunch + dinner" */
+  summary: string;
+}
+
+/** A complete multi-day itinerary, one of several ranked alternatives */
+export interface WeekendPlan {
+  /** Stable id built from the stops (same stops → same id) */
+  id: string;
+  days: DayPlan[];
+  /** Ranking score: stop quality minus travel and repetition penalties */
+  score: number;
+  totalTravelMinutes: number;
+  /** Distinct categories covered, in visit order */
+  categories: string[];
+}
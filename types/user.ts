@@ -53,6 +53,9 @@ export interface AIProfile {
   time_preferences: string[];
   distance_tolerance: 'low' | 'medium' | 'high';
   calendar_patterns?: CalendarPattern[];
+  factor_weights?: Record<string, number>; // "Why this?" down-weights, e.g. { friends: 0.5 }
+  negative_feedback?: import('@/services/negative-feedback').NegativeFeedbackEntry[]; // "Not interested because…" reasons, decaying
+  time_of_day_model?: import('@/services/time-preferences').TimeOfDayModel; // Learned when the user does each category
 }
 
 export interface User {
@@ -109,6 +109,10 @@ class Analytics {
     this.track('recommendation_interaction', { accepted, confidence_score: score }, userId);
   }
 
+  trackExperimentExposure(userId: string, experiment: string, variant: string): void {
+    this.track('experiment_exposure', { experiment, variant }, userId);
+  }
+
   getSummary(): { totalEvents: number; eventTypes: Record<string, number> } {
     const eventTypes: Record<string, number> = {};
     this.events.forEach((event) => {
@@ -163,3 +167,7 @@ export const trackFriendRequest = (userId: string, action: 'sent' | 'accepted')
 export const trackFeedback = (userId: string, rating: 'thumbs_up' | 'thumbs_down', category: string) => {
   analytics.trackFeedbackSubmitted(userId, rating, category);
 };
+
+export const trackExperimentExposure = (userId: string, experiment: string, variant: string) => {
+  analytics.trackExperimentExposure(userId, experiment, variant);
+};
@@ -1,9 +1,13 @@
 /**
  * Business Hours Utility
  *
- * Handles business hours validation, estimation, and scheduling logic
+ * Handles business hours validation, estimation, and scheduling logic.
+ * Hours are wall-clock times at the venue; functions take the venue's
+ * IANA timezone and fall back to the device's.
  */
 
+import { addZonedDays, getZonedParts, setZonedTime } from '@/utils/timezone';
+
 export interface BusinessHours {
   monday?: DayHours;
   tuesday?: DayHours;
@@ -211,20 +215,48 @@ export function getBusinessHours(
   };
 }
 
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+/**
+ * Day of week and HH:MM at `dateTime` in the business's timezone.
+ * Without a timezone the device's is used.
+ */
+function getWallClock(dateTime: Date, timeZone?: string): { dayName: typeof DAY_NAMES[number]; time: string } {
+  const local = timeZone
+    ? getZonedParts(dateTime, timeZone)
+    : { weekday: dateTime.getDay(), hour: dateTime.getHours(), minute: dateTime.getMinutes() };
+
+  return {
+    dayName: DAY_NAMES[local.weekday],
+    time: `${String(local.hour).padStart(2, '0')}:${String(local.minute).padStart(2, '0')}`,
+  };
+}
+
+/** `hour:minute` on the day `daysAhead` after `fromTime`, in the business's timezone */
+function atLocalTime(fromTime: Date, daysAhead: number, hour: number, minute: number, timeZone?: string): Date {
+  if (timeZone) {
+    return setZonedTime(addZonedDays(fromTime, daysAhead, timeZone), hour, minute, timeZone);
+  }
+  const date = new Date(fromTime);
+  date.setDate(date.getDate() + daysAhead);
+  date.setHours(hour, minute, 0, 0);
+  return date;
+}
+
 /**
  * Check if a business is open at a specific date/time
+ *
+ * @param timeZone - The business's IANA timezone. Hours are local to the
+ *   venue, so a venue in another zone must pass its own.
  */
-export function isOpenAt(hours: BusinessHours, dateTime: Date): boolean {
-  const dayNames = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
-  const dayName = dayNames[dateTime.getDay()];
+export function isOpenAt(hours: BusinessHours, dateTime: Date, timeZone?: string): boolean {
+  const { dayName, time: currentTime } = getWallClock(dateTime, timeZone);
   const dayHours = hours[dayName];
 
   if (!dayHours || dayHours.isClosed || !dayHours.open || !dayHours.close) {
     return false;
   }
 
-  const currentTime = `${String(dateTime.getHours()).padStart(2, '0')}:${String(dateTime.getMinutes()).padStart(2, '0')}`;
-
   // Handle closing times after midnight (e.g., bar closes at 2am)
   if (dayHours.close < dayHours.open) {
     return currentTime >= dayHours.open || currentTime <= dayHours.close;
@@ -237,25 +269,19 @@ export function isOpenAt(hours: BusinessHours, dateTime: Date): boolean {
  * Get the next available opening time for a business
  * Returns null if business is currently open
  */
-export function getNextOpeningTime(hours: BusinessHours, fromTime: Date = new Date()): Date | null {
-  if (isOpenAt(hours, fromTime)) {
+export function getNextOpeningTime(hours: BusinessHours, fromTime: Date = new Date(), timeZone?: string): Date | null {
+  if (isOpenAt(hours, fromTime, timeZone)) {
     return null; // Already open
   }
 
-  const dayNames = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
-
   // Check next 7 days
   for (let i = 0; i < 7; i++) {
-    const checkDate = new Date(fromTime);
-    checkDate.setDate(checkDate.getDate() + i);
-
-    const dayName = dayNames[checkDate.getDay()];
+    const { dayName } = getWallClock(atLocalTime(fromTime, i, 12, 0, timeZone), timeZone);
     const dayHours = hours[dayName];
 
     if (dayHours && !dayHours.isClosed && dayHours.open) {
       const [openHour, openMinute] = dayHours.open.split(':').map(Number);
-      const openingTime = new Date(checkDate);
-      openingTime.setHours(openHour, openMinute, 0, 0);
+      const openingTime = atLocalTime(fromTime, i, openHour, openMinute, timeZone);
 
       if (openingTime > fromTime) {
         return openingTime;
@@ -272,13 +298,11 @@ export function getNextOpeningTime(hours: BusinessHours, fromTime: Date = new Da
 export function suggestVisitTime(
   hours: BusinessHours,
   preferredTime?: 'morning' | 'afternoon' | 'evening',
-  fromTime: Date = new Date()
+  fromTime: Date = new Date(),
+  timeZone?: string
 ): Date {
-  const dayNames = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
-
   // Try today first
-  const todayName = dayNames[fromTime.getDay()];
-  const todayHours = hours[todayName];
+  const todayHours = hours[getWallClock(fromTime, timeZone).dayName];
 
   if (todayHours && !todayHours.isClosed && todayHours.open && todayHours.close) {
     const [openHour] = todayHours.open.split(':').map(Number);
@@ -294,17 +318,16 @@ export function suggestVisitTime(
       suggestedHour = Math.min(closeHour - 2, 19); // 7pm or 2hrs before close
     }
 
-    const suggestedTime = new Date(fromTime);
-    suggestedTime.setHours(suggestedHour, 0, 0, 0);
+    const suggestedTime = atLocalTime(fromTime, 0, suggestedHour, 0, timeZone);
 
     // Make sure it's actually during business hours
-    if (isOpenAt(hours, suggestedTime)) {
+    if (isOpenAt(hours, suggestedTime, timeZone)) {
       return suggestedTime;
     }
   }
 
   // Fall back to next opening time
-  return getNextOpeningTime(hours, fromTime) || fromTime;
+  return getNextOpeningTime(hours, fromTime, timeZone) || fromTime;
 }
 
 /**
@@ -328,8 +351,6 @@ export function formatBusinessHours(dayHours: DayHours | undefined): string {
 /**
  * Get today's hours for display
  */
-export function getTodayHours(hours: BusinessHours, date: Date = new Date()): DayHours | undefined {
-  const dayNames = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
-  const dayName = dayNames[date.getDay()];
-  return hours[dayName];
+export function getTodayHours(hours: BusinessHours, date: Date = new Date(), timeZone?: string): DayHours | undefined {
+  return hours[getWallClock(date, timeZone).dayName];
 }
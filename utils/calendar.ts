@@ -1,27 +1,32 @@
 /**
  * Calendar utility functions
+ *
+ * Functions that bucket or place events by day or hour take an optional
+ * IANA timezone (the user's). Without one they use the device's zone.
  */
 
 import { CalendarEvent } from '@/types/database';
 import { BrandColors } from '@/constants/brand';
 import { CATEGORY_COLORS, CATEGORY_ICONS, EventCategory, EventWithColor, MarkedDate } from '@/constants/calendar';
+import { formatZonedDateKey, getZonedParts, isSameZonedDay } from '@/utils/timezone';
 
 /**
  * Format time for display (e.g., "9:00 AM")
  */
-export function formatTime(date: Date): string {
+export function formatTime(date: Date, timeZone?: string): string {
   return date.toLocaleTimeString('en-US', {
     hour: 'numeric',
     minute: '2-digit',
     hour12: true,
+    ...(timeZone ? { timeZone } : {}),
   });
 }
 
 /**
  * Format date range (e.g., "9:00 AM - 11:00 AM")
  */
-export function formatTimeRange(start: Date, end: Date): string {
-  return `${formatTime(start)} - ${formatTime(end)}`;
+export function formatTimeRange(start: Date, end: Date, timeZone?: string): string {
+  return `${formatTime(start, timeZone)} - ${formatTime(end, timeZone)}`;
 }
 
 /**
@@ -29,7 +34,8 @@ export function formatTimeRange(start: Date, end: Date): string {
  * Using toISOString() would return UTC, causing events near midnight
  * to appear on the wrong day for users west of UTC.
  */
-export function formatDateKey(date: Date): string {
+export function formatDateKey(date: Date, timeZone?: string): string {
+  if (timeZone) return formatZonedDateKey(date, timeZone);
   const y = date.getFullYear();
   const m = String(date.getMonth() + 1).padStart(2, '0');
   const d = String(date.getDate()).padStart(2, '0');
@@ -39,7 +45,8 @@ export function formatDateKey(date: Date): string {
 /**
  * Check if two dates are the same day
  */
-export function isSameDay(date1: Date, date2: Date): boolean {
+export function isSameDay(date1: Date, date2: Date, timeZone?: string): boolean {
+  if (timeZone) return isSameZonedDay(date1, date2, timeZone);
   return (
     date1.getFullYear() === date2.getFullYear() &&
     date1.getMonth() === date2.getMonth() &&
@@ -84,11 +91,11 @@ export function convertToEventWithColor(event: CalendarEvent): EventWithColor {
 /**
  * Group events by date
  */
-export function groupEventsByDate(events: CalendarEvent[]): Map<string, EventWithColor[]> {
+export function groupEventsByDate(events: CalendarEvent[], timeZone?: string): Map<string, EventWithColor[]> {
   const grouped = new Map<string, EventWithColor[]>();
 
   events.forEach(event => {
-    const dateKey = formatDateKey(new Date(event.start_time));
+    const dateKey = formatDateKey(new Date(event.start_time), timeZone);
     const eventWithColor = convertToEventWithColor(event);
 
     if (!grouped.has(dateKey)) {
@@ -110,10 +117,11 @@ export function groupEventsByDate(events: CalendarEvent[]): Map<string, EventWit
  */
 export function createMarkedDates(
   events: CalendarEvent[],
-  selectedDate?: string
+  selectedDate?: string,
+  timeZone?: string
 ): Record<string, MarkedDate> {
   const markedDates: Record<string, MarkedDate> = {};
-  const grouped = groupEventsByDate(events);
+  const grouped = groupEventsByDate(events, timeZone);
 
   grouped.forEach((dayEvents, dateKey) => {
     // Create dots for all events (pill component caps visible segments)
@@ -145,12 +153,18 @@ export function createMarkedDates(
 /**
  * Get events for a specific date
  */
-export function getEventsForDate(events: CalendarEvent[], date: Date): EventWithColor[] {
-  const dateKey = formatDateKey(date);
-  const grouped = groupEventsByDate(events);
+export function getEventsForDate(events: CalendarEvent[], date: Date, timeZone?: string): EventWithColor[] {
+  const dateKey = formatDateKey(date, timeZone);
+  const grouped = groupEventsByDate(events, timeZone);
   return grouped.get(dateKey) || [];
 }
 
+/** Fractional hour of the day (14.5 = 2:30 PM) */
+function getHourOfDay(date: Date, timeZone?: string): number {
+  const local = timeZone ? getZonedParts(date, timeZone) : { hour: date.getHours(), minute: date.getMinutes() };
+  return local.hour + local.minute / 60;
+}
+
 /**
  * Calculate event position for timeline view
  * Returns top position (%) and height (%) for a day view
@@ -159,12 +173,13 @@ export function calculateEventPosition(
   startTime: Date,
   endTime: Date,
   dayStartHour = 6, // 6 AM
-  dayEndHour = 23    // 11 PM
+  dayEndHour = 23,   // 11 PM
+  timeZone?: string
 ): { top: number; height: number } {
   const totalHours = dayEndHour - dayStartHour;
 
-  const startHour = startTime.getHours() + startTime.getMinutes() / 60;
-  const endHour = endTime.getHours() + endTime.getMinutes() / 60;
+  const startHour = getHourOfDay(startTime, timeZone);
+  const endHour = getHourOfDay(endTime, timeZone);
 
   // Clamp to day bounds
   const clampedStart = Math.max(dayStartHour, Math.min(dayEndHour, startHour));
@@ -182,9 +197,10 @@ export function calculateEventPosition(
 export function getDefaultLocation(
   homeAddress: string | null,
   workAddress: string | null,
-  time?: Date
+  time?: Date,
+  timeZone?: string
 ): string | null {
-  const hour = time ? time.getHours() : new Date().getHours();
+  const hour = Math.floor(getHourOfDay(time || new Date(), timeZone));
 
   // Between 8 AM and 5 PM, default to work
   if (hour >= 8 && hour < 17) {
@@ -0,0 +1,685 @@
+/**
+ * iCalendar (RFC 5545) utility functions
+ *
+ * Parses and serializes .ics files: VCALENDAR with VEVENT and VTIMEZONE
+ * components, RRULE/EXDATE/RECURRENCE-ID, attendees and organizers.
+ *
+ * Times come out of the parser as instants (Dates). Zones are resolved in
+ * this order: an IANA TZID, a Windows zone name (Outlook), a TZID ending in
+ * an IANA name ("/mozilla.org/.../America/New_York"), the file's own
+ * VTIMEZONE definition, then the default zone. The serializer writes
+ * wall-clock times with TZID plus a VTIMEZONE for each zone used, so
+ * recurring events keep their local time across DST in other calendars.
+ */
+
+import {
+  getTimezoneAbbreviation,
+  getTimezoneOffsetMinutes,
+  getZonedParts,
+  isValidTimezone,
+  resolveTimezone,
+  zonedTimeToUtc,
+} from './timezone';
+
+export type ICalParticipationStatus = 'NEEDS-ACTION' | 'ACCEPTED' | 'DECLINED' | 'TENTATIVE' | 'DELEGATED';
+
+export interface ICalAttendee {
+  email?: string;
+  name?: string;
+  status?: ICalParticipationStatus;
+  /** REQ-PARTICIPANT, OPT-PARTICIPANT, CHAIR… */
+  role?: string;
+}
+
+export interface ICalEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  geo?: { latitude: number; longitude: number };
+  start: Date;
+  /** Exclusive; for all-day events the midnight after the last day */
+  end: Date;
+  allDay?: boolean;
+  /** IANA zone the times are written in (null = UTC) */
+  timeZone?: string | null;
+  /** RRULE value without the "RRULE:" prefix */
+  rrule?: string | null;
+  exdates?: Date[];
+  /** Set on an override of one occurrence of a recurring event */
+  recurrenceId?: Date;
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  organizer?: ICalAttendee;
+  attendees?: ICalAttendee[];
+  categories?: string[];
+  url?: string;
+  sequence?: number;
+  lastModified?: Date;
+}
+
+export interface ICalCalendar {
+  /** X-WR-CALNAME */
+  name?: string;
+  events: ICalEvent[];
+}
+
+export interface ParseICalOptions {
+  /** Zone for floating times and all-day dates (default: the device's) */
+  defaultTimeZone?: string | null;
+}
+
+export interface SerializeICalOptions {
+  /** DTSTAMP for every event (default: now) */
+  now?: Date;
+  /** X-PUBLISHED-TTL hint for subscribed feeds, e.g. "PT1H" */
+  refreshInterval?: string;
+}
+
+const PRODUCT_ID = '-//Loop//Loop Calendar//EN';
+const MAX_LINE_OCTETS = 75;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+/** Outlook/Exchange zone names seen in TZID, mapped to IANA */
+const WINDOWS_ZONES: Record<string, string> = {
+  'Eastern Standard Time': 'America/New_York',
+  'Central Standard Time': 'America/Chicago',
+  'Mountain Standard Time': 'America/Denver',
+  'US Mountain Standard Time': 'America/Phoenix',
+  'Pacific Standard Time': 'America/Los_Angeles',
+  'Alaskan Standard Time': 'America/Anchorage',
+  'Hawaiian Standard Time': 'Pacific/Honolulu',
+  'GMT Standard Time': 'Europe/London',
+  'W. Europe Standard Time': 'Europe/Berlin',
+  'Romance Standard Time': 'Europe/Paris',
+  'Central Europe Standard Time': 'Europe/Budapest',
+  'Tokyo Standard Time': 'Asia/Tokyo',
+  'China Standard Time': 'Asia/Shanghai',
+  'India Standard Time': 'Asia/Kolkata',
+  'AUS Eastern Standard Time': 'Australia/Sydney',
+  UTC: 'UTC',
+};
+
+// ============================================================================
+// TEXT ENCODING
+// ============================================================================
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+function quoteParam(value: string): string {
+  return /[:;,]/.test(value) ? `"${value.replace(/"/g, "'")}"` : value;
+}
+
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0) || 0;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+}
+
+/** Fold a content line at 75 octets (continuation lines start with a space) */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = utf8Length(char);
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+// ============================================================================
+// DATES
+// ============================================================================
+
+const pad = (n: number, width = 2) => String(Math.abs(n)).padStart(width, '0');
+
+function formatUtcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatLocalDateTime(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  return `${p.year}${pad(p.month)}${pad(p.day)}T${pad(p.hour)}${pad(p.minute)}00`;
+}
+
+function formatLocalDate(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  return `${p.year}${pad(p.month)}${pad(p.day)}`;
+}
+
+/** "+0900" / "-0500" */
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  return `${sign}${pad(Math.floor(Math.abs(minutes) / 60))}${pad(Math.abs(minutes) % 60)}`;
+}
+
+function parseOffset(value: string): number {
+  const match = /^([+-])(\d{2})(\d{2})/.exec(value);
+  if (!match) return 0;
+  const minutes = Number(match[2]) * 60 + Number(match[3]);
+  return match[1] === '-' ? -minutes : minutes;
+}
+
+interface LocalDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+function parseLocalDateTime(value: string): LocalDateTime | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?)?/.exec(value);
+  if (!match) return null;
+  return {
+    year: Number(match[1]),
+    month: Number(match[2]),
+    day: Number(match[3]),
+    hour: Number(match[4] || 0),
+    minute: Number(match[5] || 0),
+    second: Number(match[6] || 0),
+  };
+}
+
+/** PT1H30M, P1D, -PT15M → milliseconds */
+function parseDuration(value: string): number {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return 0;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms =
+    (Number(weeks || 0) * 7 + Number(days || 0)) * DAY_MS +
+    (Number(hours || 0) * 60 + Number(minutes || 0)) * MINUTE_MS +
+    Number(seconds || 0) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+// ============================================================================
+// VTIMEZONE
+// ============================================================================
+
+interface Observance {
+  /** Onset as written: local time in the offset before the change */
+  start: LocalDateTime;
+  offsetFrom: number;
+  offsetTo: number;
+  /** Yearly rule: month plus nth (or -1 = last) weekday */
+  rule?: { month: number; weekday?: number; ordinal?: number };
+}
+
+interface ZoneTransition {
+  at: Date;
+  offsetFrom: number;
+  offsetTo: number;
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/** Day of month of the nth (negative: from the end) weekday */
+function nthWeekdayOfMonth(year: number, month: number, weekday: number, ordinal: number): number {
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (ordinal > 0) {
+    const first = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+    return 1 + ((weekday - first + 7) % 7) + (ordinal - 1) * 7;
+  }
+  const last = new Date(Date.UTC(year, month - 1, daysInMonth)).getUTCDay();
+  return daysInMonth - ((last - weekday + 7) % 7) + (ordinal + 1) * 7;
+}
+
+/** Offset changes of an IANA zone during a year */
+function findTransitions(timeZone: string, year: number): ZoneTransition[] {
+  const transitions: ZoneTransition[] = [];
+  const yearStart = Date.UTC(year, 0, 1);
+  const yearEnd = Date.UTC(year + 1, 0, 1);
+  let previous = getTimezoneOffsetMinutes(new Date(yearStart), timeZone);
+
+  for (let t = yearStart + DAY_MS; t <= yearEnd; t += DAY_MS) {
+    const offset = getTimezoneOffsetMinutes(new Date(t), timeZone);
+    if (offset === previous) continue;
+
+    // Narrow the change down to the minute
+    let low = t - DAY_MS;
+    let high = t;
+    while (high - low > MINUTE_MS) {
+      const mid = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS;
+      if (getTimezoneOffsetMinutes(new Date(mid), timeZone) === previous) low = mid;
+      else high = mid;
+    }
+    transitions.push({ at: new Date(high), offsetFrom: previous, offsetTo: offset });
+    previous = offset;
+  }
+  return transitions;
+}
+
+/** VTIMEZONE for an IANA zone, with yearly rules taken from `year` */
+function serializeVTimezone(timeZone: string, year: number): string[] {
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+  const transitions = findTransitions(timeZone, year);
+
+  if (transitions.length === 0) {
+    const offset = formatOffset(getTimezoneOffsetMinutes(new Date(Date.UTC(year, 0, 1)), timeZone));
+    lines.push(
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      `TZNAME:${getTimezoneAbbreviation(new Date(Date.UTC(year, 0, 1)), timeZone)}`,
+      'END:STANDARD'
+    );
+  }
+
+  for (const transition of transitions) {
+    // Onset in local time before the change, as RFC 5545 wants
+    const local = new Date(transition.at.getTime() + transition.offsetFrom * MINUTE_MS);
+    const day = local.getUTCDate();
+    const month = local.getUTCMonth() + 1;
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    const ordinal = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+    const kind = transition.offsetTo > transition.offsetFrom ? 'DAYLIGHT' : 'STANDARD';
+
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${formatUtcDateTime(local).replace('Z', '')}`,
+      `RRULE:FREQ=YEARLY;BYMONTH=${month};BYDAY=${ordinal}${WEEKDAY_CODES[local.getUTCDay()]}`,
+      `TZOFFSETFROM:${formatOffset(transition.offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(transition.offsetTo)}`,
+      `TZNAME:${getTimezoneAbbreviation(transition.at, timeZone)}`,
+      `END:${kind}`
+    );
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+/** Minutes of a local time on a naive UTC scale, for comparing local times */
+function localMinutes(t: { year: number; month: number; day: number; hour: number; minute: number }): number {
+  return Date.UTC(t.year, t.month - 1, t.day, t.hour, t.minute) / MINUTE_MS;
+}
+
+/** Onset of an observance in a given year (local time), if it has one */
+function observanceOnset(observance: Observance, year: number): number | null {
+  const { start, rule } = observance;
+  if (!rule) return year === start.year ? localMinutes(start) : null;
+  if (year < start.year) return null;
+
+  const day =
+    rule.weekday !== undefined && rule.ordinal
+      ? nthWeekdayOfMonth(year, rule.month, rule.weekday, rule.ordinal)
+      : start.day;
+  return localMinutes({ year, month: rule.month, day, hour: start.hour, minute: start.minute });
+}
+
+/** UTC offset (minutes) a VTIMEZONE definition gives a local time */
+function offsetFromObservances(observances: Observance[], local: LocalDateTime): number {
+  const target = localMinutes(local);
+  let best: { onset: number; offset: number } | null = null;
+
+  for (const observance of observances) {
+    for (const year of [local.year - 1, local.year]) {
+      const onset = observanceOnset(observance, year);
+      if (onset !== null && onset <= target && (!best || onset > best.onset)) {
+        best = { onset, offset: observance.offsetTo };
+      }
+    }
+  }
+  if (best) return best.offset;
+
+  // Before every onset: the offset in effect before the earliest one
+  const earliest = [...observances].sort((a, b) => localMinutes(a.start) - localMinutes(b.start))[0];
+  return earliest ? earliest.offsetFrom : 0;
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface Component {
+  name: string;
+  properties: ContentLine[];
+  components: Component[];
+}
+
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n/g, '\n')
+    .replace(/\r/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.trim().length > 0);
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // The value starts at the first colon outside quotes
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).match(/(?:[^;"]|"[^"]*")+/g) || [];
+  if (!name) return null;
+
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf('=');
+    if (eq > 0) params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function parseComponents(text: string): Component[] {
+  const root: Component = { name: 'ROOT', properties: [], components: [] };
+  const stack = [root];
+
+  for (const line of unfoldLines(text)) {
+    const content = parseContentLine(line);
+    if (!content) continue;
+    const current = stack[stack.length - 1];
+
+    if (content.name === 'BEGIN') {
+      const component: Component = { name: content.value.toUpperCase(), properties: [], components: [] };
+      current.components.push(component);
+      stack.push(component);
+    } else if (content.name === 'END') {
+      if (stack.length > 1) stack.pop();
+    } else {
+      current.properties.push(content);
+    }
+  }
+  return root.components;
+}
+
+function parseObservance(component: Component): Observance | null {
+  const prop = (name: string) => component.properties.find(p => p.name === name)?.value;
+  const start = parseLocalDateTime(prop('DTSTART') || '');
+  if (!start) return null;
+
+  const observance: Observance = {
+    start,
+    offsetFrom: parseOffset(prop('TZOFFSETFROM') || '+0000'),
+    offsetTo: parseOffset(prop('TZOFFSETTO') || '+0000'),
+  };
+
+  const rrule = prop('RRULE');
+  if (rrule) {
+    const month = Number(/BYMONTH=(\d+)/i.exec(rrule)?.[1]) || start.month;
+    const byDay = /BYDAY=([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)/i.exec(rrule);
+    observance.rule = byDay
+      ? { month, weekday: WEEKDAY_CODES.indexOf(byDay[2].toUpperCase()), ordinal: Number(byDay[1] || 1) }
+      : { month };
+  }
+  return observance;
+}
+
+/** A TZID as an IANA zone, if it names or ends in one */
+function toIanaZone(tzid: string): string | null {
+  const segments = tzid.split('/');
+  if (isValidTimezone(tzid)) return tzid;
+  if (WINDOWS_ZONES[tzid]) return WINDOWS_ZONES[tzid];
+
+  // Prefixed names like /mozilla.org/20050126_1/Europe/Paris
+  for (let i = 1; i < segments.length - 1; i++) {
+    const candidate = segments.slice(i).join('/');
+    if (isValidTimezone(candidate)) return candidate;
+  }
+  return null;
+}
+
+interface ResolvedTime {
+  date: Date;
+  allDay: boolean;
+  timeZone: string | null;
+}
+
+type ZoneResolver = (value: string, params: Record<string, string>) => ResolvedTime | null;
+
+function createZoneResolver(definitions: Map<string, Observance[]>, defaultTimeZone: string): ZoneResolver {
+  return (value, params) => {
+    const local = parseLocalDateTime(value);
+    if (!local) return null;
+
+    // All-day dates are days in the user's zone
+    if (params.VALUE === 'DATE' || /^\d{8}$/.test(value)) {
+      return { date: zonedTimeToUtc(local, defaultTimeZone), allDay: true, timeZone: null };
+    }
+
+    if (value.endsWith('Z')) {
+      const date = new Date(Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second));
+      return { date, allDay: false, timeZone: null };
+    }
+
+    const tzid = params.TZID;
+    const iana = tzid ? toIanaZone(tzid) : null;
+    if (iana) return { date: zonedTimeToUtc(local, iana), allDay: false, timeZone: iana };
+
+    const observances = tzid ? definitions.get(tzid) : undefined;
+    if (observances?.length) {
+      const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+      return { date: new Date(asUtc - offsetFromObservances(observances, local) * MINUTE_MS), allDay: false, timeZone: null };
+    }
+
+    // Floating time: the same wall clock wherever the user is
+    return { date: zonedTimeToUtc(local, defaultTimeZone), allDay: false, timeZone: null };
+  };
+}
+
+function parseAttendee(line: ContentLine): ICalAttendee {
+  const email = line.value.replace(/^mailto:/i, '').trim();
+  const attendee: ICalAttendee = {};
+  if (email) attendee.email = email;
+  if (line.params.CN) attendee.name = line.params.CN;
+  if (line.params.PARTSTAT) attendee.status = line.params.PARTSTAT.toUpperCase() as ICalParticipationStatus;
+  if (line.params.ROLE) attendee.role = line.params.ROLE.toUpperCase();
+  return attendee;
+}
+
+function parseEvent(component: Component, resolveTime: ZoneResolver): ICalEvent | null {
+  const all = (name: string) => component.properties.filter(p => p.name === name);
+  const first = (name: string) => all(name)[0];
+  const text = (name: string) => (first(name) ? unescapeText(first(name).value) : undefined);
+
+  const dtstart = first('DTSTART');
+  const start = dtstart && resolveTime(dtstart.value, dtstart.params);
+  if (!start) return null;
+
+  const dtend = first('DTEND');
+  const duration = first('DURATION');
+  const resolvedEnd = dtend && resolveTime(dtend.value, dtend.params);
+  const end = resolvedEnd
+    ? resolvedEnd.date
+    : new Date(start.date.getTime() + (duration ? parseDuration(duration.value) : start.allDay ? DAY_MS : 0));
+
+  const event: ICalEvent = {
+    uid: text('UID') || `${formatUtcDateTime(start.date)}-${text('SUMMARY') || 'event'}`,
+    summary: text('SUMMARY') || '',
+    start: start.date,
+    end,
+  };
+
+  const description = text('DESCRIPTION');
+  if (description) event.description = description;
+  const location = text('LOCATION');
+  if (location) event.location = location;
+  if (start.allDay) event.allDay = true;
+  if (start.timeZone) event.timeZone = start.timeZone;
+
+  const geo = first('GEO')?.value.split(/[;,]/).map(Number);
+  if (geo && geo.length === 2 && geo.every(Number.isFinite)) event.geo = { latitude: geo[0], longitude: geo[1] };
+
+  const rrule = first('RRULE')?.value;
+  if (rrule) event.rrule = rrule.replace(/^RRULE:/i, '');
+
+  const exdates = all('EXDATE').flatMap(line =>
+    line.value.split(',').map(value => resolveTime(value, line.params)?.date).filter((d): d is Date => !!d)
+  );
+  if (exdates.length > 0) event.exdates = exdates;
+
+  const recurrenceId = first('RECURRENCE-ID');
+  const recurrenceStart = recurrenceId && resolveTime(recurrenceId.value, recurrenceId.params);
+  if (recurrenceStart) event.recurrenceId = recurrenceStart.date;
+
+  const status = first('STATUS')?.value.toUpperCase();
+  if (status === 'CONFIRMED' || status === 'TENTATIVE' || status === 'CANCELLED') event.status = status;
+
+  const organizer = first('ORGANIZER');
+  if (organizer) event.organizer = parseAttendee(organizer);
+  const attendees = all('ATTENDEE').map(parseAttendee);
+  if (attendees.length > 0) event.attendees = attendees;
+
+  const categories = all('CATEGORIES')
+    .flatMap(line => line.value.replace(/\\,/g, '\u0000').split(','))
+    .map(value => unescapeText(value.replace(/\u0000/g, '\\,')))
+    .filter(Boolean);
+  if (categories.length > 0) event.categories = categories;
+
+  const url = first('URL')?.value;
+  if (url) event.url = url;
+  const sequence = Number(first('SEQUENCE')?.value);
+  if (Number.isInteger(sequence)) event.sequence = sequence;
+  const lastModified = first('LAST-MODIFIED');
+  const modified = lastModified && resolveTime(lastModified.value, lastModified.params);
+  if (modified) event.lastModified = modified.date;
+
+  return event;
+}
+
+/**
+ * Parse .ics text. Every VCALENDAR in the text is read; events without a
+ * DTSTART are skipped.
+ */
+export function parseICal(text: string, options: ParseICalOptions = {}): ICalCalendar {
+  const calendars = parseComponents(text).filter(c => c.name === 'VCALENDAR');
+  const definitions = new Map<string, Observance[]>();
+  const events: ICalEvent[] = [];
+  let name: string | undefined;
+
+  for (const calendar of calendars) {
+    name ??= calendar.properties.find(p => p.name === 'X-WR-CALNAME')?.value;
+    for (const component of calendar.components.filter(c => c.name === 'VTIMEZONE')) {
+      const tzid = component.properties.find(p => p.name === 'TZID')?.value;
+      const observances = component.components.map(parseObservance).filter((o): o is Observance => !!o);
+      if (tzid) definitions.set(tzid, observances);
+    }
+  }
+
+  const resolveTime = createZoneResolver(definitions, resolveTimezone(options.defaultTimeZone));
+  for (const calendar of calendars) {
+    for (const component of calendar.components.filter(c => c.name === 'VEVENT')) {
+      const event = parseEvent(component, resolveTime);
+      if (event) events.push(event);
+    }
+  }
+
+  return { ...(name && { name: unescapeText(name) }), events };
+}
+
+// ============================================================================
+// SERIALIZING
+// ============================================================================
+
+function serializeAttendee(name: 'ATTENDEE' | 'ORGANIZER', attendee: ICalAttendee): string {
+  const params = [
+    attendee.name && `CN=${quoteParam(attendee.name)}`,
+    name === 'ATTENDEE' && attendee.role && `ROLE=${attendee.role}`,
+    name === 'ATTENDEE' && attendee.status && `PARTSTAT=${attendee.status}`,
+  ].filter(Boolean);
+  const value = attendee.email ? `mailto:${attendee.email}` : 'invalid:nomail';
+  return `${name}${params.map(p => `;${p}`).join('')}:${value}`;
+}
+
+/** A DTSTART-style property in the event's zone */
+function serializeTime(name: string, date: Date, event: ICalEvent, defaultTimeZone: string): string {
+  if (event.allDay) return `${name};VALUE=DATE:${formatLocalDate(date, event.timeZone || defaultTimeZone)}`;
+  if (event.timeZone && event.timeZone !== 'UTC' && isValidTimezone(event.timeZone)) {
+    return `${name};TZID=${event.timeZone}:${formatLocalDateTime(date, event.timeZone)}`;
+  }
+  return `${name}:${formatUtcDateTime(date)}`;
+}
+
+function serializeEvent(event: ICalEvent, stamp: Date, defaultTimeZone: string): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatUtcDateTime(stamp)}`,
+    serializeTime('DTSTART', event.start, event, defaultTimeZone),
+    serializeTime('DTEND', event.end, event, defaultTimeZone),
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+
+  if (event.recurrenceId) lines.push(serializeTime('RECURRENCE-ID', event.recurrenceId, event, defaultTimeZone));
+  if (event.rrule) lines.push(`RRULE:${event.rrule}`);
+  for (const exdate of event.exdates || []) lines.push(serializeTime('EXDATE', exdate, event, defaultTimeZone));
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.geo) lines.push(`GEO:${event.geo.latitude};${event.geo.longitude}`);
+  if (event.status) lines.push(`STATUS:${event.status}`);
+  if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+  if (event.organizer) lines.push(serializeAttendee('ORGANIZER', event.organizer));
+  for (const attendee of event.attendees || []) lines.push(serializeAttendee('ATTENDEE', attendee));
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.sequence !== undefined) lines.push(`SEQUENCE:${event.sequence}`);
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatUtcDateTime(event.lastModified)}`);
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Serialize a calendar to .ics text (CRLF line endings, folded lines).
+ */
+export function serializeICal(calendar: ICalCalendar, options: SerializeICalOptions = {}): string {
+  const stamp = options.now || new Date();
+  const defaultTimeZone = resolveTimezone(undefined);
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODUCT_ID}`, 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH'];
+
+  if (calendar.name) lines.push(`X-WR-CALNAME:${escapeText(calendar.name)}`);
+  if (options.refreshInterval) {
+    lines.push(`X-PUBLISHED-TTL:${options.refreshInterval}`, `REFRESH-INTERVAL;VALUE=DURATION:${options.refreshInterval}`);
+  }
+
+  // One VTIMEZONE per zone used, with rules from the first event's year
+  const zoneYears = new Map<string, number>();
+  for (const event of calendar.events) {
+    if (event.allDay || !event.timeZone || event.timeZone === 'UTC' || !isValidTimezone(event.timeZone)) continue;
+    const year = getZonedParts(event.start, event.timeZone).year;
+    zoneYears.set(event.timeZone, Math.min(zoneYears.get(event.timeZone) ?? year, year));
+  }
+  for (const [timeZone, year] of zoneYears) lines.push(...serializeVTimezone(timeZone, year));
+
+  for (const event of calendar.events) lines.push(...serializeEvent(event, stamp, defaultTimeZone));
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/** webcal:// links are plain HTTPS feeds */
+export function normalizeICalUrl(url: string): string {
+  return url.trim().replace(/^webcals?:\/\//i, 'https://');
+}
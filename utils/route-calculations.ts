@@ -8,6 +8,11 @@ export interface Coordinate {
   longitude: number;
 }
 
+/** How the user gets around */
+export type TravelMode = 'drive' | 'transit' | 'walk' | 'bike';
+
+export const TRAVEL_MODES: TravelMode[] = ['drive', 'transit', 'walk', 'bike'];
+
 /**
  * Calculate distance between two points using Haversine formula
  * @returns distance in miles
@@ -44,13 +49,40 @@ export function calculateRouteDistance(coordinates: Coordinate[]): number {
   return totalDistance;
 }
 
+/** Streets are longer than a straight line */
+const STREET_DETOUR_FACTOR = 1.25;
+
+/** Walking to and from stops plus the average wait */
+const TRANSIT_ACCESS_MINUTES = 15;
+
 /**
  * Estimate travel time based on distance
- * Assumes average speeds: 25 mph for short distances, 35 mph for longer routes
+ * This is the offline estimate: straight-line distance and typical speeds,
+ * used when no routing provider can answer (see services/travel-time.ts)
+ * - drive: 15 mph under a mile (local streets, parking), 25 mph up to
+ *   5 miles (city driving), 35 mph beyond (mix of city and highway)
+ * - walk: 3 mph, bike: 10 mph, both on streets rather than a straight line
+ * - transit: walking to and from stops and waiting, then 15 mph; short
+ *   trips are walked
  * @param distanceMiles - total distance in miles
+ * @param mode - how the user travels (default: drive)
  * @returns estimated time in minutes
  */
-export function estimateTravelTime(distanceMiles: number): number {
+export function estimateTravelTime(distanceMiles: number, mode: TravelMode = 'drive'): number {
+  switch (mode) {
+    case 'walk':
+      return Math.ceil(((distanceMiles * STREET_DETOUR_FACTOR) / 3) * 60);
+    case 'bike':
+      return Math.ceil(((distanceMiles * STREET_DETOUR_FACTOR) / 10) * 60);
+    case 'transit':
+      return Math.min(
+        estimateTravelTime(distanceMiles, 'walk'),
+        TRANSIT_ACCESS_MINUTES + Math.ceil(((distanceMiles * STREET_DETOUR_FACTOR) / 15) * 60)
+      );
+    case 'drive':
+      break;
+  }
+
   // For very short distances (< 1 mile), assume 15 mph (local streets, parking, etc.)
   if (distanceMiles < 1) {
     return Math.ceil((distanceMiles / 15) * 60);
@@ -122,10 +154,11 @@ export function calculateRouteStats(coordinates: Coordinate[]) {
  */
 export function calculateTravelTimeWithBuffer(
   from: Coordinate,
-  to: Coordinate
+  to: Coordinate,
+  mode: TravelMode = 'drive'
 ): number {
   const distance = calculateDistance(from, to);
-  const baseTime = estimateTravelTime(distance);
+  const baseTime = estimateTravelTime(distance, mode);
 
   // Add 5 min buffer for parking/walking (minimum 5 min)
   return Math.max(5, baseTime + 5);
@@ -177,16 +210,18 @@ export function isReasonableTravelTime(minutes: number): boolean {
  * @param eventA - First event (must have end_time and location)
  * @param eventB - Second event (must have start_time and location)
  * @param homeLocation - User's home location
+ * @param mode - How the user travels (default: drive)
  * @returns Whether events should be chained
  */
 export function shouldChainEvents(
   eventA: { end_time: string; location: Coordinate },
   eventB: { start_time: string; location: Coordinate },
-  homeLocation: Coordinate
+  homeLocation: Coordinate,
+  mode: TravelMode = 'drive'
 ): boolean {
   // Calculate travel times
-  const travelAToHome = estimateTravelTime(calculateDistance(eventA.location, homeLocation));
-  const travelHomeToB = estimateTravelTime(calculateDistance(homeLocation, eventB.location));
+  const travelAToHome = estimateTravelTime(calculateDistance(eventA.location, homeLocation), mode);
+  const travelHomeToB = estimateTravelTime(calculateDistance(homeLocation, eventB.location), mode);
   const roundTripTime = travelAToHome + travelHomeToB;
 
   // Calculate time gap between events (in minutes)
@@ -0,0 +1,193 @@
+/**
+ * Timezone utility functions
+ *
+ * Wall-clock math in an IANA zone ("America/New_York") rather than the
+ * device's zone. JavaScript Dates are instants; setHours/getDay and friends
+ * read and write them in whatever zone the device happens to be in, which
+ * is wrong for a venue in another city, a user travelling, or a server.
+ *
+ * Only Intl is used, so this works in Hermes, Node and Deno alike.
+ */
+
+export interface ZonedParts {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  /** 0 = Sunday */
+  weekday: number;
+}
+
+/** A wall-clock time to resolve in a zone (day may overflow the month) */
+export interface ZonedDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour?: number;
+  minute?: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+// ============================================================================
+// ZONES
+// ============================================================================
+
+export function isValidTimezone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The device's zone (`fallback` if Intl can't tell) */
+export function getDeviceTimezone(fallback: string = 'UTC'): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * The first valid zone, in order of preference — e.g. the event's own zone,
+ * then the user's profile zone. Falls back to the device's zone.
+ */
+export function resolveTimezone(...candidates: (string | null | undefined)[]): string {
+  return candidates.find(isValidTimezone) || getDeviceTimezone();
+}
+
+// ============================================================================
+// CONVERSION
+// ============================================================================
+
+/** Wall-clock time at `date` in `timeZone` (UTC if the zone is unknown) */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = getFormatter(isValidTimezone(timeZone) ? timeZone : 'UTC').formatToParts(date);
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value || 0);
+
+  const year = part('year');
+  const month = part('month');
+  const day = part('day');
+  return {
+    year,
+    month,
+    day,
+    hour: part('hour') % 24,
+    minute: part('minute'),
+    weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+  };
+}
+
+/** Minutes `timeZone` is ahead of UTC at `date` (-300 for New York in winter) */
+export function getTimezoneOffsetMinutes(date: Date, timeZone: string): number {
+  const local = getZonedParts(date, timeZone);
+  const localAsUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+  return Math.round((localAsUtc - Math.floor(date.getTime() / MINUTE_MS) * MINUTE_MS) / MINUTE_MS);
+}
+
+/**
+ * The instant a wall-clock time happens in `timeZone`.
+ *
+ * Around DST changes: a time skipped by spring-forward (2:30 AM) resolves
+ * to the same distance past the gap (3:30 AM); a time that happens twice
+ * in the fall resolves to the first one.
+ */
+export function zonedTimeToUtc(local: ZonedDateTime, timeZone: string): Date {
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour ?? 0, local.minute ?? 0);
+
+  // The zone's offset at the naive guess is usually the right one; near a
+  // transition the offset at the corrected instant may differ
+  const firstOffset = getTimezoneOffsetMinutes(new Date(asUtc), timeZone);
+  const first = asUtc - firstOffset * MINUTE_MS;
+  const secondOffset = getTimezoneOffsetMinutes(new Date(first), timeZone);
+  if (secondOffset === firstOffset) return new Date(first);
+
+  const second = asUtc - secondOffset * MINUTE_MS;
+  if (getTimezoneOffsetMinutes(new Date(second), timeZone) === secondOffset) return new Date(second);
+
+  // Neither offset round-trips: the time falls in a spring-forward gap
+  return new Date(first);
+}
+
+// ============================================================================
+// DAY MATH
+// ============================================================================
+
+/** The instant local midnight began, for the day containing `date` */
+export function startOfZonedDay(date: Date, timeZone: string): Date {
+  const local = getZonedParts(date, timeZone);
+  return zonedTimeToUtc({ year: local.year, month: local.month, day: local.day }, timeZone);
+}
+
+/** `hour:minute` local time on the zoned day containing `date` */
+export function setZonedTime(date: Date, hour: number, minute: number, timeZone: string): Date {
+  const local = getZonedParts(date, timeZone);
+  return zonedTimeToUtc({ year: local.year, month: local.month, day: local.day, hour, minute }, timeZone);
+}
+
+/**
+ * The same wall-clock time `days` later (or earlier). Across a DST change
+ * this is 23 or 25 hours per day, not 24.
+ */
+export function addZonedDays(date: Date, days: number, timeZone: string): Date {
+  const local = getZonedParts(date, timeZone);
+  return zonedTimeToUtc({ ...local, day: local.day + days }, timeZone);
+}
+
+/** Whether two instants fall on the same calendar day in `timeZone` */
+export function isSameZonedDay(a: Date, b: Date, timeZone: string): boolean {
+  const first = getZonedParts(a, timeZone);
+  const second = getZonedParts(b, timeZone);
+  return first.year === second.year && first.month === second.month && first.day === second.day;
+}
+
+/** Minutes after local midnight */
+export function getZonedMinutesOfDay(date: Date, timeZone: string): number {
+  const local = getZonedParts(date, timeZone);
+  return local.hour * 60 + local.minute;
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+/** YYYY-MM-DD for the zoned day containing `date` */
+export function formatZonedDateKey(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/** Short zone label for display ("CDT", "GMT+9") */
+export function getTimezoneAbbreviation(date: Date, timeZone: string): string {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' }).formatToParts(date);
+    return parts.find(p => p.type === 'timeZoneName')?.value || timeZone;
+  } catch {
+    return timeZone;
+  }
+}
@@ -10,6 +10,7 @@
  */
 
 import { SubscriptionTier } from '@/types/subscription';
+import { exposeExperiment } from '@/services/experiment-service';
 
 export interface UpgradePrompt {
   title: string;
@@ -48,6 +49,23 @@ export const REFRESH_COOLDOWN_PROMPTS: Record<SubscriptionTier, UpgradePrompt> =
   },
 };
 
+/**
+ * Refresh cooldown prompt for a user, with upgrade_prompt_copy experiment
+ * variants applied. Logs an exposure when the user is in the experiment.
+ */
+export function getRefreshCooldownPrompt(tier: SubscriptionTier, userId?: string | null): UpgradePrompt {
+  const prompt = REFRESH_COOLDOWN_PROMPTS[tier];
+  if (!prompt.title) return prompt; // Nothing to show (Plus)
+
+  const copy = exposeExperiment('upgrade_prompt_copy', userId);
+  return {
+    ...prompt,
+    title: copy.title ?? prompt.title,
+    primaryButton: copy.primaryButton ?? prompt.primaryButton,
+    featureHighlight: copy.showFeatureHighlight ? prompt.featureHighlight : undefined,
+  };
+}
+
 /**
  * Feature-locked prompts (when user tries to use Plus features)
  */